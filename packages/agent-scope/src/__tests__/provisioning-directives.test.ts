@@ -111,6 +111,24 @@ describe('provisioning directives: grammar', () => {
     expect(resolve('cody@hrc-runtime:T-1+node=svc').directives).toEqual({ node: 'svc' })
   })
 
+  test('a bare boolean key is sugar for key=true; denied flags stay denied', () => {
+    expect(resolve('cody@hrc-runtime:T-1+worktree').directives).toEqual({ worktree: true })
+    expect(resolve('cody@hrc-runtime:T-1+worktree=false').directives).toEqual({ worktree: false })
+    expect(resolve('cody@hrc-runtime:T-1+remote+sonnet').directives).toEqual({
+      remote: true,
+      model: 'sonnet',
+    })
+
+    expect(directiveError(() => resolve('cody@hrc-runtime:T-1+yolo')).code).toBe(
+      'DENIED_PROVISION_KEY'
+    )
+    const err = directiveError(() =>
+      resolve('cody@hrc-runtime:T-1+worktree', { models: ['worktree'], reasoning: [] })
+    )
+    expect(err.code).toBe('AMBIGUOUS_DIRECTIVE')
+    expect(err.message).toContain('"model=worktree" or "worktree=true"')
+  })
+
   test('a bare token in two closed namespaces is a hard AMBIGUOUS_DIRECTIVE error', () => {
     const err = directiveError(() => resolve('cody@hrc-runtime:T-1+high', AMBIGUOUS_VOCAB))
     expect(err.code).toBe('AMBIGUOUS_DIRECTIVE')
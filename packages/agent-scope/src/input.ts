@@ -71,8 +71,9 @@ export type ResolveQualifiedScopeOptions = {
    * zero-dependency and cannot reach the profile merge layer, so the caller
    * that owns the merge passes the resolved vocabulary in.
    *
-   * When omitted, bare tokens cannot resolve (no namespace is open, so they are
-   * `UNKNOWN_PROVISION_KEY`) and `key=value` directives pass through with their
+   * When omitted, only boolean-flag bare tokens (`+worktree`) resolve — the
+   * vocabulary namespaces are closed, so any other bare token is
+   * `UNKNOWN_PROVISION_KEY` — and `key=value` directives pass through with their
    * keys checked but their values unvalidated. Structural checks — deny-list,
    * unknown key, value kind — always apply.
    */
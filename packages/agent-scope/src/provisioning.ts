@@ -7,6 +7,9 @@
  *   input     := handle [directive]...
  *   directive := "+" (key "=" value | bare-token)
  *
+ * A bare token is a registered model alias, a reasoning value, or the name of
+ * a boolean scalar (`+worktree` ≡ `+worktree=true`).
+ *
  * Ordering is `agent@project:task/role~lane+directives`; the block from the
  * FIRST "+" is stripped before handle parsing ("+" is outside the segment token
  * charset, so it can never be part of a handle). Directives are out-of-band:
@@ -40,6 +43,7 @@ const PROVISIONING_SCALAR_KINDS = {
   sandbox: 'string',
   approval: 'string',
   remote: 'boolean',
+  worktree: 'boolean',
 } as const
 
 type ProvisioningScalarKinds = typeof PROVISIONING_SCALAR_KINDS
@@ -178,11 +182,18 @@ function assertOverridableKey(key: string, token: string): asserts key is Provis
   )
 }
 
+/** Whether `token` names a boolean scalar, which a bare token switches on. */
+function isBooleanFlag(token: string): token is ScalarKeyOfKind<'boolean'> {
+  return isScalarKey(token) && PROVISIONING_SCALAR_KINDS[token] === 'boolean'
+}
+
 /**
  * Resolve a bare token inside the closed namespaces. A token that belongs to
  * two namespaces is a hard error rather than a precedence puzzle; a token that
  * belongs to none is unknown — `node=` and every other open-valued key are
- * reachable only as explicit `key=value`.
+ * reachable only as explicit `key=value`. Boolean scalars form the third
+ * namespace: `+worktree` is sugar for `+worktree=true`, and a denied flag
+ * (`+yolo`) is refused exactly as its `key=value` spelling would be.
  */
 function resolveBareToken(
   token: string,
@@ -190,11 +201,17 @@ function resolveBareToken(
 ): { key: ProvisioningScalarKey; raw: string } {
   const isModel = vocabulary?.models?.includes(token) ?? false
   const isReasoning = vocabulary?.reasoning?.includes(token) ?? false
-
-  if (isModel && isReasoning) {
+  const isFlag = isBooleanFlag(token)
+
+  if ([isModel, isReasoning, isFlag].filter(Boolean).length > 1) {
+    const spellings = [
+      ...(isModel ? [`"model=${token}"`] : []),
+      ...(isReasoning ? [`"reasoning=${token}"`] : []),
+      ...(isFlag ? [`"${token}=true"`] : []),
+    ]
     throw new ProvisionDirectiveError(
-      `ambiguous provisioning directive "${token}": it is both a registered model alias and a ` +
-        `reasoning value; spell it as "model=${token}" or "reasoning=${token}"`,
+      `ambiguous provisioning directive "${token}": it belongs to more than one of the registered ` +
+        `model aliases, reasoning values, and boolean flags; spell it as ${spellings.join(' or ')}`,
       'AMBIGUOUS_DIRECTIVE'
     )
   }
@@ -204,9 +221,13 @@ function resolveBareToken(
   if (isReasoning) {
     return { key: 'reasoning', raw: token }
   }
+  if (isFlag) {
+    assertOverridableKey(token, token)
+    return { key: token, raw: 'true' }
+  }
 
   throw new ProvisionDirectiveError(
-    `unknown provisioning directive "${token}": bare tokens resolve only inside the closed namespaces (registered model aliases, reasoning values); every other key must be spelled "key=value" (node= is explicit-only)`,
+    `unknown provisioning directive "${token}": bare tokens resolve only inside the closed namespaces (registered model aliases, reasoning values, boolean flags); every other key must be spelled "key=value" (node= is explicit-only)`,
     'UNKNOWN_PROVISION_KEY'
   )
 }
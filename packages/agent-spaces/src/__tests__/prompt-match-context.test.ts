@@ -0,0 +1,37 @@
+/**
+ * Context fields that context-template `when` predicates match on: the scope
+ * role and lane parsed from the session's ScopeRef.
+ */
+import { describe, expect, it } from 'bun:test'
+
+import type { RuntimePlacement } from 'spaces-config'
+
+import { buildPromptExpansionContext } from '../broker-invocation.js'
+
+function makePlacement(scopeRef: string): RuntimePlacement {
+  return {
+    agentRoot: '/tmp/agents/rex',
+    projectRoot: '/tmp/project',
+    runMode: 'task',
+    bundle: { kind: 'agent-project', agentName: 'rex' },
+    correlation: { sessionRef: { scopeRef, laneRef: 'lane:review' } },
+  }
+}
+
+describe('prompt match context', () => {
+  it('carries the scope role and lane from the session ref', () => {
+    const context = buildPromptExpansionContext(
+      makePlacement('agent:rex:project:agent-spaces:task:T-1:role:reviewer')
+    )
+
+    expect(context.role).toBe('reviewer')
+    expect(context.lane).toBe('review')
+    expect(context.projectId).toBe('agent-spaces')
+  })
+
+  it('leaves the role unset when the scope names none', () => {
+    expect(
+      buildPromptExpansionContext(makePlacement('agent:rex:project:agent-spaces')).role
+    ).toBeUndefined()
+  })
+})
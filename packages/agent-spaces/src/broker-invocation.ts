@@ -33,6 +33,7 @@ interface HandleParts {
   projectId?: string | undefined
   taskId?: string | undefined
   lane?: string | undefined
+  role?: string | undefined
 }
 
 /**
@@ -90,6 +91,9 @@ export function deriveHandleParts(placement: RuntimePlacement): HandleParts {
       if (parsed.taskId !== undefined) {
         parts.taskId = parsed.taskId
       }
+      if (parsed.roleName !== undefined) {
+        parts.role = parsed.roleName
+      }
     } catch (error) {
       // Best-effort fallback for older callers that sent shorthand handles
       // instead of canonical ScopeRefs. A genuine parse failure on a value that
@@ -135,6 +139,7 @@ export function buildPromptExpansionContext(placement: RuntimePlacement): Contex
     projectId: handleParts.projectId,
     taskId: handleParts.taskId,
     lane: handleParts.lane,
+    role: handleParts.role,
     ...(placement.projectRoot !== undefined ? { projectRoot: placement.projectRoot } : {}),
     runMode: placement.runMode,
   }
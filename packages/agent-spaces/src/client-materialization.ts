@@ -8,18 +8,22 @@ import {
   type HygieneGateFinding,
   type LintWarning,
   type LockFile,
+  type LockSpaceEntry,
   PORTABLE_SPACES_REGISTRY,
   PathResolver,
+  type SpaceKey,
   type SpaceRefString,
   asSha256Integrity,
   asSpaceId,
   computeClosure,
   discoverSkills,
   ensureImmutableRegistry,
+  explainPermissions,
   generateLockFileForTarget,
   getRegistryPath,
   lintSpaces,
   readHooksWithPrecedence,
+  readPermissionsToml,
   resolveTarget,
 } from 'spaces-config'
 import { materializeFromRefs, materializeTarget } from 'spaces-execution'
@@ -174,6 +178,7 @@ export async function materializeSpec(
         }
       | undefined
     agentLocalComponents?: AgentLocalComponents | undefined
+    agentToolsEnv?: Record<string, string> | undefined
   }
 ): Promise<MaterializedSpec> {
   const registryPathOverride = options?.registryPathOverride
@@ -192,6 +197,7 @@ export async function materializeSpec(
       ...(options?.agentLocalComponents
         ? { agentLocalComponents: options.agentLocalComponents }
         : {}),
+      ...(options?.agentToolsEnv ? { agentToolsEnv: options.agentToolsEnv } : {}),
       ...(options?.materializationIdentity
         ? { materializationIdentity: options.materializationIdentity }
         : {}),
@@ -241,6 +247,7 @@ export async function materializeSpec(
       ...(options?.agentLocalComponents
         ? { agentLocalComponents: options.agentLocalComponents }
         : {}),
+      ...(options?.agentToolsEnv ? { agentToolsEnv: options.agentToolsEnv } : {}),
       ...(options?.materializationIdentity
         ? { materializationIdentity: options.materializationIdentity }
         : {}),
@@ -284,6 +291,7 @@ export async function materializeSpec(
     ...(options?.agentLocalComponents
       ? { agentLocalComponents: options.agentLocalComponents }
       : {}),
+    ...(options?.agentToolsEnv ? { agentToolsEnv: options.agentToolsEnv } : {}),
     ...(options?.materializationIdentity
       ? { materializationIdentity: options.materializationIdentity }
       : {}),
@@ -303,11 +311,23 @@ export async function materializeSpec(
   }
 }
 
-export async function collectLintWarnings(
+export interface LockedSpaceDir {
+  key: SpaceKey
+  entry: LockSpaceEntry
+  /** Directory the space's sources live in */
+  pluginPath: string
+}
+
+/**
+ * Resolve the spec's lock and return each space in load order with the
+ * directory its sources live in (registry checkout for @dev, snapshot otherwise).
+ * Resolve once and hand the result to each collector that needs it.
+ */
+export async function resolveLockedSpaceDirs(
   spec: ValidatedSpec,
   aspHome: string,
   registryPathOverride?: string | undefined
-): Promise<LintWarning[]> {
+): Promise<LockedSpaceDir[]> {
   const { targetName, lock, registryPath } = await resolveSpecToLock(spec, aspHome, {
     registryPathOverride,
   })
@@ -320,7 +340,7 @@ export async function collectLintWarnings(
   }
 
   const paths = new PathResolver({ aspHome })
-  const lintData = target.loadOrder.map((key) => {
+  return target.loadOrder.map((key) => {
     const entry = lock.spaces[key]
     if (!entry) {
       throw new Error(`Space entry "${key}" not found in lock for target "${targetName}"`)
@@ -329,24 +349,47 @@ export async function collectLintWarnings(
     const pluginPath = isDev
       ? join(registryPath, entry.path)
       : paths.snapshot(asSha256Integrity(entry.integrity))
+    return { key, entry, pluginPath }
+  })
+}
 
-    return {
-      key,
-      manifest: {
-        schema: 1 as const,
-        id: asSpaceId(entry.id),
-        plugin: {
-          name: entry.plugin.name,
-          version: entry.plugin.version,
-        },
+export async function collectLintWarnings(spaces: LockedSpaceDir[]): Promise<LintWarning[]> {
+  const lintData = spaces.map(({ key, entry, pluginPath }) => ({
+    key,
+    manifest: {
+      schema: 1 as const,
+      id: asSpaceId(entry.id),
+      plugin: {
+        name: entry.plugin.name,
+        version: entry.plugin.version,
       },
-      pluginPath,
-    }
-  })
+    },
+    pluginPath,
+  }))
 
   return lintSpaces({ spaces: lintData })
 }
 
+/**
+ * Explain each space's permissions.toml under the given harness's enforcement
+ * semantics. Spaces without permissions are omitted.
+ */
+export async function collectPermissions(
+  spaces: LockedSpaceDir[],
+  harnessId: HarnessId
+): Promise<Array<{ spaceKey: string; lines: string[] }>> {
+  const result: Array<{ spaceKey: string; lines: string[] }> = []
+  for (const { key, pluginPath } of spaces) {
+    const permissions = await readPermissionsToml(pluginPath)
+    if (!permissions) continue
+    const lines = explainPermissions(permissions, harnessId)
+    if (lines.length > 0) {
+      result.push({ spaceKey: key, lines })
+    }
+  }
+  return result
+}
+
 export async function collectHooks(pluginDirs: string[]): Promise<string[]> {
   const hooks: string[] = []
   for (const dir of pluginDirs) {
@@ -4,6 +4,7 @@ import {
   HARNESS_PROVIDERS,
   getHarnessFrontendsForProvider,
   normalizeAgentSdkModel,
+  normalizeHarnessId,
 } from 'spaces-config'
 import { harnessRegistry } from 'spaces-execution'
 import { buildCodexAppServerLaunchDescriptor } from 'spaces-harness-codex'
@@ -14,8 +15,10 @@ import {
 import {
   collectHooks,
   collectLintWarnings,
+  collectPermissions,
   collectTools,
   materializeSpec,
+  resolveLockedSpaceDirs,
   resolveSpecToLock,
   validateSpec,
 } from './client-materialization.js'
@@ -113,16 +116,22 @@ export function createAgentSpacesClient(
         })
         const hooks = await collectHooks(materialized.materialization.pluginDirs)
         const tools = await collectTools(materialized.materialization.mcpConfigPath)
-        const lintWarnings =
-          req.runLint === true
-            ? await collectLintWarnings(spec, req.aspHome, req.registryPath)
-            : undefined
+        const spaces = await resolveLockedSpaceDirs(spec, req.aspHome, req.registryPath)
+        const lintWarnings = req.runLint === true ? await collectLintWarnings(spaces) : undefined
+        const permissions = await collectPermissions(
+          spaces,
+          normalizeHarnessId(req.harness) ?? frontendDef.internalId
+        )
         const response: DescribeResponse = {
           hooks,
           skills: materialized.skills,
           tools,
         }
 
+        if (permissions.length > 0) {
+          response.permissions = permissions
+        }
+
         if (lintWarnings) {
           response.lintWarnings = lintWarnings
         }
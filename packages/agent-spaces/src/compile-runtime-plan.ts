@@ -752,6 +752,7 @@ function toProcessLimits(
     ...(limits.turnTimeoutMs !== undefined ? { turnTimeoutMs: limits.turnTimeoutMs } : {}),
     ...(limits.stopGraceMs !== undefined ? { stopGraceMs: limits.stopGraceMs } : {}),
     ...(limits.maxEventBytes !== undefined ? { maxEventBytes: limits.maxEventBytes } : {}),
+    ...(limits.maxRuntimeAgeMs !== undefined ? { maxRuntimeAgeMs: limits.maxRuntimeAgeMs } : {}),
   }
 }
 
@@ -1,5 +1,5 @@
 import type { AgentLocalComponents, RuntimePlacement } from 'spaces-config'
-import { prepareAgentToolRuntime } from 'spaces-execution'
+import { prepareAgentToolRuntime, prepareAgentToolsServerEnv } from 'spaces-execution'
 
 import { RESERVED_AGENT_SESSION_ENV_KEYS } from './agent-session-env.js'
 import { buildCorrelationEnvVars } from './placement-api.js'
@@ -108,3 +108,22 @@ export async function composeAgentLocalEnv(
 
   return { lockedEnv, dispatchEnv, env, pathPrepend, warnings }
 }
+
+/**
+ * Env the built-in agent-tools MCP server is registered with at materialization:
+ * the same agent-local vars {@link composeAgentLocalEnv} exports to the harness.
+ * Undefined when the agent has no tools.
+ */
+export async function resolveAgentToolsServerEnv(
+  placement: RuntimePlacement,
+  agentLocalComponents: AgentLocalComponents | undefined
+): Promise<Record<string, string> | undefined> {
+  if (agentLocalComponents?.hasTools !== true) return undefined
+  const projectId = buildCorrelationEnvVars(placement)['AGENT_PROJECT']
+  return prepareAgentToolsServerEnv({
+    agentRoot: placement.agentRoot,
+    projectRoot: placement.projectRoot,
+    ...(projectId !== undefined ? { projectId } : {}),
+    components: agentLocalComponents,
+  })
+}
@@ -20,7 +20,7 @@ import {
 import { buildCodexAppServerLaunchDescriptor } from 'spaces-harness-codex'
 import type { AttachmentRef } from 'spaces-runtime'
 import type { MaterializeResult } from 'spaces-runtime'
-import { expandTemplate, materializeSystemPrompt } from 'spaces-runtime'
+import { buildPromptMatchContext, expandTemplate, materializeSystemPrompt } from 'spaces-runtime'
 
 import { buildPromptExpansionContext, deriveHandleParts } from './broker-invocation.js'
 import { type MaterializedSpec, materializeSpec } from './client-materialization.js'
@@ -31,7 +31,7 @@ import {
   formatDisplayCommand,
   resolveFrontend,
 } from './client-support.js'
-import { composeAgentLocalEnv } from './compose-agent-local-env.js'
+import { composeAgentLocalEnv, resolveAgentToolsServerEnv } from './compose-agent-local-env.js'
 import type {
   BuildProcessInvocationSpecRequest,
   BuildProcessInvocationSpecResponse,
@@ -158,7 +158,8 @@ export async function preparePlacementCliRuntime(
   // Validate provider match with continuation if provided
   assertProviderMatch(frontendDef, req.continuation)
 
-  const placementContext = await resolvePlacementContext({ ...placement, dryRun: true })
+  const aspHome = req.aspHome ?? defaultAspHome ?? getAspHome()
+  const placementContext = await resolvePlacementContext({ ...placement, aspHome, dryRun: true })
   const { spec } = placementContext.materialization
 
   // Resolve placement to get audit metadata and materialization inputs
@@ -167,7 +168,6 @@ export async function preparePlacementCliRuntime(
   // Resolve effective cwd from placement
   const cwd = resolvedBundle.cwd
 
-  const aspHome = req.aspHome ?? defaultAspHome ?? getAspHome()
   await sweepAspTempArtifactsWithinBudget(aspHome)
   const runtimePlan = await planPlacementRuntime({
     placement,
@@ -231,6 +231,8 @@ export async function preparePlacementCliRuntime(
         })()
       : undefined
 
+  const agentToolsEnv = await resolveAgentToolsServerEnv(placement, agentLocalComponents)
+
   // Unified materialization: use the shared placement context, then materialize the resolved spec.
   const materialized = await materializeSpec(spec, aspHome, runtimePlan.harnessId, {
     ...(defaultRegistryPath !== undefined ? { registryPathOverride: defaultRegistryPath } : {}),
@@ -241,6 +243,7 @@ export async function preparePlacementCliRuntime(
       : {}),
     ...(materializationIdentity ? { materializationIdentity } : {}),
     agentLocalComponents,
+    ...(agentToolsEnv !== undefined ? { agentToolsEnv } : {}),
   })
   const launchOverlayDir = join(aspHome, 'tmp', 'launch-overlays', randomUUID())
   let systemPrompt: MaterializeResult | undefined
@@ -250,7 +253,12 @@ export async function preparePlacementCliRuntime(
       ...(handleParts.agentId !== undefined ? { agentId: handleParts.agentId } : {}),
       ...(handleParts.projectId !== undefined ? { projectId: handleParts.projectId } : {}),
       ...(handleParts.taskId !== undefined ? { taskId: handleParts.taskId } : {}),
-      ...(handleParts.lane !== undefined ? { lane: handleParts.lane } : {}),
+      ...buildPromptMatchContext({
+        harness: runtimePlan.harnessId,
+        modelProvider: runtimePlan.provider,
+        lane: handleParts.lane,
+        role: handleParts.role,
+      }),
     })
     systemPrompt =
       materializedSystemPrompt !== undefined
@@ -9,7 +9,7 @@ export {
   resolveFrontend,
   resolveModel,
 } from './client-support.js'
-export { composeAgentLocalEnv } from './compose-agent-local-env.js'
+export { composeAgentLocalEnv, resolveAgentToolsServerEnv } from './compose-agent-local-env.js'
 export type { AgentSpacesClientOptions, PlacementRunTurnRequest } from './placement-api.js'
 export type {
   AgentEvent,
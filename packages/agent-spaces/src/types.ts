@@ -296,12 +296,19 @@ export interface DescribeRequest {
   cwd?: string | undefined
   hostSessionId?: string | undefined
   runLint?: boolean | undefined
+  /**
+   * Harness whose enforcement semantics annotate `permissions` (any accepted
+   * harness name). Defaults to the frontend's harness.
+   */
+  harness?: string | undefined
 }
 
 export interface DescribeResponse {
   hooks: string[]
   skills: string[]
   tools: string[]
+  /** permissions.toml facets per space, annotated enforced/best_effort/lint_only. */
+  permissions?: Array<{ spaceKey: string; lines: string[] }> | undefined
   agentSdkSessionParams?: Array<{ paramName: string; paramValue: unknown }> | undefined
   lintWarnings?: LintWarning[] | undefined
 }
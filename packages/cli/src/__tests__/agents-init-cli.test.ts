@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { execFileSync } from 'node:child_process'
+import { existsSync, readdirSync } from 'node:fs'
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+const ASP_CLI = join(import.meta.dirname, '..', '..', 'bin', 'asp.js')
+
+function runAsp(args: string[], cwd: string): { status: number; stdout: string; stderr: string } {
+  try {
+    const stdout = execFileSync('bun', ['run', ASP_CLI, ...args], {
+      cwd,
+      encoding: 'utf8',
+      timeout: 60_000,
+      env: { ...process.env, NO_COLOR: '1', ASP_AGENTS_ROOT: '' },
+      stdio: ['pipe', 'pipe', 'pipe'],
+    })
+    return { status: 0, stdout, stderr: '' }
+  } catch (error) {
+    const failed = error as { status?: number; stdout?: string; stderr?: string }
+    return { status: failed.status ?? 1, stdout: failed.stdout ?? '', stderr: failed.stderr ?? '' }
+  }
+}
+
+describe('asp agents init', () => {
+  let base: string
+
+  beforeEach(async () => {
+    base = await mkdtemp(join(tmpdir(), 'asp-agents-init-'))
+  })
+
+  afterEach(async () => {
+    await rm(base, { recursive: true, force: true })
+  })
+
+  test('--dry-run prints the file plan and writes nothing', () => {
+    const agentsRoot = join(base, 'agents')
+    const result = runAsp(
+      ['agents', 'init', 'mable', '--agents-root', agentsRoot, '--with-heartbeat', '--dry-run'],
+      base
+    )
+
+    expect(result.status).toBe(0)
+    expect(result.stdout).toContain(`Would create agent "mable" at ${join(agentsRoot, 'mable')}`)
+    expect(result.stdout).toContain('  SOUL.md')
+    expect(result.stdout).toContain('  agent-profile.toml')
+    expect(result.stdout).toContain('  spaces/')
+    expect(result.stdout).toContain('  HEARTBEAT.md')
+    expect(existsSync(agentsRoot)).toBe(false)
+  })
+
+  test('--dry-run validates the plan like a real run', async () => {
+    const agentsRoot = join(base, 'agents')
+    const invalid = runAsp(
+      ['agents', 'init', 'mable', '--agents-root', agentsRoot, '--harness', 'nope', '--dry-run'],
+      base
+    )
+    expect(invalid.status).not.toBe(0)
+    expect(invalid.stdout).not.toContain('Would create')
+    expect(existsSync(agentsRoot)).toBe(false)
+
+    await mkdir(join(agentsRoot, 'mable'), { recursive: true })
+    const taken = runAsp(
+      ['agents', 'init', 'mable', '--agents-root', agentsRoot, '--dry-run'],
+      base
+    )
+    expect(taken.status).not.toBe(0)
+    expect(taken.stderr).toContain('already exists')
+  })
+
+  test('--project places the agent under the declared agents-root and requires the key', async () => {
+    const projectRoot = join(base, 'project')
+    await mkdir(projectRoot)
+    await writeFile(join(projectRoot, 'asp-targets.toml'), 'schema = 1\n')
+
+    const missing = runAsp(['agents', 'init', 'clod', '--project', projectRoot], base)
+    expect(missing.status).not.toBe(0)
+    expect(missing.stderr).toContain('does not declare agents-root')
+
+    await writeFile(join(projectRoot, 'asp-targets.toml'), 'schema = 1\nagents-root = "agents"\n')
+    const created = runAsp(['agents', 'init', 'clod', '--project', projectRoot], base)
+    expect(created.status).toBe(0)
+    expect(readdirSync(join(projectRoot, 'agents', 'clod')).sort()).toEqual([
+      'SOUL.md',
+      'agent-profile.toml',
+      'spaces',
+    ])
+
+    const again = runAsp(['agents', 'init', 'clod', '--project', projectRoot], base)
+    expect(again.status).not.toBe(0)
+    expect(again.stderr).toContain('already exists')
+  })
+})
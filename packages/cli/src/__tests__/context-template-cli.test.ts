@@ -197,6 +197,64 @@ content = "second reminder"
     expect(result.stdout).not.toContain('prompt body should stay out of reminder output')
   })
 
+  test('gates reminder sections on the launch harness, provider, lane and role', async () => {
+    const fixture = await setupCliFixture()
+    await writeFile(
+      join(fixture.agentsRoot, 'context-template.toml'),
+      `
+schema_version = 2
+mode = "append"
+
+[[reminder]]
+name = "codex-only"
+type = "inline"
+content = "codex reminder"
+when = { harness = "codex", modelProvider = "openai" }
+
+[[reminder]]
+name = "claude-only"
+type = "inline"
+content = "claude reminder"
+when = { harness = "claude-code" }
+
+[[reminder]]
+name = "reviewer-lane"
+type = "inline"
+content = "reviewer reminder"
+when = { role = "reviewer", lane = "review" }
+`.trimStart()
+    )
+    const launchFile = join(fixture.aspHome, 'launch.json')
+    await writeFile(
+      launchFile,
+      JSON.stringify({
+        harness: 'codex',
+        provider: 'openai',
+        env: {
+          AGENT_SCOPE_REF: `agent:${fixture.targetName}:project:demo:task:T-1:role:reviewer`,
+          AGENT_LANE: 'review',
+        },
+      })
+    )
+
+    const result = runAsp(
+      [
+        'resolve-reminder',
+        fixture.targetName,
+        '--agents-root',
+        fixture.agentsRoot,
+        '--asp-home',
+        fixture.aspHome,
+      ],
+      { cwd: fixture.projectDir, env: { ...fixture.env, AGENT_LAUNCH_FILE: launchFile } }
+    )
+
+    expect(result.exitCode).toBe(0)
+    expect(result.stdout).toContain('codex reminder')
+    expect(result.stdout).toContain('reviewer reminder')
+    expect(result.stdout).not.toContain('claude reminder')
+  })
+
   test('infers the active target from hook runtime env for bare resolve-reminder', async () => {
     const fixture = await setupCliFixture()
     const bundleRoot = getProjectHarnessOutputPath(
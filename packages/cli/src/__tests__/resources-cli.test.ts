@@ -66,6 +66,29 @@ function runAspResourcesPlanInclude(includePath: string): { stdout: string; stde
   return { stdout: result.stdout, stderr: result.stderr }
 }
 
+function runAspResourcesPlanPreview(agentRoot: string, extraArgs: string[]) {
+  return spawnSync(
+    'bun',
+    [
+      'run',
+      ASP_CLI,
+      'resources',
+      'plan',
+      'smokey',
+      '--project',
+      'agent-spaces',
+      '--agent-root',
+      agentRoot,
+      ...extraArgs,
+    ],
+    {
+      encoding: 'utf8',
+      env: { ...process.env, NO_COLOR: '1' },
+      stdio: ['pipe', 'pipe', 'pipe'],
+    }
+  )
+}
+
 describe('asp resources plan', () => {
   test('prints byte-stable plan JSON with human summary on stderr', () => {
     const first = runAspResourcesPlan()
@@ -100,4 +123,39 @@ describe('asp resources plan', () => {
     ])
     expect(result.stderr).toContain('Compiled resources plan for smokey@agent-spaces: 1 resources')
   })
+
+  test('previews the next fire times of timezone-aware schedules on stderr', () => {
+    const result = runAspResourcesPlanPreview(join(RESOURCE_AGENT_ROOT, '..', '..', 'variants'), [
+      '--include',
+      'schedule-timezone.toml',
+      '--next',
+      '2',
+      '--from',
+      '2026-03-06T00:00:00Z',
+    ])
+
+    expect(result.status).toBe(0)
+    const plan = JSON.parse(result.stdout) as {
+      resources: Array<{ desiredJson: { schedule: unknown } }>
+    }
+    expect(plan.resources[0]?.desiredJson.schedule).toEqual({
+      cron: '0 8 * * 1-5',
+      timezone: 'America/Chicago',
+    })
+    expect(result.stderr).toContain(
+      [
+        'Next 2 fire times after 2026-03-06T00:00:00.000Z:',
+        '  daily-triage  0 8 * * 1-5  (America/Chicago)',
+        '    2026-03-06T08:00:00-06:00  2026-03-06T14:00:00.000Z',
+        '    2026-03-09T08:00:00-05:00  2026-03-09T13:00:00.000Z',
+      ].join('\n')
+    )
+  })
+
+  test('rejects a non-numeric --next count', () => {
+    const result = runAspResourcesPlanPreview(RESOURCE_AGENT_ROOT, ['--next', 'soon'])
+
+    expect(result.status).not.toBe(0)
+    expect(result.stderr).toContain('--next must be a positive integer')
+  })
 })
@@ -0,0 +1,187 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+import { spawnSync } from 'node:child_process'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { openResourceProjectionStore } from '../commands/resources/projection-store.js'
+
+const ASP_CLI = join(import.meta.dirname, '..', '..', 'bin', 'asp.js')
+
+const tempDirs: string[] = []
+
+function tempDir(prefix: string): string {
+  const dir = mkdtempSync(join(tmpdir(), prefix))
+  tempDirs.push(dir)
+  return dir
+}
+
+afterEach(() => {
+  for (const dir of tempDirs.splice(0)) {
+    rmSync(dir, { recursive: true, force: true })
+  }
+})
+
+function writeSchedule(agentRoot: string, name: string, cron: string): void {
+  mkdirSync(join(agentRoot, 'schedules'), { recursive: true })
+  writeFileSync(
+    join(agentRoot, 'schedules', `${name}.toml`),
+    `schema = 1
+name = "${name}"
+enabled = true
+
+[target]
+project = "agent-spaces"
+agent = "smokey"
+
+[trigger]
+cron = "${cron}"
+
+[input]
+content = "Run ${name}."
+`
+  )
+}
+
+function runAspResources(
+  command: 'diff' | 'apply',
+  aspHome: string,
+  agentRoot: string,
+  extraArgs: string[] = []
+) {
+  return spawnSync(
+    'bun',
+    [
+      'run',
+      ASP_CLI,
+      'resources',
+      command,
+      'smokey',
+      '--project',
+      'agent-spaces',
+      '--agent-root',
+      agentRoot,
+      '--asp-home',
+      aspHome,
+      ...extraArgs,
+    ],
+    {
+      encoding: 'utf8',
+      env: { ...process.env, NO_COLOR: '1' },
+      stdio: ['pipe', 'pipe', 'pipe'],
+    }
+  )
+}
+
+function changeActions(stdout: string): Record<string, string> {
+  const { changes } = JSON.parse(stdout) as {
+    changes: Array<{ action: string; projectionPk: string }>
+  }
+  return Object.fromEntries(changes.map((change) => [change.projectionPk, change.action]))
+}
+
+describe('asp resources diff/apply', () => {
+  test('applies idempotently and stamps lastReconciledAt', () => {
+    const aspHome = tempDir('asp-resources-apply-home-')
+    const agentRoot = tempDir('asp-resources-apply-agent-')
+    writeSchedule(agentRoot, 'triage', '0 8 * * 1-5')
+
+    const before = runAspResources('diff', aspHome, agentRoot)
+    expect(before.status).toBe(0)
+    expect(before.stdout).toContain('  + jobs/agent-smokey.triage  scheduled-job triage')
+    expect(before.stdout).toContain(
+      'Plan: 1 to create, 0 to update, 0 orphaned, 0 unchanged, 0 conflicting'
+    )
+
+    const first = runAspResources('apply', aspHome, agentRoot, ['--now', '2026-03-09T08:00:00Z'])
+    expect(first.status).toBe(0)
+    expect(first.stdout).toContain(
+      'Applied resources plan for agent:smokey:project:agent-spaces at 2026-03-09T08:00:00.000Z: 1 created'
+    )
+
+    const second = runAspResources('apply', aspHome, agentRoot, [
+      '--now',
+      '2026-03-10T08:00:00Z',
+      '--json',
+    ])
+    expect(second.status).toBe(0)
+    expect(changeActions(second.stdout)).toEqual({ 'agent-smokey.triage': 'unchanged' })
+
+    const store = openResourceProjectionStore(join(aspHome, 'resource-projections.sqlite'))
+    try {
+      expect(store.get('jobs', 'agent-smokey.triage')).toMatchObject({
+        projectionId: 'agent-directory:agent:smokey:project:agent-spaces:scheduled-job:triage',
+        createdAt: '2026-03-09T08:00:00.000Z',
+        updatedAt: '2026-03-09T08:00:00.000Z',
+        lastReconciledAt: '2026-03-10T08:00:00.000Z',
+        desiredJson: expect.objectContaining({ schedule: { cron: '0 8 * * 1-5' } }),
+      })
+    } finally {
+      store.close()
+    }
+  }, 20_000)
+
+  test('reports updated and orphaned projections and reconciles them', () => {
+    const aspHome = tempDir('asp-resources-apply-home-')
+    const agentRoot = tempDir('asp-resources-apply-agent-')
+    writeSchedule(agentRoot, 'triage', '0 8 * * 1-5')
+    writeSchedule(agentRoot, 'digest', '0 17 * * 5')
+    expect(runAspResources('apply', aspHome, agentRoot).status).toBe(0)
+
+    writeSchedule(agentRoot, 'triage', '30 8 * * 1-5')
+    rmSync(join(agentRoot, 'schedules', 'digest.toml'))
+
+    const diff = runAspResources('diff', aspHome, agentRoot)
+    expect(diff.stdout).toContain(
+      '  ~ jobs/agent-smokey.triage  scheduled-job triage: desiredJson.schedule, sourceHash'
+    )
+    expect(diff.stdout).toContain(
+      '  - jobs/agent-smokey.digest  scheduled-job digest (no longer in plan)'
+    )
+
+    const apply = runAspResources('apply', aspHome, agentRoot, ['--json'])
+    expect(changeActions(apply.stdout)).toEqual({
+      'agent-smokey.triage': 'update',
+      'agent-smokey.digest': 'orphan',
+    })
+    expect(changeActions(runAspResources('diff', aspHome, agentRoot, ['--json']).stdout)).toEqual({
+      'agent-smokey.triage': 'unchanged',
+    })
+  }, 20_000)
+
+  test('refuses to apply over a key held by another projection', () => {
+    const aspHome = tempDir('asp-resources-apply-home-')
+    const agentRoot = tempDir('asp-resources-apply-agent-')
+    writeSchedule(agentRoot, 'triage', '0 8 * * 1-5')
+
+    const store = openResourceProjectionStore(join(aspHome, 'resource-projections.sqlite'))
+    store.upsert({
+      projectionId: 'agent-directory:agent:smokey:project:other:scheduled-job:triage',
+      resourceKind: 'scheduled-job',
+      projectionTable: 'jobs',
+      projectionPk: 'agent-smokey.triage',
+      sourceOwnerScopeRef: 'agent:smokey:project:other',
+      resourceName: 'triage',
+      sourcePath: 'agents/smokey/schedules/triage.toml',
+      sourceHash: 'sha256-canonical-json/v1:0',
+      desiredProjectionHash: 'sha256-canonical-json/v1:0',
+      desiredJson: {},
+      sourceVersion: 1,
+      managedBy: 'agent-directory',
+      origin: 'created',
+      lastReconciledAt: '2026-01-01T00:00:00.000Z',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    })
+    store.close()
+
+    expect(runAspResources('diff', aspHome, agentRoot).stdout).toContain(
+      '  ! jobs/agent-smokey.triage  scheduled-job triage (key held by agent-directory:agent:smokey:project:other:scheduled-job:triage)'
+    )
+    const apply = runAspResources('apply', aspHome, agentRoot)
+    expect(apply.status).not.toBe(0)
+    expect(apply.stderr).toContain(
+      'Cannot apply resources plan: jobs/agent-smokey.triage is held by'
+    )
+  }, 20_000)
+})
@@ -0,0 +1,260 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+import { spawnSync } from 'node:child_process'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { openResourceRunHistory } from '../commands/resources/run-history.js'
+
+const ASP_CLI = join(import.meta.dirname, '..', '..', 'bin', 'asp.js')
+const RESOURCE_AGENT_ROOT = join(
+  import.meta.dirname,
+  '..',
+  '..',
+  '..',
+  'config',
+  'src',
+  '__fixtures__',
+  'resources',
+  'agents',
+  'smokey'
+)
+
+const tempDirs: string[] = []
+
+function tempDir(prefix: string): string {
+  const dir = mkdtempSync(join(tmpdir(), prefix))
+  tempDirs.push(dir)
+  return dir
+}
+
+afterEach(() => {
+  for (const dir of tempDirs.splice(0)) {
+    rmSync(dir, { recursive: true, force: true })
+  }
+})
+
+function runAspResourcesRun(aspHome: string, agentRoot: string, extraArgs: string[]) {
+  return spawnSync(
+    'bun',
+    [
+      'run',
+      ASP_CLI,
+      'resources',
+      'run',
+      'smokey',
+      '--project',
+      'agent-spaces',
+      '--agent-root',
+      agentRoot,
+      '--asp-home',
+      aspHome,
+      '--once',
+      '--dry-run',
+      '--json',
+      ...extraArgs,
+    ],
+    {
+      encoding: 'utf8',
+      env: { ...process.env, NO_COLOR: '1' },
+      stdio: ['pipe', 'pipe', 'pipe'],
+    }
+  )
+}
+
+function tickRuns(stdout: string): Array<Record<string, unknown>> {
+  return (JSON.parse(stdout) as { runs: Array<Record<string, unknown>> }).runs
+}
+
+describe('asp resources run', () => {
+  test('launches due jobs once per fire time and records them in run history', () => {
+    const aspHome = tempDir('asp-resources-run-home-')
+    // 2026-03-09 is a Monday, so daily-triage (`0 8 * * 1-5`) is due at 08:00Z.
+    const first = runAspResourcesRun(aspHome, RESOURCE_AGENT_ROOT, ['--at', '2026-03-09T08:00:00Z'])
+    expect(first.status).toBe(0)
+    expect(tickRuns(first.stdout)).toEqual([
+      {
+        runId: 'agent-smokey.daily-triage@2026-03-09T08:00:00.000Z',
+        projectionPk: 'agent-smokey.daily-triage',
+        scheduledFor: '2026-03-09T08:00:00.000Z',
+        stepId: 'run',
+        mode: 'task',
+        argv: [
+          'asp',
+          'agent',
+          'agent:smokey:project:agent-spaces:task:primary',
+          'task',
+          '--lane-ref',
+          'main',
+          '--run-id',
+          'agent-smokey.daily-triage@2026-03-09T08:00:00.000Z',
+          '--host-session-id',
+          'resources-run:agent-smokey.daily-triage@2026-03-09T08:00:00.000Z/run',
+          '--agent-root',
+          RESOURCE_AGENT_ROOT,
+          '--prompt',
+          'Review new inbox tasks and summarize the highest-risk platform work.',
+        ],
+        startedAt: '2026-03-09T08:00:00.000Z',
+        finishedAt: '2026-03-09T08:00:00.000Z',
+        status: 'dry-run',
+      },
+    ])
+
+    const repeat = runAspResourcesRun(aspHome, RESOURCE_AGENT_ROOT, [
+      '--at',
+      '2026-03-09T08:00:00Z',
+    ])
+    expect(repeat.status).toBe(0)
+    expect(tickRuns(repeat.stdout)).toEqual([])
+
+    const history = openResourceRunHistory(join(aspHome, 'resource-runs.sqlite'))
+    try {
+      expect(history.cursor('agent-smokey.daily-triage')?.toISOString()).toBe(
+        '2026-03-09T08:00:00.000Z'
+      )
+      expect(history.runs('agent-smokey.daily-triage').map((run) => run.status)).toEqual([
+        'dry-run',
+      ])
+    } finally {
+      history.close()
+    }
+  }, 20_000)
+
+  test('coalesces fires missed since the cursor into one run', () => {
+    const aspHome = tempDir('asp-resources-run-home-')
+    const first = runAspResourcesRun(aspHome, RESOURCE_AGENT_ROOT, ['--at', '2026-03-06T09:00:00Z'])
+    expect(tickRuns(first.stdout)).toEqual([])
+
+    // Friday 09:00 -> Tuesday 09:00 spans the Monday and Tuesday 08:00 fires.
+    const later = runAspResourcesRun(aspHome, RESOURCE_AGENT_ROOT, ['--at', '2026-03-10T09:00:00Z'])
+    expect(tickRuns(later.stdout).map((run) => run['scheduledFor'])).toEqual([
+      '2026-03-09T08:00:00.000Z',
+    ])
+  }, 20_000)
+
+  test('launches every step in its own host session and honors execution nodes', () => {
+    const aspHome = tempDir('asp-resources-run-home-')
+    const agentRoot = tempDir('asp-resources-run-agent-')
+    mkdirSync(join(agentRoot, 'schedules'))
+    writeFileSync(
+      join(agentRoot, 'schedules', 'fresh.toml'),
+      `schema = 1
+name = "fresh"
+enabled = true
+freshSession = true
+
+[target]
+project = "agent-spaces"
+agent = "smokey"
+
+[trigger]
+cron = "*/30 * * * *"
+
+[execution]
+node = "builder"
+
+[input]
+content = "Start over."
+`
+    )
+
+    const onBuilder = runAspResourcesRun(aspHome, agentRoot, [
+      '--node',
+      'builder',
+      '--at',
+      '2026-03-09T10:30:00Z',
+    ])
+    expect(onBuilder.status).toBe(0)
+    const [run] = tickRuns(onBuilder.stdout)
+    expect(run).toMatchObject({
+      stepId: 'run',
+      mode: 'task',
+      status: 'dry-run',
+    })
+    expect(run?.['argv']).toContain('resources-run:agent-smokey.fresh@2026-03-09T10:30:00.000Z/run')
+
+    const elsewhere = runAspResourcesRun(aspHome, agentRoot, [
+      '--node',
+      'laptop',
+      '--at',
+      '2026-03-09T11:00:00Z',
+    ])
+    expect(tickRuns(elsewhere.stdout)).toEqual([
+      expect.objectContaining({
+        status: 'skipped',
+        reason: 'execution.nodes [builder] does not include node "laptop"',
+      }),
+    ])
+  }, 20_000)
+
+  test('runs a saved --plan without --project', () => {
+    const aspHome = tempDir('asp-resources-run-home-')
+    const outside = tempDir('asp-resources-run-cwd-')
+    const compiled = spawnSync(
+      'bun',
+      [
+        'run',
+        ASP_CLI,
+        'resources',
+        'plan',
+        'smokey',
+        '--project',
+        'agent-spaces',
+        '--agent-root',
+        RESOURCE_AGENT_ROOT,
+      ],
+      { encoding: 'utf8', stdio: ['pipe', 'pipe', 'pipe'] }
+    )
+    expect(compiled.status).toBe(0)
+    const planFile = join(outside, 'plan.json')
+    writeFileSync(planFile, compiled.stdout)
+
+    const result = spawnSync(
+      'bun',
+      [
+        'run',
+        ASP_CLI,
+        'resources',
+        'run',
+        'smokey',
+        '--plan',
+        planFile,
+        '--asp-home',
+        aspHome,
+        '--once',
+        '--at',
+        '2026-03-09T08:00:00Z',
+        '--dry-run',
+        '--json',
+      ],
+      { cwd: outside, encoding: 'utf8', stdio: ['pipe', 'pipe', 'pipe'] }
+    )
+    expect(result.status).toBe(0)
+    expect(tickRuns(result.stdout).map((run) => run['projectionPk'])).toEqual([
+      'agent-smokey.daily-triage',
+    ])
+  }, 20_000)
+
+  test('requires --once for --at', () => {
+    const result = spawnSync(
+      'bun',
+      [
+        'run',
+        ASP_CLI,
+        'resources',
+        'run',
+        'smokey',
+        '--project',
+        'agent-spaces',
+        '--agent-root',
+        RESOURCE_AGENT_ROOT,
+        '--at',
+        '2026-03-09T08:00:00Z',
+      ],
+      { encoding: 'utf8', stdio: ['pipe', 'pipe', 'pipe'] }
+    )
+    expect(result.status).not.toBe(0)
+    expect(result.stderr).toContain('--at requires --once')
+  }, 20_000)
+})
@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+import { spawnSync } from 'node:child_process'
+import { cpSync, existsSync, mkdtempSync, realpathSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { PathResolver, provisionTaskWorktree } from 'spaces-config'
+
+const ASP_CLI = join(import.meta.dirname, '..', '..', 'bin', 'asp.js')
+const FIXTURES_DIR = join(
+  import.meta.dirname,
+  '..',
+  '..',
+  '..',
+  'config',
+  'src',
+  '__fixtures__',
+  'v2'
+)
+const AGENT_ROOT = join(FIXTURES_DIR, 'agent-root')
+
+const tempDirs: string[] = []
+
+afterEach(() => {
+  for (const dir of tempDirs.splice(0)) {
+    rmSync(dir, { recursive: true, force: true })
+  }
+})
+
+/** A git-committed copy of the v2 project fixture plus an empty ASP_HOME. */
+function setup(): { projectRoot: string; aspHome: string } {
+  const tmp = realpathSync(mkdtempSync(join(tmpdir(), 'asp-task-worktree-')))
+  tempDirs.push(tmp)
+  const projectRoot = join(tmp, 'demo')
+  cpSync(join(FIXTURES_DIR, 'project-root'), projectRoot, { recursive: true })
+  for (const args of [
+    ['init', '-q', '-b', 'main'],
+    ['add', '-A'],
+    ['-c', 'user.email=worktree@example.test', '-c', 'user.name=Worktree', 'commit', '-qm', 'init'],
+  ]) {
+    spawnSync('git', args, { cwd: projectRoot, stdio: 'ignore' })
+  }
+  return { projectRoot, aspHome: join(tmp, 'asp-home') }
+}
+
+function runAsp(args: string[], aspHome: string) {
+  return spawnSync('bun', ['run', ASP_CLI, ...args], {
+    encoding: 'utf8',
+    env: { ...process.env, ASP_HOME: aspHome, NO_COLOR: '1' },
+    stdio: ['pipe', 'pipe', 'pipe'],
+  })
+}
+
+function resolveTask(scope: string, projectRoot: string, aspHome: string) {
+  const result = runAsp(
+    [
+      'agent',
+      scope,
+      'resolve',
+      '--agent-root',
+      AGENT_ROOT,
+      '--project-root',
+      projectRoot,
+      '--json',
+    ],
+    aspHome
+  )
+  expect(result.status).toBe(0)
+  return JSON.parse(result.stdout) as {
+    placement: { cwd?: string }
+    resolved: { cwd: string }
+    worktree?: { path: string; cwd: string; branch: string; created: boolean }
+  }
+}
+
+/** What a real launch of the task scope does before spawning the harness. */
+function launchTask(taskId: string, projectRoot: string, aspHome: string) {
+  return provisionTaskWorktree({ paths: new PathResolver({ aspHome }), projectRoot, taskId })
+}
+
+describe('per-task worktrees', () => {
+  test('+worktree resolves each task into its own worktree without creating it', async () => {
+    const { projectRoot, aspHome } = setup()
+
+    const first = resolveTask('alice@demo:T-1+worktree', projectRoot, aspHome)
+    expect(first.worktree).toMatchObject({ branch: 'asp/task/T-1', created: true })
+    expect(first.worktree?.path.startsWith(join(aspHome, 'worktrees'))).toBe(true)
+    expect(first.placement.cwd).toBeUndefined()
+    expect(first.resolved.cwd).toBe(first.worktree?.cwd)
+    // resolve is read-only: the worktree is only created by a launch.
+    expect(existsSync(first.worktree?.path ?? '')).toBe(false)
+
+    await launchTask('T-1', projectRoot, aspHome)
+    const again = resolveTask('alice@demo:T-1+worktree', projectRoot, aspHome)
+    expect(again.worktree).toEqual({ ...first.worktree, created: false })
+
+    const other = resolveTask('alice@demo:T-2+worktree', projectRoot, aspHome)
+    expect(other.worktree?.path).not.toBe(first.worktree?.path)
+
+    // Without the opt-in the task runs in the project root, as before.
+    const plain = resolveTask('alice@demo:T-1', projectRoot, aspHome)
+    expect(plain.worktree).toBeUndefined()
+    expect(plain.resolved.cwd).toBe(projectRoot)
+  }, 20_000)
+
+  test('asp gc --closed-task removes the closed task worktree', async () => {
+    const { projectRoot, aspHome } = setup()
+    const closed = await launchTask('T-1', projectRoot, aspHome)
+    const open = await launchTask('T-2', projectRoot, aspHome)
+
+    const result = runAsp(
+      ['gc', '--project', projectRoot, '--asp-home', aspHome, '--closed-task', 'T-1'],
+      aspHome
+    )
+    expect(result.status).toBe(0)
+    expect(result.stdout).toContain('Task worktrees removed: 1')
+    expect(existsSync(closed?.path ?? '')).toBe(false)
+    expect(existsSync(open?.path ?? '')).toBe(true)
+  }, 20_000)
+})
@@ -4,7 +4,12 @@ import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
 import { tmpdir } from 'node:os'
 import { join } from 'node:path'
 
-import { analyzeSystemPromptArtifact } from '../commands/token-rent.js'
+import {
+  analyzeSystemPromptArtifact,
+  diffSystemPromptArtifacts,
+  resolveTokenRentPaths,
+} from '../commands/token-rent.js'
+import { getTokenCounter, tokenCounterForHarnessFamily } from '../token-counter.js'
 
 const ASP_CLI = join(import.meta.dirname, '..', '..', 'bin', 'asp.js')
 
@@ -38,6 +43,56 @@ describe('token-rent', () => {
     expect(sections[0]?.tokensPerDay).toBe((sections[0]?.tokens ?? 0) * 2)
   })
 
+  test('counts with offline BPE tables selected by harness family', () => {
+    expect(tokenCounterForHarnessFamily('codex').encoding).toBe('o200k')
+    expect(tokenCounterForHarnessFamily('claude-code').encoding).toBe('claude')
+    expect(tokenCounterForHarnessFamily('pi').encoding).toBe('claude')
+    expect(getTokenCounter('o200k').count('hello world')).toBe(2)
+    expect(getTokenCounter('claude').count('hello world')).toBe(2)
+    expect(getTokenCounter('chars').count('hello world')).toBe(3)
+  })
+
+  test('derives default paths from the environment instead of a fixed home', () => {
+    expect(
+      resolveTokenRentPaths({}, { ASP_AGENTS_ROOT: '/srv/var/agents', HOME: '/nonexistent' })
+    ).toEqual({ agentsRoot: '/srv/var/agents', hrcDb: '/srv/var/state/hrc/state.sqlite' })
+    expect(
+      resolveTokenRentPaths(
+        {},
+        { ASP_AGENTS_ROOT: '/srv/var/agents', HRC_STATE_DIR: '/run/hrc', HOME: '/nonexistent' }
+      ).hrcDb
+    ).toBe('/run/hrc/state.sqlite')
+    expect(resolveTokenRentPaths({}, { HOME: '/nonexistent' })).toEqual({
+      agentsRoot: undefined,
+      hrcDb: undefined,
+    })
+  })
+
+  test('diffs plan artifacts per section, ignoring reorders', () => {
+    const counter = getTokenCounter('chars')
+    const rows = diffSystemPromptArtifacts(
+      ['# Praesidium Platform\nmotd', '# Clod\nsoul', '# Scratch\nold notes'].join('\n\n---\n\n'),
+      [
+        '# Clod\nsoul',
+        '# Praesidium Platform\nmotd plus a much longer paragraph',
+        '# Checklist\nnew',
+      ].join('\n\n---\n\n'),
+      counter,
+      3,
+      'clod'
+    )
+
+    const bySource = new Map(rows.map((row) => [row.source, row]))
+    expect(bySource.get('AGENT_MOTD.md')).toMatchObject({ status: 'changed' })
+    expect(bySource.get('AGENT_MOTD.md')?.deltaTokensPerDay).toBe(
+      (bySource.get('AGENT_MOTD.md')?.deltaTokens ?? 0) * 3
+    )
+    expect(bySource.get('SOUL.md')).toMatchObject({ status: 'unchanged', deltaTokens: 0 })
+    expect(rows.find((row) => row.label === 'Scratch')?.status).toBe('removed')
+    expect(rows.find((row) => row.label === 'Checklist')?.status).toBe('added')
+    expect(rows[0]?.source).toBe('AGENT_MOTD.md')
+  })
+
   test('reports live sqlite runs against compiled_runtime_plans systemPromptFile artifacts', async () => {
     const tempDir = await mkdtemp(join(tmpdir(), 'asp-token-rent-'))
     try {
@@ -93,17 +148,60 @@ describe('token-rent', () => {
         '2026-06-03T00:00:00.000Z',
       ])
       const report = JSON.parse(stdout) as {
-        agents: Array<{ agent: string; runs: number; sessionsPerDay: number; sections: unknown[] }>
+        agents: Array<{
+          agent: string
+          runs: number
+          sessionsPerDay: number
+          tokenEncoding: string
+          sections: unknown[]
+        }>
         deadLayerCandidates: Array<{ path: string; regime: string }>
       }
 
       expect(report.agents[0]?.agent).toBe('alice')
       expect(report.agents[0]?.runs).toBe(2)
       expect(report.agents[0]?.sessionsPerDay).toBe(1)
+      expect(report.agents[0]?.tokenEncoding).toBe('o200k')
       expect(report.agents[0]?.sections).toHaveLength(3)
       expect(report.deadLayerCandidates).toContainEqual(
         expect.objectContaining({ path: 'USER.md', regime: 'session-start' })
       )
+
+      const editedPrompt = join(tempDir, 'system-prompt-edited.md')
+      await writeFile(
+        editedPrompt,
+        [
+          '# Praesidium Platform\nresident platform',
+          '# Alice\nresident soul, now with a long new paragraph about deployment etiquette',
+          '# Conventions\nresident rules',
+        ].join('\n\n---\n\n')
+      )
+      const diff = JSON.parse(
+        runAsp([
+          'token-rent',
+          '--diff',
+          'hash',
+          editedPrompt,
+          '--json',
+          '--hrc-db',
+          db,
+          '--usage-since',
+          '2026-06-01T00:00:00.000Z',
+          '--now',
+          '2026-06-03T00:00:00.000Z',
+        ])
+      ) as {
+        agent: string
+        tokenEncoding: string
+        sessionsPerDay: number
+        deltaTokens: number
+        rows: Array<{ source: string; status: string; deltaTokens: number }>
+      }
+      expect(diff.agent).toBe('alice')
+      expect(diff.tokenEncoding).toBe('o200k')
+      expect(diff.sessionsPerDay).toBe(1)
+      expect(diff.rows[0]).toMatchObject({ source: 'SOUL.md', status: 'changed' })
+      expect(diff.deltaTokens).toBe(diff.rows[0]?.deltaTokens)
     } finally {
       await rm(tempDir, { recursive: true, force: true })
     }
@@ -0,0 +1,135 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+import { spawnSync } from 'node:child_process'
+import { chmodSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+const ASP_CLI = join(import.meta.dirname, '..', '..', 'bin', 'asp.js')
+
+const tempDirs: string[] = []
+
+function tempAgentRoot(): string {
+  const dir = mkdtempSync(join(tmpdir(), 'asp-tools-agent-'))
+  tempDirs.push(dir)
+  mkdirSync(join(dir, 'tools', 'bin'), { recursive: true })
+  return dir
+}
+
+afterEach(() => {
+  for (const dir of tempDirs.splice(0)) {
+    rmSync(dir, { recursive: true, force: true })
+  }
+})
+
+function writeTool(agentRoot: string, name: string, source: string, manifest?: string): void {
+  const toolPath = join(agentRoot, 'tools', 'bin', name)
+  writeFileSync(toolPath, source)
+  chmodSync(toolPath, 0o755)
+  if (manifest !== undefined) {
+    writeFileSync(join(agentRoot, 'tools', `${name}.toml`), manifest)
+  }
+}
+
+function runAspTools(args: string[], input?: string) {
+  return spawnSync('bun', ['run', ASP_CLI, 'tools', ...args], {
+    encoding: 'utf8',
+    env: { ...process.env, NO_COLOR: '1' },
+    ...(input !== undefined ? { input } : {}),
+    stdio: ['pipe', 'pipe', 'pipe'],
+  })
+}
+
+const WORD_COUNT_MANIFEST = `
+description = "Count words in text"
+
+[input_schema]
+type = "object"
+required = ["text"]
+properties.text = { type = "string" }
+`
+
+const WORD_COUNT_TOOL = `#!/bin/sh
+words=$(cat | tr -d '{}"' | cut -d: -f2 | wc -w)
+printf '{"words":%s}' $words
+`
+
+describe('asp tools', () => {
+  test('lists manifested and PATH-only tools', () => {
+    const agentRoot = tempAgentRoot()
+    writeTool(agentRoot, 'word-count', WORD_COUNT_TOOL, WORD_COUNT_MANIFEST)
+    writeTool(agentRoot, 'deploy', '#!/bin/sh\necho deployed\n')
+
+    const result = runAspTools(['list', '--agent-root', agentRoot, '--json'])
+    expect(result.status).toBe(0)
+    expect(JSON.parse(result.stdout)).toEqual({
+      agentRoot,
+      manifested: [
+        {
+          name: 'word-count',
+          description: 'Count words in text',
+          inputSchema: {
+            type: 'object',
+            required: ['text'],
+            properties: { text: { type: 'string' } },
+          },
+          timeoutSeconds: 60,
+          cwd: 'project',
+        },
+      ],
+      pathOnly: ['deploy'],
+    })
+  }, 20_000)
+
+  test('serves manifested tools over stdio MCP', () => {
+    const agentRoot = tempAgentRoot()
+    writeTool(agentRoot, 'word-count', WORD_COUNT_TOOL, WORD_COUNT_MANIFEST)
+    const requests = [
+      { jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-06-18' } },
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      {
+        jsonrpc: '2.0',
+        id: 2,
+        method: 'tools/call',
+        params: { name: 'word-count', arguments: { text: 'one two three' } },
+      },
+      { jsonrpc: '2.0', id: 3, method: 'tools/call', params: { name: 'word-count' } },
+    ]
+
+    const result = runAspTools(
+      ['serve', '--agent-root', agentRoot],
+      requests.map((request) => `${JSON.stringify(request)}\n`).join('')
+    )
+    expect(result.status).toBe(0)
+    const responses = result.stdout
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line) as { id: number; result: Record<string, unknown> })
+      .sort((a, b) => a.id - b.id)
+    expect(responses.map((response) => response.id)).toEqual([1, 2, 3])
+    expect(responses[1]?.result).toMatchObject({
+      structuredContent: { words: 3 },
+      isError: false,
+    })
+    expect(responses[2]?.result).toMatchObject({
+      content: [
+        {
+          type: 'text',
+          text: `Invalid arguments for tool "word-count":\n  / must have required property 'text'`,
+        },
+      ],
+      isError: true,
+    })
+  }, 20_000)
+
+  test('requires an agent root', () => {
+    const env = { ...process.env }
+    env['ASP_AGENT_ROOT'] = undefined
+    const result = spawnSync('bun', ['run', ASP_CLI, 'tools', 'list'], {
+      encoding: 'utf8',
+      env,
+      stdio: ['pipe', 'pipe', 'pipe'],
+    })
+    expect(result.status).not.toBe(0)
+    expect(result.stderr).toContain('tools list: --agent-root is required')
+  }, 20_000)
+})
@@ -33,6 +33,7 @@ import { registerRunCommand } from './commands/run.js'
 import { registerSelfCommands } from './commands/self/index.js'
 import { registerSpacesCommands } from './commands/spaces/index.js'
 import { registerTokenRentCommand } from './commands/token-rent.js'
+import { registerToolsCommands } from './commands/tools.js'
 import { registerUpgradeCommand } from './commands/upgrade.js'
 
 /**
@@ -68,6 +69,7 @@ const COMMAND_REGISTRARS: readonly RegisterCommandFn[] = [
   registerResourcesCommands,
   registerAgentCommands,
   registerAgentInspectionCommands,
+  registerToolsCommands,
   registerTokenRentCommand,
 ]
 
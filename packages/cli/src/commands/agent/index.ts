@@ -24,7 +24,7 @@ import {
   resolveAgentPrimingPrompt,
   normalizeHarnessFrontend as resolveHarnessFrontendName,
   resolveHarnessProvider,
-  resolvePlacement,
+  resolvePlacementContext,
 } from 'spaces-config'
 import { createAgentSpacesClient } from 'spaces-turn-runner'
 import { parseEnvFlags } from './shared.js'
@@ -147,6 +147,8 @@ interface AgentCommandOptions {
   compose?: string[]
   searchedAgentRoots?: string[]
   resolverWarnings?: string[]
+  /** `+worktree` / `-worktree` scope directive */
+  worktree?: boolean
 }
 
 function collect(value: string, previous: string[]): string[] {
@@ -192,7 +194,12 @@ export function registerAgentCommands(program: Command): void {
         prompt: string | undefined,
         options: AgentCommandOptions
       ) => {
-        const { parsed, scopeRef: canonicalRef, laneId } = resolveScopeInput(scope, options.laneRef)
+        const {
+          parsed,
+          scopeRef: canonicalRef,
+          laneId,
+          directives,
+        } = resolveScopeInput(scope, options.laneRef)
         options.laneRef = laneId
 
         const paths = resolveAgentPlacementPaths({
@@ -214,6 +221,9 @@ export function registerAgentCommands(program: Command): void {
         if (paths.warnings) {
           options.resolverWarnings = paths.warnings
         }
+        if (directives?.worktree !== undefined) {
+          options.worktree = directives.worktree
+        }
 
         if (mode === 'resolve') {
           await handleResolve(canonicalRef, options)
@@ -231,16 +241,22 @@ async function handleResolve(scopeRef: string, options: AgentCommandOptions): Pr
 
   const { scopeRef: canonicalRef, laneRef } = resolveScopeInput(scopeRef, options.laneRef)
   const placement = buildPlacement(canonicalRef, 'resolve', options, laneRef)
-  const resolved = await resolvePlacement(placement)
+  const context = await resolvePlacementContext({ ...placement, readOnly: true })
+  const resolved = context.resolvedBundle
+  const worktree = context.diagnostics?.worktree
 
   if (options.json) {
-    console.log(JSON.stringify({ placement, resolved }, null, 2))
+    console.log(JSON.stringify({ placement, resolved, ...(worktree ? { worktree } : {}) }, null, 2))
   } else {
     console.log('Placement:')
     console.log(`  agentRoot: ${placement.agentRoot}`)
     console.log(`  runMode:   ${placement.runMode}`)
     console.log(`  bundle:    ${placement.bundle.kind}`)
     if (placement.projectRoot) console.log(`  projectRoot: ${placement.projectRoot}`)
+    if (worktree) {
+      const { path, branch, created } = worktree
+      console.log(`  worktree:  ${path} (${branch}, ${created ? 'created on launch' : 'reused'})`)
+    }
     console.log('')
     console.log('Resolved Bundle:')
     console.log(`  identity:     ${resolved.bundleIdentity}`)
@@ -485,5 +501,8 @@ function buildPlacement(
     bundle,
     scaffoldPackets,
     correlation,
+    ...(options.worktree !== undefined ? { worktree: options.worktree } : {}),
+    // Printing an invocation must not create the task worktree it would launch in.
+    ...(options.dryRun || options.printCommand ? { readOnly: true } : {}),
   }
 }
@@ -1,15 +1,41 @@
 import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
 
+import { validateToken } from 'agent-scope'
 import {
   type AgentCatalogResult,
   type AgentInspectionOperationOutcome,
   catalogAgentsForContext,
   inspectAgentForContext,
 } from 'agent-spaces'
+import chalk from 'chalk'
+import { CliUsageError } from 'cli-kit'
 import type { Command } from 'commander'
+import {
+  checkAgentRootScaffold,
+  getAgentRootSearchPathForProject,
+  getAgentsRoot,
+  planAgentRootScaffold,
+  writeAgentRootScaffold,
+} from 'spaces-config'
+
+import { ProjectNotFoundError, exitWithAspError } from '../helpers.js'
+import { findProjectRoot } from '../lib.js'
 
 type OutputOptions = { json?: boolean | undefined }
 
+interface InitOptions {
+  agentsRoot?: string | undefined
+  project?: string | true | undefined
+  aspHome?: string | undefined
+  harness?: string | undefined
+  soulTemplate?: string | undefined
+  withHeartbeat?: boolean | undefined
+  withSkills?: boolean | undefined
+  withStarterSpace?: boolean | undefined
+  dryRun?: boolean | undefined
+}
+
 function readJson(path: string): unknown {
   return JSON.parse(readFileSync(path, 'utf8')) as unknown
 }
@@ -48,9 +74,83 @@ function printInspection(outcome: AgentInspectionOperationOutcome, json: boolean
   }
 }
 
-/** Register read-only catalog and contextual inspection commands. */
+/**
+ * Pick the agents root a new agent lands in: `--agents-root` wins, `--project`
+ * uses the project's declared `agents-root`, otherwise the canonical root.
+ */
+async function resolveInitAgentsRoot(options: InitOptions): Promise<string> {
+  if (options.agentsRoot !== undefined) return options.agentsRoot
+  const configOptions = options.aspHome !== undefined ? { aspHome: options.aspHome } : {}
+
+  if (options.project !== undefined) {
+    const projectRoot =
+      options.project === true ? await findProjectRoot() : (options.project as string)
+    if (!projectRoot) throw new ProjectNotFoundError()
+    const entry = getAgentRootSearchPathForProject(projectRoot, configOptions).entries.find(
+      (candidate) => candidate.kind === 'project'
+    )
+    if (!entry) {
+      throw new CliUsageError(
+        `asp-targets.toml in ${projectRoot} does not declare agents-root\nAdd agents-root = "agents" to place agents in the project`
+      )
+    }
+    return entry.root
+  }
+
+  const canonical = getAgentsRoot(configOptions)
+  if (!canonical) {
+    throw new CliUsageError(
+      'No canonical agents root found\nSet ASP_AGENTS_ROOT or pass --agents-root <path>'
+    )
+  }
+  return canonical
+}
+
+async function runAgentsInit(agentId: string, options: InitOptions): Promise<void> {
+  const tokenError = validateToken(agentId, 'agentId')
+  if (tokenError !== undefined) throw new CliUsageError(tokenError)
+
+  const agentRoot = join(await resolveInitAgentsRoot(options), agentId)
+  const plan = planAgentRootScaffold(agentId, {
+    harness: options.harness,
+    soulTemplate:
+      options.soulTemplate !== undefined ? readFileSync(options.soulTemplate, 'utf8') : undefined,
+    withHeartbeat: options.withHeartbeat,
+    withSkills: options.withSkills,
+    withStarterSpace: options.withStarterSpace,
+  })
+
+  if (options.dryRun) {
+    checkAgentRootScaffold(agentRoot, plan)
+    console.log(`Would create agent "${agentId}" at ${agentRoot}`)
+    for (const entry of plan) {
+      console.log(`  ${entry.kind === 'directory' ? `${entry.path}/` : entry.path}`)
+    }
+    return
+  }
+
+  writeAgentRootScaffold(agentRoot, plan)
+
+  console.log(chalk.green(`Agent "${agentId}" created`))
+  console.log('')
+  console.log(chalk.gray('Location:'))
+  console.log(`  ${agentRoot}`)
+  console.log('')
+  console.log(chalk.gray('Next steps:'))
+  console.log(
+    `  1. Fill in the TODOs in ${chalk.cyan('SOUL.md')} and ${chalk.cyan('agent-profile.toml')}`
+  )
+  console.log(
+    `  2. Wire a target in ${chalk.cyan('asp-targets.toml')} or try ${chalk.cyan(`asp agent ${agentId}@<project>:<task> query --dry-run`)}`
+  )
+  console.log(
+    `  3. Register it as a project default agent separately with ${chalk.cyan('acp project default-agent')}`
+  )
+}
+
+/** Register catalog and contextual inspection commands plus the `init` scaffolder. */
 export function registerAgentInspectionCommands(program: Command): void {
-  const agents = program.command('agents').description('Read-only agent catalog and inspection')
+  const agents = program.command('agents').description('Agent catalog, inspection and scaffolding')
 
   agents
     .command('catalog')
@@ -78,4 +178,25 @@ export function registerAgentInspectionCommands(program: Command): void {
       printInspection(outcome, options.json === true)
       if (!outcome.ok) process.exitCode = 1
     })
+
+  agents
+    .command('init')
+    .description('Scaffold a new v2 agent root (SOUL.md, agent-profile.toml, spaces/)')
+    .argument('<agentId>', 'Agent id')
+    .option('--agents-root <path>', 'Agents root to create the agent in')
+    .option('--project [path]', "Place the agent under the project's declared agents-root")
+    .option('--asp-home <path>', 'ASP_HOME override')
+    .option('--harness <id>', 'Harness seeded into [provisioning] (default: claude)')
+    .option('--soul-template <path>', 'SOUL.md template to copy instead of the built-in one')
+    .option('--with-heartbeat', 'Also emit HEARTBEAT.md')
+    .option('--with-skills', 'Also emit skills/ with an example SKILL.md')
+    .option('--with-starter-space', 'Also emit an agent-local <agentId>-ops space')
+    .option('--dry-run', 'Print the file plan without writing')
+    .action(async (agentId: string, options: InitOptions) => {
+      try {
+        await runAgentsInit(agentId, options)
+      } catch (error) {
+        exitWithAspError(error)
+      }
+    })
 }
@@ -1,5 +1,5 @@
 /**
- * Describe command - Summarize hooks, skills, tools, and lint warnings for targets.
+ * Describe command - Summarize hooks, skills, tools, permissions, and lint warnings for targets.
  *
  * WHY: Provides a lightweight view of what a target would load without running it.
  */
@@ -42,7 +42,7 @@ function formatLintWarnings(warnings: LintWarning[]): string {
 export function registerDescribeCommand(program: Command): void {
   program
     .command('describe')
-    .description('Describe hooks, skills, tools, and lint warnings for targets')
+    .description('Describe hooks, skills, tools, permissions, and lint warnings for targets')
     .argument('[target]', 'Specific target to describe (default: all)')
     .option('--json', 'Output as JSON')
     .option('--harness <id>', 'Harness to use when materializing (default: agent-sdk)')
@@ -92,6 +92,7 @@ export function registerDescribeCommand(program: Command): void {
             hooks: string[]
             skills: string[]
             tools: string[]
+            permissions?: Array<{ spaceKey: string; lines: string[] }> | undefined
             lintWarnings?: LintWarning[] | undefined
           }
 
@@ -99,6 +100,15 @@ export function registerDescribeCommand(program: Command): void {
           console.log(`hooks: ${formatList(describeResult.hooks ?? [])}`)
           console.log(`skills: ${formatList(describeResult.skills ?? [])}`)
           console.log(`tools: ${formatList(describeResult.tools ?? [])}`)
+          if (describeResult.permissions) {
+            console.log('permissions:')
+            for (const { spaceKey, lines } of describeResult.permissions) {
+              console.log(`  ${spaceKey}`)
+              for (const line of lines) {
+                console.log(`  ${line}`)
+              }
+            }
+          }
           if (describeResult.lintWarnings) {
             console.log('lint warnings:')
             console.log(formatLintWarnings(describeResult.lintWarnings))
@@ -2,13 +2,14 @@
  * GC command - Garbage collect unreferenced store/cache entries.
  *
  * WHY: Over time, the store accumulates snapshots that are no longer
- * referenced by any lock file. This command cleans them up.
+ * referenced by any lock file. This command cleans them up, and removes the
+ * per-task git worktrees of tasks named with --closed-task.
  */
 
 import chalk from 'chalk'
 import type { Command } from 'commander'
 
-import { type GCOptions, readLockJson, runGC } from 'spaces-config'
+import { type GCOptions, pruneTaskWorktrees, readLockJson, runGC } from 'spaces-config'
 
 import { exitWithAspError, formatBytes, resolvePaths } from '../helpers.js'
 import { findProjectRoot } from '../lib.js'
@@ -23,6 +24,12 @@ export function registerGcCommand(program: Command): void {
     .option('--dry-run', 'Show what would be deleted without actually deleting')
     .option('--project <path>', 'Project directory (default: auto-detect)')
     .option('--asp-home <path>', 'ASP_HOME override')
+    .option(
+      '--closed-task <taskId>',
+      'Remove the per-task worktree of a closed task (repeatable)',
+      (value: string, previous: string[]) => [...previous, value],
+      []
+    )
     .action(async (options) => {
       const { paths } = resolvePaths(options)
 
@@ -53,6 +60,15 @@ export function registerGcCommand(program: Command): void {
         }
 
         const result = await runGC(lockFiles, gcOptions)
+        const worktrees =
+          options.closedTask.length > 0
+            ? await pruneTaskWorktrees({
+                paths,
+                taskIds: options.closedTask,
+                projectRoot: projectPath ?? undefined,
+                dryRun: options.dryRun,
+              })
+            : undefined
 
         if (options.dryRun) {
           console.log(chalk.yellow('Dry run - no files deleted'))
@@ -64,6 +80,16 @@ export function registerGcCommand(program: Command): void {
         console.log(`  Cache entries removed: ${result.cacheEntriesDeleted}`)
         console.log(`  Bundle versions removed: ${result.bundleVersionsDeleted}`)
         console.log(`  Space freed: ${formatBytes(result.bytesFreed)}`)
+        if (worktrees) {
+          console.log(`  Task worktrees removed: ${worktrees.removed.length}`)
+          for (const worktree of worktrees.skippedDirty) {
+            console.log(
+              chalk.yellow(
+                `  Kept task worktree with uncommitted changes: ${worktree.path} (${worktree.taskId})`
+              )
+            )
+          }
+        }
       } catch (error) {
         exitWithAspError(error, options)
       }
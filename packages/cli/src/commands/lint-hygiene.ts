@@ -17,8 +17,8 @@ import { tmpdir } from 'node:os'
 import { join, resolve } from 'node:path'
 
 import chalk from 'chalk'
-import { hygiene } from 'spaces-config'
-import type { LintWarning } from 'spaces-config'
+import { formatWarnings, hygiene } from 'spaces-config'
+import type { LintWarning, lint } from 'spaces-config'
 
 /** Options carried on the lint command for hygiene mode. */
 export interface HygieneCliOptions {
@@ -29,6 +29,7 @@ export interface HygieneCliOptions {
   updateBaseline?: boolean | undefined
   agentHygieneRoot?: string | undefined
   json?: boolean | undefined
+  format?: lint.OutputFormat | undefined
 }
 
 const SEVERITY_COLOR: Record<string, (t: string) => string> = {
@@ -85,7 +86,15 @@ export async function runHygieneCommand(
   }
   const result = await hygiene.runHygieneTarget(target, runOpts)
 
-  if (options.json) {
+  if (options.format === 'sarif' || options.format === 'junit') {
+    console.log(
+      formatWarnings(result.warnings, options.format, {
+        suppressed: result.suppressed,
+        toolName: 'asp lint --hygiene',
+        baseDir: baselineRoot,
+      })
+    )
+  } else if (options.format === 'json' || options.json) {
     console.log(
       JSON.stringify(
         {
@@ -7,9 +7,18 @@
 
 import { join } from 'node:path'
 import chalk from 'chalk'
+import { CliUsageError } from 'cli-kit'
 import type { Command } from 'commander'
 
-import { LOCK_FILENAME, explain, lockFileExists } from 'spaces-config'
+import {
+  LOCK_FILENAME,
+  type LintWarning,
+  type SpaceKey,
+  explain,
+  formatWarnings,
+  lint,
+  lockFileExists,
+} from 'spaces-config'
 
 import { type CommonOptions, exitWithAspError, getProjectContext } from '../helpers.js'
 import { type HygieneCliOptions, runHygieneCommand, runJudgeCommand } from './lint-hygiene.js'
@@ -97,6 +106,36 @@ async function collectExplainWarnings(
   return warnings
 }
 
+/**
+ * Resolve `--format` (with `--json` as its legacy alias) to a reporter format.
+ */
+function resolveLintFormat(options: {
+  format?: string | undefined
+  json?: boolean | undefined
+}): lint.OutputFormat {
+  const format = options.format ?? (options.json ? 'json' : 'text')
+  if (!(lint.OUTPUT_FORMATS as readonly string[]).includes(format)) {
+    throw new CliUsageError(
+      `--format must be one of: ${lint.OUTPUT_FORMATS.join(', ')} (got ${format})`
+    )
+  }
+  return format as lint.OutputFormat
+}
+
+/**
+ * Project CLI lint rows onto the reporter's warning shape for SARIF / JUnit.
+ */
+function toReportWarnings(rows: LintRow[]): LintWarning[] {
+  return rows.map((row) => ({
+    code: row.code,
+    message: row.message,
+    severity: row.severity as LintWarning['severity'],
+    ...(row.spaceKey ? { spaceKey: row.spaceKey as SpaceKey } : {}),
+    ...(row.path ? { path: row.path } : {}),
+    details: { target: row.target },
+  }))
+}
+
 /**
  * Format and output warnings as text.
  */
@@ -137,6 +176,7 @@ export function registerLintCommand(program: Command): void {
     .description('Validate targets and detect conflicts')
     .argument('[target]', 'Specific target to lint (default: all)')
     .option('--json', 'Output as JSON')
+    .option('--format <format>', 'Output format: text, json, sarif, junit (default: text)')
     .option('--project <path>', 'Project directory (default: auto-detect)')
     .option('--registry <path>', 'Registry path override')
     .option('--asp-home <path>', 'ASP_HOME override')
@@ -154,6 +194,8 @@ export function registerLintCommand(program: Command): void {
     .option('--agent-hygiene-root <path>', 'Override the agent-hygiene criteria source root')
     .action(async (target: string | undefined, options: CommonOptions & HygieneCliOptions) => {
       try {
+        const format = resolveLintFormat(options)
+
         // Tier-2 judge mode.
         if (options.judge !== undefined) {
           process.exit(await runJudgeCommand(options.judge, options))
@@ -161,7 +203,7 @@ export function registerLintCommand(program: Command): void {
         // Tier-1 hygiene mode.
         if (options.hygiene !== undefined) {
           const path = typeof options.hygiene === 'string' ? options.hygiene : target
-          process.exit(await runHygieneCommand(path, options))
+          process.exit(await runHygieneCommand(path, { ...options, format }))
         }
 
         const ctx = await getProjectContext(options)
@@ -182,7 +224,11 @@ export function registerLintCommand(program: Command): void {
         allWarnings.push(...explainWarnings)
 
         // Output results
-        if (options.json) {
+        if (format === 'sarif' || format === 'junit') {
+          console.log(
+            formatWarnings(toReportWarnings(allWarnings), format, { baseDir: ctx.projectPath })
+          )
+        } else if (format === 'json') {
           console.log(JSON.stringify({ warnings: allWarnings }, null, 2))
         } else {
           outputWarningsText(allWarnings)
@@ -27,7 +27,11 @@ import {
 } from 'spaces-runtime'
 
 import { errorMessage } from '../helpers.js'
-import { targetNameFromBundleRootPath } from './self/lib.js'
+import {
+  resolveSelfContext,
+  resolveSelfPromptMatchContext,
+  targetNameFromBundleRootPath,
+} from './self/lib.js'
 
 interface ResolveReminderOptions {
   agentRoot?: string
@@ -176,6 +180,8 @@ export function registerResolveReminderCommand(program: Command): void {
           agentsRoot: discovered.agentsRoot,
           projectRoot: process.cwd(),
           runMode: 'query',
+          // Gate sections on the same lane/role/harness/provider keys the launch used.
+          ...resolveSelfPromptMatchContext(resolveSelfContext({ aspHome, agentsRoot })),
         }
 
         // Use profile from discovery for slot resolution
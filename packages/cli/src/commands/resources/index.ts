@@ -1,17 +1,48 @@
+import { readFile } from 'node:fs/promises'
+import { setTimeout as sleep } from 'node:timers/promises'
 import type { Command } from 'commander'
 import {
+  DEFAULT_SCHEDULE_TIMEZONE,
+  PathResolver,
+  type ResourcesPlan,
   compileResourcesPlan,
   inferProjectIdFromCwd,
+  nextScheduleFireTimes,
   resolveAgentPlacementPaths,
 } from 'spaces-config'
 
-interface ResourcesPlanOptions {
+import { openResourceProjectionStore } from './projection-store.js'
+import { type ProjectionChange, applyResourcesPlan, diffResourcesPlan } from './reconcile.js'
+import { type ResourceRunRecord, openResourceRunHistory } from './run-history.js'
+import { TICK_MS, runResourcesTick, scheduledJobsFromPlan } from './run.js'
+
+interface ResourcesCompileOptions {
   project?: string | undefined
   agentRoot?: string | undefined
   aspHome?: string | undefined
   include?: string[] | undefined
 }
 
+interface ResourcesPlanOptions extends ResourcesCompileOptions {
+  next?: string | undefined
+  from?: string | undefined
+}
+
+interface ResourcesRunOptions extends ResourcesCompileOptions {
+  plan?: string | undefined
+  once?: boolean | undefined
+  at?: string | undefined
+  node?: string | undefined
+  dryRun?: boolean | undefined
+  json?: boolean | undefined
+}
+
+interface ResourcesReconcileOptions extends ResourcesCompileOptions {
+  plan?: string | undefined
+  now?: string | undefined
+  json?: boolean | undefined
+}
+
 export function registerResourcesCommands(program: Command): void {
   const resources = program.command('resources').description('Agent-authored runtime resources')
 
@@ -26,43 +57,339 @@ export function registerResourcesCommands(program: Command): void {
       '--include <path...>',
       'Compile only the listed resource path(s), relative to agent root'
     )
+    .option('--next <count>', 'Preview the next <count> fire times of each scheduled job')
+    .option('--from <instant>', 'Start the --next preview at this ISO-8601 instant (default: now)')
     .action(async (agent: string, options: ResourcesPlanOptions) => {
-      const projectId = options.project ?? inferProjectIdFromCwd({ aspHome: options.aspHome })
-      if (!projectId) {
-        throw new Error('resources plan requires --project <project>')
+      const preview = readPreviewOptions(options)
+      const { projectId, agentRoot, plan } = await compileAgentPlan(
+        'resources plan',
+        agent,
+        options
+      )
+
+      process.stdout.write(`${JSON.stringify(plan, null, 2)}\n`)
+      process.stderr.write(formatResourcesSummary(agent, projectId, agentRoot, plan.resources))
+      if (preview !== undefined) {
+        process.stderr.write(formatFireTimesPreview(plan.resources, preview))
       }
+    })
 
-      const paths = resolveAgentPlacementPaths({
-        agentId: agent,
-        projectId,
-        ...(options.agentRoot ? { agentRoot: options.agentRoot } : {}),
-        ...(options.aspHome ? { aspHome: options.aspHome } : {}),
-      })
-      const agentRoot = paths.agentRoot
-      if (!agentRoot) {
-        const searched = paths.searchedAgentRoots?.length
-          ? ` Searched: ${paths.searchedAgentRoots.join(', ')}`
-          : ''
-        throw new Error(`Agent root not found for ${agent}.${searched}`)
+  resources
+    .command('run')
+    .description('Run scheduled jobs from a resources plan locally through `asp agent`')
+    .argument('<agent>', 'Agent id')
+    .option('--project <project>', 'Project id (default: inferred from cwd; unused with --plan)')
+    .option('--agent-root <path>', 'Absolute path to agent root')
+    .option('--asp-home <path>', 'ASP_HOME override (run history lives here)')
+    .option(
+      '--include <path...>',
+      'Compile only the listed resource path(s), relative to agent root'
+    )
+    .option('--plan <file>', 'Run a plan JSON written by `asp resources plan` instead of compiling')
+    .option('--once', 'Evaluate triggers once and exit instead of ticking every minute')
+    .option('--at <instant>', 'With --once, evaluate triggers as of this ISO-8601 instant')
+    .option('--node <id>', 'Node id of this machine, matched against execution.nodes')
+    .option('--dry-run', 'Record due runs without launching `asp agent`')
+    .option('--json', 'Emit each tick as a JSON line')
+    .action(async (agent: string, options: ResourcesRunOptions) => {
+      const at = readRunAt(options)
+      const { plan, agentRoot } =
+        options.plan !== undefined
+          ? { plan: await readPlanFile(options.plan), agentRoot: options.agentRoot }
+          : await compileAgentPlan('resources run', agent, options)
+      const jobs = scheduledJobsFromPlan(plan.resources)
+      const historyPath = new PathResolver({ aspHome: options.aspHome }).resourceRuns
+      const history = openResourceRunHistory(historyPath)
+      process.stderr.write(
+        `Scheduling ${jobs.length} jobs for ${agent}${options.node ? ` on node ${options.node}` : ''}\nRun history: ${historyPath}\n`
+      )
+
+      const tick = async (now: Date) => {
+        const runs = await runResourcesTick(jobs, history, {
+          now,
+          node: options.node,
+          agentRoot,
+          dryRun: options.dryRun === true,
+        })
+        process.stdout.write(
+          options.json
+            ? `${JSON.stringify({ at: now.toISOString(), runs })}\n`
+            : runs.map(formatRunRecord).join('')
+        )
       }
 
-      const plan = await compileResourcesPlan({
-        agentRoot,
-        ...(options.include !== undefined && options.include.length > 0
-          ? { includePaths: options.include }
-          : {}),
-        owner: {
-          projectId,
-          agentId: agent,
-          scopeRef: `agent:${agent}:project:${projectId}`,
-        },
-      })
+      try {
+        if (options.once) {
+          await tick(at ?? new Date())
+          return
+        }
+        for (;;) {
+          await tick(new Date())
+          await sleep(TICK_MS - (Date.now() % TICK_MS))
+        }
+      } finally {
+        history.close()
+      }
+    })
 
-      process.stdout.write(`${JSON.stringify(plan, null, 2)}\n`)
-      process.stderr.write(formatResourcesSummary(agent, projectId, agentRoot, plan.resources))
+  resources
+    .command('diff')
+    .description('Show what applying the resources plan would create, update or orphan')
+    .argument('<agent>', 'Agent id')
+    .requiredOption('--project <project>', 'Project id')
+    .option('--agent-root <path>', 'Absolute path to agent root')
+    .option('--asp-home <path>', 'ASP_HOME override (the projection store lives here)')
+    .option(
+      '--plan <file>',
+      'Diff a plan JSON written by `asp resources plan` instead of compiling'
+    )
+    .option('--json', 'Output as JSON')
+    .action(async (agent: string, options: ResourcesReconcileOptions) => {
+      const plan = await loadPlan('resources diff', agent, options)
+      const storePath = new PathResolver({ aspHome: options.aspHome }).resourceProjections
+      const store = openResourceProjectionStore(storePath)
+      try {
+        const changes = diffResourcesPlan(plan, store)
+        if (options.json) {
+          process.stdout.write(`${JSON.stringify({ store: storePath, changes }, null, 2)}\n`)
+          return
+        }
+        process.stdout.write(
+          [
+            `Resources diff for ${plan.sourceOwnerScopeRef}`,
+            `Store: ${storePath}`,
+            ...changes.flatMap(formatProjectionChange),
+            `Plan: ${formatChangeCounts(changes, {
+              create: 'to create',
+              update: 'to update',
+              orphan: 'orphaned',
+              unchanged: 'unchanged',
+              conflict: 'conflicting',
+            })}`,
+            '',
+          ].join('\n')
+        )
+      } finally {
+        store.close()
+      }
+    })
+
+  resources
+    .command('apply')
+    .description('Reconcile the local projection store to the resources plan')
+    .argument('<agent>', 'Agent id')
+    .requiredOption('--project <project>', 'Project id')
+    .option('--agent-root <path>', 'Absolute path to agent root')
+    .option('--asp-home <path>', 'ASP_HOME override (the projection store lives here)')
+    .option(
+      '--plan <file>',
+      'Apply a plan JSON written by `asp resources plan` instead of compiling'
+    )
+    .option('--now <instant>', 'Stamp lastReconciledAt with this ISO-8601 instant (default: now)')
+    .option('--json', 'Output as JSON')
+    .action(async (agent: string, options: ResourcesReconcileOptions) => {
+      const now = options.now === undefined ? new Date() : new Date(options.now)
+      if (Number.isNaN(now.getTime())) {
+        throw new Error(`resources apply --now must be an ISO-8601 instant, got "${options.now}"`)
+      }
+      const plan = await loadPlan('resources apply', agent, options)
+      const storePath = new PathResolver({ aspHome: options.aspHome }).resourceProjections
+      const store = openResourceProjectionStore(storePath)
+      try {
+        const changes = applyResourcesPlan(plan, store, now)
+        const reconciledAt = now.toISOString()
+        if (options.json) {
+          process.stdout.write(
+            `${JSON.stringify({ store: storePath, reconciledAt, changes }, null, 2)}\n`
+          )
+          return
+        }
+        process.stdout.write(
+          [
+            ...changes.flatMap(formatProjectionChange),
+            `Applied resources plan for ${plan.sourceOwnerScopeRef} at ${reconciledAt}: ${formatChangeCounts(
+              changes,
+              {
+                create: 'created',
+                update: 'updated',
+                orphan: 'removed',
+                unchanged: 'unchanged',
+                conflict: 'conflicting',
+              }
+            )}`,
+            '',
+          ].join('\n')
+        )
+      } finally {
+        store.close()
+      }
     })
 }
 
+async function loadPlan(
+  commandName: string,
+  agent: string,
+  options: ResourcesReconcileOptions
+): Promise<ResourcesPlan> {
+  return options.plan !== undefined
+    ? readPlanFile(options.plan)
+    : (await compileAgentPlan(commandName, agent, options)).plan
+}
+
+const CHANGE_MARKERS: Record<ProjectionChange['action'], string> = {
+  create: '+',
+  update: '~',
+  orphan: '-',
+  unchanged: '=',
+  conflict: '!',
+}
+
+function formatProjectionChange(change: ProjectionChange): string[] {
+  if (change.action === 'unchanged') return []
+  const detail =
+    change.action === 'update'
+      ? `: ${change.changed?.join(', ')}`
+      : change.action === 'orphan'
+        ? ' (no longer in plan)'
+        : change.action === 'conflict'
+          ? ` (key held by ${change.conflictsWith})`
+          : ''
+  return [
+    `  ${CHANGE_MARKERS[change.action]} ${change.projectionTable}/${change.projectionPk}  ${change.resourceKind} ${change.resourceName}${detail}`,
+  ]
+}
+
+function formatChangeCounts(
+  changes: ProjectionChange[],
+  labels: Record<ProjectionChange['action'], string>
+): string {
+  return (Object.keys(labels) as Array<ProjectionChange['action']>)
+    .map(
+      (action) => `${changes.filter((change) => change.action === action).length} ${labels[action]}`
+    )
+    .join(', ')
+}
+
+async function compileAgentPlan(
+  commandName: string,
+  agent: string,
+  options: ResourcesCompileOptions
+): Promise<{ projectId: string; agentRoot: string; plan: ResourcesPlan }> {
+  const projectId = options.project ?? inferProjectIdFromCwd({ aspHome: options.aspHome })
+  if (!projectId) {
+    throw new Error(`${commandName} requires --project <project>`)
+  }
+
+  const paths = resolveAgentPlacementPaths({
+    agentId: agent,
+    projectId,
+    ...(options.agentRoot ? { agentRoot: options.agentRoot } : {}),
+    ...(options.aspHome ? { aspHome: options.aspHome } : {}),
+  })
+  const agentRoot = paths.agentRoot
+  if (!agentRoot) {
+    const searched = paths.searchedAgentRoots?.length
+      ? ` Searched: ${paths.searchedAgentRoots.join(', ')}`
+      : ''
+    throw new Error(`Agent root not found for ${agent}.${searched}`)
+  }
+
+  const plan = await compileResourcesPlan({
+    agentRoot,
+    ...(options.include !== undefined && options.include.length > 0
+      ? { includePaths: options.include }
+      : {}),
+    owner: {
+      projectId,
+      agentId: agent,
+      scopeRef: `agent:${agent}:project:${projectId}`,
+    },
+  })
+  return { projectId, agentRoot, plan }
+}
+
+async function readPlanFile(path: string): Promise<ResourcesPlan> {
+  const plan = JSON.parse(await readFile(path, 'utf8')) as unknown
+  if (
+    !isRecord(plan) ||
+    plan['schema'] !== 'agent-authored-runtime-resources.plan/v1' ||
+    !Array.isArray(plan['resources'])
+  ) {
+    throw new Error(`${path} is not an agent-authored-runtime-resources.plan/v1 plan`)
+  }
+  return plan as ResourcesPlan
+}
+
+function readRunAt(options: ResourcesRunOptions): Date | undefined {
+  if (options.at === undefined) return undefined
+  if (!options.once) {
+    throw new Error('resources run --at requires --once')
+  }
+  const at = new Date(options.at)
+  if (Number.isNaN(at.getTime())) {
+    throw new Error(`resources run --at must be an ISO-8601 instant, got "${options.at}"`)
+  }
+  return at
+}
+
+function formatRunRecord(run: ResourceRunRecord): string {
+  const outcome =
+    run.status === 'skipped'
+      ? `skipped: ${run.reason}`
+      : run.exitCode !== undefined
+        ? `${run.status} (exit ${run.exitCode})`
+        : run.status
+  const command = run.status === 'dry-run' && run.argv ? `\n    ${run.argv.join(' ')}` : ''
+  return `${run.scheduledFor}  ${run.projectionPk}/${run.stepId}  ${outcome}${command}\n`
+}
+
+function readPreviewOptions(
+  options: ResourcesPlanOptions
+): { count: number; from: Date } | undefined {
+  if (options.next === undefined) {
+    if (options.from !== undefined) {
+      throw new Error('resources plan --from requires --next <count>')
+    }
+    return undefined
+  }
+  const count = Number(options.next)
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`resources plan --next must be a positive integer, got "${options.next}"`)
+  }
+  const from = options.from === undefined ? new Date() : new Date(options.from)
+  if (Number.isNaN(from.getTime())) {
+    throw new Error(`resources plan --from must be an ISO-8601 instant, got "${options.from}"`)
+  }
+  return { count, from }
+}
+
+function formatFireTimesPreview(
+  resources: unknown[],
+  preview: { count: number; from: Date }
+): string {
+  const lines = [`Next ${preview.count} fire times after ${preview.from.toISOString()}:`]
+  for (const resource of resources) {
+    if (!isRecord(resource) || resource['resourceKind'] !== 'scheduled-job') continue
+    const desiredJson = isRecord(resource['desiredJson']) ? resource['desiredJson'] : {}
+    const schedule = isRecord(desiredJson['schedule']) ? desiredJson['schedule'] : {}
+    const cron = String(schedule['cron'])
+    const timezone = typeof schedule['timezone'] === 'string' ? schedule['timezone'] : undefined
+    lines.push(
+      `  ${String(resource['resourceName'])}  ${cron}  (${timezone ?? DEFAULT_SCHEDULE_TIMEZONE})`
+    )
+
+    const fireTimes = nextScheduleFireTimes({ cron, timezone }, preview)
+    if (fireTimes.length === 0) {
+      lines.push('    (never fires)')
+    }
+    for (const fireTime of fireTimes) {
+      const dst = fireTime.dst !== undefined ? `  [dst ${fireTime.dst}]` : ''
+      lines.push(`    ${fireTime.local}  ${fireTime.instant}${dst}`)
+    }
+  }
+  return `${lines.join('\n')}\n`
+}
+
 function formatResourcesSummary(
   agent: string,
   projectId: string,
@@ -0,0 +1,214 @@
+import { Database, type Statement } from 'bun:sqlite'
+import { mkdirSync } from 'node:fs'
+import { dirname } from 'node:path'
+
+const SCHEMA_VERSION = 1
+
+export const PROJECTION_TABLES = ['jobs', 'interface_bindings'] as const
+export type ProjectionTable = (typeof PROJECTION_TABLES)[number]
+
+/** A `ManagedResourceProjection` as applied, with real timestamps. */
+export interface StoredProjection {
+  projectionId: string
+  resourceKind: string
+  projectionTable: ProjectionTable
+  projectionPk: string
+  sourceOwnerScopeRef: string
+  resourceName: string
+  sourcePath: string
+  sourceHash: string
+  desiredProjectionHash: string
+  desiredJson: Record<string, unknown>
+  sourceVersion: number
+  managedBy: string
+  origin: string
+  lastReconciledAt: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ResourceProjectionStore {
+  get(table: ProjectionTable, projectionPk: string): StoredProjection | undefined
+  /** Every projection owned by `sourceOwnerScopeRef`, ordered by table then key. */
+  listOwned(sourceOwnerScopeRef: string): StoredProjection[]
+  upsert(projection: StoredProjection): void
+  delete(table: ProjectionTable, projectionPk: string): void
+  transaction(run: () => void): void
+  close(): void
+}
+
+interface ProjectionRow {
+  projection_id: string
+  resource_kind: string
+  projection_pk: string
+  source_owner_scope_ref: string
+  resource_name: string
+  source_path: string
+  source_hash: string
+  desired_projection_hash: string
+  desired_json: string
+  source_version: number
+  managed_by: string
+  origin: string
+  last_reconciled_at: string
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Local projection store (bun:sqlite) standing in for ACP's `jobs` and
+ * `interface_bindings` tables. Rows are keyed by `projection_pk` per table,
+ * as in ACP, so two owners compiling the same key collide here too.
+ */
+export function openResourceProjectionStore(path: string): ResourceProjectionStore {
+  mkdirSync(dirname(path), { recursive: true })
+  const db = new Database(path, { create: true })
+  db.exec('PRAGMA journal_mode = WAL')
+  migrate(db)
+
+  const statements: Record<ProjectionTable, TableStatements> = {
+    jobs: prepareTable(db, 'jobs'),
+    interface_bindings: prepareTable(db, 'interface_bindings'),
+  }
+
+  return {
+    get(table, projectionPk) {
+      const row = statements[table].select.get(projectionPk)
+      return row === null ? undefined : fromRow(table, row)
+    },
+    listOwned(sourceOwnerScopeRef) {
+      return PROJECTION_TABLES.flatMap((table) =>
+        statements[table].selectOwned.all(sourceOwnerScopeRef).map((row) => fromRow(table, row))
+      )
+    },
+    upsert(projection) {
+      statements[projection.projectionTable].upsert.run(
+        projection.projectionPk,
+        projection.projectionId,
+        projection.resourceKind,
+        projection.sourceOwnerScopeRef,
+        projection.resourceName,
+        projection.sourcePath,
+        projection.sourceHash,
+        projection.desiredProjectionHash,
+        JSON.stringify(projection.desiredJson),
+        projection.sourceVersion,
+        projection.managedBy,
+        projection.origin,
+        projection.lastReconciledAt,
+        projection.createdAt,
+        projection.updatedAt
+      )
+    },
+    delete(table, projectionPk) {
+      statements[table].delete.run(projectionPk)
+    },
+    transaction(run) {
+      db.transaction(run)()
+    },
+    close() {
+      db.close()
+    },
+  }
+}
+
+type ProjectionRowValues = [
+  string,
+  string,
+  string,
+  string,
+  string,
+  string,
+  string,
+  string,
+  string,
+  number,
+  string,
+  string,
+  string,
+  string,
+  string,
+]
+
+interface TableStatements {
+  select: Statement<ProjectionRow, [string]>
+  selectOwned: Statement<ProjectionRow, [string]>
+  upsert: Statement<unknown, ProjectionRowValues>
+  delete: Statement<unknown, [string]>
+}
+
+function prepareTable(db: Database, table: ProjectionTable): TableStatements {
+  return {
+    select: db.query<ProjectionRow, [string]>(`SELECT * FROM ${table} WHERE projection_pk = ?`),
+    selectOwned: db.query<ProjectionRow, [string]>(
+      `SELECT * FROM ${table} WHERE source_owner_scope_ref = ? ORDER BY projection_pk`
+    ),
+    upsert: db.query<unknown, ProjectionRowValues>(
+      `INSERT OR REPLACE INTO ${table} (projection_pk, projection_id, resource_kind,
+         source_owner_scope_ref, resource_name, source_path, source_hash,
+         desired_projection_hash, desired_json, source_version, managed_by, origin,
+         last_reconciled_at, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ),
+    delete: db.query<unknown, [string]>(`DELETE FROM ${table} WHERE projection_pk = ?`),
+  }
+}
+
+function migrate(db: Database): void {
+  const version = db.query<{ user_version: number }, []>('PRAGMA user_version').get()
+  const current = version?.user_version ?? 0
+  if (current > SCHEMA_VERSION) {
+    throw new Error(
+      `Resource projection store schema version ${current} is newer than supported version ${SCHEMA_VERSION}`
+    )
+  }
+  if (current === SCHEMA_VERSION) {
+    return
+  }
+  db.transaction(() => {
+    for (const table of PROJECTION_TABLES) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS ${table} (
+          projection_pk TEXT PRIMARY KEY,
+          projection_id TEXT NOT NULL,
+          resource_kind TEXT NOT NULL,
+          source_owner_scope_ref TEXT NOT NULL,
+          resource_name TEXT NOT NULL,
+          source_path TEXT NOT NULL,
+          source_hash TEXT NOT NULL,
+          desired_projection_hash TEXT NOT NULL,
+          desired_json TEXT NOT NULL,
+          source_version INTEGER NOT NULL,
+          managed_by TEXT NOT NULL,
+          origin TEXT NOT NULL,
+          last_reconciled_at TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS ${table}_by_owner ON ${table} (source_owner_scope_ref);
+      `)
+    }
+    db.exec(`PRAGMA user_version = ${SCHEMA_VERSION}`)
+  })()
+}
+
+function fromRow(table: ProjectionTable, row: ProjectionRow): StoredProjection {
+  return {
+    projectionId: row.projection_id,
+    resourceKind: row.resource_kind,
+    projectionTable: table,
+    projectionPk: row.projection_pk,
+    sourceOwnerScopeRef: row.source_owner_scope_ref,
+    resourceName: row.resource_name,
+    sourcePath: row.source_path,
+    sourceHash: row.source_hash,
+    desiredProjectionHash: row.desired_projection_hash,
+    desiredJson: JSON.parse(row.desired_json) as Record<string, unknown>,
+    sourceVersion: row.source_version,
+    managedBy: row.managed_by,
+    origin: row.origin,
+    lastReconciledAt: row.last_reconciled_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Diff and apply a compiled resources plan against the local projection store.
+ *
+ * WHY: a plan only says what an agent's authored resources compile to. Diffing
+ * it against what was last applied lets those resources be reviewed like a
+ * Terraform plan before anything changes, and applying is idempotent: a second
+ * apply of the same plan only re-stamps `lastReconciledAt`.
+ */
+
+import type { ResourcesPlan } from 'spaces-config'
+
+import {
+  PROJECTION_TABLES,
+  type ProjectionTable,
+  type ResourceProjectionStore,
+  type StoredProjection,
+} from './projection-store.js'
+
+export type ProjectionChangeAction = 'create' | 'update' | 'orphan' | 'unchanged' | 'conflict'
+
+export interface ProjectionChange {
+  action: ProjectionChangeAction
+  projectionTable: ProjectionTable
+  projectionPk: string
+  resourceKind: string
+  resourceName: string
+  /** For updates: what differs, e.g. `desiredJson.schedule` or `sourceHash`. */
+  changed?: string[] | undefined
+  /** For conflicts: the projection that already holds this key. */
+  conflictsWith?: string | undefined
+}
+
+/** Classify every planned and previously applied projection of the plan's owner. */
+export function diffResourcesPlan(
+  plan: ResourcesPlan,
+  store: ResourceProjectionStore
+): ProjectionChange[] {
+  const planned = plannedProjections(plan)
+  const plannedKeys = new Set(planned.map(projectionKey))
+  const changes = planned.map((projection) =>
+    classify(projection, store.get(projection.projectionTable, projection.projectionPk))
+  )
+  for (const stored of store.listOwned(plan.sourceOwnerScopeRef)) {
+    if (!plannedKeys.has(projectionKey(stored))) {
+      changes.push({ ...changeIdentity(stored), action: 'orphan' })
+    }
+  }
+  return changes
+}
+
+/**
+ * Reconcile the store to the plan in one transaction: create and update
+ * planned projections, remove orphans, and stamp every planned projection's
+ * `lastReconciledAt`. Refuses to write anything while a key conflicts with
+ * another owner's projection.
+ */
+export function applyResourcesPlan(
+  plan: ResourcesPlan,
+  store: ResourceProjectionStore,
+  now: Date
+): ProjectionChange[] {
+  const changes = diffResourcesPlan(plan, store)
+  const conflicts = changes.filter((change) => change.action === 'conflict')
+  if (conflicts.length > 0) {
+    throw new Error(
+      `Cannot apply resources plan: ${conflicts
+        .map(
+          (change) =>
+            `${change.projectionTable}/${change.projectionPk} is held by ${change.conflictsWith}`
+        )
+        .join('; ')}`
+    )
+  }
+
+  const stamp = now.toISOString()
+  store.transaction(() => {
+    for (const projection of plannedProjections(plan)) {
+      const existing = store.get(projection.projectionTable, projection.projectionPk)
+      const unchanged = existing !== undefined && changedFields(projection, existing).length === 0
+      store.upsert({
+        ...projection,
+        createdAt: existing?.createdAt ?? stamp,
+        updatedAt: unchanged ? existing.updatedAt : stamp,
+        lastReconciledAt: stamp,
+      })
+    }
+    for (const change of changes) {
+      if (change.action === 'orphan') {
+        store.delete(change.projectionTable, change.projectionPk)
+      }
+    }
+  })
+  return changes
+}
+
+function classify(
+  projection: StoredProjection,
+  stored: StoredProjection | undefined
+): ProjectionChange {
+  const identity = changeIdentity(projection)
+  if (stored === undefined) {
+    return { ...identity, action: 'create' }
+  }
+  if (stored.projectionId !== projection.projectionId) {
+    return { ...identity, action: 'conflict', conflictsWith: stored.projectionId }
+  }
+  const changed = changedFields(projection, stored)
+  return changed.length === 0
+    ? { ...identity, action: 'unchanged' }
+    : { ...identity, action: 'update', changed }
+}
+
+function changedFields(planned: StoredProjection, stored: StoredProjection): string[] {
+  const changed: string[] = []
+  if (planned.desiredProjectionHash !== stored.desiredProjectionHash) {
+    const keys = new Set([...Object.keys(planned.desiredJson), ...Object.keys(stored.desiredJson)])
+    for (const key of keys) {
+      if (JSON.stringify(planned.desiredJson[key]) !== JSON.stringify(stored.desiredJson[key])) {
+        changed.push(`desiredJson.${key}`)
+      }
+    }
+  }
+  if (planned.sourceHash !== stored.sourceHash) changed.push('sourceHash')
+  if (planned.sourcePath !== stored.sourcePath) changed.push('sourcePath')
+  return changed
+}
+
+function plannedProjections(plan: ResourcesPlan): StoredProjection[] {
+  return plan.resources.map((resource, index) => {
+    if (
+      !isRecord(resource) ||
+      !PROJECTION_TABLES.includes(resource['projectionTable'] as ProjectionTable) ||
+      !isRecord(resource['desiredJson'])
+    ) {
+      throw new Error(`resources[${index}] is not a managed resource projection`)
+    }
+    return {
+      projectionId: String(resource['projectionId']),
+      resourceKind: String(resource['resourceKind']),
+      projectionTable: resource['projectionTable'] as ProjectionTable,
+      projectionPk: String(resource['projectionPk']),
+      sourceOwnerScopeRef: String(resource['sourceOwnerScopeRef']),
+      resourceName: String(resource['resourceName']),
+      sourcePath: String(resource['sourcePath']),
+      sourceHash: String(resource['sourceHash']),
+      desiredProjectionHash: String(resource['desiredProjectionHash']),
+      desiredJson: resource['desiredJson'],
+      sourceVersion: Number(resource['sourceVersion']),
+      managedBy: String(resource['managedBy']),
+      origin: String(resource['origin']),
+      lastReconciledAt: String(resource['lastReconciledAt']),
+      createdAt: String(resource['createdAt']),
+      updatedAt: String(resource['updatedAt']),
+    }
+  })
+}
+
+function changeIdentity(
+  projection: StoredProjection
+): Omit<ProjectionChange, 'action' | 'changed' | 'conflictsWith'> {
+  return {
+    projectionTable: projection.projectionTable,
+    projectionPk: projection.projectionPk,
+    resourceKind: projection.resourceKind,
+    resourceName: projection.resourceName,
+  }
+}
+
+function projectionKey(projection: StoredProjection): string {
+  return `${projection.projectionTable}/${projection.projectionPk}`
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+}
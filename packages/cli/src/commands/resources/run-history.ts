@@ -0,0 +1,173 @@
+import { Database } from 'bun:sqlite'
+import { mkdirSync } from 'node:fs'
+import { dirname } from 'node:path'
+
+const SCHEMA_VERSION = 1
+
+export type ResourceRunStatus = 'succeeded' | 'failed' | 'skipped' | 'dry-run'
+
+export interface ResourceRunRecord {
+  runId: string
+  stepId: string
+  projectionPk: string
+  scheduledFor: string
+  startedAt: string
+  finishedAt: string
+  status: ResourceRunStatus
+  mode?: string | undefined
+  exitCode?: number | undefined
+  reason?: string | undefined
+  argv?: string[] | undefined
+}
+
+export interface ResourceRunHistory {
+  /** Instant through which `projectionPk`'s trigger has been evaluated. */
+  cursor(projectionPk: string): Date | undefined
+  setCursor(projectionPk: string, evaluatedThrough: Date): void
+  record(run: ResourceRunRecord): void
+  runs(projectionPk?: string): ResourceRunRecord[]
+  close(): void
+}
+
+interface RunRow {
+  run_id: string
+  step_id: string
+  projection_pk: string
+  scheduled_for: string
+  started_at: string
+  finished_at: string
+  status: ResourceRunStatus
+  mode: string | null
+  exit_code: number | null
+  reason: string | null
+  argv: string | null
+}
+
+/**
+ * Local run history for `asp resources run` (bun:sqlite). Trigger cursors make
+ * evaluation idempotent across restarts: a fire time at or before a job's
+ * cursor has already been handled and never launches again.
+ */
+export function openResourceRunHistory(path: string): ResourceRunHistory {
+  mkdirSync(dirname(path), { recursive: true })
+  const db = new Database(path, { create: true })
+  db.exec('PRAGMA journal_mode = WAL')
+  migrate(db)
+
+  const selectCursor = db.query<{ evaluated_through: string }, [string]>(
+    'SELECT evaluated_through FROM trigger_cursors WHERE projection_pk = ?'
+  )
+  const upsertCursor = db.query<unknown, [string, string]>(
+    `INSERT INTO trigger_cursors (projection_pk, evaluated_through) VALUES (?1, ?2)
+     ON CONFLICT (projection_pk) DO UPDATE SET evaluated_through = ?2`
+  )
+  const insertRun = db.query<
+    unknown,
+    [
+      string,
+      string,
+      string,
+      string,
+      string,
+      string,
+      string,
+      string | null,
+      number | null,
+      string | null,
+      string | null,
+    ]
+  >(
+    `INSERT OR REPLACE INTO runs (run_id, step_id, projection_pk, scheduled_for, started_at,
+       finished_at, status, mode, exit_code, reason, argv)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  )
+  const selectRuns = db.query<RunRow, []>('SELECT * FROM runs ORDER BY started_at, run_id, step_id')
+  const selectJobRuns = db.query<RunRow, [string]>(
+    'SELECT * FROM runs WHERE projection_pk = ? ORDER BY started_at, run_id, step_id'
+  )
+
+  return {
+    cursor(projectionPk) {
+      const row = selectCursor.get(projectionPk)
+      return row === null ? undefined : new Date(row.evaluated_through)
+    },
+    setCursor(projectionPk, evaluatedThrough) {
+      upsertCursor.run(projectionPk, evaluatedThrough.toISOString())
+    },
+    record(run) {
+      insertRun.run(
+        run.runId,
+        run.stepId,
+        run.projectionPk,
+        run.scheduledFor,
+        run.startedAt,
+        run.finishedAt,
+        run.status,
+        run.mode ?? null,
+        run.exitCode ?? null,
+        run.reason ?? null,
+        run.argv === undefined ? null : JSON.stringify(run.argv)
+      )
+    },
+    runs(projectionPk) {
+      const rows = projectionPk === undefined ? selectRuns.all() : selectJobRuns.all(projectionPk)
+      return rows.map(fromRow)
+    },
+    close() {
+      db.close()
+    },
+  }
+}
+
+function migrate(db: Database): void {
+  const version = db.query<{ user_version: number }, []>('PRAGMA user_version').get()
+  const current = version?.user_version ?? 0
+  if (current > SCHEMA_VERSION) {
+    throw new Error(
+      `Resource run history schema version ${current} is newer than supported version ${SCHEMA_VERSION}`
+    )
+  }
+  if (current === SCHEMA_VERSION) {
+    return
+  }
+  db.transaction(() => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS trigger_cursors (
+        projection_pk TEXT PRIMARY KEY,
+        evaluated_through TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS runs (
+        run_id TEXT NOT NULL,
+        step_id TEXT NOT NULL,
+        projection_pk TEXT NOT NULL,
+        scheduled_for TEXT NOT NULL,
+        started_at TEXT NOT NULL,
+        finished_at TEXT NOT NULL,
+        status TEXT NOT NULL,
+        mode TEXT,
+        exit_code INTEGER,
+        reason TEXT,
+        argv TEXT,
+        PRIMARY KEY (run_id, step_id)
+      );
+      CREATE INDEX IF NOT EXISTS runs_by_job ON runs (projection_pk, started_at);
+    `)
+    db.exec(`PRAGMA user_version = ${SCHEMA_VERSION}`)
+  })()
+}
+
+function fromRow(row: RunRow): ResourceRunRecord {
+  return {
+    runId: row.run_id,
+    stepId: row.step_id,
+    projectionPk: row.projection_pk,
+    scheduledFor: row.scheduled_for,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+    status: row.status,
+    ...(row.mode !== null ? { mode: row.mode } : {}),
+    ...(row.exit_code !== null ? { exitCode: row.exit_code } : {}),
+    ...(row.reason !== null ? { reason: row.reason } : {}),
+    ...(row.argv !== null ? { argv: JSON.parse(row.argv) as string[] } : {}),
+  }
+}
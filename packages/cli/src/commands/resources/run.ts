@@ -0,0 +1,230 @@
+/**
+ * Local scheduler behind `asp resources run`.
+ *
+ * WHY: compiled scheduled-job projections normally fire through ACP. On a dev
+ * machine this evaluates the same triggers in-process and launches each due
+ * job through `asp agent`, so a heartbeat or task job can be exercised without
+ * the control plane. Jobs run one at a time; a fire that is missed while the
+ * scheduler is down or busy is coalesced into a single run on the next tick.
+ * Every step starts a fresh session: the local scheduler does not continue a
+ * lane's earlier session, so a flow step's `fresh` setting has no effect here.
+ */
+
+import { spawn } from 'node:child_process'
+import { DEFAULT_SCHEDULE_TIMEZONE, nextScheduleFireTimes } from 'spaces-config'
+
+import type { ResourceRunHistory, ResourceRunRecord } from './run-history.js'
+
+/** Scheduler granularity: cron fields resolve to whole minutes. */
+export const TICK_MS = 60_000
+
+export interface ScheduledJob {
+  projectionPk: string
+  scopeRef: string
+  laneRef: string
+  cron: string
+  timezone: string
+  disabled: boolean
+  /** `execution.nodes` from the projection; absent means any node. */
+  nodes?: string[] | undefined
+  steps: ScheduledJobStep[]
+}
+
+interface ScheduledJobStep {
+  id: string
+  prompt: string | undefined
+}
+
+export interface ResourcesTickOptions {
+  now: Date
+  /** This machine's node id, matched against `execution.nodes`. */
+  node?: string | undefined
+  agentRoot?: string | undefined
+  /** Record and report launches without spawning `asp agent`. */
+  dryRun: boolean
+}
+
+/** Extract the scheduled jobs of a compiled plan, in plan order. */
+export function scheduledJobsFromPlan(resources: unknown[]): ScheduledJob[] {
+  const jobs: ScheduledJob[] = []
+  for (const resource of resources) {
+    if (!isRecord(resource) || resource['resourceKind'] !== 'scheduled-job') continue
+    const desiredJson = isRecord(resource['desiredJson']) ? resource['desiredJson'] : {}
+    const schedule = isRecord(desiredJson['schedule']) ? desiredJson['schedule'] : {}
+    const execution = isRecord(desiredJson['execution']) ? desiredJson['execution'] : {}
+    const nodes = Array.isArray(execution['nodes']) ? execution['nodes'].map(String) : undefined
+    jobs.push({
+      projectionPk: String(resource['projectionPk']),
+      scopeRef: String(desiredJson['scopeRef']),
+      laneRef: typeof desiredJson['laneRef'] === 'string' ? desiredJson['laneRef'] : 'main',
+      cron: String(schedule['cron']),
+      timezone:
+        typeof schedule['timezone'] === 'string' ? schedule['timezone'] : DEFAULT_SCHEDULE_TIMEZONE,
+      disabled: desiredJson['disabled'] === true,
+      ...(nodes !== undefined ? { nodes } : {}),
+      steps: readJobSteps(desiredJson),
+    })
+  }
+  return jobs
+}
+
+/**
+ * Evaluate every job's trigger over `(cursor, now]` and launch the due ones.
+ * A job with no cursor yet only looks back one tick, so starting the scheduler
+ * never replays history. Cursors advance before launching, so a crash mid-run
+ * does not fire the same slot twice.
+ */
+export async function runResourcesTick(
+  jobs: ScheduledJob[],
+  history: ResourceRunHistory,
+  options: ResourcesTickOptions
+): Promise<ResourceRunRecord[]> {
+  const records: ResourceRunRecord[] = []
+  for (const job of jobs) {
+    const cursor = history.cursor(job.projectionPk) ?? new Date(options.now.getTime() - TICK_MS)
+    if (cursor.getTime() >= options.now.getTime()) continue
+    history.setCursor(job.projectionPk, options.now)
+    if (job.disabled) continue
+
+    const [next] = nextScheduleFireTimes(
+      { cron: job.cron, timezone: job.timezone },
+      { from: cursor, count: 1 }
+    )
+    if (next === undefined || Date.parse(next.instant) > options.now.getTime()) continue
+
+    for (const record of await launchJob(job, next.instant, options)) {
+      history.record(record)
+      records.push(record)
+    }
+  }
+  return records
+}
+
+async function launchJob(
+  job: ScheduledJob,
+  scheduledFor: string,
+  options: ResourcesTickOptions
+): Promise<ResourceRunRecord[]> {
+  const runId = `${job.projectionPk}@${scheduledFor}`
+  const base = { runId, projectionPk: job.projectionPk, scheduledFor }
+
+  const skipReason = nodeSkipReason(job.nodes, options.node)
+  if (skipReason !== undefined) {
+    const at = options.now.toISOString()
+    return [
+      {
+        ...base,
+        stepId: '-',
+        startedAt: at,
+        finishedAt: at,
+        status: 'skipped',
+        reason: skipReason,
+      },
+    ]
+  }
+
+  const records: ResourceRunRecord[] = []
+  let failedStep: string | undefined
+  for (const step of job.steps) {
+    const mode = step.prompt !== undefined ? 'task' : 'heartbeat'
+    const argv = agentArgv(job, step, mode, runId, options.agentRoot)
+    const stepBase = { ...base, stepId: step.id, mode, argv }
+    const startedAt = options.dryRun ? options.now.toISOString() : new Date().toISOString()
+
+    if (failedStep !== undefined) {
+      records.push({
+        ...stepBase,
+        startedAt,
+        finishedAt: startedAt,
+        status: 'skipped',
+        reason: `step "${failedStep}" failed`,
+      })
+      continue
+    }
+    if (options.dryRun) {
+      records.push({ ...stepBase, startedAt, finishedAt: startedAt, status: 'dry-run' })
+      continue
+    }
+
+    const exitCode = await launchAgent(argv.slice(1))
+    records.push({
+      ...stepBase,
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      status: exitCode === 0 ? 'succeeded' : 'failed',
+      exitCode,
+    })
+    if (exitCode !== 0) failedStep = step.id
+  }
+  return records
+}
+
+/** Build the `asp agent` invocation for one step, in a host session of its own. */
+function agentArgv(
+  job: ScheduledJob,
+  step: ScheduledJobStep,
+  mode: 'task' | 'heartbeat',
+  runId: string,
+  agentRoot: string | undefined
+): string[] {
+  return [
+    'asp',
+    'agent',
+    job.scopeRef,
+    mode,
+    '--lane-ref',
+    job.laneRef,
+    '--run-id',
+    runId,
+    '--host-session-id',
+    `resources-run:${runId}/${step.id}`,
+    ...(agentRoot !== undefined ? ['--agent-root', agentRoot] : []),
+    ...(step.prompt !== undefined ? ['--prompt', step.prompt] : []),
+  ]
+}
+
+/** Re-enter this CLI (`bun <asp entry> agent ...`) and wait for it to exit. */
+async function launchAgent(args: string[]): Promise<number> {
+  const entry = process.argv[1]
+  if (entry === undefined) throw new Error('Cannot locate the asp entry point to launch agents')
+  const child = spawn(process.execPath, [entry, ...args], {
+    env: process.env,
+    // Agent output goes to stderr so stdout stays the scheduler's own (--json) report.
+    stdio: ['ignore', 2, 2],
+  })
+  return new Promise<number>((resolve) => {
+    child.on('error', () => resolve(1))
+    child.on('close', (code) => resolve(code ?? 1))
+  })
+}
+
+function nodeSkipReason(nodes: string[] | undefined, node: string | undefined): string | undefined {
+  if (nodes === undefined || nodes.includes('all')) return undefined
+  if (node === undefined) {
+    return `execution.nodes [${nodes.join(', ')}] requires --node to run here`
+  }
+  return nodes.includes(node)
+    ? undefined
+    : `execution.nodes [${nodes.join(', ')}] does not include node "${node}"`
+}
+
+function readJobSteps(desiredJson: Record<string, unknown>): ScheduledJobStep[] {
+  const flow = isRecord(desiredJson['flow']) ? desiredJson['flow'] : undefined
+  if (flow !== undefined && Array.isArray(flow['sequence'])) {
+    return flow['sequence'].filter(isRecord).map((step, index) => ({
+      id: typeof step['id'] === 'string' ? step['id'] : `step-${index + 1}`,
+      prompt: typeof step['input'] === 'string' ? step['input'] : undefined,
+    }))
+  }
+  const input = isRecord(desiredJson['input']) ? desiredJson['input'] : {}
+  return [
+    {
+      id: 'run',
+      prompt: typeof input['content'] === 'string' ? input['content'] : undefined,
+    },
+  ]
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+}
@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+
+import { cleanupTempDirs, runAsp, setupSelfFixture } from './test-helpers.js'
+
+afterEach(async () => {
+  await cleanupTempDirs()
+})
+
+describe('asp self cache', () => {
+  test('reports fresh then cached sections, and clear forces a fresh run', async () => {
+    const fixture = await setupSelfFixture({
+      template: `
+schema_version = 2
+mode = "append"
+
+[[reminder]]
+name = "slow"
+type = "exec"
+command = "echo slow output"
+cache = { ttl = "1h" }
+`.trimStart(),
+    })
+    const sectionCache = () => {
+      const result = runAsp(['self', 'prompt', 'reminder', '--sections', '--json'], fixture.env)
+      expect(result.exitCode).toBe(0)
+      const parsed = JSON.parse(result.stdout) as { sectionReports: Array<{ cache?: string }> }
+      return parsed.sectionReports[0]?.cache
+    }
+
+    expect(sectionCache()).toBe('fresh')
+    expect(sectionCache()).toStartWith('cached (')
+
+    const listed = runAsp(['self', 'cache', 'list', '--json'], fixture.env)
+    expect(listed.exitCode).toBe(0)
+    const { entries } = JSON.parse(listed.stdout) as {
+      entries: Array<{ section: string; content: string; expired: boolean }>
+    }
+    expect(entries).toMatchObject([{ section: 'slow', content: 'slow output', expired: false }])
+
+    const cleared = runAsp(['self', 'cache', 'clear', '--section', 'slow'], fixture.env)
+    expect(cleared.exitCode).toBe(0)
+    expect(cleared.stdout.trim()).toBe('Cleared 1 cached section entry')
+    expect(sectionCache()).toBe('fresh')
+  }, 30_000)
+})
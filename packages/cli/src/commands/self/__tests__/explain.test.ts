@@ -1,4 +1,5 @@
 import { afterEach, describe, expect, test } from 'bun:test'
+import { mkdir, writeFile } from 'node:fs/promises'
 import { join } from 'node:path'
 
 import { cleanupTempDirs, runAsp, setupSelfFixture } from './test-helpers.js'
@@ -57,6 +58,33 @@ source = "session.additionalContext"
     )
   })
 
+  test('names the template layer each section came from', async () => {
+    const fixture = await setupSelfFixture({
+      template: `
+schema_version = 2
+extends = "templates/base.toml"
+
+[[prompt]]
+name = "local"
+type = "inline"
+content = "local body"
+`.trimStart(),
+    })
+    const basePath = join(fixture.agentsRoot, 'templates', 'base.toml')
+    await mkdir(join(fixture.agentsRoot, 'templates'), { recursive: true })
+    await writeFile(
+      basePath,
+      'schema_version = 2\nmode = "append"\n\n[[prompt]]\nname = "shared"\ntype = "inline"\ncontent = "shared body"\n'
+    )
+
+    const result = runAsp(['self', 'explain', 'prompt'], fixture.env)
+
+    expect(result.exitCode).toBe(0)
+    expect(result.stdout).toContain(
+      `shared ← ${basePath}, local ← ${join(fixture.agentsRoot, 'context-template.toml')}`
+    )
+  })
+
   test('surfaces unreadable launch-file errors', async () => {
     const fixture = await setupSelfFixture()
     const env = { ...fixture.env, AGENT_LAUNCH_FILE: join(fixture.dir, 'missing-launch.json') }
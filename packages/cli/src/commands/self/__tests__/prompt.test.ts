@@ -76,6 +76,36 @@ content = "recomputed reminder"
     expect(recomputed.stdout.trim()).toBe('recomputed reminder')
   })
 
+  test('lists sections the reminder token budget shrank or dropped', async () => {
+    const fixture = await setupSelfFixture({
+      template: `
+schema_version = 2
+mode = "append"
+
+[zones.reminder]
+max_tokens = 10
+
+[[reminder]]
+name = "status"
+type = "inline"
+content = "${'s'.repeat(30)}"
+priority = 1
+
+[[reminder]]
+name = "history"
+type = "inline"
+content = "${'h'.repeat(50)}"
+`.trimStart(),
+    })
+
+    const result = runAsp(['self', 'prompt', 'reminder', '--sections'], fixture.env)
+
+    expect(result.exitCode).toBe(0)
+    expect(result.stdout).toContain('budget')
+    expect(result.stdout).toContain('history  dropped 50→0 chars (priority 0)')
+    expect(result.stdout).toContain('reminder is ~22 tokens, over max_tokens 10')
+  })
+
   test('shows priming prompt from argv tail', async () => {
     const fixture = await setupSelfFixture()
     const result = runAsp(['self', 'prompt', 'priming', '--json'], fixture.env)
@@ -0,0 +1,94 @@
+/**
+ * `asp self cache [list|clear]` — inspect and invalidate cached context
+ * template sections.
+ *
+ * WHY: exec and service-probe sections with `cache = { ttl = ... }` reuse
+ * their output across launches until the TTL elapses. When the underlying
+ * state changes sooner (a task list was just edited), the agent needs a way to
+ * force the next materialization to run the command again.
+ */
+
+import chalk from 'chalk'
+import type { Command } from 'commander'
+
+import { PathResolver } from 'spaces-config'
+import { clearSectionCache, listSectionCache } from 'spaces-runtime'
+
+import { errorMessage } from '../../helpers.js'
+import { resolveSelfContext } from './lib.js'
+
+interface CacheOptions {
+  json?: boolean
+  section?: string
+  expired?: boolean
+}
+
+export function registerSelfCacheCommand(self: Command): void {
+  const cache = self
+    .command('cache')
+    .description('List or clear cached context template section output')
+
+  cache
+    .command('list', { isDefault: true })
+    .description('List cached section entries under ASP_HOME')
+    .option('--json', 'Emit machine-readable JSON')
+    .action(async (options: CacheOptions) => {
+      await withCacheDir('self cache list', async (cacheDir) => {
+        const entries = await listSectionCache(cacheDir)
+        if (options.json) {
+          process.stdout.write(`${JSON.stringify({ cacheDir, entries }, null, 2)}\n`)
+          return
+        }
+
+        const out = [chalk.bold(`asp self cache — ${cacheDir}`), '']
+        if (entries.length === 0) {
+          out.push(chalk.gray('  (no cached sections)'))
+        }
+        for (const entry of entries) {
+          const state = entry.expired ? chalk.gray('expired') : chalk.green('live')
+          out.push(
+            `  ${entry.section}  ${state}  ${entry.content.length} chars  ${chalk.gray(entry.source)}`
+          )
+          out.push(chalk.gray(`      ${entry.createdAt} → ${entry.expiresAt}  ${entry.key}`))
+        }
+        process.stdout.write(`${out.join('\n')}\n`)
+      })
+    })
+
+  cache
+    .command('clear')
+    .description('Remove cached section entries so the next resolution runs fresh')
+    .option('--json', 'Emit machine-readable JSON')
+    .option('--section <name>', 'Only clear entries written by this section')
+    .option('--expired', 'Only clear entries whose TTL has elapsed')
+    .action(async (options: CacheOptions) => {
+      await withCacheDir('self cache clear', async (cacheDir) => {
+        const removed = await clearSectionCache(cacheDir, {
+          ...(options.section !== undefined ? { section: options.section } : {}),
+          ...(options.expired ? { expiredOnly: true } : {}),
+        })
+        if (options.json) {
+          process.stdout.write(
+            `${JSON.stringify({ cacheDir, removed: removed.map(({ key, section }) => ({ key, section })) }, null, 2)}\n`
+          )
+          return
+        }
+        process.stdout.write(
+          `Cleared ${removed.length} cached section ${removed.length === 1 ? 'entry' : 'entries'}\n`
+        )
+      })
+    })
+}
+
+async function withCacheDir(
+  commandName: string,
+  run: (cacheDir: string) => Promise<void>
+): Promise<void> {
+  try {
+    const ctx = resolveSelfContext()
+    await run(new PathResolver({ aspHome: ctx.aspHome }).contextCache)
+  } catch (error) {
+    process.stderr.write(`${commandName}: ${errorMessage(error)}\n`)
+    process.exit(1)
+  }
+}
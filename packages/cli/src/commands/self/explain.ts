@@ -19,6 +19,7 @@ import { resolveContextTemplateDetailed } from 'spaces-runtime'
 import { errorMessage } from '../../helpers.js'
 import {
   type ResolveSelfContextOptions,
+  type SectionReport,
   type TemplateSourceInfo,
   analyzeTemplateSections,
   classifyTemplateSource,
@@ -43,6 +44,7 @@ interface ExplainSectionReport {
   source: string
   content: string
   wrapped: boolean
+  layer?: string | undefined
 }
 
 interface ExplainPayload {
@@ -181,6 +183,11 @@ async function explainPrompt(ctx: ReturnType<typeof resolveSelfContext>): Promis
       zone: 'prompt',
     })
 
+    const layers = describeTemplateLayers(reports)
+    if (layers) {
+      findings.push(layers)
+    }
+
     const heartbeatOnly = reports.filter((report) => report.when?.includes('runMode=heartbeat'))
     if (heartbeatOnly.length > 0 && heartbeatOnly.every((report) => !report.included)) {
       findings.push({
@@ -311,6 +318,11 @@ async function explainReminder(
     })
   }
 
+  const layers = describeTemplateLayers(reports)
+  if (layers) {
+    findings.push(layers)
+  }
+
   const emptySections = reports
     .filter((report) => !report.included && !report.error)
     .map((report) => report.name)
@@ -335,6 +347,7 @@ async function explainReminder(
     source: extractResolvedPath(section.source),
     content: section.content ?? '',
     wrapped: section.wrapped ?? false,
+    ...(section.layer ? { layer: section.layer } : {}),
   }))
 
   return payload(sections)
@@ -406,6 +419,22 @@ function formatTemplateWinnerMessage(source: TemplateSourceInfo): string {
   }
 }
 
+/**
+ * Name the template file each section came from when the active template
+ * composes layers via `extends` or `[[include]]`.
+ */
+function describeTemplateLayers(reports: SectionReport[]): ExplainFinding | undefined {
+  const layered = reports.filter((report) => report.layer)
+  if (layered.length === 0) {
+    return undefined
+  }
+
+  return {
+    level: 'info',
+    message: `The template is composed from layers: ${layered.map((report) => `${report.name} ← ${report.layer}`).join(', ')}.`,
+  }
+}
+
 function renderHuman(agentName: string | null, payload: ExplainPayload): void {
   const out: string[] = []
   out.push(chalk.bold(`asp self explain — ${payload.topic} (${agentName ?? '(unknown agent)'})`))
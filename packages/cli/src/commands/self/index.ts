@@ -14,10 +14,12 @@
  *   paths     — every runtime path, classified (clod / T-01159)
  *   prompt    — effective system / reminder / priming (cody / T-01160)
  *   explain   — diagnostic "why is this (not) there?" (cody / T-01160)
+ *   cache     — list or clear cached exec/service-probe section output
  */
 
 import type { Command } from 'commander'
 
+import { registerSelfCacheCommand } from './cache.js'
 import { registerSelfExplainCommand } from './explain.js'
 import { registerSelfInspectCommand } from './inspect.js'
 import { registerSelfMemoryCommand } from './memory/index.js'
@@ -34,4 +36,5 @@ export function registerSelfCommands(program: Command): void {
   registerSelfPromptCommand(self)
   registerSelfExplainCommand(self)
   registerSelfMemoryCommand(self)
+  registerSelfCacheCommand(self)
 }
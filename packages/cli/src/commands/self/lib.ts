@@ -13,11 +13,15 @@ import { basename, dirname, join } from 'node:path'
 
 import { parse as parseToml } from '@iarna/toml'
 
-import { getAgentsRoot, getAspHome, resolveRootRelativeRef } from 'spaces-config'
+import { parseScopeRef } from 'agent-scope'
+import { PathResolver, getAgentsRoot, getAspHome, resolveRootRelativeRef } from 'spaces-config'
 import {
   type ContextResolverContext,
   type ContextTemplate,
   type DiscoveredContextTemplate,
+  type PromptMatchContext,
+  buildPromptMatchContext,
+  describeWhenPredicate,
   discoverContextTemplate,
   resolveContextTemplateDetailed,
 } from 'spaces-runtime'
@@ -72,6 +76,9 @@ export interface SelfContext {
 
   harness: string | null
   provider: string | null
+  /** Session scope and lane, as injected by the launch (`AGENT_SCOPE_REF`, `AGENT_LANE`). */
+  scopeRef: string | null
+  lane: string | null
 
   systemPrompt: PromptFragment | null
   primingPrompt: string | null
@@ -126,6 +133,12 @@ export interface SectionReport {
   bytes: number
   included: boolean
   when?: string | undefined
+  /** Why the `when` predicate excluded the section, when it did. */
+  skipped?: string | undefined
+  /** Template file that declared the section, for templates using `extends` or `[[include]]`. */
+  layer?: string | undefined
+  /** For `cache`-enabled sections: `fresh` when just run, else `cached` with its expiry. */
+  cache?: string | undefined
   error?: string | undefined
 }
 
@@ -352,12 +365,38 @@ export function resolveSelfContext(options: ResolveSelfContextOptions = {}): Sel
 
     harness: launch?.harness ?? null,
     provider: launch?.provider ?? null,
+    scopeRef: lookup('AGENT_SCOPE_REF'),
+    lane: lookup('AGENT_LANE'),
 
     systemPrompt,
     primingPrompt,
   }
 }
 
+/**
+ * The `when` match keys the launch filled (lane, scope role, harness family,
+ * model provider), rebuilt from the self context so re-resolving a template
+ * gates sections the way the launch did.
+ */
+export function resolveSelfPromptMatchContext(
+  ctx: Pick<SelfContext, 'harness' | 'provider' | 'scopeRef' | 'lane'>
+): PromptMatchContext {
+  let role: string | undefined
+  if (ctx.scopeRef) {
+    try {
+      role = parseScopeRef(ctx.scopeRef).roleName
+    } catch {
+      // Shorthand or legacy scope refs name no role.
+    }
+  }
+  return buildPromptMatchContext({
+    ...(ctx.harness ? { harness: ctx.harness } : {}),
+    ...(ctx.provider ? { modelProvider: ctx.provider } : {}),
+    ...(ctx.lane ? { lane: ctx.lane } : {}),
+    role,
+  })
+}
+
 export function resolveSelfTemplateContext(
   ctx: SelfContext,
   options: ResolveSelfTemplateContextOptions = {}
@@ -376,7 +415,9 @@ export function resolveSelfTemplateContext(
     agentsRoot: discovered.agentsRoot,
     projectRoot: ctx.cwd,
     runMode,
+    sectionCacheDir: new PathResolver({ aspHome: ctx.aspHome }).contextCache,
     ...(ctx.projectId ? { projectId: ctx.projectId } : {}),
+    ...resolveSelfPromptMatchContext(ctx),
   }
 
   if (discovered.profile.rawProfile) {
@@ -435,6 +476,10 @@ export function describeTemplateSectionSource(
       return `slot: ${section.source}`
     case 'service-probe':
       return `service-probe: ${section.services.map((s) => s.name).join(', ')}`
+    case 'memory':
+      return `memory: ${section.target}`
+    case 'git':
+      return `git: ${resolverContext.projectRoot ?? resolverContext.agentRoot}`
     case 'file': {
       try {
         const resolved =
@@ -461,15 +506,8 @@ function formatWhenPredicate(section: TemplateSection): string | undefined {
     return undefined
   }
 
-  const parts: string[] = []
-  if (section.when.runMode) {
-    parts.push(`runMode=${section.when.runMode}`)
-  }
-  if (section.when.exists) {
-    parts.push(`exists=${section.when.exists}`)
-  }
-
-  return parts.length > 0 ? parts.join(', ') : undefined
+  const description = describeWhenPredicate(section.when)
+  return description.length > 0 ? description : undefined
 }
 
 export async function analyzeTemplateSections(input: {
@@ -498,6 +536,7 @@ export async function analyzeTemplateSections(input: {
         bytes: 0,
         included: false,
         ...(when ? { when } : {}),
+        ...(section.layer ? { layer: section.layer } : {}),
       }
 
       try {
@@ -510,9 +549,20 @@ export async function analyzeTemplateSections(input: {
           }
         )
         const content = input.zone === 'prompt' ? resolved.prompt?.content : resolved.reminder
+        const [report] =
+          input.zone === 'prompt' ? resolved.promptSections : resolved.reminderSections
 
         return {
           ...base,
+          ...(report?.skippedDetail !== undefined ? { skipped: report.skippedDetail } : {}),
+          ...(report?.cache !== undefined
+            ? {
+                cache:
+                  report.cache.status === 'fresh'
+                    ? 'fresh'
+                    : `cached (${report.cache.createdAt}, expires ${report.cache.expiresAt})`,
+              }
+            : {}),
           chars: charCount(content),
           bytes: byteCount(content),
           included: typeof content === 'string' && content.length > 0,
@@ -14,7 +14,7 @@ import chalk from 'chalk'
 import { CliUsageError } from 'cli-kit'
 import type { Command } from 'commander'
 
-import { resolveContextTemplateDetailed } from 'spaces-runtime'
+import { type ContextBudgetDecision, resolveContextTemplateDetailed } from 'spaces-runtime'
 
 import { errorMessage } from '../../helpers.js'
 import {
@@ -51,6 +51,8 @@ interface PromptPayload {
   templateSource?: TemplateSourceInfo | undefined
   sectionReports?: SectionReport[] | undefined
   sectionRunMode?: string | undefined
+  /** Sections the zone's `max_tokens` allocator shrank or dropped. */
+  budgetDecisions?: ContextBudgetDecision[] | undefined
   recomputedMatchesLaunch?: boolean | null | undefined
 }
 
@@ -181,6 +183,7 @@ async function buildSystemPayload(
     : []
 
   let recomputedMatchesLaunch: boolean | null = null
+  let budgetDecisions: ContextBudgetDecision[] | undefined
   if (templateCtx.template) {
     const resolved = await resolveContextTemplateDetailed(
       templateCtx.template,
@@ -190,6 +193,7 @@ async function buildSystemPayload(
       }
     )
     recomputedMatchesLaunch = (resolved.prompt?.content ?? null) === content
+    budgetDecisions = resolved.diagnostics.budgetDecisions
   }
 
   return {
@@ -197,6 +201,7 @@ async function buildSystemPayload(
     templateSource,
     sectionReports,
     sectionRunMode: templateCtx.runMode,
+    ...(budgetDecisions ? { budgetDecisions } : {}),
     recomputedMatchesLaunch,
   }
 }
@@ -213,6 +218,7 @@ async function buildReminderPayload(
   let templateSource: TemplateSourceInfo | undefined
   let sectionReports: SectionReport[] | undefined
   let sectionRunMode: string | undefined
+  let budgetDecisions: ContextBudgetDecision[] | undefined
 
   if (options.recompute || options.sections) {
     const templateCtx = resolveSelfTemplateContext(ctx)
@@ -231,16 +237,19 @@ async function buildReminderPayload(
         })
       }
 
+      const resolved = await resolveContextTemplateDetailed(
+        templateCtx.template,
+        templateCtx.resolverContext,
+        {
+          includePrompt: false,
+        }
+      )
       if (options.recompute) {
-        const resolved = await resolveContextTemplateDetailed(
-          templateCtx.template,
-          templateCtx.resolverContext,
-          {
-            includePrompt: false,
-          }
-        )
         content = resolved.reminder ?? null
       }
+      if (options.sections) {
+        budgetDecisions = resolved.diagnostics.budgetDecisions
+      }
     }
   }
 
@@ -258,6 +267,7 @@ async function buildReminderPayload(
     ...(templateSource ? { templateSource } : {}),
     ...(sectionReports ? { sectionReports } : {}),
     ...(sectionRunMode ? { sectionRunMode } : {}),
+    ...(budgetDecisions ? { budgetDecisions } : {}),
   }
 }
 
@@ -326,11 +336,31 @@ function renderHuman(
         if (report.when) {
           out.push(chalk.gray(`      when: ${report.when}`))
         }
+        if (report.layer) {
+          out.push(chalk.gray(`      layer: ${report.layer}`))
+        }
+        if (report.skipped) {
+          out.push(chalk.gray(`      skipped: ${report.skipped}`))
+        }
+        if (report.cache) {
+          out.push(chalk.gray(`      cache: ${report.cache}`))
+        }
         if (report.error) {
           out.push(chalk.yellow(`      error: ${report.error}`))
         }
       }
     }
+
+    if (payload.budgetDecisions && payload.budgetDecisions.length > 0) {
+      out.push('')
+      out.push(chalk.bold('budget'))
+      for (const decision of payload.budgetDecisions) {
+        out.push(
+          `  ${chalk.yellow(decision.action === 'dropped' ? '✗' : '↓')} ${decision.name}  ${decision.action} ${decision.fromChars}→${decision.toChars} chars (priority ${decision.priority})`
+        )
+        out.push(chalk.gray(`      ${decision.reason}`))
+      }
+    }
   }
 
   out.push('')
@@ -1,17 +1,26 @@
 import { execFile } from 'node:child_process'
-import { existsSync, lstatSync, readFileSync, readdirSync } from 'node:fs'
-import { basename, join, relative } from 'node:path'
+import { existsSync, lstatSync, readFileSync, readdirSync, statSync } from 'node:fs'
+import { basename, dirname, join, relative } from 'node:path'
 import { promisify } from 'node:util'
 
 import chalk from 'chalk'
+import { CliUsageError } from 'cli-kit'
 import type { Command } from 'commander'
+import { getAgentsRoot } from 'spaces-config'
 
 import { exitWithAspError } from '../helpers.js'
+import {
+  TOKEN_ENCODINGS,
+  type TokenCounter,
+  type TokenEncoding,
+  getTokenCounter,
+  isTokenEncoding,
+  tokenCounterForHarnessFamily,
+} from '../token-counter.js'
 
 const execFileAsync = promisify(execFile)
 const SECTION_SEPARATOR = '\n\n---\n\n'
-const DEFAULT_HRC_DB = '/Users/lherron/praesidium/var/state/hrc/state.sqlite'
-const DEFAULT_AGENTS_ROOT = '/Users/lherron/praesidium/var/agents'
+const HRC_STATE_DB_FILE = 'state.sqlite'
 const MS_PER_DAY = 24 * 60 * 60 * 1000
 const SQLITE_MAX_BUFFER = 128 * 1024 * 1024
 
@@ -24,6 +33,8 @@ interface TokenRentOptions {
   usageSince?: string | undefined
   since?: string | undefined
   now?: string | undefined
+  tokenizer?: string | undefined
+  diff?: string[] | undefined
 }
 
 interface RunUsage {
@@ -65,6 +76,7 @@ interface AgentRentReport {
   systemPromptFile?: string | undefined
   planCreatedAt?: string | undefined
   harnessFamily?: string | undefined
+  tokenEncoding: TokenEncoding
   residentTokens: number
   residentTokensPerDay: number
   sections: PromptSectionRent[]
@@ -108,7 +120,8 @@ interface TokenRentReport {
   usageNow: string
   usageWindowDays: number
   hrcDb: string
-  agentsRoot: string
+  agentsRoot?: string | undefined
+  tokenizer: TokenEncoding | 'auto'
   agents: AgentRentReport[]
   fleetRollup: FleetRollupRow[]
   topLines: TopLineRow[]
@@ -116,6 +129,38 @@ interface TokenRentReport {
   delta?: { since: string; rows: DeltaRow[] } | undefined
 }
 
+interface ResolvedPlanArtifact {
+  ref: string
+  systemPromptFile: string
+  agent?: string | undefined
+  harnessFamily?: string | undefined
+  planHash?: string | undefined
+}
+
+export interface SectionDiffRow {
+  label: string
+  source: string
+  status: 'added' | 'removed' | 'changed' | 'unchanged'
+  beforeTokens: number
+  afterTokens: number
+  deltaTokens: number
+  deltaTokensPerDay: number
+}
+
+interface TokenRentDiffReport {
+  generatedAt: string
+  before: ResolvedPlanArtifact
+  after: ResolvedPlanArtifact
+  agent?: string | undefined
+  sessionsPerDay: number
+  tokenEncoding: TokenEncoding
+  beforeTokens: number
+  afterTokens: number
+  deltaTokens: number
+  deltaTokensPerDay: number
+  rows: SectionDiffRow[]
+}
+
 interface RunsRow {
   scope_ref?: string | undefined
   runs?: number | undefined
@@ -132,9 +177,56 @@ interface PlanRow {
   harness_family?: string | undefined
 }
 
-function estimateTokens(text: string): number {
-  if (text.length === 0) return 0
-  return Math.ceil(text.length / 4)
+/**
+ * Resolve the HRC state DB and agents root. Explicit flags win; otherwise the
+ * agents root comes from `ASP_AGENTS_ROOT`/ASP config, and the DB from
+ * `HRC_STATE_DIR` or the `<var>/state/hrc` sibling of the agents root.
+ */
+export function resolveTokenRentPaths(
+  options: Pick<TokenRentOptions, 'hrcDb' | 'agentsRoot'>,
+  env: Record<string, string | undefined> = process.env
+): { hrcDb?: string | undefined; agentsRoot?: string | undefined } {
+  const agentsRoot = options.agentsRoot ?? getAgentsRoot({ env })
+  const hrcStateDir = env['HRC_STATE_DIR']
+  const hrcDb =
+    options.hrcDb ??
+    (hrcStateDir
+      ? join(hrcStateDir, HRC_STATE_DB_FILE)
+      : agentsRoot
+        ? join(dirname(agentsRoot), 'state', 'hrc', HRC_STATE_DB_FILE)
+        : undefined)
+  return { hrcDb, agentsRoot }
+}
+
+function requireHrcDb(hrcDb: string | undefined): string {
+  if (!hrcDb) {
+    throw new CliUsageError(
+      'HRC state DB location is unknown: pass --hrc-db, or set HRC_STATE_DIR or ASP_AGENTS_ROOT'
+    )
+  }
+  if (!existsSync(hrcDb)) {
+    throw new Error(`HRC state DB not found: ${hrcDb}`)
+  }
+  return hrcDb
+}
+
+function parseTokenizer(value: string | undefined): TokenEncoding | 'auto' {
+  if (value === undefined || value === 'auto') return 'auto'
+  if (!isTokenEncoding(value)) {
+    throw new CliUsageError(
+      `--tokenizer must be one of: auto, ${TOKEN_ENCODINGS.join(', ')} (got ${value})`
+    )
+  }
+  return value
+}
+
+function selectCounter(
+  tokenizer: TokenEncoding | 'auto',
+  harnessFamily: string | undefined
+): TokenCounter {
+  return tokenizer === 'auto'
+    ? tokenCounterForHarnessFamily(harnessFamily)
+    : getTokenCounter(tokenizer)
 }
 
 function defaultUsageSince(now: Date): string {
@@ -208,12 +300,13 @@ function inferSectionSource(label: string, index: number, agentName?: string | u
 export function analyzeSystemPromptArtifact(
   content: string,
   sessionsPerDay: number,
-  agentName?: string | undefined
+  agentName?: string | undefined,
+  counter: TokenCounter = tokenCounterForHarnessFamily(undefined)
 ): PromptSectionRent[] {
   return content.split(SECTION_SEPARATOR).map((section, offset) => {
     const index = offset + 1
     const label = sectionLabel(section, index)
-    const tokens = estimateTokens(section)
+    const tokens = counter.count(section)
     const bytes = Buffer.byteLength(section, 'utf8')
     return {
       index,
@@ -289,18 +382,22 @@ function maxIso(left: string | null, right: string | null): string | null {
   return left > right ? left : right
 }
 
+const PLAN_COLUMNS_SQL = [
+  'select',
+  'plan_hash,',
+  'created_at,',
+  "json_extract(plan_projection_json, '$.placement.correlation.sessionRef.scopeRef') as scope_ref,",
+  "json_extract(plan_projection_json, '$.artifacts.systemPromptFile') as system_prompt_file,",
+  "json_extract(plan_projection_json, '$.placement.agentRoot') as agent_root,",
+  "json_extract(plan_projection_json, '$.harness.family') as harness_family",
+].join(' ')
+
 async function loadLatestPlans(
   dbPath: string,
   agentFilter: string | undefined
 ): Promise<Map<string, PlanArtifact>> {
   const sql = [
-    'select',
-    'plan_hash,',
-    'created_at,',
-    "json_extract(plan_projection_json, '$.placement.correlation.sessionRef.scopeRef') as scope_ref,",
-    "json_extract(plan_projection_json, '$.artifacts.systemPromptFile') as system_prompt_file,",
-    "json_extract(plan_projection_json, '$.placement.agentRoot') as agent_root,",
-    "json_extract(plan_projection_json, '$.harness.family') as harness_family",
+    PLAN_COLUMNS_SQL,
     'from compiled_runtime_plans',
     "where json_extract(plan_projection_json, '$.artifacts.systemPromptFile') is not null",
     'order by created_at desc',
@@ -331,7 +428,8 @@ async function loadLatestPlans(
 function buildAgentReports(
   usage: Map<string, RunUsage>,
   plans: Map<string, PlanArtifact>,
-  usageWindowDays: number
+  usageWindowDays: number,
+  tokenizer: TokenEncoding | 'auto'
 ): AgentRentReport[] {
   const agents = Array.from(new Set([...usage.keys(), ...plans.keys()])).sort()
   return agents.map((agent) => {
@@ -343,12 +441,14 @@ function buildAgentReports(
       lastRunAt: null,
     }
     const plan = plans.get(agent)
+    const counter = selectCounter(tokenizer, plan?.harnessFamily)
     if (!plan) {
       return {
         agent,
         runs: use.runs,
         sessionsPerDay: use.sessionsPerDay,
         usageWindowDays,
+        tokenEncoding: counter.encoding,
         residentTokens: 0,
         residentTokensPerDay: 0,
         sections: [],
@@ -357,7 +457,7 @@ function buildAgentReports(
     }
 
     const prompt = readFileSync(plan.systemPromptFile, 'utf8')
-    const sections = analyzeSystemPromptArtifact(prompt, use.sessionsPerDay, agent).sort(
+    const sections = analyzeSystemPromptArtifact(prompt, use.sessionsPerDay, agent, counter).sort(
       (left, right) => right.tokensPerDay - left.tokensPerDay
     )
     const residentTokens = sections.reduce((sum, section) => sum + section.tokens, 0)
@@ -371,6 +471,7 @@ function buildAgentReports(
       systemPromptFile: plan.systemPromptFile,
       planCreatedAt: plan.createdAt,
       harnessFamily: plan.harnessFamily,
+      tokenEncoding: counter.encoding,
       residentTokens,
       residentTokensPerDay,
       sections,
@@ -409,13 +510,14 @@ function buildTopLines(agents: AgentRentReport[]): TopLineRow[] {
     { source: string; tokens: number; tokensPerDay: number; agents: Set<string> }
   >()
   for (const agent of agents) {
+    const counter = getTokenCounter(agent.tokenEncoding)
     for (const section of agent.sections) {
       const sectionPrompt = readSectionContent(agent.systemPromptFile, section.index)
       for (const line of sectionPrompt.split(/\r?\n/)) {
         const trimmed = line.trim()
         if (trimmed.length === 0) continue
         const key = `${section.source}\0${trimmed}`
-        const tokens = estimateTokens(trimmed)
+        const tokens = counter.count(trimmed)
         const existing = lines.get(key) ?? {
           source: section.source,
           tokens: 0,
@@ -457,12 +559,28 @@ function buildResidentCorpus(agents: AgentRentReport[]): string {
     .join('\n')
 }
 
+/**
+ * Files under `<agent>/` are counted with that agent's encoding; shared files
+ * and unknown agents use the forced tokenizer or the Anthropic default.
+ */
+function counterForAgentPath(
+  relPath: string,
+  agents: AgentRentReport[],
+  tokenizer: TokenEncoding | 'auto'
+): TokenCounter {
+  const agent = isGlobalAgentFile(relPath)
+    ? undefined
+    : agents.find((row) => row.agent === relPath.split('/')[0])
+  return agent ? getTokenCounter(agent.tokenEncoding) : selectCounter(tokenizer, undefined)
+}
+
 function buildDeadLayerCandidates(
-  agentsRoot: string,
+  agentsRoot: string | undefined,
   agents: AgentRentReport[],
-  agentFilter: string | undefined
+  agentFilter: string | undefined,
+  tokenizer: TokenEncoding | 'auto'
 ): DeadLayerCandidate[] {
-  if (!existsSync(agentsRoot)) return []
+  if (!agentsRoot || !existsSync(agentsRoot)) return []
   const residentCorpus = buildResidentCorpus(agents)
   const rows: DeadLayerCandidate[] = []
   for (const filePath of listMarkdownFiles(agentsRoot)) {
@@ -473,7 +591,7 @@ function buildDeadLayerCandidates(
     if (isKnownResidentRootFile(relPath)) continue
     const content = readFileSync(filePath, 'utf8')
     if (!looksInstructionLike(relPath, content)) continue
-    const tokens = estimateTokens(content)
+    const tokens = counterForAgentPath(relPath, agents, tokenizer).count(content)
     if (isSessionStartFile(relPath)) {
       rows.push({
         path: relPath,
@@ -549,11 +667,13 @@ function looksInstructionLike(relPath: string, content: string): boolean {
 }
 
 async function buildDeltaRows(
-  agentsRoot: string,
+  agentsRoot: string | undefined,
   since: string,
-  usage: Map<string, RunUsage>
+  usage: Map<string, RunUsage>,
+  agents: AgentRentReport[],
+  tokenizer: TokenEncoding | 'auto'
 ): Promise<DeltaRow[]> {
-  if (!existsSync(agentsRoot)) return []
+  if (!agentsRoot || !existsSync(agentsRoot)) return []
   const { stdout } = await execFileAsync(
     'git',
     ['-C', agentsRoot, 'diff', '--name-only', since, '--', '*.md'],
@@ -572,8 +692,9 @@ async function buildDeltaRows(
     const currentPath = join(agentsRoot, relPath)
     const after = existsSync(currentPath) ? readFileSync(currentPath, 'utf8') : ''
     const before = await readGitFile(agentsRoot, since, relPath)
-    const beforeTokens = estimateTokens(before)
-    const afterTokens = estimateTokens(after)
+    const counter = counterForAgentPath(relPath, agents, tokenizer)
+    const beforeTokens = counter.count(before)
+    const afterTokens = counter.count(after)
     const deltaTokens = afterTokens - beforeTokens
     const regime = inferFileRegime(relPath)
     rows.push({
@@ -628,15 +749,14 @@ async function buildTokenRentReport(options: TokenRentOptions): Promise<TokenRen
       MS_PER_DAY,
     1 / 24
   )
-  const hrcDb = options.hrcDb ?? DEFAULT_HRC_DB
-  const agentsRoot = options.agentsRoot ?? DEFAULT_AGENTS_ROOT
-  if (!existsSync(hrcDb)) {
-    throw new Error(`HRC state DB not found: ${hrcDb}`)
-  }
+  const tokenizer = parseTokenizer(options.tokenizer)
+  const paths = resolveTokenRentPaths(options)
+  const hrcDb = requireHrcDb(paths.hrcDb)
+  const agentsRoot = paths.agentsRoot
 
   const usage = await loadUsage(hrcDb, usageSince, usageNow, options.agent)
   const plans = await loadLatestPlans(hrcDb, options.agent)
-  const agents = buildAgentReports(usage, plans, usageWindowDays).sort(
+  const agents = buildAgentReports(usage, plans, usageWindowDays, tokenizer).sort(
     (left, right) => right.residentTokensPerDay - left.residentTokensPerDay
   )
   const report: TokenRentReport = {
@@ -646,20 +766,165 @@ async function buildTokenRentReport(options: TokenRentOptions): Promise<TokenRen
     usageWindowDays,
     hrcDb,
     agentsRoot,
+    tokenizer,
     agents,
     fleetRollup: buildFleetRollup(agents),
     topLines: buildTopLines(agents),
-    deadLayerCandidates: buildDeadLayerCandidates(agentsRoot, agents, options.agent),
+    deadLayerCandidates: buildDeadLayerCandidates(agentsRoot, agents, options.agent, tokenizer),
   }
   if (options.since) {
     report.delta = {
       since: options.since,
-      rows: await buildDeltaRows(agentsRoot, options.since, usage),
+      rows: await buildDeltaRows(agentsRoot, options.since, usage, agents, tokenizer),
     }
   }
   return report
 }
 
+/**
+ * Diff two system-prompt artifacts section by section. Sections are matched
+ * by inferred source (or by heading for unattributed sections), so a reorder
+ * shows as unchanged and an edit shows on the section that grew.
+ */
+export function diffSystemPromptArtifacts(
+  before: string,
+  after: string,
+  counter: TokenCounter,
+  sessionsPerDay: number,
+  agentName?: string | undefined
+): SectionDiffRow[] {
+  const index = (content: string): Map<string, { label: string; source: string; text: string }> => {
+    const keyed = new Map<string, { label: string; source: string; text: string }>()
+    content.split(SECTION_SEPARATOR).forEach((text, offset) => {
+      const label = sectionLabel(text, offset + 1)
+      const source = inferSectionSource(label, offset + 1, agentName)
+      const base = source.startsWith('artifact:') ? `label:${label}` : source
+      let key = base
+      for (let occurrence = 2; keyed.has(key); occurrence++) key = `${base}#${occurrence}`
+      keyed.set(key, { label, source, text })
+    })
+    return keyed
+  }
+
+  const beforeSections = index(before)
+  const afterSections = index(after)
+  const keys = [
+    ...afterSections.keys(),
+    ...[...beforeSections.keys()].filter((key) => !afterSections.has(key)),
+  ]
+  return keys
+    .map((key) => {
+      const old = beforeSections.get(key)
+      const next = afterSections.get(key)
+      const beforeTokens = old ? counter.count(old.text) : 0
+      const afterTokens = next ? counter.count(next.text) : 0
+      const deltaTokens = afterTokens - beforeTokens
+      const status: SectionDiffRow['status'] = !old
+        ? 'added'
+        : !next
+          ? 'removed'
+          : old.text === next.text
+            ? 'unchanged'
+            : 'changed'
+      const section = (next ?? old) as { label: string; source: string }
+      return {
+        label: section.label,
+        source: section.source,
+        status,
+        beforeTokens,
+        afterTokens,
+        deltaTokens,
+        deltaTokensPerDay: deltaTokens * sessionsPerDay,
+      }
+    })
+    .sort((left, right) => Math.abs(right.deltaTokens) - Math.abs(left.deltaTokens))
+}
+
+/**
+ * Resolve a `--diff` operand: an existing system-prompt file, or a (prefix of
+ * a) compiled plan hash looked up in the HRC state DB.
+ */
+async function resolvePlanArtifact(
+  ref: string,
+  hrcDb: string | undefined
+): Promise<ResolvedPlanArtifact> {
+  if (existsSync(ref) && statSync(ref).isFile()) {
+    return { ref, systemPromptFile: ref }
+  }
+  if (!hrcDb || !existsSync(hrcDb)) {
+    throw new Error(`Plan artifact not found: ${ref} (not a file, and no HRC state DB to look up)`)
+  }
+  const pattern = `${ref.replace(/[\\%_]/g, '\\$&')}%`
+  const rows = await sqliteJson<PlanRow>(
+    hrcDb,
+    `${PLAN_COLUMNS_SQL} from compiled_runtime_plans where plan_hash like ${sqlString(pattern)} escape '\\'`
+  )
+  if (rows.length === 0) {
+    throw new Error(`Plan artifact not found: ${ref} (no file or compiled plan hash matches)`)
+  }
+  if (rows.length > 1) {
+    throw new Error(`Plan hash prefix is ambiguous: ${ref} matches ${rows.length} plans`)
+  }
+  const row = rows[0] as PlanRow
+  if (!row.system_prompt_file || !existsSync(row.system_prompt_file)) {
+    throw new Error(`Plan ${row.plan_hash} has no readable artifacts.systemPromptFile`)
+  }
+  const agent = row.scope_ref ? agentFromScopeRef(row.scope_ref) : null
+  return {
+    ref,
+    systemPromptFile: row.system_prompt_file,
+    ...(agent ? { agent } : {}),
+    ...(row.harness_family ? { harnessFamily: row.harness_family } : {}),
+    ...(row.plan_hash ? { planHash: row.plan_hash } : {}),
+  }
+}
+
+async function buildTokenRentDiffReport(
+  options: TokenRentOptions,
+  beforeRef: string,
+  afterRef: string
+): Promise<TokenRentDiffReport> {
+  const nowDate = options.now ? parseDate(options.now, 'now') : new Date()
+  const usageNow = nowDate.toISOString()
+  const usageSince = options.usageSince
+    ? parseDate(options.usageSince, 'usage since').toISOString()
+    : defaultUsageSince(nowDate)
+  const tokenizer = parseTokenizer(options.tokenizer)
+  const { hrcDb } = resolveTokenRentPaths(options)
+
+  const before = await resolvePlanArtifact(beforeRef, hrcDb)
+  const after = await resolvePlanArtifact(afterRef, hrcDb)
+  const agent = options.agent ?? after.agent ?? before.agent
+  const counter = selectCounter(tokenizer, after.harnessFamily ?? before.harnessFamily)
+  const sessionsPerDay =
+    agent && hrcDb && existsSync(hrcDb)
+      ? ((await loadUsage(hrcDb, usageSince, usageNow, agent)).get(agent)?.sessionsPerDay ?? 0)
+      : 0
+
+  const rows = diffSystemPromptArtifacts(
+    readFileSync(before.systemPromptFile, 'utf8'),
+    readFileSync(after.systemPromptFile, 'utf8'),
+    counter,
+    sessionsPerDay,
+    agent
+  )
+  const beforeTokens = rows.reduce((sum, row) => sum + row.beforeTokens, 0)
+  const afterTokens = rows.reduce((sum, row) => sum + row.afterTokens, 0)
+  return {
+    generatedAt: usageNow,
+    before,
+    after,
+    agent,
+    sessionsPerDay,
+    tokenEncoding: counter.encoding,
+    beforeTokens,
+    afterTokens,
+    deltaTokens: afterTokens - beforeTokens,
+    deltaTokensPerDay: (afterTokens - beforeTokens) * sessionsPerDay,
+    rows,
+  }
+}
+
 function formatNumber(value: number, digits = 0): string {
   return value.toLocaleString('en-US', {
     maximumFractionDigits: digits,
@@ -676,14 +941,17 @@ function formatMarkdown(report: TokenRentReport): string {
     `Usage window: ${report.usageSince} to ${report.usageNow} (${formatNumber(report.usageWindowDays, 2)} days)`
   )
   lines.push(`HRC DB: ${report.hrcDb}`)
+  lines.push(`Tokenizer: ${report.tokenizer === 'auto' ? 'by harness family' : report.tokenizer}`)
   lines.push('')
   lines.push('## Agents')
   lines.push('')
-  lines.push('| Agent | Runs | Sessions/day | Resident tokens | Resident tokens/day | Artifact |')
-  lines.push('| --- | ---: | ---: | ---: | ---: | --- |')
+  lines.push(
+    '| Agent | Runs | Sessions/day | Tokenizer | Resident tokens | Resident tokens/day | Artifact |'
+  )
+  lines.push('| --- | ---: | ---: | --- | ---: | ---: | --- |')
   for (const agent of report.agents) {
     lines.push(
-      `| ${agent.agent} | ${formatNumber(agent.runs)} | ${formatNumber(agent.sessionsPerDay, 2)} | ${formatNumber(agent.residentTokens)} | ${formatNumber(agent.residentTokensPerDay, 0)} | ${agent.systemPromptFile ?? agent.missingPromptArtifact ?? ''} |`
+      `| ${agent.agent} | ${formatNumber(agent.runs)} | ${formatNumber(agent.sessionsPerDay, 2)} | ${agent.tokenEncoding} | ${formatNumber(agent.residentTokens)} | ${formatNumber(agent.residentTokensPerDay, 0)} | ${agent.systemPromptFile ?? agent.missingPromptArtifact ?? ''} |`
     )
   }
 
@@ -747,6 +1015,40 @@ function formatMarkdown(report: TokenRentReport): string {
   return `${lines.join('\n')}\n`
 }
 
+function formatSigned(value: number, digits = 0): string {
+  return value > 0 ? `+${formatNumber(value, digits)}` : formatNumber(value, digits)
+}
+
+function describeArtifact(artifact: ResolvedPlanArtifact): string {
+  return artifact.planHash
+    ? `${artifact.planHash} (${artifact.systemPromptFile})`
+    : artifact.systemPromptFile
+}
+
+function formatDiffMarkdown(report: TokenRentDiffReport): string {
+  const lines: string[] = []
+  lines.push('# Token Rent Diff')
+  lines.push('')
+  lines.push(`Before: ${describeArtifact(report.before)}`)
+  lines.push(`After: ${describeArtifact(report.after)}`)
+  lines.push(`Tokenizer: ${report.tokenEncoding}`)
+  if (report.agent) {
+    lines.push(`Agent: ${report.agent} (${formatNumber(report.sessionsPerDay, 2)} sessions/day)`)
+  }
+  lines.push(
+    `Resident tokens: ${formatNumber(report.beforeTokens)} -> ${formatNumber(report.afterTokens)} (${formatSigned(report.deltaTokens)}; ${formatSigned(report.deltaTokensPerDay)} tokens/day)`
+  )
+  lines.push('')
+  lines.push('| Section | Source | Status | Before | After | Delta | Delta tokens/day |')
+  lines.push('| --- | --- | --- | ---: | ---: | ---: | ---: |')
+  for (const row of report.rows) {
+    lines.push(
+      `| ${escapeTable(row.label)} | ${row.source} | ${row.status} | ${formatNumber(row.beforeTokens)} | ${formatNumber(row.afterTokens)} | ${formatSigned(row.deltaTokens)} | ${formatSigned(row.deltaTokensPerDay)} |`
+    )
+  }
+  return `${lines.join('\n')}\n`
+}
+
 function escapeTable(value: string): string {
   return value.replaceAll('|', '\\|')
 }
@@ -758,13 +1060,34 @@ export function registerTokenRentCommand(program: Command): void {
     .option('--agent <name>', 'Only report one agent')
     .option('--fleet', 'Report fleet rollup (default)')
     .option('--json', 'Output JSON instead of Markdown')
-    .option('--hrc-db <path>', `HRC state SQLite DB (default: ${DEFAULT_HRC_DB})`)
-    .option('--agents-root <path>', `Agent source root (default: ${DEFAULT_AGENTS_ROOT})`)
+    .option(
+      '--hrc-db <path>',
+      'HRC state SQLite DB (default: $HRC_STATE_DIR/state.sqlite, else <agents-root>/../state/hrc/state.sqlite)'
+    )
+    .option('--agents-root <path>', 'Agent source root (default: ASP_AGENTS_ROOT or ASP config)')
     .option('--usage-since <iso>', 'Usage window start (default: first day of previous UTC month)')
     .option('--since <git-ref>', 'Show var/agents markdown token delta since a git ref')
     .option('--now <iso>', 'Current time override for deterministic reports')
+    .option(
+      '--tokenizer <name>',
+      `Token counter: auto (by harness family), ${TOKEN_ENCODINGS.join(', ')}`,
+      'auto'
+    )
+    .option(
+      '--diff <artifacts...>',
+      'Per-section diff of two plan artifacts (system-prompt files or plan hashes): <before> <after>'
+    )
     .action(async (options: TokenRentOptions) => {
       try {
+        if (options.diff) {
+          const [beforeRef, afterRef, ...extra] = options.diff
+          if (!beforeRef || !afterRef || extra.length > 0) {
+            throw new CliUsageError('--diff takes exactly two artifacts: <before> <after>')
+          }
+          const diff = await buildTokenRentDiffReport(options, beforeRef, afterRef)
+          console.log(options.json ? JSON.stringify(diff, null, 2) : formatDiffMarkdown(diff))
+          return
+        }
         const report = await buildTokenRentReport(options)
         if (options.json) {
           console.log(JSON.stringify(report, null, 2))
@@ -772,7 +1095,7 @@ export function registerTokenRentCommand(program: Command): void {
         }
         console.log(
           chalk.gray(
-            'Token estimator: ceil(chars / 4); resident sections split on blank-line --- blank-line.'
+            'Token counter: offline BPE (claude or o200k by harness family unless --tokenizer); resident sections split on blank-line --- blank-line.'
           )
         )
         console.log(formatMarkdown(report))
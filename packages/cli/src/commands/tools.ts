@@ -0,0 +1,102 @@
+/**
+ * `asp tools` — agent-local tools from `<agentRoot>/tools`.
+ *
+ * WHY: executables in tools/bin are put on PATH at launch. Those with a
+ * `tools/<name>.toml` manifest are also offered to the model through the
+ * built-in agent-tools MCP server, which every MCP-capable harness composes
+ * as `asp tools serve --agent-root <agentRoot>`.
+ *
+ * Subcommands:
+ *   list   — show which tools are manifested and which are PATH-only
+ *   serve  — run the stdio MCP server for manifested tools
+ */
+
+import { readdir } from 'node:fs/promises'
+import { join } from 'node:path'
+
+import chalk from 'chalk'
+import type { Command } from 'commander'
+
+import { readAgentToolManifests } from 'spaces-config'
+import { serveAgentToolsMcp } from 'spaces-execution'
+
+import { errorMessage } from '../helpers.js'
+
+interface ToolsOptions {
+  agentRoot?: string | undefined
+  json?: boolean | undefined
+}
+
+export function registerToolsCommands(program: Command): void {
+  const tools = program
+    .command('tools')
+    .description('Inspect and serve agent-local tools from <agentRoot>/tools')
+
+  tools
+    .command('list')
+    .description('List agent tools and whether each has a manifest')
+    .option('--agent-root <path>', 'Agent root (default: ASP_AGENT_ROOT)')
+    .option('--json', 'Emit machine-readable JSON')
+    .action(async (options: ToolsOptions) => {
+      await withAgentRoot('tools list', options, async (agentRoot) => {
+        const manifests = await readAgentToolManifests(join(agentRoot, 'tools'))
+        const executables = await readdir(join(agentRoot, 'tools', 'bin')).catch(() => [])
+        const manifested = new Set(manifests.map((manifest) => manifest.name))
+        const pathOnly = executables.filter((name) => !manifested.has(name)).sort()
+
+        if (options.json) {
+          process.stdout.write(
+            `${JSON.stringify(
+              {
+                agentRoot,
+                manifested: manifests.map(({ manifestPath: _, ...manifest }) => manifest),
+                pathOnly,
+              },
+              null,
+              2
+            )}\n`
+          )
+          return
+        }
+
+        const out = [chalk.bold(`asp tools — ${agentRoot}`), '']
+        if (manifests.length === 0 && pathOnly.length === 0) {
+          out.push(chalk.gray('  (no agent tools)'))
+        }
+        for (const manifest of manifests) {
+          out.push(`  ${manifest.name}  ${chalk.green('mcp')}  ${manifest.description}`)
+        }
+        for (const name of pathOnly) {
+          out.push(`  ${name}  ${chalk.gray('path only')}`)
+        }
+        process.stdout.write(`${out.join('\n')}\n`)
+      })
+    })
+
+  tools
+    .command('serve')
+    .description('Serve manifested agent tools as a stdio MCP server')
+    .option('--agent-root <path>', 'Agent root (default: ASP_AGENT_ROOT)')
+    .action(async (options: ToolsOptions) => {
+      await withAgentRoot('tools serve', options, (agentRoot) =>
+        serveAgentToolsMcp({ agentRoot, input: process.stdin, output: process.stdout })
+      )
+    })
+}
+
+async function withAgentRoot(
+  commandName: string,
+  options: ToolsOptions,
+  run: (agentRoot: string) => Promise<void>
+): Promise<void> {
+  try {
+    const agentRoot = options.agentRoot ?? process.env['ASP_AGENT_ROOT']
+    if (!agentRoot) {
+      throw new Error('--agent-root is required when ASP_AGENT_ROOT is not set')
+    }
+    await run(agentRoot)
+  } catch (error) {
+    process.stderr.write(`${commandName}: ${errorMessage(error)}\n`)
+    process.exit(1)
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Token counters for `asp token-rent`.
+ *
+ * WHY: rent is priced per token, and `chars / 4` drifts badly on code, tables
+ * and non-English text. Both BPE tables ship inside their npm packages, so
+ * counting works offline. The Anthropic table is the published Claude
+ * tokenizer; current Claude models tokenize close to it but not identically.
+ */
+
+import { getTokenizer } from '@anthropic-ai/tokenizer'
+import { type Tiktoken, getEncoding } from 'js-tiktoken'
+
+export type TokenEncoding = 'claude' | 'o200k' | 'chars'
+
+export const TOKEN_ENCODINGS: readonly TokenEncoding[] = ['claude', 'o200k', 'chars']
+
+export interface TokenCounter {
+  readonly encoding: TokenEncoding
+  count(text: string): number
+}
+
+type AnthropicTokenizer = ReturnType<typeof getTokenizer>
+
+let anthropicTokenizer: AnthropicTokenizer | undefined
+let o200kTokenizer: Tiktoken | undefined
+
+const counters: Record<TokenEncoding, TokenCounter> = {
+  claude: {
+    encoding: 'claude',
+    count(text) {
+      if (text.length === 0) return 0
+      anthropicTokenizer ??= getTokenizer()
+      return anthropicTokenizer.encode(text.normalize('NFKC'), 'all').length
+    },
+  },
+  o200k: {
+    encoding: 'o200k',
+    count(text) {
+      if (text.length === 0) return 0
+      o200kTokenizer ??= getEncoding('o200k_base')
+      return o200kTokenizer.encode(text, 'all').length
+    },
+  },
+  chars: {
+    encoding: 'chars',
+    count(text) {
+      return text.length === 0 ? 0 : Math.ceil(text.length / 4)
+    },
+  },
+}
+
+export function isTokenEncoding(value: string): value is TokenEncoding {
+  return (TOKEN_ENCODINGS as readonly string[]).includes(value)
+}
+
+export function getTokenCounter(encoding: TokenEncoding): TokenCounter {
+  return counters[encoding]
+}
+
+/**
+ * Pick the encoding for a harness family: Codex runs OpenAI models (o200k);
+ * Claude Code and Pi default to Anthropic models. Unknown families fall back
+ * to the Anthropic table.
+ */
+export function tokenCounterForHarnessFamily(family: string | undefined): TokenCounter {
+  return family === 'codex' ? counters.o200k : counters.claude
+}
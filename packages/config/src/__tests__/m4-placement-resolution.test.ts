@@ -11,11 +11,12 @@
  */
 
 import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
-import { mkdirSync, rmSync, writeFileSync } from 'node:fs'
+import { existsSync, mkdirSync, realpathSync, rmSync, writeFileSync } from 'node:fs'
 import { mkdtempSync } from 'node:fs'
 import { tmpdir } from 'node:os'
 import { join } from 'node:path'
 
+import type { RuntimePlacement } from '../core/types/placement.js'
 import { createTempFixtureRoots } from '../test-support/v2-fixtures.js'
 
 // ===================================================================
@@ -554,3 +555,122 @@ model = "gpt-5.3-codex"
     }
   })
 })
+
+describe('resolvePlacementContext task worktrees', () => {
+  let tempDir: string
+  let originalAspHome: string | undefined
+
+  beforeEach(async () => {
+    tempDir = realpathSync(mkdtempSync(join(tmpdir(), 'placement-worktree-')))
+    originalAspHome = process.env['ASP_HOME']
+    process.env['ASP_HOME'] = join(tempDir, 'asp-home')
+
+    const { add, commit, gitExec, initRepo } = await import('../git/index.js')
+    const projectRoot = join(tempDir, 'demo')
+    mkdirSync(join(tempDir, 'agent-root'), { recursive: true })
+    mkdirSync(projectRoot, { recursive: true })
+    writeFileSync(join(tempDir, 'agent-root', 'SOUL.md'), '# Test Agent\n')
+    writeFileSync(
+      join(projectRoot, 'asp-targets.toml'),
+      'schema = 1\n\n[targets.alice]\ncompose = []\n\n[targets.alice.provisioning]\nworktree = true\n'
+    )
+    await initRepo(projectRoot, { initialBranch: 'main' })
+    await gitExec(['config', 'user.email', 'placement@example.test'], { cwd: projectRoot })
+    await gitExec(['config', 'user.name', 'Placement Test'], { cwd: projectRoot })
+    await add(['asp-targets.toml'], { cwd: projectRoot })
+    await commit('fixture', { cwd: projectRoot })
+  })
+
+  afterEach(() => {
+    if (originalAspHome === undefined) {
+      Reflect.deleteProperty(process.env, 'ASP_HOME')
+    } else {
+      process.env['ASP_HOME'] = originalAspHome
+    }
+    rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  function taskPlacement(taskId: string, extra: Partial<RuntimePlacement> = {}): RuntimePlacement {
+    const projectRoot = join(tempDir, 'demo')
+    return {
+      agentRoot: join(tempDir, 'agent-root'),
+      projectRoot,
+      runMode: 'task',
+      bundle: { kind: 'agent-project', agentName: 'alice', projectRoot },
+      correlation: {
+        sessionRef: { scopeRef: `agent:alice:project:demo:task:${taskId}`, laneRef: 'main' },
+      },
+      ...extra,
+    }
+  }
+
+  test('provisions the task worktree from [provisioning] worktree and reuses it', async () => {
+    const { resolvePlacementContext } = await import('../resolver/placement-resolver.js')
+
+    const first = await resolvePlacementContext(taskPlacement('T-1'))
+    const worktree = first.diagnostics?.worktree
+    expect(worktree).toMatchObject({ taskId: 'T-1', branch: 'asp/task/T-1', created: true })
+    expect(first.resolvedBundle.cwd).toBe(worktree?.cwd as string)
+    expect(existsSync(join(worktree?.path as string, '.git'))).toBe(true)
+
+    const again = await resolvePlacementContext(taskPlacement('T-1'))
+    expect(again.diagnostics?.worktree).toEqual({ ...worktree, created: false })
+  })
+
+  test('read-only placements report the worktree without creating it', async () => {
+    const { resolvePlacementContext } = await import('../resolver/placement-resolver.js')
+
+    const context = await resolvePlacementContext(taskPlacement('T-2', { readOnly: true }))
+    const worktree = context.diagnostics?.worktree
+    expect(worktree).toMatchObject({ taskId: 'T-2', created: true })
+    expect(context.resolvedBundle.cwd).toBe(worktree?.cwd as string)
+    expect(existsSync(worktree?.path as string)).toBe(false)
+    expect(existsSync(`${worktree?.path}.json`)).toBe(false)
+  })
+
+  test('a -worktree directive, the primary task and an explicit cwd keep the project root', async () => {
+    const { resolvePlacementContext } = await import('../resolver/placement-resolver.js')
+    const projectRoot = join(tempDir, 'demo')
+
+    for (const placement of [
+      taskPlacement('T-3', { worktree: false }),
+      taskPlacement('primary'),
+      taskPlacement('T-3', { cwd: join(tempDir, 'elsewhere') }),
+    ]) {
+      const context = await resolvePlacementContext(placement)
+      expect(context.diagnostics).toBeUndefined()
+      expect(context.resolvedBundle.cwd).toBe(placement.cwd ?? projectRoot)
+    }
+  })
+
+  test('provisions task worktrees under the placement aspHome, not the environment default', async () => {
+    const { resolvePlacementContext } = await import('../resolver/placement-resolver.js')
+    const { PathResolver } = await import('../store/paths.js')
+    const { listTaskWorktrees } = await import('../store/task-worktrees.js')
+    Reflect.deleteProperty(process.env, 'ASP_HOME')
+    const aspHome = join(tempDir, 'explicit-home')
+
+    const context = await resolvePlacementContext(taskPlacement('T-5', { aspHome }))
+    const worktree = context.diagnostics?.worktree
+    expect(worktree?.path.startsWith(join(aspHome, 'worktrees'))).toBe(true)
+    expect(existsSync(worktree?.path as string)).toBe(true)
+    expect(
+      (await listTaskWorktrees(new PathResolver({ aspHome }))).map((record) => record.taskId)
+    ).toEqual(['T-5'])
+  })
+
+  test('concurrent launches of one task share a single worktree', async () => {
+    const { resolvePlacementContext } = await import('../resolver/placement-resolver.js')
+
+    const launches = await Promise.all([
+      resolvePlacementContext(taskPlacement('T-4')),
+      resolvePlacementContext(taskPlacement('T-4')),
+    ])
+    const worktrees = launches.map((context) => context.diagnostics?.worktree)
+    expect(worktrees.map((worktree) => worktree?.path)).toEqual([
+      worktrees[0]?.path,
+      worktrees[0]?.path,
+    ])
+    expect(worktrees.filter((worktree) => worktree?.created)).toHaveLength(1)
+  })
+})
@@ -510,12 +510,51 @@ freshSession = false`
     }
   })
 
-  test('rejects unsupported timezone fields in v1 schedules', async () => {
-    const result = await compileFixture('../../invalid', ['schedule-timezone.toml'])
+  test('records a declared IANA timezone next to the cron expression', async () => {
+    const result = await compileFixture('../../variants', ['schedule-timezone.toml'])
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+
+    expect(result.plan.resources[0]).toEqual(
+      expect.objectContaining({
+        resourceKind: 'scheduled-job',
+        desiredJson: expect.objectContaining({
+          schedule: {
+            cron: '0 8 * * 1-5',
+            timezone: 'America/Chicago',
+          },
+        }),
+      })
+    )
+  })
+
+  test('omits timezone from schedules that do not declare one', async () => {
+    const result = await compileFixture('agents/smokey', ['schedules/daily-triage.toml'])
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+
+    const desiredJson = (result.plan.resources[0] as { desiredJson: { schedule: object } })
+      .desiredJson
+    expect(desiredJson.schedule).not.toHaveProperty('timezone')
+  })
+
+  test('rejects unknown IANA timezones', async () => {
+    const result = await compileFixture('../../invalid', ['schedule-timezone-unknown.toml'])
+    expect(result).toEqual({
+      ok: false,
+      code: 'INVALID_TIMEZONE',
+      message: expect.stringContaining('Mars/Olympus_Mons'),
+    })
+  })
+
+  test('rejects malformed cron expressions', async () => {
+    const result = await compileInlineResource({
+      schedule: inlineSchedule.replace('cron = "0 * * * *"', 'cron = "0 25 * * *"'),
+    })
     expect(result).toEqual({
       ok: false,
-      code: 'UNSUPPORTED_TIMEZONE',
-      message: expect.stringContaining('timezone'),
+      code: 'INVALID_CRON',
+      message: expect.stringContaining('hour value 25 is outside 0-23'),
     })
   })
 
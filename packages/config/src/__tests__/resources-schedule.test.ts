@@ -0,0 +1,121 @@
+import { describe, expect, test } from 'bun:test'
+
+import {
+  DEFAULT_SCHEDULE_TIMEZONE,
+  type NextFireTimesOptions,
+  type ScheduleDefinition,
+  type ScheduleFireTime,
+  canonicalizeTimezone,
+  nextScheduleFireTimes,
+  validateCronExpression,
+} from '../resources/index.js'
+
+function fireTimes(schedule: ScheduleDefinition, from: string, count: number): ScheduleFireTime[] {
+  const options: NextFireTimesOptions = { from: new Date(from), count }
+  return nextScheduleFireTimes(schedule, options)
+}
+
+describe('scheduled-job fire times', () => {
+  test('evaluates cron in UTC when no timezone is declared', () => {
+    expect(DEFAULT_SCHEDULE_TIMEZONE).toBe('UTC')
+    // 2026-03-06 is a Friday; the next weekday fires are Mon-Wed.
+    expect(fireTimes({ cron: '0 8 * * 1-5' }, '2026-03-06T12:00:00Z', 3)).toEqual([
+      { instant: '2026-03-09T08:00:00.000Z', local: '2026-03-09T08:00:00+00:00' },
+      { instant: '2026-03-10T08:00:00.000Z', local: '2026-03-10T08:00:00+00:00' },
+      { instant: '2026-03-11T08:00:00.000Z', local: '2026-03-11T08:00:00+00:00' },
+    ])
+  })
+
+  test('keeps wall-clock time across a DST change in the declared zone', () => {
+    const schedule = { cron: '0 8 * * 1-5', timezone: 'America/Chicago' }
+    expect(fireTimes(schedule, '2026-03-06T00:00:00Z', 2)).toEqual([
+      { instant: '2026-03-06T14:00:00.000Z', local: '2026-03-06T08:00:00-06:00' },
+      { instant: '2026-03-09T13:00:00.000Z', local: '2026-03-09T08:00:00-05:00' },
+    ])
+  })
+
+  test('fires a time skipped by spring-forward at the end of the gap', () => {
+    // America/Chicago jumps from 02:00 CST to 03:00 CDT on 2026-03-08.
+    const schedule = { cron: '30 2 * * *', timezone: 'America/Chicago' }
+    expect(fireTimes(schedule, '2026-03-07T12:00:00Z', 2)).toEqual([
+      { instant: '2026-03-08T08:00:00.000Z', local: '2026-03-08T03:00:00-05:00', dst: 'gap' },
+      { instant: '2026-03-09T07:30:00.000Z', local: '2026-03-09T02:30:00-05:00' },
+    ])
+  })
+
+  test('collapses every time inside a gap into one fire at the transition', () => {
+    const schedule = { cron: '0,30 2,3 * * *', timezone: 'America/Chicago' }
+    expect(fireTimes(schedule, '2026-03-08T06:00:00Z', 2)).toEqual([
+      { instant: '2026-03-08T08:00:00.000Z', local: '2026-03-08T03:00:00-05:00', dst: 'gap' },
+      { instant: '2026-03-08T08:30:00.000Z', local: '2026-03-08T03:30:00-05:00' },
+    ])
+  })
+
+  test('handles gaps in zones east of UTC', () => {
+    // Europe/London jumps from 01:00 GMT to 02:00 BST on 2026-03-29.
+    const schedule = { cron: '30 1 * * *', timezone: 'Europe/London' }
+    expect(fireTimes(schedule, '2026-03-28T12:00:00Z', 1)).toEqual([
+      { instant: '2026-03-29T01:00:00.000Z', local: '2026-03-29T02:00:00+01:00', dst: 'gap' },
+    ])
+  })
+
+  test('fires a time repeated by fall-back once, at its first occurrence', () => {
+    // America/Chicago repeats 01:00-01:59 on 2026-11-01 (CDT, then CST).
+    const schedule = { cron: '30 1 * * *', timezone: 'America/Chicago' }
+    expect(fireTimes(schedule, '2026-10-31T12:00:00Z', 2)).toEqual([
+      { instant: '2026-11-01T06:30:00.000Z', local: '2026-11-01T01:30:00-05:00', dst: 'overlap' },
+      { instant: '2026-11-02T07:30:00.000Z', local: '2026-11-02T01:30:00-06:00' },
+    ])
+  })
+
+  test('does not repeat hourly fires during the repeated hour', () => {
+    const schedule = { cron: '0 * * * *', timezone: 'America/Chicago' }
+    expect(fireTimes(schedule, '2026-11-01T05:30:00Z', 3).map(({ local }) => local)).toEqual([
+      '2026-11-01T01:00:00-05:00',
+      '2026-11-01T02:00:00-06:00',
+      '2026-11-01T03:00:00-06:00',
+    ])
+  })
+
+  test('matches day-of-month or day-of-week when both are restricted', () => {
+    expect(
+      fireTimes({ cron: '0 0 13 * FRI' }, '2026-01-01T00:00:00Z', 3).map(({ instant }) => instant)
+    ).toEqual(['2026-01-02T00:00:00.000Z', '2026-01-09T00:00:00.000Z', '2026-01-13T00:00:00.000Z'])
+  })
+
+  test('finds leap-day schedules and returns nothing for impossible dates', () => {
+    expect(
+      fireTimes({ cron: '0 0 29 FEB *' }, '2026-01-01T00:00:00Z', 2).map(({ instant }) => instant)
+    ).toEqual(['2028-02-29T00:00:00.000Z', '2032-02-29T00:00:00.000Z'])
+    expect(fireTimes({ cron: '0 0 30 2 *' }, '2026-01-01T00:00:00Z', 2)).toEqual([])
+  })
+
+  test('is deterministic for the same schedule and start instant', () => {
+    const schedule = { cron: '*/20 9-17 * * MON-FRI', timezone: 'Asia/Kolkata' }
+    expect(fireTimes(schedule, '2026-06-01T00:00:00Z', 5)).toEqual(
+      fireTimes(schedule, '2026-06-01T00:00:00Z', 5)
+    )
+  })
+})
+
+describe('schedule validation', () => {
+  test('canonicalizes IANA timezone names and rejects unknown ones', () => {
+    expect(canonicalizeTimezone('america/chicago')).toBe('America/Chicago')
+    expect(() => canonicalizeTimezone('Mars/Olympus_Mons')).toThrow(
+      'unknown IANA timezone "Mars/Olympus_Mons"'
+    )
+  })
+
+  test('accepts lists, ranges, steps and names', () => {
+    expect(() => validateCronExpression('5/15 0-6,22,23 1-7 JAN-MAR,dec sun-sat')).not.toThrow()
+    expect(() => validateCronExpression('0 8 * * 7')).not.toThrow()
+  })
+
+  test('rejects malformed cron expressions', () => {
+    expect(() => validateCronExpression('0 8 * *')).toThrow('must have 5 fields')
+    expect(() => validateCronExpression('60 * * * *')).toThrow('minute value 60 is outside 0-59')
+    expect(() => validateCronExpression('0 8 * * FRI-MON')).toThrow('range FRI-MON is reversed')
+    expect(() => validateCronExpression('*/0 * * * *')).toThrow('step must be at least 1')
+    expect(() => validateCronExpression('0 8 * SMARCH *')).toThrow('invalid month value "SMARCH"')
+  })
+})
@@ -207,6 +207,7 @@ function parseProvisioningSettings(
       'sandbox',
       'approval',
       'remote',
+      'worktree',
       'claude',
       'codex',
       'default_scope_role',
@@ -217,7 +218,7 @@ function parseProvisioningSettings(
 
   const settings: ProvisioningSettings = {}
   for (const [key, raw] of Object.entries(value)) {
-    if (key === 'yolo' || key === 'remote') {
+    if (key === 'yolo' || key === 'remote' || key === 'worktree') {
       if (typeof raw !== 'boolean') {
         fail(source, `${path}/${key}`, 'must be a boolean', 'type')
       }
@@ -41,6 +41,7 @@ yolo = true
 sandbox = "workspace-write"
 approval = "never"
 remote = true
+worktree = true
 
 [provisioning.claude]
 permission_mode = "default"
@@ -60,6 +61,7 @@ profile = "operator"
       sandbox: 'workspace-write',
       approval: 'never',
       remote: true,
+      worktree: true,
       claude: { permission_mode: 'default', args: ['--verbose'] },
       codex: {
         model_reasoning_summary: 'concise',
@@ -0,0 +1,129 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { afterEach, describe, expect, test } from 'bun:test'
+
+import { ConfigParseError, ConfigValidationError } from '../errors.js'
+import {
+  AGENT_TOOLS_MCP_SERVER_NAME,
+  DEFAULT_AGENT_TOOL_TIMEOUT_SECONDS,
+  parseAgentToolToml,
+  readAgentToolManifests,
+  validateAgentToolInput,
+} from './agent-tool-toml.js'
+
+const tempDirs: string[] = []
+
+afterEach(async () => {
+  await Promise.all(tempDirs.splice(0).map((dir) => rm(dir, { recursive: true, force: true })))
+})
+
+const LOOKUP_TOML = `
+description = "Look up a ticket by id"
+timeout_seconds = 30
+cwd = "state"
+
+[input_schema]
+type = "object"
+required = ["id"]
+additionalProperties = false
+properties.id = { type = "string", pattern = "^T-[0-9]+$" }
+properties.verbose = { type = "boolean" }
+`
+
+describe('parseAgentToolToml', () => {
+  test('parses a full manifest', () => {
+    const manifest = parseAgentToolToml(LOOKUP_TOML, 'lookup', '/agent/tools/lookup.toml')
+
+    expect(manifest).toEqual({
+      name: 'lookup',
+      description: 'Look up a ticket by id',
+      inputSchema: {
+        type: 'object',
+        required: ['id'],
+        additionalProperties: false,
+        properties: {
+          id: { type: 'string', pattern: '^T-[0-9]+$' },
+          verbose: { type: 'boolean' },
+        },
+      },
+      timeoutSeconds: 30,
+      cwd: 'state',
+      manifestPath: '/agent/tools/lookup.toml',
+    })
+  })
+
+  test('defaults the schema, timeout, and cwd', () => {
+    const manifest = parseAgentToolToml('description = "Say hello"\n', 'hello')
+
+    expect(manifest.inputSchema).toEqual({ type: 'object', properties: {} })
+    expect(manifest.timeoutSeconds).toBe(DEFAULT_AGENT_TOOL_TIMEOUT_SECONDS)
+    expect(manifest.cwd).toBe('project')
+    expect(manifest.manifestPath).toBe('hello.toml')
+  })
+
+  test('rejects malformed manifests', () => {
+    expect(() => parseAgentToolToml('description = ', 'broken')).toThrow(ConfigParseError)
+    expect(() => parseAgentToolToml('timeout_seconds = 5\n', 'x')).toThrow(
+      '/description: must be a non-empty string'
+    )
+    expect(() => parseAgentToolToml('description = "x"\nshell = true\n', 'x')).toThrow(
+      '/shell: unknown property "shell"'
+    )
+    expect(() => parseAgentToolToml('description = "x"\ntimeout_seconds = 0\n', 'x')).toThrow(
+      '/timeout_seconds: must be an integer between 1 and 3600'
+    )
+    expect(() => parseAgentToolToml('description = "x"\ncwd = "home"\n', 'x')).toThrow(
+      '/cwd: must be one of project, agent, state'
+    )
+    expect(() =>
+      parseAgentToolToml('description = "x"\n[input_schema]\ntype = "string"\n', 'x')
+    ).toThrow('/input_schema/type: must be "object"')
+    expect(() =>
+      parseAgentToolToml(
+        'description = "x"\n[input_schema]\ntype = "object"\nrequired = "id"\n',
+        'x'
+      )
+    ).toThrow(ConfigValidationError)
+  })
+})
+
+describe('validateAgentToolInput', () => {
+  test('reports schema violations against the manifest input schema', () => {
+    const manifest = parseAgentToolToml(LOOKUP_TOML, 'lookup')
+
+    expect(validateAgentToolInput(manifest, { id: 'T-42' })).toEqual([])
+    expect(validateAgentToolInput(manifest, {})).toEqual(["/ must have required property 'id'"])
+    expect(validateAgentToolInput(manifest, { id: 'nope', extra: 1 })).toEqual([
+      '/ must NOT have additional properties',
+      '/id must match pattern "^T-[0-9]+$"',
+    ])
+  })
+})
+
+describe('readAgentToolManifests', () => {
+  test('reads tools/<name>.toml files sorted by name', async () => {
+    const toolsDir = await mkdtemp(join(tmpdir(), 'agent-tool-manifests-'))
+    tempDirs.push(toolsDir)
+    await mkdir(join(toolsDir, 'bin'))
+    await writeFile(join(toolsDir, 'zeta.toml'), 'description = "Last"\n')
+    await writeFile(join(toolsDir, 'alpha.toml'), 'description = "First"\n')
+    await writeFile(join(toolsDir, 'README.md'), '# tools\n')
+
+    const manifests = await readAgentToolManifests(toolsDir)
+
+    expect(manifests.map((manifest) => [manifest.name, manifest.manifestPath])).toEqual([
+      ['alpha', join(toolsDir, 'alpha.toml')],
+      ['zeta', join(toolsDir, 'zeta.toml')],
+    ])
+  })
+
+  test('returns no manifests for a missing tools directory', async () => {
+    expect(await readAgentToolManifests(join(tmpdir(), 'no-such-agent-tools-dir'))).toEqual([])
+  })
+
+  test('names the composed MCP server agent-tools', () => {
+    expect(AGENT_TOOLS_MCP_SERVER_NAME).toBe('agent-tools')
+  })
+})
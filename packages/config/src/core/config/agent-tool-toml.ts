@@ -0,0 +1,169 @@
+import { readFile, readdir } from 'node:fs/promises'
+import { join } from 'node:path'
+
+import TOML from '@iarna/toml'
+import Ajv, { type ValidateFunction } from 'ajv'
+import addFormats from 'ajv-formats'
+
+import { ConfigParseError, ConfigValidationError } from '../errors.js'
+import type { AgentToolCwdPolicy, AgentToolManifest } from '../types/agent-local.js'
+
+/** Server name the agent-tools MCP server is composed under. */
+export const AGENT_TOOLS_MCP_SERVER_NAME = 'agent-tools'
+
+export const DEFAULT_AGENT_TOOL_TIMEOUT_SECONDS = 60
+
+const AGENT_TOOL_MANIFEST_EXTENSION = '.toml'
+const MAX_AGENT_TOOL_TIMEOUT_SECONDS = 3600
+const CWD_POLICIES = new Set<AgentToolCwdPolicy>(['project', 'agent', 'state'])
+const MANIFEST_KEYS = new Set(['description', 'input_schema', 'timeout_seconds', 'cwd'])
+
+// Tool authors write ordinary JSON Schema, so unknown annotation keywords
+// (`examples`, vendor extensions) are tolerated rather than rejected.
+const ajv = new Ajv({ allErrors: true, strict: false })
+addFormats(ajv)
+
+const compiledInputSchemas = new WeakMap<AgentToolManifest, ValidateFunction>()
+
+function fail(source: string, path: string, message: string, keyword = 'validation'): never {
+  throw new ConfigValidationError('Invalid agent tool manifest', source, [
+    { path, message, keyword, params: {} },
+  ])
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Parse `tools/<name>.toml`.
+ *
+ * ```toml
+ * description = "Look up a ticket by id"
+ * timeout_seconds = 30   # default 60
+ * cwd = "project"        # "project" | "agent" | "state"
+ *
+ * [input_schema]
+ * type = "object"
+ * required = ["id"]
+ * properties.id = { type = "string" }
+ * ```
+ */
+export function parseAgentToolToml(
+  content: string,
+  name: string,
+  filePath?: string
+): AgentToolManifest {
+  const source = filePath ?? `${name}${AGENT_TOOL_MANIFEST_EXTENSION}`
+
+  let parsed: unknown
+  try {
+    parsed = TOML.parse(content)
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    throw new ConfigParseError(`Failed to parse TOML: ${message}`, source)
+  }
+
+  if (!isPlainObject(parsed)) {
+    fail(source, '/', 'must be a table', 'type')
+  }
+  for (const key of Object.keys(parsed)) {
+    if (!MANIFEST_KEYS.has(key)) {
+      fail(source, `/${key}`, `unknown property "${key}"`, 'additionalProperties')
+    }
+  }
+
+  const description = parsed['description']
+  if (typeof description !== 'string' || description.trim() === '') {
+    fail(source, '/description', 'must be a non-empty string', 'required')
+  }
+
+  const timeoutSeconds = parsed['timeout_seconds'] ?? DEFAULT_AGENT_TOOL_TIMEOUT_SECONDS
+  if (
+    typeof timeoutSeconds !== 'number' ||
+    !Number.isInteger(timeoutSeconds) ||
+    timeoutSeconds < 1 ||
+    timeoutSeconds > MAX_AGENT_TOOL_TIMEOUT_SECONDS
+  ) {
+    fail(
+      source,
+      '/timeout_seconds',
+      `must be an integer between 1 and ${MAX_AGENT_TOOL_TIMEOUT_SECONDS}`,
+      'type'
+    )
+  }
+
+  const cwd = parsed['cwd'] ?? 'project'
+  if (typeof cwd !== 'string' || !CWD_POLICIES.has(cwd as AgentToolCwdPolicy)) {
+    fail(source, '/cwd', `must be one of ${[...CWD_POLICIES].join(', ')}`, 'enum')
+  }
+
+  const inputSchema = parsed['input_schema'] ?? { type: 'object', properties: {} }
+  if (!isPlainObject(inputSchema)) {
+    fail(source, '/input_schema', 'must be a table', 'type')
+  }
+  if (inputSchema['type'] !== 'object') {
+    fail(source, '/input_schema/type', 'must be "object"', 'const')
+  }
+
+  const manifest: AgentToolManifest = {
+    name,
+    description,
+    // Round-trip through JSON to drop @iarna/toml's prototype-less tables.
+    inputSchema: JSON.parse(JSON.stringify(inputSchema)) as Record<string, unknown>,
+    timeoutSeconds,
+    cwd: cwd as AgentToolCwdPolicy,
+    manifestPath: source,
+  }
+
+  try {
+    compiledInputSchemas.set(manifest, ajv.compile(manifest.inputSchema))
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    fail(source, '/input_schema', `is not a valid JSON Schema: ${message}`, 'schema')
+  }
+
+  return manifest
+}
+
+/**
+ * Read every `<toolsDir>/<name>.toml` manifest, sorted by tool name.
+ * A missing tools directory has no manifests.
+ */
+export async function readAgentToolManifests(toolsDir: string): Promise<AgentToolManifest[]> {
+  let entries: string[]
+  try {
+    entries = await readdir(toolsDir)
+  } catch {
+    return []
+  }
+
+  const manifests: AgentToolManifest[] = []
+  for (const entry of entries.sort()) {
+    if (!entry.endsWith(AGENT_TOOL_MANIFEST_EXTENSION)) {
+      continue
+    }
+    const manifestPath = join(toolsDir, entry)
+    const name = entry.slice(0, -AGENT_TOOL_MANIFEST_EXTENSION.length)
+    manifests.push(parseAgentToolToml(await readFile(manifestPath, 'utf-8'), name, manifestPath))
+  }
+  return manifests
+}
+
+/**
+ * Validate tool-call arguments against a manifest's input schema.
+ * Returns one message per violation; an empty list means the arguments are valid.
+ */
+export function validateAgentToolInput(manifest: AgentToolManifest, args: unknown): string[] {
+  let validate = compiledInputSchemas.get(manifest)
+  if (validate === undefined) {
+    validate = ajv.compile(manifest.inputSchema)
+    compiledInputSchemas.set(manifest, validate)
+  }
+  if (validate(args)) {
+    return []
+  }
+  return (validate.errors ?? []).map(
+    (error) => `${error.instancePath || '/'} ${error.message ?? 'is invalid'}`
+  )
+}
@@ -26,3 +26,12 @@ export {
 
 // Agent runtime profile parser
 export { parseAgentProfile } from './agent-profile-toml.js'
+
+// Agent tool manifest parser
+export {
+  AGENT_TOOLS_MCP_SERVER_NAME,
+  DEFAULT_AGENT_TOOL_TIMEOUT_SECONDS,
+  parseAgentToolToml,
+  readAgentToolManifests,
+  validateAgentToolInput,
+} from './agent-tool-toml.js'
@@ -35,12 +35,16 @@ export type { EffectiveTargetConfig } from './merge/agent-project-merge.js'
 
 // Config parsers
 export {
+  AGENT_TOOLS_MCP_SERVER_NAME,
+  DEFAULT_AGENT_TOOL_TIMEOUT_SECONDS,
   LOCK_FILENAME,
   lockFileExists,
   parseAgentProfile,
+  parseAgentToolToml,
   parseLockJson,
   parseSpaceToml,
   parseTargetsToml,
+  readAgentToolManifests,
   readLockJson,
   readSpaceToml,
   readTargetsToml,
@@ -48,6 +52,7 @@ export {
   serializeSpaceToml,
   serializeTargetsToml,
   TARGETS_FILENAME,
+  validateAgentToolInput,
   validateTarget,
 } from './config/index.js'
 export type { ValidateTargetResult } from './config/index.js'
@@ -305,6 +305,16 @@ describe('mergeAgentWithProjectTarget: remoteControl', () => {
   })
 })
 
+describe('mergeAgentWithProjectTarget: worktree', () => {
+  test('project worktree overrides agent default, which defaults to false', () => {
+    const profile = makeProfile({ provisioning: { worktree: true } })
+    expect(mergeAgentWithProjectTarget(profile, makeTarget({}), 'query').worktree).toBe(true)
+    const target = makeTarget({ provisioning: { worktree: false } })
+    expect(mergeAgentWithProjectTarget(profile, target, 'query').worktree).toBe(false)
+    expect(mergeAgentWithProjectTarget(makeProfile({}), undefined, 'query').worktree).toBe(false)
+  })
+})
+
 // ─────────────────────────────────────────────────────────────────────────────
 // 7. Target-level harness precedence (T-00996)
 //
@@ -13,6 +13,8 @@ export interface EffectiveTargetConfig {
   compose: SpaceRefString[]
   yolo: boolean
   remoteControl: boolean
+  /** Launch task scopes in a per-task git worktree instead of the project root */
+  worktree: boolean
   harness: string
   model?: string | undefined
   reasoning?: string | undefined
@@ -129,6 +131,7 @@ export function mergeAgentWithProjectTarget(
     compose: resolveEffectiveCompose(profile, projectTarget, runMode),
     yolo: targetProvisioning?.yolo ?? agentProvisioning?.yolo ?? false,
     remoteControl: targetProvisioning?.remote ?? agentProvisioning?.remote ?? false,
+    worktree: targetProvisioning?.worktree ?? agentProvisioning?.worktree ?? false,
     harness: targetProvisioning?.harness ?? agentProvisioning?.harness ?? 'claude-code',
     model: targetProvisioning?.model ?? agentProvisioning?.model,
     reasoning,
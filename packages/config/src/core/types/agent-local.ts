@@ -3,7 +3,8 @@
  *
  * WHY: Agent-specific skills/, commands/, and tools/bin directories are
  * auto-discovered in the agent root. Skills and commands are materialized as a
- * synthetic plugin; tools are exposed directly at runtime.
+ * synthetic plugin; tools are exposed directly at runtime on PATH, and tools
+ * with a `tools/<name>.toml` manifest are also served over MCP.
  */
 
 /**
@@ -33,3 +34,28 @@ export interface AgentLocalComponents {
   /** Absolute path to <agentRoot>/var */
   agentVarDir: string
 }
+
+/** Working directory a manifested agent tool is launched in. */
+export type AgentToolCwdPolicy = 'project' | 'agent' | 'state'
+
+/**
+ * A typed agent tool declared by `<agentRoot>/tools/<name>.toml`.
+ *
+ * The manifest describes the executable at `tools/bin/<name>` so it can be
+ * offered to the model through the built-in agent-tools MCP server. Tools
+ * without a manifest are only exposed on PATH.
+ */
+export interface AgentToolManifest {
+  /** Tool name; matches both the manifest basename and `tools/bin/<name>` */
+  name: string
+  /** Description shown to the model */
+  description: string
+  /** JSON Schema for the tool's arguments; always `type = "object"` */
+  inputSchema: Record<string, unknown>
+  /** Seconds the tool may run before it is terminated */
+  timeoutSeconds: number
+  /** Working directory policy: project root, agent root, or agent state dir */
+  cwd: AgentToolCwdPolicy
+  /** Absolute path to the manifest file */
+  manifestPath: string
+}
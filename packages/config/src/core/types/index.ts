@@ -96,6 +96,8 @@ export { ROSTER_SLOT_TOKENS } from './agent-profile.js'
 // Placement types
 export type {
   HostCorrelation,
+  PlacementDiagnostics,
+  PlacementWorktree,
   ResolvedAgentPolicy,
   ResolvedPlacementContext,
   ResolvedPlacementMaterialization,
@@ -185,4 +187,8 @@ export {
 } from './harness.js'
 
 // Agent-local components types (agent-local skills/commands auto-discovery)
-export type { AgentLocalComponents } from './agent-local.js'
+export type {
+  AgentLocalComponents,
+  AgentToolCwdPolicy,
+  AgentToolManifest,
+} from './agent-local.js'
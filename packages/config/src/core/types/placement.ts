@@ -43,6 +43,15 @@ export interface RuntimePlacement {
   correlation?: HostCorrelation | undefined
   /** When true, skip strict validation (e.g. missing SOUL.md) for invocation building */
   dryRun?: boolean | undefined
+  /** `+worktree` / `-worktree` scope directive; wins over `[provisioning] worktree` */
+  worktree?: boolean | undefined
+  /**
+   * When true, resolution has no side effects: a task worktree is reported
+   * with the cwd it would give the launch, but not created.
+   */
+  readOnly?: boolean | undefined
+  /** ASP home task worktrees and their records live under; defaults to the environment's */
+  aspHome?: string | undefined
 }
 
 // ============================================================================
@@ -123,4 +132,22 @@ export interface ResolvedPlacementContext {
   resolvedBundle: ResolvedRuntimeBundle
   materialization: ResolvedPlacementMaterialization
   agentPolicy?: ResolvedAgentPolicy | undefined
+  diagnostics?: PlacementDiagnostics | undefined
+}
+
+/** Per-task git worktree a placement's cwd was moved into */
+export interface PlacementWorktree {
+  taskId: string
+  branch: string
+  /** Worktree checkout root */
+  path: string
+  /** Launch cwd inside the worktree */
+  cwd: string
+  /** False when an existing worktree was reused; for a read-only placement, whether launch would create it */
+  created: boolean
+}
+
+/** Facts about how a placement was resolved, for operators rather than the runtime */
+export interface PlacementDiagnostics {
+  worktree?: PlacementWorktree | undefined
 }
@@ -88,6 +88,8 @@ export {
   // Space layering
   resolveSpaceComposition,
   // Root-relative refs
+  isRootRef,
+  resolveContainedPath,
   resolveRootRelativeRef,
   // Agent root validation
   validateAgentRoot,
@@ -123,3 +125,6 @@ export * from './orchestration/index.js'
 
 // Agent-authored runtime resources
 export * from './resources/index.js'
+
+// Agent-root scaffolding (`asp agents init`)
+export * from './scaffold/index.js'
@@ -17,8 +17,20 @@ export type {
 export { WARNING_CODES } from './types.js'
 
 // Reporter
-export type { OutputFormat, LintSummary } from './reporter.js'
-export { formatWarnings, formatText, formatJson, summarize } from './reporter.js'
+export type { OutputFormat, LintSummary, ReportOptions } from './reporter.js'
+export {
+  OUTPUT_FORMATS,
+  formatWarnings,
+  formatText,
+  formatJson,
+  formatSarif,
+  formatJunit,
+  summarize,
+} from './reporter.js'
+
+// Rule metadata (RULES.md ledgers)
+export type { LintRuleDescriptor } from './rule-ledger.js'
+export { SPACE_LINT_RULES, HYGIENE_LINT_RULES, getLintRule } from './rule-ledger.js'
 
 // Individual rules
 export {
@@ -29,6 +41,7 @@ export {
   checkPluginNameCollisions,
   checkHookScriptsExecutable,
   checkSkillMdFrontmatter,
+  checkMcpConfig,
   allRules,
 } from './rules/index.js'
 
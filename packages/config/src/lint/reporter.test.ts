@@ -6,8 +6,18 @@
  */
 
 import { describe, expect, it } from 'bun:test'
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
 import type { SpaceKey } from '../core/index.js'
-import { formatJson, formatText, formatWarnings, summarize } from './reporter.js'
+import {
+  formatJson,
+  formatJunit,
+  formatSarif,
+  formatText,
+  formatWarnings,
+  summarize,
+} from './reporter.js'
+import { HYGIENE_LINT_RULES, type LintRuleDescriptor, SPACE_LINT_RULES } from './rule-ledger.js'
 import type { LintWarning } from './types.js'
 
 function createWarning(overrides: Partial<LintWarning> = {}): LintWarning {
@@ -78,6 +88,105 @@ describe('formatWarnings', () => {
   })
 })
 
+describe('formatSarif', () => {
+  it('should emit rule metadata, line regions and baseline suppressions', () => {
+    const log = JSON.parse(
+      formatSarif(
+        [
+          createWarning({ code: 'W204', severity: 'error', path: '/repo/space/hooks/hooks.toml' }),
+          createWarning({ code: 'W411', severity: 'info', path: '/repo/agents/clod/SOUL.md:12' }),
+        ],
+        {
+          suppressed: [createWarning({ code: 'W204', severity: 'error', path: '/elsewhere/x' })],
+          baseDir: '/repo',
+        }
+      )
+    )
+    const run = log.runs[0]
+
+    expect(log.version).toBe('2.1.0')
+    expect(run.originalUriBaseIds.SRCROOT.uri).toBe('file:///repo/')
+    expect(run.tool.driver.rules.map((rule: { id: string }) => rule.id)).toEqual(['W204', 'W411'])
+    expect(run.tool.driver.rules[0]).toMatchObject({
+      name: 'invalid-hooks-config',
+      shortDescription: { text: 'invalid hooks config' },
+      defaultConfiguration: { level: 'error' },
+    })
+    expect(run.results[1]).toMatchObject({
+      ruleId: 'W411',
+      ruleIndex: 1,
+      level: 'note',
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: 'agents/clod/SOUL.md', uriBaseId: 'SRCROOT' },
+            region: { startLine: 12 },
+          },
+        },
+      ],
+    })
+    expect(run.results[0].suppressions).toBeUndefined()
+    expect(run.results[2].suppressions).toEqual([
+      { kind: 'external', justification: 'Suppressed by lint baseline' },
+    ])
+    expect(run.results[2].locations[0].physicalLocation.artifactLocation).toEqual({
+      uri: 'file:///elsewhere/x',
+    })
+  })
+})
+
+describe('formatJunit', () => {
+  it('should fail errors and warnings, pass info and skip suppressed findings', () => {
+    const xml = formatJunit(
+      [
+        createWarning({ message: 'a & <b>', path: '/p/commands/x.md' }),
+        createWarning({ code: 'W413', severity: 'info', path: '/p/SOUL.md:3' }),
+      ],
+      { suppressed: [createWarning({ path: '/p/commands/y.md' })] }
+    )
+
+    expect(xml).toContain('<testsuites name="asp lint" tests="3" failures="1" skipped="1">')
+    expect(xml).toContain(
+      '<testsuite name="W201 command-collision" tests="2" failures="1" skipped="1">'
+    )
+    expect(xml).toContain('<failure type="warning" message="a &amp; &lt;b&gt;">')
+    expect(xml).toContain('file="/p/SOUL.md" line="3"')
+    expect(xml).toContain('<skipped message="suppressed by baseline: Test warning"/>')
+  })
+})
+
+describe('rule ledger', () => {
+  function ledgerRows(relPath: string, summaryColumn: number, severityColumn: number) {
+    return readFileSync(join(import.meta.dirname, relPath), 'utf8')
+      .split('\n')
+      .filter((line) => /^\| [WE]\d{3} \|/.test(line))
+      .map((line) => {
+        const cells = line
+          .split('|')
+          .slice(1, -1)
+          .map((cell) => cell.trim())
+        return {
+          code: cells[0],
+          summary: cells[summaryColumn],
+          severity: cells[severityColumn]?.split(/\s/)[0],
+          check: cells[cells.length - 1],
+        }
+      })
+  }
+
+  function metadataRows(rules: readonly LintRuleDescriptor[]) {
+    return rules.map(({ code, summary, severity, check }) => ({ code, summary, severity, check }))
+  }
+
+  it('should mirror RULES.md for space lint rules', () => {
+    expect(metadataRows(SPACE_LINT_RULES)).toEqual(ledgerRows('RULES.md', 1, 2))
+  })
+
+  it('should mirror hygiene/RULES.md for W4xx rules', () => {
+    expect(metadataRows(HYGIENE_LINT_RULES)).toEqual(ledgerRows('hygiene/RULES.md', 1, 3))
+  })
+})
+
 describe('summarize', () => {
   it('should return zero totals for no warnings', () => {
     const summary = summarize([])
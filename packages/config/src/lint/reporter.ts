@@ -4,12 +4,38 @@
  * WHY: Provides consistent output formatting for lint warnings.
  */
 
-import type { LintWarning } from './types.js'
+import { isAbsolute, relative } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { type LintRuleDescriptor, getLintRule } from './rule-ledger.js'
+import type { LintWarning, WarningSeverity } from './types.js'
 
 /**
  * Reporter output format.
  */
-export type OutputFormat = 'text' | 'json'
+export type OutputFormat = 'text' | 'json' | 'sarif' | 'junit'
+
+export const OUTPUT_FORMATS: readonly OutputFormat[] = ['text', 'json', 'sarif', 'junit']
+
+/**
+ * Options for the machine-readable formats.
+ */
+export interface ReportOptions {
+  /** Findings suppressed by a baseline: SARIF marks them suppressed, JUnit skips them */
+  suppressed?: LintWarning[] | undefined
+  /** Tool / test-suite name (default "asp lint") */
+  toolName?: string | undefined
+  /** Directory SARIF artifact URIs are made relative to (as SRCROOT) */
+  baseDir?: string | undefined
+}
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json'
+const SARIF_ROOT = 'SRCROOT'
+
+const SARIF_LEVELS: Record<WarningSeverity, string> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'note',
+}
 
 /**
  * Format warnings as text.
@@ -47,13 +73,194 @@ export function formatJson(warnings: LintWarning[]): string {
   return JSON.stringify(warnings, null, 2)
 }
 
+/**
+ * Split a warning path into file and line. Rules that know the line append it
+ * as `path:NN` (the hygiene tripwires do).
+ */
+function splitLocation(path: string): { file: string; line?: number | undefined } {
+  const match = /^(.*):(\d+)$/.exec(path)
+  return match?.[1] ? { file: match[1], line: Number(match[2]) } : { file: path }
+}
+
+function ruleFor(code: string, severity: WarningSeverity): LintRuleDescriptor {
+  return getLintRule(code) ?? { code, name: code, summary: code, severity, check: '' }
+}
+
+function sarifArtifactLocation(file: string, baseDir: string | undefined): Record<string, string> {
+  if (baseDir && isAbsolute(file)) {
+    const rel = relative(baseDir, file)
+    if (rel && !rel.startsWith('..') && !isAbsolute(rel)) {
+      return { uri: rel.split('\\').join('/'), uriBaseId: SARIF_ROOT }
+    }
+  }
+  return { uri: isAbsolute(file) ? pathToFileURL(file).href : file }
+}
+
+/**
+ * Format warnings as a SARIF 2.1.0 log. Baseline-suppressed findings are kept
+ * and carry an external suppression so review tools can show them as such.
+ */
+export function formatSarif(warnings: LintWarning[], options: ReportOptions = {}): string {
+  const findings = [
+    ...warnings.map((warning) => ({ warning, suppressed: false })),
+    ...(options.suppressed ?? []).map((warning) => ({ warning, suppressed: true })),
+  ]
+
+  const rules: LintRuleDescriptor[] = []
+  const ruleIndex = new Map<string, number>()
+  for (const { warning } of findings) {
+    if (!ruleIndex.has(warning.code)) {
+      ruleIndex.set(warning.code, rules.length)
+      rules.push(ruleFor(warning.code, warning.severity))
+    }
+  }
+
+  const results = findings.map(({ warning, suppressed }) => {
+    const result: Record<string, unknown> = {
+      ruleId: warning.code,
+      ruleIndex: ruleIndex.get(warning.code),
+      level: SARIF_LEVELS[warning.severity] ?? 'warning',
+      message: { text: warning.message },
+    }
+    if (warning.path) {
+      const { file, line } = splitLocation(warning.path)
+      result['locations'] = [
+        {
+          physicalLocation: {
+            artifactLocation: sarifArtifactLocation(file, options.baseDir),
+            ...(line !== undefined ? { region: { startLine: line } } : {}),
+          },
+        },
+      ]
+    }
+    if (warning.spaceKey || warning.details) {
+      result['properties'] = {
+        ...(warning.spaceKey ? { spaceKey: warning.spaceKey } : {}),
+        ...(warning.details ? { details: warning.details } : {}),
+      }
+    }
+    if (suppressed) {
+      result['suppressions'] = [{ kind: 'external', justification: 'Suppressed by lint baseline' }]
+    }
+    return result
+  })
+
+  const run: Record<string, unknown> = {
+    tool: {
+      driver: {
+        name: options.toolName ?? 'asp lint',
+        rules: rules.map((rule) => ({
+          id: rule.code,
+          name: rule.name,
+          shortDescription: { text: rule.summary },
+          ...(rule.check ? { fullDescription: { text: rule.check } } : {}),
+          defaultConfiguration: { level: SARIF_LEVELS[rule.severity] ?? 'warning' },
+        })),
+      },
+    },
+    results,
+  }
+  if (options.baseDir) {
+    run['originalUriBaseIds'] = {
+      [SARIF_ROOT]: { uri: `${pathToFileURL(options.baseDir).href.replace(/\/$/, '')}/` },
+    }
+  }
+
+  return JSON.stringify({ $schema: SARIF_SCHEMA, version: '2.1.0', runs: [run] }, null, 2)
+}
+
+function xmlEscape(value: string): string {
+  return value
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&apos;')
+}
+
+/**
+ * Format warnings as a JUnit XML report: one testsuite per rule, one testcase
+ * per finding. Errors and warnings fail, info findings pass with the message
+ * on system-out, and baseline-suppressed findings are skipped.
+ */
+export function formatJunit(warnings: LintWarning[], options: ReportOptions = {}): string {
+  const byCode = new Map<string, Array<{ warning: LintWarning; suppressed: boolean }>>()
+  for (const [list, suppressed] of [
+    [warnings, false],
+    [options.suppressed ?? [], true],
+  ] as const) {
+    for (const warning of list) {
+      const cases = byCode.get(warning.code) ?? []
+      cases.push({ warning, suppressed })
+      byCode.set(warning.code, cases)
+    }
+  }
+
+  let tests = 0
+  let failures = 0
+  let skipped = 0
+  const suites: string[] = []
+  for (const code of Array.from(byCode.keys()).sort()) {
+    const cases = byCode.get(code) ?? []
+    const rule = ruleFor(code, cases[0]?.warning.severity ?? 'warning')
+    const suiteFailures = cases.filter(
+      ({ warning, suppressed }) => !suppressed && warning.severity !== 'info'
+    ).length
+    const suiteSkipped = cases.filter(({ suppressed }) => suppressed).length
+    tests += cases.length
+    failures += suiteFailures
+    skipped += suiteSkipped
+
+    const lines = [
+      `  <testsuite name="${xmlEscape(`${code} ${rule.name}`)}" tests="${cases.length}" failures="${suiteFailures}" skipped="${suiteSkipped}">`,
+    ]
+    for (const { warning, suppressed } of cases) {
+      const location = warning.path ? splitLocation(warning.path) : undefined
+      const attrs = [
+        `classname="${xmlEscape(`${code}.${rule.name}`)}"`,
+        `name="${xmlEscape(warning.path ?? warning.spaceKey ?? warning.message)}"`,
+        ...(location ? [`file="${xmlEscape(location.file)}"`] : []),
+        ...(location?.line !== undefined ? [`line="${location.line}"`] : []),
+      ]
+      lines.push(`    <testcase ${attrs.join(' ')}>`)
+      if (suppressed) {
+        lines.push(
+          `      <skipped message="${xmlEscape(`suppressed by baseline: ${warning.message}`)}"/>`
+        )
+      } else if (warning.severity === 'info') {
+        lines.push(`      <system-out>${xmlEscape(warning.message)}</system-out>`)
+      } else {
+        const body = [rule.summary, warning.spaceKey, warning.path].filter(Boolean).join('\n')
+        lines.push(
+          `      <failure type="${warning.severity}" message="${xmlEscape(warning.message)}">${xmlEscape(body)}</failure>`
+        )
+      }
+      lines.push('    </testcase>')
+    }
+    lines.push('  </testsuite>')
+    suites.push(lines.join('\n'))
+  }
+
+  const name = xmlEscape(options.toolName ?? 'asp lint')
+  const header = `<testsuites name="${name}" tests="${tests}" failures="${failures}" skipped="${skipped}">`
+  return ['<?xml version="1.0" encoding="UTF-8"?>', header, ...suites, '</testsuites>'].join('\n')
+}
+
 /**
  * Format warnings in the specified format.
  */
-export function formatWarnings(warnings: LintWarning[], format: OutputFormat = 'text'): string {
+export function formatWarnings(
+  warnings: LintWarning[],
+  format: OutputFormat = 'text',
+  options: ReportOptions = {}
+): string {
   switch (format) {
     case 'json':
       return formatJson(warnings)
+    case 'sarif':
+      return formatSarif(warnings, options)
+    case 'junit':
+      return formatJunit(warnings, options)
     default:
       return formatText(warnings)
   }
@@ -0,0 +1,183 @@
+/**
+ * Rule metadata for machine-readable lint output.
+ *
+ * WHY: SARIF consumers show a rule's description next to every result, and
+ * JUnit dashboards group by rule. The rows below mirror the two ledgers
+ * (./RULES.md for W1xx/W2xx, ./hygiene/RULES.md for W4xx) column for column;
+ * reporter.test.ts parses both files and fails on drift.
+ */
+
+import { HYGIENE_CODES } from './hygiene/types.js'
+import { WARNING_CODES, type WarningSeverity } from './types.js'
+
+/**
+ * One ledger row.
+ */
+export interface LintRuleDescriptor {
+  /** Warning code (e.g., "W201") */
+  code: string
+  /** Stable kebab-case id derived from the code's constant name */
+  name: string
+  /** Ledger "rule" column (space lint) or "criterion" column (hygiene) */
+  summary: string
+  /** Default severity: the first severity the ledger lists */
+  severity: WarningSeverity
+  /** Ledger "check" column */
+  check: string
+}
+
+type LedgerRow = [code: string, summary: string, severity: WarningSeverity, check: string]
+
+const SPACE_LINT_ROWS: LedgerRow[] = [
+  [
+    'W101',
+    'lock file missing',
+    'info',
+    'project has no `asp-lock.json`; `asp install` or `asp run` generates it',
+  ],
+  [
+    'W201',
+    'command collision',
+    'warning',
+    'two spaces in one target provide the same command name',
+  ],
+  [
+    'W202',
+    'agent command namespace',
+    'warning',
+    'agent doc references an unqualified `/command` provided by a plugin space',
+  ],
+  [
+    'W203',
+    'hook path without plugin root',
+    'warning',
+    'hook command references a plugin file without `${CLAUDE_PLUGIN_ROOT}`',
+  ],
+  [
+    'W204',
+    'invalid hooks config',
+    'error',
+    '`hooks/` exists but neither `hooks.toml` nor `hooks.json` parses into valid hooks',
+  ],
+  ['W205', 'plugin name collision', 'warning', 'two spaces produce the same plugin name'],
+  ['W206', 'non-executable hook script', 'warning', 'a hook script exists but is not executable'],
+  [
+    'W207',
+    'invalid plugin structure',
+    'warning',
+    'component directories nested inside `.claude-plugin/` instead of the plugin root',
+  ],
+  [
+    'E208',
+    'SKILL.md missing frontmatter',
+    'error',
+    '`SKILL.md` lacks YAML frontmatter with `name` and `description`',
+  ],
+  [
+    'W209',
+    'invalid MCP config',
+    'error',
+    '`mcp/mcp.json` does not parse, or a server fails transport validation or inlines a header secret',
+  ],
+]
+
+const HYGIENE_ROWS: LedgerRow[] = [
+  [
+    'W400',
+    'U1 / BP-64 name==dirname + kebab',
+    'warning',
+    'frontmatter `name` equals dir basename and is kebab-case (M2)',
+  ],
+  [
+    'W401',
+    'U11 / BP-17 / CF-3 description budget',
+    'warning',
+    '`description` char count vs the ~500-char resident ceiling (M4)',
+  ],
+  [
+    'W402',
+    'U11 / BP-17 / CF-3 body budget',
+    'warning',
+    'resident body word budget; universal ~500-line backstop. On-demand skill bodies get NO word cap (CF-3)',
+  ],
+  ['W410', 'BP-01 optional step', 'info', 'optionality token on a step (M6)'],
+  ['W411', 'BP-02/03 fuzzy gate', 'info', 'belief/judgement gate language (M6)'],
+  ['W412', 'BP-25 nuance clause', 'info', "appended `unless`/`except`/`doesn't apply` clause (M6)"],
+  ['W413', 'BP-31 dated content', 'info', 'date / URL / session-narrative in a runtime file (M6)'],
+  ['W414', 'BP-39 @-include', 'info', '`@file.md` include that loads immediately (M6)'],
+  ['W415', 'MR3 / BP-69 model-name weld', 'info', 'hard model name as live guidance (M7)'],
+  ['W416', 'MR5 / BP-71 reasoning echo', 'info', '"show your reasoning"-style instruction (M7)'],
+  [
+    'W417',
+    'MR2 / SP4 / BP-68 human-in-the-loop',
+    'info',
+    'ask/confirm/human-partner remedy w/o autonomous branch (M7)',
+  ],
+  [
+    'W420',
+    'U21 / BP-58 orphaned artifact',
+    'warning',
+    'bundled file no pointer reaches, or dev/test/log artifact in runtime dir (M5)',
+  ],
+  [
+    'W421',
+    'U13 / BP-11 broken pointer',
+    'error',
+    'markdown link to a file that does not exist (M5)',
+  ],
+  [
+    'W422',
+    'U14 / BP-12 reference nesting',
+    'info',
+    'reference file >100 lines with no top-of-file Contents list (M5)',
+  ],
+  [
+    'W430',
+    'XL0 dead layer',
+    'error',
+    '`AGENTS.md`/`CLAUDE.md`/`GEMINI.md`/`.cursorrules` referenced by no context template or profile',
+  ],
+]
+
+function ruleNames(codes: Record<string, string>): Map<string, string> {
+  return new Map(
+    Object.entries(codes).map(([key, code]) => [code, key.toLowerCase().replaceAll('_', '-')])
+  )
+}
+
+function toDescriptors(rows: LedgerRow[], codes: Record<string, string>): LintRuleDescriptor[] {
+  const names = ruleNames(codes)
+  return rows.map(([code, summary, severity, check]) => ({
+    code,
+    name: names.get(code) ?? code,
+    summary,
+    severity,
+    check,
+  }))
+}
+
+/**
+ * Space lint rules (`asp lint`), from ./RULES.md.
+ */
+export const SPACE_LINT_RULES: readonly LintRuleDescriptor[] = toDescriptors(
+  SPACE_LINT_ROWS,
+  WARNING_CODES
+)
+
+/**
+ * Agent-hygiene rules (`asp lint --hygiene`), from ./hygiene/RULES.md.
+ */
+export const HYGIENE_LINT_RULES: readonly LintRuleDescriptor[] = toDescriptors(
+  HYGIENE_ROWS,
+  HYGIENE_CODES
+)
+
+/**
+ * Look up a rule in either ledger.
+ */
+export function getLintRule(code: string): LintRuleDescriptor | undefined {
+  return (
+    SPACE_LINT_RULES.find((rule) => rule.code === code) ??
+    HYGIENE_LINT_RULES.find((rule) => rule.code === code)
+  )
+}
@@ -0,0 +1,74 @@
+/**
+ * W209: Invalid MCP server configuration.
+ *
+ * WHY: Composition skips MCP servers it cannot use (missing command or url,
+ * fields from the wrong transport, or a header with an inlined secret instead
+ * of a `${VAR}` reference), so those servers silently disappear at runtime.
+ */
+
+import { readFile, stat } from 'node:fs/promises'
+import { join } from 'node:path'
+import { validateMcpServerConfig } from '../../materializer/index.js'
+import type { LintContext, LintWarning } from '../types.js'
+import { WARNING_CODES } from '../types.js'
+
+/**
+ * Check if mcp/mcp.json exists.
+ */
+async function mcpConfigExists(configPath: string): Promise<boolean> {
+  try {
+    const stats = await stat(configPath)
+    return stats.isFile()
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Validate mcp.json contents, returning every problem found.
+ */
+async function validateMcpConfig(configPath: string): Promise<string[]> {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(await readFile(configPath, 'utf-8'))
+  } catch (err) {
+    return [`Failed to parse mcp.json: ${err instanceof Error ? err.message : String(err)}`]
+  }
+
+  const servers =
+    parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)['mcpServers']
+      : undefined
+  if (!servers || typeof servers !== 'object' || Array.isArray(servers)) {
+    return ['mcp.json is missing an mcpServers object']
+  }
+
+  return Object.entries(servers).flatMap(([name, server]) => validateMcpServerConfig(name, server))
+}
+
+/**
+ * W209: Detect invalid MCP server configuration.
+ */
+export async function checkMcpConfig(context: LintContext): Promise<LintWarning[]> {
+  const warnings: LintWarning[] = []
+
+  for (const space of context.spaces) {
+    const configPath = join(space.pluginPath, 'mcp', 'mcp.json')
+    if (!(await mcpConfigExists(configPath))) {
+      continue
+    }
+
+    for (const error of await validateMcpConfig(configPath)) {
+      warnings.push({
+        code: WARNING_CODES.INVALID_MCP_CONFIG,
+        message: `mcp/mcp.json is invalid: ${error}`,
+        severity: 'error',
+        spaceKey: space.key,
+        path: configPath,
+        details: { error },
+      })
+    }
+  }
+
+  return warnings
+}
@@ -12,6 +12,7 @@ export { checkPluginNameCollisions } from './W205-plugin-name-collision.js'
 export { checkHookScriptsExecutable } from './W206-non-executable-hook-script.js'
 export { checkPluginStructure } from './W207-invalid-plugin-structure.js'
 export { checkSkillMdFrontmatter } from './E208-skill-md-frontmatter.js'
+export { checkMcpConfig } from './W209-invalid-mcp-config.js'
 
 import type { LintRule } from '../types.js'
 import { checkSkillMdFrontmatter } from './E208-skill-md-frontmatter.js'
@@ -22,6 +23,7 @@ import { checkHooksConfig } from './W204-invalid-hooks-config.js'
 import { checkPluginNameCollisions } from './W205-plugin-name-collision.js'
 import { checkHookScriptsExecutable } from './W206-non-executable-hook-script.js'
 import { checkPluginStructure } from './W207-invalid-plugin-structure.js'
+import { checkMcpConfig } from './W209-invalid-mcp-config.js'
 
 /**
  * All lint rules in execution order.
@@ -35,4 +37,5 @@ export const allRules: LintRule[] = [
   checkHookScriptsExecutable,
   checkPluginStructure,
   checkSkillMdFrontmatter,
+  checkMcpConfig,
 ]
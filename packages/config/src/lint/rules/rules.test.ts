@@ -20,6 +20,7 @@ import { checkHooksConfig } from './W204-invalid-hooks-config.js'
 import { checkPluginNameCollisions } from './W205-plugin-name-collision.js'
 import { checkHookScriptsExecutable } from './W206-non-executable-hook-script.js'
 import { checkPluginStructure } from './W207-invalid-plugin-structure.js'
+import { checkMcpConfig } from './W209-invalid-mcp-config.js'
 
 let tempDir: string
 
@@ -883,3 +884,64 @@ describe('E208: checkSkillMdFrontmatter', () => {
     expect(warnings).toHaveLength(0)
   })
 })
+
+describe('W209: checkMcpConfig', () => {
+  async function lintMcp(config: unknown) {
+    const plugin = join(tempDir, 'plugin')
+    await mkdir(join(plugin, 'mcp'), { recursive: true })
+    await writeFile(join(plugin, 'mcp', 'mcp.json'), JSON.stringify(config))
+    return checkMcpConfig({
+      spaces: [
+        createSpaceLintData('space1@abc123', createManifest({ id: 'space1' as SpaceId }), plugin),
+      ],
+    })
+  }
+
+  it('should return no warnings for valid stdio, http and sse servers', async () => {
+    const warnings = await lintMcp({
+      mcpServers: {
+        local: { type: 'stdio', command: 'node', args: ['server.js'] },
+        remote: {
+          type: 'http',
+          url: 'http://localhost:8931/mcp',
+          headers: { Authorization: 'Bearer ${TEAM_MCP_TOKEN}' },
+        },
+        stream: { type: 'sse', url: 'https://mcp.internal/sse' },
+      },
+    })
+    expect(warnings).toHaveLength(0)
+  })
+
+  it('should error on missing url, inlined header secrets and mixed transports', async () => {
+    const warnings = await lintMcp({
+      mcpServers: {
+        nourl: { type: 'http' },
+        leaky: { type: 'sse', url: 'https://mcp.internal/sse', headers: { 'X-Api-Key': 'abc123' } },
+        mixed: { type: 'stdio', command: 'node', url: 'http://localhost:1' },
+      },
+    })
+    expect(warnings.map((w) => w.code)).toEqual([
+      WARNING_CODES.INVALID_MCP_CONFIG,
+      WARNING_CODES.INVALID_MCP_CONFIG,
+      WARNING_CODES.INVALID_MCP_CONFIG,
+    ])
+    expect(warnings[0]?.severity).toBe('error')
+    expect(warnings[0]?.message).toContain("'nourl' (http) requires an http(s) url")
+    expect(warnings[1]?.message).toContain("header 'X-Api-Key' must be exactly")
+    expect(warnings[2]?.message).toContain("'mixed' (stdio) does not accept 'url'")
+  })
+
+  it('should error when mcp.json is not parseable', async () => {
+    const plugin = join(tempDir, 'plugin')
+    await mkdir(join(plugin, 'mcp'), { recursive: true })
+    await writeFile(join(plugin, 'mcp', 'mcp.json'), 'not json')
+
+    const warnings = await checkMcpConfig({
+      spaces: [
+        createSpaceLintData('space1@abc123', createManifest({ id: 'space1' as SpaceId }), plugin),
+      ],
+    })
+    expect(warnings).toHaveLength(1)
+    expect(warnings[0]?.path).toBe(join(plugin, 'mcp', 'mcp.json'))
+  })
+})
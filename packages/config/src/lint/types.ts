@@ -72,11 +72,18 @@ export const WARNING_CODES = {
   NON_EXECUTABLE_HOOK_SCRIPT: 'W206',
   INVALID_PLUGIN_STRUCTURE: 'W207',
   SKILL_MD_MISSING_FRONTMATTER: 'E208',
+  INVALID_MCP_CONFIG: 'W209',
   /** W3xx: Harness-specific warnings (Pi = W301-W310) */
   PI_HOOK_CANNOT_BLOCK: 'W301',
   PI_UNNAMESPACED_TOOL: 'W302',
   PI_TOOL_COLLISION: 'W303',
   PI_PERMISSION_LINT_ONLY: 'W304',
+  PI_MCP_UNSUPPORTED: 'W305',
+  PI_HOOK_UNSUPPORTED_EVENT: 'W306',
+  /** Codex = W311-W320 */
+  CODEX_HOOK_UNSUPPORTED_EVENT: 'W311',
+  CODEX_PERMISSION_LINT_ONLY: 'W312',
+  CODEX_MCP_UNSUPPORTED_SERVER: 'W313',
 } as const
 
 export type WarningCode = (typeof WARNING_CODES)[keyof typeof WARNING_CODES]
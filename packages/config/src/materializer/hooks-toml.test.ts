@@ -7,13 +7,19 @@ import { mkdir, rm, writeFile } from 'node:fs/promises'
 import { join } from 'node:path'
 import {
   type CanonicalHookDefinition,
+  canonicalHookEvent,
   filterHooksForHarness,
   generateClaudeHooksJson,
+  listUnblockablePiHooks,
+  listUnsupportedCodexHooks,
+  listUnsupportedPiHooks,
   parseHooksToml,
   readHooksToml,
   readHooksWithPrecedence,
   toClaudeHooksConfig,
+  toCodexHooksConfig,
   translateToClaudeEvent,
+  translateToCodexEvent,
   translateToPiEvent,
   writeClaudeHooksJson,
 } from './hooks-toml.js'
@@ -167,8 +173,15 @@ describe('translateToPiEvent', () => {
     expect(translateToPiEvent('session_start')).toBe('session_start')
   })
 
-  it('translates session_end to session_end', () => {
-    expect(translateToPiEvent('session_end')).toBe('session_end')
+  it('translates session_end to session_shutdown', () => {
+    expect(translateToPiEvent('session_end')).toBe('session_shutdown')
+  })
+
+  it('translates prompt, stop and compaction events to their Pi lifecycle events', () => {
+    expect(translateToPiEvent('user_prompt_submit')).toBe('input')
+    expect(translateToPiEvent('stop')).toBe('agent_end')
+    expect(translateToPiEvent('pre_compact')).toBe('session_before_compact')
+    expect(translateToPiEvent('post_tool_use_failure')).toBe('tool_result')
   })
 
   it('returns original event for unknown events', () => {
@@ -176,6 +189,37 @@ describe('translateToPiEvent', () => {
   })
 })
 
+describe('canonicalHookEvent', () => {
+  it('normalizes Claude PascalCase event names and keeps abstract names', () => {
+    expect(canonicalHookEvent('PreToolUse')).toBe('pre_tool_use')
+    expect(canonicalHookEvent('Stop')).toBe('stop')
+    expect(canonicalHookEvent('pre_tool_use')).toBe('pre_tool_use')
+  })
+})
+
+describe('listUnsupportedPiHooks / listUnblockablePiHooks', () => {
+  const hooks: CanonicalHookDefinition[] = [
+    { event: 'pre_tool_use', script: 'guard.sh', blocking: true },
+    { event: 'user_prompt_submit', script: 'prompt.sh', blocking: true },
+    { event: 'stop', script: 'stop.sh', blocking: true },
+    { event: 'PostToolUse', script: 'after.sh', blocking: true },
+    { event: 'notification', script: 'notify.sh' },
+    { event: 'subagent_stop', script: 'claude-only.sh', harness: 'claude' },
+    { event: 'PermissionRequest', script: 'ask.sh', harness: 'pi-sdk' },
+  ]
+
+  it('reports events Pi has no equivalent for, honoring harness filters', () => {
+    expect(listUnsupportedPiHooks(hooks).map((h) => h.event)).toEqual([
+      'notification',
+      'PermissionRequest',
+    ])
+  })
+
+  it('reports blocking hooks only where Pi cannot act on the exit status', () => {
+    expect(listUnblockablePiHooks(hooks).map((h) => h.event)).toEqual(['stop', 'PostToolUse'])
+  })
+})
+
 describe('filterHooksForHarness', () => {
   const hooks: CanonicalHookDefinition[] = [
     { event: 'pre_tool_use', script: 'all.sh' },
@@ -364,6 +408,98 @@ describe('toClaudeHooksConfig', () => {
   })
 })
 
+describe('toCodexHooksConfig', () => {
+  const root = '$CODEX_HOME/hooks/guard-space'
+
+  it('maps tool events to Codex groups with tool matchers', () => {
+    const hooks: CanonicalHookDefinition[] = [
+      { event: 'pre_tool_use', script: 'hooks/guard.sh', tools: ['Bash'] },
+      { event: 'post_tool_use', script: 'hooks/audit.sh' },
+    ]
+
+    const config = toCodexHooksConfig(hooks, root)
+
+    expect(config.hooks['PreToolUse']).toEqual([
+      {
+        matcher: 'Bash',
+        hooks: [{ type: 'command', command: '"$CODEX_HOME/hooks/guard-space/guard.sh"' }],
+      },
+    ])
+    expect(config.hooks['PostToolUse']?.[0]?.matcher).toBe('')
+  })
+
+  it('groups hooks sharing an event and matcher, omitting matchers Codex does not accept', () => {
+    const hooks: CanonicalHookDefinition[] = [
+      { event: 'stop', script: 'hooks/first.sh', matcher: 'ignored' },
+      { event: 'stop', script: '${CLAUDE_PLUGIN_ROOT}/hooks/second.sh' },
+      { event: 'session_start', script: 'hooks/compact.sh', matcher: 'compact' },
+    ]
+
+    const config = toCodexHooksConfig(hooks, root)
+
+    expect(config.hooks['Stop']).toEqual([
+      {
+        hooks: [
+          { type: 'command', command: '"$CODEX_HOME/hooks/guard-space/first.sh"' },
+          { type: 'command', command: '"$CODEX_HOME/hooks/guard-space/second.sh"' },
+        ],
+      },
+    ])
+    expect(config.hooks['SessionStart']?.[0]?.matcher).toBe('compact')
+  })
+
+  it('honors harness filters and skips events Codex lacks', () => {
+    const hooks: CanonicalHookDefinition[] = [
+      { event: 'stop', script: 'hooks/claude-only.sh', harness: 'claude' },
+      { event: 'stop', script: 'hooks/codex-only.sh', harness: 'codex' },
+      { event: 'session_end', script: 'hooks/end.sh' },
+    ]
+
+    const config = toCodexHooksConfig(hooks, root)
+
+    expect(Object.keys(config.hooks)).toEqual(['Stop'])
+    expect(config.hooks['Stop']?.[0]?.hooks.map((h) => h.command)).toEqual([
+      '"$CODEX_HOME/hooks/guard-space/codex-only.sh"',
+    ])
+    expect(listUnsupportedCodexHooks(hooks).map((h) => h.event)).toEqual(['session_end'])
+    expect(translateToCodexEvent('user_prompt_submit')).toBe('UserPromptSubmit')
+    expect(translateToCodexEvent('notification')).toBeNull()
+  })
+
+  it('accepts PascalCase events from simple-array hooks.json', () => {
+    const hooks: CanonicalHookDefinition[] = [
+      { event: 'PreToolUse', script: 'hooks/guard.sh', tools: ['Bash'] },
+      { event: 'Stop', script: 'hooks/stop.sh' },
+      { event: 'Notification', script: 'hooks/notify.sh' },
+    ]
+
+    const config = toCodexHooksConfig(hooks, root)
+
+    expect(Object.keys(config.hooks)).toEqual(['PreToolUse', 'Stop'])
+    expect(listUnsupportedCodexHooks(hooks).map((h) => h.event)).toEqual(['Notification'])
+  })
+
+  it('runs commands with arguments as written and rebases only resolved scripts', () => {
+    const hooks: CanonicalHookDefinition[] = [
+      { event: 'stop', script: 'bun run lint' },
+      { event: 'stop', script: 'hooks/guard.sh' },
+      { event: 'stop', script: 'notify-send' },
+      { event: 'stop', script: '/usr/local/bin/audit' },
+    ]
+
+    const config = toCodexHooksConfig(hooks, root, (script) =>
+      script === 'guard.sh' ? `${root}/guard.sh` : undefined
+    )
+
+    expect(config.hooks['Stop']?.[0]?.hooks.map((h) => h.command)).toEqual([
+      'bun run lint',
+      '"$CODEX_HOME/hooks/guard-space/guard.sh"',
+      'notify-send',
+      '"/usr/local/bin/audit"',
+    ])
+  })
+})
+
 describe('generateClaudeHooksJson', () => {
   it('generates valid JSON string', () => {
     const hooks: CanonicalHookDefinition[] = [
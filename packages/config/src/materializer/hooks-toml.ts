@@ -5,10 +5,11 @@
  * This module parses hooks.toml and translates it to harness-specific formats:
  * - Claude: generates hooks/hooks.json with Claude event names
  * - Pi: generates hook definitions for the hook bridge extension
+ * - Codex: generates hook groups merged into codex.home/hooks.json
  */
 
 import { readFile, stat, writeFile } from 'node:fs/promises'
-import { join } from 'node:path'
+import { isAbsolute, join } from 'node:path'
 import TOML from '@iarna/toml'
 import type { HarnessId } from '../core/types/harness.js'
 
@@ -105,17 +106,58 @@ export const ABSTRACT_TO_CLAUDE_EVENTS: Record<string, string> = {
 }
 
 /**
- * Event mapping from abstract event names to Pi event names.
+ * Event mapping from abstract event names to Pi extension event names.
+ *
+ * `post_tool_use_failure` shares Pi's `tool_result` event and fires only when
+ * the result is an error. Pi has no PermissionRequest, Notification or subagent
+ * events; hooks declaring those are reported by `listUnsupportedPiHooks`.
  */
 export const ABSTRACT_TO_PI_EVENTS: Record<string, string> = {
   pre_tool_use: 'tool_call',
   post_tool_use: 'tool_result',
+  post_tool_use_failure: 'tool_result',
+  user_prompt_submit: 'input',
+  stop: 'agent_end',
+  pre_compact: 'session_before_compact',
   session_start: 'session_start',
-  session_end: 'session_end',
+  session_end: 'session_shutdown',
+}
+
+/**
+ * Abstract events whose Pi handlers can act on a blocking hook's non-zero exit:
+ * `tool_call` blocks the tool, `input` swallows the prompt and
+ * `session_before_compact` cancels the compaction.
+ */
+export const PI_BLOCKING_HOOK_EVENTS: readonly string[] = [
+  'pre_tool_use',
+  'user_prompt_submit',
+  'pre_compact',
+]
+
+/**
+ * Event mapping from abstract event names to Codex hooks.json event names.
+ *
+ * Codex has no SessionEnd, Notification, PostToolUseFailure or subagent
+ * events; hooks declaring those are reported by `listUnsupportedCodexHooks`.
+ */
+export const ABSTRACT_TO_CODEX_EVENTS: Record<string, string> = {
+  pre_tool_use: 'PreToolUse',
+  post_tool_use: 'PostToolUse',
+  permission_request: 'PermissionRequest',
+  user_prompt_submit: 'UserPromptSubmit',
+  stop: 'Stop',
+  pre_compact: 'PreCompact',
+  session_start: 'SessionStart',
 }
 
 const CLAUDE_TOOL_EVENTS = new Set(['PreToolUse', 'PostToolUse'])
 
+/** Codex events whose groups carry a tool-name matcher. */
+const CODEX_TOOL_EVENTS = new Set(['PreToolUse', 'PermissionRequest', 'PostToolUse'])
+
+/** Codex events whose groups accept a non-tool matcher (e.g. "compact"). */
+const CODEX_MATCHER_EVENTS = new Set(['PreCompact', 'SessionStart'])
+
 function buildClaudeMatcher(tools?: string[] | undefined): string {
   if (!tools || tools.length === 0) {
     return '*'
@@ -214,10 +256,11 @@ export async function hooksTomlExists(hooksDir: string): Promise<boolean> {
  * - Match the specified harness
  *
  * @param hooks - Array of canonical hook definitions
- * @param harnessId - Harness ID to filter for (Claude- or Pi-compatible)
+ * @param harnessId - Harness ID to filter for (Claude-, Pi- or Codex-compatible)
  * @returns Filtered hooks applicable to the harness
  */
-function normalizeHarnessForHooks(harnessId: HarnessId): 'claude' | 'pi' {
+function normalizeHarnessForHooks(harnessId: HarnessId): 'claude' | 'pi' | 'codex' {
+  if (harnessId === 'codex') return 'codex'
   return harnessId === 'pi' || harnessId === 'pi-sdk' ? 'pi' : 'claude'
 }
 
@@ -257,11 +300,24 @@ export function translateToPiEvent(abstractEvent: string): string {
 }
 
 /**
- * Convert canonical hooks to Claude hooks.json format.
+ * Abstract name for a hook event, accepting the Claude PascalCase spelling the
+ * simple-array hooks.json format passes through unnormalized.
+ */
+export function canonicalHookEvent(event: string): string {
+  return /^[A-Z]/.test(event) ? claudeEventToCanonical(event) : event
+}
+
+/**
+ * Translate abstract event name to Codex event name.
  *
- * @param hooks - Array of canonical hook definitions
- * @returns Claude hooks.json configuration
+ * @param abstractEvent - Abstract event name (e.g., 'stop'); the Claude
+ *   PascalCase spelling (e.g., 'Stop') is accepted too
+ * @returns Codex event name (e.g., 'Stop'), or null if Codex has no equivalent
  */
+export function translateToCodexEvent(abstractEvent: string): string | null {
+  return ABSTRACT_TO_CODEX_EVENTS[canonicalHookEvent(abstractEvent)] ?? null
+}
+
 /**
  * Group Claude-applicable hooks by Claude event name, then by matcher.
  *
@@ -314,6 +370,12 @@ function buildClaudeEventEntry(
   return entry
 }
 
+/**
+ * Convert canonical hooks to Claude hooks.json format.
+ *
+ * @param hooks - Array of canonical hook definitions
+ * @returns Claude hooks.json configuration
+ */
 export function toClaudeHooksConfig(hooks: CanonicalHookDefinition[]): ClaudeHooksConfig {
   // Filter for Claude-applicable hooks, then group by event and matcher.
   const claudeHooks = filterHooksForHarness(hooks, 'claude')
@@ -359,6 +421,178 @@ export async function writeClaudeHooksJson(
   await writeFile(hooksJsonPath, content, 'utf8')
 }
 
+// ============================================================================
+// Translation: hooks.toml -> Codex hooks.json
+// ============================================================================
+
+/**
+ * Codex hook handler configuration.
+ */
+export interface CodexHookHandler {
+  /** Handler type (currently only "command") */
+  type: 'command'
+  /** Shell command; Codex runs it through the user's shell */
+  command: string
+  /** Optional timeout in seconds (Codex defaults to 600) */
+  timeout?: number | undefined
+}
+
+/**
+ * Codex hook group: an optional matcher plus the handlers it triggers.
+ */
+export interface CodexHookGroup {
+  /** Optional matcher ("" matches every tool) */
+  matcher?: string | undefined
+  /** Handlers run for this group */
+  hooks: CodexHookHandler[]
+}
+
+/**
+ * Codex hooks.json format.
+ */
+export interface CodexHooksConfig {
+  /** Hook groups keyed by Codex event name */
+  hooks: Record<string, CodexHookGroup[]>
+}
+
+function buildCodexMatcher(codexEvent: string, hook: CanonicalHookDefinition): string | undefined {
+  if (CODEX_TOOL_EVENTS.has(codexEvent)) {
+    if (!hook.tools || hook.tools.length === 0 || hook.tools.includes('*')) {
+      return ''
+    }
+    return hook.tools.join('|')
+  }
+  return CODEX_MATCHER_EVENTS.has(codexEvent) ? hook.matcher : undefined
+}
+
+/** Quote a value for POSIX shells, leaving `$VAR` references expandable. */
+function shellQuoteCommandPath(path: string): string {
+  return `"${path.replace(/(["\\`])/g, '\\$1')}"`
+}
+
+/**
+ * Maps a relative hook script path (plugin-root and `hooks/` prefixes already
+ * dropped) to the path Codex should run, or returns undefined when no such
+ * file was materialized and the script is a bare command name.
+ */
+export type CodexHookScriptResolver = (script: string) => string | undefined
+
+/**
+ * Build the Codex command for one hook, following the Pi hook bridge rules:
+ * scripts containing whitespace are raw shell commands run as written, and
+ * only paths the resolver finds are rebased (and quoted as one word).
+ */
+function buildCodexHookCommand(script: string, resolveScript: CodexHookScriptResolver): string {
+  const normalized = script.replace(/^\$\{CLAUDE_PLUGIN_ROOT\}\//, '').replace(/^hooks\//, '')
+  if (/\s/.test(normalized)) {
+    return script
+  }
+  if (isAbsolute(normalized)) {
+    return shellQuoteCommandPath(normalized)
+  }
+  const resolved = resolveScript(normalized)
+  return resolved !== undefined ? shellQuoteCommandPath(resolved) : script
+}
+
+/**
+ * Convert canonical hooks to Codex hooks.json format.
+ *
+ * Codex has no plugin-root variable, so the caller supplies the directory the
+ * space's scripts were materialized to (typically `$CODEX_HOME/hooks/<space>`).
+ * A leading `hooks/` in the script path is dropped because that directory is
+ * the script root itself. Scripts containing whitespace run as raw commands.
+ * Hooks without a Codex event mapping are skipped; use
+ * `listUnsupportedCodexHooks` to report them.
+ *
+ * @param hooks - Array of canonical hook definitions
+ * @param scriptRoot - Directory (may reference `$CODEX_HOME`) holding the scripts
+ * @param resolveScript - Locates materialized scripts; defaults to rebasing every
+ *   relative path onto `scriptRoot`
+ * @returns Codex hooks.json configuration
+ */
+export function toCodexHooksConfig(
+  hooks: CanonicalHookDefinition[],
+  scriptRoot: string,
+  resolveScript: CodexHookScriptResolver = (script) => `${scriptRoot}/${script}`
+): CodexHooksConfig {
+  const result: CodexHooksConfig = { hooks: {} }
+  const groupsByEvent = new Map<string, Map<string | undefined, CodexHookGroup>>()
+
+  for (const hook of filterHooksForHarness(hooks, 'codex')) {
+    const codexEvent = translateToCodexEvent(hook.event)
+    if (!codexEvent) {
+      continue
+    }
+
+    const matcher = buildCodexMatcher(codexEvent, hook)
+    const eventGroups =
+      groupsByEvent.get(codexEvent) ?? new Map<string | undefined, CodexHookGroup>()
+    let group = eventGroups.get(matcher)
+    if (!group) {
+      group = matcher !== undefined ? { matcher, hooks: [] } : { hooks: [] }
+      eventGroups.set(matcher, group)
+    }
+    group.hooks.push({
+      type: 'command',
+      command: buildCodexHookCommand(hook.script, resolveScript),
+    })
+    groupsByEvent.set(codexEvent, eventGroups)
+  }
+
+  for (const [eventName, eventGroups] of groupsByEvent) {
+    result.hooks[eventName] = Array.from(eventGroups.values())
+  }
+
+  return result
+}
+
+/**
+ * List Codex-applicable hooks whose abstract event Codex cannot run.
+ *
+ * @param hooks - Array of canonical hook definitions
+ * @returns Hooks that `toCodexHooksConfig` drops
+ */
+export function listUnsupportedCodexHooks(
+  hooks: CanonicalHookDefinition[]
+): CanonicalHookDefinition[] {
+  return filterHooksForHarness(hooks, 'codex').filter((h) => !translateToCodexEvent(h.event))
+}
+
+/**
+ * List Pi-applicable hooks whose abstract event Pi has no equivalent for.
+ *
+ * @param hooks - Array of canonical hook definitions
+ * @returns Hooks the Pi hook bridge and SDK hook runtime never run
+ */
+export function listUnsupportedPiHooks(
+  hooks: CanonicalHookDefinition[]
+): CanonicalHookDefinition[] {
+  return filterHooksForHarness(hooks, 'pi').filter(
+    (h) => ABSTRACT_TO_PI_EVENTS[canonicalHookEvent(h.event)] === undefined
+  )
+}
+
+/**
+ * List Pi-applicable hooks marked `blocking` on a supported event Pi cannot
+ * block (e.g. `post_tool_use`, `stop`). Unsupported events are left to
+ * `listUnsupportedPiHooks`.
+ *
+ * @param hooks - Array of canonical hook definitions
+ * @returns Blocking hooks that Pi runs but whose exit status cannot block
+ */
+export function listUnblockablePiHooks(
+  hooks: CanonicalHookDefinition[]
+): CanonicalHookDefinition[] {
+  return filterHooksForHarness(hooks, 'pi').filter((h) => {
+    const event = canonicalHookEvent(h.event)
+    return (
+      h.blocking === true &&
+      ABSTRACT_TO_PI_EVENTS[event] !== undefined &&
+      !PI_BLOCKING_HOOK_EVENTS.includes(event)
+    )
+  })
+}
+
 // ============================================================================
 // Combined read with precedence
 // ============================================================================
@@ -55,7 +55,13 @@ export {
   filterHooksForHarness,
   translateToClaudeEvent,
   translateToPiEvent,
+  translateToCodexEvent,
+  canonicalHookEvent,
   toClaudeHooksConfig,
+  toCodexHooksConfig,
+  listUnsupportedCodexHooks,
+  listUnsupportedPiHooks,
+  listUnblockablePiHooks,
   generateClaudeHooksJson,
   writeClaudeHooksJson,
   readHooksWithPrecedence,
@@ -63,10 +69,16 @@ export {
   HOOKS_JSON_FILENAME,
   ABSTRACT_TO_CLAUDE_EVENTS,
   ABSTRACT_TO_PI_EVENTS,
+  PI_BLOCKING_HOOK_EVENTS,
+  ABSTRACT_TO_CODEX_EVENTS,
   type CanonicalHookDefinition,
   type HooksTomlConfig,
   type ClaudeHookDefinition,
   type ClaudeHooksConfig,
+  type CodexHookHandler,
+  type CodexHookGroup,
+  type CodexHooksConfig,
+  type CodexHookScriptResolver,
   type ReadHooksResult,
 } from './hooks-toml.js'
 
@@ -78,6 +90,9 @@ export {
   writeMcpConfig,
   readAllMcpConfigs,
   composeMcpFromSpaces,
+  validateMcpServerConfig,
+  filterValidMcpServers,
+  type McpServerType,
   type McpServerConfig,
   type McpConfig,
 } from './mcp-composer.js'
@@ -101,6 +116,12 @@ export {
   toClaudePermissions,
   toClaudeSettingsPermissions,
   toPiPermissions,
+  toCodexPermissions,
+  toCodexConfigPermissions,
+  toCodexWritableRoot,
+  toCodexCommandPrefix,
+  buildCodexExecRules,
+  renderCodexExecRules,
   buildPiToolsList,
   normalizePaths,
   normalizeExecToClaudeRules,
@@ -109,11 +130,16 @@ export {
   PERMISSIONS_TOML_FILENAME,
   CLAUDE_ENFORCEMENT,
   PI_ENFORCEMENT,
+  CODEX_ENFORCEMENT,
+  CODEX_EXEC_RULES_PATH,
   type CanonicalPermissions,
   type EnforcementLevel,
   type AnnotatedPermissionFacet,
   type ClaudePermissions,
   type PiPermissions,
+  type CodexPermissions,
+  type CodexConfigPermissions,
+  type CodexExecRule,
   type ClaudeSettingsPermissions,
   type ReadPermissionsResult,
 } from './permissions-toml.js'
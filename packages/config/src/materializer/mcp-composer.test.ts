@@ -6,7 +6,13 @@
  */
 
 import { describe, expect, it } from 'bun:test'
-import { type McpConfig, checkMcpCollisions, composeMcpConfigs } from './mcp-composer.js'
+import {
+  type McpConfig,
+  checkMcpCollisions,
+  composeMcpConfigs,
+  filterValidMcpServers,
+  validateMcpServerConfig,
+} from './mcp-composer.js'
 
 describe('composeMcpConfigs', () => {
   it('should compose multiple configs', () => {
@@ -85,3 +91,72 @@ describe('checkMcpCollisions', () => {
     expect(collisions.length).toBe(0)
   })
 })
+
+describe('validateMcpServerConfig', () => {
+  it('should accept stdio, untyped (stdio) and env-referencing remote servers', () => {
+    expect(validateMcpServerConfig('a', { type: 'stdio', command: 'node' })).toEqual([])
+    expect(validateMcpServerConfig('b', { command: 'node' })).toEqual([])
+    expect(
+      validateMcpServerConfig('c', {
+        type: 'http',
+        url: '${TEAM_MCP_URL}',
+        headers: { 'X-Team': '${TEAM_ID}', Authorization: 'Bearer ${TEAM_TOKEN}' },
+      })
+    ).toEqual([])
+  })
+
+  it('should reject unknown types, non-http urls and literal header values', () => {
+    expect(validateMcpServerConfig('a', { type: 'websocket', url: 'ws://x' })).toEqual([
+      `MCP server 'a' has unsupported type "websocket"`,
+    ])
+    expect(validateMcpServerConfig('b', { type: 'sse', url: 'file:///tmp/sock' })).toEqual([
+      `MCP server 'b' (sse) requires an http(s) url`,
+    ])
+    expect(
+      validateMcpServerConfig('c', {
+        type: 'http',
+        url: 'https://mcp.internal',
+        headers: { Authorization: 'Bearer sk-live' },
+      })
+    ).toHaveLength(1)
+  })
+
+  it('should reject header values that only embed an environment reference', () => {
+    expect(
+      validateMcpServerConfig('c', {
+        type: 'http',
+        url: 'https://mcp.internal',
+        headers: {
+          'X-Team': 'secret-${TEAM_ID}',
+          'X-Key': '${API_KEY:-sk-live}',
+          Authorization: 'Token ${TEAM_TOKEN}',
+        },
+      })
+    ).toEqual([
+      `MCP server 'c' header 'X-Team' must be exactly \${VAR} (or "Bearer \${VAR}") instead of an inline value`,
+      `MCP server 'c' header 'X-Key' must be exactly \${VAR} (or "Bearer \${VAR}") instead of an inline value`,
+      `MCP server 'c' header 'Authorization' must be exactly \${VAR} (or "Bearer \${VAR}") instead of an inline value`,
+    ])
+  })
+})
+
+describe('filterValidMcpServers', () => {
+  it('should drop invalid servers with a warning and keep the rest', () => {
+    const { configs, warnings } = filterValidMcpServers([
+      {
+        spaceId: 'space-a',
+        config: {
+          mcpServers: {
+            good: { type: 'http', url: 'http://localhost:8931/mcp' },
+            bad: { type: 'http' },
+          },
+        },
+      },
+    ])
+
+    expect(Object.keys(configs[0]?.config.mcpServers ?? {})).toEqual(['good'])
+    expect(warnings).toEqual([
+      `Skipping MCP server 'bad' in space space-a: MCP server 'bad' (http) requires an http(s) url`,
+    ])
+  })
+})
@@ -10,22 +10,32 @@ import { join } from 'node:path'
 import { ensureDir } from '../store/index.js'
 
 /**
- * MCP server type - currently only "stdio" is supported.
+ * MCP server type: "stdio" for local command-line servers, "http"
+ * (streamable HTTP) and "sse" for remote servers reached by URL.
  */
-export type McpServerType = 'stdio'
+export type McpServerType = 'stdio' | 'http' | 'sse'
 
 /**
- * MCP server definition.
+ * MCP server definition. Which fields apply depends on `type`; see
+ * `validateMcpServerConfig`.
  */
 export interface McpServerConfig {
-  /** Server type - "stdio" for command-line MCP servers */
+  /** Server type */
   type: McpServerType
-  /** Command to run the server */
-  command: string
-  /** Arguments to pass */
+  /** Command to run the server (stdio only) */
+  command?: string | undefined
+  /** Arguments to pass (stdio only) */
   args?: string[] | undefined
-  /** Environment variables */
+  /** Environment variables (stdio only) */
   env?: Record<string, string> | undefined
+  /** Server endpoint (http/sse only) */
+  url?: string | undefined
+  /**
+   * Request headers (http/sse only). Values must be exactly `${VAR}`, or
+   * `Bearer ${VAR}` for Authorization, so credentials never land in the space
+   * itself.
+   */
+  headers?: Record<string, string> | undefined
 }
 
 /**
@@ -36,6 +46,105 @@ export interface McpConfig {
   mcpServers: Record<string, McpServerConfig>
 }
 
+/** A whole header value taken from the environment: `${VAR}` or `Bearer ${VAR}`. */
+const HEADER_ENV_REFERENCE = /^(?:Bearer )?\$\{[A-Za-z_][A-Za-z0-9_]*\}$/
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every((entry) => typeof entry === 'string')
+  )
+}
+
+/**
+ * Validate one MCP server definition.
+ * Returns a list of problems; an empty list means the server is usable.
+ */
+export function validateMcpServerConfig(name: string, server: unknown): string[] {
+  if (typeof server !== 'object' || server === null || Array.isArray(server)) {
+    return [`MCP server '${name}' must be an object`]
+  }
+  const record = server as Record<string, unknown>
+  // Claude treats an untyped server as stdio; keep existing mcp.json files valid.
+  const type = record['type'] ?? 'stdio'
+  if (type !== 'stdio' && type !== 'http' && type !== 'sse') {
+    return [`MCP server '${name}' has unsupported type ${JSON.stringify(type)}`]
+  }
+
+  const errors: string[] = []
+  if (type === 'stdio') {
+    if (typeof record['command'] !== 'string' || record['command'].length === 0) {
+      errors.push(`MCP server '${name}' (stdio) requires a command`)
+    }
+    const args = record['args']
+    if (
+      args !== undefined &&
+      (!Array.isArray(args) || !args.every((arg) => typeof arg === 'string'))
+    ) {
+      errors.push(`MCP server '${name}' args must be an array of strings`)
+    }
+    if (record['env'] !== undefined && !isStringRecord(record['env'])) {
+      errors.push(`MCP server '${name}' env must map names to strings`)
+    }
+    for (const field of ['url', 'headers']) {
+      if (record[field] !== undefined) {
+        errors.push(`MCP server '${name}' (stdio) does not accept '${field}'`)
+      }
+    }
+    return errors
+  }
+
+  const url = record['url']
+  if (typeof url !== 'string' || !/^(https?:\/\/|\$\{)/.test(url)) {
+    errors.push(`MCP server '${name}' (${type}) requires an http(s) url`)
+  }
+  const headers = record['headers']
+  if (headers !== undefined) {
+    if (!isStringRecord(headers)) {
+      errors.push(`MCP server '${name}' headers must map names to strings`)
+    } else {
+      for (const [header, value] of Object.entries(headers)) {
+        if (!HEADER_ENV_REFERENCE.test(value)) {
+          errors.push(
+            `MCP server '${name}' header '${header}' must be exactly \${VAR} (or "Bearer \${VAR}") instead of an inline value`
+          )
+        }
+      }
+    }
+  }
+  for (const field of ['command', 'args', 'env']) {
+    if (record[field] !== undefined) {
+      errors.push(`MCP server '${name}' (${type}) does not accept '${field}'`)
+    }
+  }
+  return errors
+}
+
+/**
+ * Drop invalid server definitions from each config, reporting why.
+ */
+export function filterValidMcpServers(configs: Array<{ spaceId: string; config: McpConfig }>): {
+  configs: Array<{ spaceId: string; config: McpConfig }>
+  warnings: string[]
+} {
+  const warnings: string[] = []
+  const filtered = configs.map(({ spaceId, config }) => {
+    const mcpServers: Record<string, McpServerConfig> = {}
+    for (const [name, server] of Object.entries(config.mcpServers ?? {})) {
+      const errors = validateMcpServerConfig(name, server)
+      if (errors.length > 0) {
+        warnings.push(`Skipping MCP server '${name}' in space ${spaceId}: ${errors.join('; ')}`)
+        continue
+      }
+      mcpServers[name] = server
+    }
+    return { spaceId, config: { mcpServers } }
+  })
+  return { configs: filtered, warnings }
+}
+
 /**
  * Read MCP config from a space directory.
  */
@@ -132,8 +241,8 @@ export async function composeMcpFromSpaces(
   dirs: Array<{ spaceId: string; dir: string }>,
   outputPath: string
 ): Promise<{ config: McpConfig; warnings: string[] }> {
-  const configs = await readAllMcpConfigs(dirs)
-  const warnings = checkMcpCollisions(configs)
+  const { configs, warnings } = filterValidMcpServers(await readAllMcpConfigs(dirs))
+  warnings.push(...checkMcpCollisions(configs))
   const composed = composeMcpConfigs(configs.map((c) => c.config))
 
   if (Object.keys(composed.mcpServers).length > 0) {
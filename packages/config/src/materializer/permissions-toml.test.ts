@@ -7,8 +7,10 @@ import { mkdir, rm, writeFile } from 'node:fs/promises'
 import { join } from 'node:path'
 import {
   CLAUDE_ENFORCEMENT,
+  CODEX_ENFORCEMENT,
   type CanonicalPermissions,
   PI_ENFORCEMENT,
+  buildCodexExecRules,
   buildPiToolsList,
   explainPermissions,
   hasPermissions,
@@ -18,8 +20,12 @@ import {
   permissionsTomlExists,
   readPermissions,
   readPermissionsToml,
+  renderCodexExecRules,
   toClaudePermissions,
   toClaudeSettingsPermissions,
+  toCodexConfigPermissions,
+  toCodexPermissions,
+  toCodexWritableRoot,
   toPiPermissions,
 } from './permissions-toml.js'
 
@@ -345,6 +351,99 @@ describe('toPiPermissions', () => {
   })
 })
 
+describe('toCodexPermissions', () => {
+  it('widens write globs to writable roots and drops the workspace itself', () => {
+    const result = toCodexPermissions({ write: { paths: ['./src/**', '/tmp/build/*.log', '.'] } })
+
+    expect(result.write?.value).toEqual(['./src', '/tmp/build'])
+    expect(result.write?.enforcement).toBe('best_effort')
+    expect(toCodexWritableRoot('**/*.ts')).toBeNull()
+    expect(toCodexWritableRoot('/*')).toBe('/')
+  })
+
+  it('reduces exec commands and patterns to literal argv prefixes', () => {
+    const result = toCodexPermissions({
+      exec: { commands: ['git', 'npm'], patterns: ['npm run *', 'git status'] },
+      deny: { exec: ['rm -rf *', 'sudo *'] },
+    })
+
+    expect(result.exec).toEqual({
+      value: ['git', 'npm', 'npm run', 'git status'],
+      enforcement: 'best_effort',
+      note: 'Allow prefix rules; widened to their literal prefix: npm run *',
+    })
+    expect(result.deny?.exec).toEqual({
+      value: ['rm -rf', 'sudo'],
+      enforcement: 'best_effort',
+      note: 'widened to their literal prefix: rm -rf *, sudo *',
+    })
+  })
+
+  it('keeps exact exec denials enforced and reports pure wildcards as lint_only', () => {
+    expect(toCodexPermissions({ deny: { exec: ['git push', 'sudo'] } }).deny?.exec).toEqual({
+      value: ['git push', 'sudo'],
+      enforcement: 'enforced',
+    })
+
+    const partial = toCodexPermissions({ deny: { exec: ['sudo', '*'] } })
+    expect(partial.deny?.exec).toEqual({
+      value: ['sudo'],
+      enforcement: 'best_effort',
+      note: 'not translated: *',
+    })
+
+    const wildcardOnly = toCodexPermissions({ exec: { patterns: ['*'] }, deny: { exec: ['*'] } })
+    expect(wildcardOnly.exec?.enforcement).toBe('lint_only')
+    expect(wildcardOnly.deny?.exec).toMatchObject({ value: ['*'], enforcement: 'lint_only' })
+    expect(buildCodexExecRules([wildcardOnly])).toEqual([])
+  })
+
+  it('marks read and non-exec denials lint_only', () => {
+    const result = toCodexPermissions({
+      read: { paths: ['.'] },
+      network: { hosts: ['api.example.com'] },
+      deny: { read: ['.env'], write: ['package-lock.json'], network: ['evil.com'] },
+    })
+
+    expect(result.read?.enforcement).toBe('lint_only')
+    expect(result.network?.enforcement).toBe('best_effort')
+    expect(result.deny?.read?.enforcement).toBe('lint_only')
+    expect(result.deny?.write?.enforcement).toBe('lint_only')
+    expect(result.deny?.network?.enforcement).toBe('lint_only')
+  })
+})
+
+describe('toCodexConfigPermissions / buildCodexExecRules', () => {
+  it('unions writable roots and network access across spaces', () => {
+    const config = toCodexConfigPermissions([
+      toCodexPermissions({ write: { paths: ['./src'] } }),
+      toCodexPermissions({ write: { paths: ['./src', './docs'] }, network: { hosts: ['x.io'] } }),
+    ])
+
+    expect(config).toEqual({
+      sandbox_mode: 'workspace-write',
+      approval_policy: 'on-request',
+      sandbox_workspace_write: { writable_roots: ['./src', './docs'], network_access: true },
+    })
+  })
+
+  it('lists forbidden rules before allow rules and renders Starlark', () => {
+    const rules = buildCodexExecRules([
+      toCodexPermissions({ exec: { patterns: ['npm run *'] } }),
+      toCodexPermissions({ exec: { commands: ['npm'] }, deny: { exec: ['npm publish'] } }),
+    ])
+
+    expect(rules).toEqual([
+      { pattern: ['npm', 'publish'], decision: 'forbidden' },
+      { pattern: ['npm', 'run'], decision: 'allow' },
+      { pattern: ['npm'], decision: 'allow' },
+    ])
+    expect(renderCodexExecRules(rules)).toContain(
+      'prefix_rule(pattern = ["npm","publish"], decision = "forbidden")'
+    )
+  })
+})
+
 describe('buildPiToolsList', () => {
   it('returns default tools', () => {
     const result = buildPiToolsList({})
@@ -436,6 +535,25 @@ describe('explainPermissions', () => {
     expect(lines.some((l) => l.includes('BEST_EFFORT'))).toBe(true)
   })
 
+  it('generates explanation for Codex permissions', () => {
+    const permissions: CanonicalPermissions = {
+      write: { paths: ['./src/**'] },
+      deny: { exec: ['sudo *'] },
+    }
+
+    const lines = explainPermissions(permissions, 'codex')
+
+    expect(lines).toContain(
+      '  - write: [./src] → [BEST_EFFORT] (Writable roots; globs widen to their directory)'
+    )
+    expect(lines).toContain(
+      '  - deny.exec: [sudo] → [BEST_EFFORT] (widened to their literal prefix: sudo *)'
+    )
+    expect(explainPermissions({ deny: { exec: ['sudo'] } }, 'codex')).toEqual([
+      '  - deny.exec: [sudo] → [ENFORCED]',
+    ])
+  })
+
   it('truncates long value lists', () => {
     const permissions: CanonicalPermissions = {
       read: { paths: ['path1', 'path2', 'path3', 'path4', 'path5'] },
@@ -459,6 +577,13 @@ describe('enforcement constants', () => {
     expect(CLAUDE_ENFORCEMENT['deny.network']).toBe('lint_only')
   })
 
+  it('Codex enforcement levels are correct', () => {
+    expect(CODEX_ENFORCEMENT['read']).toBe('lint_only')
+    expect(CODEX_ENFORCEMENT['write']).toBe('best_effort')
+    expect(CODEX_ENFORCEMENT['exec']).toBe('best_effort')
+    expect(CODEX_ENFORCEMENT['deny.exec']).toBe('enforced')
+  })
+
   it('Pi enforcement levels are correct', () => {
     expect(PI_ENFORCEMENT['read']).toBe('lint_only')
     expect(PI_ENFORCEMENT['write']).toBe('lint_only')
@@ -5,6 +5,7 @@
  * This module parses permissions.toml and translates it to harness-specific formats:
  * - Claude: translates to settings.json permissions (enforced for most facets)
  * - Pi: best-effort translation (mostly lint_only)
+ * - Codex: translates to config.toml sandbox settings plus execpolicy rules
  *
  * Enforcement Semantics:
  * - enforced: the harness can enforce it directly
@@ -139,6 +140,55 @@ export interface PiPermissions {
     | undefined
 }
 
+/**
+ * Translated Codex permissions with enforcement annotations.
+ */
+export interface CodexPermissions {
+  /** Read paths - lint_only (the Codex sandbox never restricts reads) */
+  read?: AnnotatedPermissionFacet<string[]> | undefined
+  /** Writable roots - best_effort via sandbox_workspace_write */
+  write?: AnnotatedPermissionFacet<string[]> | undefined
+  /** Exec command prefixes - best_effort via execpolicy allow rules */
+  exec?: AnnotatedPermissionFacet<string[]> | undefined
+  /** Network hosts - best_effort (network access is all-or-nothing) */
+  network?: AnnotatedPermissionFacet<string[]> | undefined
+  /** Deny rules - exec enforced via forbidden rules, the rest lint_only */
+  deny?:
+    | {
+        read?: AnnotatedPermissionFacet<string[]> | undefined
+        write?: AnnotatedPermissionFacet<string[]> | undefined
+        exec?: AnnotatedPermissionFacet<string[]> | undefined
+        network?: AnnotatedPermissionFacet<string[]> | undefined
+      }
+    | undefined
+}
+
+/**
+ * Codex config.toml keys derived from permissions.toml.
+ */
+export interface CodexConfigPermissions {
+  /** Sandbox that confines writes to the workspace plus writable roots */
+  sandbox_mode: 'workspace-write'
+  /** Ask before escalating anything the sandbox or rules do not allow */
+  approval_policy: 'on-request'
+  sandbox_workspace_write: {
+    /** Extra directories writable in addition to the workspace */
+    writable_roots: string[]
+    /** Whether sandboxed commands may reach the network */
+    network_access: boolean
+  }
+}
+
+/**
+ * A Codex execpolicy prefix rule (`prefix_rule(pattern=[...], decision=...)`).
+ */
+export interface CodexExecRule {
+  /** Leading argv tokens the rule matches */
+  pattern: string[]
+  /** `allow` runs without prompting; `forbidden` rejects the command */
+  decision: 'allow' | 'forbidden'
+}
+
 /**
  * Claude settings.json permissions format.
  */
@@ -206,6 +256,23 @@ export const PI_ENFORCEMENT: Record<PermissionFacetKey, EnforcementLevel> = {
   'deny.network': 'lint_only',
 }
 
+/**
+ * Enforcement classification for Codex.
+ */
+export const CODEX_ENFORCEMENT: Record<PermissionFacetKey, EnforcementLevel> = {
+  read: 'lint_only',
+  write: 'best_effort',
+  exec: 'best_effort',
+  network: 'best_effort',
+  'deny.read': 'lint_only',
+  'deny.write': 'lint_only',
+  'deny.exec': 'enforced',
+  'deny.network': 'lint_only',
+}
+
+/** Filename Codex loads execpolicy rules from, relative to CODEX_HOME. */
+export const CODEX_EXEC_RULES_PATH = 'rules/asp-permissions.rules'
+
 // ============================================================================
 // Parsing
 // ============================================================================
@@ -636,6 +703,276 @@ export function buildPiToolsList(_permissions: CanonicalPermissions): string[] {
   return [...DEFAULT_PI_TOOLS]
 }
 
+// ============================================================================
+// Translation: permissions.toml -> Codex config.toml + execpolicy rules
+// ============================================================================
+
+const GLOB_CHARS = /[*?[{]/
+
+/**
+ * Reduce a write path pattern to the directory Codex can mark writable.
+ *
+ * Codex writable roots are plain directories, so a glob is widened to the
+ * directory preceding its first wildcard segment. Patterns that reduce to the
+ * workspace itself (`.`, `./**`) yield null: the workspace is always writable
+ * under `workspace-write`.
+ */
+export function toCodexWritableRoot(path: string): string | null {
+  const segments = path.trim().replace(/\/+$/, '').split('/')
+  const firstGlob = segments.findIndex((segment) => GLOB_CHARS.test(segment))
+  const kept = firstGlob === -1 ? segments : segments.slice(0, firstGlob)
+  const root = kept.join('/')
+  if (root === '' && path.trim().startsWith('/')) return '/'
+  if (root === '' || root === '.' || root === './') return null
+  return root
+}
+
+/**
+ * Split a command or pattern into the literal argv prefix a Codex prefix rule
+ * can match. Tokens from the first wildcard onward are dropped, so
+ * `npm run *` becomes `["npm", "run"]`.
+ */
+export function toCodexCommandPrefix(command: string): string[] {
+  const tokens = command.trim().split(/\s+/).filter(Boolean)
+  const firstGlob = tokens.findIndex((token) => GLOB_CHARS.test(token))
+  return firstGlob === -1 ? tokens : tokens.slice(0, firstGlob)
+}
+
+/** How a list of exec entries survived reduction to Codex argv prefixes. */
+interface CodexPrefixTranslation {
+  /** Deduplicated literal prefixes to emit as rules */
+  prefixes: string[]
+  /** Entries whose wildcards were cut off, widening the rule to its prefix */
+  widened: string[]
+  /** Entries with no literal prefix at all (e.g. `*`); no rule is emitted */
+  dropped: string[]
+}
+
+function translateCodexPrefixes(commands: string[]): CodexPrefixTranslation {
+  const prefixes = new Set<string>()
+  const widened: string[] = []
+  const dropped: string[] = []
+  for (const command of commands) {
+    const tokens = command.trim().split(/\s+/).filter(Boolean)
+    const prefix = toCodexCommandPrefix(command)
+    if (prefix.length === 0) {
+      dropped.push(command)
+      continue
+    }
+    if (prefix.length < tokens.length) widened.push(command)
+    prefixes.add(prefix.join(' '))
+  }
+  return { prefixes: [...prefixes], widened, dropped }
+}
+
+/**
+ * Annotate translated exec entries. A facet keeps `level` only when every entry
+ * became an exact rule; widened entries downgrade it to best_effort, and a facet
+ * whose entries were all dropped is lint_only and lists the originals.
+ */
+function toCodexExecFacet(
+  translation: CodexPrefixTranslation,
+  level: EnforcementLevel,
+  note: string | undefined
+): AnnotatedPermissionFacet<string[]> | undefined {
+  const { prefixes, widened, dropped } = translation
+  if (prefixes.length === 0) {
+    if (dropped.length === 0) return undefined
+    return {
+      value: dropped,
+      enforcement: 'lint_only',
+      note: 'Pure wildcards have no literal prefix for a Codex rule',
+    }
+  }
+  const notes = [
+    ...(note !== undefined ? [note] : []),
+    ...(widened.length > 0 ? [`widened to their literal prefix: ${widened.join(', ')}`] : []),
+    ...(dropped.length > 0 ? [`not translated: ${dropped.join(', ')}`] : []),
+  ]
+  return {
+    value: prefixes,
+    enforcement: widened.length > 0 || dropped.length > 0 ? 'best_effort' : level,
+    ...(notes.length > 0 ? { note: notes.join('; ') } : {}),
+  }
+}
+
+/**
+ * Translate canonical permissions to Codex permissions with enforcement annotations.
+ *
+ * Write paths become writable roots and exec entries become argv prefixes; both
+ * lose precision (globs widen), hence best_effort. Exec denials map to
+ * `forbidden` prefix rules, which Codex enforces before running a command; a
+ * denial whose wildcard was widened or dropped is reported as best_effort or
+ * lint_only instead.
+ *
+ * @param permissions - Canonical permissions from permissions.toml
+ * @returns Codex permissions with enforcement levels
+ */
+export function toCodexPermissions(permissions: CanonicalPermissions): CodexPermissions {
+  const result: CodexPermissions = {}
+
+  // Read paths - lint_only
+  if (permissions.read?.paths?.length) {
+    result.read = {
+      value: normalizePaths(permissions.read.paths),
+      enforcement: CODEX_ENFORCEMENT['read'],
+      note: 'Codex sandbox does not restrict reads',
+    }
+  }
+
+  // Write paths - best_effort via writable roots
+  if (permissions.write?.paths?.length) {
+    const roots = normalizePaths(permissions.write.paths)
+      .map(toCodexWritableRoot)
+      .filter((root): root is string => root !== null)
+    result.write = {
+      value: [...new Set(roots)],
+      enforcement: CODEX_ENFORCEMENT['write'],
+      note: 'Writable roots; globs widen to their directory',
+    }
+  }
+
+  // Exec commands/patterns - best_effort via allow prefix rules
+  const exec = toCodexExecFacet(
+    translateCodexPrefixes([
+      ...(permissions.exec?.commands ?? []),
+      ...(permissions.exec?.patterns ?? []),
+    ]),
+    CODEX_ENFORCEMENT['exec'],
+    'Allow prefix rules'
+  )
+  if (exec) {
+    result.exec = exec
+  }
+
+  // Network hosts - best_effort
+  if (permissions.network?.hosts?.length) {
+    result.network = {
+      value: normalizePaths(permissions.network.hosts),
+      enforcement: CODEX_ENFORCEMENT['network'],
+      note: 'Enables sandbox network access for all hosts',
+    }
+  }
+
+  // Deny rules
+  if (permissions.deny) {
+    result.deny = {}
+
+    if (permissions.deny.read?.length) {
+      result.deny.read = {
+        value: normalizePaths(permissions.deny.read),
+        enforcement: CODEX_ENFORCEMENT['deny.read'],
+        note: 'Codex cannot enforce read denials',
+      }
+    }
+
+    if (permissions.deny.write?.length) {
+      result.deny.write = {
+        value: normalizePaths(permissions.deny.write),
+        enforcement: CODEX_ENFORCEMENT['deny.write'],
+        note: 'Codex cannot carve denials out of writable roots',
+      }
+    }
+
+    // Exec denials - enforced via forbidden prefix rules when translated exactly
+    const denyExec = toCodexExecFacet(
+      translateCodexPrefixes(permissions.deny.exec ?? []),
+      CODEX_ENFORCEMENT['deny.exec'],
+      undefined
+    )
+    if (denyExec) {
+      result.deny.exec = denyExec
+    }
+
+    if (permissions.deny.network?.length) {
+      result.deny.network = {
+        value: normalizePaths(permissions.deny.network),
+        enforcement: CODEX_ENFORCEMENT['deny.network'],
+        note: 'Codex network access is all-or-nothing; per-host denials are lint-only',
+      }
+    }
+  }
+
+  return result
+}
+
+/**
+ * Build the config.toml sandbox keys for the composed spaces.
+ *
+ * Writable roots are the union across spaces; network access is enabled when
+ * any space allows network hosts.
+ *
+ * @param codexPerms - Translated permissions, one entry per space
+ * @returns config.toml keys to merge before target-level overrides
+ */
+export function toCodexConfigPermissions(codexPerms: CodexPermissions[]): CodexConfigPermissions {
+  const writableRoots = new Set<string>()
+  let networkAccess = false
+
+  for (const perms of codexPerms) {
+    for (const root of perms.write?.value ?? []) {
+      writableRoots.add(root)
+    }
+    if (perms.network?.value.length) {
+      networkAccess = true
+    }
+  }
+
+  return {
+    sandbox_mode: 'workspace-write',
+    approval_policy: 'on-request',
+    sandbox_workspace_write: {
+      writable_roots: [...writableRoots],
+      network_access: networkAccess,
+    },
+  }
+}
+
+/**
+ * Build Codex execpolicy prefix rules for the composed spaces.
+ *
+ * Forbidden rules are listed first; Codex applies the strictest matching
+ * decision, so a denial always wins over an allow from another space.
+ *
+ * @param codexPerms - Translated permissions, one entry per space
+ * @returns Deduplicated prefix rules
+ */
+export function buildCodexExecRules(codexPerms: CodexPermissions[]): CodexExecRule[] {
+  const forbidden = new Set<string>()
+  const allowed = new Set<string>()
+  // A lint_only exec facet lists untranslatable originals, not rule prefixes.
+  const rulePrefixes = (facet: AnnotatedPermissionFacet<string[]> | undefined): string[] =>
+    facet === undefined || facet.enforcement === 'lint_only' ? [] : facet.value
+  for (const perms of codexPerms) {
+    for (const prefix of rulePrefixes(perms.deny?.exec)) forbidden.add(prefix)
+    for (const prefix of rulePrefixes(perms.exec)) allowed.add(prefix)
+  }
+
+  return [
+    ...[...forbidden].map((prefix) => ({
+      pattern: prefix.split(' '),
+      decision: 'forbidden' as const,
+    })),
+    ...[...allowed].map((prefix) => ({ pattern: prefix.split(' '), decision: 'allow' as const })),
+  ]
+}
+
+/**
+ * Render prefix rules in Codex's Starlark execpolicy syntax.
+ *
+ * @param rules - Prefix rules from {@link buildCodexExecRules}
+ * @returns Contents for {@link CODEX_EXEC_RULES_PATH}
+ */
+export function renderCodexExecRules(rules: CodexExecRule[]): string {
+  const lines = ['# Generated by agent-spaces from permissions.toml. Do not edit.']
+  for (const rule of rules) {
+    lines.push(
+      `prefix_rule(pattern = ${JSON.stringify(rule.pattern)}, decision = "${rule.decision}")`
+    )
+  }
+  return `${lines.join('\n')}\n`
+}
+
 // ============================================================================
 // Result types for explain output
 // ============================================================================
@@ -692,7 +1029,7 @@ export function hasPermissions(permissions: CanonicalPermissions | null): boolea
  * Generate a human-readable explanation of permissions for a harness.
  *
  * @param permissions - Canonical permissions
- * @param harnessId - Target harness (Claude- or Pi-compatible)
+ * @param harnessId - Target harness (Claude-, Pi- or Codex-compatible)
  * @returns Array of explanation strings
  */
 export function explainPermissions(
@@ -700,12 +1037,14 @@ export function explainPermissions(
   harnessId: HarnessId
 ): string[] {
   const lines: string[] = []
-  // ClaudePermissions and PiPermissions are structurally identical, so a single
+  // The per-harness permission shapes are structurally identical, so a single
   // ordered facet list drives the output regardless of harness family.
-  const translated: ClaudePermissions | PiPermissions =
+  const translated: ClaudePermissions | PiPermissions | CodexPermissions =
     harnessId === 'pi' || harnessId === 'pi-sdk'
       ? toPiPermissions(permissions)
-      : toClaudePermissions(permissions)
+      : harnessId === 'codex'
+        ? toCodexPermissions(permissions)
+        : toClaudePermissions(permissions)
 
   const facets: Array<[string, AnnotatedPermissionFacet<string[]> | undefined]> = [
     ['read', translated.read],
@@ -97,7 +97,8 @@ function formatComposedText(composed: ComposedContent, lines: string[]): void {
   if (mcpEntries.length > 0) {
     lines.push(`    MCP servers (${mcpEntries.length}):`)
     for (const [name, { space, config }] of mcpEntries) {
-      lines.push(`      ${name}: ${config.command} (from ${space})`)
+      const target = config.url !== undefined ? `${config.type} ${config.url}` : config.command
+      lines.push(`      ${name}: ${target} (from ${space})`)
     }
   }
 
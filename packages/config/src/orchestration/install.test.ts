@@ -8,7 +8,7 @@
 
 import { lstat, mkdir, mkdtemp, readFile, rm, stat, symlink, writeFile } from 'node:fs/promises'
 import { tmpdir } from 'node:os'
-import { basename, join } from 'node:path'
+import { basename, delimiter, join } from 'node:path'
 
 import { afterEach, describe, expect, test } from 'bun:test'
 
@@ -17,8 +17,11 @@ import { PathResolver } from '../store/index.js'
 import { materializeAgentLocalComponents } from './install.js'
 
 const tempDirs: string[] = []
+const ORIGINAL_PATH = process.env['PATH']
 
 afterEach(async () => {
+  Reflect.deleteProperty(process.env, 'ASP_CLI_PATH')
+  process.env['PATH'] = ORIGINAL_PATH
   await Promise.all(tempDirs.map((path) => rm(path, { recursive: true, force: true })))
   tempDirs.length = 0
 })
@@ -170,4 +173,57 @@ describe('materializeAgentLocalComponents (T-01067)', () => {
     expect(materializedSkillDirStats.isSymbolicLink()).toBe(false)
     expect(await readFile(join(materializedSkillDir, 'SKILL.md'), 'utf-8')).toBe('# linked skill\n')
   })
+
+  test('declares the agent-tools MCP server when tools have manifests', async () => {
+    const { paths } = await createPaths('install-agent-local-tools-')
+    const components = await createAgentLocalComponents({ name: 'tools' })
+    components.toolsDir = join(components.agentRoot, 'tools')
+    components.hasTools = true
+    await mkdir(join(components.toolsDir, 'bin'), { recursive: true })
+
+    // Executables without manifests stay PATH-only and add no plugin.
+    await writeFile(join(components.toolsDir, 'bin', 'lookup'), '#!/bin/sh\n')
+    await expect(materializeAgentLocalComponents(components, paths)).resolves.toBeUndefined()
+
+    await writeFile(join(components.toolsDir, 'lookup.toml'), 'description = "Look up"\n')
+    process.env['ASP_CLI_PATH'] = '/opt/asp/bin/asp'
+    const artifact = await materializeAgentLocalComponents(components, paths, {
+      ASP_PROJECT_ROOT: '/src/demo',
+      ASP_PROJECT_ID: 'demo_tools',
+    })
+
+    expect(
+      JSON.parse(await readFile(join(artifact!.artifactPath, 'mcp', 'mcp.json'), 'utf-8'))
+    ).toEqual({
+      mcpServers: {
+        'agent-tools': {
+          type: 'stdio',
+          command: '/opt/asp/bin/asp',
+          args: ['tools', 'serve', '--agent-root', components.agentRoot],
+          env: {
+            ASP_AGENT_ROOT: components.agentRoot,
+            ASP_PROJECT_ROOT: '/src/demo',
+            ASP_PROJECT_ID: 'demo_tools',
+          },
+        },
+      },
+    })
+  })
+
+  test('resolves the asp command for the agent-tools server from PATH', async () => {
+    const { paths } = await createPaths('install-agent-local-tools-path-')
+    const components = await createAgentLocalComponents({ name: 'tools-path' })
+    components.toolsDir = join(components.agentRoot, 'tools')
+    components.hasTools = true
+    await mkdir(join(components.toolsDir, 'bin'), { recursive: true })
+    await writeFile(join(components.toolsDir, 'lookup.toml'), 'description = "Look up"\n')
+    const binDir = await createTempDir('install-asp-bin-')
+    await writeFile(join(binDir, 'asp'), '#!/bin/sh\n', { mode: 0o755 })
+    process.env['PATH'] = `${binDir}${delimiter}${ORIGINAL_PATH ?? ''}`
+
+    const artifact = await materializeAgentLocalComponents(components, paths)
+    const mcp = JSON.parse(await readFile(join(artifact!.artifactPath, 'mcp', 'mcp.json'), 'utf-8'))
+
+    expect(mcp.mcpServers['agent-tools'].command).toBe(join(binDir, 'asp'))
+  })
 })
@@ -22,13 +22,14 @@ import {
   stat,
   writeFile,
 } from 'node:fs/promises'
-import { basename, join, relative } from 'node:path'
+import { basename, delimiter, join, relative } from 'node:path'
 
 import { createCanonicalHasher } from 'spaces-runtime-contracts'
 
 import { resolveNowIso } from '../core/compile-clock.js'
 
 import {
+  AGENT_TOOLS_MCP_SERVER_NAME,
   type AgentLocalComponents,
   type CodexOptions,
   type CommitSha,
@@ -56,13 +57,16 @@ import {
   getEffectiveCodexOptions,
   getLoadOrderEntries,
   isHarnessSupported,
+  readAgentToolManifests,
   readSpaceToml,
   withLock,
   withProjectLock,
 } from '../core/index.js'
 
+import { isExecutable } from '../materializer/hooks-builder.js'
 import { evaluateHygieneGate, forceComposeEnabled } from '../materializer/hygiene-gate.js'
 import { linkDirectory } from '../materializer/link-components.js'
+import { writeMcpConfig } from '../materializer/mcp-composer.js'
 import {
   classifySpaceEntry,
   mergeLockFiles,
@@ -154,6 +158,12 @@ export interface InstallOptions extends ResolveOptions {
    * When present, a synthetic plugin artifact is appended to the target bundle.
    */
   agentLocalComponents?: AgentLocalComponents | undefined
+  /**
+   * Env the built-in agent-tools MCP server is registered with: the launch's
+   * agent-local `ASP_AGENT_*` / `ASP_PROJECT_*` vars. Not every harness hands
+   * its own env to MCP servers, so the values are written into the server entry.
+   */
+  agentToolsEnv?: Record<string, string> | undefined
   /**
    * Semantic stable identity for agent/project placements. When present, this
    * drives the public codex-homes/<project>_<agent> scope path instead of cwd
@@ -737,7 +747,11 @@ export async function materializeTarget(
 
   // Phase 1b: Materialize agent-local components as a synthetic plugin (appended last)
   if (options.agentLocalComponents) {
-    const agentArtifact = await materializeAgentLocalComponents(options.agentLocalComponents, paths)
+    const agentArtifact = await materializeAgentLocalComponents(
+      options.agentLocalComponents,
+      paths,
+      options.agentToolsEnv
+    )
     if (agentArtifact) {
       artifacts.push(agentArtifact)
       settingsInputs.push({}) // no settings from agent components
@@ -884,12 +898,42 @@ export async function materializeTarget(
   }
 }
 
+/** Basenames the asp CLI runs under: the installed bin or `bin/asp.js`. */
+const ASP_CLI_ENTRY_NAMES = new Set(['asp', 'asp.js'])
+
+/**
+ * Resolve how a harness launches this asp CLI. `ASP_CLI_PATH` wins; when the
+ * asp CLI is itself materializing, its runtime and entry point are reused;
+ * otherwise `asp` is looked up on PATH now rather than by the harness. Bare
+ * `asp` is the last resort.
+ */
+async function resolveAspCliCommand(): Promise<{ command: string; args: string[] }> {
+  const explicit = process.env['ASP_CLI_PATH']
+  if (explicit) {
+    return { command: explicit, args: [] }
+  }
+  const entry = process.argv[1]
+  if (entry !== undefined && ASP_CLI_ENTRY_NAMES.has(basename(entry))) {
+    return { command: process.execPath, args: [entry] }
+  }
+  for (const dir of (process.env['PATH'] ?? '').split(delimiter)) {
+    if (dir && (await isExecutable(join(dir, 'asp')))) {
+      return { command: join(dir, 'asp'), args: [] }
+    }
+  }
+  return { command: 'asp', args: [] }
+}
+
 /**
  * Materialize agent-local skills and commands as a synthetic plugin artifact.
  *
  * Agent-local components (skills/ and commands/ directories at the agent root)
  * are copied into a temporary directory structured as a plugin, then returned
- * as a ResolvedSpaceArtifact to be appended to the artifacts array.
+ * as a ResolvedSpaceArtifact to be appended to the artifacts array. When the
+ * agent has `tools/<name>.toml` manifests, the plugin also declares the
+ * built-in agent-tools MCP server (`asp tools serve`) in mcp/mcp.json, so every
+ * harness composes it like any space-provided server. The entry names a
+ * resolved asp command and carries `agentToolsEnv` explicitly.
  *
  * Key properties:
  * - Uses forceCopy (not hardlinks) since agent files are mutable
@@ -898,13 +942,20 @@ export async function materializeTarget(
  *
  * @param components - Detected agent-local components
  * @param paths - Path resolver for ASP_HOME locations
+ * @param agentToolsEnv - Env for the agent-tools MCP server entry
  * @returns Artifact entry or undefined if no components exist
  */
 export async function materializeAgentLocalComponents(
   components: AgentLocalComponents | undefined,
-  paths: PathResolver
+  paths: PathResolver,
+  agentToolsEnv?: Record<string, string> | undefined
 ): Promise<ResolvedSpaceArtifact | undefined> {
-  if (!components || (!components.hasSkills && !components.hasCommands)) {
+  if (!components) {
+    return undefined
+  }
+  const hasToolManifests =
+    components.hasTools && (await readAgentToolManifests(components.toolsDir)).length > 0
+  if (!components.hasSkills && !components.hasCommands && !hasToolManifests) {
     return undefined
   }
 
@@ -952,6 +1003,23 @@ export async function materializeAgentLocalComponents(
     })
   }
 
+  if (hasToolManifests) {
+    const asp = await resolveAspCliCommand()
+    await writeMcpConfig(
+      {
+        mcpServers: {
+          [AGENT_TOOLS_MCP_SERVER_NAME]: {
+            type: 'stdio',
+            command: asp.command,
+            args: [...asp.args, 'tools', 'serve', '--agent-root', components.agentRoot],
+            env: { ASP_AGENT_ROOT: components.agentRoot, ...agentToolsEnv },
+          },
+        },
+      },
+      join(tmpDir, 'mcp', 'mcp.json')
+    )
+  }
+
   return {
     spaceKey: `${pluginName}@local` as SpaceKey,
     spaceId: pluginName,
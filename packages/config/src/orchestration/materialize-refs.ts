@@ -99,6 +99,8 @@ export interface MaterializeFromRefsOptions {
    * When present, a synthetic plugin artifact is appended to the target bundle.
    */
   agentLocalComponents?: AgentLocalComponents | undefined
+  /** Env for the agent-tools MCP server entry; see InstallOptions.agentToolsEnv. */
+  agentToolsEnv?: Record<string, string> | undefined
   /** Semantic stable identity for agent/project placement materialization. */
   materializationIdentity?: InstallOptions['materializationIdentity'] | undefined
   /** Pinned compile clock; when supplied it, not the host clock, stamps lock/metadata timestamps. */
@@ -227,6 +229,7 @@ export async function materializeFromRefs(
     inheritUser: options.inheritUser,
     ...(options.agentRoot ? { agentPath: options.agentRoot } : {}),
     ...(options.agentLocalComponents ? { agentLocalComponents: options.agentLocalComponents } : {}),
+    ...(options.agentToolsEnv ? { agentToolsEnv: options.agentToolsEnv } : {}),
     ...(options.materializationIdentity
       ? { materializationIdentity: options.materializationIdentity }
       : {}),
@@ -4,6 +4,14 @@ import { join } from 'node:path'
 import { parseAgentProfile } from '../core/config/agent-profile-toml.js'
 import type { AgentRuntimeProfile } from '../core/types/agent-profile.js'
 
+/**
+ * Reserved agent-root filenames, shared with the `asp agents init` scaffolder
+ * so a rename lands in one place.
+ */
+export const AGENT_ROOT_SOUL_FILE = 'SOUL.md'
+export const HEARTBEAT_FILE = 'HEARTBEAT.md'
+export const AGENT_PROFILE_FILE = 'agent-profile.toml'
+
 export interface ValidatedAgentRoot {
   valid: true
   soulMd: string
@@ -12,13 +20,13 @@ export interface ValidatedAgentRoot {
 }
 
 export function validateAgentRoot(agentRoot: string): ValidatedAgentRoot {
-  const soulPath = join(agentRoot, 'SOUL.md')
+  const soulPath = join(agentRoot, AGENT_ROOT_SOUL_FILE)
   if (!existsSync(soulPath)) {
-    throw new Error(`SOUL.md is required in agent root: ${agentRoot}`)
+    throw new Error(`${AGENT_ROOT_SOUL_FILE} is required in agent root: ${agentRoot}`)
   }
 
-  const heartbeatPath = join(agentRoot, 'HEARTBEAT.md')
-  const profilePath = join(agentRoot, 'agent-profile.toml')
+  const heartbeatPath = join(agentRoot, HEARTBEAT_FILE)
+  const profilePath = join(agentRoot, AGENT_PROFILE_FILE)
 
   return {
     valid: true,
@@ -9,7 +9,8 @@
  * 3. Determine base bundle spaces from RuntimeBundleRef
  * 4. Compute instruction audit metadata
  * 5. Compute space composition (M3 resolveSpaceComposition)
- * 6. Resolve effective cwd (section 9)
+ * 6. Resolve effective cwd (section 9), moving task scopes into their
+ *    per-task git worktree when enabled
  * 7. Build audit metadata (section 11)
  */
 
@@ -17,6 +18,7 @@ import { createHash } from 'node:crypto'
 import { existsSync, readFileSync } from 'node:fs'
 import { isAbsolute, join } from 'node:path'
 import { parse as parseToml } from '@iarna/toml'
+import { DEFAULT_PRIMARY_TASK_ID, parseScopeRef } from 'agent-scope'
 import {
   mergeAgentWithProjectTarget,
   parseAgentProfile,
@@ -32,6 +34,7 @@ import type {
   TargetDefinition,
 } from '../core/types/index.js'
 import type {
+  PlacementWorktree,
   ResolvedAgentPolicy,
   ResolvedInstruction,
   ResolvedPlacementContext,
@@ -41,6 +44,8 @@ import type {
   RunScaffoldPacket,
   RuntimePlacement,
 } from '../core/types/placement.js'
+import { PathResolver } from '../store/paths.js'
+import { provisionTaskWorktree } from '../store/task-worktrees.js'
 import { readAgentProfileSource } from './agent-profile-source.js'
 import { validateAgentRoot } from './agent-root.js'
 import { resolveRootRelativeRef } from './root-relative-refs.js'
@@ -107,7 +112,8 @@ export async function resolvePlacementContext(
   })
 
   // 5. Resolve effective cwd (section 9)
-  const cwd = resolveEffectiveCwd(placement)
+  const worktree = await resolveTaskWorktree(placement, agentProfile, materialization)
+  const cwd = worktree?.cwd ?? resolveEffectiveCwd(placement)
 
   // 6. Build audit metadata
   const resolvedSpaces: ResolvedSpace[] = composedSpaces.map((space) => ({
@@ -129,6 +135,7 @@ export async function resolvePlacementContext(
     },
     materialization,
     ...(agentPolicy !== undefined ? { agentPolicy } : {}),
+    ...(worktree !== undefined ? { diagnostics: { worktree } } : {}),
   }
 }
 
@@ -211,6 +218,53 @@ function resolveAgentPolicy(profile: AgentRuntimeProfile): ResolvedAgentPolicy |
   }
 }
 
+/**
+ * Provision the per-task git worktree a task scope launches in, when enabled
+ * by a `+worktree` directive or `[provisioning] worktree` (project target over
+ * agent profile). The default `primary` task keeps the project root, as does
+ * an explicit cwd. A read-only placement only reports the worktree.
+ */
+async function resolveTaskWorktree(
+  placement: RuntimePlacement,
+  profile: AgentRuntimeProfile,
+  materialization: ResolvedPlacementMaterialization
+): Promise<PlacementWorktree | undefined> {
+  const enabled =
+    placement.worktree ??
+    materialization.effectiveConfig?.worktree ??
+    profile.provisioning?.worktree ??
+    false
+  const scopeRef = placement.correlation?.sessionRef?.scopeRef
+  if (!enabled || scopeRef === undefined || placement.cwd) {
+    return undefined
+  }
+  const { taskId, projectId } = parseScopeRef(scopeRef)
+  if (taskId === undefined || taskId === DEFAULT_PRIMARY_TASK_ID) {
+    return undefined
+  }
+  const projectRoot =
+    placement.projectRoot ??
+    (placement.bundle.kind === 'agent-project' ? placement.bundle.projectRoot : undefined)
+  if (!projectRoot) {
+    throw new Error(`Cannot provision a worktree for task "${taskId}": no project root resolved`)
+  }
+
+  const worktree = await provisionTaskWorktree({
+    paths: new PathResolver(placement.aspHome !== undefined ? { aspHome: placement.aspHome } : {}),
+    projectRoot,
+    taskId,
+    projectId,
+    dryRun: placement.readOnly,
+  })
+  return {
+    taskId,
+    branch: worktree.branch,
+    path: worktree.path,
+    cwd: worktree.cwd,
+    created: worktree.created,
+  }
+}
+
 /**
  * Resolve effective cwd per section 9 rules.
  */
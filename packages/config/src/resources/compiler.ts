@@ -6,6 +6,7 @@ import { createCanonicalHasher } from 'spaces-runtime-contracts'
 import { parseAgentProfile } from '../core/config/agent-profile-toml.js'
 import { normalizeJobExecutionNodes } from '../core/config/job-execution-nodes.js'
 import { readAgentProfileSource } from '../resolver/agent-profile-source.js'
+import { canonicalizeTimezone, validateCronExpression } from './schedule.js'
 
 export type ResourcesPlanCompileOptions = {
   agentRoot: string
@@ -194,9 +195,16 @@ function compileSchedule(
   defaultExecutionNodes: string[] | undefined
 ): ResourceProjection {
   const source = file.parsed
-  if (source['timezone'] !== undefined) {
-    throw resourceError('UNSUPPORTED_TIMEZONE', `${file.relPath}: timezone is unsupported in v1`)
+  const cron = requiredNestedString(source, 'trigger', 'cron', file.relPath)
+  try {
+    validateCronExpression(cron)
+  } catch (error) {
+    throw resourceError(
+      'INVALID_CRON',
+      `${file.relPath}: ${error instanceof Error ? error.message : String(error)}`
+    )
   }
+  const timezone = readScheduleTimezone(source, file.relPath)
   const freshSessionFlow = readFreshSessionFlow(source, file.relPath)
 
   const target = readTarget(source)
@@ -220,7 +228,8 @@ function compileSchedule(
       kind: 'schedule',
     },
     schedule: {
-      cron: requiredNestedString(source, 'trigger', 'cron', file.relPath),
+      cron,
+      ...(timezone !== undefined ? { timezone } : {}),
       windowStart: optionalNestedString(source, 'trigger', 'windowStart'),
       windowEnd: optionalNestedString(source, 'trigger', 'windowEnd'),
       windowMinutes: optionalNestedNumber(source, 'trigger', 'windowMinutes'),
@@ -237,6 +246,30 @@ function compileSchedule(
   return resourceProjection(file, owner, name, 'scheduled-job', 'jobs', desiredJson)
 }
 
+/**
+ * Schedules without `timezone` keep their UTC projection unchanged, so only a
+ * declared zone (canonicalized, e.g. `america/chicago` -> `America/Chicago`)
+ * is recorded next to the cron expression.
+ */
+function readScheduleTimezone(source: ParsedToml, relPath: string): string | undefined {
+  const timezone = source['timezone']
+  if (timezone === undefined) return undefined
+  if (typeof timezone !== 'string' || timezone.trim() === '') {
+    throw resourceError(
+      'INVALID_TIMEZONE',
+      `${relPath}: timezone must be a non-empty IANA zone name`
+    )
+  }
+  try {
+    return canonicalizeTimezone(timezone.trim())
+  } catch (error) {
+    throw resourceError(
+      'INVALID_TIMEZONE',
+      `${relPath}: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
+
 function readFreshSessionFlow(
   source: ParsedToml,
   relPath: string
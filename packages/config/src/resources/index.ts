@@ -1 +1,2 @@
 export * from './compiler.js'
+export * from './schedule.js'
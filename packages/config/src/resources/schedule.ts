@@ -0,0 +1,323 @@
+/**
+ * Cron evaluation for scheduled-job resources in an IANA timezone.
+ *
+ * Cron fields are matched against wall-clock time in the schedule's zone, so
+ * `0 8 * * 1-5` in America/Chicago stays at 08:00 local across DST changes.
+ * Wall-clock times that DST makes ambiguous resolve deterministically:
+ *
+ * - gap (spring forward): a time that never occurs fires once at the first
+ *   valid instant after the gap, i.e. the moment of the transition. Several
+ *   skipped times collapse into that single fire.
+ * - overlap (fall back): a time that occurs twice fires once, at its first
+ *   occurrence.
+ */
+
+export const DEFAULT_SCHEDULE_TIMEZONE = 'UTC'
+
+export type ScheduleDefinition = {
+  cron: string
+  timezone?: string | undefined
+}
+
+export type ScheduleFireTime = {
+  /** The fire instant in UTC, e.g. `2026-03-09T13:00:00.000Z`. */
+  instant: string
+  /** The same instant as wall-clock time in the schedule's zone, with offset. */
+  local: string
+  /** Set when the cron's wall-clock time fell in a DST gap or overlap. */
+  dst?: 'gap' | 'overlap' | undefined
+}
+
+export type NextFireTimesOptions = {
+  /** Fire times strictly after this instant are returned. */
+  from: Date
+  count: number
+}
+
+type CronFields = {
+  minutes: number[]
+  hours: number[]
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+  /** Vixie cron: when both day fields are restricted, either may match. */
+  dayOfMonthRestricted: boolean
+  dayOfWeekRestricted: boolean
+}
+
+type FieldSpec = {
+  name: string
+  min: number
+  max: number
+  names?: readonly string[] | undefined
+}
+
+const MINUTE_MS = 60_000
+const DAY_MS = 24 * 60 * MINUTE_MS
+/** Long enough for a Feb 29 schedule to find its next leap year. */
+const SEARCH_HORIZON_DAYS = 8 * 366
+
+const MONTH_NAMES = [
+  'JAN',
+  'FEB',
+  'MAR',
+  'APR',
+  'MAY',
+  'JUN',
+  'JUL',
+  'AUG',
+  'SEP',
+  'OCT',
+  'NOV',
+  'DEC',
+] as const
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] as const
+
+const FIELD_SPECS: readonly FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day-of-month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  // 7 is accepted as a second spelling of Sunday and folded onto 0.
+  { name: 'day-of-week', min: 0, max: 7, names: DAY_NAMES },
+]
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+/**
+ * Validate an IANA timezone name and return its canonical spelling
+ * (`america/chicago` -> `America/Chicago`). Throws for unknown zones.
+ */
+export function canonicalizeTimezone(timezone: string): string {
+  try {
+    return new Intl.DateTimeFormat('en-US', { timeZone: timezone }).resolvedOptions().timeZone
+  } catch {
+    throw new Error(`unknown IANA timezone "${timezone}"`)
+  }
+}
+
+/**
+ * Validate a five-field cron expression (minute hour day-of-month month
+ * day-of-week). Supports `*`, lists, ranges, steps and month/day names.
+ */
+export function validateCronExpression(expression: string): void {
+  parseCron(expression)
+}
+
+/**
+ * Compute the next `count` fire times of a schedule strictly after `from`.
+ * The result depends only on the arguments, so previews are reproducible.
+ */
+export function nextScheduleFireTimes(
+  schedule: ScheduleDefinition,
+  options: NextFireTimesOptions
+): ScheduleFireTime[] {
+  const fields = parseCron(schedule.cron)
+  const timezone = canonicalizeTimezone(schedule.timezone ?? DEFAULT_SCHEDULE_TIMEZONE)
+  const fromMs = options.from.getTime()
+  const fireTimes: ScheduleFireTime[] = []
+  if (options.count <= 0) {
+    return fireTimes
+  }
+
+  let lastMs = fromMs
+  const startDay = Math.floor(toWallMs(fromMs, timezone) / DAY_MS) * DAY_MS
+  for (let day = 0; day < SEARCH_HORIZON_DAYS; day += 1) {
+    const dayMs = startDay + day * DAY_MS
+    if (!matchesDay(fields, new Date(dayMs))) {
+      continue
+    }
+    for (const hour of fields.hours) {
+      for (const minute of fields.minutes) {
+        const resolved = resolveWallTime(dayMs + (hour * 60 + minute) * MINUTE_MS, timezone)
+        if (resolved.instantMs <= lastMs) {
+          continue
+        }
+        lastMs = resolved.instantMs
+        fireTimes.push({
+          instant: new Date(resolved.instantMs).toISOString(),
+          local: formatLocal(resolved.instantMs, timezone),
+          ...(resolved.dst !== undefined ? { dst: resolved.dst } : {}),
+        })
+        if (fireTimes.length === options.count) {
+          return fireTimes
+        }
+      }
+    }
+  }
+  return fireTimes
+}
+
+function parseCron(expression: string): CronFields {
+  const parts = expression.trim().split(/\s+/)
+  if (parts.length !== FIELD_SPECS.length) {
+    throw new Error(
+      `cron "${expression}" must have 5 fields (minute hour day-of-month month day-of-week), got ${parts.length}`
+    )
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = FIELD_SPECS.map((spec, index) =>
+    parseCronField(parts[index] ?? '', spec, expression)
+  ) as [number[], number[], number[], number[], number[]]
+  return {
+    minutes,
+    hours,
+    daysOfMonth: new Set(daysOfMonth),
+    months: new Set(months),
+    daysOfWeek: new Set(daysOfWeek.map((value) => value % 7)),
+    dayOfMonthRestricted: !(parts[2] ?? '').startsWith('*'),
+    dayOfWeekRestricted: !(parts[4] ?? '').startsWith('*'),
+  }
+}
+
+function parseCronField(field: string, spec: FieldSpec, expression: string): number[] {
+  const values = new Set<number>()
+  for (const item of field.split(',')) {
+    const match = /^(\*|[A-Za-z0-9]+(?:-[A-Za-z0-9]+)?)(?:\/(\d+))?$/.exec(item)
+    if (!match) {
+      throw new Error(`cron "${expression}": invalid ${spec.name} field "${field}"`)
+    }
+    const step = match[2] === undefined ? 1 : Number(match[2])
+    if (step < 1) {
+      throw new Error(`cron "${expression}": ${spec.name} step must be at least 1`)
+    }
+    const range = match[1] ?? '*'
+    let start = spec.min
+    let end = spec.max
+    if (range !== '*') {
+      const [low, high] = range.split('-')
+      start = parseCronValue(low ?? '', spec, expression)
+      // `5/15` means "from 5 to the end of the range in steps of 15".
+      end =
+        high !== undefined
+          ? parseCronValue(high, spec, expression)
+          : match[2] !== undefined
+            ? spec.max
+            : start
+      if (start > end) {
+        throw new Error(`cron "${expression}": ${spec.name} range ${range} is reversed`)
+      }
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+  return [...values].sort((a, b) => a - b)
+}
+
+function parseCronValue(token: string, spec: FieldSpec, expression: string): number {
+  const named = spec.names?.indexOf(token.toUpperCase()) ?? -1
+  if (named < 0 && !/^\d+$/.test(token)) {
+    throw new Error(`cron "${expression}": invalid ${spec.name} value "${token}"`)
+  }
+  const value = named >= 0 ? named + spec.min : Number(token)
+  if (value < spec.min || value > spec.max) {
+    throw new Error(
+      `cron "${expression}": ${spec.name} value ${token} is outside ${spec.min}-${spec.max}`
+    )
+  }
+  return value
+}
+
+function matchesDay(fields: CronFields, day: Date): boolean {
+  if (!fields.months.has(day.getUTCMonth() + 1)) {
+    return false
+  }
+  const dayOfMonth = fields.daysOfMonth.has(day.getUTCDate())
+  const dayOfWeek = fields.daysOfWeek.has(day.getUTCDay())
+  if (fields.dayOfMonthRestricted && fields.dayOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek
+  }
+  return dayOfMonth && dayOfWeek
+}
+
+/**
+ * Map a wall-clock time (encoded as if it were UTC) to the instant it names
+ * in `timezone`, applying the gap and overlap rules from the module comment.
+ */
+function resolveWallTime(
+  wallMs: number,
+  timezone: string
+): { instantMs: number; dst?: 'gap' | 'overlap' | undefined } {
+  // Offsets a day either side bracket any single transition near wallMs.
+  const offsets = [
+    ...new Set([offsetAt(wallMs - DAY_MS, timezone), offsetAt(wallMs + DAY_MS, timezone)]),
+  ]
+  const valid = offsets
+    .map((offset) => wallMs - offset)
+    .filter((instantMs) => offsetAt(instantMs, timezone) === wallMs - instantMs)
+    .sort((a, b) => a - b)
+  if (valid.length === 1) {
+    return { instantMs: valid[0] as number }
+  }
+  if (valid.length > 1) {
+    return { instantMs: valid[0] as number, dst: 'overlap' }
+  }
+
+  // In a gap the instant under the new offset lands before the transition and
+  // the one under the old offset after it; search minutes for the transition.
+  const candidates = offsets.map((offset) => wallMs - offset).sort((a, b) => a - b)
+  let low = candidates[0] as number
+  let high = candidates[candidates.length - 1] as number
+  const afterOffset = offsetAt(high, timezone)
+  while (high - low > MINUTE_MS) {
+    const middle = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS
+    if (offsetAt(middle, timezone) === afterOffset) {
+      high = middle
+    } else {
+      low = middle
+    }
+  }
+  return { instantMs: high, dst: 'gap' }
+}
+
+/** Wall-clock time of `instantMs` in `timezone`, encoded as a UTC timestamp. */
+function toWallMs(instantMs: number, timezone: string): number {
+  return instantMs + offsetAt(instantMs, timezone)
+}
+
+/** UTC offset of `timezone` at `instantMs`, in milliseconds (local - UTC). */
+function offsetAt(instantMs: number, timezone: string): number {
+  const parts: Record<string, number> = {}
+  for (const part of formatterFor(timezone).formatToParts(new Date(instantMs))) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value)
+    }
+  }
+  const wallMs = Date.UTC(
+    parts['year'] ?? 1970,
+    (parts['month'] ?? 1) - 1,
+    parts['day'] ?? 1,
+    parts['hour'] ?? 0,
+    parts['minute'] ?? 0,
+    parts['second'] ?? 0
+  )
+  return wallMs - Math.floor(instantMs / 1000) * 1000
+}
+
+function formatLocal(instantMs: number, timezone: string): string {
+  const offset = offsetAt(instantMs, timezone)
+  const wall = new Date(instantMs + offset).toISOString().slice(0, 19)
+  const sign = offset < 0 ? '-' : '+'
+  const minutes = Math.abs(offset) / MINUTE_MS
+  const hh = String(Math.floor(minutes / 60)).padStart(2, '0')
+  const mm = String(minutes % 60).padStart(2, '0')
+  return `${wall}${sign}${hh}:${mm}`
+}
+
+function formatterFor(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone)
+  if (formatter === undefined) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    })
+    formatters.set(timezone, formatter)
+  }
+  return formatter
+}
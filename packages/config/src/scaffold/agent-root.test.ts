@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { existsSync, readFileSync, readdirSync } from 'node:fs'
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { parseSpaceToml } from '../core/config/space-toml.js'
+import { ConfigValidationError } from '../core/errors.js'
+import type { SpaceId, SpaceKey } from '../core/index.js'
+import { checkSkillMdFrontmatter } from '../lint/rules/E208-skill-md-frontmatter.js'
+import { validateAgentRoot } from '../resolver/agent-root.js'
+import {
+  checkAgentRootScaffold,
+  planAgentRootScaffold,
+  writeAgentRootScaffold,
+} from './agent-root.js'
+
+describe('agent root scaffold', () => {
+  let agentsRoot: string
+
+  beforeEach(async () => {
+    agentsRoot = await mkdtemp(join(tmpdir(), 'asp-agent-scaffold-'))
+  })
+
+  afterEach(async () => {
+    await rm(agentsRoot, { recursive: true, force: true })
+  })
+
+  test('emits only the contract-required files by default and round-trips validation', () => {
+    const agentRoot = join(agentsRoot, 'mable')
+    const plan = planAgentRootScaffold('mable')
+
+    expect(plan.map((entry) => entry.path)).toEqual(['SOUL.md', 'agent-profile.toml', 'spaces'])
+    const validated = writeAgentRootScaffold(agentRoot, plan)
+
+    expect(validated.soulMd).toContain('# mable')
+    expect(validated.heartbeatMd).toBeUndefined()
+    expect(validated.profile).toEqual({
+      version: 3,
+      priming: 'TODO: one-line priming prompt for mable.',
+      identity: { display: 'mable' },
+      instructions: { base: ['agent-root:///SOUL.md'], modes: undefined },
+      provisioning: { harness: 'claude' },
+    })
+    expect(readdirSync(join(agentRoot, 'spaces'))).toEqual([])
+    expect(existsSync(join(agentRoot, 'brain'))).toBe(false)
+    expect(validateAgentRoot(agentRoot).valid).toBe(true)
+  })
+
+  test('opt-in build-out wires heartbeat, skills and a parseable starter space', async () => {
+    const agentRoot = join(agentsRoot, 'clod')
+    const validated = writeAgentRootScaffold(
+      agentRoot,
+      planAgentRootScaffold('clod', {
+        harness: 'codex',
+        soulTemplate: '# Custom soul\n',
+        withHeartbeat: true,
+        withSkills: true,
+        withStarterSpace: true,
+      })
+    )
+
+    expect(validated.soulMd).toBe('# Custom soul\n')
+    expect(validated.heartbeatMd).toContain('# Heartbeat Mode')
+    expect(validated.profile?.instructions?.modes).toEqual({
+      heartbeat: ['agent-root:///HEARTBEAT.md'],
+    })
+    expect(validated.profile?.spaces?.base).toEqual(['space:agent:clod-ops'])
+    expect(validated.profile?.provisioning).toEqual({ harness: 'codex' })
+    expect(existsSync(join(agentRoot, 'skills', 'example', 'SKILL.md'))).toBe(true)
+
+    // The example skill carries the frontmatter E208 requires.
+    const skillWarnings = await checkSkillMdFrontmatter({
+      spaces: [
+        {
+          key: 'clod@local' as SpaceKey,
+          manifest: { schema: 1, id: 'clod' as SpaceId },
+          pluginPath: agentRoot,
+        },
+      ],
+    })
+    expect(skillWarnings).toEqual([])
+    expect(readFileSync(join(agentRoot, 'skills', 'example', 'SKILL.md'), 'utf8')).toStartWith(
+      '---\nname: example\n'
+    )
+
+    const manifestPath = join(agentRoot, 'spaces', 'clod-ops', 'space.toml')
+    expect(parseSpaceToml(readFileSync(manifestPath, 'utf8'), manifestPath)).toMatchObject({
+      id: 'clod-ops',
+      harness: { supports: ['codex'] },
+    })
+  })
+
+  test('refuses to overwrite an existing agent root', async () => {
+    const agentRoot = join(agentsRoot, 'taken')
+    await mkdir(agentRoot)
+    await writeFile(join(agentRoot, 'SOUL.md'), 'original\n')
+
+    expect(() => writeAgentRootScaffold(agentRoot, planAgentRootScaffold('taken'))).toThrow(
+      /already exists/
+    )
+    expect(readFileSync(join(agentRoot, 'SOUL.md'), 'utf8')).toBe('original\n')
+  })
+
+  test('deletes the partial scaffold when validation fails', () => {
+    const agentRoot = join(agentsRoot, 'broken')
+
+    expect(() =>
+      writeAgentRootScaffold(agentRoot, planAgentRootScaffold('broken', { harness: 'nope' }))
+    ).toThrow(ConfigValidationError)
+    expect(readdirSync(agentsRoot)).toEqual([])
+  })
+
+  test('checks a plan without creating the agent root or touching the agents root', async () => {
+    const validated = checkAgentRootScaffold(
+      join(agentsRoot, 'mable'),
+      planAgentRootScaffold('mable', { withHeartbeat: true })
+    )
+    expect(validated.heartbeatMd).toContain('# Heartbeat Mode')
+    expect(readdirSync(agentsRoot)).toEqual([])
+
+    expect(() =>
+      checkAgentRootScaffold(
+        join(agentsRoot, 'broken'),
+        planAgentRootScaffold('broken', { harness: 'nope' })
+      )
+    ).toThrow(ConfigValidationError)
+    expect(readdirSync(agentsRoot)).toEqual([])
+
+    await mkdir(join(agentsRoot, 'taken'))
+    expect(() =>
+      checkAgentRootScaffold(join(agentsRoot, 'taken'), planAgentRootScaffold('taken'))
+    ).toThrow(/already exists/)
+  })
+})
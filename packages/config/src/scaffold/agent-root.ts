@@ -0,0 +1,263 @@
+/**
+ * Agent-root scaffolder for `asp agents init`.
+ *
+ * WHY: the v2 agent-root contract is enforced by `validateAgentRoot`, but until
+ * now nothing emitted a conforming root. The scaffold is validated by that same
+ * gate (plus the agent-profile and space-manifest parsers) before it is moved
+ * into place, so a template can never drift into something runtime rejects.
+ */
+
+import {
+  cpSync,
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs'
+import { tmpdir } from 'node:os'
+import { basename, dirname, join } from 'node:path'
+
+import { parseSpaceToml } from '../core/config/space-toml.js'
+import {
+  AGENT_PROFILE_FILE,
+  AGENT_ROOT_SOUL_FILE,
+  HEARTBEAT_FILE,
+  type ValidatedAgentRoot,
+  validateAgentRoot,
+} from '../resolver/agent-root.js'
+
+export interface AgentRootScaffoldOptions {
+  /** Harness seeded into `[provisioning] harness` (default `claude`). */
+  harness?: string | undefined
+  /** Replaces the built-in SOUL.md template. */
+  soulTemplate?: string | undefined
+  withHeartbeat?: boolean | undefined
+  withSkills?: boolean | undefined
+  withStarterSpace?: boolean | undefined
+}
+
+/** One entry of the scaffold plan, relative to the agent root. */
+export interface AgentRootScaffoldEntry {
+  path: string
+  kind: 'directory' | 'file'
+  content?: string | undefined
+}
+
+function tomlString(value: string): string {
+  return JSON.stringify(value)
+}
+
+function starterSpaceId(agentId: string): string {
+  return `${agentId}-ops`
+}
+
+function generateSoul(agentId: string): string {
+  return `# ${agentId}
+
+## Identity
+
+TODO: who ${agentId} is, in one or two sentences.
+
+## Mission
+
+TODO: what ${agentId} is responsible for and what done looks like.
+
+## Operating Notes
+
+TODO: conventions, boundaries, and escalation paths ${agentId} should follow.
+`
+}
+
+function generateProfile(agentId: string, options: AgentRootScaffoldOptions): string {
+  const lines = [
+    'version = 3',
+    '',
+    `priming = ${tomlString(`TODO: one-line priming prompt for ${agentId}.`)}`,
+    '',
+    '[identity]',
+    `display = ${tomlString(agentId)}`,
+    '',
+    '[instructions]',
+    `base = [${tomlString(`agent-root:///${AGENT_ROOT_SOUL_FILE}`)}]`,
+  ]
+  if (options.withHeartbeat) {
+    lines.push(
+      '',
+      '[instructions.modes]',
+      `heartbeat = [${tomlString(`agent-root:///${HEARTBEAT_FILE}`)}]`
+    )
+  }
+  if (options.withStarterSpace) {
+    lines.push('', '[spaces]', `base = [${tomlString(`space:agent:${starterSpaceId(agentId)}`)}]`)
+  }
+  lines.push('', '[provisioning]', `harness = ${tomlString(options.harness ?? 'claude')}`, '')
+  return lines.join('\n')
+}
+
+function generateHeartbeat(agentId: string): string {
+  return `# Heartbeat Mode
+
+TODO: what ${agentId} checks on each heartbeat, and when it should stay quiet.
+`
+}
+
+function generateExampleSkill(agentId: string): string {
+  // E208 requires `name` and `description` frontmatter on every SKILL.md.
+  return `---
+name: example
+description: Example skill for ${agentId}; replace it with a real capability.
+---
+
+# Example Skill
+
+An example skill for ${agentId}. Replace it with a real capability.
+
+## Capabilities
+
+- Describe what this skill does
+`
+}
+
+function generateStarterSpaceToml(agentId: string, harness: string): string {
+  const id = starterSpaceId(agentId)
+  return [
+    'schema = 1',
+    `id = ${tomlString(id)}`,
+    `description = ${tomlString(`Agent-local operations space for ${agentId}`)}`,
+    '',
+    '[harness]',
+    `supports = [${tomlString(harness)}]`,
+    '',
+  ].join('\n')
+}
+
+/**
+ * Build the file plan for a new agent root. Contract-required entries (SOUL.md,
+ * agent-profile.toml, spaces/) are always present; the rest are opt-in. Never
+ * emits `brain/` — it is decommissioned and the profile parser rejects it.
+ */
+export function planAgentRootScaffold(
+  agentId: string,
+  options: AgentRootScaffoldOptions = {}
+): AgentRootScaffoldEntry[] {
+  const plan: AgentRootScaffoldEntry[] = [
+    {
+      path: AGENT_ROOT_SOUL_FILE,
+      kind: 'file',
+      content: options.soulTemplate ?? generateSoul(agentId),
+    },
+    { path: AGENT_PROFILE_FILE, kind: 'file', content: generateProfile(agentId, options) },
+    { path: 'spaces', kind: 'directory' },
+  ]
+  if (options.withHeartbeat) {
+    plan.push({ path: HEARTBEAT_FILE, kind: 'file', content: generateHeartbeat(agentId) })
+  }
+  if (options.withSkills) {
+    plan.push({
+      path: 'skills/example/SKILL.md',
+      kind: 'file',
+      content: generateExampleSkill(agentId),
+    })
+  }
+  if (options.withStarterSpace) {
+    plan.push({
+      path: `spaces/${starterSpaceId(agentId)}/space.toml`,
+      kind: 'file',
+      content: generateStarterSpaceToml(agentId, options.harness ?? 'claude'),
+    })
+  }
+  return plan
+}
+
+/**
+ * Write the plan into a fresh temp directory outside every agents root and
+ * validate it there, so a half-written or invalid scaffold is never visible to
+ * agent discovery. The staging directory is always removed afterwards; `place`
+ * may move it into its final location first.
+ */
+function withStagedScaffold<T>(
+  plan: readonly AgentRootScaffoldEntry[],
+  place: (staging: string, validated: ValidatedAgentRoot) => T
+): T {
+  const staging = mkdtempSync(join(tmpdir(), 'asp-agent-scaffold-'))
+  try {
+    for (const entry of plan) {
+      const target = join(staging, entry.path)
+      if (entry.kind === 'directory') {
+        mkdirSync(target, { recursive: true })
+        continue
+      }
+      mkdirSync(dirname(target), { recursive: true })
+      writeFileSync(target, entry.content ?? '')
+    }
+
+    const validated = validateAgentRoot(staging)
+    for (const entry of plan) {
+      if (entry.kind === 'file' && basename(entry.path) === 'space.toml') {
+        const manifestPath = join(staging, entry.path)
+        parseSpaceToml(readFileSync(manifestPath, 'utf8'), manifestPath)
+      }
+    }
+    return place(staging, validated)
+  } finally {
+    rmSync(staging, { recursive: true, force: true })
+  }
+}
+
+function assertAgentRootFree(agentRoot: string): void {
+  if (existsSync(agentRoot)) {
+    throw new Error(`Agent root already exists: ${agentRoot}`)
+  }
+}
+
+/**
+ * Move a validated staging directory to `agentRoot`. The temp dir usually sits
+ * on another filesystem, where rename fails with EXDEV; copy it over instead and
+ * remove a partial copy if that fails.
+ */
+function placeStagedScaffold(staging: string, agentRoot: string): void {
+  mkdirSync(dirname(agentRoot), { recursive: true })
+  try {
+    renameSync(staging, agentRoot)
+    return
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error
+  }
+  try {
+    cpSync(staging, agentRoot, { recursive: true, errorOnExist: true, force: false })
+  } catch (error) {
+    rmSync(agentRoot, { recursive: true, force: true })
+    throw error
+  }
+}
+
+/**
+ * Run every check `writeAgentRootScaffold` runs — the target is free and the
+ * staged plan validates — without creating the agent root. Backs `--dry-run`.
+ */
+export function checkAgentRootScaffold(
+  agentRoot: string,
+  plan: readonly AgentRootScaffoldEntry[]
+): ValidatedAgentRoot {
+  assertAgentRootFree(agentRoot)
+  return withStagedScaffold(plan, (_staging, validated) => validated)
+}
+
+/**
+ * Write a scaffold plan to `agentRoot`. The plan is staged and validated in a
+ * temp directory, then moved into place, so a failure leaves nothing behind and
+ * an existing agent root is never touched.
+ */
+export function writeAgentRootScaffold(
+  agentRoot: string,
+  plan: readonly AgentRootScaffoldEntry[]
+): ValidatedAgentRoot {
+  assertAgentRootFree(agentRoot)
+  return withStagedScaffold(plan, (staging, validated) => {
+    placeStagedScaffold(staging, agentRoot)
+    return validated
+  })
+}
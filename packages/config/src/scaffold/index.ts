@@ -0,0 +1,7 @@
+export {
+  checkAgentRootScaffold,
+  planAgentRootScaffold,
+  writeAgentRootScaffold,
+  type AgentRootScaffoldEntry,
+  type AgentRootScaffoldOptions,
+} from './agent-root.js'
@@ -51,6 +51,20 @@ export {
   type ResolveAgentPlacementPathsOptions,
   type RuntimeBundleRefOptions,
 } from './runtime-placement.js'
+export {
+  getProjectWorktreesPath,
+  getTaskWorktreeBranch,
+  getTaskWorktreePath,
+  listTaskWorktrees,
+  provisionTaskWorktree,
+  pruneTaskWorktrees,
+  TASK_WORKTREE_BRANCH_PREFIX,
+  type ProvisionedTaskWorktree,
+  type ProvisionTaskWorktreeOptions,
+  type PruneTaskWorktreesOptions,
+  type PruneTaskWorktreesResult,
+  type TaskWorktree,
+} from './task-worktrees.js'
 
 // Snapshot operations
 export {
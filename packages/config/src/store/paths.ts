@@ -41,12 +41,20 @@ export function getAspHome(): string {
  * │   └── <cacheKey>/    # Keyed by pluginCacheKey
  * │       ├── .claude-plugin/
  * │       └── ...
+ * ├── context-cache/     # Cached context template exec/service-probe output
+ * │   └── <sha256>.json
+ * ├── resource-runs.sqlite  # `asp resources run` cursors and run history
+ * ├── resource-projections.sqlite  # Applied resource projections (`asp resources apply`)
  * ├── codex-homes/       # Project+agent scope homes and composed bundles
  * │   └── <projectSlug>_<agentSlug>/
  * │       ├── sessions/  # Codex runtime state
  * │       └── bundles/
  * │           └── <target>/<harness>/
  * ├── sources/           # ASP-owned node-local immutable-source mirrors
+ * ├── worktrees/         # Per-task git worktrees (`[provisioning] worktree = true`)
+ * │   └── <projectSlug>-<hash>/
+ * │       ├── <taskSlug>/       # Checkout on branch asp/task/<taskId>
+ * │       └── <taskSlug>.json   # Record read by `asp gc --closed-task`
  * └── tmp/               # Temporary files during operations
  */
 
@@ -217,6 +225,26 @@ export class PathResolver {
     return join(this.aspHome, 'cache')
   }
 
+  /** Cached output of `cache`-enabled context template sections. */
+  get contextCache(): string {
+    return join(this.aspHome, 'context-cache')
+  }
+
+  /** Local scheduler state for `asp resources run`. */
+  get resourceRuns(): string {
+    return join(this.aspHome, 'resource-runs.sqlite')
+  }
+
+  /** Local stand-in for ACP's projection tables, written by `asp resources apply`. */
+  get resourceProjections(): string {
+    return join(this.aspHome, 'resource-projections.sqlite')
+  }
+
+  /** Per-task git worktrees for task scopes that provision one. */
+  get worktrees(): string {
+    return join(this.aspHome, 'worktrees')
+  }
+
   get projects(): string {
     return join(this.aspHome, 'projects')
   }
@@ -0,0 +1,182 @@
+import { existsSync } from 'node:fs'
+import { mkdir, mkdtemp, realpath, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { afterEach, describe, expect, test } from 'bun:test'
+
+import { add, commit, getCurrentBranch, gitExec, initRepo } from '../git/index.js'
+import { PathResolver } from './paths.js'
+import {
+  TASK_WORKTREE_BRANCH_PREFIX,
+  getProjectWorktreesPath,
+  getTaskWorktreeBranch,
+  getTaskWorktreePath,
+  listTaskWorktrees,
+  provisionTaskWorktree,
+  pruneTaskWorktrees,
+} from './task-worktrees.js'
+
+const tempDirs: string[] = []
+
+afterEach(async () => {
+  await Promise.all(tempDirs.splice(0).map((dir) => rm(dir, { recursive: true, force: true })))
+})
+
+async function setup(): Promise<{ repoRoot: string; paths: PathResolver }> {
+  const tmp = await realpath(await mkdtemp(join(tmpdir(), 'task-worktrees-')))
+  tempDirs.push(tmp)
+  const repoRoot = join(tmp, 'demo')
+  await mkdir(join(repoRoot, 'app'), { recursive: true })
+  await initRepo(repoRoot, { initialBranch: 'main' })
+  await gitExec(['config', 'user.email', 'task-worktrees@example.test'], { cwd: repoRoot })
+  await gitExec(['config', 'user.name', 'Task Worktrees Test'], { cwd: repoRoot })
+  await writeFile(join(repoRoot, 'app', 'README.md'), '# demo\n')
+  await add(['app/README.md'], { cwd: repoRoot })
+  await commit('fixture', { cwd: repoRoot })
+  return { repoRoot, paths: new PathResolver({ aspHome: join(tmp, 'asp-home') }) }
+}
+
+describe('task worktree paths', () => {
+  test('key worktrees by project hash and sanitized task id', () => {
+    const paths = new PathResolver({ aspHome: '/asp' })
+
+    expect(paths.worktrees).toBe('/asp/worktrees')
+    expect(getProjectWorktreesPath(paths, '/src/demo')).toMatch(
+      /^\/asp\/worktrees\/demo-[a-f0-9]{8}$/
+    )
+    expect(getTaskWorktreePath(paths, '/src/demo', 'T-1')).toBe(
+      join(getProjectWorktreesPath(paths, '/src/demo'), 't-1')
+    )
+    expect(getTaskWorktreeBranch('T-1')).toBe(`${TASK_WORKTREE_BRANCH_PREFIX}T-1`)
+  })
+
+  test('reject task ids that git cannot use in a branch name, as check-ref-format does', async () => {
+    for (const taskId of ['T-1', 'fix.2', 'a_b-c', 'v1.0']) {
+      const checked = await gitExec(
+        ['check-ref-format', '--branch', getTaskWorktreeBranch(taskId)],
+        {
+          ignoreExitCode: true,
+        }
+      )
+      expect({ taskId, exitCode: checked.exitCode }).toEqual({ taskId, exitCode: 0 })
+    }
+    for (const taskId of ['a..b', 'x.lock', '.hidden', 'trailing.', '']) {
+      const checked = await gitExec(
+        ['check-ref-format', '--branch', `${TASK_WORKTREE_BRANCH_PREFIX}${taskId}`],
+        { ignoreExitCode: true }
+      )
+      expect({ taskId, exitCode: checked.exitCode }).not.toEqual({ taskId, exitCode: 0 })
+      expect(() => getTaskWorktreeBranch(taskId)).toThrow(
+        `Cannot provision a worktree for task "${taskId}"`
+      )
+    }
+  })
+})
+
+describe('provisionTaskWorktree', () => {
+  test('creates a worktree per task and reuses it on the next launch', async () => {
+    const { repoRoot, paths } = await setup()
+
+    const first = await provisionTaskWorktree({ paths, projectRoot: repoRoot, taskId: 'T-1' })
+    expect(first).toMatchObject({
+      taskId: 'T-1',
+      projectRoot: repoRoot,
+      repoRoot,
+      branch: 'asp/task/T-1',
+      path: getTaskWorktreePath(paths, repoRoot, 'T-1'),
+      created: true,
+    })
+    expect(first.cwd).toBe(first.path)
+    expect(await getCurrentBranch({ cwd: first.path })).toBe('asp/task/T-1')
+    expect(existsSync(join(first.path, 'app', 'README.md'))).toBe(true)
+
+    const second = await provisionTaskWorktree({ paths, projectRoot: repoRoot, taskId: 'T-1' })
+    expect(second).toEqual({ ...first, created: false })
+
+    const other = await provisionTaskWorktree({ paths, projectRoot: repoRoot, taskId: 'T-2' })
+    expect(other.path).not.toBe(first.path)
+    expect((await listTaskWorktrees(paths)).map((record) => record.taskId)).toEqual(['T-1', 'T-2'])
+  })
+
+  test('launches a nested project root at its position inside the worktree', async () => {
+    const { repoRoot, paths } = await setup()
+
+    const worktree = await provisionTaskWorktree({
+      paths,
+      projectRoot: join(repoRoot, 'app'),
+      taskId: 'T-3',
+      projectId: 'demo-app',
+    })
+    expect(worktree.repoRoot).toBe(repoRoot)
+    expect(worktree.projectId).toBe('demo-app')
+    expect(worktree.cwd).toBe(join(worktree.path, 'app'))
+  })
+
+  test('rejects a task id that is not a valid branch name before touching git', async () => {
+    const { repoRoot, paths } = await setup()
+
+    await expect(
+      provisionTaskWorktree({ paths, projectRoot: repoRoot, taskId: 'a..b' })
+    ).rejects.toThrow('asp/task/a..b is not a valid git branch name')
+    expect(await listTaskWorktrees(paths)).toEqual([])
+  })
+
+  test('rejects project roots outside a git repository', async () => {
+    const { paths } = await setup()
+    const plain = await realpath(await mkdtemp(join(tmpdir(), 'task-worktrees-plain-')))
+    tempDirs.push(plain)
+
+    await expect(
+      provisionTaskWorktree({ paths, projectRoot: plain, taskId: 'T-1' })
+    ).rejects.toThrow(`${plain} is not inside a git repository`)
+  })
+})
+
+describe('pruneTaskWorktrees', () => {
+  test('removes clean worktrees of closed tasks and keeps their branches', async () => {
+    const { repoRoot, paths } = await setup()
+    const closed = await provisionTaskWorktree({ paths, projectRoot: repoRoot, taskId: 'T-1' })
+    const dirty = await provisionTaskWorktree({ paths, projectRoot: repoRoot, taskId: 'T-2' })
+    const open = await provisionTaskWorktree({ paths, projectRoot: repoRoot, taskId: 'T-3' })
+    await writeFile(join(dirty.path, 'wip.txt'), 'unsaved\n')
+
+    const dryRun = await pruneTaskWorktrees({ paths, taskIds: ['T-1', 'T-2'], dryRun: true })
+    expect(dryRun.removed.map((record) => record.taskId)).toEqual(['T-1'])
+    expect(existsSync(closed.path)).toBe(true)
+
+    const result = await pruneTaskWorktrees({
+      paths,
+      taskIds: ['T-1', 'T-2'],
+      projectRoot: repoRoot,
+    })
+    expect(result.removed.map((record) => record.taskId)).toEqual(['T-1'])
+    expect(result.skippedDirty.map((record) => record.taskId)).toEqual(['T-2'])
+    expect(existsSync(closed.path)).toBe(false)
+    expect(existsSync(open.path)).toBe(true)
+    expect((await listTaskWorktrees(paths, repoRoot)).map((record) => record.taskId)).toEqual([
+      'T-2',
+      'T-3',
+    ])
+    const branch = await gitExec(['rev-parse', '--verify', 'refs/heads/asp/task/T-1'], {
+      cwd: repoRoot,
+      ignoreExitCode: true,
+    })
+    expect(branch.exitCode).toBe(0)
+
+    // A reopened task checks its kept branch out again.
+    const reopened = await provisionTaskWorktree({ paths, projectRoot: repoRoot, taskId: 'T-1' })
+    expect(reopened.created).toBe(true)
+    expect(await getCurrentBranch({ cwd: reopened.path })).toBe('asp/task/T-1')
+  })
+
+  test('drops records whose worktree was deleted by hand', async () => {
+    const { repoRoot, paths } = await setup()
+    const worktree = await provisionTaskWorktree({ paths, projectRoot: repoRoot, taskId: 'T-1' })
+    await rm(worktree.path, { recursive: true, force: true })
+
+    const result = await pruneTaskWorktrees({ paths, taskIds: ['T-1'] })
+    expect(result.removed.map((record) => record.taskId)).toEqual(['T-1'])
+    expect(await listTaskWorktrees(paths)).toEqual([])
+  })
+})
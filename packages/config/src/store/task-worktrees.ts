@@ -0,0 +1,283 @@
+/**
+ * Per-task git worktrees under ASP_HOME.
+ *
+ * WHY: task scopes (`alice@demo:T-1/reviewer`) share a project, and launching
+ * every one of them in the project root lets two task agents trample each
+ * other's working tree. With `worktree = true` in `[provisioning]` (or a
+ * `+worktree` directive) each task gets its own checkout on an
+ * `asp/task/<taskId>` branch, reused across launches and removed by
+ * `asp gc --closed-task <taskId>` once the task is closed.
+ *
+ * Layout:
+ *   <aspHome>/worktrees/<projectSlug>-<hash>/<taskSlug>/       # the worktree
+ *   <aspHome>/worktrees/<projectSlug>-<hash>/<taskSlug>.json  # its record
+ */
+
+import { existsSync } from 'node:fs'
+import { readFile, readdir, rm, writeFile } from 'node:fs/promises'
+import { basename, dirname, join, relative, resolve } from 'node:path'
+
+import { withLock } from '../core/index.js'
+import { getRepoRoot, getStatus, gitExec, isGitRepo } from '../git/index.js'
+import {
+  type PathResolver,
+  ensureDir,
+  getLegacyProjectStorageId,
+  sanitizeProjectAgentScopeSegment,
+} from './paths.js'
+
+/** Branch prefix for task worktrees; the task id follows it verbatim. */
+export const TASK_WORKTREE_BRANCH_PREFIX = 'asp/task/'
+
+/**
+ * Record written beside each task worktree. It is the source of truth for
+ * `asp gc`, which must find a task's worktree without re-deriving the project.
+ */
+export interface TaskWorktree {
+  taskId: string
+  /** Project root the task scope was placed in */
+  projectRoot: string
+  /** Root of the git repository containing `projectRoot` */
+  repoRoot: string
+  projectId?: string | undefined
+  branch: string
+  /** Worktree checkout root */
+  path: string
+  /** Launch cwd: `projectRoot`'s position inside the worktree */
+  cwd: string
+  /** ISO timestamp of when the worktree was first created */
+  createdAt: string
+}
+
+export interface ProvisionedTaskWorktree extends TaskWorktree {
+  /** False when an existing worktree was reused; on a dry run, whether it would be created */
+  created: boolean
+}
+
+export interface ProvisionTaskWorktreeOptions {
+  paths: PathResolver
+  projectRoot: string
+  taskId: string
+  projectId?: string | undefined
+  /** Report the worktree a launch would use without creating it or its record */
+  dryRun?: boolean | undefined
+}
+
+export interface PruneTaskWorktreesOptions {
+  paths: PathResolver
+  /** Closed task ids whose worktrees should be removed */
+  taskIds: readonly string[]
+  /** Restrict removal to worktrees of this project root */
+  projectRoot?: string | undefined
+  /** Report what would be removed without removing anything */
+  dryRun?: boolean | undefined
+}
+
+export interface PruneTaskWorktreesResult {
+  /** Worktrees removed (or, on a dry run, that would be removed) */
+  removed: TaskWorktree[]
+  /** Worktrees left in place because they have uncommitted changes */
+  skippedDirty: TaskWorktree[]
+}
+
+/**
+ * The branch a task worktree checks out. Throws when the task id cannot be
+ * part of a git ref name: the scope grammar admits ids such as `a..b`,
+ * `x.lock` or `.hidden` that `git worktree add -b` would reject at launch.
+ */
+export function getTaskWorktreeBranch(taskId: string): string {
+  const branch = `${TASK_WORKTREE_BRANCH_PREFIX}${taskId}`
+  const problem = describeInvalidBranchTaskId(taskId)
+  if (problem !== undefined) {
+    throw new Error(
+      `Cannot provision a worktree for task "${taskId}": ${problem}, so ${branch} is not a valid git branch name`
+    )
+  }
+  return branch
+}
+
+/** The `git check-ref-format` rules a task id can break, or undefined when it passes. */
+function describeInvalidBranchTaskId(taskId: string): string | undefined {
+  if (taskId.length === 0) return 'the task id is empty'
+  const forbidden = [...taskId].find((char) => {
+    const code = char.charCodeAt(0)
+    return code <= 0x20 || code === 0x7f || '~^:?*[\\'.includes(char)
+  })
+  if (forbidden !== undefined) return `it contains ${JSON.stringify(forbidden)}`
+  if (taskId.includes('..')) return 'it contains ".."'
+  if (taskId.includes('@{')) return 'it contains "@{"'
+  for (const component of taskId.split('/')) {
+    if (component.length === 0) return 'it contains an empty path component'
+    if (component.startsWith('.')) return 'a component starts with "."'
+    if (component.endsWith('.lock')) return 'a component ends with ".lock"'
+  }
+  if (taskId.endsWith('.')) return 'it ends with "."'
+  return undefined
+}
+
+/** The directory holding a project's task worktrees and their records. */
+export function getProjectWorktreesPath(paths: PathResolver, projectRoot: string): string {
+  // Slug plus path hash: two checkouts of the same repo name must not share worktrees.
+  return join(paths.worktrees, getLegacyProjectStorageId(projectRoot))
+}
+
+/** The worktree checkout path for one task of a project. */
+export function getTaskWorktreePath(
+  paths: PathResolver,
+  projectRoot: string,
+  taskId: string
+): string {
+  return join(getProjectWorktreesPath(paths, projectRoot), sanitizeProjectAgentScopeSegment(taskId))
+}
+
+/**
+ * Create the task's worktree, or reuse it when it already exists. A missing
+ * branch is created from the project's current HEAD; an existing branch (a
+ * worktree removed by gc, then the task reopened) is checked out as-is.
+ * Creation holds a per-task lock so concurrent launches of one task do not
+ * race on `git worktree add`.
+ */
+export async function provisionTaskWorktree(
+  options: ProvisionTaskWorktreeOptions
+): Promise<ProvisionedTaskWorktree> {
+  const branch = getTaskWorktreeBranch(options.taskId)
+  const projectRoot = resolve(options.projectRoot)
+  if (!(await isGitRepo(projectRoot))) {
+    throw new Error(
+      `Cannot provision a worktree for task "${options.taskId}": ${projectRoot} is not inside a git repository`
+    )
+  }
+  const repoRoot = await getRepoRoot(projectRoot)
+  const path = getTaskWorktreePath(options.paths, projectRoot, options.taskId)
+  const recordPath = `${path}.json`
+  const reuse = async (): Promise<ProvisionedTaskWorktree | undefined> => {
+    const existing = await readTaskWorktreeRecord(recordPath)
+    return existing && existsSync(join(path, '.git')) ? { ...existing, created: false } : undefined
+  }
+
+  const reused = await reuse()
+  if (reused) {
+    return reused
+  }
+
+  const record: TaskWorktree = {
+    taskId: options.taskId,
+    projectRoot,
+    repoRoot,
+    ...(options.projectId !== undefined ? { projectId: options.projectId } : {}),
+    branch,
+    path,
+    cwd: join(path, relative(repoRoot, projectRoot)),
+    createdAt: new Date().toISOString(),
+  }
+  if (options.dryRun) {
+    return { ...record, created: true }
+  }
+
+  return withLock(getTaskWorktreeLockPath(options.paths, path), async () => {
+    // Another launch of the same task may have created it while we waited.
+    const raced = await reuse()
+    if (raced) {
+      return raced
+    }
+
+    await ensureDir(getProjectWorktreesPath(options.paths, projectRoot))
+    // Drop registrations whose checkout was deleted by hand, or `worktree add` refuses the path.
+    await gitExec(['worktree', 'prune'], { cwd: repoRoot })
+    const branchExists =
+      (
+        await gitExec(['show-ref', '--verify', '--quiet', `refs/heads/${branch}`], {
+          cwd: repoRoot,
+          ignoreExitCode: true,
+        })
+      ).exitCode === 0
+    await gitExec(
+      branchExists ? ['worktree', 'add', path, branch] : ['worktree', 'add', '-b', branch, path],
+      { cwd: repoRoot }
+    )
+
+    const existing = await readTaskWorktreeRecord(recordPath)
+    const created: TaskWorktree = { ...record, createdAt: existing?.createdAt ?? record.createdAt }
+    await writeFile(recordPath, `${JSON.stringify(created, null, 2)}\n`)
+    return { ...created, created: true }
+  })
+}
+
+/**
+ * List recorded task worktrees, optionally for one project root, sorted by
+ * project then task.
+ */
+export async function listTaskWorktrees(
+  paths: PathResolver,
+  projectRoot?: string | undefined
+): Promise<TaskWorktree[]> {
+  const projectDirs =
+    projectRoot !== undefined
+      ? [getProjectWorktreesPath(paths, resolve(projectRoot))]
+      : (await readdir(paths.worktrees).catch(() => [])).map((name) => join(paths.worktrees, name))
+
+  const records: TaskWorktree[] = []
+  for (const dir of projectDirs) {
+    const entries = await readdir(dir).catch(() => [])
+    for (const entry of entries.filter((name) => name.endsWith('.json')).sort()) {
+      const record = await readTaskWorktreeRecord(join(dir, entry))
+      if (record) {
+        records.push(record)
+      }
+    }
+  }
+  return records.sort(
+    (a, b) => a.projectRoot.localeCompare(b.projectRoot) || a.taskId.localeCompare(b.taskId)
+  )
+}
+
+/**
+ * Remove the worktrees of closed tasks. Worktrees with uncommitted changes are
+ * skipped rather than discarded; task branches are always kept, so committed
+ * work survives and a reopened task picks up where it left off.
+ */
+export async function pruneTaskWorktrees(
+  options: PruneTaskWorktreesOptions
+): Promise<PruneTaskWorktreesResult> {
+  const closed = new Set(options.taskIds)
+  const result: PruneTaskWorktreesResult = { removed: [], skippedDirty: [] }
+
+  for (const record of await listTaskWorktrees(options.paths, options.projectRoot)) {
+    if (!closed.has(record.taskId)) {
+      continue
+    }
+
+    const checkedOut = existsSync(join(record.path, '.git'))
+    if (checkedOut && !(await getStatus({ cwd: record.path })).clean) {
+      result.skippedDirty.push(record)
+      continue
+    }
+
+    result.removed.push(record)
+    if (options.dryRun) {
+      continue
+    }
+    if (checkedOut) {
+      await gitExec(['worktree', 'remove', record.path], { cwd: record.repoRoot })
+    } else if (existsSync(record.repoRoot)) {
+      await gitExec(['worktree', 'prune'], { cwd: record.repoRoot })
+    }
+    await rm(`${record.path}.json`, { force: true })
+  }
+
+  return result
+}
+
+/** Lock file serialising creation of one task worktree; kept out of the worktrees dir gc scans. */
+function getTaskWorktreeLockPath(paths: PathResolver, worktreePath: string): string {
+  const projectDir = basename(dirname(worktreePath))
+  return join(paths.temp, 'locks', `worktree-${projectDir}-${basename(worktreePath)}.lock`)
+}
+
+async function readTaskWorktreeRecord(recordPath: string): Promise<TaskWorktree | undefined> {
+  try {
+    return JSON.parse(await readFile(recordPath, 'utf8')) as TaskWorktree
+  } catch {
+    return undefined
+  }
+}
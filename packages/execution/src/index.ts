@@ -68,12 +68,19 @@ export {
   isSpaceReference,
   detectAgentLocalComponents,
   prepareAgentToolRuntime,
+  prepareAgentToolsServerEnv,
   validateAgentTools,
+  AGENT_TOOLS_MCP_PROTOCOL_VERSION,
+  callAgentTool,
+  serveAgentToolsMcp,
   planPlacementRuntime,
   prepareCodexRuntimeHome,
   auditProjectModels,
+  type AgentToolCallContext,
+  type AgentToolCallResult,
   type AgentToolEnvResult,
   type AgentToolRuntimeContext,
+  type AgentToolsMcpServerOptions,
   type ModelAuditRow,
   type RunOptions,
   type RunResult,
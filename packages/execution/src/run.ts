@@ -44,12 +44,22 @@ export {
 } from './run-codex.js'
 
 import { detectAgentLocalComponents, resolveAgentRunDefaults } from './run/agent-profile.js'
+import { prepareAgentToolsServerEnv } from './run/agent-tools.js'
 export {
   prepareAgentToolRuntime,
+  prepareAgentToolsServerEnv,
   validateAgentTools,
   type AgentToolEnvResult,
   type AgentToolRuntimeContext,
 } from './run/agent-tools.js'
+export {
+  AGENT_TOOLS_MCP_PROTOCOL_VERSION,
+  callAgentTool,
+  serveAgentToolsMcp,
+  type AgentToolCallContext,
+  type AgentToolCallResult,
+  type AgentToolsMcpServerOptions,
+} from './run/agent-tools-mcp.js'
 export { auditProjectModels, type ModelAuditRow } from './run/model-audit.js'
 import { maybeCompileForRun } from './run/compiler-debug.js'
 import { executeHarnessRun } from './run/execute.js'
@@ -103,6 +113,7 @@ interface RunInstallArgs {
   harnessId: HarnessId
   adapter: HarnessAdapter
   agentLocalComponents: AgentLocalComponents | undefined
+  agentToolsEnv: Record<string, string> | undefined
   agentRoot: string | undefined
   materializationIdentity: MaterializationIdentity | undefined
   currentHarnessOutputPath: string
@@ -189,6 +200,7 @@ async function materializeComposedRunTarget(
       : {}),
     ...(args.options.inheritUser !== undefined ? { inheritUser: args.options.inheritUser } : {}),
     ...(args.agentLocalComponents ? { agentLocalComponents: args.agentLocalComponents } : {}),
+    ...(args.agentToolsEnv ? { agentToolsEnv: args.agentToolsEnv } : {}),
     ...(args.agentRoot ? { agentRoot: args.agentRoot } : {}),
     projectRoot: args.options.projectPath,
     ...(args.materializationIdentity !== undefined
@@ -220,6 +232,7 @@ async function installConfiguredRunTarget(args: RunInstallArgs): Promise<string>
     fetchRegistry: false,
     ...(args.agentRoot ? { agentPath: args.agentRoot } : {}),
     ...(args.agentLocalComponents ? { agentLocalComponents: args.agentLocalComponents } : {}),
+    ...(args.agentToolsEnv ? { agentToolsEnv: args.agentToolsEnv } : {}),
     ...(args.materializationIdentity !== undefined
       ? { materializationIdentity: args.materializationIdentity }
       : {}),
@@ -376,14 +389,17 @@ export async function run(targetName: string, options: RunOptions): Promise<RunR
   const composeChanged =
     effectiveCompose !== undefined &&
     !composeArraysMatch(effectiveCompose, existingLock?.targets[targetName]?.compose ?? [])
-  const hasMutableAgentPromptMaterial =
-    agentLocalComponents?.hasSkills === true || agentLocalComponents?.hasCommands === true
+  // Tools count too: the agent-tools MCP entry carries this launch's env.
+  const hasMutableAgentLocalMaterial =
+    agentLocalComponents?.hasSkills === true ||
+    agentLocalComponents?.hasCommands === true ||
+    agentLocalComponents?.hasTools === true
   const needsInstall =
     options.refresh ||
     !lockExists ||
     !(await pathExists(harnessOutputPath)) ||
     composeChanged ||
-    hasMutableAgentPromptMaterial
+    hasMutableAgentLocalMaterial
   const { agentId, projectId, taskId, effectivePrompt } = resolveRunIdentity({
     agentProfile,
     projectPath: options.projectPath,
@@ -413,6 +429,15 @@ export async function run(targetName: string, options: RunOptions): Promise<RunR
       harnessId,
       adapter,
       agentLocalComponents,
+      agentToolsEnv:
+        agentProfile && agentLocalComponents?.hasTools === true
+          ? await prepareAgentToolsServerEnv({
+              agentRoot: agentProfile.agentRoot,
+              projectRoot: options.projectPath,
+              projectId,
+              components: agentLocalComponents,
+            })
+          : undefined,
       agentRoot: agentProfile?.agentRoot,
       materializationIdentity,
       currentHarnessOutputPath: materializedHarnessOutputPath,
@@ -449,6 +474,7 @@ export async function run(targetName: string, options: RunOptions): Promise<RunR
       projectPath: options.projectPath,
       projectId,
       taskId,
+      harnessId,
     }).finally(async () => {
       await rm(launchOverlayDir, { recursive: true, force: true }).catch(() => {})
     })
@@ -0,0 +1,203 @@
+import { chmod, mkdir, mkdtemp, realpath, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { PassThrough } from 'node:stream'
+
+import { afterEach, describe, expect, test } from 'bun:test'
+import { parseAgentToolToml } from 'spaces-config'
+
+import {
+  AGENT_TOOLS_MCP_PROTOCOL_VERSION,
+  callAgentTool,
+  serveAgentToolsMcp,
+} from './agent-tools-mcp.js'
+
+let tempDirs: string[] = []
+
+afterEach(async () => {
+  await Promise.all(tempDirs.map((path) => rm(path, { recursive: true, force: true })))
+  tempDirs = []
+})
+
+async function createAgentRoot(): Promise<string> {
+  const path = await realpath(await mkdtemp(join(tmpdir(), 'agent-tools-mcp-')))
+  tempDirs.push(path)
+  await mkdir(join(path, 'tools', 'bin'), { recursive: true })
+  return path
+}
+
+async function writeTool(agentRoot: string, name: string, source: string, manifest?: string) {
+  const toolPath = join(agentRoot, 'tools', 'bin', name)
+  await writeFile(toolPath, source)
+  await chmod(toolPath, 0o755)
+  if (manifest !== undefined) {
+    await writeFile(join(agentRoot, 'tools', `${name}.toml`), manifest)
+  }
+}
+
+const ECHO_MANIFEST = `
+description = "Echo the request back as JSON"
+cwd = "agent"
+
+[input_schema]
+type = "object"
+required = ["message"]
+properties.message = { type = "string" }
+`
+
+/** Echoes stdin plus the working directory as one JSON object. */
+const ECHO_TOOL = `#!/bin/sh
+input=$(cat)
+printf '{"input":%s,"cwd":"%s","tool":"%s"}' "$input" "$PWD" "$ASP_TOOL_NAME"
+`
+
+async function exchange(
+  agentRoot: string,
+  requests: Array<Record<string, unknown>>
+): Promise<Array<Record<string, unknown>>> {
+  const input = new PassThrough()
+  const output = new PassThrough()
+  let written = ''
+  output.setEncoding('utf8').on('data', (chunk: string) => {
+    written += chunk
+  })
+  const served = serveAgentToolsMcp({ agentRoot, input, output, env: {} })
+  for (const request of requests) {
+    input.write(`${JSON.stringify({ jsonrpc: '2.0', ...request })}\n`)
+  }
+  input.end()
+  await served
+  const responses = written
+    .trim()
+    .split('\n')
+    .map((line) => JSON.parse(line) as Record<string, unknown>)
+  return responses.sort((a, b) => Number(a['id']) - Number(b['id']))
+}
+
+describe('serveAgentToolsMcp', () => {
+  test('lists only manifested tools and calls them with validated JSON input', async () => {
+    const agentRoot = await createAgentRoot()
+    await writeTool(agentRoot, 'echo-json', ECHO_TOOL, ECHO_MANIFEST)
+    await writeTool(agentRoot, 'path-only', '#!/bin/sh\necho hidden\n')
+
+    const responses = await exchange(agentRoot, [
+      { id: 1, method: 'initialize', params: { protocolVersion: '2025-03-26' } },
+      { method: 'notifications/initialized' },
+      { id: 2, method: 'tools/list' },
+      { id: 3, method: 'tools/call', params: { name: 'echo-json', arguments: { message: 'hi' } } },
+      { id: 4, method: 'tools/call', params: { name: 'path-only', arguments: {} } },
+      { id: 5, method: 'resources/list' },
+    ])
+
+    expect(responses).toEqual([
+      {
+        jsonrpc: '2.0',
+        id: 1,
+        result: {
+          protocolVersion: '2025-03-26',
+          capabilities: { tools: { listChanged: false } },
+          serverInfo: { name: 'asp-agent-tools', version: '1.0.0' },
+        },
+      },
+      {
+        jsonrpc: '2.0',
+        id: 2,
+        result: {
+          tools: [
+            {
+              name: 'echo-json',
+              description: 'Echo the request back as JSON',
+              inputSchema: {
+                type: 'object',
+                required: ['message'],
+                properties: { message: { type: 'string' } },
+              },
+            },
+          ],
+        },
+      },
+      {
+        jsonrpc: '2.0',
+        id: 3,
+        result: {
+          content: [
+            {
+              type: 'text',
+              text: `{"input":{"message":"hi"},"cwd":"${agentRoot}","tool":"echo-json"}`,
+            },
+          ],
+          structuredContent: { input: { message: 'hi' }, cwd: agentRoot, tool: 'echo-json' },
+          isError: false,
+        },
+      },
+      { jsonrpc: '2.0', id: 4, error: { code: -32602, message: 'Unknown tool: path-only' } },
+      {
+        jsonrpc: '2.0',
+        id: 5,
+        error: { code: -32601, message: 'Method not found: resources/list' },
+      },
+    ])
+  })
+
+  test('answers a missing or unsupported protocol version with its own', async () => {
+    const agentRoot = await createAgentRoot()
+    const responses = await exchange(agentRoot, [
+      { id: 1, method: 'initialize' },
+      { id: 2, method: 'initialize', params: { protocolVersion: '2099-01-01' } },
+    ])
+
+    expect(responses).toHaveLength(2)
+    for (const response of responses) {
+      expect(response['result']).toMatchObject({
+        protocolVersion: AGENT_TOOLS_MCP_PROTOCOL_VERSION,
+      })
+    }
+  })
+})
+
+describe('callAgentTool', () => {
+  test('returns schema violations as a tool error without running the tool', async () => {
+    const agentRoot = await createAgentRoot()
+    const manifest = parseAgentToolToml(ECHO_MANIFEST, 'echo-json')
+
+    expect(await callAgentTool(manifest, { message: 7 }, { agentRoot, env: {} })).toEqual({
+      content: [
+        {
+          type: 'text',
+          text: 'Invalid arguments for tool "echo-json":\n  /message must be string',
+        },
+      ],
+      isError: true,
+    })
+  })
+
+  test('returns plain-text output and non-zero exits', async () => {
+    const agentRoot = await createAgentRoot()
+    await writeTool(agentRoot, 'greet', '#!/bin/sh\necho "hello from $PWD"\n')
+    await writeTool(agentRoot, 'fail', '#!/bin/sh\necho "no such ticket" >&2\nexit 3\n')
+    const projectRoot = await createAgentRoot()
+    const context = { agentRoot, env: { PATH: process.env['PATH'], ASP_PROJECT_ROOT: projectRoot } }
+    const greet = parseAgentToolToml('description = "Greet"\n', 'greet')
+    const fail = parseAgentToolToml('description = "Fail"\n', 'fail')
+
+    expect(await callAgentTool(greet, {}, context)).toEqual({
+      content: [{ type: 'text', text: `hello from ${projectRoot}\n` }],
+      isError: false,
+    })
+    expect(await callAgentTool(fail, {}, context)).toEqual({
+      content: [{ type: 'text', text: 'Agent tool "fail" exited with code 3:\nno such ticket' }],
+      isError: true,
+    })
+  })
+
+  test('terminates tools that exceed their timeout', async () => {
+    const agentRoot = await createAgentRoot()
+    await writeTool(agentRoot, 'slow', '#!/bin/sh\nexec sleep 30\n')
+    const manifest = parseAgentToolToml('description = "Slow"\ntimeout_seconds = 1\n', 'slow')
+
+    expect(await callAgentTool(manifest, {}, { agentRoot, env: {} })).toEqual({
+      content: [{ type: 'text', text: 'Agent tool "slow" timed out after 1s' }],
+      isError: true,
+    })
+  }, 10_000)
+})
@@ -0,0 +1,274 @@
+/**
+ * Built-in stdio MCP server for manifested agent tools.
+ *
+ * WHY: tools on PATH are opaque to the model — it only sees a command name.
+ * A `tools/<name>.toml` manifest gives the tool a description and a JSON
+ * Schema, and this server offers it to every MCP-capable harness with argument
+ * validation, a timeout, and structured output. Arguments reach the tool as a
+ * JSON object on stdin; stdout that parses as a JSON object is returned as
+ * `structuredContent`.
+ */
+
+import { spawn } from 'node:child_process'
+import { existsSync } from 'node:fs'
+import { mkdir } from 'node:fs/promises'
+import { join } from 'node:path'
+import { createInterface } from 'node:readline'
+import type { Readable, Writable } from 'node:stream'
+
+import {
+  type AgentToolManifest,
+  readAgentToolManifests,
+  validateAgentToolInput,
+} from 'spaces-config'
+
+export const AGENT_TOOLS_MCP_PROTOCOL_VERSION = '2025-06-18'
+/** MCP revisions this server speaks; a client asking for any other gets the latest. */
+const SUPPORTED_PROTOCOL_VERSIONS: ReadonlySet<string> = new Set([
+  AGENT_TOOLS_MCP_PROTOCOL_VERSION,
+  '2025-03-26',
+  '2024-11-05',
+])
+
+const SERVER_INFO = { name: 'asp-agent-tools', version: '1.0.0' }
+/** Grace period between SIGTERM and SIGKILL for a timed-out tool. */
+const KILL_GRACE_MS = 2000
+
+const JSON_RPC_PARSE_ERROR = -32700
+const JSON_RPC_INVALID_REQUEST = -32600
+const JSON_RPC_METHOD_NOT_FOUND = -32601
+const JSON_RPC_INVALID_PARAMS = -32602
+
+export interface AgentToolCallContext {
+  agentRoot: string
+  /** Env the tool runs with; defaults to the server's own env. */
+  env?: Record<string, string | undefined> | undefined
+}
+
+export interface AgentToolCallResult {
+  content: Array<{ type: 'text'; text: string }>
+  structuredContent?: Record<string, unknown> | undefined
+  isError: boolean
+}
+
+export interface AgentToolsMcpServerOptions extends AgentToolCallContext {
+  input: Readable
+  output: Writable
+}
+
+type JsonRpcId = string | number | null
+
+interface JsonRpcResponse {
+  jsonrpc: '2.0'
+  id: JsonRpcId
+  result?: unknown
+  error?: { code: number; message: string }
+}
+
+/**
+ * Validate arguments and run one manifested tool from `<agentRoot>/tools/bin`.
+ * Invalid arguments, non-zero exits, and timeouts are tool errors
+ * (`isError: true`) the model can read, not protocol errors.
+ */
+export async function callAgentTool(
+  manifest: AgentToolManifest,
+  args: unknown,
+  context: AgentToolCallContext
+): Promise<AgentToolCallResult> {
+  const violations = validateAgentToolInput(manifest, args)
+  if (violations.length > 0) {
+    return toolError(
+      `Invalid arguments for tool "${manifest.name}":\n${violations.map((v) => `  ${v}`).join('\n')}`
+    )
+  }
+
+  const env = context.env ?? process.env
+  const cwd = await resolveToolCwd(manifest, context.agentRoot, env)
+  const executable = join(context.agentRoot, 'tools', 'bin', manifest.name)
+
+  return new Promise((resolve) => {
+    const child = spawn(executable, [], {
+      cwd,
+      env: { ...env, ASP_TOOL_NAME: manifest.name },
+      stdio: ['pipe', 'pipe', 'pipe'],
+    })
+    let stdout = ''
+    let stderr = ''
+    let timedOut = false
+    child.stdout.setEncoding('utf8').on('data', (chunk: string) => {
+      stdout += chunk
+    })
+    child.stderr.setEncoding('utf8').on('data', (chunk: string) => {
+      stderr += chunk
+    })
+
+    const timer = setTimeout(() => {
+      timedOut = true
+      child.kill('SIGTERM')
+      setTimeout(() => child.kill('SIGKILL'), KILL_GRACE_MS).unref()
+    }, manifest.timeoutSeconds * 1000)
+
+    child.on('error', (error) => {
+      clearTimeout(timer)
+      resolve(toolError(`Agent tool "${manifest.name}" failed to start: ${error.message}`))
+    })
+    child.on('close', (code) => {
+      clearTimeout(timer)
+      if (timedOut) {
+        resolve(
+          toolError(`Agent tool "${manifest.name}" timed out after ${manifest.timeoutSeconds}s`)
+        )
+      } else if (code !== 0) {
+        const detail = stderr.trim() || stdout.trim()
+        resolve(
+          toolError(
+            `Agent tool "${manifest.name}" exited with code ${code}${detail ? `:\n${detail}` : ''}`
+          )
+        )
+      } else {
+        resolve(toolResult(stdout))
+      }
+    })
+
+    // A tool that ignores stdin may exit before reading it; that is not an error.
+    child.stdin.on('error', () => {})
+    child.stdin.end(`${JSON.stringify(args)}\n`)
+  })
+}
+
+/**
+ * Serve `tools/list` and `tools/call` for the agent's manifested tools over
+ * newline-delimited JSON-RPC until `input` closes.
+ */
+export async function serveAgentToolsMcp(options: AgentToolsMcpServerOptions): Promise<void> {
+  const { agentRoot, input, output } = options
+  const manifests = (await readAgentToolManifests(join(agentRoot, 'tools'))).filter((manifest) =>
+    existsSync(join(agentRoot, 'tools', 'bin', manifest.name))
+  )
+  const byName = new Map(manifests.map((manifest) => [manifest.name, manifest]))
+  const send = (response: JsonRpcResponse) => {
+    output.write(`${JSON.stringify(response)}\n`)
+  }
+
+  const pending: Promise<void>[] = []
+  const lines = createInterface({ input, crlfDelay: Number.POSITIVE_INFINITY })
+  for await (const line of lines) {
+    if (line.trim() === '') {
+      continue
+    }
+    let message: unknown
+    try {
+      message = JSON.parse(line)
+    } catch {
+      send(rpcError(null, JSON_RPC_PARSE_ERROR, 'Parse error'))
+      continue
+    }
+    // Calls run concurrently so a slow tool does not block pings or listing.
+    pending.push(
+      handleMessage(message, byName, options).then((response) => {
+        if (response) send(response)
+      })
+    )
+  }
+  await Promise.all(pending)
+}
+
+async function handleMessage(
+  message: unknown,
+  byName: Map<string, AgentToolManifest>,
+  context: AgentToolCallContext
+): Promise<JsonRpcResponse | undefined> {
+  if (!isRecord(message) || typeof message['method'] !== 'string') {
+    const id = isRecord(message) ? toId(message['id']) : null
+    return rpcError(id, JSON_RPC_INVALID_REQUEST, 'Invalid request')
+  }
+  // Notifications (no id), e.g. `notifications/initialized`, get no response.
+  if (!('id' in message)) {
+    return undefined
+  }
+  const id = toId(message['id'])
+  const params = isRecord(message['params']) ? message['params'] : {}
+
+  switch (message['method']) {
+    case 'initialize':
+      return rpcResult(id, {
+        protocolVersion:
+          typeof params['protocolVersion'] === 'string' &&
+          SUPPORTED_PROTOCOL_VERSIONS.has(params['protocolVersion'])
+            ? params['protocolVersion']
+            : AGENT_TOOLS_MCP_PROTOCOL_VERSION,
+        capabilities: { tools: { listChanged: false } },
+        serverInfo: SERVER_INFO,
+      })
+    case 'ping':
+      return rpcResult(id, {})
+    case 'tools/list':
+      return rpcResult(id, {
+        tools: [...byName.values()].map((manifest) => ({
+          name: manifest.name,
+          description: manifest.description,
+          inputSchema: manifest.inputSchema,
+        })),
+      })
+    case 'tools/call': {
+      const manifest = typeof params['name'] === 'string' ? byName.get(params['name']) : undefined
+      if (!manifest) {
+        return rpcError(id, JSON_RPC_INVALID_PARAMS, `Unknown tool: ${String(params['name'])}`)
+      }
+      return rpcResult(id, await callAgentTool(manifest, params['arguments'] ?? {}, context))
+    }
+    default:
+      return rpcError(id, JSON_RPC_METHOD_NOT_FOUND, `Method not found: ${message['method']}`)
+  }
+}
+
+async function resolveToolCwd(
+  manifest: AgentToolManifest,
+  agentRoot: string,
+  env: Record<string, string | undefined>
+): Promise<string> {
+  switch (manifest.cwd) {
+    case 'agent':
+      return agentRoot
+    case 'state': {
+      const stateDir = env['ASP_AGENT_STATE_DIR'] ?? join(agentRoot, 'var', 'state')
+      await mkdir(stateDir, { recursive: true })
+      return stateDir
+    }
+    case 'project':
+      return env['ASP_PROJECT_ROOT'] ?? process.cwd()
+  }
+}
+
+function toolResult(stdout: string): AgentToolCallResult {
+  const result: AgentToolCallResult = { content: [{ type: 'text', text: stdout }], isError: false }
+  try {
+    const parsed: unknown = JSON.parse(stdout)
+    if (isRecord(parsed)) {
+      result.structuredContent = parsed
+    }
+  } catch {
+    // Plain-text output is returned as text only.
+  }
+  return result
+}
+
+function toolError(text: string): AgentToolCallResult {
+  return { content: [{ type: 'text', text }], isError: true }
+}
+
+function rpcResult(id: JsonRpcId, result: unknown): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, result }
+}
+
+function rpcError(id: JsonRpcId, code: number, message: string): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: { code, message } }
+}
+
+function toId(value: unknown): JsonRpcId {
+  return typeof value === 'string' || typeof value === 'number' ? value : null
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+}
@@ -9,7 +9,11 @@ import {
   sanitizeProjectAgentScopeSegment,
 } from 'spaces-config'
 
-import { prepareAgentToolRuntime, validateAgentTools } from './agent-tools.js'
+import {
+  prepareAgentToolRuntime,
+  prepareAgentToolsServerEnv,
+  validateAgentTools,
+} from './agent-tools.js'
 
 let tempDirs: string[] = []
 
@@ -200,6 +204,29 @@ describe('prepareAgentToolRuntime', () => {
   })
 })
 
+describe('prepareAgentToolsServerEnv', () => {
+  test('returns the launch tool env without PATH', async () => {
+    const agentRoot = await createTempDir('agent-tools-server-env-')
+    const projectRoot = await createTempDir('agent-tools-server-project-')
+    await writeTool(agentRoot, 'spark-tool')
+
+    const env = await prepareAgentToolsServerEnv({
+      agentRoot,
+      projectRoot,
+      projectId: 'demo',
+      components: components(agentRoot),
+    })
+
+    expect(env['PATH']).toBeUndefined()
+    expect(env).toMatchObject({
+      ASP_AGENT_ROOT: agentRoot,
+      ASP_AGENT_TOOLS_BIN: join(agentRoot, 'tools', 'bin'),
+      ASP_PROJECT_ROOT: projectRoot,
+      ASP_PROJECT_ID: `demo_${sanitizeProjectAgentScopeSegment(basename(agentRoot))}`,
+    })
+  })
+})
+
 describe('validateAgentTools', () => {
   test('invalid names fail', async () => {
     const agentRoot = await createTempDir('agent-tools-invalid-name-')
@@ -284,4 +311,25 @@ describe('validateAgentTools', () => {
 
     await expect(validateAgentTools(components(agentRoot))).resolves.toEqual([])
   })
+
+  test('manifests without a matching executable fail', async () => {
+    const agentRoot = await createTempDir('agent-tools-orphan-manifest-')
+    await writeTool(agentRoot, 'spark-tool')
+    await writeFile(join(agentRoot, 'tools', 'spark-tool.toml'), 'description = "Spark"\n')
+    await writeFile(join(agentRoot, 'tools', 'ghost.toml'), 'description = "Ghost"\n')
+
+    await expect(validateAgentTools(components(agentRoot))).rejects.toThrow(
+      'Agent tool manifest "ghost.toml" has no executable at tools/bin/ghost'
+    )
+  })
+
+  test('invalid manifests fail', async () => {
+    const agentRoot = await createTempDir('agent-tools-invalid-manifest-')
+    await writeTool(agentRoot, 'spark-tool')
+    await writeFile(join(agentRoot, 'tools', 'spark-tool.toml'), 'cwd = "home"\n')
+
+    await expect(validateAgentTools(components(agentRoot))).rejects.toThrow(
+      'Invalid agent tool manifest'
+    )
+  })
 })
@@ -4,6 +4,7 @@ import { basename, delimiter, join, sep } from 'node:path'
 import {
   type AgentLocalComponents,
   getProjectStorageId,
+  readAgentToolManifests,
   sanitizeProjectAgentScopeSegment,
 } from 'spaces-config'
 
@@ -137,6 +138,19 @@ export async function prepareAgentToolRuntime(
   }
 }
 
+/**
+ * Env for the built-in agent-tools MCP server entry: the launch's agent-local
+ * vars from {@link prepareAgentToolRuntime}, minus PATH (the server runs tools
+ * by absolute path).
+ */
+export async function prepareAgentToolsServerEnv(
+  context: AgentToolRuntimeContext
+): Promise<Record<string, string>> {
+  const { env } = await prepareAgentToolRuntime(context)
+  const { PATH: _path, ...serverEnv } = env
+  return serverEnv
+}
+
 export async function validateAgentTools(components: AgentLocalComponents): Promise<string[]> {
   if (!components.hasTools) {
     return []
@@ -186,6 +200,17 @@ export async function validateAgentTools(components: AgentLocalComponents): Prom
     }
   }
 
+  // Manifests are validated here too, so a bad tools/<name>.toml fails the
+  // launch instead of silently dropping the tool from the MCP server.
+  const toolNames = new Set(entries.map((entry) => entry.name))
+  for (const manifest of await readAgentToolManifests(components.toolsDir)) {
+    if (!toolNames.has(manifest.name)) {
+      throw new Error(
+        `Agent tool manifest "${manifest.name}.toml" has no executable at tools/bin/${manifest.name}`
+      )
+    }
+  }
+
   return warnings
 }
 
@@ -11,8 +11,8 @@
 
 import { basename, dirname } from 'node:path'
 
-import { inferProjectIdFromCwd } from 'spaces-config'
-import { expandTemplate, materializeSystemPrompt } from 'spaces-runtime'
+import { type HarnessId, inferProjectIdFromCwd } from 'spaces-config'
+import { buildPromptMatchContext, expandTemplate, materializeSystemPrompt } from 'spaces-runtime'
 
 import type { LoadedAgentProfile } from './agent-profile.js'
 import type { MaterializedPromptResult } from './execute.js'
@@ -105,6 +105,8 @@ export interface MaterializeRunSystemPromptArgs {
   projectPath: string
   projectId: string
   taskId: string
+  /** Harness the run launches, matched by `when.harness` and `when.modelProvider` */
+  harnessId: HarnessId
 }
 
 /**
@@ -121,6 +123,7 @@ export async function materializeRunSystemPrompt(
     projectRoot: args.projectPath,
     projectId: args.projectId,
     taskId: args.taskId,
+    ...buildPromptMatchContext({ harness: args.harnessId }),
     runMode: 'query',
   })
 
@@ -293,6 +293,7 @@ export function createPiSdkDriver(options: PiSdkDriverOptions = {}): Driver {
         policy: permissionPolicy,
         activeTurnId: () => mapper?.activeTurnId,
         exemptToolNames: new Set([STRUCTURED_TOOL_NAME]),
+        cwd: nextSpec.process.cwd,
       })
       const permissionExtension: ExtensionFactory = (pi) => {
         pi.on('tool_call', (event) => permissionBridge.handle(event))
@@ -1,12 +1,23 @@
 import type { ToolCallEvent, ToolCallEventResult } from '@earendil-works/pi-coding-agent'
-import type { DriverContext } from 'spaces-harness-broker'
-import type { PermissionPolicy, PermissionRequestId, TurnId } from 'spaces-harness-broker-protocol'
+import {
+  type DriverContext,
+  type PermissionRuleSubject,
+  matchPermissionRule,
+} from 'spaces-harness-broker'
+import type {
+  PermissionPolicy,
+  PermissionRequestId,
+  PermissionRuleMatch,
+  TurnId,
+} from 'spaces-harness-broker-protocol'
 
 export interface PiSdkPermissionBridgeOptions {
   ctx: DriverContext
   policy: PermissionPolicy
   activeTurnId: () => TurnId | undefined
   exemptToolNames?: ReadonlySet<string> | undefined
+  /** Working directory of the session; anchors relative tool paths for `rules`. */
+  cwd?: string | undefined
 }
 
 export interface PiSdkPermissionBridge {
@@ -23,6 +34,16 @@ export function createPiSdkPermissionBridge(
       if (options.exemptToolNames?.has(event.toolName) === true) return undefined
       const defaultDecision = options.policy.defaultDecision ?? 'deny'
 
+      // A `rules` policy decides in the broker process; only an `ask` rule
+      // reaches the client, through the same paths as `ask-client`.
+      let rule: PermissionRuleMatch | undefined
+      if (options.policy.mode === 'rules') {
+        rule = matchPermissionRule(options.policy.rules, piRuleSubject(event, options.cwd))
+        if (rule?.action !== 'ask') {
+          return resolveByPolicy(options, event, ++counter, rule?.action ?? defaultDecision, rule)
+        }
+      }
+
       if (options.ctx.brokerOwnsPermissionLifecycle === true) {
         if (options.ctx.requestPermission === undefined) {
           return { block: true, reason: 'Broker permission request transport is unavailable' }
@@ -56,17 +77,20 @@ export function createPiSdkPermissionBridge(
         )
         // The broker owns the deadline and resolution event. This await is for
         // its FINAL decision and intentionally has no driver-side timeout.
-        const decision = await options.ctx.requestPermission({
-          invocationId: options.ctx.invocationId,
-          ...(turnId !== undefined ? { turnId } : {}),
-          permissionRequestId,
-          kind,
-          subject,
-          defaultDecision,
-          ...(options.policy.timeoutMs !== undefined
-            ? { deadlineMs: options.policy.timeoutMs }
-            : {}),
-        })
+        const decision = await options.ctx.requestPermission(
+          {
+            invocationId: options.ctx.invocationId,
+            ...(turnId !== undefined ? { turnId } : {}),
+            permissionRequestId,
+            kind,
+            subject,
+            defaultDecision,
+            ...(options.policy.timeoutMs !== undefined
+              ? { deadlineMs: options.policy.timeoutMs }
+              : {}),
+          },
+          rule !== undefined ? { rule } : undefined
+        )
         return decision.decision === 'deny'
           ? { block: true, reason: decision.message ?? 'Denied by broker permission policy' }
           : undefined
@@ -77,15 +101,67 @@ export function createPiSdkPermissionBridge(
         return { block: true, reason: 'Denied by invocation permission policy' }
       }
 
-      return decideLocallyWithClient(options, event, ++counter)
+      return decideLocallyWithClient(options, event, ++counter, rule)
     },
   }
 }
 
+function piRuleSubject(event: ToolCallEvent, cwd: string | undefined): PermissionRuleSubject {
+  const input = (event.input ?? {}) as Record<string, unknown>
+  const command = input['command']
+  const path = input['path']
+  return {
+    kind: event.toolName === 'bash' ? 'command' : 'tool',
+    toolName: event.toolName,
+    ...(typeof command === 'string' ? { command } : {}),
+    ...(cwd !== undefined ? { cwd } : {}),
+    ...(typeof path === 'string' ? { paths: [path] } : {}),
+  }
+}
+
+function resolveByPolicy(
+  options: PiSdkPermissionBridgeOptions,
+  event: ToolCallEvent,
+  counter: number,
+  decision: 'allow' | 'deny',
+  rule: PermissionRuleMatch | undefined
+): ToolCallEventResult | undefined {
+  const permissionRequestId =
+    `permission_${options.ctx.invocationId}_${counter}` as PermissionRequestId
+  const turnId = options.activeTurnId()
+  const extra = {
+    ...(turnId !== undefined ? { turnId } : {}),
+    driver: { kind: 'pi-sdk', rawType: 'tool_call' },
+  }
+  options.ctx.emit(
+    'permission.requested',
+    {
+      permissionRequestId,
+      kind: event.toolName === 'bash' ? 'command' : 'tool',
+      subjectDisplay: {
+        toolName: event.toolName,
+        toolCallId: event.toolCallId,
+        input: event.input,
+      },
+      defaultDecision: options.policy.defaultDecision ?? 'deny',
+    },
+    extra
+  )
+  options.ctx.emit(
+    'permission.resolved',
+    { permissionRequestId, decision, decidedBy: 'policy', ...(rule !== undefined ? { rule } : {}) },
+    extra
+  )
+  return decision === 'deny'
+    ? { block: true, reason: 'Denied by invocation permission policy' }
+    : undefined
+}
+
 async function decideLocallyWithClient(
   options: PiSdkPermissionBridgeOptions,
   event: ToolCallEvent,
-  counter: number
+  counter: number,
+  rule: PermissionRuleMatch | undefined
 ): Promise<ToolCallEventResult | undefined> {
   const defaultDecision = options.policy.defaultDecision ?? 'deny'
   const permissionRequestId =
@@ -138,6 +214,7 @@ async function decideLocallyWithClient(
       permissionRequestId,
       decision: response.decision,
       decidedBy,
+      ...(rule !== undefined ? { rule } : {}),
       ...('message' in response && response.message !== undefined
         ? { message: response.message }
         : {}),
@@ -49,14 +49,73 @@ describe('pi SDK permission bridge', () => {
     expect(requestCount).toBe(1)
     expect(events.map((event) => event.type)).toEqual(['permission.requested'])
   })
+
+  test('rules policy decides in the broker process even when the broker owns the lifecycle', async () => {
+    const events: CapturedEvent[] = []
+    const asked: unknown[] = []
+    const ctx = createContext(events, {
+      brokerOwnsPermissionLifecycle: true,
+      requestPermission: async (params, options) => {
+        asked.push({ params, options })
+        return { decision: 'allow' }
+      },
+    })
+    const bridge = createPiSdkPermissionBridge({
+      ctx,
+      policy: {
+        mode: 'rules',
+        rules: [
+          { id: 'no-touch', action: 'deny', kind: 'command', command: 'touch *' },
+          { id: 'own-files', action: 'allow', tool: 'edit', pathPrefix: '/work' },
+          { id: 'ask-reads', action: 'ask', tool: 'read' },
+        ],
+      },
+      activeTurnId: () => 'turn-1' as TurnId,
+      cwd: '/work',
+    })
+
+    expect(await bridge.handle(toolCall())).toEqual({
+      block: true,
+      reason: 'Denied by invocation permission policy',
+    })
+    expect(await bridge.handle(toolCall('edit', { path: 'src/a.ts' }))).toBeUndefined()
+    // No rule matches a write outside the working tree, so defaultDecision (deny) applies.
+    expect(await bridge.handle(toolCall('edit', { path: '../outside.ts' }))).toMatchObject({
+      block: true,
+    })
+    expect(asked).toHaveLength(0)
+    expect(
+      events.filter((event) => event.type === 'permission.resolved').map((event) => event.payload)
+    ).toEqual([
+      expect.objectContaining({
+        decision: 'deny',
+        decidedBy: 'policy',
+        rule: { index: 0, id: 'no-touch', action: 'deny' },
+      }),
+      expect.objectContaining({
+        decision: 'allow',
+        decidedBy: 'policy',
+        rule: { index: 1, id: 'own-files', action: 'allow' },
+      }),
+      expect.not.objectContaining({ rule: expect.anything() }),
+    ])
+
+    expect(await bridge.handle(toolCall('read', { path: 'README.md' }))).toBeUndefined()
+    expect(asked).toEqual([
+      expect.objectContaining({ options: { rule: { index: 2, id: 'ask-reads', action: 'ask' } } }),
+    ])
+  })
 })
 
-function toolCall(): ToolCallEvent {
+function toolCall(
+  toolName = 'bash',
+  input: Record<string, unknown> = { command: 'touch forbidden' }
+): ToolCallEvent {
   return {
     type: 'tool_call',
     toolCallId: 'tool-1',
-    toolName: 'bash',
-    input: { command: 'touch forbidden' },
+    toolName,
+    input,
   } as ToolCallEvent
 }
 
@@ -21,6 +21,8 @@ import type {
   InvocationPermissionRespondResponse,
   InvocationSnapshot,
   InvocationSnapshotRequest,
+  ObserverAuthenticateRequest,
+  ObserverAuthenticateResponse,
 } from './invocation'
 import type { JsonRpcRequest } from './jsonrpc'
 import type { AcceptedLifecyclePolicy, BrokerLifecyclePolicyOverlay } from './lifecycle'
@@ -43,6 +45,7 @@ export type BrokerMethodV2 =
   | 'invocation.snapshot'
   | 'invocation.permission.respond'
   | 'broker.listInvocations'
+  | 'observer.authenticate'
 
 export type BrokerMethod = BrokerMethodV2
 
@@ -64,6 +67,7 @@ export type BrokerCommand =
   | JsonRpcRequest<'invocation.snapshot', InvocationSnapshotRequest>
   | JsonRpcRequest<'invocation.permission.respond', InvocationPermissionRespondRequest>
   | JsonRpcRequest<'broker.listInvocations', BrokerListInvocationsRequest>
+  | JsonRpcRequest<'observer.authenticate', ObserverAuthenticateRequest>
 
 export type {
   InvocationCurrentTurnSummary,
@@ -349,4 +353,6 @@ export type {
   InvocationPermissionRespondResponse,
   InvocationSnapshot,
   InvocationSnapshotRequest,
+  ObserverAuthenticateRequest,
+  ObserverAuthenticateResponse,
 }
@@ -6,7 +6,7 @@ import type {
   ToolCallId,
   TurnId,
 } from './ids'
-import type { InvocationInspectionSummary } from './invocation'
+import type { InvocationInspectionSummary, PermissionRuleMatch } from './invocation'
 import type {
   HarnessExitedPayload,
   HarnessRecoveryCompletedPayload,
@@ -358,7 +358,14 @@ export interface TurnFailedPayload {
   code?: string | undefined
   data?: unknown
   retryable?: boolean | undefined
-  reason?: 'harness-stalled' | 'retry-unsafe' | 'retry-exhausted' | string | undefined
+  reason?:
+    | 'harness-stalled'
+    | 'retry-unsafe'
+    | 'retry-exhausted'
+    | 'turn-timeout'
+    | 'max-runtime-age'
+    | string
+    | undefined
   turnAttempt?: number | undefined
   retrySuppressed?: boolean | undefined
 }
@@ -418,6 +425,8 @@ export interface InvocationFailedPayload {
     | 'harness-stalled'
     | 'stall-unrecoverable'
     | 'runner-degraded'
+    | 'startup-timeout'
+    | 'max-runtime-age'
     | string
     | undefined
 }
@@ -482,4 +491,5 @@ export interface PermissionResolvedPayload {
   decision: 'allow' | 'deny'
   decidedBy: 'policy' | 'user' | 'api' | 'timeout'
   message?: string | undefined
+  rule?: PermissionRuleMatch | undefined
 }
@@ -44,6 +44,39 @@ export interface BrokerAttachResponse {
   snapshot: InvocationSnapshot
 }
 
+/**
+ * Method a control-mode observer client may be granted. Scopes are spelled as
+ * the broker methods they unlock so a token file reads like the wire surface.
+ */
+export type ObserverControlScope =
+  | 'invocation.input'
+  | 'invocation.interrupt'
+  | 'invocation.permission.respond'
+
+export const OBSERVER_CONTROL_SCOPES = [
+  'invocation.input',
+  'invocation.interrupt',
+  'invocation.permission.respond',
+] as const satisfies readonly ObserverControlScope[]
+
+/**
+ * Authenticate an observer-socket connection for control mode. The token is
+ * checked against the broker's observer token file; the granted scopes apply
+ * to the rest of the connection.
+ */
+export interface ObserverAuthenticateRequest {
+  token: string
+  /** Free-form caller name, recorded alongside the token's identity in audits. */
+  clientName?: string | undefined
+}
+
+export interface ObserverAuthenticateResponse {
+  authenticated: true
+  /** Identity the broker records for this caller's mutations. */
+  clientId: string
+  scopes: ObserverControlScope[]
+}
+
 export interface InvocationSnapshotRequest {
   invocationId: InvocationId
   probeLiveness?: boolean | undefined
@@ -221,7 +254,7 @@ export interface HarnessInvocationSpec {
   process: HarnessProcessSpec
   interaction?: InteractionSpec | undefined
   continuation?: ContinuationSpec | undefined
-  driver: CodexAppServerDriverSpec | UnknownDriverSpec
+  driver: CodexAppServerDriverSpec | ClaudeStreamJsonDriverSpec | UnknownDriverSpec
   sdk?: HarnessSdkSpec | undefined
   /**
    * Harness-kind-agnostic startup payload consumed by launch wrappers BEFORE the
@@ -296,11 +329,19 @@ export interface ContinuationSpec {
   kind?: 'thread' | 'session' | 'conversation' | string | undefined
 }
 
+/**
+ * Broker-enforced limits. The invocation manager fails startup past
+ * `startupTimeoutMs`, fails a turn past `turnTimeoutMs`, and retires the
+ * invocation once it has been ready for `maxRuntimeAgeMs`; each failure carries
+ * a distinct `reason` (`startup-timeout`, `turn-timeout`, `max-runtime-age`) so
+ * a supervisor can tell an enforced limit from a harness crash.
+ */
 export interface ProcessLimits {
   startupTimeoutMs?: number | undefined
   turnTimeoutMs?: number | undefined
   stopGraceMs?: number | undefined
   maxEventBytes?: number | undefined
+  maxRuntimeAgeMs?: number | undefined
 }
 
 export interface CodexAppServerDriverSpec {
@@ -316,10 +357,55 @@ export interface CodexAppServerDriverSpec {
   resumeFallback?: 'start-fresh' | 'fail' | undefined
 }
 
+/**
+ * Headless Claude driven over `claude -p --input-format stream-json
+ * --output-format stream-json`. The process argv (including `--resume` and
+ * `--permission-prompt-tool stdio`) rides on `process`; only broker-side
+ * policy lives here.
+ */
+export interface ClaudeStreamJsonDriverSpec {
+  kind: 'claude-stream-json'
+  permissionPolicy?: DriverPermissionPolicy | undefined
+}
+
+/**
+ * `rules` mode evaluates `rules` in order inside the broker; the first match
+ * decides (`ask` defers to the client as in `ask-client`), and a request no
+ * rule matches resolves to `defaultDecision` (deny when absent).
+ */
 export interface DriverPermissionPolicy {
-  mode: 'deny' | 'allow' | 'ask-client'
+  mode: 'deny' | 'allow' | 'ask-client' | 'rules'
   timeoutMs?: number | undefined
   defaultDecision?: 'allow' | 'deny' | undefined
+  rules?: PermissionRule[] | undefined
+}
+
+/**
+ * One ordered permission rule. Every matcher present must match; a rule with no
+ * matchers matches everything. `command` and `tool` are globs (`*` any run of
+ * characters, `?` one character); `cwdPrefix` and `pathPrefix` match whole path
+ * segments, with relative request paths resolved against the request cwd. An
+ * `allow` rule needs every requested path under `pathPrefix`, while `deny` and
+ * `ask` rules match when any path is. An `allow` `command` matches argv tokens
+ * of a single simple command only (never one with `;`, `&&`, `|`, `$(`,
+ * redirections or newlines); `deny` and `ask` commands also match any one
+ * shell segment.
+ */
+export interface PermissionRule {
+  id?: string | undefined
+  action: 'allow' | 'deny' | 'ask'
+  kind?: string | undefined
+  command?: string | undefined
+  cwdPrefix?: string | undefined
+  pathPrefix?: string | undefined
+  tool?: string | undefined
+}
+
+/** The rule that decided a permission request, recorded on `permission.resolved`. */
+export interface PermissionRuleMatch {
+  index: number
+  id?: string | undefined
+  action: PermissionRule['action']
 }
 
 export type PermissionPolicy = DriverPermissionPolicy
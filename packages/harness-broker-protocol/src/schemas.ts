@@ -90,6 +90,7 @@ const BROKER_METHODS = [
   'invocation.ackEvents',
   'invocation.snapshot',
   'invocation.permission.respond',
+  'observer.authenticate',
 ] as const satisfies readonly BrokerMethod[]
 
 const EVENT_TYPES = [
@@ -338,6 +339,9 @@ function validateSpec(value: unknown, issues: ValidationIssue[], prefix = ''): v
     if (driver['kind'] === 'codex-app-server') {
       validateCodexDriver(driver, joinPath(prefix, 'driver'), issues)
     }
+    if (driver['kind'] === 'claude-stream-json') {
+      validatePermissionPolicy(driver['permissionPolicy'], joinPath(prefix, 'driver'), issues)
+    }
   }
 
   validateSdkContract(spec, harness, process, prefix, issues)
@@ -537,6 +541,10 @@ const COMMAND_PARAM_VALIDATORS: Partial<
     optionalString(commandParams['controllerInstanceId'], 'params.controllerInstanceId', issues)
     optionalString(commandParams['message'], 'params.message', issues)
   },
+  'observer.authenticate': (commandParams, issues) => {
+    requireString(commandParams['token'], 'params.token', issues)
+    optionalString(commandParams['clientName'], 'params.clientName', issues)
+  },
 }
 
 function validateCommandParams(
@@ -1628,6 +1636,16 @@ const EVENT_PAYLOAD_VALIDATORS = {
       true
     )
     optionalString(payload['message'], 'payload.message', issues)
+    if (payload['rule'] !== undefined) {
+      const rule = asRecord(payload['rule'])
+      if (!rule) {
+        issues.push(makeIssue('payload.rule', 'invalid_type', 'payload.rule must be an object'))
+      } else {
+        requireNumber(rule['index'], 'payload.rule.index', issues)
+        optionalString(rule['id'], 'payload.rule.id', issues)
+        optionalEnum(rule['action'], ['allow', 'deny', 'ask'], 'payload.rule.action', issues, true)
+      }
+    }
   },
   'permission.cancelled': (payload, issues) => {
     requireString(payload['permissionRequestId'], 'payload.permissionRequestId', issues)
@@ -2035,6 +2053,7 @@ function validateProcessLimits(value: unknown, basePath: string, issues: Validat
   optionalNumber(limits['turnTimeoutMs'], joinPath(basePath, 'turnTimeoutMs'), issues)
   optionalNumber(limits['stopGraceMs'], joinPath(basePath, 'stopGraceMs'), issues)
   optionalNumber(limits['maxEventBytes'], joinPath(basePath, 'maxEventBytes'), issues)
+  optionalNumber(limits['maxRuntimeAgeMs'], joinPath(basePath, 'maxRuntimeAgeMs'), issues)
 }
 
 function validateInteraction(value: unknown, basePath: string, issues: ValidationIssue[]): void {
@@ -2119,33 +2138,76 @@ function validateCodexDriver(
     issues
   )
 
-  if (driver['permissionPolicy'] !== undefined) {
-    const policy = asRecord(driver['permissionPolicy'])
-    if (!policy) {
-      issues.push(
-        makeIssue(
-          joinPath(basePath, 'permissionPolicy'),
-          'invalid_type',
-          'permissionPolicy must be an object'
-        )
-      )
-    } else {
-      optionalEnum(
-        policy['mode'],
-        ['deny', 'allow', 'ask-client'],
-        joinPath(basePath, 'permissionPolicy.mode'),
-        issues,
-        true
-      )
-      optionalNumber(policy['timeoutMs'], joinPath(basePath, 'permissionPolicy.timeoutMs'), issues)
-      optionalEnum(
-        policy['defaultDecision'],
-        ['allow', 'deny'],
-        joinPath(basePath, 'permissionPolicy.defaultDecision'),
-        issues
+  validatePermissionPolicy(driver['permissionPolicy'], basePath, issues)
+}
+
+function validatePermissionPolicy(
+  value: unknown,
+  basePath: string,
+  issues: ValidationIssue[]
+): void {
+  if (value === undefined) {
+    return
+  }
+  const policy = asRecord(value)
+  if (!policy) {
+    issues.push(
+      makeIssue(
+        joinPath(basePath, 'permissionPolicy'),
+        'invalid_type',
+        'permissionPolicy must be an object'
       )
-    }
+    )
+    return
   }
+  optionalEnum(
+    policy['mode'],
+    ['deny', 'allow', 'ask-client', 'rules'],
+    joinPath(basePath, 'permissionPolicy.mode'),
+    issues,
+    true
+  )
+  optionalNumber(policy['timeoutMs'], joinPath(basePath, 'permissionPolicy.timeoutMs'), issues)
+  optionalEnum(
+    policy['defaultDecision'],
+    ['allow', 'deny'],
+    joinPath(basePath, 'permissionPolicy.defaultDecision'),
+    issues
+  )
+  // `rules` is required in rules mode so a typo'd key cannot silently
+  // degrade the policy to `defaultDecision` for every request.
+  if (policy['mode'] === 'rules' || policy['rules'] !== undefined) {
+    validatePermissionRules(policy['rules'], joinPath(basePath, 'permissionPolicy.rules'), issues)
+  }
+}
+
+function validatePermissionRules(
+  value: unknown,
+  basePath: string,
+  issues: ValidationIssue[]
+): void {
+  const rules = requireArray(value, basePath, issues)
+  if (!rules) {
+    return
+  }
+  rules.forEach((item, index) => {
+    const rulePath = joinPath(basePath, String(index))
+    const rule = asRecord(item)
+    if (!rule) {
+      issues.push(makeIssue(rulePath, 'invalid_type', 'permission rule must be an object'))
+      return
+    }
+    optionalEnum(
+      rule['action'],
+      ['allow', 'deny', 'ask'],
+      joinPath(rulePath, 'action'),
+      issues,
+      true
+    )
+    for (const field of ['id', 'kind', 'command', 'cwdPrefix', 'pathPrefix', 'tool']) {
+      optionalString(rule[field], joinPath(rulePath, field), issues)
+    }
+  })
 }
 
 function validateStringRecord(
@@ -0,0 +1,34 @@
+import type {
+  ObserverAuthenticateRequest,
+  ObserverAuthenticateResponse,
+  ObserverControlScope,
+} from '../src/index.ts'
+
+// Control-mode observer scopes are exactly the three mutations a side-car may
+// be granted; start/stop/dispose stay controller-only.
+type ExpectedScope = 'invocation.input' | 'invocation.interrupt' | 'invocation.permission.respond'
+type ScopesMatch = [ObserverControlScope] extends [ExpectedScope]
+  ? [ExpectedScope] extends [ObserverControlScope]
+    ? true
+    : never
+  : never
+const scopesMatch: ScopesMatch = true
+
+const authenticate = {
+  token: 'secret',
+  clientName: 'review-bot',
+} satisfies ObserverAuthenticateRequest
+
+type TokenRequired = ObserverAuthenticateRequest extends { token: string } ? true : never
+const tokenRequired: TokenRequired = true
+
+const authenticated = {
+  authenticated: true,
+  clientId: 'review-bot',
+  scopes: ['invocation.input'],
+} satisfies ObserverAuthenticateResponse
+
+void scopesMatch
+void authenticate
+void tokenRequired
+void authenticated
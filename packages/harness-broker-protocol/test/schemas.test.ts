@@ -3,11 +3,14 @@ import { readFileSync } from 'node:fs'
 import { join } from 'node:path'
 import * as protocol from '../src'
 import type {
+  ClaudeStreamJsonDriverSpec,
   InputId,
   InvocationEventPayloadMap,
   InvocationId,
   MessageId,
   PermissionRequestId,
+  PermissionRule,
+  PermissionRuleMatch,
   ToolCallId,
   TurnId,
 } from '../src'
@@ -326,6 +329,20 @@ describe('validateInvocationSpec', () => {
     })
   })
 
+  test('accepts process.limits.maxRuntimeAgeMs and rejects a non-number', () => {
+    const valid = structuredClone(specSection62Example) as typeof specSection62Example & {
+      process: { limits: { maxRuntimeAgeMs?: unknown } }
+    }
+    valid.process.limits.maxRuntimeAgeMs = 3_600_000
+    expect(validateInvocationSpec(valid)).toEqual(valid)
+
+    valid.process.limits.maxRuntimeAgeMs = '1h'
+    expectInvalidSpec(valid, {
+      path: 'process.limits.maxRuntimeAgeMs',
+      code: 'invalid_type',
+    })
+  })
+
   test('rejects unsupported specVersion literals', () => {
     const invalid = structuredClone(specSection62Example)
     invalid.specVersion = 'harness-broker.invocation/v2'
@@ -349,6 +366,69 @@ describe('validateInvocationSpec', () => {
     })
   })
 
+  test('accepts an ordered rules permission policy and rejects malformed rules', () => {
+    const rules: PermissionRule[] = [
+      { id: 'no-push', action: 'deny', kind: 'command', command: 'git push*' },
+      { action: 'allow', kind: 'file_change', pathPrefix: '/workspace/project' },
+      { action: 'ask', tool: 'mcp__*', cwdPrefix: '/workspace' },
+    ]
+    const valid = structuredClone(specSection62Example) as Record<string, unknown> & {
+      driver: Record<string, unknown>
+    }
+    valid.driver['permissionPolicy'] = { mode: 'rules', defaultDecision: 'deny', rules }
+    expect(validateInvocationSpec(valid).driver).toMatchObject({
+      permissionPolicy: { mode: 'rules', rules },
+    })
+
+    valid.driver['permissionPolicy'] = { mode: 'rules' }
+    expectInvalidSpec(valid, { path: 'driver.permissionPolicy.rules', code: 'required' })
+
+    valid.driver['permissionPolicy'] = { mode: 'rules', rules: [{ action: 'prompt' }] }
+    expectInvalidSpec(valid, {
+      path: 'driver.permissionPolicy.rules.0.action',
+      code: 'invalid_literal',
+    })
+
+    valid.driver['permissionPolicy'] = { mode: 'rules', rules: [{ action: 'deny', command: 1 }] }
+    expectInvalidSpec(valid, {
+      path: 'driver.permissionPolicy.rules.0.command',
+      code: 'invalid_type',
+    })
+  })
+
+  test('accepts a claude-stream-json spec over stdio pipes', () => {
+    const driver: ClaudeStreamJsonDriverSpec = {
+      kind: 'claude-stream-json',
+      permissionPolicy: { mode: 'ask-client', timeoutMs: 30_000 },
+    }
+    const spec = {
+      ...structuredClone(specSection62Example),
+      harness: { frontend: 'claude', provider: 'anthropic', driver: 'claude-stream-json' },
+      process: {
+        ...structuredClone(specSection62Example.process),
+        command: 'claude',
+        args: ['-p', '--input-format', 'stream-json', '--output-format', 'stream-json'],
+        harnessTransport: { kind: 'pipes' },
+      },
+      driver,
+    }
+
+    expect(validateInvocationSpec(spec).driver).toEqual(driver)
+  })
+
+  test('rejects unsupported claude-stream-json permission modes', () => {
+    const invalid = {
+      ...structuredClone(specSection62Example),
+      harness: { frontend: 'claude', driver: 'claude-stream-json' },
+      driver: { kind: 'claude-stream-json', permissionPolicy: { mode: 'prompt' } },
+    }
+
+    expectInvalidSpec(invalid, {
+      path: 'driver.permissionPolicy.mode',
+      code: 'invalid_literal',
+    })
+  })
+
   test('reports required (not invalid_literal) for missing harnessTransport.kind', () => {
     const invalid = structuredClone(specSection62Example)
     Reflect.deleteProperty(invalid.process.harnessTransport, 'kind')
@@ -1249,6 +1329,12 @@ describe('validateCommand', () => {
       { invocationId: 'inv_1', permissionRequestId: 'perm_1', decision: 'prompt' },
       { path: 'params.decision', code: 'invalid_literal' },
     ],
+    [
+      'observer.authenticate',
+      { token: 'secret', clientName: 'review-bot' },
+      { clientName: 'review-bot' },
+      { path: 'params.token', code: 'required' },
+    ],
   ])(
     'validates v2 method %s params and rejects malformed params',
     (method, validParams, malformedParams, expectedIssue) => {
@@ -1264,6 +1350,20 @@ describe('validateCommand', () => {
     }
   )
 
+  test('observer control scopes are spelled as the broker methods they unlock', () => {
+    expect(protocol.OBSERVER_CONTROL_SCOPES).toEqual([
+      'invocation.input',
+      'invocation.interrupt',
+      'invocation.permission.respond',
+    ])
+    for (const method of protocol.OBSERVER_CONTROL_SCOPES) {
+      expectInvalidCommand(
+        { jsonrpc: '2.0', id: 3, method, params: {} },
+        { path: 'params.invocationId', code: 'required' }
+      )
+    }
+  })
+
   test('invocation.status accepts an optional bounded liveness probe flag', () => {
     // T-01850: status uses the same cached-by-default inspection surface as
     // snapshot/list, with probeLiveness requesting a bounded active probe.
@@ -1691,6 +1791,29 @@ describe('validateEventEnvelope', () => {
         code: 'invalid_literal',
       }
     )
+    const rule: PermissionRuleMatch = { index: 0, id: 'no-push', action: 'deny' }
+    expect(
+      validateEventEnvelope(
+        envelope('permission.resolved', {
+          permissionRequestId: 'perm_1',
+          decision: 'deny',
+          decidedBy: 'policy',
+          rule,
+        })
+      ).payload
+    ).toMatchObject({ rule })
+    expectInvalidEventEnvelope(
+      envelope('permission.resolved', {
+        permissionRequestId: 'perm_1',
+        decision: 'deny',
+        decidedBy: 'policy',
+        rule: { action: 'deny' },
+      }),
+      {
+        path: 'payload.rule.index',
+        code: 'required',
+      }
+    )
   })
 
   // Terminal-outcome contract (T-06550): the tool.call.* payloads are the
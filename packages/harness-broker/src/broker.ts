@@ -10,6 +10,7 @@ import type {
   BrokerListInvocationsResponse,
   BrokerTransportKind,
   ClientCapabilities,
+  DiagnosticPayload,
   InvocationAckEventsRequest,
   InvocationAckEventsResponse,
   InvocationDisposeRequest,
@@ -126,6 +127,8 @@ export interface Broker {
   permissionRespond(
     req: InvocationPermissionRespondRequest
   ): Promise<InvocationPermissionRespondResponse>
+  /** Broker-side audit hook: append a `diagnostic` event to an invocation. */
+  recordDiagnostic(invocationId: InvocationId, diagnostic: DiagnosticPayload): void
 }
 
 export function createBroker(options: BrokerOptions): Broker {
@@ -471,6 +474,10 @@ export function createBroker(options: BrokerOptions): Broker {
       validateBrokerParams('invocation.permission.respond', req)
       return manager.permissionRespond(req)
     },
+
+    recordDiagnostic(invocationId: InvocationId, diagnostic: DiagnosticPayload): void {
+      manager.recordDiagnostic(invocationId, diagnostic)
+    },
   }
 }
 
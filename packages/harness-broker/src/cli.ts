@@ -1,4 +1,4 @@
-import { existsSync, unlinkSync } from 'node:fs'
+import { existsSync, renameSync, unlinkSync } from 'node:fs'
 import { mkdir, readFile, unlink } from 'node:fs/promises'
 import { type Socket, connect, createServer } from 'node:net'
 import { dirname, join } from 'node:path'
@@ -13,6 +13,8 @@ import type {
   InvocationInput,
   InvocationStartRequest,
   JsonRpcNotification,
+  ObserverAuthenticateRequest,
+  ObserverAuthenticateResponse,
   PermissionDecision,
 } from 'spaces-harness-broker-protocol'
 import {
@@ -30,13 +32,30 @@ import { runCodexHookBridgeCli } from './drivers/codex-cli-tmux/hook-bridge'
 import type { Driver } from './drivers/driver'
 import { runPiHookBridgeCli } from './drivers/pi-tui-tmux/hook-bridge'
 import { BrokerError } from './errors'
-import { createEventLedger } from './event-ledger'
+import { type EventLedger, createEventLedger } from './event-ledger'
+import { foldTranscript } from './export/fold'
+import { readLedgerEvents } from './export/ledger'
+import {
+  TRANSCRIPT_EXPORT_FORMATS,
+  type TranscriptExportFormat,
+  renderTranscript,
+} from './export/render'
+import {
+  type ObserverControlPolicy,
+  type ObserverControlSession,
+  authorizeObserverControl,
+  createAttachTokenObserverPolicy,
+  loadObserverControlPolicy,
+} from './observer-control'
 import { type ProtocolServer, createProtocolServer } from './protocol-server'
 import { assertSocketPathWithinBudget } from './socket-path'
+import { type SqliteEventLedger, createSqliteEventLedger } from './sqlite-event-ledger'
+import { startBrokerTail } from './tail/tail'
 
-interface BrokerMethodOptions {
-  experimentalObserverEnabled?: boolean | undefined
-}
+/** Background prune cadence for a SQLite ledger, so age retention applies without acks. */
+const LEDGER_COMPACTION_INTERVAL_MS = 60_000
+/** Newly acked events that make an ack compact the ledger ahead of the interval. */
+const LEDGER_COMPACTION_ACKED_EVENTS = 1_000
 
 interface BrokerObserverSocket {
   notify(event: InvocationEventEnvelope): void
@@ -101,6 +120,10 @@ export async function runBrokerCli(options: RunBrokerCliOptions): Promise<void>
     await runOnce(args.slice(1), options)
   } else if (command === 'validate-start-request') {
     await validateStartRequestCommand(args.slice(1))
+  } else if (command === 'tail') {
+    await runTail(args.slice(1))
+  } else if (command === 'export') {
+    await runExport(args.slice(1))
   } else {
     process.stderr.write(
       `Unknown command: ${command ?? '(none)'}\nUsage: harness-broker run --transport stdio\n`
@@ -117,12 +140,16 @@ async function runStdio(args: string[], options: RunBrokerCliOptions): Promise<v
     readFlag(args, '--experimental-observer-mode') ??
     process.env['HARNESS_BROKER_OBSERVER_MODE'] ??
     'observe'
-  if (observerSocketPath !== undefined && observerMode !== 'observe') {
+  if (observerSocketPath !== undefined && !isObserverMode(observerMode)) {
     process.stderr.write(
-      `Unsupported --experimental-observer-mode ${JSON.stringify(observerMode)}; only "observe" is implemented\n`
+      `Unsupported --experimental-observer-mode ${JSON.stringify(observerMode)}; expected "observe" or "control"\n`
     )
     process.exit(1)
   }
+  const observerControl =
+    observerSocketPath !== undefined && observerMode === 'control'
+      ? await loadObserverControlFromArgs(args)
+      : undefined
 
   const server = createProtocolServer({
     stdin: process.stdin,
@@ -154,12 +181,14 @@ async function runStdio(args: string[], options: RunBrokerCliOptions): Promise<v
   )
 
   if (observerSocketPath !== undefined) {
-    observer = await startBrokerObserverSocket({ socketPath: observerSocketPath, broker })
+    observer = await startBrokerObserverSocket({
+      socketPath: observerSocketPath,
+      broker,
+      control: observerControl,
+    })
   }
 
-  registerBrokerMethods(server, broker, {
-    experimentalObserverEnabled: observerSocketPath !== undefined,
-  })
+  registerBrokerMethods(server, broker)
 
   void server.start()
 
@@ -218,11 +247,7 @@ function registerReadMethods(server: ProtocolServer, broker: Broker): void {
  * Register the v1 broker JSON-RPC methods on a protocol server. Shared by the
  * stdio and unix transport entry points so both expose identical surfaces.
  */
-function registerBrokerMethods(
-  server: ProtocolServer,
-  broker: Broker,
-  options: BrokerMethodOptions = {}
-): void {
+function registerBrokerMethods(server: ProtocolServer, broker: Broker): void {
   registerReadMethods(server, broker)
 
   server.register('invocation.start', async ({ id, method, params }) => {
@@ -230,18 +255,6 @@ function registerBrokerMethods(
     // (including dispatchEnv key-class + lockedEnv-shadow rules) before dispatch.
     validateParams(method, id, params)
     const dispatch = params as InvocationDispatchRequest
-    if (
-      options.experimentalObserverEnabled === true &&
-      dispatch.startRequest.spec.driver.kind !== 'codex-app-server'
-    ) {
-      throw new BrokerError(
-        BrokerErrorCode.UnsupportedCapability,
-        'Experimental observer socket is only supported for codex-app-server invocations',
-        {
-          driverKind: dispatch.startRequest.spec.driver.kind,
-        }
-      )
-    }
     return broker.start(
       dispatch.startRequest,
       dispatch.dispatchEnv,
@@ -279,6 +292,62 @@ function registerBrokerObserverMethods(server: ProtocolServer, broker: Broker):
   registerReadMethods(server, broker)
 }
 
+/**
+ * Control-mode additions for ONE observer connection: `observer.authenticate`
+ * plus the three mutations a token can be scoped to. The session lives in this
+ * closure, so authentication never outlives the socket it was made on. Start,
+ * stop and dispose stay controller-only.
+ */
+function registerBrokerObserverControlMethods(
+  server: ProtocolServer,
+  broker: Broker,
+  policy: ObserverControlPolicy
+): void {
+  let session: ObserverControlSession | undefined
+
+  server.register('observer.authenticate', async ({ id, method, params }) => {
+    validateParams(method, id, params)
+    const req = params as ObserverAuthenticateRequest
+    const grant = policy.authenticate(req.token)
+    if (grant === undefined) {
+      session = undefined
+      throw new BrokerError(BrokerErrorCode.AttachRejected, 'Observer token rejected')
+    }
+    session = {
+      clientId: grant.clientId,
+      scopes: grant.scopes,
+      ...(req.clientName !== undefined ? { clientName: req.clientName } : {}),
+    }
+    const response: ObserverAuthenticateResponse = {
+      authenticated: true,
+      clientId: grant.clientId,
+      scopes: [...grant.scopes],
+    }
+    return response
+  })
+
+  server.register('invocation.input', async ({ id, method, params }) => {
+    validateParams(method, id, params)
+    const req = params as Parameters<typeof broker.input>[0]
+    authorizeObserverControl(broker, session, 'invocation.input', req.invocationId)
+    return broker.input(req)
+  })
+
+  server.register('invocation.interrupt', async ({ id, method, params }) => {
+    validateParams(method, id, params)
+    const req = params as Parameters<typeof broker.interrupt>[0]
+    authorizeObserverControl(broker, session, 'invocation.interrupt', req.invocationId)
+    return broker.interrupt(req)
+  })
+
+  server.register('invocation.permission.respond', async ({ id, method, params }) => {
+    validateParams(method, id, params)
+    const req = params as Parameters<typeof broker.permissionRespond>[0]
+    authorizeObserverControl(broker, session, 'invocation.permission.respond', req.invocationId)
+    return broker.permissionRespond(req)
+  })
+}
+
 /**
  * Long-lived broker over a Unix domain socket. The broker process owns a single
  * `net.Server`; controllers connect and disconnect freely without terminating
@@ -299,9 +368,9 @@ async function runUnix(args: string[], options: RunBrokerCliOptions): Promise<vo
     readFlag(args, '--experimental-observer-mode') ??
     process.env['HARNESS_BROKER_OBSERVER_MODE'] ??
     'observe'
-  if (observerSocketPath !== undefined && observerMode !== 'observe') {
+  if (observerSocketPath !== undefined && !isObserverMode(observerMode)) {
     process.stderr.write(
-      `Unsupported --experimental-observer-mode ${JSON.stringify(observerMode)}; only "observe" is implemented\n`
+      `Unsupported --experimental-observer-mode ${JSON.stringify(observerMode)}; expected "observe" or "control"\n`
     )
     process.exit(1)
   }
@@ -322,7 +391,16 @@ async function runUnix(args: string[], options: RunBrokerCliOptions): Promise<vo
   const generationRaw = readFlag(args, '--generation')
   const attachTokenFile = readFlag(args, '--attach-token-file')
 
-  const eventLedger = ledgerPath !== undefined ? createEventLedger({ path: ledgerPath }) : undefined
+  let eventLedger: EventLedger | undefined
+  let sqliteLedger: SqliteEventLedger | undefined
+  try {
+    const opened = ledgerPath !== undefined ? openEventLedger(ledgerPath, args) : undefined
+    eventLedger = opened?.ledger
+    sqliteLedger = opened?.sqlite
+  } catch (err) {
+    process.stderr.write(`${err instanceof Error ? err.message : String(err)}\n`)
+    process.exit(1)
+  }
 
   let attachIdentity: BrokerAttachIdentity | undefined
   if (
@@ -338,6 +416,12 @@ async function runUnix(args: string[], options: RunBrokerCliOptions): Promise<vo
       attachToken: (await readFile(attachTokenFile, 'utf8')).trim(),
     }
   }
+  // Without a scoped token file, control mode falls back to the attach token,
+  // which authenticates the controller's side-car tools read-only.
+  const observerControl =
+    observerSocketPath !== undefined && observerMode === 'control'
+      ? await loadObserverControlFromArgs(args, attachTokenFile)
+      : undefined
 
   await mkdir(dirname(socketPath), { recursive: true, mode: 0o700 })
 
@@ -397,7 +481,11 @@ async function runUnix(args: string[], options: RunBrokerCliOptions): Promise<vo
   )
 
   if (observerSocketPath !== undefined) {
-    observer = await startBrokerObserverSocket({ socketPath: observerSocketPath, broker })
+    observer = await startBrokerObserverSocket({
+      socketPath: observerSocketPath,
+      broker,
+      control: observerControl,
+    })
   }
 
   // Send a terminal control error to the fenced controller, then close it. The
@@ -437,6 +525,13 @@ async function runUnix(args: string[], options: RunBrokerCliOptions): Promise<vo
     return response
   }
 
+  /**
+   * Last ack floor seen per live invocation, to count what each ack newly
+   * released. Compaction drops the entries of invocations that have ended.
+   */
+  const ackFloors = new Map<string, number>()
+  let ackedSinceCompaction = 0
+
   async function handleAckEvents(
     params: InvocationAckEventsRequest
   ): Promise<InvocationAckEventsResponse> {
@@ -447,7 +542,46 @@ async function runUnix(args: string[], options: RunBrokerCliOptions): Promise<vo
         { controllerInstanceId: params.controllerInstanceId }
       )
     }
-    return broker.ackEvents(params)
+    const response = await broker.ackEvents(params)
+    if (!sqliteLedger) return response
+    // An ack may move an exited invocation's floor, but a prune per ack would
+    // cost a full invocation scan for a handful of rows; only compact early
+    // once enough acked events have piled up, and leave the rest to the timer.
+    const previousFloor = ackFloors.get(params.invocationId) ?? 0
+    if (response.ackedThroughSeq > previousFloor) {
+      ackFloors.set(params.invocationId, response.ackedThroughSeq)
+      ackedSinceCompaction += response.ackedThroughSeq - previousFloor
+    }
+    if (ackedSinceCompaction >= LEDGER_COMPACTION_ACKED_EVENTS) void compactLedger()
+    return response
+  }
+
+  /**
+   * Prune the SQLite ledger past each ack floor and apply its retention policy.
+   * The JSONL ledger rewrites its whole file on prune, so it is left to the
+   * caller's explicit prune instead of being compacted here.
+   */
+  async function compactLedger(): Promise<void> {
+    if (!sqliteLedger) return
+    ackedSinceCompaction = 0
+    try {
+      const { invocations } = await broker.listInvocations({})
+      const activeInvocationIds = invocations
+        .filter((summary) => summary.state !== 'exited' && summary.state !== 'failed')
+        .map((summary) => summary.invocationId)
+      const active = new Set<string>(activeInvocationIds)
+      for (const invocationId of ackFloors.keys()) {
+        if (!active.has(invocationId)) ackFloors.delete(invocationId)
+      }
+      await sqliteLedger.prune({ activeInvocationIds })
+    } catch (err) {
+      process.stderr.write(
+        `Event ledger compaction failed: ${err instanceof Error ? err.message : String(err)}\n`
+      )
+    }
+  }
+  if (sqliteLedger) {
+    setInterval(() => void compactLedger(), LEDGER_COMPACTION_INTERVAL_MS).unref()
   }
 
   function registerDurabilityMethods(server: ProtocolServer, socket: Socket): void {
@@ -474,9 +608,7 @@ async function runUnix(args: string[], options: RunBrokerCliOptions): Promise<vo
       stdout: socket,
       stderr: process.stderr,
     })
-    registerBrokerMethods(server, broker, {
-      experimentalObserverEnabled: observerSocketPath !== undefined,
-    })
+    registerBrokerMethods(server, broker)
     registerDurabilityMethods(server, socket)
     void server.start()
 
@@ -505,6 +637,7 @@ async function runUnix(args: string[], options: RunBrokerCliOptions): Promise<vo
   const shutdown = (): void => {
     netServer.close()
     void Promise.all([observer?.close(), unlink(socketPath).catch(() => {})]).then(() => {
+      sqliteLedger?.close()
       process.exit(0)
     })
   }
@@ -524,8 +657,10 @@ async function runUnix(args: string[], options: RunBrokerCliOptions): Promise<vo
 async function startBrokerObserverSocket(options: {
   socketPath: string
   broker: Broker
+  /** Present in control mode: enables token-scoped mutations per connection. */
+  control?: ObserverControlPolicy | undefined
 }): Promise<BrokerObserverSocket> {
-  const { socketPath, broker } = options
+  const { socketPath, broker, control } = options
   assertSocketPathWithinBudget(socketPath)
   await mkdir(dirname(socketPath), { recursive: true, mode: 0o700 })
   await reclaimStaleSocket(socketPath)
@@ -568,6 +703,9 @@ async function startBrokerObserverSocket(options: {
       },
     }
     registerBrokerObserverMethods(observer, observerBroker)
+    if (control !== undefined) {
+      registerBrokerObserverControlMethods(observer, broker, control)
+    }
     observers.add(client)
     void observer.start()
 
@@ -738,6 +876,82 @@ async function runOnce(args: string[], options: RunBrokerCliOptions): Promise<vo
   await broker.dispose({ invocationId: start.invocationId })
 }
 
+/**
+ * Render one invocation's durable event stream to stdout, for any driver. Exits
+ * 0 once the invocation has exited (or, with `--no-follow`, once the history is
+ * printed) and 1 if the socket goes away first or the broker does not know the
+ * invocation.
+ */
+async function runTail(args: string[]): Promise<void> {
+  const socketPath = readFlag(args, '--socket')
+  const invocationId = readFlag(args, '--invocation')
+  if (!socketPath || !invocationId) {
+    process.stderr.write(
+      'Usage: harness-broker tail --socket <observer-socket> --invocation <id> [--no-follow] [--no-color]\n'
+    )
+    process.exit(1)
+  }
+
+  const tail = startBrokerTail({
+    socketPath,
+    invocationId,
+    follow: !args.includes('--no-follow'),
+    ...(args.includes('--no-color') ? { color: false } : {}),
+  })
+  process.on('SIGINT', () => tail.stop())
+  const reason = await tail.done
+  process.exit(reason === 'disconnected' || reason === 'unknown' ? 1 : 0)
+}
+
+/**
+ * Write one invocation's transcript, folded from a ledger on disk, as Markdown,
+ * HTML or JSONL. `--ledger` takes the same spellings as `--event-ledger`;
+ * output goes to stdout unless `--output` names a file.
+ */
+async function runExport(args: string[]): Promise<void> {
+  const ledger = readFlag(args, '--ledger')
+  const invocationId = readFlag(args, '--invocation')
+  const format = readFlag(args, '--format') ?? 'md'
+  const outputPath = readFlag(args, '--output')
+  if (!ledger || !invocationId) {
+    process.stderr.write(
+      `Usage: harness-broker export --ledger <path> --invocation <id> [--format ${TRANSCRIPT_EXPORT_FORMATS.join('|')}] [--usage] [--output <file>]\n`
+    )
+    process.exit(1)
+  }
+  if (!isTranscriptExportFormat(format)) {
+    process.stderr.write(
+      `Unknown export format ${JSON.stringify(format)}; expected one of ${TRANSCRIPT_EXPORT_FORMATS.join(', ')}\n`
+    )
+    process.exit(1)
+  }
+
+  let events: InvocationEventEnvelope[]
+  try {
+    events = await readLedgerEvents(ledger, invocationId)
+  } catch (err) {
+    process.stderr.write(`${formatError(err)}\n`)
+    process.exit(1)
+  }
+  if (events.length === 0) {
+    process.stderr.write(`No events for invocation ${invocationId} in ${ledger}\n`)
+    process.exit(1)
+  }
+
+  const rendered = renderTranscript(foldTranscript(invocationId, events), format, {
+    includeUsage: args.includes('--usage'),
+  })
+  if (outputPath !== undefined) {
+    await Bun.write(outputPath, rendered)
+  } else {
+    process.stdout.write(rendered)
+  }
+}
+
+function isTranscriptExportFormat(value: string): value is TranscriptExportFormat {
+  return (TRANSCRIPT_EXPORT_FORMATS as readonly string[]).includes(value)
+}
+
 /**
  * Resolve a single InvocationStartRequest from CLI flags. `--start-request`
  * (the ASP compiler's output shape) is preferred; `--spec`/`--input` is kept
@@ -790,6 +1004,91 @@ function formatError(err: unknown): string {
   return err instanceof Error ? err.message : String(err)
 }
 
+/**
+ * Open the durable ledger named by `--event-ledger`. A bare path (or a
+ * `jsonl:` prefix) keeps the JSONL ledger; `sqlite:<path>` selects the SQLite
+ * backend, which also reads the `--event-ledger-max-age-ms` /
+ * `--event-ledger-max-bytes` retention flags and migrates a JSONL ledger named
+ * by `--event-ledger-import` once, renaming it to `<path>.migrated`.
+ */
+function openEventLedger(
+  value: string,
+  args: string[]
+): { ledger: EventLedger; sqlite?: SqliteEventLedger | undefined } {
+  const importPath = readFlag(args, '--event-ledger-import')
+  if (!value.startsWith('sqlite:')) {
+    if (importPath !== undefined) {
+      throw new Error('--event-ledger-import requires a sqlite: --event-ledger')
+    }
+    return { ledger: createEventLedger({ path: value.replace(/^jsonl:/, '') }) }
+  }
+
+  const maxAgeMs = readNumberFlag(args, '--event-ledger-max-age-ms')
+  const maxBytes = readNumberFlag(args, '--event-ledger-max-bytes')
+  const sqlite = createSqliteEventLedger({
+    path: value.slice('sqlite:'.length),
+    retention: {
+      ...(maxAgeMs !== undefined ? { maxAgeMs } : {}),
+      ...(maxBytes !== undefined ? { maxBytes } : {}),
+    },
+  })
+  if (importPath !== undefined && existsSync(importPath)) {
+    const { imported, skipped } = sqlite.importJsonl(importPath)
+    renameSync(importPath, `${importPath}.migrated`)
+    process.stderr.write(
+      `Migrated ${imported} event(s) from ${importPath} (${skipped} already present)\n`
+    )
+  }
+  return { ledger: sqlite, sqlite }
+}
+
+function readNumberFlag(args: string[], flag: string): number | undefined {
+  const raw = readFlag(args, flag)
+  if (raw === undefined) return undefined
+  const value = Number(raw)
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`${flag} must be a non-negative number, got ${JSON.stringify(raw)}`)
+  }
+  return value
+}
+
+function isObserverMode(mode: string): mode is 'observe' | 'control' {
+  return mode === 'observe' || mode === 'control'
+}
+
+/**
+ * Load the control-mode token policy from `--observer-token-file` (or
+ * HARNESS_BROKER_OBSERVER_TOKEN_FILE), falling back to the attach token in
+ * `fallbackTokenFile` with no control scopes. Exits the process on a missing or
+ * malformed file: control mode never starts unauthenticated.
+ */
+async function loadObserverControlFromArgs(
+  args: string[],
+  fallbackTokenFile?: string | undefined
+): Promise<ObserverControlPolicy> {
+  const tokenFile =
+    readFlag(args, '--observer-token-file') ?? process.env['HARNESS_BROKER_OBSERVER_TOKEN_FILE']
+  if (tokenFile === undefined && fallbackTokenFile === undefined) {
+    process.stderr.write(
+      '--experimental-observer-mode control requires --observer-token-file <path>\n'
+    )
+    process.exit(1)
+  }
+  try {
+    if (tokenFile !== undefined) {
+      return await loadObserverControlPolicy(tokenFile)
+    }
+    const attachToken = (await readFile(fallbackTokenFile as string, 'utf8')).trim()
+    if (attachToken === '') {
+      throw new Error(`${fallbackTokenFile}: no tokens`)
+    }
+    return createAttachTokenObserverPolicy(attachToken)
+  } catch (err) {
+    process.stderr.write(`${err instanceof Error ? err.message : String(err)}\n`)
+    process.exit(1)
+  }
+}
+
 function readFlag(args: string[], flag: string): string | undefined {
   const index = args.indexOf(flag)
   return index === -1 ? undefined : args[index + 1]
@@ -6,6 +6,7 @@ import type {
 } from 'spaces-harness-broker-protocol'
 import { type BrokerAttachIdentity, createBroker } from './broker'
 import { createDefaultClaudeCodeTmuxDriver } from './drivers/claude-code-tmux/driver'
+import { createClaudeStreamJsonDriver } from './drivers/claude-stream-json/driver'
 import { createCodexAppServerDriver } from './drivers/codex-app-server/driver'
 import { createDefaultCodexCliTmuxDriver } from './drivers/codex-cli-tmux/driver'
 import type { Driver } from './drivers/driver'
@@ -43,6 +44,7 @@ export function createDefaultBroker(
       createDefaultClaudeCodeTmuxDriver(options.hookIpcDir),
       createDefaultCodexCliTmuxDriver(options.hookIpcDir),
       createDefaultPiTuiTmuxDriver(options.hookIpcDir),
+      createClaudeStreamJsonDriver(),
       ...(options.additionalDrivers?.map((createDriver) => createDriver()) ?? []),
     ],
     ...(onEvent !== undefined ? { onEvent } : {}),
@@ -0,0 +1,46 @@
+import type { InvocationCapabilities } from 'spaces-harness-broker-protocol'
+import { CONSERVATIVE_LIFECYCLE_CAPABILITIES } from 'spaces-harness-broker-protocol'
+
+/**
+ * Static capability descriptor for the claude-stream-json driver.
+ *
+ * Honest to what the headless `claude -p` stream-json surface exposes: text
+ * user turns, partial assistant deltas, tool calls, result usage, `--resume`
+ * session continuation, and a protocol-level interrupt via the control
+ * channel. Mid-turn steer, context appends, images and structured final
+ * responses are not wired through this driver.
+ */
+export const CLAUDE_STREAM_JSON_CAPABILITIES: InvocationCapabilities = {
+  input: {
+    user: true,
+    steer: false,
+    appendContext: false,
+    localImages: false,
+    fileRefs: false,
+    queue: true,
+  },
+  turns: {
+    concurrency: 'single',
+    interrupt: 'protocol',
+  },
+  continuation: {
+    supported: true,
+    provider: 'anthropic',
+    keyKind: 'session',
+  },
+  events: {
+    assistantDeltas: true,
+    toolCalls: true,
+    usage: true,
+    diagnostics: true,
+  },
+  control: {
+    stop: true,
+    dispose: true,
+  },
+  permissions: {
+    brokerToClientRequests: true,
+    eventAudit: true,
+  },
+  lifecycle: CONSERVATIVE_LIFECYCLE_CAPABILITIES,
+}
@@ -0,0 +1,575 @@
+import { createInterface } from 'node:readline'
+import type {
+  ClaudeStreamJsonDriverSpec,
+  HarnessInvocationSpec,
+  InputId,
+  InvocationCapabilities,
+  InvocationInput,
+  InvocationInterruptRequest,
+  InvocationInterruptResponse,
+  InvocationStopRequest,
+  InvocationStopResponse,
+  TurnId,
+} from 'spaces-harness-broker-protocol'
+import { BrokerErrorCode } from 'spaces-harness-broker-protocol'
+import { BrokerError } from '../../errors'
+import { spawnHarnessProcess } from '../../runtime/process-runner'
+import { terminateProcess } from '../../runtime/signals'
+import {
+  type PermissionHandlerContext,
+  createPermissionRequestIdAllocator,
+} from '../codex-app-server/permissions'
+import type { ApplyInputResult, Driver, DriverContext, DriverStartResult } from '../driver'
+import { asRecord, getString } from '../hook-json'
+import { extractText } from '../tmux-shared'
+import { CLAUDE_STREAM_JSON_CAPABILITIES } from './capabilities'
+import {
+  CLAUDE_STREAM_JSON_DRIVER_KIND,
+  type ClaudeResultInfo,
+  createClaudeStreamMapper,
+  parseClaudeResult,
+} from './event-map'
+import { handleClaudeToolPermission } from './permissions'
+
+const CLAUDE_STREAM_JSON_DRIVER_VERSION = '0.1.0'
+const MAX_DIAGNOSTIC_LINE = 512
+
+type ChildProcess = Awaited<ReturnType<typeof spawnHarnessProcess>>
+type DriverEventExtra = NonNullable<Parameters<DriverContext['emit']>[2]>
+
+interface PendingControlRequest {
+  resolve: (response: Record<string, unknown>) => void
+  reject: (error: Error) => void
+}
+
+interface TurnFailure {
+  message: string
+  code: string
+  data?: unknown
+  retryable?: boolean | undefined
+  reason?: string | undefined
+}
+
+/**
+ * Headless Claude driver over the `claude -p` stream-json protocol.
+ *
+ * One long-lived child serves the whole invocation: each broker input is
+ * written to stdin as a `user` message and the turn ends at the matching
+ * `result` message. Permission prompts and interrupts ride the CLI's
+ * bidirectional `control_request` / `control_response` channel on the same
+ * pipes.
+ */
+export function createClaudeStreamJsonDriver(): Driver {
+  let ctx: DriverContext | undefined
+  let spec: HarnessInvocationSpec | undefined
+  let driverSpec: ClaudeStreamJsonDriverSpec | undefined
+  let proc: ChildProcess | undefined
+  let sessionId: string | undefined
+  let currentInputId: InputId | undefined
+  let currentTurnId: TurnId | undefined
+  let turnCounter = 0
+  let controlCounter = 0
+  let turnActive = false
+  let startedEmitted = false
+  let terminalEmitted = false
+  let stopping = false
+  let interruptRequested = false
+  // Results still owed by Claude for turns the broker already closed (its
+  // `turnTimeoutMs`). They are dropped so they never terminate a later turn.
+  let staleResults = 0
+  const pendingControl = new Map<string, PendingControlRequest>()
+  const mapper = createClaudeStreamMapper()
+  const permissionRequestIds = createPermissionRequestIdAllocator()
+
+  function requireCtx(): DriverContext {
+    if (!ctx) {
+      throw new BrokerError(BrokerErrorCode.InvalidInvocationState, 'Driver has not started')
+    }
+    return ctx
+  }
+
+  function emitDiagnostic(
+    level: 'debug' | 'info' | 'warn' | 'error',
+    message: string,
+    data?: unknown,
+    extra?: DriverEventExtra
+  ): void {
+    requireCtx().emit(
+      'diagnostic',
+      {
+        level,
+        message,
+        source: 'harness',
+        ...(data !== undefined ? { data } : {}),
+      },
+      extra
+    )
+  }
+
+  function activeTurnExtra(rawType?: string): DriverEventExtra {
+    return {
+      ...(currentTurnId !== undefined ? { turnId: currentTurnId } : {}),
+      ...(currentInputId !== undefined ? { inputId: currentInputId } : {}),
+      driver: {
+        kind: CLAUDE_STREAM_JSON_DRIVER_KIND,
+        ...(rawType !== undefined ? { rawType } : {}),
+      },
+    }
+  }
+
+  function writeFrame(frame: unknown): void {
+    if (proc === undefined || proc.stdin.destroyed) {
+      throw new BrokerError(BrokerErrorCode.InvalidInvocationState, 'Claude process is not running')
+    }
+    proc.stdin.write(`${JSON.stringify(frame)}\n`)
+  }
+
+  function sendControlRequest(request: Record<string, unknown>): Promise<Record<string, unknown>> {
+    controlCounter += 1
+    const requestId = `broker_req_${controlCounter}`
+    return new Promise((resolve, reject) => {
+      pendingControl.set(requestId, { resolve, reject })
+      try {
+        writeFrame({ type: 'control_request', request_id: requestId, request })
+      } catch (error) {
+        pendingControl.delete(requestId)
+        reject(error instanceof Error ? error : new Error(String(error)))
+      }
+    })
+  }
+
+  function rejectPendingControl(message: string): void {
+    for (const pending of pendingControl.values()) {
+      pending.reject(new BrokerError(BrokerErrorCode.HarnessError, message))
+    }
+    pendingControl.clear()
+  }
+
+  function emitTerminalFailure(message: string, code?: string, data?: unknown): void {
+    if (terminalEmitted) return
+    terminalEmitted = true
+    requireCtx().emit('invocation.failed', {
+      message,
+      ...(code !== undefined ? { code } : {}),
+      ...(data !== undefined ? { data } : {}),
+    })
+  }
+
+  function failActiveTurn(failure: TurnFailure): boolean {
+    if (!turnActive || currentTurnId === undefined) return false
+    requireCtx().emit(
+      'turn.failed',
+      {
+        turnId: currentTurnId,
+        status: 'failed',
+        message: failure.message,
+        code: failure.code,
+        ...(failure.data !== undefined ? { data: failure.data } : {}),
+        ...(failure.retryable !== undefined ? { retryable: failure.retryable } : {}),
+        ...(failure.reason !== undefined ? { reason: failure.reason } : {}),
+      },
+      activeTurnExtra()
+    )
+    turnActive = false
+    interruptRequested = false
+    return true
+  }
+
+  function reportSession(nextSessionId: string | undefined, rawType: string): void {
+    if (nextSessionId === undefined || nextSessionId === sessionId) return
+    sessionId = nextSessionId
+    requireCtx().emit(
+      'continuation.updated',
+      { provider: 'anthropic', kind: 'session', key: nextSessionId },
+      { driver: { kind: CLAUDE_STREAM_JSON_DRIVER_KIND, rawType } }
+    )
+  }
+
+  function finishTurn(result: ClaudeResultInfo): void {
+    reportSession(result.sessionId, 'result')
+    if (staleResults > 0) {
+      staleResults -= 1
+      return
+    }
+    if (!turnActive || currentTurnId === undefined) return
+    const turnId = currentTurnId
+    const extra = activeTurnExtra('result')
+    if (result.usage !== undefined) {
+      requireCtx().emit('usage.updated', { usage: result.usage }, extra)
+    }
+    turnActive = false
+
+    if (interruptRequested) {
+      interruptRequested = false
+      requireCtx().emit(
+        'turn.interrupted',
+        {
+          turnId,
+          status: 'interrupted',
+          reason: 'interrupt',
+          ...(result.text !== undefined ? { finalOutput: result.text } : {}),
+        },
+        extra
+      )
+      return
+    }
+
+    if (result.subtype === 'success' && !result.isError) {
+      requireCtx().emit(
+        'turn.completed',
+        {
+          turnId,
+          status: 'completed',
+          ...(result.text !== undefined ? { finalOutput: result.text } : {}),
+          producedContent: mapper.producedContent(),
+          ...(result.usage !== undefined ? { usage: result.usage } : {}),
+        },
+        extra
+      )
+      return
+    }
+
+    const message =
+      result.errors[0] ??
+      (result.isError && result.text !== undefined && result.text.length > 0
+        ? result.text
+        : `Claude turn ended with ${result.subtype}`)
+    requireCtx().emit(
+      'turn.failed',
+      {
+        turnId,
+        status: 'failed',
+        message,
+        code: `claude_${result.subtype}`,
+        data: {
+          subtype: result.subtype,
+          ...(result.numTurns !== undefined ? { numTurns: result.numTurns } : {}),
+          ...(result.totalCostUsd !== undefined ? { totalCostUsd: result.totalCostUsd } : {}),
+        },
+        ...(result.text !== undefined ? { finalOutput: result.text } : {}),
+      },
+      extra
+    )
+  }
+
+  async function handleControlRequest(message: Record<string, unknown>): Promise<void> {
+    const requestId = getString(message, 'request_id')
+    const request = asRecord(message['request'])
+    const subtype = getString(request, 'subtype')
+    if (requestId === undefined) return
+
+    if (subtype !== 'can_use_tool' || driverSpec === undefined) {
+      writeFrame({
+        type: 'control_response',
+        response: {
+          subtype: 'error',
+          request_id: requestId,
+          error: `Unsupported control request: ${subtype ?? 'unknown'}`,
+        },
+      })
+      return
+    }
+
+    const permCtx: PermissionHandlerContext = {
+      ctx: requireCtx(),
+      driver: driverSpec,
+      currentTurnId,
+      currentInputId,
+      permissionRequestIds,
+    }
+    const response = await handleClaudeToolPermission(request, permCtx)
+    if (terminalEmitted || proc === undefined || proc.stdin.destroyed) return
+    writeFrame({
+      type: 'control_response',
+      response: { subtype: 'success', request_id: requestId, response },
+    })
+  }
+
+  function handleControlResponse(message: Record<string, unknown>): void {
+    const response = asRecord(message['response'])
+    const requestId = getString(response, 'request_id')
+    if (requestId === undefined) return
+    const pending = pendingControl.get(requestId)
+    if (pending === undefined) return
+    pendingControl.delete(requestId)
+    if (getString(response, 'subtype') === 'error') {
+      pending.reject(
+        new BrokerError(
+          BrokerErrorCode.HarnessError,
+          getString(response, 'error') ?? 'Claude control request failed'
+        )
+      )
+      return
+    }
+    pending.resolve(asRecord(response['response']))
+  }
+
+  function onLine(line: string): void {
+    if (ctx === undefined || line.trim().length === 0) return
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(line)
+    } catch {
+      emitDiagnostic(
+        'warn',
+        'Claude emitted a non-JSON stream line',
+        { line: line.slice(0, MAX_DIAGNOSTIC_LINE) },
+        activeTurnExtra()
+      )
+      return
+    }
+    // After any invocation-terminal event, drop further native messages so a
+    // late result can never follow a terminal.
+    if (terminalEmitted) return
+
+    const message = asRecord(parsed)
+    const type = getString(message, 'type')
+    switch (type) {
+      case 'system':
+        if (getString(message, 'subtype') === 'init') {
+          reportSession(getString(message, 'session_id'), 'system.init')
+        }
+        return
+      case 'control_request':
+        handleControlRequest(message).catch((error: unknown) => {
+          emitDiagnostic(
+            'error',
+            error instanceof Error ? error.message : 'Claude permission request failed',
+            undefined,
+            activeTurnExtra('control_request')
+          )
+        })
+        return
+      case 'control_response':
+        handleControlResponse(message)
+        return
+      case 'control_cancel_request':
+        return
+      case 'result':
+        finishTurn(parseClaudeResult(message))
+        return
+      default:
+        break
+    }
+
+    // Content arriving after the broker already closed the turn (timeout)
+    // belongs to no open turn; drop it rather than mis-attribute it.
+    if (!turnActive) return
+    for (const mapped of mapper.map(message)) {
+      requireCtx().emitEvent(mapped, { ...activeTurnExtra(), ...mapped.extra })
+    }
+  }
+
+  function onExit(code: number | null, signal: NodeJS.Signals | null): void {
+    rejectPendingControl('Claude process exited')
+    if (!startedEmitted || terminalEmitted) return
+
+    if (turnActive && currentTurnId !== undefined) {
+      if (stopping) {
+        requireCtx().emit(
+          'turn.interrupted',
+          { turnId: currentTurnId, status: 'interrupted' },
+          activeTurnExtra()
+        )
+        turnActive = false
+      } else {
+        const data = { exitCode: code, signal }
+        emitDiagnostic(
+          'error',
+          'Claude process exited during active turn',
+          { code: 'claude_process_exit', ...data },
+          activeTurnExtra()
+        )
+        failActiveTurn({
+          message: 'Harness process exited during active turn',
+          code: 'claude_process_exit',
+          data,
+          retryable: false,
+          reason: 'process-exit',
+        })
+      }
+    }
+
+    terminalEmitted = true
+    requireCtx().emit('invocation.exited', { exitCode: code, signal })
+  }
+
+  return {
+    kind: CLAUDE_STREAM_JSON_DRIVER_KIND,
+    version: CLAUDE_STREAM_JSON_DRIVER_VERSION,
+
+    capabilities(): InvocationCapabilities {
+      return CLAUDE_STREAM_JSON_CAPABILITIES
+    },
+
+    async start(
+      startSpec: HarnessInvocationSpec,
+      driverCtx: DriverContext
+    ): Promise<DriverStartResult> {
+      if (startSpec.driver.kind !== CLAUDE_STREAM_JSON_DRIVER_KIND) {
+        throw new BrokerError(BrokerErrorCode.DriverUnavailable, 'Invalid Claude driver spec')
+      }
+
+      ctx = driverCtx
+      spec = startSpec
+      driverSpec = startSpec.driver as ClaudeStreamJsonDriverSpec
+      sessionId = undefined
+      turnCounter = 0
+      terminalEmitted = false
+      startedEmitted = false
+      stopping = false
+      interruptRequested = false
+      staleResults = 0
+
+      // Claude credentials come from the locked env (API key / config dir);
+      // only the per-invocation dispatchEnv rides alongside.
+      const child = await spawnHarnessProcess(startSpec.process, {
+        credentials: {},
+        ...(driverCtx.dispatchEnv !== undefined ? { dispatchEnv: driverCtx.dispatchEnv } : {}),
+      })
+      proc = child
+      await new Promise<void>((resolve, reject) => {
+        child.once('spawn', () => resolve())
+        child.once('error', (error) =>
+          reject(
+            new BrokerError(
+              BrokerErrorCode.HarnessError,
+              `Failed to spawn Claude: ${error.message}`
+            )
+          )
+        )
+      })
+
+      child.on('exit', onExit)
+      child.on('error', (error) => {
+        if (ctx === undefined || stopping) return
+        emitDiagnostic('error', error.message, { code: 'claude_process_error' }, activeTurnExtra())
+        failActiveTurn({ message: error.message, code: 'claude_process_error', retryable: false })
+        emitTerminalFailure(error.message, 'claude_process_error')
+      })
+      child.stdin.on('error', (error) => {
+        if (terminalEmitted || stopping) return
+        emitDiagnostic(
+          'warn',
+          `Claude stdin closed: ${error.message}`,
+          undefined,
+          activeTurnExtra()
+        )
+      })
+      createInterface({ input: child.stdout }).on('line', onLine)
+      createInterface({ input: child.stderr }).on('line', (line) => {
+        if (ctx !== undefined && line.trim().length > 0) {
+          emitDiagnostic('info', line)
+        }
+      })
+
+      driverCtx.emit('invocation.started', {
+        pid: child.pid,
+        command: startSpec.process.command,
+        args: startSpec.process.args,
+        cwd: startSpec.process.cwd,
+      })
+      startedEmitted = true
+      driverCtx.emit('invocation.ready', { state: 'ready' })
+      return { ok: true }
+    },
+
+    // Driver applies the input immediately — broker manager owns all policy,
+    // disposition, and queue semantics. The broker opens the turn bracket from
+    // the returned turnId before any stream message for it can be read.
+    async applyInputNow(input: InvocationInput): Promise<ApplyInputResult> {
+      if (!proc || !spec || terminalEmitted) {
+        throw new BrokerError(BrokerErrorCode.InvalidInvocationState, 'Invocation is not ready')
+      }
+
+      const inputId = input.inputId ?? (`input_${Date.now().toString(36)}` as InputId)
+      const text = extractText(input)
+      turnCounter += 1
+      const turnId = `turn_${requireCtx().invocationId}_${turnCounter}` as TurnId
+      // A turn still open here was closed by the broker (turn timeout) before
+      // Claude answered; its result is owed and must not close this turn.
+      if (turnActive) staleResults += 1
+      currentInputId = inputId
+      currentTurnId = turnId
+      turnActive = true
+      interruptRequested = false
+      mapper.resetTurn()
+
+      requireCtx().emit(
+        'user.message',
+        { content: text, inputId, role: 'user' as const },
+        { inputId, driver: { kind: CLAUDE_STREAM_JSON_DRIVER_KIND, rawType: 'broker.input' } }
+      )
+
+      try {
+        writeFrame({
+          type: 'user',
+          message: { role: 'user', content: [{ type: 'text', text }] },
+          parent_tool_use_id: null,
+          session_id: sessionId ?? 'default',
+        })
+      } catch (error) {
+        turnActive = false
+        throw error
+      }
+      return { turnId }
+    },
+
+    async interrupt(req: InvocationInterruptRequest): Promise<InvocationInterruptResponse> {
+      if (req.scope !== 'turn') {
+        return {
+          accepted: false,
+          effect: 'unsupported',
+          reason: 'Claude stream-json interrupts turns only; use stop for the invocation',
+        }
+      }
+      if (!turnActive || proc === undefined || terminalEmitted) {
+        return { accepted: false, effect: 'no_active_turn' }
+      }
+      interruptRequested = true
+      try {
+        await sendControlRequest({ subtype: 'interrupt' })
+      } catch (error) {
+        interruptRequested = false
+        return {
+          accepted: false,
+          effect: 'unsupported',
+          reason: error instanceof Error ? error.message : 'Claude interrupt failed',
+        }
+      }
+      return { accepted: true, effect: 'turn_interrupted' }
+    },
+
+    async stop(req: InvocationStopRequest): Promise<InvocationStopResponse> {
+      stopping = true
+      if (!proc) {
+        return { accepted: false, state: 'failed' }
+      }
+      await terminateProcess({
+        proc,
+        graceMs: req.graceMs ?? spec?.process.limits?.stopGraceMs ?? 1000,
+      })
+      return { accepted: true, state: terminalEmitted ? 'exited' : 'failed' }
+    },
+
+    async dispose(): Promise<void> {
+      rejectPendingControl('Claude driver disposed')
+      if (proc !== undefined && proc.exitCode === null) {
+        proc.kill('SIGTERM')
+      }
+      ctx = undefined
+      spec = undefined
+      driverSpec = undefined
+      proc = undefined
+      sessionId = undefined
+      currentInputId = undefined
+      currentTurnId = undefined
+      turnActive = false
+      startedEmitted = false
+      terminalEmitted = false
+      stopping = false
+      interruptRequested = false
+      staleResults = 0
+    },
+  }
+}
@@ -0,0 +1,231 @@
+import type { MessageId, ToolCallId } from 'spaces-harness-broker-protocol'
+import type { MappedEvent } from '../codex-app-server/event-map'
+import { asRecord, getNumber, getString } from '../hook-json'
+
+/** Stable driver identity stamped onto every event derived from a stream message. */
+export const CLAUDE_STREAM_JSON_DRIVER_KIND = 'claude-stream-json'
+
+/**
+ * Per-invocation mapper from Claude `--output-format stream-json` content
+ * messages (`stream_event`, `assistant`, `user`) onto broker events. Turn
+ * brackets, `system`, `result` and control messages are owned by the driver,
+ * which knows the broker turn id; this mapper only tracks what it needs to
+ * keep message and tool brackets coherent across one turn.
+ */
+export interface ClaudeStreamMapper {
+  map(message: Record<string, unknown>): MappedEvent[]
+  /** True once the current turn produced assistant text or tool activity. */
+  producedContent(): boolean
+  /** Forget per-turn state before the next user message is written. */
+  resetTurn(): void
+}
+
+export interface ClaudeResultInfo {
+  subtype: string
+  isError: boolean
+  text?: string | undefined
+  sessionId?: string | undefined
+  usage?: unknown
+  totalCostUsd?: number | undefined
+  durationMs?: number | undefined
+  numTurns?: number | undefined
+  errors: string[]
+}
+
+export function createClaudeStreamMapper(): ClaudeStreamMapper {
+  const startedMessages = new Set<string>()
+  const toolNames = new Map<string, string>()
+  let streamingMessageId: string | undefined
+  let produced = false
+
+  function startMessage(messageId: string, rawType: string): MappedEvent[] {
+    if (startedMessages.has(messageId)) return []
+    startedMessages.add(messageId)
+    return [
+      {
+        type: 'assistant.message.started',
+        payload: { messageId: asMessageId(messageId) },
+        extra: { itemId: messageId, driver: driverExtra(rawType) },
+      },
+    ]
+  }
+
+  function mapStreamEvent(message: Record<string, unknown>): MappedEvent[] {
+    const event = asRecord(message['event'])
+    const eventType = getString(event, 'type')
+    if (eventType === 'message_start') {
+      const messageId = getString(asRecord(event['message']), 'id')
+      if (messageId === undefined) return []
+      streamingMessageId = messageId
+      return startMessage(messageId, 'stream_event.message_start')
+    }
+    if (eventType === 'content_block_delta' && streamingMessageId !== undefined) {
+      const delta = asRecord(event['delta'])
+      const text = getString(delta, 'text')
+      if (getString(delta, 'type') !== 'text_delta' || text === undefined || text.length === 0) {
+        return []
+      }
+      produced = true
+      return [
+        {
+          type: 'assistant.message.delta',
+          payload: { messageId: asMessageId(streamingMessageId), text },
+          extra: {
+            itemId: streamingMessageId,
+            driver: driverExtra('stream_event.content_block_delta'),
+          },
+        },
+      ]
+    }
+    if (eventType === 'message_stop') {
+      streamingMessageId = undefined
+    }
+    // Block starts/stops, thinking deltas and partial tool-input JSON carry no
+    // broker payload: the complete `assistant` message that follows is the
+    // authoritative source for tool input and final text.
+    return []
+  }
+
+  function mapAssistant(message: Record<string, unknown>): MappedEvent[] {
+    const body = asRecord(message['message'])
+    const messageId = getString(body, 'id') ?? getString(message, 'uuid')
+    const blocks = Array.isArray(body['content']) ? body['content'] : []
+    const events: MappedEvent[] = []
+    const text: Array<{ type: 'text'; text: string }> = []
+
+    for (const rawBlock of blocks) {
+      const block = asRecord(rawBlock)
+      const blockType = getString(block, 'type')
+      if (blockType === 'text') {
+        const value = getString(block, 'text')
+        if (value !== undefined && value.length > 0) text.push({ type: 'text', text: value })
+        continue
+      }
+      if (blockType === 'tool_use') {
+        const toolCallId = getString(block, 'id')
+        const name = getString(block, 'name')
+        if (toolCallId === undefined || name === undefined) continue
+        produced = true
+        toolNames.set(toolCallId, name)
+        events.push({
+          type: 'tool.call.started',
+          payload: {
+            toolCallId: asToolCallId(toolCallId),
+            name,
+            ...(block['input'] !== undefined ? { input: block['input'] } : {}),
+          },
+          extra: { itemId: toolCallId, driver: driverExtra('assistant.tool_use') },
+        })
+      }
+    }
+
+    if (text.length > 0 && messageId !== undefined) {
+      produced = true
+      events.unshift(...startMessage(messageId, 'assistant'), {
+        type: 'assistant.message.completed',
+        payload: { messageId: asMessageId(messageId), content: text },
+        extra: { itemId: messageId, driver: driverExtra('assistant') },
+      })
+    }
+    return events
+  }
+
+  function mapUser(message: Record<string, unknown>): MappedEvent[] {
+    const body = asRecord(message['message'])
+    // A plain-string user message is the CLI echoing our own input back.
+    if (!Array.isArray(body['content'])) return []
+    const events: MappedEvent[] = []
+    for (const rawBlock of body['content']) {
+      const block = asRecord(rawBlock)
+      if (getString(block, 'type') !== 'tool_result') continue
+      const toolCallId = getString(block, 'tool_use_id')
+      if (toolCallId === undefined) continue
+      const name = toolNames.get(toolCallId) ?? 'tool'
+      toolNames.delete(toolCallId)
+      const details = message['tool_use_result']
+      events.push({
+        type: 'tool.call.completed',
+        payload: {
+          toolCallId: asToolCallId(toolCallId),
+          name,
+          result: {
+            content: normalizeToolResultContent(block['content']),
+            ...(details !== undefined ? { details } : {}),
+          },
+          isError: block['is_error'] === true,
+        },
+        extra: { itemId: toolCallId, driver: driverExtra('user.tool_result') },
+      })
+    }
+    return events
+  }
+
+  return {
+    map(message: Record<string, unknown>): MappedEvent[] {
+      switch (getString(message, 'type')) {
+        case 'stream_event':
+          return mapStreamEvent(message)
+        case 'assistant':
+          return mapAssistant(message)
+        case 'user':
+          return mapUser(message)
+        default:
+          return []
+      }
+    },
+    producedContent(): boolean {
+      return produced
+    },
+    resetTurn(): void {
+      startedMessages.clear()
+      toolNames.clear()
+      streamingMessageId = undefined
+      produced = false
+    },
+  }
+}
+
+/** Project a stream-json `result` message onto the fields the driver needs. */
+export function parseClaudeResult(message: Record<string, unknown>): ClaudeResultInfo {
+  const rawErrors = message['errors']
+  const errors = Array.isArray(rawErrors)
+    ? rawErrors.filter((entry): entry is string => typeof entry === 'string')
+    : []
+  const costUsd = message['total_cost_usd']
+  return {
+    subtype: getString(message, 'subtype') ?? 'unknown',
+    isError: message['is_error'] === true,
+    text: getString(message, 'result'),
+    sessionId: getString(message, 'session_id'),
+    ...(message['usage'] !== undefined ? { usage: message['usage'] } : {}),
+    totalCostUsd: typeof costUsd === 'number' ? costUsd : undefined,
+    durationMs: getNumber(message, 'duration_ms'),
+    numTurns: getNumber(message, 'num_turns'),
+    errors,
+  }
+}
+
+/**
+ * Flatten a `tool_result` content field to text. Claude sends either a plain
+ * string or an array of content blocks; non-text blocks (images) are dropped.
+ */
+function normalizeToolResultContent(content: unknown): string {
+  if (typeof content === 'string') return content
+  if (!Array.isArray(content)) return ''
+  return content
+    .map((entry) => getString(asRecord(entry), 'text'))
+    .filter((text): text is string => text !== undefined)
+    .join('\n')
+}
+
+function driverExtra(rawType: string): { kind: string; rawType: string } {
+  return { kind: CLAUDE_STREAM_JSON_DRIVER_KIND, rawType }
+}
+
+function asMessageId(value: string): MessageId {
+  return value as MessageId
+}
+
+function asToolCallId(value: string): ToolCallId {
+  return value as ToolCallId
+}
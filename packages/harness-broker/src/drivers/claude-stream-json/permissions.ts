@@ -0,0 +1,72 @@
+import { type PermissionHandlerContext, decidePermission } from '../codex-app-server/permissions'
+import { asRecord, getString } from '../hook-json'
+
+/** Tools whose approval is a file write rather than a generic tool call. */
+const FILE_CHANGE_TOOLS = new Set(['Edit', 'MultiEdit', 'Write', 'NotebookEdit'])
+
+/**
+ * Answer for a `can_use_tool` control request, in the shape the Claude CLI
+ * expects inside `control_response.response.response`.
+ */
+export type ClaudeToolPermissionResult =
+  | { behavior: 'allow'; updatedInput: Record<string, unknown> }
+  | { behavior: 'deny'; message: string }
+
+/**
+ * Map a Claude tool name to the broker permission kind used for audit events.
+ */
+export function claudePermissionKind(toolName: string): string {
+  if (toolName === 'Bash') return 'command'
+  if (FILE_CHANGE_TOOLS.has(toolName)) return 'file_change'
+  return 'tool'
+}
+
+/**
+ * Re-key the Claude tool input onto the field names the bounded display
+ * projection allowlists (`command`, `path`, `name`, `reason`). The projection
+ * itself stays positive: anything not named here never reaches the subject.
+ * `name` rides on every kind so `rules` policies can match the tool; the
+ * display projection drops it where the kind does not allowlist it.
+ */
+function toPermissionSubject(
+  kind: string,
+  toolName: string,
+  input: Record<string, unknown>
+): Record<string, unknown> {
+  const reason = getString(input, 'description')
+  const withReason = reason !== undefined ? { reason } : {}
+  if (kind === 'command') {
+    return { command: input['command'], name: toolName, ...withReason }
+  }
+  if (kind === 'file_change') {
+    return {
+      path: getString(input, 'file_path') ?? getString(input, 'notebook_path'),
+      name: toolName,
+    }
+  }
+  return { name: toolName, ...withReason }
+}
+
+/**
+ * Handle a `can_use_tool` control request from `claude -p
+ * --permission-prompt-tool stdio`. The decision runs through the shared
+ * broker permission policy; the native input is echoed back unchanged on
+ * allow, since the broker never rewrites tool arguments.
+ */
+export async function handleClaudeToolPermission(
+  request: Record<string, unknown>,
+  handlerCtx: PermissionHandlerContext
+): Promise<ClaudeToolPermissionResult> {
+  const toolName = getString(request, 'tool_name') ?? 'unknown'
+  const input = asRecord(request['input'])
+  const kind = claudePermissionKind(toolName)
+  const decision = await decidePermission(
+    kind,
+    toPermissionSubject(kind, toolName, input),
+    handlerCtx
+  )
+  if (decision === 'allow') {
+    return { behavior: 'allow', updatedInput: input }
+  }
+  return { behavior: 'deny', message: `Permission to use ${toolName} was denied` }
+}
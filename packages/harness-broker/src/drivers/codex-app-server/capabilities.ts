@@ -1,5 +1,4 @@
 import type { InvocationCapabilities } from 'spaces-harness-broker-protocol'
-import { CONSERVATIVE_LIFECYCLE_CAPABILITIES } from 'spaces-harness-broker-protocol'
 
 /**
  * Static capability descriptor for the codex-app-server driver.
@@ -42,5 +41,13 @@ export const CODEX_CAPABILITIES: InvocationCapabilities = {
     strict: true,
     parsedResult: false,
   },
-  lifecycle: CONSERVATIVE_LIFECYCLE_CAPABILITIES,
+  // The driver owns its direct child, so the broker can recycle it and, with
+  // generation fencing and permission cancellation, safely retry a turn.
+  lifecycle: {
+    runtimeRetention: ['keep-alive'],
+    harnessRecovery: ['none', 'recycle-child'],
+    turnRetry: ['none', 'safe-retry'],
+    generationFencing: true,
+    permissionCancellation: true,
+  },
 }
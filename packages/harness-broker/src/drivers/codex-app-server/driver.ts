@@ -22,7 +22,16 @@ import {
 import { BrokerError } from '../../errors'
 import { spawnHarnessProcess } from '../../runtime/process-runner'
 import { terminateProcess } from '../../runtime/signals'
-import type { ApplyInputResult, Driver, DriverContext, DriverStartResult } from '../driver'
+import type {
+  ApplyInputResult,
+  Driver,
+  DriverContext,
+  DriverStartResult,
+  HarnessHealth,
+  HarnessHealthProbe,
+  HarnessRecycleRequest,
+  HarnessRecycleResult,
+} from '../driver'
 import {
   type HookListenerHandle,
   buildHookSocketPath,
@@ -56,6 +65,12 @@ interface ThreadResponse {
   thread?: { id?: string | undefined } | undefined
 }
 
+/**
+ * How many quiet windows (`noProgressMs`) an open tool call vouches for its
+ * turn under the `driver-status` probe before it counts as hung.
+ */
+const OPEN_TOOL_CALL_GRACE_FACTOR = 10
+
 type ChildProcess = Awaited<ReturnType<typeof spawnHarnessProcess>>
 type DriverEventExtra = NonNullable<Parameters<DriverContext['emit']>[2]>
 
@@ -103,6 +118,18 @@ export function createCodexAppServerDriver(): Driver {
   let turnTimeout: ReturnType<typeof setTimeout> | undefined
   let rendererControlListener: HookListenerHandle | undefined
   let rendererQuitAccepted = false
+  // Harness generations (broker-owned recycle-child recovery). Each spawned
+  // child's handlers are fenced on `liveGeneration`: once a generation is
+  // reported dead or is being replaced, its late exit, stderr, RPC errors and
+  // notifications are dropped so they cannot touch the next child's turn.
+  let generation = 1
+  let liveGeneration: number | undefined
+  let recycling = false
+  // Tool calls the live generation has started and not finished, with when each
+  // started, and when the live generation last sent anything at all; both feed
+  // `probeHealth`.
+  const openToolCalls = new Map<string, number>()
+  let lastNotificationAt = 0
   // Provider-transcript provenance state (T-05374). The broker-owned sidecar
   // captures RAW upstream Codex JSON-RPC notifications (pre-normalization) into a
   // verifier-compatible JSONL file; `reportedTranscriptPaths` fences provenance
@@ -251,6 +278,7 @@ export function createCodexAppServerDriver(): Driver {
   }
 
   function onNotification(notification: JsonRpcNotification): void {
+    lastNotificationAt = Date.now()
     // Capture the RAW upstream notification before any normalization or special
     // error handling so the sidecar preserves verifier-compatible provider rows.
     captureTranscriptRow(notification)
@@ -299,9 +327,16 @@ export function createCodexAppServerDriver(): Driver {
           : mapped.extra
       const event = requireCtx().emitEvent(mapped, extra)
       if (event.type === 'turn.started') {
-        currentTurnId = event.turnId
+        // Keep the native id: after a broker retry the envelope carries the
+        // logical turn id, but turn/steer must name the app-server's own turn.
+        currentTurnId = mapped.extra?.turnId ?? event.turnId
         turnActive = true
       }
+      if (event.type === 'tool.call.started') {
+        openToolCalls.set(event.payload.toolCallId, Date.now())
+      } else if (event.type === 'tool.call.completed' || event.type === 'tool.call.failed') {
+        openToolCalls.delete(event.payload.toolCallId)
+      }
       if (
         event.type === 'turn.completed' ||
         event.type === 'turn.failed' ||
@@ -320,7 +355,11 @@ export function createCodexAppServerDriver(): Driver {
     }
   }
 
-  function onExit(code: number | null, signal: NodeJS.Signals | null): void {
+  function onExit(gen: number, code: number | null, signal: NodeJS.Signals | null): void {
+    if (gen !== liveGeneration) return
+    // A replacement child that dies mid-handshake fails its RPC requests, which
+    // fails the recycle; the broker reports that.
+    if (recycling) return
     if (!startedEmitted || terminalEmitted) {
       if (starting) {
         rejectStartup?.(
@@ -333,6 +372,22 @@ export function createCodexAppServerDriver(): Driver {
       return
     }
 
+    // Under recycle-child recovery the broker owns an unexpected exit: fence this
+    // generation and report it; the active turn is failed or retried there.
+    if (
+      !stopping &&
+      requireCtx().reportHarnessExit?.({ generation: gen, exitCode: code, signal })
+    ) {
+      liveGeneration = undefined
+      requireCtx().emit('harness.exited', {
+        generation: gen,
+        reason: 'crash',
+        exitCode: code,
+        ...(signal !== null ? { signal } : {}),
+      })
+      return
+    }
+
     if (turnActive && currentTurnId !== undefined) {
       if (stopping) {
         requireCtx().emit(
@@ -421,12 +476,151 @@ export function createCodexAppServerDriver(): Driver {
     })
   }
 
-  async function startThread(): Promise<string> {
+  /**
+   * Spawn one harness child and its JSON-RPC client as generation `gen`. Every
+   * handler is fenced on `liveGeneration`, so a replaced child stays silent.
+   */
+  async function spawnGeneration(
+    gen: number,
+    startSpec: HarnessInvocationSpec,
+    activeDriverSpec: CodexAppServerDriverSpec
+  ): Promise<{ child: ChildProcess; rpcClient: CodexRpcClient }> {
+    const driverCtx = requireCtx()
+    // Codex credentials live on disk (auth.json via CODEX_HOME, a lockedEnv
+    // path) — the credentials channel is empty. Only the per-invocation
+    // dispatchEnv rides alongside the lockedEnv from the spec.
+    const child = await spawnHarnessProcess(startSpec.process, {
+      credentials: {},
+      ...(driverCtx.dispatchEnv !== undefined ? { dispatchEnv: driverCtx.dispatchEnv } : {}),
+    })
+    proc = child
+    liveGeneration = gen
+    child.on('exit', (code, signal) => onExit(gen, code, signal))
+    createInterface({ input: child.stderr }).on('line', (line) => {
+      if (gen === liveGeneration && line.trim().length > 0) {
+        emitDiagnostic('info', line)
+      }
+    })
+
+    const rpcClient = new CodexRpcClient(child, {
+      onNotification: (notification) => {
+        if (gen === liveGeneration) onNotification(notification)
+      },
+      onRequest: async (request) => {
+        const permCtx: PermissionHandlerContext = {
+          ctx: requireCtx(),
+          driver: activeDriverSpec,
+          currentTurnId,
+          currentInputId,
+          permissionRequestIds,
+          cwd: startSpec.process.cwd,
+        }
+        return handlePermissionRequest(request, permCtx)
+      },
+      onError: (error) => {
+        if (gen !== liveGeneration) return
+        if (starting) {
+          rejectStartup?.(error)
+          return
+        }
+        // The pending handshake request rejects and fails the recycle.
+        if (recycling) return
+        if (terminalEmitted || stopping) return
+        const failure = classifyRpcFailure(error)
+        emitDiagnostic('error', failure.message, failure.data, activeTurnExtra())
+        failActiveTurn(failure)
+        emitTerminalFailure(
+          failure.message,
+          failure.code,
+          failure.data,
+          failure.retryable,
+          failure.reason
+        )
+        if (child.exitCode === null) {
+          child.kill('SIGTERM')
+        }
+      },
+    })
+    rpc = rpcClient
+    return { child, rpcClient }
+  }
+
+  /**
+   * Replace the harness child with generation `req.toGeneration` on the same
+   * thread. The old child is fenced first, then terminated if it is still
+   * alive; only that direct child is signalled, so `killProcessTree` is
+   * best-effort here. A turn that was open on the old child did not finish
+   * there, which is what lets the broker re-deliver it.
+   */
+  async function recycleHarness(req: HarnessRecycleRequest): Promise<HarnessRecycleResult> {
+    if (!spec || !driverSpec || stopping) {
+      throw new BrokerError(BrokerErrorCode.InvalidInvocationState, 'Invocation is not running')
+    }
+    const activeSpec = spec
+    const activeDriverSpec = driverSpec
+    const priorTurnIncomplete = turnActive
+    liveGeneration = undefined
+    recycling = true
+    if (turnTimeout !== undefined) {
+      clearTimeout(turnTimeout)
+      turnTimeout = undefined
+    }
+    try {
+      const oldProc = proc
+      if (oldProc !== undefined && oldProc.exitCode === null && oldProc.signalCode === null) {
+        await terminateProcess({ proc: oldProc, graceMs: req.killGraceMs })
+        requireCtx().emit('harness.exited', {
+          generation: req.fromGeneration,
+          reason: 'recycle-kill',
+          exitCode: oldProc.exitCode,
+          ...(oldProc.signalCode !== null ? { signal: oldProc.signalCode } : {}),
+        })
+      }
+      rpc?.close()
+      turnActive = false
+      currentTurnId = undefined
+      openToolCalls.clear()
+      if (stopping) {
+        throw new BrokerError(BrokerErrorCode.InvalidInvocationState, 'Invocation is stopping')
+      }
+
+      generation = req.toGeneration
+      const { child, rpcClient } = await spawnGeneration(generation, activeSpec, activeDriverSpec)
+      validateInitializeHandshake(
+        await rpcClient.sendRequest('initialize', {
+          clientInfo: { name: 'harness-broker', version: '0.1.0' },
+        }),
+        emitDiagnostic
+      )
+      await rpcClient.sendNotification('initialized', {})
+      const resumeFrom = req.continuation?.provider === 'codex' ? req.continuation.key : threadId
+      threadId = await startThread(resumeFrom)
+
+      requireCtx().emit('harness.started', {
+        generation,
+        mode: 'recycle',
+        mechanism: 'direct-child',
+        ...(child.pid !== undefined ? { pid: child.pid } : {}),
+      })
+      requireCtx().emit('continuation.updated', {
+        provider: 'codex',
+        kind: 'thread',
+        key: threadId,
+      })
+      return { priorTurnIncomplete }
+    } finally {
+      recycling = false
+    }
+  }
+
+  /** Start or resume the thread; a recycle resumes the thread the old generation ran. */
+  async function startThread(resumeFrom?: string): Promise<string> {
     if (!rpc || !spec || !driverSpec) {
       throw new BrokerError(BrokerErrorCode.InvalidInvocationState, 'Driver is not initialized')
     }
 
     const resumeThreadId =
+      resumeFrom ??
       driverSpec.resumeThreadId ??
       (spec.continuation?.provider === 'codex' ? spec.continuation.key : undefined)
 
@@ -474,6 +668,41 @@ export function createCodexAppServerDriver(): Driver {
       return CODEX_CAPABILITIES
     },
 
+    recycler: {
+      mechanism: 'direct-child',
+      recycle: recycleHarness,
+    },
+
+    /**
+     * Answer a stall probe for a quiet turn, by probe kind:
+     * - `driver-status`: a tool call still open is busy (a long shell command
+     *   reports nothing until it ends), but only for
+     *   {@link OPEN_TOOL_CALL_GRACE_FACTOR} quiet windows; past that it is hung.
+     * - `native-heartbeat`: any app-server notification within the quiet
+     *   window, including ones that are not turn progress (token usage, rate
+     *   limits), shows the app-server is alive.
+     * - `runner-status`: a direct child has no runner to ask, and liveness
+     *   alone cannot vouch for a quiet turn.
+     */
+    async probeHealth(probe: HarnessHealthProbe): Promise<HarnessHealth> {
+      if (proc === undefined || proc.exitCode !== null || proc.signalCode !== null) {
+        return 'exited'
+      }
+      const now = Date.now()
+      switch (probe.healthProbe) {
+        case 'driver-status': {
+          const graceMs = probe.noProgressMs * OPEN_TOOL_CALL_GRACE_FACTOR
+          return [...openToolCalls.values()].some((startedAt) => now - startedAt < graceMs)
+            ? 'healthy'
+            : 'unresponsive'
+        }
+        case 'native-heartbeat':
+          return now - lastNotificationAt < probe.noProgressMs ? 'healthy' : 'unresponsive'
+        case 'runner-status':
+          return 'unresponsive'
+      }
+    },
+
     async start(
       startSpec: HarnessInvocationSpec,
       driverCtx: DriverContext
@@ -563,54 +792,9 @@ export function createCodexAppServerDriver(): Driver {
       // Prevent unhandled rejection when startupFailure outlives the race
       startupFailure.catch(() => {})
 
-      // Codex credentials live on disk (auth.json via CODEX_HOME, a lockedEnv
-      // path) — the credentials channel is empty. Only the per-invocation
-      // dispatchEnv rides alongside the lockedEnv from the spec.
-      proc = await spawnHarnessProcess(startSpec.process, {
-        credentials: {},
-        ...(driverCtx.dispatchEnv !== undefined ? { dispatchEnv: driverCtx.dispatchEnv } : {}),
-      })
-      proc.on('exit', onExit)
-      createInterface({ input: proc.stderr }).on('line', (line) => {
-        if (line.trim().length > 0) {
-          emitDiagnostic('info', line)
-        }
-      })
-
-      const rpcClient = new CodexRpcClient(proc, {
-        onNotification,
-        onRequest: async (request) => {
-          const permCtx: PermissionHandlerContext = {
-            ctx: requireCtx(),
-            driver: activeDriverSpec,
-            currentTurnId,
-            currentInputId,
-            permissionRequestIds,
-          }
-          return handlePermissionRequest(request, permCtx)
-        },
-        onError: (error) => {
-          if (starting) {
-            rejectStartup?.(error)
-            return
-          }
-          if (terminalEmitted || stopping) return
-          const failure = classifyRpcFailure(error)
-          emitDiagnostic('error', failure.message, failure.data, activeTurnExtra())
-          failActiveTurn(failure)
-          emitTerminalFailure(
-            failure.message,
-            failure.code,
-            failure.data,
-            failure.retryable,
-            failure.reason
-          )
-          if (proc !== undefined && proc.exitCode === null) {
-            proc.kill('SIGTERM')
-          }
-        },
-      })
-      rpc = rpcClient
+      generation = 1
+      openToolCalls.clear()
+      const { child, rpcClient } = await spawnGeneration(generation, startSpec, activeDriverSpec)
 
       // Wire startup timeout — timer starts when the first RPC is written,
       // so process boot time doesn't count against the limit.
@@ -624,9 +808,9 @@ export function createCodexAppServerDriver(): Driver {
         startupTimer = setTimeout(() => {
           if (!starting) return
           startupTimedOut = true
-          emitTerminalFailure('Startup timed out', 'Timeout')
+          emitTerminalFailure('Startup timed out', 'StartupTimeout')
           rpc?.close(new Error('Startup timed out'))
-          if (proc && proc.exitCode === null) proc.kill('SIGTERM')
+          if (child.exitCode === null) child.kill('SIGTERM')
           rejectStartup?.(new BrokerError(BrokerErrorCode.Timeout, 'Startup timed out'))
         }, startupTimeoutMs)
       }
@@ -653,7 +837,7 @@ export function createCodexAppServerDriver(): Driver {
       if (startupTimer !== undefined) clearTimeout(startupTimer)
 
       requireCtx().emit('invocation.started', {
-        pid: proc.pid,
+        pid: child.pid,
         command: startSpec.process.command ?? process.execPath,
         args: startSpec.process.args,
         cwd: startSpec.process.cwd,
@@ -707,7 +891,7 @@ export function createCodexAppServerDriver(): Driver {
                 turnId: currentTurnId,
                 status: 'failed',
                 message: 'Turn timed out',
-                code: 'Timeout',
+                code: 'TurnTimeout',
               },
               { turnId: currentTurnId, inputId: currentInputId }
             )
@@ -724,6 +908,7 @@ export function createCodexAppServerDriver(): Driver {
         }, turnTimeoutMs)
       }
 
+      const requestGeneration = liveGeneration
       try {
         await rpc.sendRequest(
           'turn/start',
@@ -743,7 +928,9 @@ export function createCodexAppServerDriver(): Driver {
           }
           throw new BrokerError(BrokerErrorCode.Timeout, 'Turn timed out')
         }
-        if (terminalEmitted || turnActive || stopping) {
+        // A child that died under broker-owned recovery: the broker fails or
+        // retries the turn, so the lost request is not a start failure.
+        if (terminalEmitted || turnActive || stopping || requestGeneration !== liveGeneration) {
           return { ...(currentTurnId ? { turnId: currentTurnId } : {}) }
         }
         throw new BrokerError(
@@ -861,6 +1048,10 @@ export function createCodexAppServerDriver(): Driver {
       stopping = false
       starting = false
       rendererQuitAccepted = false
+      generation = 1
+      liveGeneration = undefined
+      recycling = false
+      openToolCalls.clear()
     },
   }
 
@@ -4,8 +4,10 @@ import type {
   PermissionPolicy,
   PermissionRequestId,
   PermissionRequestParams,
+  PermissionRuleMatch,
   TurnId,
 } from 'spaces-harness-broker-protocol'
+import { type PermissionRuleSubject, matchPermissionRule } from '../../permission-rules'
 import type { DriverContext } from '../driver'
 import type { JsonRpcRequest } from './rpc-client'
 
@@ -22,10 +24,12 @@ export interface PermissionRequestIdAllocator {
 
 export interface PermissionHandlerContext {
   ctx: DriverContext
-  driver: CodexAppServerDriverSpec
+  driver: Pick<CodexAppServerDriverSpec, 'permissionPolicy'>
   currentTurnId: TurnId | undefined
   currentInputId: InputId | undefined
   permissionRequestIds: PermissionRequestIdAllocator
+  /** Thread cwd; requests without their own `cwd` are matched against it */
+  cwd?: string | undefined
 }
 
 /**
@@ -104,6 +108,50 @@ export function buildSubjectDisplay(kind: string, params: unknown): Record<strin
   return display
 }
 
+/**
+ * Project a native Codex permission request onto the fields `rules` policies
+ * match. Codex sends `command` as a string or an argv array; file changes name
+ * their targets via `path`, `paths` or `changes[].path`, relative to the
+ * request `cwd` or, when it has none, the thread cwd.
+ */
+export function buildRuleSubject(
+  kind: string,
+  params: unknown,
+  threadCwd?: string | undefined
+): PermissionRuleSubject {
+  const record =
+    params !== null && typeof params === 'object' && !Array.isArray(params)
+      ? (params as Record<string, unknown>)
+      : {}
+  const command = Array.isArray(record['command'])
+    ? record['command'].filter((part) => typeof part === 'string').join(' ')
+    : record['command']
+  const paths: string[] = []
+  const pushPath = (value: unknown) => {
+    if (typeof value === 'string') paths.push(value)
+  }
+  pushPath(record['path'])
+  if (Array.isArray(record['paths'])) record['paths'].forEach(pushPath)
+  if (Array.isArray(record['changes'])) {
+    for (const change of record['changes']) {
+      if (change !== null && typeof change === 'object') {
+        pushPath((change as Record<string, unknown>)['path'])
+      }
+    }
+  }
+  const cwd = typeof record['cwd'] === 'string' ? record['cwd'] : threadCwd
+  const toolName = [record['name'], record['tool'], record['toolName']].find(
+    (value): value is string => typeof value === 'string'
+  )
+  return {
+    kind,
+    ...(typeof command === 'string' ? { command } : {}),
+    ...(typeof cwd === 'string' ? { cwd } : {}),
+    ...(paths.length > 0 ? { paths } : {}),
+    ...(toolName !== undefined ? { toolName } : {}),
+  }
+}
+
 /**
  * Create a fresh per-invocation `permissionRequestId` allocator. The counter is
  * encapsulated in the returned closure rather than living at module scope, so
@@ -159,12 +207,33 @@ function raceWithTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<Rac
  * Handle a permission request from the Codex app-server process.
  *
  * Decision transport is JSON-RPC request/response (broker→client); the
- * `permission.requested` / `permission.resolved` events are audit only. There
- * is no branch where a missing default approves — default-deny everywhere.
+ * `permission.requested` / `permission.resolved` events are audit only. The
+ * policy itself lives in {@link decidePermission}.
+ */
+export async function handlePermissionRequest(
+  request: JsonRpcRequest,
+  handlerCtx: PermissionHandlerContext
+): Promise<unknown> {
+  const decision = await decidePermission(
+    permissionKind(request.method),
+    request.params,
+    handlerCtx
+  )
+  return { decision: decision === 'allow' ? 'approve' : 'decline' }
+}
+
+/**
+ * Decide one native permission request under the driver's permission policy.
+ * Transport-neutral: the caller maps the native request to a permission `kind`
+ * and answers the harness in its own wire shape. There is no branch where a
+ * missing default approves — default-deny everywhere.
  *
  * Modes:
  * - deny: resolve deny by policy.
  * - allow: resolve allow by policy.
+ * - rules: the first matching rule decides; `allow`/`deny` resolve by policy
+ *   and `ask` continues as ask-client. No match resolves to defaultDecision
+ *   by policy. The matched rule is recorded on `permission.resolved`.
  * - ask-client:
  *   - if the client did not negotiate `permissionRequests` (or no request
  *     transport is wired): emit a diagnostic and deny by policy.
@@ -175,22 +244,34 @@ function raceWithTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<Rac
  *       - valid decision → the client's decision (decidedBy `user`)
  *     where a missing defaultDecision means deny.
  */
-export async function handlePermissionRequest(
-  request: JsonRpcRequest,
+export async function decidePermission(
+  kind: string,
+  nativeParams: unknown,
   handlerCtx: PermissionHandlerContext
-): Promise<unknown> {
+): Promise<'allow' | 'deny'> {
   const { ctx, driver } = handlerCtx
   const policy = driver.permissionPolicy ?? ({ mode: 'deny' } as PermissionPolicy)
-  const mode = policy.mode
   const extra = { turnId: handlerCtx.currentTurnId, inputId: handlerCtx.currentInputId }
 
   const policyWithDefault = policy as PermissionPolicy & { defaultDecision?: 'allow' | 'deny' }
   const defaultDecision: 'allow' | 'deny' =
-    policyWithDefault.defaultDecision ?? (mode === 'allow' ? 'allow' : 'deny')
+    policyWithDefault.defaultDecision ?? (policy.mode === 'allow' ? 'allow' : 'deny')
+
+  const rule: PermissionRuleMatch | undefined =
+    policy.mode === 'rules'
+      ? matchPermissionRule(policy.rules, buildRuleSubject(kind, nativeParams, handlerCtx.cwd))
+      : undefined
+  const mode =
+    policy.mode !== 'rules'
+      ? policy.mode
+      : rule === undefined
+        ? defaultDecision
+        : rule.action === 'ask'
+          ? 'ask-client'
+          : rule.action
 
-  const kind = permissionKind(request.method)
   const permissionRequestId = handlerCtx.permissionRequestIds.next(ctx.invocationId)
-  const subjectDisplay = buildSubjectDisplay(kind, request.params)
+  const subjectDisplay = buildSubjectDisplay(kind, nativeParams)
   const deadlineMs = policy.timeoutMs
 
   // Audit: a permission decision was requested.
@@ -209,9 +290,13 @@ export async function handlePermissionRequest(
   const resolve = (
     decision: 'allow' | 'deny',
     decidedBy: 'policy' | 'user' | 'api' | 'timeout'
-  ): { decision: 'approve' | 'decline' } => {
-    ctx.emit('permission.resolved', { permissionRequestId, decision, decidedBy }, extra)
-    return { decision: decision === 'allow' ? 'approve' : 'decline' }
+  ): 'allow' | 'deny' => {
+    ctx.emit(
+      'permission.resolved',
+      { permissionRequestId, decision, decidedBy, ...(rule !== undefined ? { rule } : {}) },
+      extra
+    )
+    return decision
   }
 
   // mode: deny → decline by policy
@@ -257,8 +342,8 @@ export async function handlePermissionRequest(
   // `permission.resolved`, and returns the FINAL decision. The driver must not
   // impose its own timeout nor emit the resolution — just relay the decision.
   if (ctx.brokerOwnsPermissionLifecycle) {
-    const decision = await ctx.requestPermission(params)
-    return { decision: decision.decision === 'allow' ? 'approve' : 'decline' }
+    const decision = await ctx.requestPermission(params, rule !== undefined ? { rule } : undefined)
+    return decision.decision === 'allow' ? 'allow' : 'deny'
   }
 
   const timeoutMs = policy.timeoutMs ?? 1000
@@ -12,21 +12,10 @@
  * methods. The app-server JSON-RPC stdio child remains the authoritative
  * harness transport.
  */
-import { connect } from 'node:net'
 import { createInterface } from 'node:readline'
-import {
-  type InvocationEventEnvelope,
-  type JsonRpcMessage,
-  NdjsonDecoder,
-  encodeNdjsonFrame,
-} from 'spaces-harness-broker-protocol'
+import { connectBrokerReadSurface } from '../../tail/read-surface'
 import { postEnvelope } from '../hook-bridge-transport'
-import {
-  type RendererDurableReadSurface,
-  type RendererEventsSinceRequest,
-  type RendererEventsSinceResponse,
-  createCodexAppServerRendererProjection,
-} from './renderer'
+import { createCodexAppServerRendererProjection } from './renderer'
 import { createStatusLine } from './status-line'
 import { createCodexStatusRow } from './transcript'
 
@@ -66,87 +55,11 @@ function parseArgs(argv: string[]): RendererArgs {
   }
 }
 
-/**
- * Connect to the broker observer/read socket and expose it as a
- * {@link RendererDurableReadSurface}: `eventsSince` issues the bootstrap request
- * and `observe` delivers live `invocation.event` notifications. NDJSON-framed
- * JSON-RPC, matching the broker's read-method transport.
- */
-function connectReadSurface(socketPath: string): {
-  surface: RendererDurableReadSurface
-  close: () => void
-} {
-  const decoder = new NdjsonDecoder()
-  const liveHandlers = new Set<(event: InvocationEventEnvelope) => void>()
-  const pending = new Map<number, { resolve: (v: unknown) => void; reject: (e: unknown) => void }>()
-  let nextId = 1
-  const socket = connect(socketPath)
-  socket.setEncoding('utf8')
-
-  function dispatch(message: JsonRpcMessage): void {
-    if ('id' in message && message.id !== null && message.id !== undefined) {
-      const id = Number(message.id)
-      const waiter = pending.get(id)
-      if (waiter === undefined) return
-      pending.delete(id)
-      if ('error' in message && message.error !== undefined) {
-        waiter.reject(message.error)
-      } else {
-        waiter.resolve((message as { result?: unknown }).result)
-      }
-      return
-    }
-    if ('method' in message && message.method === 'invocation.event') {
-      // The broker/observer wire shape carries the envelope DIRECTLY as `params`
-      // (see cli.ts emitEvent / notifyObserverClient and the aspc facade — all
-      // four producers emit `params: <envelope>`). Read it directly; tolerate a
-      // legacy `{ event }` wrapper defensively so either shape is accepted.
-      const params = message.params as
-        | (InvocationEventEnvelope & { event?: InvocationEventEnvelope })
-        | undefined
-      const event = params?.event ?? params
-      if (
-        event !== undefined &&
-        typeof event.seq === 'number' &&
-        typeof event.invocationId === 'string'
-      ) {
-        for (const handler of liveHandlers) handler(event)
-      }
-    }
-  }
-
-  socket.on('data', (chunk: string) => {
-    for (const frame of decoder.push(chunk)) {
-      if (frame.ok) dispatch(frame.value)
-    }
-  })
-
-  function request<T>(method: string, params: unknown): Promise<T> {
-    const id = nextId++
-    return new Promise<T>((resolve, reject) => {
-      pending.set(id, { resolve: resolve as (v: unknown) => void, reject })
-      socket.write(encodeNdjsonFrame({ jsonrpc: '2.0', id, method, params }))
-    })
-  }
-
-  return {
-    surface: {
-      eventsSince: (req: RendererEventsSinceRequest) =>
-        request<RendererEventsSinceResponse>('invocation.eventsSince', req),
-      observe: (handler) => {
-        liveHandlers.add(handler)
-        return { close: () => liveHandlers.delete(handler) }
-      },
-    },
-    close: () => socket.destroy(),
-  }
-}
-
 async function main(): Promise<void> {
   const { invocationId, observerSocketPath, controlSocketPath, runtimeId } = parseArgs(
     process.argv.slice(2)
   )
-  const { surface, close } = connectReadSurface(observerSocketPath)
+  const { surface, close } = connectBrokerReadSurface(observerSocketPath)
   // The renderer writes into a real tmux pane (a TTY): enable colour unless the
   // operator opted out via NO_COLOR, and wrap/fill to the pane width.
   const isTty = process.stdout.isTTY === true
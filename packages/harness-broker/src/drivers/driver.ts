@@ -1,6 +1,9 @@
 import type {
   ClientCapabilities,
+  ContinuationUpdate,
   HarnessInvocationSpec,
+  HarnessRecoveryStartedPayload,
+  HarnessStartedPayload,
   InputId,
   InvocationCapabilities,
   InvocationEvent,
@@ -16,6 +19,8 @@ import type {
   InvocationStopResponse,
   PermissionDecision,
   PermissionRequestParams,
+  PermissionRuleMatch,
+  StallDetectionPolicy,
   TurnId,
 } from 'spaces-harness-broker-protocol'
 import type { DispatchEnv } from '../runtime/env'
@@ -24,10 +29,69 @@ export interface ApplyInputResult {
   turnId?: TurnId | undefined
 }
 
+/**
+ * Broker request to replace the harness child with a new generation
+ * (`harnessRecovery.mode: 'recycle-child'`). The driver fences the old
+ * generation, kills it if it is still alive, and starts `toGeneration` from
+ * `continuation`.
+ */
+export interface HarnessRecycleRequest {
+  fromGeneration: number
+  toGeneration: number
+  reason: HarnessRecoveryStartedPayload['reason']
+  killGraceMs: number
+  killProcessTree: boolean
+  /** Latest continuation (`restartFrom: 'latest-continuation'`); absent when none is known. */
+  continuation?: ContinuationUpdate | undefined
+}
+
+export interface HarnessRecycleResult {
+  /**
+   * True when the driver can prove the fenced generation never finished the
+   * turn it was running — the `driverCanProvePriorTurnIncomplete` retry gate.
+   */
+  priorTurnIncomplete: boolean
+}
+
+/**
+ * Child-recycling seam. Drivers that advertise `recycle-child` provide one;
+ * `recycle` emits `harness.exited` for a killed generation and
+ * `harness.started` (`mode: 'recycle'`) for the new one, and rejects when the
+ * new generation cannot be brought up.
+ */
+export interface HarnessRecycler {
+  readonly mechanism: HarnessStartedPayload['mechanism']
+  recycle(req: HarnessRecycleRequest): Promise<HarnessRecycleResult>
+}
+
+/**
+ * What a stall-detection health probe answers for: the probe kind the policy
+ * asked for (`healthProbe`) and how long the turn has been quiet
+ * (`noProgressMs`).
+ */
+export type HarnessHealthProbe = Extract<StallDetectionPolicy, { mode: 'no-progress-plus-health' }>
+
+/**
+ * Stall-detection probe answer. `healthy` vouches for a quiet turn (the
+ * harness is still working); anything else lets the broker declare a stall.
+ */
+export type HarnessHealth = 'healthy' | 'unresponsive' | 'exited'
+
+/** An unexpected harness child exit, reported before the driver tears down. */
+export interface HarnessExitReport {
+  generation: number
+  exitCode: number | null
+  signal: string | null
+}
+
 export interface Driver {
   readonly kind: string
   readonly version: string
+  /** Present iff the driver can recycle its harness child (`recycle-child`). */
+  readonly recycler?: HarnessRecycler | undefined
   capabilities(): InvocationCapabilities
+  /** Health probe consulted when a turn has made no progress for `noProgressMs`. */
+  probeHealth?(probe: HarnessHealthProbe): Promise<HarnessHealth>
   start(spec: HarnessInvocationSpec, ctx: DriverContext): Promise<DriverStartResult>
   applyInputNow(input: InvocationInput): Promise<ApplyInputResult>
   applySteerNow?(input: InvocationInput): Promise<void>
@@ -84,9 +148,13 @@ export interface DriverContext {
    * broker→client JSON-RPC request transport. Provided only when the broker
    * has a transport that supports outbound requests (and, in production, when
    * the client negotiated `permissionRequests`). Absent for in-process callers
-   * that have no client to ask.
+   * that have no client to ask. `options.rule` is the `ask` rule that routed
+   * the request to the client, recorded on the broker's `permission.resolved`.
    */
-  requestPermission?(params: PermissionRequestParams): Promise<PermissionDecision>
+  requestPermission?(
+    params: PermissionRequestParams,
+    options?: { rule?: PermissionRuleMatch | undefined }
+  ): Promise<PermissionDecision>
   /**
    * True when the broker owns the permission-request lifecycle (C2): pending
    * state is broker-held until an absolute deadline, survives controller
@@ -98,6 +166,14 @@ export interface DriverContext {
    * resolution itself.
    */
   brokerOwnsPermissionLifecycle?: boolean | undefined
+  /**
+   * Report an unexpected harness child exit. Returns true when the accepted
+   * harness-recovery policy takes over: the driver then emits only
+   * `harness.exited` (reason `crash`) and leaves the active turn and the
+   * invocation open for the broker to recycle. False keeps the legacy
+   * turn-failed/invocation-exited teardown.
+   */
+  reportHarnessExit?(report: HarnessExitReport): boolean
 }
 
 export interface DriverStartResult {
@@ -167,22 +167,34 @@ function loadExisting(
   path: string,
   eventsByInvocation: Map<string, Map<number, StoredEvent>>
 ): void {
+  for (const parsed of readJsonlLedger(path)) {
+    const bytes = stableJsonStringify(parsed)
+    const bySeq = eventsByInvocation.get(parsed.invocationId) ?? new Map<number, StoredEvent>()
+    bySeq.set(parsed.seq, { event: parsed, bytes })
+    eventsByInvocation.set(parsed.invocationId, bySeq)
+  }
+}
+
+/**
+ * Read every event from a JSONL ledger file, in file order. A missing file
+ * reads as empty. Shared by the JSONL backend's reload and the SQLite
+ * backend's one-time migration.
+ */
+export function readJsonlLedger(path: string): InvocationEventEnvelope[] {
   let raw = ''
   try {
     raw = readFileSync(path, 'utf8')
   } catch {
-    return
+    return []
   }
+  const events: InvocationEventEnvelope[] = []
   for (const line of raw.split('\n')) {
     if (line.trim() === '') {
       continue
     }
-    const parsed = JSON.parse(line) as InvocationEventEnvelope
-    const bytes = stableJsonStringify(parsed)
-    const bySeq = eventsByInvocation.get(parsed.invocationId) ?? new Map<number, StoredEvent>()
-    bySeq.set(parsed.seq, { event: parsed, bytes })
-    eventsByInvocation.set(parsed.invocationId, bySeq)
+    events.push(JSON.parse(line) as InvocationEventEnvelope)
   }
+  return events
 }
 
 function appendLine(path: string, line: string): void {
@@ -0,0 +1,465 @@
+import type { InvocationEventEnvelope } from 'spaces-harness-broker-protocol'
+
+/**
+ * A post-mortem view of one invocation, folded from its durable event stream.
+ *
+ * Unlike the live pane (`src/tail/`), which commits rows as events arrive, this
+ * is built from the whole ledger at once: assistant deltas are joined into their
+ * finalized message, each tool call carries its streamed output and terminal
+ * result, and a permission request carries the decision that closed it. Every
+ * format renders from this one model, so Markdown, HTML and JSONL always agree
+ * about what happened.
+ */
+export interface TranscriptExport {
+  invocationId: string
+  /** Driver kind, from the first envelope that names one. */
+  driver?: string | undefined
+  startedAt?: string | undefined
+  endedAt?: string | undefined
+  /** Entries that happened outside any turn (startup notices, stray tool calls). */
+  preamble: TranscriptEntry[]
+  turns: TranscriptTurn[]
+  outcome?: InvocationOutcome | undefined
+  /** Summed over every turn that reported usage. */
+  usage?: TokenUsage | undefined
+}
+
+export interface TranscriptTurn {
+  turnId: string
+  inputId?: string | undefined
+  startedAt: string
+  endedAt?: string | undefined
+  status: 'running' | 'completed' | 'failed' | 'interrupted'
+  /** Highest attempt seen; above 1 when the broker retried the turn. */
+  attempts: number
+  failure?: { message: string; code?: string | undefined; reason?: string | undefined } | undefined
+  entries: TranscriptEntry[]
+  usage?: TokenUsage | undefined
+}
+
+export type TranscriptEntry =
+  | UserEntry
+  | AssistantEntry
+  | ToolCallEntry
+  | PermissionEntry
+  | NoticeEntry
+
+interface EntryBase {
+  seq: number
+  time: string
+}
+
+export interface UserEntry extends EntryBase {
+  kind: 'user'
+  text: string
+}
+
+export interface AssistantEntry extends EntryBase {
+  kind: 'assistant'
+  messageId: string
+  text: string
+}
+
+export interface ToolCallEntry extends EntryBase {
+  kind: 'tool'
+  toolCallId: string
+  name: string
+  input?: unknown
+  status: 'running' | 'completed' | 'failed'
+  /** Text streamed by `tool.call.delta`, in order. */
+  output: string
+  result?: unknown
+  isError?: boolean | undefined
+  durationMs?: number | undefined
+  error?: { code: string; message: string } | undefined
+}
+
+export interface PermissionEntry extends EntryBase {
+  kind: 'permission'
+  permissionRequestId: string
+  permissionKind: string
+  subject: string
+  decision: 'pending' | 'allow' | 'deny' | 'cancelled'
+  decidedBy?: string | undefined
+  message?: string | undefined
+}
+
+export interface NoticeEntry extends EntryBase {
+  kind: 'notice'
+  level: 'info' | 'warn' | 'error'
+  text: string
+}
+
+export interface InvocationOutcome {
+  status: 'exited' | 'failed'
+  reason?: string | undefined
+  message?: string | undefined
+  exitCode?: number | null | undefined
+}
+
+export interface TokenUsage {
+  inputTokens: number
+  outputTokens: number
+  totalTokens: number
+}
+
+/**
+ * Fold one invocation's events into a {@link TranscriptExport}. Events for
+ * other invocations are ignored and the rest are taken in seq order, so a whole
+ * multi-invocation ledger can be passed as-is.
+ */
+export function foldTranscript(
+  invocationId: string,
+  events: readonly InvocationEventEnvelope[]
+): TranscriptExport {
+  const transcript: TranscriptExport = { invocationId, preamble: [], turns: [] }
+  const turnsById = new Map<string, TranscriptTurn>()
+  const messages = new Map<string, AssistantEntry>()
+  const toolCalls = new Map<string, ToolCallEntry>()
+  const permissions = new Map<string, PermissionEntry>()
+  let currentTurn: TranscriptTurn | undefined
+
+  const ordered = events
+    .filter((event) => event.invocationId === invocationId)
+    .sort((left, right) => left.seq - right.seq)
+
+  function turnFor(event: InvocationEventEnvelope): TranscriptTurn | undefined {
+    const turnId = event.turnId ?? turnIdOf(event.payload)
+    return (turnId !== undefined ? turnsById.get(turnId) : undefined) ?? currentTurn
+  }
+
+  function push(event: InvocationEventEnvelope, entry: TranscriptEntry): void {
+    const turn = turnFor(event)
+    ;(turn?.entries ?? transcript.preamble).push(entry)
+  }
+
+  function closeTurn(turn: TranscriptTurn | undefined, time: string): void {
+    if (turn === undefined) return
+    turn.endedAt = time
+    if (currentTurn === turn) currentTurn = undefined
+  }
+
+  for (const event of ordered) {
+    const at = { seq: event.seq, time: event.time }
+    transcript.startedAt ??= event.time
+    transcript.endedAt = event.time
+    if (transcript.driver === undefined && event.driver !== undefined) {
+      transcript.driver = event.driver.kind
+    }
+
+    switch (event.type) {
+      case 'turn.started': {
+        const existing = turnsById.get(event.payload.turnId)
+        if (existing !== undefined) {
+          currentTurn = existing
+          break
+        }
+        const turn: TranscriptTurn = {
+          turnId: event.payload.turnId,
+          ...(event.payload.inputId !== undefined ? { inputId: event.payload.inputId } : {}),
+          startedAt: event.time,
+          status: 'running',
+          attempts: event.turnAttempt ?? event.payload.turnAttempt ?? 1,
+          entries: [],
+        }
+        turnsById.set(turn.turnId, turn)
+        transcript.turns.push(turn)
+        currentTurn = turn
+        // Headless drivers carry the prompt here instead of a `user.message`.
+        if (event.payload.prompt !== undefined && event.payload.prompt.length > 0) {
+          turn.entries.push({ kind: 'user', ...at, text: event.payload.prompt })
+        }
+        break
+      }
+      case 'turn.retry': {
+        const turn = turnsById.get(event.payload.turnId)
+        if (turn !== undefined) turn.attempts = Math.max(turn.attempts, event.payload.toAttempt)
+        push(event, {
+          kind: 'notice',
+          ...at,
+          level: 'warn',
+          text: `Retried turn (attempt ${event.payload.toAttempt}, ${event.payload.reason})`,
+        })
+        break
+      }
+      case 'turn.completed': {
+        const turn = turnsById.get(event.payload.turnId)
+        if (turn === undefined) break
+        turn.status = event.payload.status
+        closeTurn(turn, event.time)
+        break
+      }
+      case 'turn.failed': {
+        const turn = turnsById.get(event.payload.turnId)
+        if (turn === undefined) break
+        turn.status = 'failed'
+        turn.failure = {
+          message: event.payload.message,
+          ...(event.payload.code !== undefined ? { code: event.payload.code } : {}),
+          ...(event.payload.reason !== undefined ? { reason: event.payload.reason } : {}),
+        }
+        closeTurn(turn, event.time)
+        break
+      }
+      case 'turn.interrupted': {
+        const turn = turnsById.get(event.payload.turnId)
+        if (turn === undefined) break
+        turn.status = 'interrupted'
+        closeTurn(turn, event.time)
+        break
+      }
+
+      case 'user.message': {
+        const turn = turnFor(event)
+        // A driver that also put the prompt on `turn.started` must not show it twice.
+        const duplicate = turn?.entries.some(
+          (entry) => entry.kind === 'user' && entry.text === event.payload.content
+        )
+        if (duplicate !== true) push(event, { kind: 'user', ...at, text: event.payload.content })
+        break
+      }
+      case 'assistant.message.started': {
+        const entry: AssistantEntry = {
+          kind: 'assistant',
+          ...at,
+          messageId: event.payload.messageId,
+          text: '',
+        }
+        messages.set(entry.messageId, entry)
+        push(event, entry)
+        break
+      }
+      case 'assistant.message.delta': {
+        const entry = messages.get(event.payload.messageId)
+        if (entry !== undefined) entry.text += event.payload.text
+        break
+      }
+      case 'assistant.message.completed': {
+        // The completed content is authoritative over the joined deltas.
+        const text = event.payload.content.map((part) => part.text).join('')
+        const entry = messages.get(event.payload.messageId)
+        if (entry !== undefined) {
+          entry.text = text
+        } else {
+          const created: AssistantEntry = {
+            kind: 'assistant',
+            ...at,
+            messageId: event.payload.messageId,
+            text,
+          }
+          messages.set(created.messageId, created)
+          push(event, created)
+        }
+        break
+      }
+
+      case 'tool.call.started': {
+        const entry: ToolCallEntry = {
+          kind: 'tool',
+          ...at,
+          toolCallId: event.payload.toolCallId,
+          name: event.payload.name,
+          ...(event.payload.input !== undefined ? { input: event.payload.input } : {}),
+          status: 'running',
+          output: '',
+        }
+        toolCalls.set(entry.toolCallId, entry)
+        push(event, entry)
+        break
+      }
+      case 'tool.call.delta': {
+        const entry = toolCalls.get(event.payload.toolCallId)
+        if (entry !== undefined && event.payload.text !== undefined) {
+          entry.output += event.payload.text
+        }
+        break
+      }
+      case 'tool.call.completed': {
+        const entry = toolCallEntry(event, event.payload.toolCallId, event.payload.name)
+        entry.status = 'completed'
+        if (event.payload.result !== undefined) entry.result = event.payload.result
+        if (event.payload.isError !== undefined) entry.isError = event.payload.isError
+        if (event.payload.durationMs !== undefined) entry.durationMs = event.payload.durationMs
+        break
+      }
+      case 'tool.call.failed': {
+        const entry = toolCallEntry(event, event.payload.toolCallId, event.payload.name)
+        entry.status = 'failed'
+        entry.error = { code: event.payload.code, message: event.payload.message }
+        break
+      }
+
+      case 'permission.requested': {
+        const entry: PermissionEntry = {
+          kind: 'permission',
+          ...at,
+          permissionRequestId: event.payload.permissionRequestId,
+          permissionKind: event.payload.kind,
+          subject:
+            typeof event.payload.subjectDisplay === 'string'
+              ? event.payload.subjectDisplay
+              : (JSON.stringify(event.payload.subjectDisplay) ?? ''),
+          decision: 'pending',
+        }
+        permissions.set(entry.permissionRequestId, entry)
+        push(event, entry)
+        break
+      }
+      case 'permission.resolved': {
+        const entry = permissions.get(event.payload.permissionRequestId)
+        if (entry === undefined) break
+        entry.decision = event.payload.decision
+        entry.decidedBy = event.payload.decidedBy
+        if (event.payload.message !== undefined) entry.message = event.payload.message
+        break
+      }
+      case 'permission.cancelled': {
+        const entry = permissions.get(event.payload.permissionRequestId)
+        if (entry === undefined) break
+        entry.decision = 'cancelled'
+        entry.message = event.payload.reason
+        break
+      }
+
+      case 'usage.updated': {
+        const usage = normalizeUsage(event.payload.usage)
+        const turn = turnFor(event)
+        if (usage === undefined || turn === undefined) break
+        turn.usage = addUsage(turn.usage, usage)
+        break
+      }
+
+      case 'diagnostic':
+        if (event.payload.level === 'warn' || event.payload.level === 'error') {
+          push(event, {
+            kind: 'notice',
+            ...at,
+            level: event.payload.level,
+            text: event.payload.message,
+          })
+        }
+        break
+      case 'driver.notice':
+        push(event, { kind: 'notice', ...at, level: 'info', text: event.payload.message })
+        break
+      case 'harness.recovery.started':
+        push(event, {
+          kind: 'notice',
+          ...at,
+          level: 'warn',
+          text: `Recycling harness generation ${event.payload.fromGeneration} (${event.payload.reason})`,
+        })
+        break
+      case 'harness.recovery.failed':
+        push(event, {
+          kind: 'notice',
+          ...at,
+          level: 'error',
+          text: `Harness recovery failed (${event.payload.reason})`,
+        })
+        break
+      case 'lifecycle.escalation':
+        push(event, {
+          kind: 'notice',
+          ...at,
+          level: 'error',
+          text: `Escalated: ${event.payload.reason} → ${event.payload.requestedAction}`,
+        })
+        break
+
+      case 'invocation.exited':
+        transcript.outcome = {
+          status: 'exited',
+          ...(event.payload.reason !== undefined ? { reason: event.payload.reason } : {}),
+          ...(event.payload.exitCode !== undefined ? { exitCode: event.payload.exitCode } : {}),
+        }
+        break
+      case 'invocation.failed':
+        transcript.outcome = {
+          status: 'failed',
+          message: event.payload.message,
+          ...(event.payload.reason !== undefined ? { reason: event.payload.reason } : {}),
+        }
+        break
+
+      default:
+        // Startup chrome, continuation bookkeeping and provenance records carry
+        // nothing a reader of the conversation needs.
+        break
+    }
+  }
+
+  for (const turn of transcript.turns) {
+    if (turn.usage !== undefined) transcript.usage = addUsage(transcript.usage, turn.usage)
+  }
+  return transcript
+
+  /** The open entry for a tool call, or one created from its terminal event. */
+  function toolCallEntry(
+    event: InvocationEventEnvelope,
+    toolCallId: string,
+    name: string
+  ): ToolCallEntry {
+    const existing = toolCalls.get(toolCallId)
+    if (existing !== undefined) return existing
+    const entry: ToolCallEntry = {
+      kind: 'tool',
+      seq: event.seq,
+      time: event.time,
+      toolCallId,
+      name,
+      status: 'running',
+      output: '',
+    }
+    toolCalls.set(toolCallId, entry)
+    push(event, entry)
+    return entry
+  }
+}
+
+function turnIdOf(payload: unknown): string | undefined {
+  if (payload === null || typeof payload !== 'object') return undefined
+  const turnId = (payload as Record<string, unknown>)['turnId']
+  return typeof turnId === 'string' ? turnId : undefined
+}
+
+/**
+ * Read token counts out of a driver's native usage object. The broker passes
+ * usage through untouched, so the shapes differ: Codex nests the latest
+ * request under `last` (camelCase), Claude reports snake_case, and Pi uses
+ * bare `input`/`output`. Each update is one request's usage, so a turn's total
+ * is the sum of its updates.
+ */
+export function normalizeUsage(usage: unknown): TokenUsage | undefined {
+  if (usage === null || typeof usage !== 'object') return undefined
+  const record = usage as Record<string, unknown>
+  const last = record['last']
+  const source =
+    last !== null && typeof last === 'object' ? (last as Record<string, unknown>) : record
+  const count = (...keys: string[]): number | undefined => {
+    for (const key of keys) {
+      const value = source[key]
+      if (typeof value === 'number' && Number.isFinite(value)) return value
+    }
+    return undefined
+  }
+  const inputTokens = count('inputTokens', 'input_tokens', 'input')
+  const outputTokens = count('outputTokens', 'output_tokens', 'output')
+  const totalTokens = count('totalTokens', 'total_tokens')
+  if (inputTokens === undefined && outputTokens === undefined && totalTokens === undefined) {
+    return undefined
+  }
+  return {
+    inputTokens: inputTokens ?? 0,
+    outputTokens: outputTokens ?? 0,
+    totalTokens: totalTokens ?? (inputTokens ?? 0) + (outputTokens ?? 0),
+  }
+}
+
+function addUsage(total: TokenUsage | undefined, usage: TokenUsage): TokenUsage {
+  return {
+    inputTokens: (total?.inputTokens ?? 0) + usage.inputTokens,
+    outputTokens: (total?.outputTokens ?? 0) + usage.outputTokens,
+    totalTokens: (total?.totalTokens ?? 0) + usage.totalTokens,
+  }
+}
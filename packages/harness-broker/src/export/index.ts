@@ -0,0 +1,21 @@
+export {
+  type AssistantEntry,
+  type InvocationOutcome,
+  type NoticeEntry,
+  type PermissionEntry,
+  type TokenUsage,
+  type ToolCallEntry,
+  type TranscriptEntry,
+  type TranscriptExport,
+  type TranscriptTurn,
+  type UserEntry,
+  foldTranscript,
+  normalizeUsage,
+} from './fold'
+export { readLedgerEvents } from './ledger'
+export {
+  TRANSCRIPT_EXPORT_FORMATS,
+  type TranscriptExportFormat,
+  type TranscriptRenderOptions,
+  renderTranscript,
+} from './render'
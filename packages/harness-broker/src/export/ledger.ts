@@ -0,0 +1,31 @@
+import { existsSync } from 'node:fs'
+import type { InvocationEventEnvelope, InvocationId } from 'spaces-harness-broker-protocol'
+import { readJsonlLedger } from '../event-ledger'
+import { readSqliteLedgerEvents } from '../sqlite-event-ledger'
+
+/**
+ * Read one invocation's retained events from a ledger on disk, in seq order.
+ * Accepts the same spellings as the broker's `--event-ledger`: a bare path (or
+ * `jsonl:<path>`) for the JSONL ledger, `sqlite:<path>` for the SQLite one. A
+ * missing ledger is an error rather than an empty transcript, so a typo in the
+ * path can't pass for an invocation that said nothing. Neither ledger is
+ * written to.
+ */
+export async function readLedgerEvents(
+  ledger: string,
+  invocationId: string
+): Promise<InvocationEventEnvelope[]> {
+  const sqlite = ledger.startsWith('sqlite:')
+  const path = sqlite ? ledger.slice('sqlite:'.length) : ledger.replace(/^jsonl:/, '')
+  if (!existsSync(path)) {
+    throw new Error(`Event ledger not found: ${path}`)
+  }
+
+  if (!sqlite) {
+    return readJsonlLedger(path)
+      .filter((event) => event.invocationId === invocationId)
+      .sort((left, right) => left.seq - right.seq)
+  }
+
+  return readSqliteLedgerEvents(path, invocationId as InvocationId)
+}
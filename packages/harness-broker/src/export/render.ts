@@ -0,0 +1,296 @@
+import type {
+  InvocationOutcome,
+  PermissionEntry,
+  TokenUsage,
+  ToolCallEntry,
+  TranscriptEntry,
+  TranscriptExport,
+  TranscriptTurn,
+} from './fold'
+
+export type TranscriptExportFormat = 'md' | 'html' | 'jsonl'
+
+export const TRANSCRIPT_EXPORT_FORMATS: readonly TranscriptExportFormat[] = ['md', 'html', 'jsonl']
+
+export interface TranscriptRenderOptions {
+  /** Add token usage per turn and for the whole invocation (default false). */
+  includeUsage?: boolean | undefined
+}
+
+export function renderTranscript(
+  transcript: TranscriptExport,
+  format: TranscriptExportFormat,
+  options: TranscriptRenderOptions = {}
+): string {
+  switch (format) {
+    case 'md':
+      return renderMarkdown(transcript, options)
+    case 'html':
+      return renderHtml(transcript, options)
+    case 'jsonl':
+      return renderJsonl(transcript, options)
+  }
+}
+
+// ── Shared wording ────────────────────────────────────────────────────────
+
+function formatCount(value: number): string {
+  return value.toLocaleString('en-US')
+}
+
+function formatUsage(usage: TokenUsage): string {
+  return `${formatCount(usage.totalTokens)} tokens (in ${formatCount(usage.inputTokens)} / out ${formatCount(usage.outputTokens)})`
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(1)}s`
+}
+
+function formatOutcome(outcome: InvocationOutcome): string {
+  const detail = [
+    outcome.reason,
+    outcome.exitCode !== undefined && outcome.exitCode !== null
+      ? `exit ${outcome.exitCode}`
+      : undefined,
+    outcome.message,
+  ].filter((part): part is string => part !== undefined && part.length > 0)
+  return detail.length > 0 ? `${outcome.status} (${detail.join(', ')})` : outcome.status
+}
+
+function turnHeading(turn: TranscriptTurn, index: number): string {
+  const attempts = turn.attempts > 1 ? `, ${turn.attempts} attempts` : ''
+  return `Turn ${index + 1} · ${turn.status}${attempts}`
+}
+
+function toolSummary(tool: ToolCallEntry): string {
+  const status =
+    tool.status === 'failed'
+      ? `failed: ${tool.error?.message ?? 'unknown error'}`
+      : tool.status === 'completed'
+        ? tool.isError === true
+          ? 'completed with error'
+          : 'completed'
+        : 'never finished'
+  return tool.durationMs !== undefined ? `${status} in ${formatDuration(tool.durationMs)}` : status
+}
+
+function permissionSummary(permission: PermissionEntry): string {
+  const verdict =
+    permission.decision === 'allow'
+      ? 'allowed'
+      : permission.decision === 'deny'
+        ? 'denied'
+        : permission.decision === 'cancelled'
+          ? 'withdrawn'
+          : 'never answered'
+  const by = permission.decidedBy !== undefined ? ` by ${permission.decidedBy}` : ''
+  const message = permission.message !== undefined ? ` — ${permission.message}` : ''
+  return `${verdict}${by}${message}`
+}
+
+/** Tool input/result as readable text: strings verbatim, anything else as JSON. */
+function toolValue(value: unknown): string {
+  if (typeof value === 'string') return value
+  return JSON.stringify(value, null, 2) ?? String(value)
+}
+
+// ── Markdown ──────────────────────────────────────────────────────────────
+
+/** A code fence longer than any backtick run in `text`, so content can't close it. */
+function fenced(text: string, lang = ''): string {
+  const longest = Math.max(0, ...[...text.matchAll(/`+/g)].map((match) => match[0].length))
+  const fence = '`'.repeat(Math.max(3, longest + 1))
+  return `${fence}${lang}\n${text.replace(/\n$/, '')}\n${fence}`
+}
+
+function inlineCode(text: string): string {
+  const longest = Math.max(0, ...[...text.matchAll(/`+/g)].map((match) => match[0].length))
+  const ticks = '`'.repeat(longest + 1)
+  return longest > 0 ? `${ticks} ${text} ${ticks}` : `${ticks}${text}${ticks}`
+}
+
+function quoted(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => (line.length > 0 ? `> ${line}` : '>'))
+    .join('\n')
+}
+
+function markdownEntry(entry: TranscriptEntry): string {
+  switch (entry.kind) {
+    case 'user':
+      return `**User**\n\n${quoted(entry.text)}`
+    case 'assistant':
+      return `**Assistant**\n\n${entry.text.trim()}`
+    case 'tool': {
+      const parts = [`**Tool** ${inlineCode(entry.name)} — ${toolSummary(entry)}`]
+      if (entry.input !== undefined) {
+        parts.push(fenced(toolValue(entry.input), typeof entry.input === 'string' ? '' : 'json'))
+      }
+      if (entry.output.length > 0) parts.push(`Output:\n\n${fenced(entry.output)}`)
+      if (entry.result !== undefined) {
+        const json = typeof entry.result === 'string' ? '' : 'json'
+        parts.push(`Result:\n\n${fenced(toolValue(entry.result), json)}`)
+      }
+      return parts.join('\n\n')
+    }
+    case 'permission':
+      return `**Permission** ${entry.permissionKind} ${inlineCode(entry.subject)} — ${permissionSummary(entry)}`
+    case 'notice':
+      return quoted(`${entry.level === 'info' ? 'ℹ' : '⚠'} ${entry.text}`)
+  }
+}
+
+function renderMarkdown(transcript: TranscriptExport, options: TranscriptRenderOptions): string {
+  const blocks: string[] = [`# Transcript ${inlineCode(transcript.invocationId)}`]
+  const facts = [
+    transcript.driver !== undefined ? `- Driver: ${transcript.driver}` : undefined,
+    transcript.startedAt !== undefined ? `- Started: ${transcript.startedAt}` : undefined,
+    transcript.endedAt !== undefined ? `- Last event: ${transcript.endedAt}` : undefined,
+    transcript.outcome !== undefined
+      ? `- Outcome: ${formatOutcome(transcript.outcome)}`
+      : undefined,
+    options.includeUsage === true && transcript.usage !== undefined
+      ? `- Usage: ${formatUsage(transcript.usage)}`
+      : undefined,
+  ].filter((fact): fact is string => fact !== undefined)
+  if (facts.length > 0) blocks.push(facts.join('\n'))
+
+  blocks.push(...transcript.preamble.map(markdownEntry))
+  transcript.turns.forEach((turn, index) => {
+    blocks.push(`## ${turnHeading(turn, index)}`)
+    blocks.push(...turn.entries.map(markdownEntry))
+    if (turn.failure !== undefined) {
+      const code = turn.failure.code !== undefined ? ` (${inlineCode(turn.failure.code)})` : ''
+      blocks.push(`**Turn failed**${code}: ${turn.failure.message}`)
+    }
+    if (options.includeUsage === true && turn.usage !== undefined) {
+      blocks.push(`_Usage: ${formatUsage(turn.usage)}_`)
+    }
+  })
+  return `${blocks.join('\n\n')}\n`
+}
+
+// ── HTML ──────────────────────────────────────────────────────────────────
+
+function escapeHtml(text: string): string {
+  return text
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&#39;')
+}
+
+const HTML_STYLE = `body{font:15px/1.5 system-ui,sans-serif;max-width:52rem;margin:2rem auto;padding:0 1rem;color:#222}
+h2{border-top:1px solid #ddd;padding-top:1rem}
+.entry{margin:.75rem 0;padding:.5rem .75rem;border-left:3px solid #ccc}
+.user{border-color:#7b68ee;background:#f6f4ff}
+.assistant{border-color:#2e8b57}
+.tool{border-color:#2a9d8f;background:#f4faf9}
+.permission{border-color:#c9a227;background:#fffbea}
+.notice{border-color:#999;color:#555}
+.notice.error,.failure{border-color:#d9534f;background:#fff3f3}
+.who{font-weight:600;font-size:.85em;text-transform:uppercase;color:#666}
+pre{white-space:pre-wrap;background:#f5f5f5;padding:.5rem;overflow-x:auto}
+.usage{color:#666;font-size:.9em}`
+
+function htmlEntry(entry: TranscriptEntry): string {
+  switch (entry.kind) {
+    case 'user':
+      return `<div class="entry user"><div class="who">User</div><pre>${escapeHtml(entry.text)}</pre></div>`
+    case 'assistant':
+      return `<div class="entry assistant"><div class="who">Assistant</div><pre>${escapeHtml(entry.text.trim())}</pre></div>`
+    case 'tool': {
+      const parts = [
+        `<summary><span class="who">Tool</span> <code>${escapeHtml(entry.name)}</code> — ${escapeHtml(toolSummary(entry))}</summary>`,
+      ]
+      if (entry.input !== undefined) parts.push(`<pre>${escapeHtml(toolValue(entry.input))}</pre>`)
+      if (entry.output.length > 0) parts.push(`<p>Output</p><pre>${escapeHtml(entry.output)}</pre>`)
+      if (entry.result !== undefined) {
+        parts.push(`<p>Result</p><pre>${escapeHtml(toolValue(entry.result))}</pre>`)
+      }
+      return `<details class="entry tool">${parts.join('')}</details>`
+    }
+    case 'permission':
+      return `<div class="entry permission"><span class="who">Permission</span> ${escapeHtml(entry.permissionKind)} <code>${escapeHtml(entry.subject)}</code> — ${escapeHtml(permissionSummary(entry))}</div>`
+    case 'notice':
+      return `<div class="entry notice ${entry.level}">${escapeHtml(entry.text)}</div>`
+  }
+}
+
+function renderHtml(transcript: TranscriptExport, options: TranscriptRenderOptions): string {
+  const title = `Transcript ${transcript.invocationId}`
+  const facts = [
+    transcript.driver !== undefined ? ['Driver', transcript.driver] : undefined,
+    transcript.startedAt !== undefined ? ['Started', transcript.startedAt] : undefined,
+    transcript.endedAt !== undefined ? ['Last event', transcript.endedAt] : undefined,
+    transcript.outcome !== undefined ? ['Outcome', formatOutcome(transcript.outcome)] : undefined,
+    options.includeUsage === true && transcript.usage !== undefined
+      ? ['Usage', formatUsage(transcript.usage)]
+      : undefined,
+  ].filter((fact): fact is string[] => fact !== undefined)
+
+  const body: string[] = [`<h1>${escapeHtml(title)}</h1>`]
+  if (facts.length > 0) {
+    body.push(
+      `<ul>${facts.map(([label, value]) => `<li>${escapeHtml(label ?? '')}: ${escapeHtml(value ?? '')}</li>`).join('')}</ul>`
+    )
+  }
+  body.push(...transcript.preamble.map(htmlEntry))
+  transcript.turns.forEach((turn, index) => {
+    body.push(`<h2>${escapeHtml(turnHeading(turn, index))}</h2>`)
+    body.push(...turn.entries.map(htmlEntry))
+    if (turn.failure !== undefined) {
+      const code = turn.failure.code !== undefined ? ` (${escapeHtml(turn.failure.code)})` : ''
+      body.push(
+        `<div class="entry failure"><span class="who">Turn failed</span>${code}: ${escapeHtml(turn.failure.message)}</div>`
+      )
+    }
+    if (options.includeUsage === true && turn.usage !== undefined) {
+      body.push(`<p class="usage">Usage: ${escapeHtml(formatUsage(turn.usage))}</p>`)
+    }
+  })
+
+  return [
+    '<!doctype html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    ...body,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n')
+}
+
+// ── JSONL ─────────────────────────────────────────────────────────────────
+
+/**
+ * One record per line: an `invocation` header, then each `turn` followed by
+ * its entries (tagged with `turnId`). Preamble entries come before the first
+ * turn with no `turnId`. Usage fields appear only when asked for.
+ */
+function renderJsonl(transcript: TranscriptExport, options: TranscriptRenderOptions): string {
+  const withUsage = options.includeUsage === true
+  const { preamble, turns, usage, ...header } = transcript
+  const records: unknown[] = [
+    { type: 'invocation', ...header, ...(withUsage && usage !== undefined ? { usage } : {}) },
+    ...preamble.map(({ kind, ...entry }) => ({ type: kind, ...entry })),
+  ]
+  for (const { entries, usage: turnUsage, ...turn } of turns) {
+    records.push({
+      type: 'turn',
+      ...turn,
+      ...(withUsage && turnUsage !== undefined ? { usage: turnUsage } : {}),
+    })
+    for (const { kind, ...entry } of entries) {
+      records.push({ type: kind, turnId: turn.turnId, ...entry })
+    }
+  }
+  return records.map((record) => `${JSON.stringify(record)}\n`).join('')
+}
@@ -12,6 +12,9 @@ export type { InvocationEventSequencer, EventSequencerOptions } from './events'
 
 export { BrokerError, toJsonRpcError } from './errors'
 
+export { matchPermissionRule } from './permission-rules'
+export type { PermissionRuleSubject } from './permission-rules'
+
 export { validateJsonSchemaValue } from './json-schema'
 export type { JsonSchemaValidationResult } from './json-schema'
 
@@ -37,6 +40,8 @@ export type { DriverRegistry } from './drivers/registry'
 
 export { createNoopDriver } from './drivers/noop-driver'
 export { CLAUDE_CODE_TMUX_DRIVER_KIND } from './drivers/claude-code-tmux/hook-events'
+export { createClaudeStreamJsonDriver } from './drivers/claude-stream-json/driver'
+export { CLAUDE_STREAM_JSON_DRIVER_KIND } from './drivers/claude-stream-json/event-map'
 export { CODEX_DRIVER_KIND } from './drivers/codex-app-server/event-map'
 export {
   CODEX_CLI_TMUX_DRIVER_KIND,
@@ -50,4 +55,14 @@ export {
 export { createPiTuiTmuxDriver } from './drivers/pi-tui-tmux/driver'
 export type { NoopDriverOptions } from './drivers/noop-driver'
 
-export type { ApplyInputResult, Driver, DriverContext, DriverStartResult } from './drivers/driver'
+export type {
+  ApplyInputResult,
+  Driver,
+  DriverContext,
+  DriverStartResult,
+  HarnessExitReport,
+  HarnessHealth,
+  HarnessRecycleRequest,
+  HarnessRecycleResult,
+  HarnessRecycler,
+} from './drivers/driver'
@@ -5,7 +5,11 @@ import type {
   BrokerTerminalSurfaceReport,
   ClientCapabilities,
   ContinuationUpdate,
+  DiagnosticPayload,
   HarnessInvocationSpec,
+  HarnessRecoveryFailedPayload,
+  HarnessRecoveryPolicy,
+  HarnessRecoveryStartedPayload,
   InputId,
   InputPolicy,
   InvocationCapabilities,
@@ -17,6 +21,7 @@ import type {
   InvocationEventFor,
   InvocationEventPayloadMap,
   InvocationEventType,
+  InvocationFailedPayload,
   InvocationId,
   InvocationInput,
   InvocationInputRequest,
@@ -35,11 +40,14 @@ import type {
   InvocationStatusResponse,
   InvocationStopRequest,
   InvocationStopResponse,
+  LifecycleEscalationPayload,
   PermissionDecision,
   PermissionRequestId,
   PermissionRequestParams,
+  PermissionRuleMatch,
   ToolCallId,
   TurnId,
+  TurnRetryPayload,
 } from 'spaces-harness-broker-protocol'
 import {
   BrokerErrorCode,
@@ -47,12 +55,19 @@ import {
   acceptedLifecyclePolicy,
   validateEventEnvelope,
 } from 'spaces-harness-broker-protocol'
-import type { Driver, DriverContext } from './drivers/driver'
+import type {
+  Driver,
+  DriverContext,
+  DriverStartResult,
+  HarnessExitReport,
+  HarnessHealth,
+} from './drivers/driver'
 import { BrokerError } from './errors'
 import { stableJsonStringify } from './event-ledger'
 import type { InvocationEventExtra, InvocationEventSequencer } from './events'
 import type { DispatchEnv } from './runtime/env'
 import { normalizeEventPayload } from './runtime/event-normalize'
+import { type TurnObservation, turnObservationsFor, turnRetryBlockers } from './turn-retry'
 
 // ---------------------------------------------------------------------------
 // Reason-string vocabulary (centralized for spec traceability)
@@ -68,6 +83,104 @@ const REASON_INVOCATION_STOPPING = 'invocation_stopping'
 
 const DEFAULT_MAX_INPUT_QUEUE_DEPTH = 64
 
+// ---------------------------------------------------------------------------
+// Broker-enforced process limits (spec.process.limits)
+// ---------------------------------------------------------------------------
+/**
+ * Machine-readable `code`s for a startup or turn that outlived its limit. Drivers
+ * with their own native timers report the same codes, so a supervisor sees one
+ * code per limit whichever side fired first.
+ */
+const LIMIT_STARTUP_TIMEOUT_CODE = 'StartupTimeout'
+const LIMIT_TURN_TIMEOUT_CODE = 'TurnTimeout'
+/** Machine-readable `code` for an invocation retired past `maxRuntimeAgeMs`. */
+const LIMIT_RUNTIME_AGE_CODE = 'RuntimeAgeExceeded'
+const REASON_STARTUP_TIMEOUT = 'startup-timeout'
+const REASON_TURN_TIMEOUT = 'turn-timeout'
+const REASON_MAX_RUNTIME_AGE = 'max-runtime-age'
+/**
+ * How long a timed-out turn's interrupt may hold the queue when the spec sets no
+ * `stopGraceMs`; past it the next input is drained even if the driver never answered.
+ */
+const DEFAULT_TURN_INTERRUPT_HOLD_MS = 5000
+
+// ---------------------------------------------------------------------------
+// Broker-owned harness recovery (harnessRecovery / turnRetry lifecycle policy)
+// ---------------------------------------------------------------------------
+/** Machine-readable `code` for a turn the broker failed so its harness could be recycled. */
+const HARNESS_RECYCLED_CODE = 'HarnessRecycled'
+/** Machine-readable `code` for an invocation retired because recovery failed or ran out. */
+const HARNESS_RECOVERY_FAILED_CODE = 'HarnessRecoveryFailed'
+const REASON_RECYCLE_FAILED = 'recycle-failed'
+
+type RecycleChildPolicy = Extract<HarnessRecoveryPolicy, { mode: 'recycle-child' }>
+type NoProgressStallPolicy = Extract<
+  RecycleChildPolicy['stallDetection'],
+  { mode: 'no-progress-plus-health' }
+>
+
+/** Turn-scoped events that do not count as harness progress for stall detection. */
+const NON_PROGRESS_TYPES = new Set<InvocationEventType>([
+  'diagnostic',
+  'turn.stalled',
+  'lifecycle.escalation',
+])
+
+function recyclePolicyOf(inv: Invocation): RecycleChildPolicy | undefined {
+  const recovery = inv.lifecycleOverlay?.harnessRecovery
+  return recovery?.mode === 'recycle-child' ? recovery : undefined
+}
+
+/** A logical turn whose input was re-delivered to a new harness generation. */
+interface RetriedTurn {
+  turnId: TurnId
+  attempt: number
+  generation: number
+  /** The new generation's own id for the turn, learned from its first start. */
+  nativeTurnId?: TurnId | undefined
+}
+
+/**
+ * Map an event the new generation reports under its native turn id back onto
+ * the retried logical turn, stamped with the attempt and generation.
+ */
+function aliasRetriedTurn(
+  retried: RetriedTurn,
+  descriptor: InvocationEvent,
+  extra: InvocationEventExtra | undefined
+): { descriptor: InvocationEvent; extra: InvocationEventExtra | undefined } {
+  const payloadTurnId = (descriptor.payload as { turnId?: unknown } | undefined)?.turnId
+  const turnId =
+    extra?.turnId ?? (typeof payloadTurnId === 'string' ? (payloadTurnId as TurnId) : undefined)
+  if (turnId === undefined) return { descriptor, extra }
+  if (
+    retried.nativeTurnId === undefined &&
+    descriptor.type === 'turn.started' &&
+    turnId !== retried.turnId
+  ) {
+    retried.nativeTurnId = turnId
+  }
+  if (turnId !== retried.turnId && turnId !== retried.nativeTurnId) {
+    return { descriptor, extra }
+  }
+  const aliased =
+    payloadTurnId !== undefined
+      ? ({
+          ...descriptor,
+          payload: { ...(descriptor.payload as object), turnId: retried.turnId },
+        } as InvocationEvent)
+      : descriptor
+  return {
+    descriptor: aliased,
+    extra: {
+      ...extra,
+      turnId: retried.turnId,
+      turnAttempt: retried.attempt,
+      harnessGeneration: retried.generation,
+    },
+  }
+}
+
 /** Fallback bound for a broker-owned permission deadline when the policy omits one. */
 const DEFAULT_PERMISSION_TIMEOUT_MS = 1000
 
@@ -173,15 +286,31 @@ function supportsJsonSchemaResponse(capabilities: InvocationCapabilities): boole
 
 function assertLifecyclePolicySupported(
   policy: BrokerLifecyclePolicyOverlay | undefined,
-  capabilities: InvocationCapabilities
+  capabilities: InvocationCapabilities,
+  driver: Driver
 ): void {
   if (policy === undefined) return
   const missing: string[] = []
+  const recovery = policy.harnessRecovery
+  if (recovery.mode === 'recycle-child') {
+    // The capability is the contract; the recycler is the code that honors it.
+    if (driver.recycler === undefined) {
+      missing.push('harnessRecovery.recycle-child')
+    } else if (
+      recovery.recycle.mechanism !== 'capability-selected' &&
+      recovery.recycle.mechanism !== driver.recycler.mechanism
+    ) {
+      missing.push(`harnessRecovery.recycle.mechanism.${recovery.recycle.mechanism}`)
+    }
+  }
   if (!capabilities.lifecycle.runtimeRetention.includes(policy.retention.mode)) {
     missing.push(`retention.${policy.retention.mode}`)
   }
-  if (!capabilities.lifecycle.harnessRecovery.includes(policy.harnessRecovery.mode)) {
-    missing.push(`harnessRecovery.${policy.harnessRecovery.mode}`)
+  if (
+    !capabilities.lifecycle.harnessRecovery.includes(recovery.mode) &&
+    !missing.includes(`harnessRecovery.${recovery.mode}`)
+  ) {
+    missing.push(`harnessRecovery.${recovery.mode}`)
   }
   if (!capabilities.lifecycle.turnRetry.includes(policy.turnRetry.mode)) {
     missing.push(`turnRetry.${policy.turnRetry.mode}`)
@@ -230,6 +359,11 @@ interface PendingPermissionRecord {
   /** Absolute ISO-8601 deadline surfaced to reconnecting controllers. */
   deadlineAt: string
   settle(decision: 'allow' | 'deny', decidedBy: PermissionDecidedBy): void
+  /**
+   * Withdraw the request without a decision (`permission.cancelled`): the
+   * harness generation that asked is gone. The driver's await resolves `deny`.
+   */
+  cancel(reason: 'harness-generation-ended', harnessGeneration: number): void
 }
 
 /** In-memory record of how a permission request settled (idempotency surface). */
@@ -342,6 +476,53 @@ export interface Invocation {
    * permissionRequestId. Backs idempotent/conflict/expired `permission.respond`.
    */
   settledPermissions: Map<PermissionRequestId, SettledPermissionRecord>
+  /** Broker-owned `turnTimeoutMs` timer for the active turn. */
+  turnLimitTimer?: ReturnType<typeof setTimeout> | undefined
+  /**
+   * True while a timed-out turn's interrupt is in flight: the queue must not
+   * hand the next input to a harness that may still be working on that turn.
+   */
+  drainHeld?: boolean | undefined
+  /** Broker-owned `maxRuntimeAgeMs` timer, armed once the invocation is ready. */
+  ageLimitTimer?: ReturnType<typeof setTimeout> | undefined
+  /**
+   * The `invocation.failed` the broker emitted when it enforced a process limit.
+   * Once set, the invocation is fenced: teardown events the driver reports while
+   * it is being torn down (its own timeout failure, the child's exit) are
+   * suppressed so the stream carries exactly one invocation terminal, and the
+   * supervisor reads the limit's code rather than a crash.
+   */
+  limitTerminal?: InvocationEventEnvelope<'invocation.failed'> | undefined
+  // --- Broker-owned harness recovery (recycle-child / safe-retry) ---
+  /** The input that opened the active turn, re-delivered on a safe retry. */
+  currentInput?: InvocationInputWithId | undefined
+  /**
+   * Retry-relevant facts seen on the active logical turn (tool calls,
+   * permission requests, a final assistant message). Reset when a new logical
+   * turn opens, NOT on a retry: an attempt inherits what earlier attempts did.
+   */
+  turnObservations: Set<TurnObservation>
+  /**
+   * Stall detection for the active turn (`no-progress-plus-health`): when the
+   * turn (or its current attempt) opened, when it last made progress (ms), and
+   * the pending check.
+   */
+  stallWatch?:
+    | {
+        turnOpenedAt: number
+        lastProgressAt: number
+        timer?: ReturnType<typeof setTimeout> | undefined
+      }
+    | undefined
+  /** Set while the broker is replacing the harness child; holds the drain. */
+  recovery?: { fromGeneration: number } | undefined
+  /**
+   * The logical turn being retried on a new generation. The harness reports the
+   * retry under a fresh native turn id; `emit` maps it back onto the logical
+   * `turnId` and stamps `turnAttempt`/`harnessGeneration`, so a consumer sees
+   * one turn with one terminal.
+   */
+  retriedTurn?: RetriedTurn | undefined
 }
 
 export interface InvocationManagerOptions {
@@ -387,6 +568,11 @@ export interface InvocationManager {
   status(invocationId: InvocationId, opts?: InspectionSummaryOptions): InvocationStatusResponse
   dispose(req: InvocationDisposeRequest): Promise<InvocationDisposeResponse>
   permissionRespond(req: InvocationPermissionRespondRequest): InvocationPermissionRespondResponse
+  /**
+   * Append a broker-sourced `diagnostic` event to an invocation's stream, for
+   * facts the broker records on an invocation's behalf (e.g. observer audits).
+   */
+  recordDiagnostic(invocationId: InvocationId, diagnostic: DiagnosticPayload): void
   get(invocationId: InvocationId): Invocation | undefined
   /**
    * Shared inspection read-model builder. status(), snapshot/buildSnapshot, and
@@ -426,6 +612,7 @@ export function createInvocationManager(options: InvocationManagerOptions): Invo
     if (inv.drainPromise) return
     if (inv.pending.length === 0) return
     if (inv.state !== 'ready') return
+    if (inv.drainHeld === true) return
     inv.drainPromise = doDrain(inv).finally(() => {
       inv.drainPromise = undefined
       // Reschedule if invocation is still ready with pending inputs — prevents
@@ -480,6 +667,7 @@ export function createInvocationManager(options: InvocationManagerOptions): Invo
     // Broker owns input.accepted emission — before the driver applies the input
     const { inputId } = input
     emit(inv, 'input.accepted', { inputId, disposition: 'started' }, { inputId })
+    inv.currentInput = input
     const result = await inv.driver.applyInputNow(input)
     // Broker-guaranteed turn.started: synthesize the bracket from the delivered
     // input's turnId. Deduped in emit() so it never double-opens a turn the
@@ -704,11 +892,17 @@ export function createInvocationManager(options: InvocationManagerOptions): Invo
         }
         return
       }
+      case 'harness.recovery.started':
+        // An idle invocation cannot take input while its child is replaced; an
+        // active turn stays active until it is failed or retried.
+        if (inv.state === 'ready') inv.state = 'starting'
+        return
       case 'harness.recovery.completed': {
         const payload = event.payload as { toGeneration?: unknown } | undefined
         if (typeof payload?.toGeneration === 'number') {
           inv.currentHarnessGeneration = payload.toGeneration
         }
+        if (inv.state === 'starting') inv.state = 'ready'
         return
       }
       case 'turn.retry': {
@@ -761,6 +955,11 @@ export function createInvocationManager(options: InvocationManagerOptions): Invo
         if (typeof generation === 'number') {
           inv.currentHarnessGeneration = generation
         }
+        inv.turnObservations.clear()
+        if (event.turnId !== undefined) {
+          armTurnLimit(inv, event.turnId)
+        }
+        armStallDetection(inv)
         return
       }
       // biome-ignore lint/suspicious/noFallthroughSwitchClause: intentional — turn.completed increments the counter then shares the turn-end projection below.
@@ -769,11 +968,15 @@ export function createInvocationManager(options: InvocationManagerOptions): Invo
       // falls through to the shared turn-end projection below
       case 'turn.failed':
       case 'turn.interrupted':
+        clearTurnLimit(inv)
+        clearStallDetection(inv)
         inv.currentTurnId = undefined
         inv.currentInputId = undefined
         inv.currentTurnStartedAt = undefined
+        inv.currentInput = undefined
+        inv.retriedTurn = undefined
         if (inv.state !== 'exited' && inv.state !== 'failed' && inv.state !== 'disposed') {
-          inv.state = 'ready'
+          inv.state = inv.recovery !== undefined ? 'starting' : 'ready'
         }
         // Schedule drain if there are pending inputs and we transitioned to ready
         scheduleDrain(inv)
@@ -784,6 +987,7 @@ export function createInvocationManager(options: InvocationManagerOptions): Invo
         evictQueue(inv, REASON_INVOCATION_STOPPING)
         return
       case 'invocation.exited': {
+        clearLimitTimers(inv)
         inv.state = 'exited'
         inv.terminalEmitted = true
         inv.terminalReason = 'exited'
@@ -801,6 +1005,7 @@ export function createInvocationManager(options: InvocationManagerOptions): Invo
         return
       }
       case 'invocation.failed':
+        clearLimitTimers(inv)
         inv.state = 'failed'
         inv.terminalEmitted = true
         inv.terminalReason = 'failed'
@@ -810,6 +1015,7 @@ export function createInvocationManager(options: InvocationManagerOptions): Invo
         evictQueue(inv, REASON_INVOCATION_TERMINATED)
         return
       case 'invocation.disposed':
+        clearLimitTimers(inv)
         inv.state = 'disposed'
         inv.disposedEmitted = true
         inv.terminalReason = 'disposed'
@@ -868,6 +1074,589 @@ export function createInvocationManager(options: InvocationManagerOptions): Invo
     }
   }
 
+  // ---------------------------------------------------------------------------
+  // Broker-enforced process limits (spec.process.limits)
+  // ---------------------------------------------------------------------------
+  /**
+   * Fail the invocation for an exceeded limit (or a failed harness recovery)
+   * and tear the driver down. The broker's `invocation.failed` is the single
+   * terminal: it is recorded on `limitTerminal`, which fences out the driver's
+   * own teardown reports, and the driver is stopped in the background so no
+   * harness outlives the failure.
+   */
+  function retireInvocation(inv: Invocation, payload: InvocationFailedPayload): void {
+    if (inv.terminalEmitted) return
+    inv.terminalEmitted = true
+    inv.limitTerminal = emit(inv, 'invocation.failed', payload)
+    const graceMs = inv.spec.process.limits?.stopGraceMs
+    inv.driver
+      .stop({
+        invocationId: inv.invocationId,
+        reason: payload.reason,
+        ...(graceMs !== undefined ? { graceMs } : {}),
+      })
+      .catch(() => undefined)
+  }
+
+  /**
+   * Race `driver.start` against `startupTimeoutMs`. Drivers with a native
+   * handshake timer may fire first; either way the startup rejects with
+   * `BrokerErrorCode.Timeout` and one `invocation.failed` is recorded.
+   */
+  function raceStartupLimit(
+    inv: Invocation,
+    starting: Promise<DriverStartResult>
+  ): Promise<DriverStartResult> {
+    const timeoutMs = inv.spec.process.limits?.startupTimeoutMs
+    if (timeoutMs === undefined || timeoutMs <= 0) return starting
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const expired = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(() => {
+        const message = `Startup exceeded startupTimeoutMs (${timeoutMs}ms)`
+        retireInvocation(inv, {
+          message,
+          code: LIMIT_STARTUP_TIMEOUT_CODE,
+          reason: REASON_STARTUP_TIMEOUT,
+        })
+        reject(
+          new BrokerError(BrokerErrorCode.Timeout, message, {
+            invocationId: inv.invocationId,
+            reason: REASON_STARTUP_TIMEOUT,
+          })
+        )
+      }, timeoutMs)
+    })
+    // The losing start may still settle after the deadline; never surface it
+    // as an unhandled rejection.
+    starting.catch(() => undefined)
+    return Promise.race([starting, expired]).finally(() => clearTimeout(timer))
+  }
+
+  /**
+   * Arm the `turnTimeoutMs` deadline for a turn that just opened. On expiry the
+   * broker records the turn's terminal itself (so a late driver terminal is
+   * deduped) and then asks the driver to abandon the turn, holding the queue
+   * until that request settles or `stopGraceMs` passes.
+   */
+  function armTurnLimit(inv: Invocation, turnId: TurnId): void {
+    const timeoutMs = inv.spec.process.limits?.turnTimeoutMs
+    if (timeoutMs === undefined || timeoutMs <= 0) return
+    clearTurnLimit(inv)
+    inv.turnLimitTimer = setTimeout(() => {
+      inv.turnLimitTimer = undefined
+      if (inv.currentTurnId !== turnId || inv.state !== 'turn_active') return
+      const inputId = inv.currentInputId
+      inv.drainHeld = true
+      emit(
+        inv,
+        'turn.failed',
+        {
+          turnId,
+          status: 'failed',
+          message: `Turn exceeded turnTimeoutMs (${timeoutMs}ms)`,
+          code: LIMIT_TURN_TIMEOUT_CODE,
+          reason: REASON_TURN_TIMEOUT,
+        },
+        { turnId, ...(inputId !== undefined ? { inputId } : {}) }
+      )
+      const holdMs = inv.spec.process.limits?.stopGraceMs ?? DEFAULT_TURN_INTERRUPT_HOLD_MS
+      let holdTimer: ReturnType<typeof setTimeout> | undefined
+      const held = new Promise<void>((resolve) => {
+        holdTimer = setTimeout(resolve, holdMs)
+      })
+      const interrupting = inv.driver
+        .interrupt({ invocationId: inv.invocationId, scope: 'turn', reason: REASON_TURN_TIMEOUT })
+        .then(() => undefined)
+        .catch(() => undefined)
+      // A driver whose interrupt never settles must not hold the queue forever.
+      Promise.race([interrupting, held]).finally(() => {
+        clearTimeout(holdTimer)
+        inv.drainHeld = false
+        scheduleDrain(inv)
+      })
+    }, timeoutMs)
+  }
+
+  /**
+   * Arm the `maxRuntimeAgeMs` deadline, measured from when the invocation
+   * became ready. On expiry the active turn (if any) fails, queued inputs are
+   * rejected, and the invocation is retired.
+   */
+  function armAgeLimit(inv: Invocation): void {
+    const maxAgeMs = inv.spec.process.limits?.maxRuntimeAgeMs
+    if (maxAgeMs === undefined || maxAgeMs <= 0) return
+    inv.ageLimitTimer = setTimeout(() => {
+      inv.ageLimitTimer = undefined
+      if (inv.terminalEmitted || inv.state === 'stopping') return
+      const message = `Invocation exceeded maxRuntimeAgeMs (${maxAgeMs}ms)`
+      // Evict before closing the turn: the turn terminal would otherwise drain
+      // a queued input into a harness that is about to be stopped.
+      evictQueue(inv, REASON_INVOCATION_TERMINATED)
+      const turnId = inv.currentTurnId
+      if (turnId !== undefined) {
+        const inputId = inv.currentInputId
+        emit(
+          inv,
+          'turn.failed',
+          {
+            turnId,
+            status: 'failed',
+            message,
+            code: LIMIT_RUNTIME_AGE_CODE,
+            reason: REASON_MAX_RUNTIME_AGE,
+          },
+          { turnId, ...(inputId !== undefined ? { inputId } : {}) }
+        )
+      }
+      retireInvocation(inv, {
+        message,
+        code: LIMIT_RUNTIME_AGE_CODE,
+        reason: REASON_MAX_RUNTIME_AGE,
+      })
+    }, maxAgeMs)
+  }
+
+  function clearTurnLimit(inv: Invocation): void {
+    if (inv.turnLimitTimer === undefined) return
+    clearTimeout(inv.turnLimitTimer)
+    inv.turnLimitTimer = undefined
+  }
+
+  function clearLimitTimers(inv: Invocation): void {
+    clearTurnLimit(inv)
+    clearStallDetection(inv)
+    if (inv.ageLimitTimer !== undefined) {
+      clearTimeout(inv.ageLimitTimer)
+      inv.ageLimitTimer = undefined
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Broker-owned harness recovery (harnessRecovery.recycle-child, turnRetry)
+  // ---------------------------------------------------------------------------
+  /**
+   * Record a turn-scoped event against the active turn: the retry-relevant
+   * facts it carries, and harness progress for stall detection.
+   */
+  function noteTurnProgress(inv: Invocation, event: InvocationEventEnvelope): void {
+    if (inv.currentTurnId === undefined) return
+    for (const observation of turnObservationsFor(event.type)) {
+      inv.turnObservations.add(observation)
+    }
+    if (inv.stallWatch !== undefined && !NON_PROGRESS_TYPES.has(event.type)) {
+      inv.stallWatch.lastProgressAt = Date.now()
+    }
+  }
+
+  function stallPolicyOf(inv: Invocation): NoProgressStallPolicy | undefined {
+    const stallDetection = recyclePolicyOf(inv)?.stallDetection
+    return stallDetection?.mode === 'no-progress-plus-health' ? stallDetection : undefined
+  }
+
+  /** Start watching a freshly opened turn (or retry attempt) for a stall. */
+  function armStallDetection(inv: Invocation): void {
+    const stall = stallPolicyOf(inv)
+    if (stall === undefined) return
+    clearStallDetection(inv)
+    const at = Date.now()
+    inv.stallWatch = { turnOpenedAt: at, lastProgressAt: at }
+    scheduleStallCheck(inv, stall.noProgressMs)
+  }
+
+  function scheduleStallCheck(inv: Invocation, delayMs: number): void {
+    const watch = inv.stallWatch
+    if (watch === undefined) return
+    if (watch.timer !== undefined) clearTimeout(watch.timer)
+    watch.timer = setTimeout(() => {
+      watch.timer = undefined
+      void checkStall(inv)
+    }, delayMs)
+  }
+
+  function clearStallDetection(inv: Invocation): void {
+    const timer = inv.stallWatch?.timer
+    if (timer !== undefined) clearTimeout(timer)
+    inv.stallWatch = undefined
+  }
+
+  /**
+   * `no-progress-plus-health`: a turn is stalled once it has been quiet for
+   * `noProgressMs` (and is at least `minTurnAgeMs` old) AND the health probe
+   * does not vouch for it. A healthy answer only postpones the next check.
+   */
+  async function checkStall(inv: Invocation): Promise<void> {
+    const stall = stallPolicyOf(inv)
+    const watch = inv.stallWatch
+    const turnId = inv.currentTurnId
+    if (stall === undefined || watch === undefined || turnId === undefined) return
+    if (inv.state !== 'turn_active' || inv.recovery !== undefined) return
+
+    const at = Date.now()
+    const waitMs = Math.max(
+      stall.noProgressMs - (at - watch.lastProgressAt),
+      (stall.minTurnAgeMs ?? 0) - (at - watch.turnOpenedAt)
+    )
+    if (waitMs > 0) {
+      scheduleStallCheck(inv, waitMs)
+      return
+    }
+
+    const progressBeforeProbe = watch.lastProgressAt
+    const health = await probeHarnessHealth(inv, stall)
+    // The turn ended, recovery began, or the harness spoke while we probed.
+    if (inv.stallWatch !== watch || inv.currentTurnId !== turnId || inv.recovery !== undefined) {
+      return
+    }
+    if (health === 'healthy' || watch.lastProgressAt !== progressBeforeProbe) {
+      scheduleStallCheck(inv, stall.noProgressMs)
+      return
+    }
+
+    const inputId = inv.currentInputId
+    if (inputId !== undefined) {
+      emit(
+        inv,
+        'turn.stalled',
+        {
+          inputId,
+          turnId,
+          noProgressMs: Date.now() - watch.lastProgressAt,
+          thresholdMs: stall.noProgressMs,
+          healthProbe: stall.healthProbe,
+          harnessGeneration: inv.currentHarnessGeneration ?? 1,
+          turnAttempt: inv.currentTurnAttempt ?? 1,
+        },
+        { turnId, inputId }
+      )
+    }
+    await recoverHarness(inv, 'stall')
+  }
+
+  /** A driver without a probe (or whose probe throws) cannot vouch for a quiet turn. */
+  async function probeHarnessHealth(
+    inv: Invocation,
+    probe: NoProgressStallPolicy
+  ): Promise<HarnessHealth> {
+    if (inv.driver.probeHealth === undefined) return 'unresponsive'
+    return inv.driver.probeHealth(probe).catch((): HarnessHealth => 'unresponsive')
+  }
+
+  /**
+   * `DriverContext.reportHarnessExit`: under `recycle-child` the broker owns an
+   * unexpected child exit once the invocation is up. Recovery starts on a
+   * microtask so the driver's `harness.exited` is sequenced first.
+   */
+  function handleHarnessExit(inv: Invocation, report: HarnessExitReport): boolean {
+    if (recyclePolicyOf(inv) === undefined) return false
+    if (inv.terminalEmitted || inv.state === 'stopping') return false
+    if (inv.recovery !== undefined) return true
+    if (inv.state === 'starting') return false
+    // A generation that was already replaced has nothing left to recover.
+    if (report.generation !== (inv.currentHarnessGeneration ?? 1)) return true
+    queueMicrotask(() => {
+      void recoverHarness(inv, 'child-exit')
+    })
+    return true
+  }
+
+  /**
+   * Replace a stalled or crashed harness child with the next generation. The
+   * active turn is re-delivered to the new generation when every `safe-retry`
+   * precondition holds; otherwise it is failed before the recycle
+   * (`fail-before-recycle`) or handed to an operator (`escalate-only`, which
+   * leaves a live child alone). Queued input stays held until recovery ends.
+   */
+  async function recoverHarness(
+    inv: Invocation,
+    reason: HarnessRecoveryStartedPayload['reason']
+  ): Promise<void> {
+    const policy = recyclePolicyOf(inv)
+    if (policy === undefined || inv.recovery !== undefined) return
+    if (inv.terminalEmitted || inv.state === 'stopping') return
+
+    const fromGeneration = inv.currentHarnessGeneration ?? 1
+    const turnId = inv.currentTurnId
+    const attempt = inv.currentTurnAttempt ?? 1
+    const retryReason: TurnRetryPayload['reason'] =
+      reason === 'stall' ? 'harness-stalled' : 'harness-crashed'
+    const retryPolicy = inv.lifecycleOverlay?.turnRetry
+    const blockers =
+      turnId !== undefined && retryPolicy?.mode === 'safe-retry'
+        ? [
+            ...turnRetryBlockers(retryPolicy, {
+              reason: retryReason,
+              attempt,
+              observed: inv.turnObservations,
+              permissionPending: inv.pendingPermissions.size > 0,
+              continuationKnown: inv.continuation !== undefined,
+            }),
+            ...(inv.currentInput === undefined ? ['inputKnown'] : []),
+          ]
+        : []
+    const retry =
+      turnId !== undefined && retryPolicy?.mode === 'safe-retry' && blockers.length === 0
+    const disposition = turnId === undefined ? 'none' : policy.activeTurnDisposition
+
+    inv.recovery = { fromGeneration }
+    inv.drainHeld = true
+    clearStallDetection(inv)
+    emit(inv, 'harness.recovery.started', {
+      fromGeneration,
+      reason,
+      activeTurnDisposition: disposition,
+    })
+    cancelPendingPermissions(inv, fromGeneration)
+
+    if (turnId !== undefined && !retry) {
+      if (disposition === 'escalate-only') {
+        escalate(inv, 'runner-unresponsive', 'operator-attention', fromGeneration)
+        if (reason === 'stall') {
+          // The child is still alive: the turn is left for the operator.
+          inv.recovery = undefined
+          inv.drainHeld = false
+          return
+        }
+        failRecovery(inv, fromGeneration, 'Harness exited during an active turn')
+        return
+      }
+      failTurnForRecovery(inv, turnId, retryReason, blockers)
+    }
+
+    const toGeneration = fromGeneration + 1
+    if (toGeneration > policy.maxGenerationsPerInvocation) {
+      failRecovery(
+        inv,
+        fromGeneration,
+        `Harness recovery exhausted maxGenerationsPerInvocation (${policy.maxGenerationsPerInvocation})`
+      )
+      return
+    }
+    if (policy.recycle.requireContinuation && inv.continuation === undefined) {
+      failRecovery(
+        inv,
+        fromGeneration,
+        'Harness recovery requires a continuation and none is known',
+        'continuation-missing'
+      )
+      return
+    }
+
+    let priorTurnIncomplete: boolean
+    try {
+      const recycler = inv.driver.recycler
+      if (recycler === undefined) {
+        throw new Error(`Driver ${inv.driver.kind} cannot recycle its harness`)
+      }
+      ;({ priorTurnIncomplete } = await recycler.recycle({
+        fromGeneration,
+        toGeneration,
+        reason,
+        killGraceMs: policy.recycle.killGraceMs,
+        killProcessTree: policy.recycle.killProcessTree,
+        ...(inv.continuation !== undefined ? { continuation: inv.continuation } : {}),
+      }))
+    } catch (err) {
+      if (recoveryPreempted(inv)) return
+      const detail = err instanceof Error ? err.message : String(err)
+      failRecovery(inv, fromGeneration, `Harness recycle failed: ${detail}`, 'spawn-failed')
+      return
+    }
+    if (recoveryPreempted(inv)) return
+
+    inv.recovery = undefined
+    emit(inv, 'harness.recovery.completed', { fromGeneration, toGeneration, ready: true })
+
+    if (retry && turnId !== undefined) {
+      await retryTurn(inv, {
+        turnId,
+        fromAttempt: attempt,
+        fromGeneration,
+        toGeneration,
+        reason: retryReason,
+        priorTurnIncomplete,
+      })
+    }
+    inv.drainHeld = false
+    scheduleDrain(inv)
+  }
+
+  /** A stop (or terminal) that raced the recycle owns the teardown. */
+  function recoveryPreempted(inv: Invocation): boolean {
+    return inv.terminalEmitted || inv.state === 'stopping'
+  }
+
+  /**
+   * Re-deliver the active turn's input to the new generation (at-least-once):
+   * same inputId, same logical turnId, next attempt.
+   */
+  async function retryTurn(
+    inv: Invocation,
+    retry: {
+      turnId: TurnId
+      fromAttempt: number
+      fromGeneration: number
+      toGeneration: number
+      reason: TurnRetryPayload['reason']
+      priorTurnIncomplete: boolean
+    }
+  ): Promise<void> {
+    const input = inv.currentInput
+    if (!retry.priorTurnIncomplete || input === undefined) {
+      failTurnForRecovery(inv, retry.turnId, retry.reason, ['driverCanProvePriorTurnIncomplete'])
+      return
+    }
+    const toAttempt = retry.fromAttempt + 1
+    inv.retriedTurn = { turnId: retry.turnId, attempt: toAttempt, generation: retry.toGeneration }
+    emit(
+      inv,
+      'turn.retry',
+      {
+        inputId: input.inputId,
+        turnId: retry.turnId,
+        fromAttempt: retry.fromAttempt,
+        toAttempt,
+        fromHarnessGeneration: retry.fromGeneration,
+        toHarnessGeneration: retry.toGeneration,
+        reason: retry.reason,
+        semantics: 'at-least-once',
+      },
+      { turnId: retry.turnId, inputId: input.inputId }
+    )
+    armStallDetection(inv)
+    try {
+      const result = await inv.driver.applyInputNow(input)
+      const retried = inv.retriedTurn
+      if (
+        retried?.turnId === retry.turnId &&
+        retried.nativeTurnId === undefined &&
+        result.turnId !== undefined &&
+        result.turnId !== retry.turnId
+      ) {
+        retried.nativeTurnId = result.turnId
+      }
+    } catch (err) {
+      const detail = err instanceof Error ? err.message : String(err)
+      emit(
+        inv,
+        'turn.failed',
+        {
+          turnId: retry.turnId,
+          status: 'failed',
+          message: `Turn retry could not be delivered: ${detail}`,
+          code: HARNESS_RECYCLED_CODE,
+          reason: retry.reason,
+        },
+        { turnId: retry.turnId, inputId: input.inputId }
+      )
+    }
+  }
+
+  /** Fail the active turn ahead of a recycle; `blockers` name the unmet retry gates. */
+  function failTurnForRecovery(
+    inv: Invocation,
+    turnId: TurnId,
+    reason: TurnRetryPayload['reason'],
+    blockers: string[]
+  ): void {
+    const inputId = inv.currentInputId
+    emit(
+      inv,
+      'turn.failed',
+      {
+        turnId,
+        status: 'failed',
+        message:
+          reason === 'harness-stalled'
+            ? 'Harness stalled during the turn and was recycled'
+            : 'Harness exited during the turn and was recycled',
+        code: HARNESS_RECYCLED_CODE,
+        reason,
+        ...(blockers.length > 0 ? { data: { retryBlockedBy: blockers } } : {}),
+      },
+      { turnId, ...(inputId !== undefined ? { inputId } : {}) }
+    )
+    if (blockers.includes('maxAttempts')) {
+      escalate(inv, 'retry-exhausted', 'operator-attention', inv.currentHarnessGeneration ?? 1, {
+        turnId,
+        inputId,
+      })
+    }
+  }
+
+  /**
+   * Recovery is over and did not succeed: record why, fail the open turn, and
+   * retire the invocation (`onRecoveryFailure`).
+   */
+  function failRecovery(
+    inv: Invocation,
+    fromGeneration: number,
+    message: string,
+    failedReason?: HarnessRecoveryFailedPayload['reason']
+  ): void {
+    const hardReap = recyclePolicyOf(inv)?.onRecoveryFailure === 'escalate-hard-reap'
+    if (failedReason !== undefined) {
+      emit(inv, 'harness.recovery.failed', {
+        fromGeneration,
+        reason: failedReason,
+        ...(hardReap ? { requestedAction: 'hard-reap' as const } : {}),
+      })
+    }
+    const turnId = inv.currentTurnId
+    if (turnId !== undefined) {
+      const inputId = inv.currentInputId
+      emit(
+        inv,
+        'turn.failed',
+        {
+          turnId,
+          status: 'failed',
+          message,
+          code: HARNESS_RECOVERY_FAILED_CODE,
+          reason: REASON_RECYCLE_FAILED,
+        },
+        { turnId, ...(inputId !== undefined ? { inputId } : {}) }
+      )
+    }
+    if (hardReap) {
+      escalate(inv, 'recycle-failed', 'hard-reap', fromGeneration)
+    }
+    inv.recovery = undefined
+    retireInvocation(inv, {
+      message,
+      code: HARNESS_RECOVERY_FAILED_CODE,
+      reason: REASON_RECYCLE_FAILED,
+    })
+  }
+
+  function escalate(
+    inv: Invocation,
+    reason: LifecycleEscalationPayload['reason'],
+    requestedAction: LifecycleEscalationPayload['requestedAction'],
+    harnessGeneration: number,
+    turn: { turnId?: TurnId | undefined; inputId?: InputId | undefined } = {
+      turnId: inv.currentTurnId,
+      inputId: inv.currentInputId,
+    }
+  ): void {
+    const policyHash = inv.lifecycleOverlay?.policyHash
+    emit(inv, 'lifecycle.escalation', {
+      reason,
+      requestedAction,
+      harnessGeneration,
+      ...(turn.turnId !== undefined ? { turnId: turn.turnId } : {}),
+      ...(turn.inputId !== undefined ? { inputId: turn.inputId } : {}),
+      ...(turn.turnId !== undefined ? { turnAttempt: inv.currentTurnAttempt ?? 1 } : {}),
+      ...(policyHash !== undefined ? { policyHash } : {}),
+    })
+  }
+
+  /** A replaced generation can no longer act on a decision: withdraw its requests. */
+  function cancelPendingPermissions(inv: Invocation, harnessGeneration: number): void {
+    for (const pending of [...inv.pendingPermissions.values()]) {
+      pending.cancel('harness-generation-ended', harnessGeneration)
+    }
+  }
+
   // ---------------------------------------------------------------------------
   // Emit helper
   // ---------------------------------------------------------------------------
@@ -887,10 +1676,25 @@ export function createInvocationManager(options: InvocationManagerOptions): Invo
   ): InvocationEventEnvelope<K>
   function emitEvent(
     inv: Invocation,
-    descriptor: InvocationEvent,
-    extra?: InvocationEventExtra
+    originalDescriptor: InvocationEvent,
+    originalExtra?: InvocationEventExtra
   ): InvocationEventEnvelope {
+    // Safe retry: fold the new generation's native turn id back onto the
+    // logical turn before any bracket below looks at it.
+    const { descriptor, extra } =
+      inv.retriedTurn !== undefined
+        ? aliasRetriedTurn(inv.retriedTurn, originalDescriptor, originalExtra)
+        : { descriptor: originalDescriptor, extra: originalExtra }
     const { type, payload } = descriptor
+
+    // Process-limit fence: once the broker retired the invocation for a limit
+    // or a failed recovery, the driver's own teardown report (its native
+    // timeout, the child's exit) would be a second terminal that reads as a
+    // crash. Suppress it.
+    if (inv.limitTerminal !== undefined && INVOCATION_TEARDOWN_TYPES.has(type)) {
+      return inv.limitTerminal
+    }
+
     const isTurnTerminal = TURN_TERMINAL_TYPES.has(type)
     const terminalTurnId = isTurnTerminal
       ? (extra?.turnId ?? (payload as { turnId?: TurnId } | undefined)?.turnId)
@@ -998,6 +1802,7 @@ export function createInvocationManager(options: InvocationManagerOptions): Invo
     // terminal. onEvent reads only the envelope, never invocation state.
     onEvent(event)
     applyEventState(inv, event)
+    noteTurnProgress(inv, event)
 
     // Follow-on diagnostics (e.g. truncation notices) are emitted as their own
     // events. Their payloads are small, so they never re-trigger truncation.
@@ -1087,11 +1892,13 @@ export function createInvocationManager(options: InvocationManagerOptions): Invo
    * (`user`), or deadline expiry applying `defaultDecision` (`timeout`). The
    * `permission.resolved` audit event is emitted on settlement. A failed/closed
    * broker→client request does NOT settle the pending request; it stays pending
-   * until the deadline or a respond.
+   * until the deadline or a respond. When a `rules` policy routed the request
+   * here through an `ask` rule, that rule rides on the resolution for audit.
    */
   function brokerRequestPermission(
     inv: Invocation,
-    params: PermissionRequestParams
+    params: PermissionRequestParams,
+    rule: PermissionRuleMatch | undefined
   ): Promise<PermissionDecision> {
     const defaultDecision = params.defaultDecision
     const timeoutMs = params.deadlineMs ?? DEFAULT_PERMISSION_TIMEOUT_MS
@@ -1116,7 +1923,12 @@ export function createInvocationManager(options: InvocationManagerOptions): Invo
         emit(
           inv,
           'permission.resolved',
-          { permissionRequestId: params.permissionRequestId, decision, decidedBy },
+          {
+            permissionRequestId: params.permissionRequestId,
+            decision,
+            decidedBy,
+            ...(rule !== undefined ? { rule } : {}),
+          },
           extra
         )
         resolveDriver({ decision })
@@ -1126,11 +1938,35 @@ export function createInvocationManager(options: InvocationManagerOptions): Invo
       // before `settle` (which reads it) can run.
       const timer = setTimeout(() => settle(defaultDecision, 'timeout'), timeoutMs)
 
+      const cancel = (reason: 'harness-generation-ended', harnessGeneration: number): void => {
+        if (settled) return
+        settled = true
+        clearTimeout(timer)
+        inv.pendingPermissions.delete(params.permissionRequestId)
+        // A respond for a withdrawn request can no longer take effect.
+        inv.settledPermissions.set(params.permissionRequestId, { decision: 'deny', expired: true })
+        emit(
+          inv,
+          'permission.cancelled',
+          {
+            permissionRequestId: params.permissionRequestId,
+            reason,
+            harnessGeneration,
+            ...(inv.currentTurnAttempt !== undefined
+              ? { turnAttempt: inv.currentTurnAttempt }
+              : {}),
+          },
+          extra
+        )
+        resolveDriver({ decision: 'deny' })
+      }
+
       inv.pendingPermissions.set(params.permissionRequestId, {
         params,
         defaultDecision,
         deadlineAt,
         settle,
+        cancel,
       })
 
       // Ask the connected controller. A response settles by `user`; a rejection
@@ -1314,7 +2150,7 @@ export function createInvocationManager(options: InvocationManagerOptions): Invo
         (`inv_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}` as InvocationId)
 
       const driverCaps = driver.capabilities()
-      assertLifecyclePolicySupported(lifecyclePolicy, driverCaps)
+      assertLifecyclePolicySupported(lifecyclePolicy, driverCaps, driver)
       // T-03779: reject a JSON Schema initialInput on an unsupporting driver
       // BEFORE driver.start and before the invocation is registered, so no
       // input.accepted/input.rejected is emitted and the driver never sees it.
@@ -1368,6 +2204,7 @@ export function createInvocationManager(options: InvocationManagerOptions): Invo
         startedToolCalls: new Map(),
         pendingPermissions: new Map(),
         settledPermissions: new Map(),
+        turnObservations: new Set(),
       }
       invocations.set(invocationId, inv)
 
@@ -1390,10 +2227,12 @@ export function createInvocationManager(options: InvocationManagerOptions): Invo
               // request to the broker, which holds it until an absolute
               // deadline, survives controller disconnect, emits
               // permission.resolved, and returns the final decision.
-              requestPermission: (params) => brokerRequestPermission(inv, params),
+              requestPermission: (params, options) =>
+                brokerRequestPermission(inv, params, options?.rule),
               brokerOwnsPermissionLifecycle: true,
             }
           : {}),
+        reportHarnessExit: (report) => handleHarnessExit(inv, report),
       }
 
       if (lifecyclePolicy !== undefined) {
@@ -1405,7 +2244,7 @@ export function createInvocationManager(options: InvocationManagerOptions): Invo
       }
 
       try {
-        await driver.start(spec, ctx)
+        await raceStartupLimit(inv, driver.start(spec, ctx))
       } catch (err) {
         inv.state = 'failed'
         emitTerminal(inv, 'invocation.failed', {
@@ -1430,6 +2269,9 @@ export function createInvocationManager(options: InvocationManagerOptions): Invo
       }
 
       inv.state = 'ready'
+      if (!inv.terminalEmitted) {
+        armAgeLimit(inv)
+      }
 
       // Apply initialInput through the same broker-owned path as client.input()
       if (initialInput !== undefined && !inv.terminalEmitted) {
@@ -1649,6 +2491,10 @@ export function createInvocationManager(options: InvocationManagerOptions): Invo
       return { disposed: true }
     },
 
+    recordDiagnostic(invocationId: InvocationId, diagnostic: DiagnosticPayload): void {
+      emit(requireInvocation(invocationId), 'diagnostic', diagnostic)
+    },
+
     permissionRespond(
       req: InvocationPermissionRespondRequest
     ): InvocationPermissionRespondResponse {
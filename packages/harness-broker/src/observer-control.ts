@@ -0,0 +1,160 @@
+import { createHash, timingSafeEqual } from 'node:crypto'
+import { readFile } from 'node:fs/promises'
+import {
+  BrokerErrorCode,
+  type InvocationId,
+  OBSERVER_CONTROL_SCOPES,
+  type ObserverControlScope,
+} from 'spaces-harness-broker-protocol'
+import type { Broker } from './broker'
+import { BrokerError } from './errors'
+
+/** One line of an observer token file: a secret and what it may do. */
+export interface ObserverControlGrant {
+  /** Identity recorded in audits: the grant's name, else a digest of its token. */
+  clientId: string
+  scopes: ReadonlySet<ObserverControlScope>
+  tokenDigest: Buffer
+}
+
+/** An authenticated control-mode connection. */
+export interface ObserverControlSession {
+  clientId: string
+  /** Caller-reported name from `observer.authenticate`; informational only. */
+  clientName?: string | undefined
+  scopes: ReadonlySet<ObserverControlScope>
+}
+
+export interface ObserverControlPolicy {
+  /** Resolve a presented token to its grant, or `undefined` when it matches none. */
+  authenticate(token: string): ObserverControlGrant | undefined
+}
+
+function digestToken(token: string): Buffer {
+  return createHash('sha256').update(token).digest()
+}
+
+function parseScopes(raw: string, where: string): Set<ObserverControlScope> {
+  if (raw === '*') return new Set(OBSERVER_CONTROL_SCOPES)
+  const scopes = new Set<ObserverControlScope>()
+  for (const scope of raw.split(',')) {
+    if (!(OBSERVER_CONTROL_SCOPES as readonly string[]).includes(scope)) {
+      throw new Error(
+        `${where}: unknown observer control scope ${JSON.stringify(scope)}; expected "*" or one of ${OBSERVER_CONTROL_SCOPES.join(', ')}`
+      )
+    }
+    scopes.add(scope as ObserverControlScope)
+  }
+  return scopes
+}
+
+/**
+ * Parse an observer token file. Each non-blank, non-`#` line is
+ * `<token> [scopes] [name]`, where scopes is `*` or a comma-separated list of
+ * {@link OBSERVER_CONTROL_SCOPES}. A line holding only a token grants every
+ * scope.
+ */
+export function parseObserverTokenFile(
+  text: string,
+  source = 'observer token file'
+): ObserverControlGrant[] {
+  const grants: ObserverControlGrant[] = []
+  const seen = new Set<string>()
+  for (const [index, line] of text.split('\n').entries()) {
+    const trimmed = line.trim()
+    if (trimmed === '' || trimmed.startsWith('#')) continue
+    const where = `${source}:${index + 1}`
+    const [token = '', rawScopes = '*', name, ...rest] = trimmed.split(/\s+/)
+    if (rest.length > 0) {
+      throw new Error(`${where}: expected "<token> [scopes] [name]"`)
+    }
+    const tokenDigest = digestToken(token)
+    const digestHex = tokenDigest.toString('hex')
+    if (seen.has(digestHex)) throw new Error(`${where}: duplicate token`)
+    seen.add(digestHex)
+    grants.push({
+      clientId: name ?? `token:${digestHex.slice(0, 12)}`,
+      scopes: parseScopes(rawScopes, where),
+      tokenDigest,
+    })
+  }
+  if (grants.length === 0) throw new Error(`${source}: no tokens`)
+  return grants
+}
+
+export function createObserverControlPolicy(
+  grants: readonly ObserverControlGrant[]
+): ObserverControlPolicy {
+  return {
+    authenticate(token) {
+      // Compare fixed-length digests so neither length nor prefix leaks timing.
+      const presented = digestToken(token)
+      return grants.find((grant) => timingSafeEqual(grant.tokenDigest, presented))
+    },
+  }
+}
+
+/**
+ * Policy used when control mode has no scoped token file: the controller's
+ * attach token authenticates, but is granted no control scopes. Side-car tools
+ * holding it stay read-only; mutations need an `--observer-token-file` grant.
+ */
+export function createAttachTokenObserverPolicy(attachToken: string): ObserverControlPolicy {
+  return createObserverControlPolicy([
+    { clientId: 'attach-token', scopes: new Set(), tokenDigest: digestToken(attachToken) },
+  ])
+}
+
+export async function loadObserverControlPolicy(path: string): Promise<ObserverControlPolicy> {
+  return createObserverControlPolicy(parseObserverTokenFile(await readFile(path, 'utf8'), path))
+}
+
+/**
+ * Gate one control-mode mutation. Every attempt by an authenticated client —
+ * allowed or not — is recorded as a broker `diagnostic` on the target
+ * invocation before anything runs, so the invocation's own event stream says
+ * who acted on it. Unauthenticated attempts are refused without touching the
+ * ledger, so anyone who can reach the socket cannot append to it. Throws
+ * CapabilityDenied for an unauthenticated connection or a scope the token was
+ * not granted.
+ */
+export function authorizeObserverControl(
+  broker: Broker,
+  session: ObserverControlSession | undefined,
+  method: ObserverControlScope,
+  invocationId: InvocationId
+): void {
+  if (session === undefined) {
+    throw new BrokerError(
+      BrokerErrorCode.CapabilityDenied,
+      `${method} requires observer.authenticate on this connection`,
+      { method }
+    )
+  }
+  const allowed = session.scopes.has(method)
+  try {
+    broker.recordDiagnostic(invocationId, {
+      level: allowed ? 'info' : 'warn',
+      source: 'broker',
+      kind: 'observer.control',
+      message: `observer control ${method} by ${session.clientId} ${allowed ? 'allowed' : 'denied'}`,
+      data: {
+        method,
+        decision: allowed ? 'allowed' : 'denied',
+        clientId: session.clientId,
+        ...(session.clientName !== undefined ? { clientName: session.clientName } : {}),
+      },
+    })
+  } catch (err) {
+    // An unknown invocation has no stream to audit into; the gate below (or
+    // the mutation itself) reports it.
+    if (!(err instanceof BrokerError && err.code === BrokerErrorCode.UnknownInvocation)) throw err
+  }
+  if (!allowed) {
+    throw new BrokerError(
+      BrokerErrorCode.CapabilityDenied,
+      `Observer client ${session.clientId} is not granted ${method}`,
+      { method, clientId: session.clientId, scopes: [...session.scopes] }
+    )
+  }
+}
@@ -0,0 +1,194 @@
+import { isAbsolute, normalize, resolve } from 'node:path'
+import type { PermissionRule, PermissionRuleMatch } from 'spaces-harness-broker-protocol'
+
+/**
+ * Driver-neutral view of one permission request, the only thing a rule is
+ * matched against. Each driver projects its native request into this shape.
+ */
+export interface PermissionRuleSubject {
+  kind: string
+  command?: string | undefined
+  cwd?: string | undefined
+  paths?: readonly string[] | undefined
+  toolName?: string | undefined
+}
+
+/**
+ * Find the first rule in `rules` that matches `subject`. Returns `undefined`
+ * when nothing matches; the caller then applies the policy's
+ * `defaultDecision`.
+ */
+export function matchPermissionRule(
+  rules: readonly PermissionRule[] | undefined,
+  subject: PermissionRuleSubject
+): PermissionRuleMatch | undefined {
+  const index = (rules ?? []).findIndex((rule) => ruleMatches(rule, subject))
+  if (index < 0) return undefined
+  const rule = (rules ?? [])[index] as PermissionRule
+  return { index, ...(rule.id !== undefined ? { id: rule.id } : {}), action: rule.action }
+}
+
+function ruleMatches(rule: PermissionRule, subject: PermissionRuleSubject): boolean {
+  if (rule.kind !== undefined && rule.kind !== subject.kind) return false
+  if (rule.command !== undefined) {
+    if (subject.command === undefined || !commandMatches(rule, subject.command)) return false
+  }
+  if (rule.tool !== undefined) {
+    if (subject.toolName === undefined || !globMatches(rule.tool, subject.toolName)) return false
+  }
+  if (rule.cwdPrefix !== undefined) {
+    if (subject.cwd === undefined || !underPrefix(subject.cwd, rule.cwdPrefix)) return false
+  }
+  if (rule.pathPrefix !== undefined) {
+    const paths = (subject.paths ?? []).map((path) => resolveSubjectPath(path, subject.cwd))
+    if (paths.length === 0) return false
+    const prefix = rule.pathPrefix
+    // Widening rules must cover every path; narrowing rules fire on any one.
+    const matched =
+      rule.action === 'allow'
+        ? paths.every((path) => underPrefix(path, prefix))
+        : paths.some((path) => underPrefix(path, prefix))
+    if (!matched) return false
+  }
+  return true
+}
+
+/**
+ * An `allow` rule widens what runs unattended, so it matches the command's
+ * argv tokens and never a command that chains, pipes, substitutes or
+ * redirects: `git *` approves `git log --oneline` but not
+ * `git status && rm -rf ~`, which falls through to later rules and the
+ * default. A pattern token of exactly `*` matches any run of whole tokens,
+ * and no wildcard matches a token with a `..` path segment.
+ *
+ * `deny` and `ask` rules narrow, so they match the whole command string or any
+ * one of its shell segments: `rm *` also fires on `git status; rm -rf ~`.
+ */
+function commandMatches(rule: PermissionRule, command: string): boolean {
+  const pattern = rule.command as string
+  if (rule.action === 'allow') {
+    const argv = parseCommandArgv(command)
+    const patternArgv = parseCommandArgv(pattern) ?? pattern.split(/\s+/).filter(Boolean)
+    return argv !== undefined && argvMatches(patternArgv, argv)
+  }
+  return (
+    globMatches(pattern, command) ||
+    command
+      .split(SHELL_SEGMENT_SEPARATOR)
+      .map((segment) => segment.trim())
+      .some((segment) => segment.length > 0 && globMatches(pattern, segment))
+  )
+}
+
+/** Characters that end one shell command and may start another. */
+const SHELL_SEGMENT_SEPARATOR = /[;&|\n\r`()<>]|\$\(/
+/** Unquoted characters that make a command more than one plain argv. */
+const SHELL_CONTROL_CHARS = new Set([';', '&', '|', '\n', '\r', '`', '(', ')', '<', '>'])
+
+/**
+ * Split `command` into argv the way a POSIX shell would for a single simple
+ * command. Returns `undefined` when it is not one: any unquoted control
+ * operator, redirection or subshell, any command substitution (also inside
+ * double quotes), or unbalanced quotes.
+ */
+function parseCommandArgv(command: string): string[] | undefined {
+  const argv: string[] = []
+  let current = ''
+  let inToken = false
+  let quote: "'" | '"' | undefined
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i] as string
+    const next = command[i + 1]
+    if (quote === "'") {
+      if (char === "'") quote = undefined
+      else current += char
+      continue
+    }
+    if (quote === '"') {
+      if (char === '"') quote = undefined
+      else if (char === '`' || (char === '$' && next === '(')) return undefined
+      else if (char === '\\' && next !== undefined && '"\\$`'.includes(next)) {
+        current += next
+        i++
+      } else current += char
+      continue
+    }
+    if (char === "'" || char === '"') {
+      quote = char
+      inToken = true
+    } else if (char === '\\') {
+      if (next === undefined || next === '\n') return undefined
+      current += next
+      inToken = true
+      i++
+    } else if (SHELL_CONTROL_CHARS.has(char)) {
+      return undefined
+    } else if (char === ' ' || char === '\t') {
+      if (inToken) argv.push(current)
+      current = ''
+      inToken = false
+    } else {
+      current += char
+      inToken = true
+    }
+  }
+  if (quote !== undefined) return undefined
+  if (inToken) argv.push(current)
+  return argv
+}
+
+function argvMatches(pattern: readonly string[], argv: readonly string[]): boolean {
+  const [head, ...rest] = pattern
+  if (head === undefined) return argv.length === 0
+  if (head === '*') {
+    for (let skip = 0; skip <= argv.length; skip++) {
+      if (argv.slice(0, skip).some(hasParentSegment)) break
+      if (argvMatches(rest, argv.slice(skip))) return true
+    }
+    return false
+  }
+  const [token, ...remaining] = argv
+  if (token === undefined) return false
+  const tokenMatches = hasParentSegment(token) ? head === token : globMatches(head, token)
+  return tokenMatches && argvMatches(rest, remaining)
+}
+
+/**
+ * A `..` path segment lets a token escape whatever directory an allow pattern
+ * names (`rm -rf /tmp/*` must not approve `rm -rf /tmp/../home/me`), so such a
+ * token only matches a pattern token that spells it out literally.
+ */
+function hasParentSegment(token: string): boolean {
+  return token.split('/').includes('..')
+}
+
+/**
+ * Rule paths are absolute. A relative request path is resolved against the
+ * request cwd (so `secrets/key.pem` cannot slip past a `/repo/secrets` deny),
+ * and every path is normalized so `..` segments cannot either.
+ */
+function resolveSubjectPath(path: string, cwd: string | undefined): string {
+  return normalize(cwd !== undefined && !isAbsolute(path) ? resolve(cwd, path) : path)
+}
+
+/** `*` matches any run of characters (including `/` and spaces), `?` exactly one. */
+function globMatches(pattern: string, value: string): boolean {
+  let source = ''
+  for (const char of pattern) {
+    if (char === '*') source += '[\\s\\S]*'
+    else if (char === '?') source += '[\\s\\S]'
+    else source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+  }
+  return new RegExp(`^${source}$`).test(value)
+}
+
+/**
+ * Segment-aware prefix test: `/repo` covers `/repo` and `/repo/a`, not
+ * `/repository`. The path is normalized first so `/repo/../etc` cannot pass.
+ */
+function underPrefix(path: string, prefix: string): boolean {
+  const normalized = normalize(path)
+  const base = prefix.length > 1 ? prefix.replace(/\/+$/, '') : prefix
+  if (normalized === base) return true
+  return normalized.startsWith(base.endsWith('/') ? base : `${base}/`)
+}
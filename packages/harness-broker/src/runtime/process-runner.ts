@@ -20,7 +20,9 @@ export async function spawnHarnessProcess(
   spec: HarnessProcessSpec,
   channels: SpawnEnvChannels = {}
 ): Promise<ChildProcessWithoutNullStreams> {
-  if (spec.harnessTransport.kind !== 'jsonrpc-stdio') {
+  // Both stdio transports spawn the same piped child; the framing on top
+  // (JSON-RPC vs. a driver-specific NDJSON stream) is the driver's concern.
+  if (spec.harnessTransport.kind !== 'jsonrpc-stdio' && spec.harnessTransport.kind !== 'pipes') {
     throw new BrokerError(
       BrokerErrorCode.UnsupportedCapability,
       `Unsupported harness transport: ${spec.harnessTransport.kind}`
@@ -0,0 +1,369 @@
+import { Database } from 'bun:sqlite'
+import { mkdirSync } from 'node:fs'
+import { dirname } from 'node:path'
+import type { InvocationEventEnvelope, InvocationId } from 'spaces-harness-broker-protocol'
+import { BrokerErrorCode } from 'spaces-harness-broker-protocol'
+import { BrokerError } from './errors'
+import {
+  type EventLedger,
+  type EventLedgerAckResult,
+  type EventLedgerAppendResult,
+  type EventLedgerPruneOptions,
+  readJsonlLedger,
+  stableJsonStringify,
+} from './event-ledger'
+
+const SCHEMA_VERSION = 1
+
+/** Rows examined per size-eviction pass; bounds memory on a large ledger. */
+const SIZE_EVICTION_BATCH = 512
+
+/**
+ * Retention bounds applied by `prune`, on top of the ack-floor pruning every
+ * ledger performs. Only events a controller can no longer need are eligible:
+ * anything already acked, and everything of an invocation that is no longer
+ * active. Unacked events of an active invocation are never evicted.
+ */
+export interface EventLedgerRetentionPolicy {
+  /** Evict eligible events appended longer ago than this. */
+  maxAgeMs?: number | undefined
+  /** Evict the oldest eligible events until the stored event bytes fit. */
+  maxBytes?: number | undefined
+}
+
+export interface SqliteEventLedgerOptions {
+  path: string
+  retention?: EventLedgerRetentionPolicy | undefined
+  /** Clock for `appended_at` stamps and age retention. Defaults to wall-clock. */
+  now?: (() => Date) | undefined
+}
+
+export interface JsonlImportResult {
+  imported: number
+  skipped: number
+}
+
+export interface SqliteEventLedger extends EventLedger {
+  /**
+   * Migrate an existing JSONL ledger into this database. Runs in one
+   * transaction with the same idempotency rules as `append`: identical
+   * duplicates are skipped and a conflicting duplicate aborts the import.
+   */
+  importJsonl(path: string): JsonlImportResult
+  close(): void
+}
+
+interface InvocationRow {
+  current_seq: number
+  acked_through_seq: number
+  retention_floor_seq: number
+}
+
+interface EvictionCandidateRow {
+  invocation_id: string
+  seq: number
+  size: number
+}
+
+/**
+ * SQLite-backed event ledger (bun:sqlite). Events are keyed by
+ * `(invocation_id, seq)` so `eventsSince` is an index range scan instead of a
+ * full in-memory sort, acks and retention floors are durable across restarts,
+ * and pruning deletes an indexed prefix instead of rewriting the whole file.
+ *
+ * Semantics match the JSONL ledger: appends are idempotent per
+ * `(invocationId, seq)` and reject conflicting duplicates, acks are monotonic,
+ * and `prune` drops acked events of inactive invocations. `currentSeq` is the
+ * high-water mark, so it stays truthful after every stored event was pruned.
+ */
+export function createSqliteEventLedger(options: SqliteEventLedgerOptions): SqliteEventLedger {
+  const now = options.now ?? (() => new Date())
+  const retention = options.retention
+  mkdirSync(dirname(options.path), { recursive: true })
+  const db = new Database(options.path, { create: true })
+  // auto_vacuum must be chosen before the first table exists; it is a no-op on
+  // an existing database.
+  db.exec('PRAGMA auto_vacuum = INCREMENTAL')
+  db.exec('PRAGMA journal_mode = WAL')
+  // FULL keeps the durability the JSONL ledger gets from its per-append fsync.
+  db.exec('PRAGMA synchronous = FULL')
+  migrate(db)
+
+  const selectInvocation = db.query<InvocationRow, [string]>(
+    'SELECT current_seq, acked_through_seq, retention_floor_seq FROM invocations WHERE invocation_id = ?'
+  )
+  const upsertSeq = db.query<unknown, [string, number]>(
+    `INSERT INTO invocations (invocation_id, current_seq) VALUES (?1, ?2)
+     ON CONFLICT (invocation_id) DO UPDATE SET current_seq = MAX(current_seq, ?2)`
+  )
+  const upsertAck = db.query<unknown, [string, number]>(
+    `INSERT INTO invocations (invocation_id, acked_through_seq) VALUES (?1, ?2)
+     ON CONFLICT (invocation_id) DO UPDATE SET acked_through_seq = ?2`
+  )
+  const raiseFloor = db.query<unknown, [string, number]>(
+    `UPDATE invocations SET retention_floor_seq = MAX(retention_floor_seq, ?2)
+     WHERE invocation_id = ?1`
+  )
+  const selectEvent = db.query<{ bytes: string }, [string, number]>(
+    'SELECT bytes FROM events WHERE invocation_id = ? AND seq = ?'
+  )
+  const insertEvent = db.query<unknown, [string, number, string, number]>(
+    'INSERT INTO events (invocation_id, seq, bytes, appended_at) VALUES (?, ?, ?, ?)'
+  )
+  const selectSince = db.query<{ bytes: string }, [string, number]>(
+    'SELECT bytes FROM events WHERE invocation_id = ? AND seq > ? ORDER BY seq'
+  )
+  const deleteThrough = db.query<unknown, [string, number]>(
+    'DELETE FROM events WHERE invocation_id = ? AND seq <= ?'
+  )
+  const selectAckedInactive = db.query<
+    { invocation_id: string; acked_through_seq: number },
+    [string]
+  >(
+    `SELECT invocation_id, acked_through_seq FROM invocations
+     WHERE acked_through_seq > retention_floor_seq
+       AND invocation_id NOT IN (SELECT value FROM json_each(?))`
+  )
+  // Eligible = already acked, or owned by an invocation that is no longer active.
+  const selectAgedOut = db.query<{ invocation_id: string; seq: number }, [number, string]>(
+    `SELECT e.invocation_id, MAX(e.seq) AS seq FROM events e
+     JOIN invocations i ON i.invocation_id = e.invocation_id
+     WHERE e.appended_at < ?1
+       AND (e.seq <= i.acked_through_seq
+            OR e.invocation_id NOT IN (SELECT value FROM json_each(?2)))
+     GROUP BY e.invocation_id`
+  )
+  const selectTotalBytes = db.query<{ total: number | null }, []>(
+    'SELECT SUM(LENGTH(CAST(bytes AS BLOB))) AS total FROM events'
+  )
+  const selectEvictionCandidates = db.query<EvictionCandidateRow, [string, number]>(
+    `SELECT e.invocation_id, e.seq, LENGTH(CAST(e.bytes AS BLOB)) AS size FROM events e
+     JOIN invocations i ON i.invocation_id = e.invocation_id
+     WHERE e.seq <= i.acked_through_seq
+        OR e.invocation_id NOT IN (SELECT value FROM json_each(?1))
+     ORDER BY e.appended_at, e.invocation_id, e.seq
+     LIMIT ?2`
+  )
+
+  function readInvocation(invocationId: string): InvocationRow | undefined {
+    return selectInvocation.get(invocationId) ?? undefined
+  }
+
+  function appendSync(event: InvocationEventEnvelope): EventLedgerAppendResult {
+    const invocationId = event.invocationId
+    const seq = event.seq
+    const bytes = stableJsonStringify(event)
+    const existing = selectEvent.get(invocationId, seq)
+    if (existing) {
+      if (existing.bytes !== bytes) {
+        throw new BrokerError(
+          BrokerErrorCode.ResourceError,
+          `Conflicting duplicate event for ${invocationId} seq ${seq}`,
+          { invocationId, seq }
+        )
+      }
+      return { appended: false }
+    }
+    // At or below the retention floor the event was stored once and pruned; a
+    // replayed append of it is a duplicate, not a gap to refill.
+    const floor = readInvocation(invocationId)?.retention_floor_seq ?? 0
+    if (seq <= floor) {
+      return { appended: false }
+    }
+    insertEvent.run(invocationId, seq, bytes, now().getTime())
+    upsertSeq.run(invocationId, seq)
+    return { appended: true }
+  }
+
+  const appendTransaction = db.transaction(appendSync)
+
+  const importTransaction = db.transaction((events: InvocationEventEnvelope[]) => {
+    const result: JsonlImportResult = { imported: 0, skipped: 0 }
+    for (const event of events) {
+      if (appendSync(event).appended) {
+        result.imported += 1
+      } else {
+        result.skipped += 1
+      }
+    }
+    return result
+  })
+
+  function dropThrough(invocationId: string, seq: number): void {
+    deleteThrough.run(invocationId, seq)
+    raiseFloor.run(invocationId, seq)
+  }
+
+  function evictForSize(maxBytes: number, active: string): void {
+    let total = selectTotalBytes.get()?.total ?? 0
+    while (total > maxBytes) {
+      const candidates = selectEvictionCandidates.all(active, SIZE_EVICTION_BATCH)
+      if (candidates.length === 0) {
+        return
+      }
+      // Candidates are oldest-first, so each invocation's evictions form a seq
+      // prefix and the retention floor stays contiguous.
+      const throughSeq = new Map<string, number>()
+      for (const candidate of candidates) {
+        if (total <= maxBytes) break
+        total -= candidate.size
+        throughSeq.set(candidate.invocation_id, candidate.seq)
+      }
+      for (const [invocationId, seq] of throughSeq) {
+        dropThrough(invocationId, seq)
+      }
+    }
+  }
+
+  const pruneTransaction = db.transaction((activeInvocationIds: string[]) => {
+    const active = JSON.stringify(activeInvocationIds)
+    for (const row of selectAckedInactive.all(active)) {
+      dropThrough(row.invocation_id, row.acked_through_seq)
+    }
+    if (retention?.maxAgeMs !== undefined) {
+      const cutoff = now().getTime() - retention.maxAgeMs
+      for (const row of selectAgedOut.all(cutoff, active)) {
+        dropThrough(row.invocation_id, row.seq)
+      }
+    }
+    if (retention?.maxBytes !== undefined) {
+      evictForSize(retention.maxBytes, active)
+    }
+  })
+
+  return {
+    append(event: InvocationEventEnvelope): Promise<EventLedgerAppendResult> {
+      try {
+        return Promise.resolve(appendTransaction(event))
+      } catch (error) {
+        return Promise.reject(error)
+      }
+    },
+
+    eventsSince(invocationId: InvocationId, afterSeq: number): Promise<InvocationEventEnvelope[]> {
+      const floor = readInvocation(invocationId)?.retention_floor_seq ?? 0
+      if (afterSeq < floor) {
+        return Promise.reject(
+          new BrokerError(
+            BrokerErrorCode.EventReplayUnavailable,
+            `Event replay unavailable before retention floor ${floor}`,
+            { invocationId, afterSeq, retentionFloorSeq: floor }
+          )
+        )
+      }
+      const events = selectSince
+        .all(invocationId, afterSeq)
+        .map((row) => JSON.parse(row.bytes) as InvocationEventEnvelope)
+      return Promise.resolve(events)
+    },
+
+    ackEvents(invocationId: InvocationId, throughSeq: number): Promise<EventLedgerAckResult> {
+      const previous = readInvocation(invocationId)?.acked_through_seq ?? 0
+      if (throughSeq < previous) {
+        return Promise.reject(
+          new BrokerError(
+            BrokerErrorCode.EventReplayUnavailable,
+            `Event ack cannot move backwards from ${previous} to ${throughSeq}`,
+            { invocationId, previousAckedThroughSeq: previous, throughSeq }
+          )
+        )
+      }
+      upsertAck.run(invocationId, throughSeq)
+      return Promise.resolve({ ackedThroughSeq: throughSeq })
+    },
+
+    retentionFloorSeq(invocationId: InvocationId): Promise<number> {
+      return Promise.resolve(readInvocation(invocationId)?.retention_floor_seq ?? 0)
+    },
+
+    currentSeq(invocationId: InvocationId): number {
+      return readInvocation(invocationId)?.current_seq ?? 0
+    },
+
+    prune(pruneOptions: EventLedgerPruneOptions): Promise<void> {
+      try {
+        pruneTransaction(pruneOptions.activeInvocationIds)
+        // Hand freed pages back to the filesystem without a full VACUUM.
+        db.exec('PRAGMA incremental_vacuum')
+        return Promise.resolve()
+      } catch (error) {
+        return Promise.reject(error)
+      }
+    },
+
+    importJsonl(path: string): JsonlImportResult {
+      return importTransaction(readJsonlLedger(path))
+    },
+
+    close(): void {
+      db.close()
+    },
+  }
+}
+
+/**
+ * Read one invocation's retained events in seq order without writing: the
+ * database is opened read-only and never created or migrated, so an export can
+ * run against a ledger a live broker still owns.
+ */
+export function readSqliteLedgerEvents(
+  path: string,
+  invocationId: InvocationId
+): InvocationEventEnvelope[] {
+  const db = new Database(path, { readonly: true })
+  try {
+    const version = db.query<{ user_version: number }, []>('PRAGMA user_version').get()
+    const current = version?.user_version ?? 0
+    if (current !== SCHEMA_VERSION) {
+      throw new BrokerError(
+        BrokerErrorCode.ResourceError,
+        `Event ledger schema version ${current} is not the supported version ${SCHEMA_VERSION}`,
+        { schemaVersion: current, supportedVersion: SCHEMA_VERSION }
+      )
+    }
+    // Pruning deletes everything at or below the retention floor, so every
+    // stored row is retained.
+    return db
+      .query<{ bytes: string }, [string]>(
+        'SELECT bytes FROM events WHERE invocation_id = ? ORDER BY seq'
+      )
+      .all(invocationId)
+      .map((row) => JSON.parse(row.bytes) as InvocationEventEnvelope)
+  } finally {
+    db.close()
+  }
+}
+
+function migrate(db: Database): void {
+  const version = db.query<{ user_version: number }, []>('PRAGMA user_version').get()
+  const current = version?.user_version ?? 0
+  if (current > SCHEMA_VERSION) {
+    throw new BrokerError(
+      BrokerErrorCode.ResourceError,
+      `Event ledger schema version ${current} is newer than supported version ${SCHEMA_VERSION}`,
+      { schemaVersion: current, supportedVersion: SCHEMA_VERSION }
+    )
+  }
+  if (current === SCHEMA_VERSION) {
+    return
+  }
+  db.transaction(() => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS events (
+        invocation_id TEXT NOT NULL,
+        seq INTEGER NOT NULL,
+        bytes TEXT NOT NULL,
+        appended_at INTEGER NOT NULL,
+        PRIMARY KEY (invocation_id, seq)
+      ) WITHOUT ROWID;
+      CREATE INDEX IF NOT EXISTS events_appended_at ON events (appended_at);
+      CREATE TABLE IF NOT EXISTS invocations (
+        invocation_id TEXT PRIMARY KEY,
+        current_seq INTEGER NOT NULL DEFAULT 0,
+        acked_through_seq INTEGER NOT NULL DEFAULT 0,
+        retention_floor_seq INTEGER NOT NULL DEFAULT 0
+      );
+    `)
+    db.exec(`PRAGMA user_version = ${SCHEMA_VERSION}`)
+  })()
+}
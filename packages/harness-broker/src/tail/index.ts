@@ -0,0 +1,33 @@
+export {
+  type DurableReadSurface,
+  type EventsSinceRequest,
+  type EventsSinceResponse,
+  type TailProjection,
+  type TailProjectionOptions,
+  createTailProjection,
+  formatReadFailure,
+} from './projection'
+export { type BrokerReadConnection, connectBrokerReadSurface } from './read-surface'
+export {
+  type StatusLine,
+  type StatusLineOptions,
+  type StatusLineState,
+  createStatusLine,
+  statusLineStateForEventType,
+} from './status-line'
+export {
+  type BrokerTail,
+  type BrokerTailEndReason,
+  type BrokerTailOptions,
+  type BrokerTailOutput,
+  startBrokerTail,
+} from './tail'
+export {
+  type StatusRow,
+  type TranscriptModel,
+  type TranscriptModelOptions,
+  type TranscriptWidth,
+  STATUS_FRAME_COUNT,
+  createStatusRow,
+  createTranscriptModel,
+} from './transcript'
@@ -0,0 +1,113 @@
+import { connect } from 'node:net'
+import {
+  type InvocationEventEnvelope,
+  type InvocationStatusRequest,
+  type InvocationStatusResponse,
+  type JsonRpcMessage,
+  NdjsonDecoder,
+  encodeNdjsonFrame,
+} from 'spaces-harness-broker-protocol'
+import type { DurableReadSurface, EventsSinceRequest, EventsSinceResponse } from './projection'
+
+export interface BrokerReadConnection {
+  surface: DurableReadSurface
+  /** `invocation.status`, for callers that want to label the pane by driver. */
+  status: (request: InvocationStatusRequest) => Promise<InvocationStatusResponse>
+  /** Resolves once the socket is gone, whichever side closed it. */
+  closed: Promise<void>
+  close: () => void
+}
+
+/**
+ * Connect to the broker's read-only observer socket and expose it as a
+ * {@link DurableReadSurface}: `eventsSince` issues the bootstrap request (which
+ * also subscribes the connection) and `observe` delivers live `invocation.event`
+ * notifications. NDJSON-framed JSON-RPC, matching the broker's read-method
+ * transport. Not for the controller socket: connecting there takes over the
+ * broker's live notification channel.
+ */
+export function connectBrokerReadSurface(socketPath: string): BrokerReadConnection {
+  const decoder = new NdjsonDecoder()
+  const liveHandlers = new Set<(event: InvocationEventEnvelope) => void>()
+  const pending = new Map<number, { resolve: (v: unknown) => void; reject: (e: unknown) => void }>()
+  let nextId = 1
+  const socket = connect(socketPath)
+  socket.setEncoding('utf8')
+
+  function dispatch(message: JsonRpcMessage): void {
+    if ('id' in message && message.id !== null && message.id !== undefined) {
+      const id = Number(message.id)
+      const waiter = pending.get(id)
+      if (waiter === undefined) return
+      pending.delete(id)
+      if ('error' in message && message.error !== undefined) {
+        waiter.reject(message.error)
+      } else {
+        waiter.resolve((message as { result?: unknown }).result)
+      }
+      return
+    }
+    if ('method' in message && message.method === 'invocation.event') {
+      // The broker/observer wire shape carries the envelope DIRECTLY as `params`
+      // (see cli.ts emitEvent / notifyObserverClient and the aspc facade — all
+      // four producers emit `params: <envelope>`). Read it directly; tolerate a
+      // legacy `{ event }` wrapper defensively so either shape is accepted.
+      const params = message.params as
+        | (InvocationEventEnvelope & { event?: InvocationEventEnvelope })
+        | undefined
+      const event = params?.event ?? params
+      if (
+        event !== undefined &&
+        typeof event.seq === 'number' &&
+        typeof event.invocationId === 'string'
+      ) {
+        for (const handler of liveHandlers) handler(event)
+      }
+    }
+  }
+
+  socket.on('data', (chunk: string) => {
+    for (const frame of decoder.push(chunk)) {
+      if (frame.ok) dispatch(frame.value)
+    }
+  })
+
+  // A refused or dropped socket fails every outstanding request rather than
+  // leaving the caller awaiting a reply that can never arrive.
+  let socketError: unknown
+  let closedError: unknown
+  socket.on('error', (error) => {
+    socketError = error
+  })
+  const closed = new Promise<void>((resolve) => {
+    socket.on('close', () => {
+      closedError = socketError ?? new Error(`broker socket closed: ${socketPath}`)
+      for (const waiter of pending.values()) waiter.reject(closedError)
+      pending.clear()
+      resolve()
+    })
+  })
+
+  function request<T>(method: string, params: unknown): Promise<T> {
+    if (closedError !== undefined) return Promise.reject(closedError)
+    const id = nextId++
+    return new Promise<T>((resolve, reject) => {
+      pending.set(id, { resolve: resolve as (v: unknown) => void, reject })
+      socket.write(encodeNdjsonFrame({ jsonrpc: '2.0', id, method, params }))
+    })
+  }
+
+  return {
+    surface: {
+      eventsSince: (req: EventsSinceRequest) =>
+        request<EventsSinceResponse>('invocation.eventsSince', req),
+      observe: (handler) => {
+        liveHandlers.add(handler)
+        return { close: () => liveHandlers.delete(handler) }
+      },
+    },
+    status: (req) => request<InvocationStatusResponse>('invocation.status', req),
+    closed,
+    close: () => socket.destroy(),
+  }
+}
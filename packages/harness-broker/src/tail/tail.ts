@@ -0,0 +1,153 @@
+import {
+  BrokerErrorCode,
+  type InvocationEventEnvelope,
+  type InvocationId,
+} from 'spaces-harness-broker-protocol'
+import { createTailProjection } from './projection'
+import { connectBrokerReadSurface } from './read-surface'
+import { createStatusLine, statusLineStateForEventType } from './status-line'
+import { type TranscriptWidth, createStatusRow } from './transcript'
+
+/** How long a pane resize must settle before the transcript is re-rendered. */
+const RESIZE_SETTLE_MS = 120
+
+/** The slice of a `tty.WriteStream` a tail writes to; `process.stdout` satisfies it. */
+export interface BrokerTailOutput {
+  write: (chunk: string) => unknown
+  isTTY?: boolean | undefined
+  columns?: number | undefined
+  on?: ((event: 'resize', listener: () => void) => unknown) | undefined
+  off?: ((event: 'resize', listener: () => void) => unknown) | undefined
+}
+
+export interface BrokerTailOptions {
+  /**
+   * The broker's read-only observer socket (`--experimental-observer-socket`),
+   * never its controller socket.
+   */
+  socketPath: string
+  invocationId: string
+  /**
+   * Keep streaming live `invocation.event` notifications after the replay until
+   * the invocation reaches a terminal event (default true). False prints the
+   * durable history and returns.
+   */
+  follow?: boolean | undefined
+  /** Defaults to `process.stdout`. */
+  output?: BrokerTailOutput | undefined
+  /** Emit ANSI colour (default: on a TTY unless NO_COLOR is set). */
+  color?: boolean | undefined
+  /** Pane width; defaults to a thunk over the output's live `columns`. */
+  width?: TranscriptWidth | undefined
+  /** Transcript header label; defaults to the invocation's driver kind. */
+  label?: string | undefined
+}
+
+/**
+ * `unknown`: the broker has no such invocation and no durable history for it,
+ * so the id is wrong and there is nothing to wait for.
+ */
+export type BrokerTailEndReason = 'replayed' | 'terminal' | 'disconnected' | 'stopped' | 'unknown'
+
+export interface BrokerTail {
+  /** Settles once the tail has stopped writing, with why it stopped. */
+  done: Promise<BrokerTailEndReason>
+  /** Stop early (e.g. on SIGINT): erase the status row and close the socket. */
+  stop: () => void
+}
+
+/**
+ * Tail one invocation's durable event stream into a terminal, whichever driver
+ * runs it. Projects exactly what the Codex app-server pane does —
+ * `eventsSince` replay then live `invocation.event`, deduplicated by seq — with
+ * the same live status row and width-reflow on resize, but it is a pure reader:
+ * there is no `/quit` control channel, so it is safe to run from anywhere and
+ * as many times as wanted. An invocation the broker does not know can never
+ * emit a live event, so the tail never follows one: it prints whatever history
+ * the ledger kept and returns, or ends as `unknown` when there is none.
+ */
+export function startBrokerTail(options: BrokerTailOptions): BrokerTail {
+  const { invocationId } = options
+  const follow = options.follow ?? true
+  const output: BrokerTailOutput = options.output ?? process.stdout
+  const isTty = output.isTTY === true
+  const color = options.color ?? (process.env['NO_COLOR'] === undefined && isTty)
+  const width = options.width ?? ((): number | undefined => output.columns)
+  const connection = connectBrokerReadSurface(options.socketPath)
+
+  let finish: (reason: BrokerTailEndReason) => void = () => undefined
+  const ended = new Promise<BrokerTailEndReason>((resolve) => {
+    finish = resolve
+  })
+
+  const statusRow = createStatusRow({ color, width })
+  const statusLine = createStatusLine({
+    write: (chunk) => output.write(chunk),
+    renderRow: (frame, elapsedMs) => statusRow.running(frame, elapsedMs),
+    enabled: isTty && follow,
+  })
+
+  let projection: ReturnType<typeof createTailProjection> | undefined
+  let redrawTimer: ReturnType<typeof setTimeout> | undefined
+  let lastColumns = output.columns
+  // Same reflow as the Codex pane: clear screen and scrollback, then rebuild the
+  // transcript from history at the new width so no row stays frozen at the old one.
+  const onResize = (): void => {
+    if (output.columns === lastColumns) return
+    lastColumns = output.columns
+    if (redrawTimer !== undefined) clearTimeout(redrawTimer)
+    redrawTimer = setTimeout(() => {
+      redrawTimer = undefined
+      output.write('\x1b[H\x1b[2J\x1b[3J')
+      statusLine.invalidate()
+      projection?.redraw()
+    }, RESIZE_SETTLE_MS)
+  }
+
+  const done = (async (): Promise<BrokerTailEndReason> => {
+    let label = options.label
+    let live = true
+    try {
+      const status = await connection.status({ invocationId: invocationId as InvocationId })
+      label ??= status.driver
+    } catch (error) {
+      // Any other failure (e.g. a refused socket) surfaces through the replay.
+      live = (error as { code?: unknown }).code !== BrokerErrorCode.UnknownInvocation
+    }
+    let replayedEvents = 0
+    projection = createTailProjection({
+      invocationId,
+      readSurface: connection.surface,
+      sink: (line) => statusLine.writeLine(line),
+      onEvent: (event: InvocationEventEnvelope) => {
+        replayedEvents += 1
+        statusLine.observe(event)
+        if (statusLineStateForEventType(event.type) === 'exited') finish('terminal')
+      },
+      ...(label !== undefined ? { label } : {}),
+      color,
+      width,
+    })
+    void connection.closed.then(() => finish('disconnected'))
+    await projection.start()
+    if (!live && replayedEvents === 0) {
+      statusLine.writeLine(`unknown invocation: ${invocationId}`)
+      finish('unknown')
+    } else if (!follow || !live) {
+      finish('replayed')
+    }
+    if (isTty) output.on?.('resize', onResize)
+    const reason = await ended
+    if (redrawTimer !== undefined) clearTimeout(redrawTimer)
+    output.off?.('resize', onResize)
+    statusLine.dispose()
+    projection.close()
+    connection.close()
+    return reason
+  })()
+
+  return {
+    done,
+    stop: () => finish('stopped'),
+  }
+}
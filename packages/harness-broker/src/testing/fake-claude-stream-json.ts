@@ -0,0 +1,144 @@
+import { createInterface } from 'node:readline'
+import type { Readable, Writable } from 'node:stream'
+
+export interface ClaudeStreamFrame {
+  type: string
+  [key: string]: unknown
+}
+
+export interface FakeClaudeIo {
+  read(): Promise<ClaudeStreamFrame>
+  send(frame: ClaudeStreamFrame): void
+  close(code?: number): never
+}
+
+export function claudeStream(
+  stdin: Readable = process.stdin,
+  stdout: Writable = process.stdout
+): FakeClaudeIo {
+  const pending: ClaudeStreamFrame[] = []
+  const waiters: Array<(frame: ClaudeStreamFrame) => void> = []
+
+  const rl = createInterface({ input: stdin })
+  // Exit on stdin EOF so an orphaned fixture never spins on a closed pipe.
+  rl.on('close', () => {
+    process.exit(0)
+  })
+  rl.on('line', (line) => {
+    const frame = JSON.parse(line) as ClaudeStreamFrame
+    const waiter = waiters.shift()
+    if (waiter) {
+      waiter(frame)
+      return
+    }
+    pending.push(frame)
+  })
+
+  return {
+    async read(): Promise<ClaudeStreamFrame> {
+      const frame = pending.shift()
+      if (frame) {
+        return frame
+      }
+      return new Promise((resolve) => waiters.push(resolve))
+    },
+    send(frame: ClaudeStreamFrame): void {
+      stdout.write(`${JSON.stringify(frame)}\n`)
+    },
+    close(code = 0): never {
+      process.exit(code)
+    },
+  }
+}
+
+export async function expectFrame(io: FakeClaudeIo, type: string): Promise<ClaudeStreamFrame> {
+  const frame = await io.read()
+  if (frame.type !== type) {
+    throw new Error(`expected ${type}, got ${frame.type}`)
+  }
+  return frame
+}
+
+/** Read the next broker `user` message and return its text. */
+export async function expectUserText(io: FakeClaudeIo): Promise<string> {
+  const frame = await expectFrame(io, 'user')
+  const message = frame['message'] as { content?: Array<{ text?: string }> } | undefined
+  return (message?.content ?? []).map((block) => block.text ?? '').join('')
+}
+
+export function sendInit(io: FakeClaudeIo, sessionId = 'session_1'): void {
+  io.send({
+    type: 'system',
+    subtype: 'init',
+    session_id: sessionId,
+    model: 'claude-fake',
+    tools: ['Bash', 'Read', 'Edit'],
+  })
+}
+
+/** Stream one text assistant message the way `--include-partial-messages` does. */
+export function sendAssistantText(
+  io: FakeClaudeIo,
+  text: string,
+  options: { messageId?: string; sessionId?: string; chunks?: string[] } = {}
+): void {
+  const messageId = options.messageId ?? 'msg_1'
+  const sessionId = options.sessionId ?? 'session_1'
+  io.send({
+    type: 'stream_event',
+    session_id: sessionId,
+    event: { type: 'message_start', message: { id: messageId, role: 'assistant' } },
+  })
+  for (const chunk of options.chunks ?? [text]) {
+    io.send({
+      type: 'stream_event',
+      session_id: sessionId,
+      event: { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: chunk } },
+    })
+  }
+  io.send({ type: 'stream_event', session_id: sessionId, event: { type: 'message_stop' } })
+  io.send({
+    type: 'assistant',
+    session_id: sessionId,
+    message: { id: messageId, role: 'assistant', content: [{ type: 'text', text }] },
+  })
+}
+
+export function sendResult(
+  io: FakeClaudeIo,
+  text: string,
+  overrides: Record<string, unknown> = {}
+): void {
+  io.send({
+    type: 'result',
+    subtype: 'success',
+    is_error: false,
+    result: text,
+    session_id: 'session_1',
+    num_turns: 1,
+    duration_ms: 12,
+    total_cost_usd: 0.001,
+    usage: { input_tokens: 10, output_tokens: 5 },
+    ...overrides,
+  })
+}
+
+/** Ask the broker to approve a tool and return its `control_response` payload. */
+export async function requestToolPermission(
+  io: FakeClaudeIo,
+  requestId: string,
+  toolName: string,
+  input: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  io.send({
+    type: 'control_request',
+    request_id: requestId,
+    request: { subtype: 'can_use_tool', tool_name: toolName, input },
+  })
+  const frame = await expectFrame(io, 'control_response')
+  const response = frame['response'] as Record<string, unknown>
+  if (response['request_id'] !== requestId) {
+    throw new Error(`unexpected control_response id: ${String(response['request_id'])}`)
+  }
+  return response['response'] as Record<string, unknown>
+}
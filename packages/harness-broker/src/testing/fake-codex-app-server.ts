@@ -87,19 +87,19 @@ export async function initializeAndReadThreadRequest(
   return expectMethod(io, expectedThreadMethod)
 }
 
-export function completeSimpleTurn(io: FakeCodexIo, text = 'Done.'): void {
-  io.notify('turn/started', { turnId: 'turn_1' })
+export function completeSimpleTurn(io: FakeCodexIo, text = 'Done.', turnId = 'turn_1'): void {
+  io.notify('turn/started', { turnId })
   io.notify('item/started', {
-    turnId: 'turn_1',
+    turnId,
     item: { type: 'agentMessage', id: 'msg_1' },
   })
   io.notify('item/agentMessage/delta', {
-    turnId: 'turn_1',
+    turnId,
     id: 'msg_1',
     text,
   })
   io.notify('item/completed', {
-    turnId: 'turn_1',
+    turnId,
     item: {
       type: 'agentMessage',
       id: 'msg_1',
@@ -107,7 +107,7 @@ export function completeSimpleTurn(io: FakeCodexIo, text = 'Done.'): void {
     },
   })
   io.notify('turn/completed', {
-    turnId: 'turn_1',
+    turnId,
     status: 'completed',
     finalOutput: text,
   })
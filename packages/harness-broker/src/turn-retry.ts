@@ -0,0 +1,63 @@
+import type {
+  InvocationEventType,
+  TurnRetryPayload,
+  TurnRetryPolicy,
+} from 'spaces-harness-broker-protocol'
+
+/**
+ * Facts observed on a logical turn that make re-delivering its input unsafe.
+ * A tool call counts as a possible external mutation too: the broker cannot
+ * tell a read-only command from a write, so it assumes the worst.
+ */
+export type TurnObservation =
+  | 'tool-call'
+  | 'external-mutation'
+  | 'permission-request'
+  | 'assistant-final'
+
+const OBSERVATIONS_BY_EVENT: Partial<Record<InvocationEventType, readonly TurnObservation[]>> = {
+  'tool.call.started': ['tool-call', 'external-mutation'],
+  'permission.requested': ['permission-request'],
+  'assistant.message.completed': ['assistant-final'],
+}
+
+/** Retry-relevant observations carried by one turn-scoped event type. */
+export function turnObservationsFor(type: InvocationEventType): readonly TurnObservation[] {
+  return OBSERVATIONS_BY_EVENT[type] ?? []
+}
+
+/** What the broker knows about the active turn when its harness stalls or crashes. */
+export interface TurnRetryFacts {
+  reason: TurnRetryPayload['reason']
+  attempt: number
+  observed: ReadonlySet<TurnObservation>
+  permissionPending: boolean
+  continuationKnown: boolean
+}
+
+/**
+ * Unmet `safe-retry` preconditions for the active turn, in policy order. An
+ * empty list means the input may be re-delivered to the next generation;
+ * `driverCanProvePriorTurnIncomplete` is answered by the recycle itself and is
+ * checked by the caller afterwards.
+ */
+export function turnRetryBlockers(
+  policy: Extract<TurnRetryPolicy, { mode: 'safe-retry' }>,
+  facts: TurnRetryFacts
+): string[] {
+  const blockers: string[] = []
+  if (!policy.retryOn.includes(facts.reason)) blockers.push(`retryOn.${facts.reason}`)
+  if (facts.attempt >= policy.maxAttempts) blockers.push('maxAttempts')
+  if (facts.observed.has('tool-call')) blockers.push('noToolCallObserved')
+  if (facts.permissionPending) blockers.push('noPermissionRequestPending')
+  if (
+    policy.requires.noPermissionRequestObserved === true &&
+    facts.observed.has('permission-request')
+  ) {
+    blockers.push('noPermissionRequestObserved')
+  }
+  if (facts.observed.has('assistant-final')) blockers.push('noAssistantFinalObserved')
+  if (facts.observed.has('external-mutation')) blockers.push('noExternalMutationObserved')
+  if (!facts.continuationKnown) blockers.push('continuationKnown')
+  return blockers
+}
@@ -1,6 +1,5 @@
 import { describe, expect, test } from 'bun:test'
 import type { InvocationCapabilities } from 'spaces-harness-broker-protocol'
-import { CONSERVATIVE_LIFECYCLE_CAPABILITIES } from 'spaces-harness-broker-protocol'
 import { createDefaultClaudeCodeTmuxDriver } from '../src/drivers/claude-code-tmux/driver'
 import { createCodexAppServerDriver } from '../src/drivers/codex-app-server/driver'
 import { createDefaultPiTuiTmuxDriver } from '../src/drivers/pi-tui-tmux/driver'
@@ -39,7 +38,13 @@ const CODEX_APP_SERVER_V0_CAPABILITIES: InvocationCapabilities = {
     strict: true,
     parsedResult: false,
   },
-  lifecycle: CONSERVATIVE_LIFECYCLE_CAPABILITIES,
+  lifecycle: {
+    runtimeRetention: ['keep-alive'],
+    harnessRecovery: ['none', 'recycle-child'],
+    turnRetry: ['none', 'safe-retry'],
+    generationFencing: true,
+    permissionCancellation: true,
+  },
 } as InvocationCapabilities & {
   finalResponse: {
     jsonSchema: boolean
@@ -1,5 +1,6 @@
 import { afterEach, describe, expect, test } from 'bun:test'
-import { mkdtemp, rm, stat } from 'node:fs/promises'
+import { existsSync } from 'node:fs'
+import { mkdtemp, rm, stat, writeFile } from 'node:fs/promises'
 import { type Socket, connect } from 'node:net'
 import { tmpdir } from 'node:os'
 import { join } from 'node:path'
@@ -441,7 +442,7 @@ describe('harness-broker CLI', () => {
       '--experimental-observer-socket',
       join(dir, 'observer.sock'),
       '--experimental-observer-mode',
-      'control',
+      'drive',
     ])
 
     try {
@@ -463,7 +464,152 @@ describe('harness-broker CLI', () => {
     }
   })
 
-  test('experimental observer mode rejects non-codex-app-server starts', async () => {
+  test('run --transport unix refuses control observer mode without a token file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'harness-broker-unix-observer-control-'))
+    const proc = runBrokerUnix([
+      '--socket',
+      join(dir, 'broker.sock'),
+      '--experimental-observer-socket',
+      join(dir, 'observer.sock'),
+      '--experimental-observer-mode',
+      'control',
+    ])
+
+    try {
+      const exitCode = await Promise.race([proc.exited, Bun.sleep(500).then(() => null)])
+      if (exitCode === null) {
+        throw new Error('broker started control observer mode without a token file')
+      }
+      expect(exitCode).not.toBe(0)
+      expect(await new Response(proc.stderr).text()).toContain('--observer-token-file')
+    } finally {
+      proc.kill('SIGTERM')
+      await proc.exited.catch(() => {})
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  test('control observer mode gates mutations by token scope and audits authenticated attempts', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'harness-broker-unix-observer-control-'))
+    const brokerSocketPath = join(dir, 'broker.sock')
+    const observerSocketPath = join(dir, 'observer.sock')
+    const tokenFile = join(dir, 'observer-tokens')
+    await writeFile(
+      tokenFile,
+      '# side-car grants\ntok-review invocation.input review-bot\ntok-stop invocation.interrupt\n'
+    )
+    const proc = runBrokerUnix([
+      '--socket',
+      brokerSocketPath,
+      '--event-ledger',
+      join(dir, 'events.ndjson'),
+      '--experimental-observer-socket',
+      observerSocketPath,
+      '--experimental-observer-mode',
+      'control',
+      '--observer-token-file',
+      tokenFile,
+    ])
+
+    let controller: ReturnType<typeof createSocketFrameReader> | undefined
+    let observer: ReturnType<typeof createSocketFrameReader> | undefined
+    try {
+      await waitForSocket(brokerSocketPath, proc)
+      await waitForSocket(observerSocketPath, proc)
+      const controllerSocket = await connectUnixSocket(brokerSocketPath)
+      controller = createSocketFrameReader(controllerSocket)
+      const observerSocket = await connectUnixSocket(observerSocketPath)
+      observer = createSocketFrameReader(observerSocket)
+
+      const startRequest = codexStartRequest('three-turns')
+      const invocationId = startRequest.spec.invocationId
+      controllerSocket.write(request('control-start', 'invocation.start', { startRequest }))
+      await nextResultFrame<InvocationStartResponse>(controller, 'control-start')
+
+      const input = (inputId: string) => ({
+        invocationId,
+        input: { inputId, kind: 'user', content: [{ type: 'text', text: 'Next turn.' }] },
+      })
+
+      observerSocket.write(request('anon-input', 'invocation.input', input('input_anon')))
+      expectError(await observer.nextFrame(), 'anon-input', BrokerErrorCode.CapabilityDenied)
+
+      observerSocket.write(request('bad-auth', 'observer.authenticate', { token: 'nope' }))
+      expectError(await observer.nextFrame(), 'bad-auth', BrokerErrorCode.AttachRejected)
+
+      observerSocket.write(
+        request('auth', 'observer.authenticate', { token: 'tok-review', clientName: 'ci' })
+      )
+      const auth = expectResult<{ clientId: string; scopes: string[] }>(
+        await observer.nextFrame(),
+        'auth'
+      )
+      expect(auth.result).toEqual({
+        authenticated: true,
+        clientId: 'review-bot',
+        scopes: ['invocation.input'],
+      })
+
+      observerSocket.write(
+        request('interrupt', 'invocation.interrupt', { invocationId, scope: 'turn' })
+      )
+      const denied = expectError(
+        await observer.nextFrame(),
+        'interrupt',
+        BrokerErrorCode.CapabilityDenied
+      )
+      expect(denied.error.data).toMatchObject({ clientId: 'review-bot' })
+
+      observerSocket.write(
+        request('bootstrap', 'invocation.eventsSince', {
+          invocationId,
+          afterSeq: 0,
+          types: ['diagnostic', 'turn.completed'],
+        })
+      )
+      const bootstrap = await nextResultFrame<InvocationEventsSinceResponse>(observer, 'bootstrap')
+      const audits = bootstrap.result.events.filter((event) => event.type === 'diagnostic')
+      // The unauthenticated attempt is refused without reaching the ledger.
+      expect(audits.map((event) => event.payload)).toEqual([
+        expect.objectContaining({
+          level: 'warn',
+          kind: 'observer.control',
+          data: {
+            method: 'invocation.interrupt',
+            decision: 'denied',
+            clientId: 'review-bot',
+            clientName: 'ci',
+          },
+        }),
+      ])
+      if (!bootstrap.result.events.some((event) => event.type === 'turn.completed')) {
+        await nextInvocationEvent(observer, (event) => event.type === 'turn.completed')
+      }
+
+      observerSocket.write(request('input', 'invocation.input', input('input_observer_2')))
+      // The audit is appended before the mutation runs, so its notification
+      // precedes the input response on the wire.
+      const allowed = await nextInvocationEvent(
+        observer,
+        (event) => event.type === 'diagnostic' && event.payload.level === 'info'
+      )
+      await nextResultFrame(observer, 'input')
+      expect(allowed.payload).toMatchObject({
+        source: 'broker',
+        message: 'observer control invocation.input by review-bot allowed',
+        data: { decision: 'allowed', clientId: 'review-bot' },
+      })
+      expect(JSON.stringify(allowed)).not.toContain('tok-review')
+    } finally {
+      observer?.close()
+      controller?.close()
+      proc.kill('SIGTERM')
+      await proc.exited.catch(() => {})
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  test('experimental observer mode accepts non-codex-app-server starts', async () => {
     const dir = await mkdtemp(join(tmpdir(), 'harness-broker-observer-gate-'))
     const socketPath = join(dir, 'observer.sock')
     const frames = await exchangeWithBrokerArgs(
@@ -478,8 +624,10 @@ describe('harness-broker CLI', () => {
     )
     await rm(dir, { recursive: true, force: true })
 
-    const response = expectError(frames[0], 'observer-gate', BrokerErrorCode.UnsupportedCapability)
-    expect(response.error.message).toContain('codex-app-server')
+    // `harness-broker tail` renders any driver from the observer socket, so the
+    // start reaches driver selection instead of an observer-mode rejection.
+    const response = expectError(frames[0], 'observer-gate', BrokerErrorCode.DriverUnavailable)
+    expect(response.error.message).not.toContain('observer')
     expect(response.error.data).toMatchObject({ driverKind: 'noop-driver' })
   })
 
@@ -575,6 +723,55 @@ describe('harness-broker unix transport red tests for T-01792', () => {
     expect(stderr).toContain('socket path')
     expect(stderr).toContain('too long')
   })
+
+  test('run --transport unix --event-ledger sqlite: migrates a JSONL ledger and replays it', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'harness-broker-cli-sqlite-'))
+    tmpDirs.push(dir)
+    const socketPath = join(dir, 'broker.sock')
+    const jsonlPath = join(dir, 'events.jsonl')
+    const migrated: InvocationEventEnvelope = {
+      invocationId: 'inv_cli_migrated' as InvocationEventEnvelope['invocationId'],
+      seq: 1,
+      time: '2026-05-20T18:00:00.000Z',
+      type: 'diagnostic',
+      payload: { level: 'info', message: 'from jsonl' },
+    }
+    await writeFile(jsonlPath, `${JSON.stringify(migrated)}\n`)
+    const proc = runBrokerUnix([
+      '--socket',
+      socketPath,
+      '--event-ledger',
+      `sqlite:${join(dir, 'events.sqlite')}`,
+      '--event-ledger-import',
+      jsonlPath,
+    ])
+
+    let socket: Socket | undefined
+    let reader: ReturnType<typeof createSocketFrameReader> | undefined
+    try {
+      await waitForSocket(socketPath, proc)
+      socket = await connectUnixSocket(socketPath)
+      reader = createSocketFrameReader(socket)
+      socket.write(
+        request('sqlite-replay', 'invocation.eventsSince', {
+          invocationId: 'inv_cli_migrated',
+          afterSeq: 0,
+        })
+      )
+      const replay = expectResult<InvocationEventsSinceResponse>(
+        await reader.nextFrame(),
+        'sqlite-replay'
+      )
+      expect(replay.result).toEqual({ events: [migrated], currentSeq: 1, retentionFloorSeq: 0 })
+      expect(existsSync(jsonlPath)).toBe(false)
+      expect(existsSync(`${jsonlPath}.migrated`)).toBe(true)
+    } finally {
+      reader?.close()
+      socket?.destroy()
+      proc.kill('SIGTERM')
+      await proc.exited.catch(() => {})
+    }
+  })
 })
 
 const codexStartRequest = (scenario: string): InvocationStartRequest => {
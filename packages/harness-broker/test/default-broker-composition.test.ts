@@ -7,7 +7,7 @@ describe('composable broker CLI', () => {
     expect(runBrokerCli).toBeFunction()
   })
 
-  test('adds driver factories after the four built-in drivers', async () => {
+  test('adds driver factories after the five built-in drivers', async () => {
     let factoryCalls = 0
     const broker = createDefaultBroker(undefined, undefined, {
       additionalDrivers: [
@@ -29,6 +29,7 @@ describe('composable broker CLI', () => {
       'claude-code-tmux',
       'codex-cli-tmux',
       'pi-tui-tmux',
+      'claude-stream-json',
       'noop-driver',
     ])
   })
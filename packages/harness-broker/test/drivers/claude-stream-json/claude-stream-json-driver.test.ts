@@ -0,0 +1,377 @@
+import { describe, expect, test } from 'bun:test'
+import { join } from 'node:path'
+import type {
+  HarnessInvocationSpec,
+  InvocationEventEnvelope,
+  PermissionRequestParams,
+} from 'spaces-harness-broker-protocol'
+import { type Broker, createBroker } from '../../../src/broker'
+import { CLAUDE_STREAM_JSON_CAPABILITIES } from '../../../src/drivers/claude-stream-json/capabilities'
+import { createClaudeStreamJsonDriver } from '../../../src/drivers/claude-stream-json/driver'
+
+const root = new URL('../../..', import.meta.url).pathname
+const fixtureDir = join(root, 'test/fixtures/fake-claude')
+
+const now = () => new Date('2026-05-20T18:00:00.000Z')
+
+const scenarioSpec = (
+  scenario: string,
+  overrides: Partial<HarnessInvocationSpec> = {}
+): HarnessInvocationSpec => ({
+  specVersion: 'harness-broker.invocation/v1',
+  invocationId: `inv_claude_${scenario.replaceAll('-', '_')}`,
+  harness: {
+    frontend: 'claude',
+    provider: 'anthropic',
+    driver: 'claude-stream-json',
+  },
+  process: {
+    command: process.execPath,
+    args: [join(fixtureDir, `${scenario}.ts`)],
+    cwd: process.cwd(),
+    harnessTransport: { kind: 'pipes' },
+    limits: {
+      startupTimeoutMs: 5000,
+      turnTimeoutMs: 5000,
+      stopGraceMs: 500,
+    },
+  },
+  interaction: {
+    mode: 'headless',
+    turnConcurrency: 'single',
+    inputQueue: 'fifo',
+  },
+  driver: {
+    kind: 'claude-stream-json',
+    permissionPolicy: { mode: 'deny' },
+  },
+  ...overrides,
+})
+
+const userInput = (inputId: string, text = 'Please respond.') => ({
+  inputId,
+  kind: 'user' as const,
+  content: [{ type: 'text' as const, text }],
+})
+
+const eventTypes = (events: InvocationEventEnvelope[]) => events.map((event) => event.type)
+
+const TURN_TERMINALS = new Set(['turn.completed', 'turn.failed', 'turn.interrupted'])
+
+async function waitFor(predicate: () => boolean, message: string, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs
+  while (Date.now() < deadline) {
+    if (predicate()) return
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+  expect(predicate(), message).toBe(true)
+}
+
+async function waitForTerminals(events: InvocationEventEnvelope[], count: number): Promise<void> {
+  await waitFor(
+    () => events.filter((event) => TURN_TERMINALS.has(event.type)).length >= count,
+    `expected ${count} turn terminal(s); got ${eventTypes(events).join(', ')}`
+  )
+}
+
+async function startScenario(
+  scenario: string,
+  options: {
+    overrides?: Partial<HarnessInvocationSpec>
+    onPermissionRequest?: (params: PermissionRequestParams) => Promise<{
+      decision: 'allow' | 'deny'
+    }>
+  } = {}
+): Promise<{ broker: Broker; events: InvocationEventEnvelope[]; invocationId: string }> {
+  const events: InvocationEventEnvelope[] = []
+  const broker = createBroker({
+    drivers: [createClaudeStreamJsonDriver()],
+    onEvent: (event) => events.push(event),
+    ...(options.onPermissionRequest !== undefined
+      ? { onPermissionRequest: options.onPermissionRequest }
+      : {}),
+    now,
+  })
+  if (options.onPermissionRequest !== undefined) {
+    await broker.hello({
+      clientInfo: { name: 'claude-stream-json-test' },
+      protocolVersions: ['harness-broker/0.2'],
+      capabilities: { permissionRequests: true },
+    })
+  }
+  const spec = scenarioSpec(scenario, options.overrides)
+  await broker.start({ spec })
+  return { broker, events, invocationId: spec.invocationId ?? '' }
+}
+
+async function stopAndDispose(broker: Broker, invocationId: string): Promise<void> {
+  await broker.stop({ invocationId, graceMs: 500 })
+  await broker.dispose({ invocationId })
+}
+
+describe('claude-stream-json driver', () => {
+  test('declares honest capabilities', () => {
+    expect(CLAUDE_STREAM_JSON_CAPABILITIES.turns.interrupt).toBe('protocol')
+    expect(CLAUDE_STREAM_JSON_CAPABILITIES.input.steer).toBe(false)
+    expect(CLAUDE_STREAM_JSON_CAPABILITIES.continuation).toEqual({
+      supported: true,
+      provider: 'anthropic',
+      keyKind: 'session',
+    })
+  })
+
+  test('streams assistant deltas, usage and continuation across two turns', async () => {
+    const { broker, events, invocationId } = await startScenario('multi-turn')
+    try {
+      await broker.input({ invocationId, input: userInput('input_1', 'one') })
+      await waitForTerminals(events, 1)
+      await broker.input({ invocationId, input: userInput('input_2', 'two') })
+      await waitForTerminals(events, 2)
+
+      const firstTurn = events.filter((event) => event.inputId === 'input_1')
+      expect(eventTypes(firstTurn)).toEqual([
+        'input.accepted',
+        'user.message',
+        'turn.started',
+        'assistant.message.started',
+        'assistant.message.delta',
+        'assistant.message.delta',
+        'assistant.message.completed',
+        'usage.updated',
+        'turn.completed',
+      ])
+      const deltas = firstTurn.flatMap((event) =>
+        event.type === 'assistant.message.delta' ? [event.payload.text] : []
+      )
+      expect(deltas).toEqual(['Reply 1: ', 'one'])
+
+      const completed = events.filter((event) => event.type === 'turn.completed')
+      expect(completed.map((event) => event.payload)).toEqual([
+        expect.objectContaining({
+          status: 'completed',
+          finalOutput: 'Reply 1: one',
+          producedContent: true,
+          usage: { input_tokens: 10, output_tokens: 5 },
+        }),
+        expect.objectContaining({ finalOutput: 'Reply 2: two' }),
+      ])
+
+      // The session id is reported once, not re-announced by every init.
+      const continuations = events.filter((event) => event.type === 'continuation.updated')
+      expect(continuations.map((event) => event.payload)).toEqual([
+        { provider: 'anthropic', kind: 'session', key: 'session_1' },
+      ])
+    } finally {
+      await stopAndDispose(broker, invocationId)
+    }
+  })
+
+  test('denies tool permission by default policy and reports the tool bracket', async () => {
+    const { broker, events, invocationId } = await startScenario('tool-permission')
+    try {
+      await broker.input({ invocationId, input: userInput('input_1') })
+      await waitForTerminals(events, 1)
+
+      const requested = events.find((event) => event.type === 'permission.requested')
+      expect(requested?.payload).toMatchObject({
+        kind: 'command',
+        subjectDisplay: { command: 'ls -la', reason: 'List files' },
+        defaultDecision: 'deny',
+      })
+      const resolved = events.find((event) => event.type === 'permission.resolved')
+      expect(resolved?.payload).toMatchObject({ decision: 'deny', decidedBy: 'policy' })
+
+      const toolEvents = events.filter((event) => event.type.startsWith('tool.call.'))
+      expect(toolEvents.map((event) => [event.type, event.payload])).toEqual([
+        [
+          'tool.call.started',
+          {
+            toolCallId: 'toolu_1',
+            name: 'Bash',
+            input: { command: 'ls -la', description: 'List files' },
+          },
+        ],
+        [
+          'tool.call.completed',
+          {
+            toolCallId: 'toolu_1',
+            name: 'Bash',
+            result: { content: 'Permission to use Bash was denied' },
+            isError: true,
+          },
+        ],
+      ])
+      const completed = events.find((event) => event.type === 'turn.completed')
+      expect(completed?.payload).toMatchObject({ finalOutput: 'Denied.' })
+    } finally {
+      await stopAndDispose(broker, invocationId)
+    }
+  })
+
+  test('round-trips ask-client permission requests through the broker', async () => {
+    const asked: PermissionRequestParams[] = []
+    const { broker, events, invocationId } = await startScenario('tool-permission', {
+      overrides: {
+        driver: {
+          kind: 'claude-stream-json',
+          permissionPolicy: { mode: 'ask-client', timeoutMs: 2000 },
+        },
+      },
+      onPermissionRequest: async (params) => {
+        asked.push(params)
+        return { decision: 'allow' }
+      },
+    })
+    try {
+      await broker.input({ invocationId, input: userInput('input_1') })
+      await waitForTerminals(events, 1)
+
+      expect(asked).toHaveLength(1)
+      expect(asked[0]).toMatchObject({
+        invocationId,
+        kind: 'command',
+        subject: { command: 'ls -la', reason: 'List files' },
+      })
+      const toolCompleted = events.find((event) => event.type === 'tool.call.completed')
+      expect(toolCompleted?.payload).toMatchObject({ isError: false })
+      const completed = events.find((event) => event.type === 'turn.completed')
+      expect(completed?.payload).toMatchObject({ finalOutput: 'Listed.' })
+    } finally {
+      await stopAndDispose(broker, invocationId)
+    }
+  })
+
+  test('records the ask rule of a rules policy on the broker-owned resolution', async () => {
+    const { broker, events, invocationId } = await startScenario('tool-permission', {
+      overrides: {
+        driver: {
+          kind: 'claude-stream-json',
+          permissionPolicy: {
+            mode: 'rules',
+            timeoutMs: 2000,
+            rules: [
+              { action: 'deny', tool: 'Write' },
+              { id: 'ask-shell', action: 'ask', kind: 'command', tool: 'Bash', command: 'ls *' },
+            ],
+          },
+        },
+      },
+      onPermissionRequest: async () => ({ decision: 'allow' }),
+    })
+    try {
+      await broker.input({ invocationId, input: userInput('input_1') })
+      await waitForTerminals(events, 1)
+
+      const resolved = events.filter((event) => event.type === 'permission.resolved')
+      expect(resolved.map((event) => event.payload)).toEqual([
+        expect.objectContaining({
+          decision: 'allow',
+          decidedBy: 'user',
+          rule: { index: 1, id: 'ask-shell', action: 'ask' },
+        }),
+      ])
+    } finally {
+      await stopAndDispose(broker, invocationId)
+    }
+  })
+
+  test('interrupts the active turn over the control channel', async () => {
+    const { broker, events, invocationId } = await startScenario('interrupt')
+    try {
+      await broker.input({ invocationId, input: userInput('input_1') })
+      await waitFor(
+        () => events.some((event) => event.type === 'assistant.message.delta'),
+        'expected the turn to start streaming'
+      )
+
+      await expect(broker.interrupt({ invocationId, scope: 'turn' })).resolves.toEqual({
+        accepted: true,
+        effect: 'turn_interrupted',
+      })
+      await waitForTerminals(events, 1)
+
+      const terminal = events.find((event) => TURN_TERMINALS.has(event.type))
+      expect(terminal?.type).toBe('turn.interrupted')
+      await expect(broker.interrupt({ invocationId, scope: 'turn' })).resolves.toEqual({
+        accepted: false,
+        effect: 'no_active_turn',
+      })
+    } finally {
+      await stopAndDispose(broker, invocationId)
+    }
+  })
+
+  test('leaves turnTimeoutMs to the broker and interrupts the timed-out turn', async () => {
+    const base = scenarioSpec('interrupt')
+    const { broker, events, invocationId } = await startScenario('interrupt', {
+      overrides: {
+        process: { ...base.process, limits: { ...base.process.limits, turnTimeoutMs: 200 } },
+      },
+    })
+    try {
+      await broker.input({ invocationId, input: userInput('input_1') })
+      await waitForTerminals(events, 1)
+      // The interrupt's own result arrives after the broker closed the turn.
+      await waitFor(
+        () => events.some((event) => event.type === 'usage.updated'),
+        'expected the interrupted turn to report its result'
+      )
+
+      const terminals = events.filter((event) => TURN_TERMINALS.has(event.type))
+      expect(terminals).toEqual([
+        expect.objectContaining({
+          type: 'turn.failed',
+          payload: expect.objectContaining({ code: 'TurnTimeout', reason: 'turn-timeout' }),
+        }),
+      ])
+    } finally {
+      await stopAndDispose(broker, invocationId)
+    }
+  })
+
+  test('maps an error result to turn.failed with a stable code', async () => {
+    const { broker, events, invocationId } = await startScenario('turn-error')
+    try {
+      await broker.input({ invocationId, input: userInput('input_1') })
+      await waitForTerminals(events, 1)
+
+      const failed = events.find((event) => event.type === 'turn.failed')
+      expect(failed?.payload).toMatchObject({
+        status: 'failed',
+        message: 'Reached maximum number of turns (4)',
+        code: 'claude_error_max_turns',
+        data: { subtype: 'error_max_turns', numTurns: 4 },
+      })
+    } finally {
+      await stopAndDispose(broker, invocationId)
+    }
+  })
+
+  test('fails the active turn and exits the invocation when Claude dies mid-turn', async () => {
+    const { broker, events, invocationId } = await startScenario('exit-during-turn')
+    try {
+      await broker.input({ invocationId, input: userInput('input_1') })
+      await waitFor(
+        () => events.some((event) => event.type === 'invocation.exited'),
+        `expected invocation.exited; got ${eventTypes(events).join(', ')}`
+      )
+
+      const failed = events.find((event) => event.type === 'turn.failed')
+      expect(failed?.payload).toMatchObject({
+        code: 'claude_process_exit',
+        reason: 'process-exit',
+      })
+      const exited = events.find((event) => event.type === 'invocation.exited')
+      expect(exited?.payload).toMatchObject({ exitCode: 3 })
+      expect(
+        events.some(
+          (event) =>
+            event.type === 'diagnostic' &&
+            event.payload.message === 'fatal: upstream connection lost'
+        )
+      ).toBe(true)
+    } finally {
+      await broker.dispose({ invocationId })
+    }
+  })
+})
@@ -0,0 +1,131 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  createClaudeStreamMapper,
+  parseClaudeResult,
+} from '../../../src/drivers/claude-stream-json/event-map'
+import { claudePermissionKind } from '../../../src/drivers/claude-stream-json/permissions'
+
+describe('claude stream-json event map', () => {
+  test('maps a tool_use and its array tool_result into one tool bracket', () => {
+    const mapper = createClaudeStreamMapper()
+    const started = mapper.map({
+      type: 'assistant',
+      message: {
+        id: 'msg_1',
+        content: [{ type: 'tool_use', id: 'toolu_9', name: 'Read', input: { file_path: '/x' } }],
+      },
+    })
+    const completed = mapper.map({
+      type: 'user',
+      message: {
+        content: [
+          {
+            type: 'tool_result',
+            tool_use_id: 'toolu_9',
+            content: [
+              { type: 'text', text: 'line 1' },
+              { type: 'image', source: {} },
+              { type: 'text', text: 'line 2' },
+            ],
+          },
+        ],
+      },
+      tool_use_result: { numLines: 2 },
+    })
+
+    expect(started.map((event) => [event.type, event.payload])).toEqual([
+      ['tool.call.started', { toolCallId: 'toolu_9', name: 'Read', input: { file_path: '/x' } }],
+    ])
+    expect(completed.map((event) => [event.type, event.payload])).toEqual([
+      [
+        'tool.call.completed',
+        {
+          toolCallId: 'toolu_9',
+          name: 'Read',
+          result: { content: 'line 1\nline 2', details: { numLines: 2 } },
+          isError: false,
+        },
+      ],
+    ])
+    expect(mapper.producedContent()).toBe(true)
+  })
+
+  test('opens an assistant message once even without partial stream events', () => {
+    const mapper = createClaudeStreamMapper()
+    const first = mapper.map({
+      type: 'assistant',
+      message: { id: 'msg_1', content: [{ type: 'text', text: 'Hello' }] },
+    })
+    const second = mapper.map({
+      type: 'assistant',
+      message: { id: 'msg_1', content: [{ type: 'text', text: 'again' }] },
+    })
+
+    expect(first.map((event) => event.type)).toEqual([
+      'assistant.message.started',
+      'assistant.message.completed',
+    ])
+    expect(second.map((event) => event.type)).toEqual(['assistant.message.completed'])
+  })
+
+  test('ignores echoed user prompts, thinking deltas and unknown messages', () => {
+    const mapper = createClaudeStreamMapper()
+    mapper.map({ type: 'stream_event', event: { type: 'message_start', message: { id: 'm' } } })
+
+    expect(mapper.map({ type: 'user', message: { role: 'user', content: 'hi' } })).toEqual([])
+    expect(
+      mapper.map({
+        type: 'stream_event',
+        event: { type: 'content_block_delta', delta: { type: 'thinking_delta', thinking: 'hm' } },
+      })
+    ).toEqual([])
+    expect(mapper.map({ type: 'rate_limit_event' })).toEqual([])
+    expect(mapper.producedContent()).toBe(false)
+
+    mapper.resetTurn()
+    expect(
+      mapper.map({
+        type: 'stream_event',
+        event: { type: 'content_block_delta', delta: { type: 'text_delta', text: 'late' } },
+      })
+    ).toEqual([])
+  })
+
+  test('parses result messages', () => {
+    expect(
+      parseClaudeResult({
+        type: 'result',
+        subtype: 'success',
+        is_error: false,
+        result: 'Done.',
+        session_id: 'session_1',
+        duration_ms: 40,
+        num_turns: 2,
+        total_cost_usd: 0.02,
+        usage: { output_tokens: 3 },
+      })
+    ).toEqual({
+      subtype: 'success',
+      isError: false,
+      text: 'Done.',
+      sessionId: 'session_1',
+      usage: { output_tokens: 3 },
+      totalCostUsd: 0.02,
+      durationMs: 40,
+      numTurns: 2,
+      errors: [],
+    })
+    expect(parseClaudeResult({ type: 'result' })).toMatchObject({
+      subtype: 'unknown',
+      isError: false,
+      errors: [],
+    })
+  })
+
+  test('classifies tools into broker permission kinds', () => {
+    expect(claudePermissionKind('Bash')).toBe('command')
+    expect(claudePermissionKind('Edit')).toBe('file_change')
+    expect(claudePermissionKind('Write')).toBe('file_change')
+    expect(claudePermissionKind('WebFetch')).toBe('tool')
+  })
+})
@@ -0,0 +1,301 @@
+import { Database } from 'bun:sqlite'
+import { afterEach, describe, expect, test } from 'bun:test'
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { InvocationEventEnvelope } from 'spaces-harness-broker-protocol'
+import { foldTranscript, readLedgerEvents, renderTranscript } from '../../src/export'
+import { createSqliteEventLedger } from '../../src/sqlite-event-ledger'
+
+const repoRoot = new URL('../../../..', import.meta.url).pathname
+
+function event(
+  seq: number,
+  type: InvocationEventEnvelope['type'],
+  payload: unknown,
+  extra: Partial<InvocationEventEnvelope> = {}
+): InvocationEventEnvelope {
+  return {
+    invocationId: 'inv_export',
+    seq,
+    time: `2026-06-18T15:40:${seq.toString().padStart(2, '0')}.000Z`,
+    type,
+    payload,
+    driver: { kind: 'pi-sdk' },
+    ...extra,
+  } as InvocationEventEnvelope
+}
+
+const session: InvocationEventEnvelope[] = [
+  event(1, 'invocation.ready', { state: 'ready' }),
+  event(2, 'turn.started', { turnId: 'turn_1', inputId: 'input_1', prompt: 'List the files' }),
+  event(3, 'assistant.message.started', { messageId: 'msg_1' }),
+  event(4, 'assistant.message.delta', { messageId: 'msg_1', text: 'Let me ' }),
+  event(5, 'assistant.message.delta', { messageId: 'msg_1', text: 'look.' }),
+  event(6, 'assistant.message.completed', {
+    messageId: 'msg_1',
+    content: [{ type: 'text', text: 'Let me look.' }],
+  }),
+  event(7, 'permission.requested', {
+    permissionRequestId: 'perm_1',
+    kind: 'command',
+    subjectDisplay: 'ls -la',
+    defaultDecision: 'deny',
+  }),
+  event(8, 'permission.resolved', {
+    permissionRequestId: 'perm_1',
+    decision: 'allow',
+    decidedBy: 'user',
+  }),
+  event(9, 'tool.call.started', { toolCallId: 'tool_1', name: 'bash', input: { cmd: 'ls -la' } }),
+  event(10, 'tool.call.delta', { toolCallId: 'tool_1', text: 'a.txt\n' }),
+  event(11, 'tool.call.delta', { toolCallId: 'tool_1', text: 'b.txt\n' }),
+  event(12, 'tool.call.completed', { toolCallId: 'tool_1', name: 'bash', durationMs: 42 }),
+  event(13, 'usage.updated', { usage: { input: 100, output: 20, totalTokens: 120 } }),
+  event(14, 'usage.updated', { usage: { input: 150, output: 30, totalTokens: 180 } }),
+  event(15, 'turn.completed', { turnId: 'turn_1', status: 'completed' }),
+  event(16, 'turn.started', { turnId: 'turn_2', inputId: 'input_2' }),
+  event(17, 'user.message', { content: 'Now delete them', turnId: 'turn_2' }),
+  event(18, 'permission.requested', {
+    permissionRequestId: 'perm_2',
+    kind: 'command',
+    subjectDisplay: 'rm a.txt b.txt',
+    defaultDecision: 'deny',
+  }),
+  event(19, 'permission.resolved', {
+    permissionRequestId: 'perm_2',
+    decision: 'deny',
+    decidedBy: 'policy',
+    message: 'destructive',
+  }),
+  event(20, 'turn.failed', {
+    turnId: 'turn_2',
+    message: 'Permission denied',
+    code: 'PermissionDenied',
+  }),
+  event(21, 'invocation.exited', { exitCode: 0, reason: 'operator-stop' }),
+]
+
+describe('foldTranscript', () => {
+  test('folds deltas, nests tool output and records permission decisions per turn', () => {
+    const transcript = foldTranscript('inv_export', [
+      ...session,
+      event(99, 'turn.started', { turnId: 'turn_other' }, { invocationId: 'inv_other' } as never),
+    ])
+    expect(transcript.driver).toBe('pi-sdk')
+    expect(transcript.outcome).toEqual({ status: 'exited', reason: 'operator-stop', exitCode: 0 })
+    expect(transcript.turns.map((turn) => [turn.turnId, turn.status])).toEqual([
+      ['turn_1', 'completed'],
+      ['turn_2', 'failed'],
+    ])
+
+    const [first, second] = transcript.turns
+    expect(first?.entries.map((entry) => entry.kind)).toEqual([
+      'user',
+      'assistant',
+      'permission',
+      'tool',
+    ])
+    expect(first?.entries[1]).toMatchObject({ kind: 'assistant', text: 'Let me look.' })
+    expect(first?.entries[3]).toMatchObject({
+      kind: 'tool',
+      name: 'bash',
+      status: 'completed',
+      output: 'a.txt\nb.txt\n',
+      durationMs: 42,
+    })
+    expect(first?.usage).toEqual({ inputTokens: 250, outputTokens: 50, totalTokens: 300 })
+    expect(second?.entries[1]).toMatchObject({
+      kind: 'permission',
+      decision: 'deny',
+      decidedBy: 'policy',
+      message: 'destructive',
+    })
+    expect(second?.failure).toEqual({ message: 'Permission denied', code: 'PermissionDenied' })
+    expect(transcript.usage).toEqual(first?.usage)
+  })
+
+  test('reads Codex and Claude usage shapes', () => {
+    const transcript = foldTranscript('inv_export', [
+      event(1, 'turn.started', { turnId: 'turn_1' }),
+      event(2, 'usage.updated', {
+        usage: { last: { inputTokens: 10, outputTokens: 5, totalTokens: 15 }, total: {} },
+      }),
+      event(3, 'usage.updated', { usage: { input_tokens: 7, output_tokens: 3 } }),
+      event(4, 'turn.completed', { turnId: 'turn_1', status: 'completed' }),
+    ])
+    expect(transcript.turns[0]?.usage).toEqual({
+      inputTokens: 17,
+      outputTokens: 8,
+      totalTokens: 25,
+    })
+  })
+})
+
+describe('renderTranscript', () => {
+  const transcript = foldTranscript('inv_export', session)
+
+  test('markdown shows the conversation, tool output, decisions and failures', () => {
+    const markdown = renderTranscript(transcript, 'md')
+    expect(markdown).toContain('# Transcript `inv_export`')
+    expect(markdown).toContain('## Turn 1 · completed')
+    expect(markdown).toContain('> List the files')
+    expect(markdown).toContain('Let me look.')
+    expect(markdown).toContain('**Tool** `bash` — completed in 42ms')
+    expect(markdown).toContain('a.txt\nb.txt')
+    expect(markdown).toContain('**Permission** command `ls -la` — allowed by user')
+    expect(markdown).toContain('denied by policy — destructive')
+    expect(markdown).toContain('**Turn failed** (`PermissionDenied`): Permission denied')
+    expect(markdown).not.toContain('Usage')
+    expect(renderTranscript(transcript, 'md', { includeUsage: true })).toContain(
+      '_Usage: 300 tokens (in 250 / out 50)_'
+    )
+  })
+
+  test('html escapes content into a standalone document', () => {
+    const html = renderTranscript(
+      foldTranscript('inv_export', [
+        event(1, 'turn.started', { turnId: 'turn_1', prompt: '<script>alert(1)</script>' }),
+      ]),
+      'html'
+    )
+    expect(html.startsWith('<!doctype html>')).toBe(true)
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;')
+    expect(html).not.toContain('<script>')
+  })
+
+  test('jsonl emits a header, then each turn followed by its entries', () => {
+    const records = renderTranscript(transcript, 'jsonl', { includeUsage: true })
+      .trimEnd()
+      .split('\n')
+      .map((line) => JSON.parse(line) as Record<string, unknown>)
+    expect(records[0]).toMatchObject({ type: 'invocation', invocationId: 'inv_export' })
+    expect(records.map((record) => record['type'])).toEqual([
+      'invocation',
+      'turn',
+      'user',
+      'assistant',
+      'permission',
+      'tool',
+      'turn',
+      'user',
+      'permission',
+    ])
+    expect(records[1]).toMatchObject({ turnId: 'turn_1', usage: { totalTokens: 300 } })
+    expect(records[5]).toMatchObject({ turnId: 'turn_1', name: 'bash' })
+  })
+})
+
+describe('readLedgerEvents and harness-broker export', () => {
+  const dirs: string[] = []
+
+  afterEach(() => {
+    for (const dir of dirs.splice(0)) rmSync(dir, { recursive: true, force: true })
+  })
+
+  function tempDir(): string {
+    const dir = mkdtempSync(join(tmpdir(), 'hb-export-'))
+    dirs.push(dir)
+    return dir
+  }
+
+  test('reads one invocation from JSONL and SQLite ledgers', async () => {
+    const dir = tempDir()
+    const jsonlPath = join(dir, 'events.jsonl')
+    const other = event(1, 'invocation.ready', { state: 'ready' }, {
+      invocationId: 'inv_other',
+    } as never)
+    writeFileSync(
+      jsonlPath,
+      [...session]
+        .reverse()
+        .concat(other)
+        .map((e) => `${JSON.stringify(e)}\n`)
+        .join('')
+    )
+    const fromJsonl = await readLedgerEvents(jsonlPath, 'inv_export')
+    expect(fromJsonl.map((e) => e.seq)).toEqual(session.map((e) => e.seq))
+
+    const sqlitePath = join(dir, 'events.db')
+    const sqlite = createSqliteEventLedger({ path: sqlitePath })
+    for (const e of [...session, other]) await sqlite.append(e)
+    sqlite.close()
+    const fromSqlite = await readLedgerEvents(`sqlite:${sqlitePath}`, 'inv_export')
+    expect(fromSqlite).toEqual(fromJsonl)
+
+    await expect(readLedgerEvents(join(dir, 'missing.jsonl'), 'inv_export')).rejects.toThrow(
+      'Event ledger not found'
+    )
+  })
+
+  test('reads a SQLite ledger without creating, migrating or writing it', async () => {
+    const dir = tempDir()
+    const sqlitePath = join(dir, 'events.db')
+    const live = createSqliteEventLedger({ path: sqlitePath })
+    for (const e of session) await live.append(e)
+
+    // The broker still holds the ledger open while it is exported.
+    const before = readFileSync(sqlitePath)
+    const events = await readLedgerEvents(`sqlite:${sqlitePath}`, 'inv_export')
+    expect(events.map((e) => e.seq)).toEqual(session.map((e) => e.seq))
+    expect(readFileSync(sqlitePath).equals(before)).toBe(true)
+    live.close()
+
+    // A database that is not a ledger is rejected rather than migrated into one.
+    const otherPath = join(dir, 'other.db')
+    new Database(otherPath, { create: true }).close()
+    await expect(readLedgerEvents(`sqlite:${otherPath}`, 'inv_export')).rejects.toThrow(
+      'Event ledger schema version 0'
+    )
+    const other = new Database(otherPath, { readonly: true })
+    expect(other.query('SELECT name FROM sqlite_master').all()).toEqual([])
+    other.close()
+  })
+
+  test('the export command writes the requested format', async () => {
+    const dir = tempDir()
+    const ledgerPath = join(dir, 'events.jsonl')
+    writeFileSync(ledgerPath, session.map((e) => `${JSON.stringify(e)}\n`).join(''))
+    const proc = Bun.spawn({
+      cmd: [
+        'bun',
+        'packages/harness-broker/bin/harness-broker.js',
+        'export',
+        '--ledger',
+        ledgerPath,
+        '--invocation',
+        'inv_export',
+        '--format',
+        'md',
+        '--usage',
+      ],
+      cwd: repoRoot,
+      stdout: 'pipe',
+      stderr: 'pipe',
+    })
+    const stdout = await new Response(proc.stdout).text()
+    expect(await proc.exited).toBe(0)
+    expect(stdout).toContain('## Turn 2 · failed')
+    expect(stdout).toContain('- Usage: 300 tokens')
+
+    const bogus = Bun.spawn({
+      cmd: [
+        'bun',
+        'packages/harness-broker/bin/harness-broker.js',
+        'export',
+        '--ledger',
+        ledgerPath,
+        '--invocation',
+        'inv_export',
+        '--format',
+        'pdf',
+      ],
+      cwd: repoRoot,
+      stdout: 'pipe',
+      stderr: 'pipe',
+    })
+    const stderr = await new Response(bogus.stderr).text()
+    expect(await bogus.exited).toBe(1)
+    expect(stderr).toContain('expected one of md, html, jsonl')
+  })
+})
@@ -0,0 +1,11 @@
+import {
+  claudeStream,
+  expectUserText,
+  sendInit,
+} from '../../../src/testing/fake-claude-stream-json'
+
+const io = claudeStream()
+await expectUserText(io)
+sendInit(io)
+process.stderr.write('fatal: upstream connection lost\n')
+io.close(3)
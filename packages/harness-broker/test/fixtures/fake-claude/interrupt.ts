@@ -0,0 +1,37 @@
+import {
+  claudeStream,
+  expectFrame,
+  expectUserText,
+  sendInit,
+} from '../../../src/testing/fake-claude-stream-json'
+
+const io = claudeStream()
+await expectUserText(io)
+sendInit(io)
+io.send({
+  type: 'stream_event',
+  session_id: 'session_1',
+  event: { type: 'message_start', message: { id: 'msg_1', role: 'assistant' } },
+})
+io.send({
+  type: 'stream_event',
+  session_id: 'session_1',
+  event: { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Working' } },
+})
+const interrupt = await expectFrame(io, 'control_request')
+const request = interrupt['request'] as { subtype?: string }
+if (request.subtype !== 'interrupt') {
+  throw new Error(`expected interrupt, got ${String(request.subtype)}`)
+}
+io.send({
+  type: 'control_response',
+  response: { subtype: 'success', request_id: interrupt['request_id'], response: {} },
+})
+io.send({
+  type: 'result',
+  subtype: 'error_during_execution',
+  is_error: true,
+  session_id: 'session_1',
+  usage: { input_tokens: 3, output_tokens: 1 },
+})
+await io.read()
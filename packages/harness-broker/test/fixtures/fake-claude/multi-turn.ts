@@ -0,0 +1,25 @@
+import {
+  claudeStream,
+  expectFrame,
+  sendAssistantText,
+  sendInit,
+  sendResult,
+} from '../../../src/testing/fake-claude-stream-json'
+
+const io = claudeStream()
+for (const turn of [1, 2]) {
+  const frame = await expectFrame(io, 'user')
+  // After the first init the broker must address the live session.
+  if (turn === 2 && frame['session_id'] !== 'session_1') {
+    throw new Error(`expected session_1, got ${String(frame['session_id'])}`)
+  }
+  const content = (frame['message'] as { content: Array<{ text: string }> }).content
+  const text = content.map((block) => block.text).join('')
+  sendInit(io)
+  sendAssistantText(io, `Reply ${turn}: ${text}`, {
+    messageId: `msg_${turn}`,
+    chunks: [`Reply ${turn}: `, text],
+  })
+  sendResult(io, `Reply ${turn}: ${text}`)
+}
+await io.read()
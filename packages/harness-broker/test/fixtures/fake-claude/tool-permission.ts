@@ -0,0 +1,42 @@
+import {
+  claudeStream,
+  expectUserText,
+  requestToolPermission,
+  sendAssistantText,
+  sendInit,
+  sendResult,
+} from '../../../src/testing/fake-claude-stream-json'
+
+const io = claudeStream()
+await expectUserText(io)
+sendInit(io)
+const input = { command: 'ls -la', description: 'List files' }
+io.send({
+  type: 'assistant',
+  session_id: 'session_1',
+  message: {
+    id: 'msg_tool',
+    role: 'assistant',
+    content: [{ type: 'tool_use', id: 'toolu_1', name: 'Bash', input }],
+  },
+})
+const decision = await requestToolPermission(io, 'cli_req_1', 'Bash', input)
+const allowed = decision['behavior'] === 'allow'
+io.send({
+  type: 'user',
+  session_id: 'session_1',
+  message: {
+    role: 'user',
+    content: [
+      {
+        type: 'tool_result',
+        tool_use_id: 'toolu_1',
+        content: allowed ? 'total 0' : String(decision['message']),
+        is_error: !allowed,
+      },
+    ],
+  },
+})
+sendAssistantText(io, allowed ? 'Listed.' : 'Denied.', { messageId: 'msg_2' })
+sendResult(io, allowed ? 'Listed.' : 'Denied.')
+await io.read()
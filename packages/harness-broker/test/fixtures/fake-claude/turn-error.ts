@@ -0,0 +1,17 @@
+import {
+  claudeStream,
+  expectUserText,
+  sendInit,
+  sendResult,
+} from '../../../src/testing/fake-claude-stream-json'
+
+const io = claudeStream()
+await expectUserText(io)
+sendInit(io)
+sendResult(io, '', {
+  subtype: 'error_max_turns',
+  is_error: true,
+  num_turns: 4,
+  errors: ['Reached maximum number of turns (4)'],
+})
+await io.read()
@@ -0,0 +1,21 @@
+import {
+  completeSimpleTurn,
+  expectMethod,
+  framed,
+} from '../../../src/testing/fake-codex-app-server'
+
+// Generation 1 opens the thread and dies mid-turn; the recycled generation
+// resumes that thread and completes the re-delivered turn under its own id.
+const io = framed()
+const init = await expectMethod(io, 'initialize')
+io.respond(init, { protocolVersion: 'codex-app-server/v0' })
+await expectMethod(io, 'initialized')
+const thread = await io.read()
+io.respond(thread, { threadId: 'thread_recycle' })
+const turn = await expectMethod(io, 'turn/start')
+if (thread.method === 'thread/start') {
+  io.notify('turn/started', { turnId: 'turn_1' })
+  io.close(1)
+}
+completeSimpleTurn(io, 'Recovered.', 'turn_2')
+io.respond(turn, { ok: true })
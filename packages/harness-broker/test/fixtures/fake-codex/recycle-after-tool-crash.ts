@@ -0,0 +1,29 @@
+import { expectMethod, framed } from '../../../src/testing/fake-codex-app-server'
+
+// A tool call starts before the child dies, so the turn is not safe to retry.
+// The recycled generation resumes the thread and waits for the next input.
+const io = framed()
+const init = await expectMethod(io, 'initialize')
+io.respond(init, { protocolVersion: 'codex-app-server/v0' })
+await expectMethod(io, 'initialized')
+const thread = await io.read()
+io.respond(thread, { threadId: 'thread_tool_crash' })
+if (thread.method === 'thread/start') {
+  await expectMethod(io, 'turn/start')
+  io.notify('turn/started', { turnId: 'turn_1' })
+  io.notify('item/started', {
+    turnId: 'turn_1',
+    item: {
+      type: 'commandExecution',
+      id: 'cmd_1',
+      command: 'touch out.txt',
+      cwd: process.cwd(),
+      aggregatedOutput: null,
+      exitCode: null,
+      durationMs: null,
+      status: 'inProgress',
+    },
+  })
+  io.close(1)
+}
+await io.read()
@@ -0,0 +1,29 @@
+import { expectMethod, framed } from '../../../src/testing/fake-codex-app-server'
+
+// A tool call starts and never finishes: the open call vouches for the quiet
+// turn only for a bounded time. The recycled generation resumes the thread and
+// waits for the next input.
+const io = framed()
+const init = await expectMethod(io, 'initialize')
+io.respond(init, { protocolVersion: 'codex-app-server/v0' })
+await expectMethod(io, 'initialized')
+const thread = await io.read()
+io.respond(thread, { threadId: 'thread_tool_hang' })
+if (thread.method === 'thread/start') {
+  await expectMethod(io, 'turn/start')
+  io.notify('turn/started', { turnId: 'turn_1' })
+  io.notify('item/started', {
+    turnId: 'turn_1',
+    item: {
+      type: 'commandExecution',
+      id: 'cmd_1',
+      command: 'sleep 3600',
+      cwd: process.cwd(),
+      aggregatedOutput: null,
+      exitCode: null,
+      durationMs: null,
+      status: 'inProgress',
+    },
+  })
+}
+await io.read()
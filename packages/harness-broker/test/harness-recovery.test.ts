@@ -0,0 +1,338 @@
+import { describe, expect, test } from 'bun:test'
+import { join } from 'node:path'
+import {
+  type BrokerLifecyclePolicyOverlay,
+  type HarnessInvocationSpec,
+  type HarnessRecoveryPolicy,
+  type InvocationEventEnvelope,
+  type TurnRetryPolicy,
+  conservativeDefaultLifecyclePolicyOverlay,
+  lifecyclePolicyHash,
+} from 'spaces-harness-broker-protocol'
+import { createBroker } from '../src/broker'
+import { createCodexAppServerDriver } from '../src/drivers/codex-app-server/driver'
+
+const root = new URL('..', import.meta.url).pathname
+const fixtureDir = join(root, 'test/fixtures/fake-codex')
+
+const now = () => new Date('2026-05-20T18:00:00.000Z')
+
+const scenarioSpec = (scenario: string): HarnessInvocationSpec => ({
+  specVersion: 'harness-broker.invocation/v1',
+  invocationId: `inv_${scenario.replaceAll('-', '_')}`,
+  harness: { frontend: 'codex', provider: 'openai', driver: 'codex-app-server' },
+  process: {
+    command: Bun.execPath,
+    args: [join(fixtureDir, `${scenario}.ts`)],
+    cwd: process.cwd(),
+    lockedEnv: { CODEX_HOME: '/tmp/harness-broker-codex-home' },
+    harnessTransport: { kind: 'jsonrpc-stdio' },
+    limits: { startupTimeoutMs: 5000, turnTimeoutMs: 5000, stopGraceMs: 500 },
+  },
+  interaction: { mode: 'headless', turnConcurrency: 'single', inputQueue: 'none' },
+  driver: {
+    kind: 'codex-app-server',
+    resumeFallback: 'start-fresh',
+    permissionPolicy: { mode: 'deny' },
+  },
+})
+
+const userInput = {
+  inputId: 'input_1',
+  kind: 'user' as const,
+  content: [{ type: 'text' as const, text: 'Please respond.' }],
+}
+
+const recycleChild = (
+  overrides: Partial<Extract<HarnessRecoveryPolicy, { mode: 'recycle-child' }>> = {}
+): HarnessRecoveryPolicy => ({
+  mode: 'recycle-child',
+  maxGenerationsPerInvocation: 3,
+  activeTurnDisposition: 'fail-before-recycle',
+  stallDetection: { mode: 'disabled' },
+  recycle: {
+    mechanism: 'capability-selected',
+    killGraceMs: 200,
+    killProcessTree: false,
+    restartFrom: 'latest-continuation',
+    requireContinuation: true,
+  },
+  onRecoveryFailure: 'fail-invocation',
+  ...overrides,
+})
+
+const safeRetry: TurnRetryPolicy = {
+  mode: 'safe-retry',
+  maxAttempts: 2,
+  retryOn: ['harness-stalled', 'harness-crashed'],
+  requires: {
+    noToolCallObserved: true,
+    noPermissionRequestPending: true,
+    noAssistantFinalObserved: true,
+    noExternalMutationObserved: true,
+    continuationKnown: true,
+    driverCanProvePriorTurnIncomplete: true,
+  },
+  identity: { inputId: 'same', logicalTurnId: 'same', turnAttempt: 'increment' },
+  semantics: 'at-least-once',
+  onUnsafe: 'fail-turn',
+}
+
+function recoveryPolicy(
+  harnessRecovery: HarnessRecoveryPolicy,
+  turnRetry: TurnRetryPolicy = safeRetry
+): BrokerLifecyclePolicyOverlay {
+  const policy = {
+    ...conservativeDefaultLifecyclePolicyOverlay('policy_recycle_child'),
+    harnessRecovery,
+    turnRetry,
+  }
+  policy.policyHash = lifecyclePolicyHash(policy)
+  return policy
+}
+
+async function waitFor(predicate: () => boolean, message: string, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs
+  while (Date.now() < deadline) {
+    if (predicate()) return
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+  expect(predicate(), message).toBe(true)
+}
+
+async function runRecoveryScenario(
+  scenario: string,
+  policy: BrokerLifecyclePolicyOverlay,
+  until: (events: InvocationEventEnvelope[]) => boolean
+): Promise<InvocationEventEnvelope[]> {
+  const events: InvocationEventEnvelope[] = []
+  const broker = createBroker({
+    drivers: [createCodexAppServerDriver()],
+    onEvent: (event) => events.push(event),
+    now,
+  })
+  const spec = scenarioSpec(scenario)
+  const invocationId = spec.invocationId ?? ''
+  await broker.start({ spec }, undefined, undefined, policy)
+  try {
+    await broker.input({ invocationId, input: userInput, policy: { whenBusy: 'reject' } })
+    await waitFor(
+      () => until(events),
+      `events:\n${events.map((event) => JSON.stringify(event)).join('\n')}`
+    )
+  } finally {
+    await broker.stop({ invocationId }).catch(() => undefined)
+  }
+  return events
+}
+
+const types = (events: InvocationEventEnvelope[]) => events.map((event) => event.type)
+const hasType = (type: InvocationEventEnvelope['type']) => (events: InvocationEventEnvelope[]) =>
+  events.some((event) => event.type === type)
+
+describe('recycle-child harness recovery', () => {
+  test('a crash mid-turn recycles the child and retries the turn on the next generation', async () => {
+    const events = await runRecoveryScenario(
+      'recycle-after-crash',
+      recoveryPolicy(recycleChild()),
+      hasType('turn.completed')
+    )
+    const recovery = types(events).filter((type) =>
+      [
+        'harness.exited',
+        'harness.recovery.started',
+        'harness.started',
+        'harness.recovery.completed',
+        'turn.retry',
+        'turn.completed',
+      ].includes(type)
+    )
+    expect(recovery).toEqual([
+      'harness.exited',
+      'harness.recovery.started',
+      'harness.started',
+      'harness.recovery.completed',
+      'turn.retry',
+      'turn.completed',
+    ])
+    expect(events.find((event) => event.type === 'harness.exited')?.payload).toMatchObject({
+      generation: 1,
+      reason: 'crash',
+      exitCode: 1,
+    })
+    expect(events.find((event) => event.type === 'harness.started')?.payload).toMatchObject({
+      generation: 2,
+      mode: 'recycle',
+      mechanism: 'direct-child',
+    })
+    expect(events.find((event) => event.type === 'turn.retry')?.payload).toEqual({
+      inputId: 'input_1',
+      turnId: 'turn_1',
+      fromAttempt: 1,
+      toAttempt: 2,
+      fromHarnessGeneration: 1,
+      toHarnessGeneration: 2,
+      reason: 'harness-crashed',
+      semantics: 'at-least-once',
+    })
+    // The new generation's native turn id is folded back onto the logical turn.
+    expect(events.filter((event) => event.type === 'turn.started')).toHaveLength(1)
+    expect(events.find((event) => event.type === 'turn.completed')).toMatchObject({
+      turnId: 'turn_1',
+      inputId: 'input_1',
+      turnAttempt: 2,
+      harnessGeneration: 2,
+      payload: { turnId: 'turn_1' },
+    })
+    expect(types(events)).not.toContain('turn.failed')
+    expect(types(events)).not.toContain('invocation.failed')
+  })
+
+  test('a quiet turn with no open tool call is declared stalled and retried', async () => {
+    const events = await runRecoveryScenario(
+      'recycle-after-stall',
+      recoveryPolicy(
+        recycleChild({
+          stallDetection: {
+            mode: 'no-progress-plus-health',
+            noProgressMs: 100,
+            healthProbe: 'driver-status',
+          },
+        })
+      ),
+      hasType('turn.completed')
+    )
+    expect(events.find((event) => event.type === 'turn.stalled')?.payload).toMatchObject({
+      inputId: 'input_1',
+      turnId: 'turn_1',
+      thresholdMs: 100,
+      healthProbe: 'driver-status',
+      harnessGeneration: 1,
+      turnAttempt: 1,
+    })
+    expect(events.find((event) => event.type === 'harness.recovery.started')?.payload).toEqual({
+      fromGeneration: 1,
+      reason: 'stall',
+      activeTurnDisposition: 'fail-before-recycle',
+    })
+    expect(events.find((event) => event.type === 'harness.exited')?.payload).toMatchObject({
+      generation: 1,
+      reason: 'recycle-kill',
+    })
+    expect(events.find((event) => event.type === 'turn.completed')).toMatchObject({
+      turnId: 'turn_1',
+      turnAttempt: 2,
+      harnessGeneration: 2,
+    })
+  })
+
+  test('an open tool call vouches for a quiet turn only for a bounded time', async () => {
+    const events = await runRecoveryScenario(
+      'recycle-after-tool-hang',
+      recoveryPolicy(
+        recycleChild({
+          stallDetection: {
+            mode: 'no-progress-plus-health',
+            noProgressMs: 50,
+            healthProbe: 'driver-status',
+          },
+        })
+      ),
+      hasType('harness.recovery.completed')
+    )
+    // Ten quiet windows pass before the hung command stops vouching for the turn.
+    const stalled = events.find((event) => event.type === 'turn.stalled')?.payload as
+      | { noProgressMs: number }
+      | undefined
+    expect(stalled?.noProgressMs).toBeGreaterThanOrEqual(500)
+    expect(events.find((event) => event.type === 'turn.failed')?.payload).toMatchObject({
+      reason: 'harness-stalled',
+      data: { retryBlockedBy: expect.arrayContaining(['noToolCallObserved']) },
+    })
+  })
+
+  test('a native-heartbeat probe stalls a turn the app-server has gone silent on', async () => {
+    const events = await runRecoveryScenario(
+      'recycle-after-stall',
+      recoveryPolicy(
+        recycleChild({
+          stallDetection: {
+            mode: 'no-progress-plus-health',
+            noProgressMs: 100,
+            healthProbe: 'native-heartbeat',
+          },
+        })
+      ),
+      hasType('turn.completed')
+    )
+    expect(events.find((event) => event.type === 'turn.stalled')?.payload).toMatchObject({
+      healthProbe: 'native-heartbeat',
+    })
+    expect(events.find((event) => event.type === 'turn.completed')).toMatchObject({
+      turnAttempt: 2,
+    })
+  })
+
+  test('an observed tool call blocks the retry: the turn fails and the child is still recycled', async () => {
+    const events = await runRecoveryScenario(
+      'recycle-after-tool-crash',
+      recoveryPolicy(recycleChild()),
+      hasType('harness.recovery.completed')
+    )
+    const failed = events.find((event) => event.type === 'turn.failed')
+    expect(failed).toMatchObject({
+      turnId: 'turn_1',
+      payload: {
+        code: 'HarnessRecycled',
+        reason: 'harness-crashed',
+        data: {
+          retryBlockedBy: expect.arrayContaining([
+            'noToolCallObserved',
+            'noExternalMutationObserved',
+          ]),
+        },
+      },
+    })
+    expect(types(events)).not.toContain('turn.retry')
+    expect(types(events).indexOf('turn.failed')).toBeLessThan(
+      types(events).indexOf('harness.started')
+    )
+    expect(events.find((event) => event.type === 'harness.recovery.completed')?.payload).toEqual({
+      fromGeneration: 1,
+      toGeneration: 2,
+      ready: true,
+    })
+  })
+
+  test('exhausting maxGenerationsPerInvocation fails the invocation', async () => {
+    const events = await runRecoveryScenario(
+      'recycle-after-crash',
+      recoveryPolicy(recycleChild({ maxGenerationsPerInvocation: 1 })),
+      hasType('invocation.failed')
+    )
+    expect(events.find((event) => event.type === 'turn.failed')?.payload).toMatchObject({
+      turnId: 'turn_1',
+      code: 'HarnessRecoveryFailed',
+      reason: 'recycle-failed',
+    })
+    expect(events.find((event) => event.type === 'invocation.failed')?.payload).toMatchObject({
+      code: 'HarnessRecoveryFailed',
+      reason: 'recycle-failed',
+    })
+    expect(types(events)).not.toContain('harness.started')
+    expect(events.filter((event) => event.type === 'invocation.failed')).toHaveLength(1)
+    expect(types(events)).not.toContain('invocation.exited')
+  })
+
+  test('without a recycle-child policy a crash still fails the invocation', async () => {
+    const events = await runRecoveryScenario(
+      'recycle-after-crash',
+      conservativeDefaultLifecyclePolicyOverlay('policy_conservative'),
+      hasType('invocation.exited')
+    )
+    expect(types(events)).not.toContain('harness.recovery.started')
+    expect(events.find((event) => event.type === 'turn.failed')?.payload).toMatchObject({
+      code: 'codex_process_exit',
+    })
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, expect, test } from 'bun:test'
+import { BrokerErrorCode, type InvocationId } from 'spaces-harness-broker-protocol'
+import type { Broker } from '../src/broker'
+import {
+  authorizeObserverControl,
+  createAttachTokenObserverPolicy,
+  createObserverControlPolicy,
+  parseObserverTokenFile,
+} from '../src/observer-control'
+
+describe('observer token file', () => {
+  test('a bare token, as in an attach token file, grants every control scope', () => {
+    const [grant] = parseObserverTokenFile('attach-secret\n')
+    expect([...(grant?.scopes ?? [])]).toEqual([
+      'invocation.input',
+      'invocation.interrupt',
+      'invocation.permission.respond',
+    ])
+    expect(grant?.clientId).toMatch(/^token:[0-9a-f]{12}$/)
+    expect(grant?.clientId).not.toContain('attach-secret')
+  })
+
+  test('scoped lines authenticate to their own grant and reject typos', () => {
+    const policy = createObserverControlPolicy(
+      parseObserverTokenFile(
+        '# approvals only\nt1 invocation.permission.respond approver\n\nt2 * ops\n'
+      )
+    )
+    expect(policy.authenticate('t1')?.clientId).toBe('approver')
+    expect([...(policy.authenticate('t1')?.scopes ?? [])]).toEqual([
+      'invocation.permission.respond',
+    ])
+    expect(policy.authenticate('t2')?.scopes.size).toBe(3)
+    expect(policy.authenticate('t3')).toBeUndefined()
+
+    expect(() => parseObserverTokenFile('t1 invocation.stop', 'tokens')).toThrow(
+      'tokens:1: unknown observer control scope "invocation.stop"'
+    )
+    expect(() => parseObserverTokenFile('t1\nt1 * again')).toThrow('duplicate token')
+    expect(() => parseObserverTokenFile('# nothing here\n')).toThrow('no tokens')
+  })
+})
+
+describe('observer control gate', () => {
+  function recordingBroker(): { broker: Broker; recorded: unknown[] } {
+    const recorded: unknown[] = []
+    const broker = {
+      recordDiagnostic: (_invocationId: string, diagnostic: unknown) => {
+        recorded.push(diagnostic)
+      },
+    } as unknown as Broker
+    return { broker, recorded }
+  }
+
+  test('the attach token fallback authenticates without control scopes', () => {
+    const policy = createAttachTokenObserverPolicy('attach-secret')
+    const grant = policy.authenticate('attach-secret')
+    expect(grant?.clientId).toBe('attach-token')
+    expect(grant?.scopes.size).toBe(0)
+    expect(policy.authenticate('other')).toBeUndefined()
+
+    const { broker, recorded } = recordingBroker()
+    const session = { clientId: 'attach-token', scopes: grant?.scopes ?? new Set() }
+    expect(() =>
+      authorizeObserverControl(broker, session, 'invocation.input', 'inv_1' as InvocationId)
+    ).toThrow(expect.objectContaining({ code: BrokerErrorCode.CapabilityDenied }))
+    expect(recorded).toEqual([
+      expect.objectContaining({
+        level: 'warn',
+        data: { method: 'invocation.input', decision: 'denied', clientId: 'attach-token' },
+      }),
+    ])
+  })
+
+  test('unauthenticated attempts are refused without an audit record', () => {
+    const { broker, recorded } = recordingBroker()
+    expect(() =>
+      authorizeObserverControl(broker, undefined, 'invocation.interrupt', 'inv_1' as InvocationId)
+    ).toThrow('invocation.interrupt requires observer.authenticate on this connection')
+    expect(recorded).toEqual([])
+  })
+})
@@ -0,0 +1,184 @@
+import { describe, expect, test } from 'bun:test'
+import { existsSync } from 'node:fs'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { BrokerErrorCode, type InvocationEventEnvelope } from 'spaces-harness-broker-protocol'
+import { type SqliteEventLedgerOptions, createSqliteEventLedger } from '../src/sqlite-event-ledger'
+
+const event = (
+  invocationId: string,
+  seq: number,
+  payload: Record<string, unknown> = {}
+): InvocationEventEnvelope => ({
+  invocationId,
+  seq,
+  time: new Date(seq * 1000).toISOString(),
+  type: 'diagnostic',
+  payload: { level: 'info', message: `event ${seq}`, ...payload },
+})
+
+const withDir = async (run: (dir: string) => Promise<void>) => {
+  const dir = await mkdtemp(join(tmpdir(), 'harness-broker-sqlite-ledger-'))
+  try {
+    await run(dir)
+  } finally {
+    await rm(dir, { recursive: true, force: true })
+  }
+}
+
+const openLedger = (dir: string, options: Partial<SqliteEventLedgerOptions> = {}) =>
+  createSqliteEventLedger({ path: join(dir, 'events.sqlite'), ...options })
+
+describe('sqlite event ledger', () => {
+  test('keeps the EventLedger append, replay and ack contract', async () => {
+    await withDir(async (dir) => {
+      const ledger = openLedger(dir)
+      try {
+        const first = event('inv_a', 1, { pid: 123 })
+        await expect(ledger.append(first)).resolves.toEqual({ appended: true })
+        await expect(ledger.append(structuredClone(first))).resolves.toEqual({ appended: false })
+        await expect(ledger.append(event('inv_a', 1, { pid: 456 }))).rejects.toMatchObject({
+          code: BrokerErrorCode.ResourceError,
+        })
+
+        await ledger.append(event('inv_b', 1))
+        await ledger.append(event('inv_a', 3))
+        await ledger.append(event('inv_a', 2))
+        expect((await ledger.eventsSince('inv_a', 1)).map((item) => item.seq)).toEqual([2, 3])
+        expect(await ledger.eventsSince('inv_b', 0)).toEqual([event('inv_b', 1)])
+        expect(ledger.currentSeq('inv_a')).toBe(3)
+        expect(ledger.currentSeq('inv_missing')).toBe(0)
+
+        await expect(ledger.ackEvents('inv_a', 2)).resolves.toEqual({ ackedThroughSeq: 2 })
+        await expect(ledger.ackEvents('inv_a', 1)).rejects.toMatchObject({
+          code: BrokerErrorCode.EventReplayUnavailable,
+        })
+      } finally {
+        ledger.close()
+      }
+    })
+  })
+
+  test('prunes acked prefixes of inactive invocations and persists floors across reopen', async () => {
+    await withDir(async (dir) => {
+      const ledger = openLedger(dir)
+      for (let seq = 1; seq <= 5; seq += 1) {
+        await ledger.append(event('inv_active', seq))
+        await ledger.append(event('inv_inactive', seq))
+      }
+      await ledger.ackEvents('inv_active', 4)
+      await ledger.ackEvents('inv_inactive', 4)
+      await ledger.prune({ activeInvocationIds: ['inv_active'] })
+      ledger.close()
+
+      const reopened = openLedger(dir)
+      try {
+        expect(await reopened.retentionFloorSeq('inv_active')).toBe(0)
+        expect((await reopened.eventsSince('inv_active', 0)).map((item) => item.seq)).toEqual([
+          1, 2, 3, 4, 5,
+        ])
+        expect(await reopened.retentionFloorSeq('inv_inactive')).toBe(4)
+        await expect(reopened.eventsSince('inv_inactive', 3)).rejects.toMatchObject({
+          code: BrokerErrorCode.EventReplayUnavailable,
+        })
+        expect((await reopened.eventsSince('inv_inactive', 4)).map((item) => item.seq)).toEqual([5])
+        // Acks survive the restart, and a replayed append below the floor is a duplicate.
+        await expect(reopened.ackEvents('inv_inactive', 3)).rejects.toMatchObject({
+          code: BrokerErrorCode.EventReplayUnavailable,
+        })
+        await expect(reopened.append(event('inv_inactive', 2))).resolves.toEqual({
+          appended: false,
+        })
+        expect(reopened.currentSeq('inv_inactive')).toBe(5)
+      } finally {
+        reopened.close()
+      }
+    })
+  })
+
+  test('age retention evicts acked or inactive events but never unacked active ones', async () => {
+    await withDir(async (dir) => {
+      let clock = 0
+      const ledger = openLedger(dir, {
+        retention: { maxAgeMs: 1000 },
+        now: () => new Date(clock),
+      })
+      try {
+        for (let seq = 1; seq <= 3; seq += 1) {
+          await ledger.append(event('inv_live', seq))
+          await ledger.append(event('inv_done', seq))
+        }
+        await ledger.ackEvents('inv_live', 2)
+        clock = 5000
+        await ledger.append(event('inv_live', 4))
+        await ledger.prune({ activeInvocationIds: ['inv_live'] })
+
+        expect(await ledger.retentionFloorSeq('inv_live')).toBe(2)
+        expect((await ledger.eventsSince('inv_live', 2)).map((item) => item.seq)).toEqual([3, 4])
+        expect(await ledger.retentionFloorSeq('inv_done')).toBe(3)
+        expect(await ledger.eventsSince('inv_done', 3)).toEqual([])
+        expect(ledger.currentSeq('inv_done')).toBe(3)
+      } finally {
+        ledger.close()
+      }
+    })
+  })
+
+  test('size retention evicts the oldest eligible events first', async () => {
+    await withDir(async (dir) => {
+      let clock = 0
+      const ledger = openLedger(dir, { now: () => new Date(clock) })
+      for (let seq = 1; seq <= 4; seq += 1) {
+        clock += 1
+        await ledger.append(event('inv_old', seq))
+      }
+      for (let seq = 1; seq <= 4; seq += 1) {
+        clock += 1
+        await ledger.append(event('inv_new', seq))
+      }
+      ledger.close()
+
+      const eventBytes = JSON.stringify(event('inv_old', 1)).length
+      const bounded = openLedger(dir, {
+        retention: { maxBytes: eventBytes * 5 },
+        now: () => new Date(clock),
+      })
+      try {
+        await bounded.prune({ activeInvocationIds: ['inv_new'] })
+
+        // inv_old is inactive, so all of it may go; inv_new is active and unacked.
+        expect(await bounded.retentionFloorSeq('inv_old')).toBe(3)
+        expect((await bounded.eventsSince('inv_old', 3)).map((item) => item.seq)).toEqual([4])
+        expect(await bounded.retentionFloorSeq('inv_new')).toBe(0)
+        expect(await bounded.eventsSince('inv_new', 0)).toHaveLength(4)
+      } finally {
+        bounded.close()
+      }
+    })
+  })
+
+  test('imports an existing JSONL ledger idempotently', async () => {
+    await withDir(async (dir) => {
+      const jsonlPath = join(dir, 'events.jsonl')
+      const lines = [event('inv_a', 1), event('inv_a', 2), event('inv_b', 1)]
+      await writeFile(jsonlPath, `${lines.map((line) => JSON.stringify(line)).join('\n')}\n`)
+
+      const ledger = openLedger(dir)
+      try {
+        expect(ledger.importJsonl(jsonlPath)).toEqual({ imported: 3, skipped: 0 })
+        expect(ledger.importJsonl(jsonlPath)).toEqual({ imported: 0, skipped: 3 })
+        expect(await ledger.eventsSince('inv_a', 0)).toEqual([event('inv_a', 1), event('inv_a', 2)])
+        expect(ledger.currentSeq('inv_b')).toBe(1)
+
+        await writeFile(jsonlPath, `${JSON.stringify(event('inv_a', 1, { pid: 9 }))}\n`)
+        expect(() => ledger.importJsonl(jsonlPath)).toThrow(
+          expect.objectContaining({ code: BrokerErrorCode.ResourceError })
+        )
+        expect(existsSync(join(dir, 'events.sqlite'))).toBe(true)
+      } finally {
+        ledger.close()
+      }
+    })
+  })
+})
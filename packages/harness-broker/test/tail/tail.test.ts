@@ -0,0 +1,232 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { type Server, createServer } from 'node:net'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  BrokerErrorCode,
+  type InvocationEventEnvelope,
+  type JsonRpcRequest,
+  NdjsonDecoder,
+  encodeNdjsonFrame,
+} from 'spaces-harness-broker-protocol'
+import { type DurableReadSurface, createTailProjection, startBrokerTail } from '../../src/tail'
+
+function event(
+  seq: number,
+  type: InvocationEventEnvelope['type'],
+  payload: unknown,
+  invocationId = 'inv_tail'
+): InvocationEventEnvelope {
+  return {
+    invocationId,
+    seq,
+    time: `2026-06-18T15:40:${seq.toString().padStart(2, '0')}.000Z`,
+    type,
+    payload,
+  } as InvocationEventEnvelope
+}
+
+function replaySurface(replay: InvocationEventEnvelope[]): DurableReadSurface {
+  return {
+    eventsSince: async () => ({ events: replay, currentSeq: replay.length }),
+    observe: () => ({ close: () => undefined }),
+  }
+}
+
+const piSession: InvocationEventEnvelope[] = [
+  event(1, 'continuation.updated', { provider: 'pi', kind: 'session', key: 'ses_1' }),
+  event(2, 'invocation.ready', {}),
+  event(3, 'turn.started', { turnId: 'turn_1', inputId: 'input_1' }),
+  event(4, 'permission.requested', {
+    permissionRequestId: 'perm_1',
+    kind: 'command',
+    subjectDisplay: 'rm -rf build',
+    defaultDecision: 'deny',
+    deadlineMs: 30_000,
+  }),
+  event(5, 'permission.resolved', {
+    permissionRequestId: 'perm_1',
+    decision: 'allow',
+    decidedBy: 'client',
+  }),
+  event(6, 'turn.stalled', {
+    inputId: 'input_1',
+    turnId: 'turn_1',
+    noProgressMs: 1500,
+    thresholdMs: 1000,
+    healthProbe: 'driver-status',
+    harnessGeneration: 1,
+    turnAttempt: 1,
+  }),
+  event(7, 'harness.recovery.started', {
+    fromGeneration: 1,
+    reason: 'stall',
+    activeTurnDisposition: 'fail-before-recycle',
+  }),
+  event(8, 'harness.started', { generation: 2, mode: 'recycle', mechanism: 'direct-child' }),
+  event(9, 'harness.recovery.completed', { fromGeneration: 1, toGeneration: 2, ready: true }),
+  event(10, 'turn.retry', {
+    inputId: 'input_1',
+    turnId: 'turn_1',
+    fromAttempt: 1,
+    toAttempt: 2,
+    fromHarnessGeneration: 1,
+    toHarnessGeneration: 2,
+    reason: 'harness-stalled',
+    semantics: 'at-least-once',
+  }),
+]
+
+describe('driver-agnostic tail projection', () => {
+  test('heads the transcript with its label and names the continuation kind', async () => {
+    const projection = createTailProjection({
+      invocationId: 'inv_tail',
+      label: 'pi-sdk',
+      readSurface: replaySurface(piSession),
+    })
+    await projection.start()
+    const rendered = projection.lines().join('\n')
+    expect(rendered).toContain('pi-sdk · ')
+    expect(rendered).toContain('session ses_1')
+    expect(rendered).not.toContain('codex-app-server')
+  })
+
+  test('renders permissions and harness recovery instead of raw payload dumps', async () => {
+    const projection = createTailProjection({
+      invocationId: 'inv_tail',
+      readSurface: replaySurface(piSession),
+    })
+    await projection.start()
+    const rendered = projection.lines().join('\n')
+    expect(rendered).toContain('? command  rm -rf build')
+    expect(rendered).toContain('✓ allowed  rm -rf build · client')
+    expect(rendered).toContain('⚠ turn stalled · no progress for 1.5s')
+    expect(rendered).toContain('⟳ recycling harness (stall)')
+    expect(rendered).toContain('⟳ harness generation 2 started')
+    expect(rendered).toContain('⟳ retrying turn · attempt 2 on generation 2')
+    expect(rendered).not.toContain('permissionRequestId')
+    expect(rendered).not.toContain('harness.recovery.completed')
+  })
+})
+
+describe('startBrokerTail', () => {
+  const servers: Server[] = []
+  const dirs: string[] = []
+
+  afterEach(() => {
+    for (const server of servers.splice(0)) server.close()
+    for (const dir of dirs.splice(0)) rmSync(dir, { recursive: true, force: true })
+  })
+
+  /**
+   * A stand-in observer socket: answers `invocation.status` and
+   * `invocation.eventsSince` from `replay`, then pushes `live` as notifications.
+   * An `unknown` invocation fails `invocation.status` the way the broker does
+   * for an id it never started or already disposed.
+   */
+  async function observerSocket(
+    replay: InvocationEventEnvelope[],
+    live: InvocationEventEnvelope[] = [],
+    { unknown = false }: { unknown?: boolean } = {}
+  ): Promise<string> {
+    const dir = mkdtempSync(join(tmpdir(), 'hb-tail-'))
+    dirs.push(dir)
+    const socketPath = join(dir, 'observer.sock')
+    const server = createServer((socket) => {
+      const decoder = new NdjsonDecoder()
+      socket.setEncoding('utf8')
+      socket.on('data', (chunk: string) => {
+        for (const frame of decoder.push(chunk)) {
+          if (!frame.ok) continue
+          const request = frame.value as JsonRpcRequest<string, unknown>
+          if (request.method === 'invocation.status' && unknown) {
+            const error = { code: BrokerErrorCode.UnknownInvocation, message: 'Unknown invocation' }
+            socket.write(encodeNdjsonFrame({ jsonrpc: '2.0', id: request.id, error }))
+            continue
+          }
+          const result =
+            request.method === 'invocation.status'
+              ? { invocationId: 'inv_tail', state: 'running', driver: 'pi-sdk' }
+              : { events: replay, currentSeq: replay.length }
+          socket.write(encodeNdjsonFrame({ jsonrpc: '2.0', id: request.id, result }))
+          if (request.method !== 'invocation.eventsSince') continue
+          for (const envelope of live) {
+            socket.write(
+              encodeNdjsonFrame({ jsonrpc: '2.0', method: 'invocation.event', params: envelope })
+            )
+          }
+        }
+      })
+    })
+    servers.push(server)
+    await new Promise<void>((resolve) => server.listen(socketPath, resolve))
+    return socketPath
+  }
+
+  function captureOutput(): { write: (chunk: string) => void; text: () => string } {
+    const chunks: string[] = []
+    return { write: (chunk) => void chunks.push(chunk), text: () => chunks.join('') }
+  }
+
+  test('--no-follow prints the durable history under the driver label and returns', async () => {
+    const socketPath = await observerSocket(piSession)
+    const output = captureOutput()
+    const tail = startBrokerTail({
+      socketPath,
+      invocationId: 'inv_tail',
+      follow: false,
+      output,
+    })
+    expect(await tail.done).toBe('replayed')
+    expect(output.text()).toContain('pi-sdk · ')
+    expect(output.text()).toContain('⟳ retrying turn')
+    // Off a TTY the status row never paints, so no cursor control leaks out.
+    expect(output.text()).not.toContain('\x1b[')
+  })
+
+  test('following stops at the invocation terminal event', async () => {
+    const socketPath = await observerSocket(piSession.slice(0, 3), [
+      event(4, 'turn.completed', { turnId: 'turn_1' }),
+      event(5, 'invocation.exited', { code: 0 }),
+    ])
+    const output = captureOutput()
+    const tail = startBrokerTail({ socketPath, invocationId: 'inv_tail', output })
+    expect(await tail.done).toBe('terminal')
+    expect(output.text()).toContain('✓ done')
+  })
+
+  test('an invocation the broker does not know ends the tail at once instead of following', async () => {
+    const unknownOutput = captureOutput()
+    const unknown = startBrokerTail({
+      socketPath: await observerSocket([], [], { unknown: true }),
+      invocationId: 'inv_missing',
+      output: unknownOutput,
+    })
+    expect(await unknown.done).toBe('unknown')
+    expect(unknownOutput.text()).toContain('unknown invocation: inv_missing')
+
+    // A disposed invocation whose history the ledger kept prints it and returns.
+    const disposedOutput = captureOutput()
+    const disposed = startBrokerTail({
+      socketPath: await observerSocket(piSession, [], { unknown: true }),
+      invocationId: 'inv_tail',
+      output: disposedOutput,
+    })
+    expect(await disposed.done).toBe('replayed')
+    expect(disposedOutput.text()).toContain('⟳ retrying turn')
+  })
+
+  test('a socket that is not there ends the tail as disconnected with the failure shown', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'hb-tail-'))
+    dirs.push(dir)
+    const output = captureOutput()
+    const tail = startBrokerTail({
+      socketPath: join(dir, 'missing.sock'),
+      invocationId: 'inv_tail',
+      output,
+    })
+    expect(await tail.done).toBe('disconnected')
+    expect(output.text()).toContain('renderer durable read failed')
+  })
+})
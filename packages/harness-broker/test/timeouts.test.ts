@@ -4,6 +4,8 @@ import type { HarnessInvocationSpec, InvocationEventEnvelope } from 'spaces-harn
 import { BrokerErrorCode } from 'spaces-harness-broker-protocol'
 import { createBroker } from '../src/broker'
 import { createCodexAppServerDriver } from '../src/drivers/codex-app-server/driver'
+import type { DriverContext } from '../src/drivers/driver'
+import { createTestDriver } from '../src/testing/test-driver'
 
 const root = new URL('..', import.meta.url).pathname
 const fixtureDir = join(root, 'test/fixtures/fake-codex')
@@ -53,7 +55,7 @@ const userInput = {
 }
 
 describe('Harness Broker timeout handling', () => {
-  test('startupTimeoutMs emits invocation.failed with Timeout', async () => {
+  test('startupTimeoutMs emits invocation.failed with StartupTimeout', async () => {
     const events: InvocationEventEnvelope[] = []
     const broker = createBroker({
       drivers: [createCodexAppServerDriver()],
@@ -70,12 +72,12 @@ describe('Harness Broker timeout handling', () => {
     expect(events).toContainEqual(
       expect.objectContaining({
         type: 'invocation.failed',
-        payload: expect.objectContaining({ code: 'Timeout' }),
+        payload: expect.objectContaining({ code: 'StartupTimeout' }),
       })
     )
   })
 
-  test('turnTimeoutMs emits turn.failed with Timeout', async () => {
+  test('turnTimeoutMs emits turn.failed with TurnTimeout', async () => {
     const events: InvocationEventEnvelope[] = []
     const broker = createBroker({
       drivers: [createCodexAppServerDriver()],
@@ -102,7 +104,7 @@ describe('Harness Broker timeout handling', () => {
     expect(events).toContainEqual(
       expect.objectContaining({
         type: 'turn.failed',
-        payload: expect.objectContaining({ status: 'failed', code: 'Timeout' }),
+        payload: expect.objectContaining({ status: 'failed', code: 'TurnTimeout' }),
       })
     )
   })
@@ -144,3 +146,195 @@ describe('Harness Broker timeout handling', () => {
     await expect(input).resolves.toMatchObject({ accepted: true })
   })
 })
+
+const limitSpec = (
+  invocationId: string,
+  limits: NonNullable<HarnessInvocationSpec['process']['limits']>
+): HarnessInvocationSpec => ({
+  specVersion: 'harness-broker.invocation/v1',
+  invocationId,
+  harness: { frontend: 'test', provider: 'test', driver: 'test-driver' },
+  process: {
+    command: 'test-driver',
+    args: [],
+    cwd: process.cwd(),
+    harnessTransport: { kind: 'pipes' },
+    limits,
+  },
+  interaction: { mode: 'headless', turnConcurrency: 'single', inputQueue: 'fifo' },
+  driver: { kind: 'test-driver' },
+})
+
+const limitInput = (inputId: string) => ({
+  inputId,
+  kind: 'user' as const,
+  content: [{ type: 'text' as const, text: 'Take your time.' }],
+})
+
+describe('Broker-enforced process limits', () => {
+  test('startupTimeoutMs fails a driver that never finishes starting', async () => {
+    const events: InvocationEventEnvelope[] = []
+    const { driver } = createTestDriver()
+    const stopReasons: Array<string | undefined> = []
+    driver.start = () => new Promise(() => {})
+    driver.stop = async (req) => {
+      stopReasons.push(req.reason)
+      return { accepted: true, state: 'exited' }
+    }
+    const broker = createBroker({ drivers: [driver], onEvent: (event) => events.push(event), now })
+
+    await expect(
+      broker.start({ spec: limitSpec('inv_limit_startup', { startupTimeoutMs: 25 }) })
+    ).rejects.toMatchObject({ code: BrokerErrorCode.Timeout })
+
+    const failures = events.filter((event) => event.type === 'invocation.failed')
+    expect(failures.map((event) => event.payload)).toEqual([
+      {
+        message: 'Startup exceeded startupTimeoutMs (25ms)',
+        code: 'StartupTimeout',
+        reason: 'startup-timeout',
+      },
+    ])
+    expect(stopReasons).toEqual(['startup-timeout'])
+  })
+
+  test('turnTimeoutMs fails a silent turn, interrupts it, then drains the queue', async () => {
+    const events: InvocationEventEnvelope[] = []
+    const { driver, controller } = createTestDriver()
+    const interrupts: Array<string | undefined> = []
+    const originalInterrupt = driver.interrupt.bind(driver)
+    driver.interrupt = async (req) => {
+      interrupts.push(req.reason)
+      return originalInterrupt(req)
+    }
+    const broker = createBroker({ drivers: [driver], onEvent: (event) => events.push(event), now })
+    const spec = limitSpec('inv_limit_turn', { turnTimeoutMs: 25 })
+    await broker.start({ spec })
+
+    await broker.input({ invocationId: spec.invocationId!, input: limitInput('input_slow') })
+    await broker.input({
+      invocationId: spec.invocationId!,
+      input: limitInput('input_next'),
+      policy: { whenBusy: 'queue' },
+    })
+    await sleep(100)
+
+    const terminals = events.filter((event) => event.type.startsWith('turn.') && event.turnId)
+    expect(terminals.filter((event) => event.type !== 'turn.started')).toEqual([
+      expect.objectContaining({
+        type: 'turn.failed',
+        turnId: 'turn_test_1',
+        inputId: 'input_slow',
+        payload: expect.objectContaining({ code: 'TurnTimeout', reason: 'turn-timeout' }),
+      }),
+      expect.objectContaining({
+        type: 'turn.failed',
+        turnId: 'turn_test_2',
+        payload: expect.objectContaining({ code: 'TurnTimeout', reason: 'turn-timeout' }),
+      }),
+    ])
+    expect(interrupts).toEqual(['turn-timeout', 'turn-timeout'])
+    // The queued input only reached the driver after the timed-out turn was interrupted.
+    expect(controller.inputs.map((input) => input.inputId)).toEqual(['input_slow', 'input_next'])
+
+    await broker.stop({ invocationId: spec.invocationId!, reason: 'test cleanup' })
+  })
+
+  test('a timed-out turn whose interrupt never settles releases the queue after stopGraceMs', async () => {
+    const events: InvocationEventEnvelope[] = []
+    const { driver, controller } = createTestDriver()
+    driver.interrupt = () => new Promise(() => undefined)
+    const broker = createBroker({ drivers: [driver], onEvent: (event) => events.push(event), now })
+    const spec = limitSpec('inv_limit_turn_hung', { turnTimeoutMs: 25, stopGraceMs: 25 })
+    await broker.start({ spec })
+
+    await broker.input({ invocationId: spec.invocationId!, input: limitInput('input_slow') })
+    await broker.input({
+      invocationId: spec.invocationId!,
+      input: limitInput('input_next'),
+      policy: { whenBusy: 'queue' },
+    })
+    await sleep(40)
+    expect(controller.inputs.map((input) => input.inputId)).toEqual(['input_slow'])
+
+    await sleep(40)
+    expect(controller.inputs.map((input) => input.inputId)).toEqual(['input_slow', 'input_next'])
+
+    await broker.stop({ invocationId: spec.invocationId!, reason: 'test cleanup' })
+  })
+
+  test('a turn that completes in time is not failed by the broker', async () => {
+    const events: InvocationEventEnvelope[] = []
+    const { driver, controller } = createTestDriver()
+    const broker = createBroker({ drivers: [driver], onEvent: (event) => events.push(event), now })
+    const spec = limitSpec('inv_limit_turn_ok', { turnTimeoutMs: 25 })
+    await broker.start({ spec })
+
+    await broker.input({ invocationId: spec.invocationId!, input: limitInput('input_fast') })
+    controller.completeActiveTurn()
+    await sleep(50)
+
+    expect(events.filter((event) => event.type === 'turn.failed')).toEqual([])
+    await broker.stop({ invocationId: spec.invocationId!, reason: 'test cleanup' })
+  })
+
+  test('maxRuntimeAgeMs retires the invocation with a single terminal', async () => {
+    const events: InvocationEventEnvelope[] = []
+    const { driver } = createTestDriver()
+    let driverContext: DriverContext | undefined
+    const originalStart = driver.start.bind(driver)
+    driver.start = async (spec, context) => {
+      driverContext = context
+      return originalStart(spec, context)
+    }
+    const stopReasons: Array<string | undefined> = []
+    driver.stop = async (req) => {
+      stopReasons.push(req.reason)
+      // The child exiting afterwards must not read as a second terminal.
+      driverContext?.emit('invocation.exited', { exitCode: 143 })
+      return { accepted: true, state: 'exited' }
+    }
+    const broker = createBroker({ drivers: [driver], onEvent: (event) => events.push(event), now })
+    const spec = limitSpec('inv_limit_age', { maxRuntimeAgeMs: 40 })
+    await broker.start({ spec })
+
+    await broker.input({ invocationId: spec.invocationId!, input: limitInput('input_busy') })
+    await broker.input({
+      invocationId: spec.invocationId!,
+      input: limitInput('input_queued'),
+      policy: { whenBusy: 'queue' },
+    })
+    await sleep(75)
+
+    expect(
+      events
+        .filter((event) =>
+          ['input.rejected', 'turn.failed', 'invocation.failed', 'invocation.exited'].includes(
+            event.type
+          )
+        )
+        .map((event) => [event.type, event.payload])
+    ).toEqual([
+      ['input.rejected', { inputId: 'input_queued', reason: 'invocation_terminated' }],
+      [
+        'turn.failed',
+        expect.objectContaining({ code: 'RuntimeAgeExceeded', reason: 'max-runtime-age' }),
+      ],
+      [
+        'invocation.failed',
+        {
+          message: 'Invocation exceeded maxRuntimeAgeMs (40ms)',
+          code: 'RuntimeAgeExceeded',
+          reason: 'max-runtime-age',
+        },
+      ],
+    ])
+    expect(stopReasons).toEqual(['max-runtime-age'])
+    await expect(broker.status({ invocationId: spec.invocationId! })).resolves.toMatchObject({
+      state: 'failed',
+    })
+    await expect(broker.dispose({ invocationId: spec.invocationId! })).resolves.toEqual({
+      disposed: true,
+    })
+  })
+})
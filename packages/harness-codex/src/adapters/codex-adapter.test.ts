@@ -412,6 +412,250 @@ exit 1
       })
     })
 
+    test('merges space hooks.toml with the HRC capture group and trusts them', async () => {
+      await mkdir(join(artifact1Dir, 'hooks'), { recursive: true })
+      await writeFile(
+        join(artifact1Dir, 'hooks', 'hooks.toml'),
+        `[[hook]]
+event = "pre_tool_use"
+script = "hooks/guard.sh"
+tools = ["Bash"]
+
+[[hook]]
+event = "stop"
+script = "hooks/stop-guard.sh"
+
+[[hook]]
+event = "session_end"
+script = "hooks/bye.sh"
+`
+      )
+      await writeFile(join(artifact1Dir, 'hooks', 'guard.sh'), '#!/bin/sh\nexit 0\n')
+      await chmod(join(artifact1Dir, 'hooks', 'guard.sh'), 0o755)
+      await writeFile(join(artifact1Dir, 'hooks', 'stop-guard.sh'), '#!/bin/sh\nexit 0\n')
+
+      const result = await adapter.composeTarget(
+        {
+          targetName: 'test-target',
+          compose: [],
+          roots: [],
+          loadOrder: [],
+          artifacts: [
+            {
+              spaceKey: 'space1@abc' as SpaceKey,
+              spaceId: 'space1',
+              artifactPath: artifact1Dir,
+              pluginName: 'space1',
+              pluginVersion: '1.0.0',
+            },
+          ],
+          settingsInputs: [],
+        },
+        outputDir,
+        { clean: true }
+      )
+      const codexHome = join(outputDir, 'codex.home')
+
+      const hooks = JSON.parse(await readFile(join(codexHome, 'hooks.json'), 'utf-8')) as {
+        hooks: Record<string, Array<{ matcher?: string; hooks: Array<{ command: string }> }>>
+      }
+      expect(hooks.hooks['Stop']).toHaveLength(2)
+      expect(hooks.hooks['Stop']?.[0]?.hooks[0]?.command).toContain('HRC_LAUNCH_HOOK_CLI')
+      expect(hooks.hooks['Stop']?.[1]?.hooks[0]?.command).toBe(
+        '"$CODEX_HOME/hooks/space1/stop-guard.sh"'
+      )
+      expect(hooks.hooks['PreToolUse']).toEqual([
+        {
+          matcher: 'Bash',
+          hooks: [{ type: 'command', command: '"$CODEX_HOME/hooks/space1/guard.sh"' }],
+        },
+      ])
+      expect(await readFile(join(codexHome, 'hooks', 'space1', 'guard.sh'), 'utf-8')).toContain(
+        'exit 0'
+      )
+
+      const parsed = TOML.parse(await readFile(join(codexHome, 'config.toml'), 'utf-8')) as {
+        hooks: { state: Record<string, unknown> }
+      }
+      const hooksPath = join(codexHome, 'hooks.json')
+      expect(Object.keys(parsed.hooks.state).sort()).toEqual([
+        `${hooksPath}:pre_tool_use:0:0`,
+        `${hooksPath}:stop:0:0`,
+        `${hooksPath}:stop:1:0`,
+      ])
+
+      expect(result.warnings).toContainEqual(
+        expect.objectContaining({
+          code: 'W311',
+          details: { spaceId: 'space1', event: 'session_end', script: 'hooks/bye.sh' },
+        })
+      )
+    })
+
+    test('keeps raw hook commands and copies plugin-root scripts', async () => {
+      await mkdir(join(artifact1Dir, 'hooks'), { recursive: true })
+      await mkdir(join(artifact1Dir, 'scripts'), { recursive: true })
+      await writeFile(
+        join(artifact1Dir, 'hooks', 'hooks.json'),
+        JSON.stringify({
+          hooks: [
+            {
+              event: 'PreToolUse',
+              script: '${CLAUDE_PLUGIN_ROOT}/scripts/guard.sh',
+              tools: ['Bash'],
+            },
+            { event: 'Stop', script: 'bun run lint --fix' },
+            { event: 'Stop', script: 'notify-send' },
+          ],
+        })
+      )
+      await writeFile(join(artifact1Dir, 'scripts', 'guard.sh'), '#!/bin/sh\nexit 0\n')
+
+      const result = await adapter.composeTarget(
+        {
+          targetName: 'test-target',
+          compose: [],
+          roots: [],
+          loadOrder: [],
+          artifacts: [
+            {
+              spaceKey: 'space1@abc' as SpaceKey,
+              spaceId: 'space1',
+              artifactPath: artifact1Dir,
+              pluginName: 'space1',
+              pluginVersion: '1.0.0',
+            },
+          ],
+          settingsInputs: [],
+        },
+        outputDir,
+        { clean: true }
+      )
+      const codexHome = join(outputDir, 'codex.home')
+
+      const hooks = JSON.parse(await readFile(join(codexHome, 'hooks.json'), 'utf-8')) as {
+        hooks: Record<string, Array<{ matcher?: string; hooks: Array<{ command: string }> }>>
+      }
+      expect(hooks.hooks['PreToolUse']?.[0]?.hooks[0]?.command).toBe(
+        '"$CODEX_HOME/scripts/space1/guard.sh"'
+      )
+      expect(hooks.hooks['Stop']?.[1]?.hooks.map((h) => h.command)).toEqual([
+        'bun run lint --fix',
+        'notify-send',
+      ])
+      expect(await readFile(join(codexHome, 'scripts', 'space1', 'guard.sh'), 'utf-8')).toContain(
+        'exit 0'
+      )
+      expect(result.warnings.filter((w) => w.code === 'W311')).toEqual([])
+    })
+
+    test('translates permissions.toml into sandbox keys and execpolicy rules', async () => {
+      await writeFile(
+        join(artifact1Dir, 'permissions.toml'),
+        `[read]
+paths = ["."]
+
+[write]
+paths = ["/tmp/scratch/**"]
+
+[exec]
+patterns = ["bun test *"]
+
+[deny]
+exec = ["git push *"]
+`
+      )
+
+      const result = await adapter.composeTarget(
+        {
+          targetName: 'test-target',
+          compose: [],
+          roots: [],
+          loadOrder: [],
+          artifacts: [
+            {
+              spaceKey: 'space1@abc' as SpaceKey,
+              spaceId: 'space1',
+              artifactPath: artifact1Dir,
+              pluginName: 'space1',
+              pluginVersion: '1.0.0',
+            },
+          ],
+          settingsInputs: [],
+        },
+        outputDir,
+        { clean: true }
+      )
+      const codexHome = join(outputDir, 'codex.home')
+
+      const parsed = TOML.parse(await readFile(join(codexHome, 'config.toml'), 'utf-8'))
+      expect(parsed['sandbox_mode']).toBe('workspace-write')
+      expect(parsed['approval_policy']).toBe('on-request')
+      expect(parsed['sandbox_workspace_write']).toEqual({
+        network_access: false,
+        writable_roots: ['/tmp/scratch'],
+      })
+
+      const rules = await readFile(join(codexHome, 'rules', 'asp-permissions.rules'), 'utf-8')
+      expect(rules).toContain('prefix_rule(pattern = ["git","push"], decision = "forbidden")')
+      expect(rules).toContain('prefix_rule(pattern = ["bun","test"], decision = "allow")')
+
+      expect(result.warnings).toContainEqual(
+        expect.objectContaining({ code: 'W312', message: expect.stringContaining(': read') })
+      )
+    })
+
+    test('translates remote MCP servers and warns about ones Codex cannot run', async () => {
+      await writeFile(
+        join(artifact1Dir, 'mcp', 'mcp.json'),
+        JSON.stringify({
+          mcpServers: {
+            team: {
+              type: 'http',
+              url: 'http://localhost:8931/mcp',
+              headers: { Authorization: 'Bearer ${TEAM_MCP_TOKEN}', 'X-Team': '${TEAM_ID}' },
+            },
+            legacy: { type: 'sse', url: 'http://localhost:8932/sse' },
+          },
+        })
+      )
+      const input = {
+        targetName: 'test-target',
+        compose: [],
+        roots: [],
+        loadOrder: [],
+        artifacts: [
+          {
+            spaceKey: 'space1@abc' as SpaceKey,
+            spaceId: 'space1',
+            artifactPath: artifact1Dir,
+            pluginName: 'space1',
+            pluginVersion: '1.0.0',
+          },
+        ],
+        settingsInputs: [],
+      }
+
+      const result = await adapter.composeTarget(input, outputDir, { clean: true })
+
+      const configRaw = await readFile(join(outputDir, 'codex.home', 'config.toml'), 'utf-8')
+      const parsed = TOML.parse(configRaw) as Record<string, unknown>
+      const mcpServers = parsed['mcp_servers'] as Record<string, Record<string, unknown>>
+      expect(mcpServers['team']).toEqual({
+        url: 'http://localhost:8931/mcp',
+        enabled: true,
+        bearer_token_env_var: 'TEAM_MCP_TOKEN',
+        env_http_headers: { 'X-Team': 'TEAM_ID' },
+      })
+      expect(mcpServers['legacy']).toBeUndefined()
+      expect(result.warnings).toContainEqual(
+        expect.objectContaining({
+          code: 'W313',
+          message: expect.stringContaining("'legacy' will not be available in Codex"),
+        })
+      )
+    })
+
     test('pins the default codex model when the target does not specify one', async () => {
       const input = {
         targetName: 'test-target',
@@ -21,7 +21,7 @@ import {
   writeFile,
 } from 'node:fs/promises'
 import { homedir } from 'node:os'
-import { join } from 'node:path'
+import { dirname, join } from 'node:path'
 import TOML from '@iarna/toml'
 import type {
   ComposeTargetInput,
@@ -40,16 +40,35 @@ import type {
   ProjectManifest,
 } from 'spaces-config'
 import {
+  CODEX_EXEC_RULES_PATH,
+  type CodexHookScriptResolver,
+  type CodexPermissions,
   type McpConfig,
+  PERMISSIONS_TOML_FILENAME,
+  WARNING_CODES,
+  buildCodexExecRules,
   composeMcpFromSpaces,
   copyDir,
   getEffectiveCodexOptions,
+  hasPermissions,
   linkOrCopy,
+  listUnsupportedCodexHooks,
+  readHooksWithPrecedence,
+  readPermissionsToml,
+  renderCodexExecRules,
+  toCodexConfigPermissions,
+  toCodexHooksConfig,
+  toCodexPermissions,
+  validateMcpServerConfig,
 } from 'spaces-config'
 import { createCanonicalHasher } from 'spaces-runtime-contracts'
 import { errorMessage } from '../errors.js'
 import { CODEX_AGENTS_FILE, buildAgentsMarkdown } from './codex-agents.js'
-import { DEFAULT_CODEX_CLI_MODEL, buildCodexConfig } from './codex-config.js'
+import {
+  DEFAULT_CODEX_CLI_MODEL,
+  buildCodexConfig,
+  listUnsupportedCodexMcpServers,
+} from './codex-config.js'
 import {
   CODEX_PATH_ENV,
   type CommandResult,
@@ -57,7 +76,11 @@ import {
   isVersionAtLeast,
   runCommand,
 } from './codex-discovery.js'
-import { addCodexHookTrustState, buildHrcCodexHooksConfig } from './codex-hooks.js'
+import {
+  addCodexHookTrustState,
+  buildHrcCodexHooksConfig,
+  mergeCodexHooksConfigs,
+} from './codex-hooks.js'
 
 export { DEFAULT_CODEX_CLI_MODEL } from './codex-config.js'
 export {
@@ -65,6 +88,7 @@ export {
   addCodexHookTrustState,
   buildCodexHookTrustState,
   buildHrcCodexHooksConfig,
+  mergeCodexHooksConfigs,
   trustCodexHooksInConfigToml,
 } from './codex-hooks.js'
 export {
@@ -79,6 +103,9 @@ const MIN_CODEX_VERSION = '0.124.0'
 const CODEX_HOME_DIRNAME = 'codex.home'
 const CODEX_CONFIG_FILE = 'config.toml'
 const CODEX_HOOKS_FILE = 'hooks.json'
+const CODEX_HOOKS_DIR = 'hooks'
+/** Plugin-root `scripts/` dir, referenced by hooks as `${CLAUDE_PLUGIN_ROOT}/scripts/…`. */
+const CODEX_SCRIPTS_DIR = 'scripts'
 const CODEX_PROMPTS_DIR = 'prompts'
 const CODEX_SKILLS_DIR = 'skills'
 
@@ -145,6 +172,14 @@ async function isDirectory(path: string): Promise<boolean> {
   }
 }
 
+function isFileSync(path: string): boolean {
+  try {
+    return statSync(path).isFile()
+  } catch {
+    return false
+  }
+}
+
 function isDirectorySync(path: string): boolean {
   try {
     const stats = statSync(path)
@@ -270,6 +305,142 @@ async function probeCodexCandidate(
   }
 }
 
+/**
+ * Locate a space's hook scripts the way the Pi hook bridge does: a path is
+ * rebased only when the file exists under the space's `hooks/` (or its
+ * `hooks/scripts/`), and `scripts/…` also reaches the plugin-root `scripts/`
+ * dir. Bare names that match no file are commands; other paths must exist.
+ */
+function codexHookScriptResolver(artifactPath: string, spaceId: string): CodexHookScriptResolver {
+  const srcHooksDir = join(artifactPath, CODEX_HOOKS_DIR)
+  const hooksRoot = `$CODEX_HOME/${CODEX_HOOKS_DIR}/${spaceId}`
+  return (script) => {
+    if (isFileSync(join(srcHooksDir, script))) {
+      return `${hooksRoot}/${script}`
+    }
+    if (!script.startsWith(`${CODEX_SCRIPTS_DIR}/`)) {
+      if (isFileSync(join(srcHooksDir, CODEX_SCRIPTS_DIR, script))) {
+        return `${hooksRoot}/${CODEX_SCRIPTS_DIR}/${script}`
+      }
+    } else if (isFileSync(join(artifactPath, script))) {
+      return `$CODEX_HOME/${CODEX_SCRIPTS_DIR}/${spaceId}/${script.slice(CODEX_SCRIPTS_DIR.length + 1)}`
+    }
+    if (!script.includes('/') && !script.includes('\\')) {
+      return undefined
+    }
+    throw new Error(`Hook script not found: "${script}" in space "${spaceId}"`)
+  }
+}
+
+/**
+ * Copy each artifact's hook scripts to `codex.home/hooks/<spaceId>` (and its
+ * plugin-root scripts to `codex.home/scripts/<spaceId>`) and translate its
+ * hooks.toml/hooks.json into Codex hook groups. Commands address scripts
+ * through `$CODEX_HOME` so a copied home template keeps working.
+ * Events Codex has no equivalent for are reported as W311 warnings.
+ */
+async function composeSpaceHooks(
+  input: ComposeTargetInput,
+  codexHome: string,
+  warnings: LockWarning[]
+): Promise<Array<Record<string, unknown>>> {
+  const configs: Array<Record<string, unknown>> = []
+  const hooksRoot = join(codexHome, CODEX_HOOKS_DIR)
+  const scriptsRoot = join(codexHome, CODEX_SCRIPTS_DIR)
+  await rm(hooksRoot, { recursive: true, force: true })
+  await rm(scriptsRoot, { recursive: true, force: true })
+
+  for (const artifact of input.artifacts) {
+    const srcHooksDir = join(artifact.artifactPath, CODEX_HOOKS_DIR)
+    if (!(await isDirectory(srcHooksDir))) continue
+
+    const { hooks } = await readHooksWithPrecedence(srcHooksDir)
+    for (const hook of listUnsupportedCodexHooks(hooks)) {
+      warnings.push({
+        code: WARNING_CODES.CODEX_HOOK_UNSUPPORTED_EVENT,
+        message: `Space "${artifact.spaceId}" declares hook '${hook.event}' (${hook.script}) but Codex has no equivalent event; it will not run`,
+        details: { spaceId: artifact.spaceId, event: hook.event, script: hook.script },
+      })
+    }
+
+    const spaceConfig = toCodexHooksConfig(
+      hooks,
+      `$CODEX_HOME/${CODEX_HOOKS_DIR}/${artifact.spaceId}`,
+      codexHookScriptResolver(artifact.artifactPath, artifact.spaceId)
+    )
+    if (Object.keys(spaceConfig.hooks).length === 0) continue
+
+    await copyDir(srcHooksDir, join(hooksRoot, artifact.spaceId), { useHardlinks: true })
+    const srcScriptsDir = join(artifact.artifactPath, CODEX_SCRIPTS_DIR)
+    if (await isDirectory(srcScriptsDir)) {
+      await copyDir(srcScriptsDir, join(scriptsRoot, artifact.spaceId), { useHardlinks: true })
+    }
+    configs.push({ hooks: spaceConfig.hooks })
+  }
+
+  return configs
+}
+
+/** Facets whose Codex translation can only be linted, reported as W312. */
+const LINT_ONLY_PERMISSION_FACETS: Array<{
+  name: string
+  read: (perms: CodexPermissions) => { enforcement: string; value: string[] } | undefined
+}> = [
+  { name: 'read', read: (p) => p.read },
+  { name: 'exec', read: (p) => p.exec },
+  { name: 'deny.read', read: (p) => p.deny?.read },
+  { name: 'deny.write', read: (p) => p.deny?.write },
+  { name: 'deny.exec', read: (p) => p.deny?.exec },
+  { name: 'deny.network', read: (p) => p.deny?.network },
+]
+
+/**
+ * Translate each artifact's permissions.toml into config.toml sandbox keys and
+ * `codex.home/rules` execpolicy prefix rules. Returns the config override list
+ * (empty when no space declares permissions) and warns (W312) per space about
+ * facets Codex cannot enforce.
+ */
+async function composeSpacePermissions(
+  input: ComposeTargetInput,
+  codexHome: string,
+  warnings: LockWarning[]
+): Promise<Array<Record<string, unknown>>> {
+  const rulesPath = join(codexHome, CODEX_EXEC_RULES_PATH)
+  await rm(rulesPath, { force: true })
+
+  const translated: CodexPermissions[] = []
+  for (const artifact of input.artifacts) {
+    const permissions = await readPermissionsToml(artifact.artifactPath)
+    if (!permissions || !hasPermissions(permissions)) continue
+
+    const codexPerms = toCodexPermissions(permissions)
+    translated.push(codexPerms)
+
+    const lintOnlyFacets = LINT_ONLY_PERMISSION_FACETS.filter(({ read }) => {
+      const facet = read(codexPerms)
+      return facet?.enforcement === 'lint_only' && facet.value.length > 0
+    }).map(({ name }) => name)
+    if (lintOnlyFacets.length > 0) {
+      warnings.push({
+        code: WARNING_CODES.CODEX_PERMISSION_LINT_ONLY,
+        message: `Space "${artifact.spaceId}" has permissions.toml with facets that Codex cannot enforce (lint-only): ${lintOnlyFacets.join(', ')}`,
+      })
+    }
+  }
+
+  if (translated.length === 0) {
+    return []
+  }
+
+  const rules = buildCodexExecRules(translated)
+  if (rules.length > 0) {
+    await mkdir(dirname(rulesPath), { recursive: true })
+    await writeFile(rulesPath, renderCodexExecRules(rules))
+  }
+
+  return [{ ...toCodexConfigPermissions(translated) }]
+}
+
 function appendDefaultFeatureFlags(args: string[], options: HarnessRunOptions): void {
   for (const feature of options.featureFlags ?? DEFAULT_CODEX_ENABLED_FEATURES) {
     args.push('--enable', feature)
@@ -431,12 +602,10 @@ export class CodexAdapter implements HarnessAdapter {
           warnings.push('mcp.json is missing mcpServers')
         } else {
           for (const [name, server] of Object.entries(parsed.mcpServers)) {
-            if (!server.command) {
-              warnings.push(`MCP server "${name}" missing command`)
-            }
-            if (server.type !== 'stdio') {
-              warnings.push(`MCP server "${name}" has unsupported type "${server.type}"`)
-            }
+            warnings.push(...validateMcpServerConfig(name, server))
+          }
+          for (const { name, reason } of listUnsupportedCodexMcpServers(parsed)) {
+            warnings.push(`MCP server "${name}" is not supported by Codex: ${reason}`)
           }
         }
       } catch (error) {
@@ -516,6 +685,31 @@ export class CodexAdapter implements HarnessAdapter {
         files.push('mcp/mcp.json')
       }
 
+      const srcHooksDir = join(input.snapshotPath, CODEX_HOOKS_DIR)
+      if (await isDirectory(srcHooksDir)) {
+        await copyDir(srcHooksDir, join(cacheDir, CODEX_HOOKS_DIR), { useHardlinks })
+        files.push(CODEX_HOOKS_DIR)
+      }
+
+      // Hooks may run plugin-root scripts (`${CLAUDE_PLUGIN_ROOT}/scripts/…`).
+      const srcScriptsDir = join(input.snapshotPath, CODEX_SCRIPTS_DIR)
+      if ((await isDirectory(srcHooksDir)) && (await isDirectory(srcScriptsDir))) {
+        await copyDir(srcScriptsDir, join(cacheDir, CODEX_SCRIPTS_DIR), { useHardlinks })
+        files.push(CODEX_SCRIPTS_DIR)
+      }
+
+      // Copy permissions.toml if present (for composition to read later)
+      const permsSrc = join(input.snapshotPath, PERMISSIONS_TOML_FILENAME)
+      if (await fileExists(permsSrc)) {
+        const permsDest = join(cacheDir, PERMISSIONS_TOML_FILENAME)
+        if (useHardlinks) {
+          await linkOrCopy(permsSrc, permsDest)
+        } else {
+          await writeFile(permsDest, await readFile(permsSrc))
+        }
+        files.push(PERMISSIONS_TOML_FILENAME)
+      }
+
       const instructions = await readInstructionsFromSpace(input.snapshotPath)
       if (instructions) {
         const destPath = join(cacheDir, SPACE_INSTRUCTIONS_FILE)
@@ -566,7 +760,13 @@ export class CodexAdapter implements HarnessAdapter {
 
     const instructionsBlocks: Array<{ spaceId: string; version: string; content: string }> = []
     const instructionsHashes: Array<{ spaceId: string; version: string; hash: string }> = []
-    const codexOverrides: Array<Record<string, unknown>> = []
+    // permissions.toml sandbox keys go first so codex.config.json and target
+    // options can still override them.
+    const codexOverrides: Array<Record<string, unknown>> = await composeSpacePermissions(
+      input,
+      codexHome,
+      warnings
+    )
     const mergedSkills = new Set<string>()
     const mergedPrompts = new Set<string>()
 
@@ -652,9 +852,17 @@ export class CodexAdapter implements HarnessAdapter {
     for (const warning of mcpWarnings) {
       warnings.push({ code: 'W_MCP', message: warning })
     }
+    for (const { name, reason } of listUnsupportedCodexMcpServers(mcpConfig)) {
+      warnings.push({
+        code: WARNING_CODES.CODEX_MCP_UNSUPPORTED_SERVER,
+        message: `MCP server '${name}' will not be available in Codex: ${reason}`,
+        details: { server: name, reason },
+      })
+    }
 
     const hooksPath = join(codexHome, CODEX_HOOKS_FILE)
-    const hooksConfig = buildHrcCodexHooksConfig()
+    const spaceHooksConfigs = await composeSpaceHooks(input, codexHome, warnings)
+    const hooksConfig = mergeCodexHooksConfigs(buildHrcCodexHooksConfig(), ...spaceHooksConfigs)
     const config = addCodexHookTrustState(
       buildCodexConfig(mcpConfig, codexOverrides),
       hooksPath,
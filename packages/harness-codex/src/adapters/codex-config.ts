@@ -2,7 +2,7 @@
  * Codex config.toml assembly: dotted-key override merging and base-config
  * construction (model defaults, MCP servers, status line, hooks feature flag).
  */
-import type { McpConfig } from 'spaces-config'
+import type { McpConfig, McpServerConfig } from 'spaces-config'
 
 const DEFAULT_SANDBOX_MODE = 'workspace-write'
 const DEFAULT_APPROVAL_POLICY = 'on-request'
@@ -58,6 +58,80 @@ function ensureHooksFeature(config: Record<string, unknown>): Record<string, unk
   }
 }
 
+const EXACT_ENV_REFERENCE = /^\$\{([A-Za-z_][A-Za-z0-9_]*)\}$/
+const BEARER_ENV_REFERENCE = /^Bearer \$\{([A-Za-z_][A-Za-z0-9_]*)\}$/
+
+/**
+ * Translate one composed MCP server into a Codex `mcp_servers` entry.
+ *
+ * Codex speaks stdio and streamable HTTP only, and reads header secrets by
+ * env-var name rather than interpolating `${VAR}`: a header whose value is
+ * exactly `${VAR}` maps to `env_http_headers`, `Authorization: Bearer ${VAR}`
+ * maps to `bearer_token_env_var`, and anything else cannot be expressed.
+ */
+function toCodexMcpServer(
+  server: McpServerConfig
+): { entry: Record<string, unknown> } | { reason: string } {
+  if (server.type === 'sse') {
+    return { reason: 'Codex does not support SSE MCP servers' }
+  }
+
+  if (server.type === 'http') {
+    const url = server.url ?? ''
+    if (url.includes('${')) {
+      return { reason: 'Codex does not interpolate environment variables in MCP server URLs' }
+    }
+    const entry: Record<string, unknown> = { url, enabled: true }
+    const envHeaders: Record<string, string> = {}
+    for (const [header, value] of Object.entries(server.headers ?? {})) {
+      const bearer = header.toLowerCase() === 'authorization' && BEARER_ENV_REFERENCE.exec(value)
+      if (bearer) {
+        entry['bearer_token_env_var'] = bearer[1]
+        continue
+      }
+      const exact = EXACT_ENV_REFERENCE.exec(value)
+      if (!exact) {
+        return {
+          reason: `header '${header}' must be exactly \${VAR} (or "Bearer \${VAR}" for Authorization) for Codex`,
+        }
+      }
+      envHeaders[header] = exact[1] as string
+    }
+    if (Object.keys(envHeaders).length > 0) {
+      entry['env_http_headers'] = envHeaders
+    }
+    return { entry }
+  }
+
+  const entry: Record<string, unknown> = {
+    command: server.command,
+    enabled: true,
+  }
+  if (server.args && server.args.length > 0) {
+    entry['args'] = server.args
+  }
+  if (server.env && Object.keys(server.env).length > 0) {
+    entry['env'] = server.env
+  }
+  return { entry }
+}
+
+/**
+ * MCP servers `buildCodexConfig` leaves out of `mcp_servers`, with the reason.
+ */
+export function listUnsupportedCodexMcpServers(
+  mcpConfig: McpConfig
+): Array<{ name: string; reason: string }> {
+  const unsupported: Array<{ name: string; reason: string }> = []
+  for (const [name, server] of Object.entries(mcpConfig.mcpServers)) {
+    const translated = toCodexMcpServer(server)
+    if ('reason' in translated) {
+      unsupported.push({ name, reason: translated.reason })
+    }
+  }
+  return unsupported
+}
+
 export function buildCodexConfig(
   mcpConfig: McpConfig,
   overrides: Array<Record<string, unknown>>
@@ -74,21 +148,14 @@ export function buildCodexConfig(
     },
   }
 
-  if (Object.keys(mcpConfig.mcpServers).length > 0) {
-    const mcpServers: Record<string, unknown> = {}
-    for (const [name, server] of Object.entries(mcpConfig.mcpServers)) {
-      const entry: Record<string, unknown> = {
-        command: server.command,
-        enabled: true,
-      }
-      if (server.args && server.args.length > 0) {
-        entry['args'] = server.args
-      }
-      if (server.env && Object.keys(server.env).length > 0) {
-        entry['env'] = server.env
-      }
-      mcpServers[name] = entry
+  const mcpServers: Record<string, unknown> = {}
+  for (const [name, server] of Object.entries(mcpConfig.mcpServers)) {
+    const translated = toCodexMcpServer(server)
+    if ('entry' in translated) {
+      mcpServers[name] = translated.entry
     }
+  }
+  if (Object.keys(mcpServers).length > 0) {
     base['mcp_servers'] = mcpServers
   }
 
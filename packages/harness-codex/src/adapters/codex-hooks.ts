@@ -1,6 +1,7 @@
 /**
- * Codex hooks: HRC hooks.json construction, deterministic hook-trust hashing,
- * and the helpers that seed/refresh a config.toml's hook-trust store.
+ * Codex hooks: HRC hooks.json construction, composition with space-declared
+ * hooks, deterministic hook-trust hashing, and the helpers that seed/refresh a
+ * config.toml's hook-trust store.
  */
 import { realpathSync } from 'node:fs'
 import { resolve } from 'node:path'
@@ -73,6 +74,25 @@ export function buildHrcCodexHooksConfig(
   return { hooks }
 }
 
+/**
+ * Merge Codex hooks.json configs event by event. Groups keep their source
+ * order, so the HRC capture group passed first stays at group index 0 (the
+ * position its trust-state key has always used) and space hooks follow.
+ */
+export function mergeCodexHooksConfigs(
+  ...configs: Array<Record<string, unknown>>
+): Record<string, unknown> {
+  const hooks: Record<string, unknown[]> = {}
+  for (const config of configs) {
+    const root = isRecord(config['hooks']) ? config['hooks'] : {}
+    for (const [eventName, groups] of Object.entries(root)) {
+      if (!Array.isArray(groups) || groups.length === 0) continue
+      hooks[eventName] = [...(hooks[eventName] ?? []), ...groups]
+    }
+  }
+  return { hooks }
+}
+
 function isRecord(value: unknown): value is Record<string, unknown> {
   return Boolean(value && typeof value === 'object' && !Array.isArray(value))
 }
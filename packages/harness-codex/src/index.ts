@@ -5,6 +5,7 @@ export {
   addCodexHookTrustState,
   buildHrcCodexHooksConfig,
   buildCodexHookTrustState,
+  mergeCodexHooksConfigs,
   codexAdapter,
   applyPraesidiumContextToCodexHome,
   renderPraesidiumContextBlock,
@@ -84,6 +84,101 @@ describe('PiSdkAdapter', () => {
     ])
   })
 
+  test('composeTarget warns on hooks Pi cannot block or has no event for', async () => {
+    const artifact = join(tmpDir, 'artifact-hooks')
+    await mkdir(join(artifact, 'hooks'), { recursive: true })
+    await writeFile(
+      join(artifact, 'hooks', 'hooks.toml'),
+      [
+        '[[hook]]',
+        'event = "user_prompt_submit"',
+        'script = "echo prompt"',
+        'blocking = true',
+        '',
+        '[[hook]]',
+        'event = "stop"',
+        'script = "echo stop"',
+        'blocking = true',
+        '',
+        '[[hook]]',
+        'event = "subagent_stop"',
+        'script = "echo subagent"',
+        '',
+      ].join('\n')
+    )
+
+    const result = await adapter.composeTarget(
+      {
+        targetName: 'dev',
+        compose: [],
+        roots: [],
+        loadOrder: [],
+        artifacts: [
+          {
+            spaceKey: 'space-h@dev',
+            spaceId: 'space-h',
+            artifactPath: artifact,
+            pluginName: 'space-h',
+            pluginVersion: '1.0.0',
+          },
+        ],
+        settingsInputs: [{}],
+      },
+      join(tmpDir, 'output'),
+      { clean: true }
+    )
+
+    expect(result.warnings.map((w) => [w.code, w.details?.['event']])).toEqual([
+      ['W301', 'stop'],
+      ['W306', 'subagent_stop'],
+    ])
+  })
+
+  test('composeTarget writes abstract event names for PascalCase hooks.json hooks', async () => {
+    const artifact = join(tmpDir, 'artifact-json-hooks')
+    await mkdir(join(artifact, 'hooks'), { recursive: true })
+    await writeFile(
+      join(artifact, 'hooks', 'hooks.json'),
+      JSON.stringify({
+        hooks: [
+          { event: 'PreToolUse', script: 'echo guard', tools: ['Bash'], blocking: true },
+          { event: 'Stop', script: 'echo stop' },
+        ],
+      })
+    )
+
+    const outputDir = join(tmpDir, 'output')
+    const result = await adapter.composeTarget(
+      {
+        targetName: 'dev',
+        compose: [],
+        roots: [],
+        loadOrder: [],
+        artifacts: [
+          {
+            spaceKey: 'space-j@dev',
+            spaceId: 'space-j',
+            artifactPath: artifact,
+            pluginName: 'space-j',
+            pluginVersion: '1.0.0',
+          },
+        ],
+        settingsInputs: [{}],
+      },
+      outputDir,
+      { clean: true }
+    )
+
+    const manifest = JSON.parse(await readFile(join(outputDir, 'bundle.json'), 'utf-8')) as {
+      hooks: Array<{ event: string; script: string }>
+    }
+    expect(manifest.hooks.map((hook) => [hook.event, hook.script])).toEqual([
+      ['pre_tool_use', 'echo guard'],
+      ['stop', 'echo stop'],
+    ])
+    expect(result.warnings).toEqual([])
+  })
+
   describe('buildRunArgs', () => {
     test('uses default model openai-codex/gpt-5.5 when no model specified', async () => {
       const outputDir = join(tmpDir, 'output')
@@ -35,6 +35,10 @@ import {
 import {
   INSTRUCTIONS_FILE_AGNOSTIC,
   INSTRUCTIONS_FILE_CLAUDE,
+  WARNING_CODES,
+  canonicalHookEvent,
+  listUnblockablePiHooks,
+  listUnsupportedPiHooks,
   readHooksWithPrecedence,
 } from 'spaces-config'
 import type {
@@ -451,7 +455,7 @@ export class PiSdkAdapter implements HarnessAdapter {
     for (const artifact of input.artifacts) {
       await this.mergeArtifactExtensions(artifact, extensionsDir, extensions)
       await this.mergeArtifactSkills(artifact, skillsDir)
-      await this.mergeArtifactHooks(artifact, hooksDir, hooks)
+      await this.mergeArtifactHooks(artifact, hooksDir, hooks, warnings)
       await this.mergeArtifactContext(artifact, contextDir, contextFiles)
     }
 
@@ -533,7 +537,8 @@ export class PiSdkAdapter implements HarnessAdapter {
   private async mergeArtifactHooks(
     artifact: ComposeTargetInput['artifacts'][number],
     hooksDir: string,
-    hooks: PiSdkBundleHookEntry[]
+    hooks: PiSdkBundleHookEntry[],
+    warnings: LockWarning[]
   ): Promise<void> {
     const srcHooksDir = join(artifact.artifactPath, 'hooks')
     if (!(await isDirectory(srcHooksDir))) {
@@ -547,6 +552,22 @@ export class PiSdkAdapter implements HarnessAdapter {
       (hook) => !hook.harness || hook.harness === 'pi-sdk'
     )
 
+    // Same translation limits as the Pi hook bridge (W301/W306).
+    for (const hook of listUnblockablePiHooks(filteredHooks)) {
+      warnings.push({
+        code: WARNING_CODES.PI_HOOK_CANNOT_BLOCK,
+        message: `Space "${artifact.spaceId}" hook '${hook.event}' marked blocking=true but Pi cannot block this event`,
+        details: { spaceId: artifact.spaceId, event: hook.event, script: hook.script },
+      })
+    }
+    for (const hook of listUnsupportedPiHooks(filteredHooks)) {
+      warnings.push({
+        code: WARNING_CODES.PI_HOOK_UNSUPPORTED_EVENT,
+        message: `Space "${artifact.spaceId}" declares hook '${hook.event}' (${hook.script}) but Pi has no equivalent event; it will not run`,
+        details: { spaceId: artifact.spaceId, event: hook.event, script: hook.script },
+      })
+    }
+
     for (const hook of filteredHooks) {
       const resolvedScript = await resolveHookScriptRelative(hook.script, srcHooksDir)
       let scriptPath = resolvedScript
@@ -555,8 +576,9 @@ export class PiSdkAdapter implements HarnessAdapter {
         scriptPath = normalizeBundlePath(join('hooks', artifact.spaceId, resolvedScript))
       }
 
+      // The runtime matches abstract names; simple-array hooks.json passes PascalCase through.
       hooks.push({
-        event: hook.event,
+        event: canonicalHookEvent(hook.event),
         script: scriptPath,
         tools: hook.tools,
         blocking: hook.blocking,
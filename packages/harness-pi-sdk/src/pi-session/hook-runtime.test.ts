@@ -0,0 +1,87 @@
+import { describe, expect, test } from 'bun:test'
+import { tmpdir } from 'node:os'
+
+import type { PiSdkBundleHookEntry } from './bundle-manifest-types.js'
+import { PI_LIFECYCLE_EVENT, buildHookExtension } from './hook-runtime.js'
+
+type Handler = (event: Record<string, unknown>, ctx: unknown) => Promise<unknown>
+
+function register(hooks: PiSdkBundleHookEntry[], yolo = false) {
+  const handlers = new Map<string, Handler>()
+  const messages: unknown[] = []
+  buildHookExtension({
+    hooks,
+    bundleRoot: tmpdir(),
+    targetName: 'test-target',
+    spaceIds: ['space-a'],
+    yolo,
+    cwd: tmpdir(),
+  })({
+    on: (event, handler) => handlers.set(event, handler as unknown as Handler),
+    sendMessage: (message) => void messages.push(message),
+  })
+  const fire = (event: string, payload: Record<string, unknown> = {}) => {
+    const handler = handlers.get(event)
+    if (!handler) throw new Error(`no handler for ${event}`)
+    return handler(payload, undefined)
+  }
+  return { handlers, messages, fire }
+}
+
+// Raw shell commands (they contain whitespace) run as-is without a script file.
+const FAIL = 'exit 3'
+const PASS = 'echo ran'
+
+describe('buildHookExtension', () => {
+  test('registers a Pi handler for every abstract event Pi has an equivalent for', () => {
+    const { handlers } = register([{ event: 'stop', script: PASS }])
+    expect([...handlers.keys()].sort()).toEqual(
+      [
+        PI_LIFECYCLE_EVENT.TOOL_CALL,
+        PI_LIFECYCLE_EVENT.TOOL_RESULT,
+        PI_LIFECYCLE_EVENT.INPUT,
+        PI_LIFECYCLE_EVENT.AGENT_END,
+        PI_LIFECYCLE_EVENT.SESSION_START,
+        PI_LIFECYCLE_EVENT.SESSION_BEFORE_COMPACT,
+        PI_LIFECYCLE_EVENT.SESSION_SHUTDOWN,
+      ].sort()
+    )
+  })
+
+  test('blocking prompt and compaction hooks veto on a non-zero exit', async () => {
+    const { fire } = register([
+      { event: 'user_prompt_submit', script: FAIL, blocking: true },
+      { event: 'pre_compact', script: FAIL, blocking: true },
+    ])
+    expect(await fire(PI_LIFECYCLE_EVENT.INPUT, { text: 'hi' })).toEqual({ action: 'handled' })
+    expect(await fire(PI_LIFECYCLE_EVENT.SESSION_BEFORE_COMPACT)).toEqual({ cancel: true })
+  })
+
+  test('non-blocking hooks and yolo mode never veto', async () => {
+    expect(
+      await register([{ event: 'user_prompt_submit', script: FAIL }]).fire(
+        PI_LIFECYCLE_EVENT.INPUT,
+        { text: 'hi' }
+      )
+    ).toBeUndefined()
+    expect(
+      await register([{ event: 'pre_compact', script: FAIL, blocking: true }], true).fire(
+        PI_LIFECYCLE_EVENT.SESSION_BEFORE_COMPACT
+      )
+    ).toBeUndefined()
+  })
+
+  test('stop runs on agent_end and post_tool_use_failure only on error results', async () => {
+    const { fire, messages } = register([
+      { event: 'stop', script: PASS },
+      { event: 'post_tool_use_failure', script: PASS },
+    ])
+    await fire(PI_LIFECYCLE_EVENT.AGENT_END)
+    await fire(PI_LIFECYCLE_EVENT.TOOL_RESULT, { toolName: 'bash', isError: false })
+    await fire(PI_LIFECYCLE_EVENT.TOOL_RESULT, { toolName: 'bash', isError: true })
+    expect(messages.map((m) => (m as { details: { event: string } }).details.event)).toEqual([
+      'stop',
+      'post_tool_use_failure',
+    ])
+  })
+})
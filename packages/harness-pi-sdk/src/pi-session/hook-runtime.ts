@@ -3,8 +3,8 @@
  *
  * Both the library loader (`bundle.ts`) and the standalone runner
  * (`pi-sdk/pi-sdk/runner.ts`) need to: load + validate a `bundle.json`, resolve
- * hook script paths, run hook scripts, and register the four `pi.on(...)`
- * lifecycle handlers that drive them. This module is the single implementation
+ * hook script paths, run hook scripts, and register the `pi.on(...)` lifecycle
+ * handlers that drive them. This module is the single implementation
  * of that machinery so a fix (e.g. to `runHookScript`'s `shell: true` escaping)
  * only has to be made once.
  */
@@ -20,21 +20,40 @@ import {
 
 export { PI_SDK_BUNDLE_SCHEMA_VERSION, PI_SDK_HARNESS_ID } from './manifest-loading.js'
 
-/** Hook-event names matched against bundle hook entries (`hook.event`). */
+/**
+ * Hook-event names matched against bundle hook entries (`hook.event`). Mirrors
+ * `ABSTRACT_TO_PI_EVENTS` in spaces-config; the abstract events with no Pi
+ * equivalent (permission_request, notification, subagent_*) are linted as W306
+ * at compose time rather than registered here.
+ */
 const HOOK_RUNTIME_EVENT = {
   PRE_TOOL_USE: 'pre_tool_use',
   POST_TOOL_USE: 'post_tool_use',
+  POST_TOOL_USE_FAILURE: 'post_tool_use_failure',
+  USER_PROMPT_SUBMIT: 'user_prompt_submit',
+  STOP: 'stop',
+  PRE_COMPACT: 'pre_compact',
   SESSION_START: 'session_start',
   SESSION_END: 'session_end',
 } as const
 
+/** Hook events whose blocking hooks can veto the Pi event (tool call, prompt, compaction). */
+const BLOCKING_HOOK_EVENTS: ReadonlySet<string> = new Set([
+  HOOK_RUNTIME_EVENT.PRE_TOOL_USE,
+  HOOK_RUNTIME_EVENT.USER_PROMPT_SUBMIT,
+  HOOK_RUNTIME_EVENT.PRE_COMPACT,
+])
+
 /** Pi lifecycle event names `pi.on(...)` handlers are registered against. */
 export const PI_LIFECYCLE_EVENT = {
   TOOL_CALL: 'tool_call',
   TOOL_RESULT: 'tool_result',
+  INPUT: 'input',
+  AGENT_END: 'agent_end',
   TURN_START: 'turn_start',
   TURN_END: 'turn_end',
   SESSION_START: 'session_start',
+  SESSION_BEFORE_COMPACT: 'session_before_compact',
   SESSION_SHUTDOWN: 'session_shutdown',
 } as const
 
@@ -121,6 +140,9 @@ export async function runHookScript(
     })
 
     if (proc.stdin) {
+      // A script that never reads stdin may exit before the payload is flushed;
+      // the resulting EPIPE is not a hook failure.
+      proc.stdin.on('error', () => {})
       proc.stdin.write(payload)
       proc.stdin.end()
     }
@@ -159,7 +181,7 @@ export interface BuildHookExtensionOptions {
 }
 
 /**
- * Build the Pi extension factory that wires bundle hooks to the four lifecycle
+ * Build the Pi extension factory that wires bundle hooks to the Pi lifecycle
  * events. The factory takes the (minimally-typed) Pi extension API and returns
  * void; callers that need a stricter `ExtensionFactory` shape can cast the
  * result, since the runtime contract is identical.
@@ -216,7 +238,7 @@ export function buildHookExtension(options: BuildHookExtensionOptions): (pi: Ext
             display: true,
             details: { event: hook.event, script: hook.script, exitCode: 1 },
           })
-          if (hook.blocking && !yolo && hookEvent === HOOK_RUNTIME_EVENT.PRE_TOOL_USE) {
+          if (hook.blocking && !yolo && BLOCKING_HOOK_EVENTS.has(hookEvent)) {
             return { blocked: true, reason: message }
           }
           continue
@@ -245,12 +267,15 @@ export function buildHookExtension(options: BuildHookExtensionOptions): (pi: Ext
         if (
           hook.blocking &&
           !yolo &&
-          hookEvent === HOOK_RUNTIME_EVENT.PRE_TOOL_USE &&
+          BLOCKING_HOOK_EVENTS.has(hookEvent) &&
           result.exitCode !== 0
         ) {
           return {
             blocked: true,
-            reason: `Hook ${hook.event} blocked tool ${toolName ?? ''}`,
+            reason:
+              hookEvent === HOOK_RUNTIME_EVENT.PRE_TOOL_USE
+                ? `Hook ${hook.event} blocked tool ${toolName ?? ''}`
+                : `Hook ${hook.event} blocked ${hookEvent}`,
           }
         }
       }
@@ -276,15 +301,42 @@ export function buildHookExtension(options: BuildHookExtensionOptions): (pi: Ext
     })
 
     pi.on(PI_LIFECYCLE_EVENT.TOOL_RESULT, async (event: Record<string, unknown>, ctx: unknown) => {
-      await runHooks(
-        HOOK_RUNTIME_EVENT.POST_TOOL_USE,
+      const toolName = event['toolName'] as string | undefined
+      await runHooks(HOOK_RUNTIME_EVENT.POST_TOOL_USE, event, ctx as HookRunContext, toolName)
+      if (event['isError'] === true) {
+        await runHooks(
+          HOOK_RUNTIME_EVENT.POST_TOOL_USE_FAILURE,
+          event,
+          ctx as HookRunContext,
+          toolName
+        )
+      }
+      return undefined
+    })
+
+    // A blocked prompt is consumed without reaching the agent loop.
+    pi.on(PI_LIFECYCLE_EVENT.INPUT, async (event: Record<string, unknown>, ctx: unknown) => {
+      const result = await runHooks(
+        HOOK_RUNTIME_EVENT.USER_PROMPT_SUBMIT,
         event,
-        ctx as HookRunContext,
-        event['toolName'] as string | undefined
+        ctx as HookRunContext
       )
+      return result?.blocked ? { action: 'handled' } : undefined
+    })
+
+    pi.on(PI_LIFECYCLE_EVENT.AGENT_END, async (event: Record<string, unknown>, ctx: unknown) => {
+      await runHooks(HOOK_RUNTIME_EVENT.STOP, event, ctx as HookRunContext)
       return undefined
     })
 
+    pi.on(
+      PI_LIFECYCLE_EVENT.SESSION_BEFORE_COMPACT,
+      async (event: Record<string, unknown>, ctx: unknown) => {
+        const result = await runHooks(HOOK_RUNTIME_EVENT.PRE_COMPACT, event, ctx as HookRunContext)
+        return result?.blocked ? { cancel: true } : undefined
+      }
+    )
+
     pi.on(
       PI_LIFECYCLE_EVENT.SESSION_START,
       async (event: Record<string, unknown>, ctx: unknown) => {
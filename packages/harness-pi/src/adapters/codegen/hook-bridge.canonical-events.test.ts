@@ -7,14 +7,18 @@
  * fixed (T-04983: claudeEventToCanonical inserts an underscore at each
  * lower→upper boundary then lowercases), so multi-word Claude events arrive
  * underscored and are covered by the abstract entries. `Stop` is single-word
- * with no case boundary, so it normalizes to plain `stop` and STILL needs its
- * own map entry. These tests pin that the canonical names emitted by the
+ * with no case boundary, so it normalizes to plain `stop`, which is itself the
+ * abstract name. These tests pin that the canonical names emitted by the
  * producer continue to register the correct Pi events after deleting the three
- * dead lowercased entries.
+ * dead lowercased entries, and that the rest of the abstract event set reaches
+ * its Pi equivalent (`stop` is Pi's `agent_end`, the end of one prompt's agent
+ * loop, not session shutdown).
  */
 
-import { describe, expect, test } from 'bun:test'
+import { afterEach, describe, expect, test } from 'bun:test'
+import { createRequire } from 'node:module'
 
+import { PI_YOLO_ENV } from '../constants.js'
 import { type HookDefinition, generateHookBridgeCode } from './hook-bridge.js'
 
 function piEventFor(event: string): string | undefined {
@@ -31,10 +35,14 @@ describe('PI_EVENT_MAP canonical event-name coverage (T-04645)', () => {
     ['session_start', 'session_start'], // SessionStart -> session_start
     ['pre_tool_use', 'tool_call'], // PreToolUse -> pre_tool_use
     ['post_tool_use', 'tool_result'], // PostToolUse -> post_tool_use
-    ['stop', 'session_shutdown'], // Stop -> stop (single word, kept entry)
+    ['stop', 'agent_end'], // Stop -> stop (single word)
     ['session_end', 'session_shutdown'], // abstract hooks.toml name
-    ['Stop', 'session_shutdown'], // PascalCase Stop (simple-array hooks.json)
+    ['Stop', 'agent_end'], // PascalCase Stop (simple-array hooks.json)
     ['SessionStart', 'session_start'],
+    ['user_prompt_submit', 'input'],
+    ['UserPromptSubmit', 'input'],
+    ['pre_compact', 'session_before_compact'],
+    ['post_tool_use_failure', 'tool_result'],
   ]
 
   for (const [event, expected] of cases) {
@@ -46,7 +54,7 @@ describe('PI_EVENT_MAP canonical event-name coverage (T-04645)', () => {
   test('hook registration still fires for a Stop hook (single-word canonical)', () => {
     const hooks: HookDefinition[] = [{ event: 'stop', script: 'shutdown.sh' }]
     const code = generateHookBridgeCode(hooks, ['space-a'])
-    expect(code).toContain("pi.on('session_shutdown', async")
+    expect(code).toContain("pi.on('agent_end', async")
   })
 
   test('hook registration still fires for a SessionStart hook (canonical underscored)', () => {
@@ -63,3 +71,78 @@ describe('PI_EVENT_MAP canonical event-name coverage (T-04645)', () => {
     expect(piEventFor('sessionstart')).toBe('sessionstart')
   })
 })
+
+describe('hook bridge blocking and failure-only semantics', () => {
+  test('blocking hooks veto tool calls, prompts and compaction with the Pi result shape', () => {
+    const code = generateHookBridgeCode(
+      [
+        { event: 'pre_tool_use', script: 'guard.sh', blocking: true },
+        { event: 'user_prompt_submit', script: 'prompt.sh', blocking: true },
+        { event: 'pre_compact', script: 'compact.sh', blocking: true },
+      ],
+      ['space-a']
+    )
+    expect(code).toContain('return { block: true, reason };')
+    expect(code).toContain("return { action: 'handled' };")
+    expect(code).toContain('return { cancel: true };')
+    // The generated bridge must stay loadable JavaScript.
+    expect(() => new Function('require', 'module', '__dirname', code)).not.toThrow()
+  })
+
+  test('non-blocking and unblockable hooks never return a veto', () => {
+    const code = generateHookBridgeCode(
+      [
+        { event: 'pre_tool_use', script: 'audit.sh' },
+        { event: 'stop', script: 'stop.sh', blocking: true },
+      ],
+      ['space-a']
+    )
+    expect(code).not.toContain('return { block: true')
+    expect(code).not.toContain('return { cancel: true')
+  })
+
+  afterEach(() => {
+    delete process.env[PI_YOLO_ENV]
+  })
+
+  /** Load the generated bridge and fire its tool_call handler once. */
+  async function fireToolCall(code: string): Promise<unknown> {
+    const handlers = new Map<string, (event: unknown, ctx: unknown) => Promise<unknown>>()
+    const nodeRequire = createRequire(import.meta.url)
+    // Keep the bridge's log writes out of the real home directory.
+    const bridgeRequire = (id: string) =>
+      id === 'node:fs' ? { mkdirSync() {}, appendFileSync() {} } : nodeRequire(id)
+    const bridgeModule: { exports?: (pi: unknown) => void } = {}
+    new Function('require', 'module', '__dirname', code)(bridgeRequire, bridgeModule, '/bundle')
+    bridgeModule.exports?.({
+      on: (event: string, handler: (event: unknown, ctx: unknown) => Promise<unknown>) =>
+        handlers.set(event, handler),
+      sendMessage() {},
+    })
+    return handlers.get('tool_call')?.({ toolName: 'bash', input: {} }, { isIdle: () => true })
+  }
+
+  test('blocking hooks only report under yolo, matching the Pi SDK runtime', async () => {
+    const code = generateHookBridgeCode(
+      [{ event: 'pre_tool_use', script: 'exit 3', blocking: true }],
+      ['space-a']
+    )
+
+    expect(await fireToolCall(code)).toMatchObject({ block: true })
+    process.env[PI_YOLO_ENV] = '1'
+    expect(await fireToolCall(code)).toBeUndefined()
+  })
+
+  test('post_tool_use_failure only runs for error results', () => {
+    const failure = generateHookBridgeCode(
+      [{ event: 'post_tool_use_failure', script: 'fail.sh' }],
+      ['space-a']
+    )
+    const success = generateHookBridgeCode(
+      [{ event: 'post_tool_use', script: 'ok.sh' }],
+      ['space-a']
+    )
+    expect(failure).toContain('if (event.isError !== true)')
+    expect(success).not.toContain('event.isError')
+  })
+})
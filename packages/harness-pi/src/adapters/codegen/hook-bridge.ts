@@ -8,9 +8,14 @@
 
 import { stat } from 'node:fs/promises'
 import { isAbsolute, join } from 'node:path'
-import { AspError } from 'spaces-config'
+import {
+  ABSTRACT_TO_CLAUDE_EVENTS,
+  ABSTRACT_TO_PI_EVENTS,
+  AspError,
+  PI_BLOCKING_HOOK_EVENTS,
+} from 'spaces-config'
 
-import { HOOK_LOG_RELATIVE_DIR } from '../constants.js'
+import { HOOK_LOG_RELATIVE_DIR, PI_YOLO_ENV } from '../constants.js'
 
 /**
  * Hook definition from hooks.toml or hooks.json.
@@ -22,7 +27,7 @@ export interface HookDefinition {
   script: string
   /** Tools to filter on (optional) */
   tools?: string[] | undefined
-  /** Whether hook should block (Pi: best-effort) */
+  /** Whether a non-zero exit blocks (Pi: tool calls, prompts and compaction only) */
   blocking?: boolean | undefined
   /** Harness-specific hook */
   harness?: string | undefined
@@ -30,31 +35,33 @@ export interface HookDefinition {
 
 /**
  * Maps both abstract event names (hooks.toml) and Claude event names
- * (hooks.json) to Pi event names.
+ * (hooks.json) to the abstract name, whose Pi event comes from
+ * `ABSTRACT_TO_PI_EVENTS` in spaces-config.
  *
  * Claude native hooks.json event names are normalized by the producer
  * (`claudeEventToCanonical` in spaces-config's readHooksWithPrecedence) which
  * inserts an underscore at each lower→upper boundary then lowercases:
- * `PreToolUse`→`pre_tool_use`, `PostToolUse`→`post_tool_use`,
- * `SessionStart`→`session_start` — all already covered by the abstract entries.
- * `Stop` is a single word with no case boundary, so it normalizes to plain
- * `stop`; the `stop` entry below is that genuine canonical name, not a buggy
- * lowercased variant.
+ * `PreToolUse`→`pre_tool_use`, `SessionStart`→`session_start`, and the
+ * single-word `Stop`→`stop` — all abstract names already. The PascalCase
+ * entries cover the simple-array hooks.json format, which passes event names
+ * through unnormalized.
  */
-const PI_EVENT_MAP: Record<string, string> = {
-  // Abstract event names (from hooks.toml)
-  pre_tool_use: 'tool_call',
-  post_tool_use: 'tool_result',
-  session_start: 'session_start',
-  session_end: 'session_shutdown',
-  // Claude event names (from hooks.json)
-  PreToolUse: 'tool_call',
-  PostToolUse: 'tool_result',
-  SessionStart: 'session_start',
-  Stop: 'session_shutdown',
-  // Canonical single-word event name: `Stop` normalizes to `stop` (no case
-  // boundary for the producer to underscore).
-  stop: 'session_shutdown',
+const ABSTRACT_EVENT_BY_NAME: Record<string, string> = Object.fromEntries(
+  Object.keys(ABSTRACT_TO_PI_EVENTS).flatMap((abstract) => [
+    [abstract, abstract],
+    [ABSTRACT_TO_CLAUDE_EVENTS[abstract] ?? abstract, abstract],
+  ])
+)
+
+/**
+ * What a blocking hook's non-zero exit returns from each blockable Pi event:
+ * block the tool call, swallow the prompt, or cancel the compaction. `reason`
+ * is a variable in the GENERATED code.
+ */
+const PI_BLOCK_RESULT: Record<string, string> = {
+  tool_call: '{ block: true, reason }',
+  input: "{ action: 'handled' }",
+  session_before_compact: '{ cancel: true }',
 }
 
 /**
@@ -138,8 +145,39 @@ export function generateHookBridgeCode(hooks: HookDefinition[], spaceIds: string
 
   const hookRegistrations = piHooks
     .map((hook) => {
-      // Map both abstract event names and Claude event names to Pi events
-      const piEvent = PI_EVENT_MAP[hook.event] || hook.event
+      // Map both abstract event names and Claude event names to Pi events;
+      // unmapped names pass through (and are reported as W306 by the adapter).
+      const abstractEvent = ABSTRACT_EVENT_BY_NAME[hook.event]
+      const piEvent = (abstractEvent && ABSTRACT_TO_PI_EVENTS[abstractEvent]) || hook.event
+      const blockResult =
+        hook.blocking && abstractEvent && PI_BLOCKING_HOOK_EVENTS.includes(abstractEvent)
+          ? PI_BLOCK_RESULT[piEvent]
+          : undefined
+      // post_tool_use_failure shares tool_result and only fires on an error result.
+      const errorOnlyFilter =
+        abstractEvent === 'post_tool_use_failure'
+          ? `
+    if (event.isError !== true) {
+      return;
+    }`
+          : ''
+      const blockOnFailure =
+        blockResult !== undefined
+          ? `
+      if (exitCode !== 0 && !YOLO) {
+        const reason = stderr.trim() || stdout.trim() || \`Hook \${hookEvent} exited with \${exitCode}\`;
+        log('INFO', \`Hook script "\${resolvedHookScript}" blocked \${hookEvent}\`);
+        return ${blockResult};
+      }`
+          : ''
+      const blockOnError =
+        blockResult !== undefined
+          ? `
+      if (!YOLO) {
+        const reason = \`Hook \${hookEvent} failed: \${err}\`;
+        return ${blockResult};
+      }`
+          : ''
       const toolsFilter = hook.tools ? JSON.stringify(hook.tools) : 'null'
       // Hook-supplied values are serialized as data, never spliced raw into a
       // JS code position (T-04644). The generated runtime consts below carry the
@@ -159,7 +197,7 @@ export function generateHookBridgeCode(hooks: HookDefinition[], spaceIds: string
     // For tool events, filter by tool name
     if (toolsFilter && event.toolName && !toolsFilter.includes(event.toolName)) {
       return;
-    }
+    }${errorOnlyFilter}
 
     const env = {
       ...process.env,
@@ -193,6 +231,8 @@ export function generateHookBridgeCode(hooks: HookDefinition[], spaceIds: string
         stderr += data.toString();
       });
       if (proc.stdin) {
+        // Scripts that never read stdin may exit before the payload flushes.
+        proc.stdin.on('error', () => {});
         proc.stdin.write(payload);
         proc.stdin.end();
       }
@@ -227,9 +267,9 @@ export function generateHookBridgeCode(hooks: HookDefinition[], spaceIds: string
         log('WARN', \`Hook script "\${resolvedHookScript}" exited with \${exitCode}\`);
       } else {
         log('DEBUG', \`Hook script "\${resolvedHookScript}" completed successfully\`);
-      }
+      }${blockOnFailure}
     } catch (err) {
-      log('ERROR', \`Hook script "\${resolvedHookScript}" failed: \${err}\`);
+      log('ERROR', \`Hook script "\${resolvedHookScript}" failed: \${err}\`);${blockOnError}
     }
   });`
     })
@@ -248,6 +288,8 @@ const fs = require('node:fs');
 const os = require('node:os');
 const path = require('node:path');
 
+// Yolo launches run blocking hooks for their output only, as the Pi SDK runtime does.
+const YOLO = process.env.${PI_YOLO_ENV} === '1';
 const LOG_DIR = path.join(os.homedir(), ${logDirSegments});
 const LOG_FILE = path.join(LOG_DIR, 'asp-hooks.log');
 
@@ -35,11 +35,6 @@ export const COMMON_PI_PATHS = [
   join(process.env['HOME'] || '~', '.local/bin/pi'),
 ]
 
-/**
- * Events that Pi can support blocking on (none currently - best-effort only).
- */
-export const PI_BLOCKING_EVENTS: string[] = []
-
 /**
  * Relative path (under `os.homedir()`) of the Pi auth file linked into a
  * composed target so Pi can authenticate.
@@ -52,6 +47,12 @@ export const PI_AUTH_RELATIVE_PATH = ['.pi', 'agent', 'auth.json'] as const
  */
 export const HOOK_LOG_RELATIVE_DIR = ['praesidium', 'var', 'logs'] as const
 
+/**
+ * Env var the Pi adapter sets to `1` on yolo launches; the generated hook
+ * bridge then runs blocking hooks without letting them veto anything.
+ */
+export const PI_YOLO_ENV = 'ASP_YOLO'
+
 /**
  * Default praesidium var directory (relative to `os.homedir()`) used as the
  * `aspHome` fallback when resolving HRC runtime session dirs.
@@ -12,6 +12,7 @@ import { chmod, mkdir, rm, writeFile } from 'node:fs/promises'
 import { tmpdir } from 'node:os'
 import { join } from 'node:path'
 import type { MaterializeSpaceInput, ResolvedSpaceManifest, SpaceKey } from 'spaces-config'
+import { PI_YOLO_ENV } from './constants.js'
 import {
   type HookDefinition,
   PiAdapter,
@@ -759,16 +760,25 @@ script = "scripts/validate.sh"
       )
     })
 
-    test('generates W301 warning for blocking hooks', async () => {
+    test('generates W301 warning for blocking hooks Pi cannot enforce', async () => {
       // Create hooks-scripts with blocking=true (Pi uses hooks-scripts/ to avoid conflict)
       await mkdir(join(artifact1Dir, 'hooks-scripts'), { recursive: true })
       await writeFile(
         join(artifact1Dir, 'hooks-scripts/hooks.toml'),
         `
+[[hook]]
+event = "post_tool_use"
+script = "scripts/validate.sh"
+blocking = true
+
 [[hook]]
 event = "pre_tool_use"
 script = "scripts/validate.sh"
 blocking = true
+
+[[hook]]
+event = "notification"
+script = "scripts/validate.sh"
 `
       )
       await mkdir(join(artifact1Dir, 'hooks-scripts/scripts'), { recursive: true })
@@ -795,9 +805,15 @@ blocking = true
 
       const result = await adapter.composeTarget(input, outputDir, {})
 
-      // Should have W301 warning
-      expect(result.warnings.some((w) => w.code === 'W301')).toBe(true)
-      expect(result.warnings.some((w) => w.message.includes('cannot block'))).toBe(true)
+      // W301 only for the event Pi cannot block; pre_tool_use blocks via tool_call
+      const w301 = result.warnings.filter((w) => w.code === 'W301')
+      expect(w301.map((w) => w.message)).toEqual([
+        "Hook 'post_tool_use' marked blocking=true but Pi cannot block this event",
+      ])
+      // W306 for the event Pi has no equivalent for
+      expect(result.warnings.filter((w) => w.code === 'W306').map((w) => w.details)).toEqual([
+        { event: 'notification', script: 'hooks-scripts/scripts/validate.sh' },
+      ])
     })
 
     test('generates W303 warning for extension collisions', async () => {
@@ -873,6 +889,38 @@ paths = ["/tmp"]
       expect(result.warnings.some((w) => w.message.includes('lint-only'))).toBe(true)
     })
 
+    test('generates W305 warning for MCP servers Pi cannot load', async () => {
+      await mkdir(join(artifact1Dir, 'mcp'), { recursive: true })
+      await writeFile(
+        join(artifact1Dir, 'mcp', 'mcp.json'),
+        JSON.stringify({
+          mcpServers: { team: { type: 'http', url: 'http://localhost:8931/mcp' } },
+        })
+      )
+
+      const input = {
+        targetName: 'test-target',
+        compose: ['space1' as any],
+        roots: ['space1@abc' as SpaceKey],
+        loadOrder: ['space1@abc' as SpaceKey],
+        artifacts: [
+          {
+            spaceKey: 'space1@abc' as SpaceKey,
+            spaceId: 'space1',
+            artifactPath: artifact1Dir,
+            pluginName: 'plugin1',
+          },
+        ],
+        settingsInputs: [],
+      }
+
+      const result = await adapter.composeTarget(input, outputDir, {})
+
+      const warning = result.warnings.find((w) => w.code === 'W305')
+      expect(warning?.message).toContain("http MCP server 'team'")
+      expect(warning?.message).toContain('Pi does not support MCP servers')
+    })
+
     test('cleans output directory when clean: true', async () => {
       // Create existing file
       await writeFile(join(outputDir, 'old-file.txt'), 'old')
@@ -1970,6 +2018,19 @@ describe('getRunEnv', () => {
     expect(env['PI_CODING_AGENT_DIR']).toBe('/bundle/root')
     expect(env['ASP_PRIMING_PROMPT']).toBe('go')
   })
+
+  test('flags yolo launches so the hook bridge does not block', () => {
+    const adapter = new PiAdapter()
+    const bundle = {
+      harnessId: 'pi' as const,
+      targetName: 'test',
+      rootDir: '/bundle/root',
+      pi: { extensionsDir: '/bundle/root/extensions' },
+    }
+
+    expect(adapter.getRunEnv(bundle, { yolo: true })[PI_YOLO_ENV]).toBe('1')
+    expect(adapter.getRunEnv(bundle, {})[PI_YOLO_ENV]).toBeUndefined()
+  })
 })
 
 describe('getDefaultRunOptions', () => {
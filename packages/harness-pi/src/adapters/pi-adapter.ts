@@ -46,8 +46,11 @@ import {
   PERMISSIONS_TOML_FILENAME,
   hasPermissions,
   linkInstructionsFile,
+  listUnblockablePiHooks,
+  listUnsupportedPiHooks,
   permissionsTomlExists,
   readHooksWithPrecedence,
+  readMcpConfig,
   readPermissionsToml,
   toPiPermissions,
 } from 'spaces-config'
@@ -64,7 +67,7 @@ import {
   DEFAULT_PI_MODEL,
   HRC_RUNTIME_SESSIONS_SUBPATH,
   PI_AUTH_RELATIVE_PATH,
-  PI_BLOCKING_EVENTS,
+  PI_YOLO_ENV,
   PRAESIDIUM_VAR_RELATIVE_DIR,
 } from './constants.js'
 import { detectPi } from './detect.js'
@@ -249,6 +252,14 @@ export class PiAdapter implements HarnessAdapter {
         files.push(PERMISSIONS_TOML_FILENAME)
       }
 
+      // Copy mcp/mcp.json if present so composition can warn that Pi won't load it
+      const srcMcp = join(input.snapshotPath, 'mcp', 'mcp.json')
+      if (await fileExists(srcMcp)) {
+        await mkdir(join(cacheDir, 'mcp'), { recursive: true })
+        await linkOrCopy(srcMcp, join(cacheDir, 'mcp', 'mcp.json'))
+        files.push('mcp/mcp.json')
+      }
+
       return {
         artifactPath: cacheDir,
         files,
@@ -383,6 +394,7 @@ export class PiAdapter implements HarnessAdapter {
     await this.linkPiAuth(outputDir)
     await this.writePiSettings(outputDir, options)
     await this.lintPermissions(input, warnings)
+    await this.lintMcpServers(input, warnings)
 
     const bundle: ComposedTargetBundle = {
       harnessId: 'pi',
@@ -523,7 +535,8 @@ export class PiAdapter implements HarnessAdapter {
 
   /**
    * Generate the hook-bridge (if any hooks) and the always-present HRC events
-   * bridge extension, warning (W301) on blocking hooks Pi cannot enforce.
+   * bridge extension, warning on blocking hooks Pi cannot enforce (W301) and on
+   * hooks whose event Pi lacks (W306).
    */
   private async writeBridges(
     input: ComposeTargetInput,
@@ -539,14 +552,19 @@ export class PiAdapter implements HarnessAdapter {
       const hookBridgeCode = generateHookBridgeCode(allHooks, spaceIds)
       await writeFile(hookBridgePath, hookBridgeCode)
 
-      // Check for W301: blocking hooks that Pi can't enforce
-      for (const hook of allHooks) {
-        if (hook.blocking && !PI_BLOCKING_EVENTS.includes(hook.event)) {
-          warnings.push({
-            code: WARNING_CODES.PI_HOOK_CANNOT_BLOCK,
-            message: `Hook '${hook.event}' marked blocking=true but Pi cannot block this event`,
-          })
-        }
+      // W301: blocking hooks that Pi runs but can't enforce; W306: hooks Pi never runs
+      for (const hook of listUnblockablePiHooks(allHooks)) {
+        warnings.push({
+          code: WARNING_CODES.PI_HOOK_CANNOT_BLOCK,
+          message: `Hook '${hook.event}' marked blocking=true but Pi cannot block this event`,
+        })
+      }
+      for (const hook of listUnsupportedPiHooks(allHooks)) {
+        warnings.push({
+          code: WARNING_CODES.PI_HOOK_UNSUPPORTED_EVENT,
+          message: `Hook '${hook.event}' (${hook.script}) has no Pi equivalent event; it will not run`,
+          details: { event: hook.event, script: hook.script },
+        })
       }
     }
 
@@ -618,6 +636,23 @@ export class PiAdapter implements HarnessAdapter {
     }
   }
 
+  /**
+   * Pi has no MCP client, so emit a W305 warning for every MCP server a space
+   * declares rather than dropping it silently.
+   */
+  private async lintMcpServers(input: ComposeTargetInput, warnings: LockWarning[]): Promise<void> {
+    for (const artifact of input.artifacts) {
+      const config = await readMcpConfig(artifact.artifactPath)
+      for (const [name, server] of Object.entries(config?.mcpServers ?? {})) {
+        warnings.push({
+          code: WARNING_CODES.PI_MCP_UNSUPPORTED,
+          message: `Space "${artifact.spaceId}" declares ${server.type ?? 'stdio'} MCP server '${name}' but Pi does not support MCP servers; it will not be available`,
+          details: { spaceId: artifact.spaceId, server: name, type: server.type },
+        })
+      }
+    }
+  }
+
   private collectLintOnlyFacets(piPerms: PiPermissions): string[] {
     const lintOnlyFacets: string[] = []
 
@@ -814,6 +849,7 @@ export class PiAdapter implements HarnessAdapter {
     return {
       PI_CODING_AGENT_DIR: bundle.rootDir,
       ...(options.prompt ? { ASP_PRIMING_PROMPT: options.prompt } : {}),
+      ...(options.yolo ? { [PI_YOLO_ENV]: '1' } : {}),
     }
   }
 
@@ -14,8 +14,14 @@
 import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
 import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
 import { join } from 'node:path'
-import { type ResolvedContext, resolveContextTemplateDetailed } from './context-resolver.js'
+import {
+  type ContextBudgetDecision,
+  type ResolvedContext,
+  type ResolvedSectionCache,
+  resolveContextTemplateDetailed,
+} from './context-resolver.js'
 import { type ContextTemplate, parseContextTemplate } from './context-template.js'
+import { clearSectionCache, listSectionCache } from './section-cache.js'
 
 const SECTION_SEPARATOR = '\n\n---\n\n'
 let agentRoot: string
@@ -116,6 +122,106 @@ content = "tail"
     expect(resolved.prompt?.content).toEndWith(`${SECTION_SEPARATOR}tail`)
   })
 
+  test('shrinks and drops lowest-priority sections to fit a zone max_tokens budget', async () => {
+    const template = parseContextTemplate(`
+schema_version = 2
+mode = "replace"
+
+[zones.prompt]
+max_tokens = 50
+
+[[prompt]]
+name = "core"
+type = "inline"
+content = "${'c'.repeat(120)}"
+priority = 10
+
+[[prompt]]
+name = "notes"
+type = "inline"
+content = "${'n'.repeat(100)}"
+min_chars = 40
+
+[[prompt]]
+name = "extra"
+type = "inline"
+content = "${'e'.repeat(60)}"
+`)
+
+    const resolved = await resolveContextTemplateDetailed(template, defaultContext())
+    const decisions: ContextBudgetDecision[] = resolved.diagnostics.budgetDecisions
+
+    expect(
+      decisions.map(({ name, action, fromChars, toChars }) => [name, action, fromChars, toChars])
+    ).toEqual([
+      ['extra', 'dropped', 60, 0],
+      ['notes', 'shrunk', 100, 73],
+    ])
+    expect(decisions[0]?.reason).toBe(
+      'prompt is ~74 tokens, over max_tokens 50; lowest remaining priority'
+    )
+    expect(resolved.prompt?.content).toBe(
+      `${'c'.repeat(120)}${SECTION_SEPARATOR}${'n'.repeat(62)}[truncated]`
+    )
+    expect(resolved.diagnostics.prompt).toMatchObject({ maxTokens: 50, estimatedTokens: 50 })
+    expect(resolved.promptSections.find((section) => section.name === 'extra')).toMatchObject({
+      included: false,
+      skippedReason: 'budget',
+      disposition: { kind: 'skipped', reason: 'budget' },
+    })
+    expect(resolved.promptSections.find((section) => section.name === 'notes')).toMatchObject({
+      included: true,
+      truncated: true,
+      chars: 73,
+    })
+  })
+
+  test('drops a section whose min_chars cannot fit and leaves unbudgeted zones alone', async () => {
+    const resolved = await resolveContextTemplateDetailed(
+      parseContextTemplate(`
+schema_version = 2
+mode = "replace"
+
+[zones.reminder]
+max_tokens = 10
+
+[[prompt]]
+name = "intro"
+type = "inline"
+content = "${'p'.repeat(200)}"
+
+[[reminder]]
+name = "status"
+type = "inline"
+content = "${'s'.repeat(30)}"
+priority = 1
+
+[[reminder]]
+name = "history"
+type = "inline"
+content = "${'h'.repeat(50)}"
+min_chars = 30
+`),
+      defaultContext()
+    )
+
+    expect(resolved.diagnostics.budgetDecisions).toEqual([
+      {
+        zone: 'reminder',
+        name: 'history',
+        action: 'dropped',
+        priority: 0,
+        fromChars: 50,
+        toChars: 0,
+        reason:
+          'reminder is ~22 tokens, over max_tokens 10; shrinking to min_chars 30 would not fit',
+      },
+    ])
+    expect(resolved.reminder).toBe('s'.repeat(30))
+    expect(resolved.prompt?.content).toBe('p'.repeat(200))
+    expect(resolved.diagnostics.prompt.maxTokens).toBeUndefined()
+  })
+
   test('throws when resolved content exceeds the global max_chars budget', async () => {
     await expect(
       resolve(
@@ -262,6 +368,96 @@ when = { envNotEquals = { name = "ASP_OVERLAY", value = "1" } }
     expect(resolved.prompt?.content).toBe(`absent body${SECTION_SEPARATOR}different body`)
   })
 
+  test('gates sections on all/any/not combinators and context match keys', async () => {
+    const template = parseContextTemplate(`
+schema_version = 2
+
+[[prompt]]
+name = "reviewer-or-review-lane"
+type = "inline"
+content = "review body"
+when = { any = [{ role = "reviewer" }, { lane = ["review", "triage"] }] }
+
+[[prompt]]
+name = "codex-outside-heartbeat"
+type = "inline"
+content = "codex body"
+when = { harness = "codex", not = { runMode = "heartbeat" } }
+
+[[prompt]]
+name = "anthropic-only"
+type = "inline"
+content = "anthropic body"
+when = { all = [{ projectId = "agent-spaces" }, { modelProvider = "anthropic" }] }
+
+[[prompt]]
+name = "not-task"
+type = "inline"
+content = "not-task body"
+when = { not = { runMode = "task" } }
+`)
+
+    const resolved = await resolveContextTemplateDetailed(
+      template,
+      defaultContext({ lane: 'triage', harness: 'codex', modelProvider: 'openai' })
+    )
+
+    expect(resolved.prompt?.content).toBe(`review body${SECTION_SEPARATOR}codex body`)
+    expect(resolved.promptSections.map((section) => [section.name, section.skippedDetail])).toEqual(
+      [
+        ['reviewer-or-review-lane', undefined],
+        ['codex-outside-heartbeat', undefined],
+        ['anthropic-only', 'all[1]: modelProvider is "openai", expected "anthropic"'],
+        ['not-task', 'not: runMode=task matched'],
+      ]
+    )
+
+    const skipped = await resolveContextTemplateDetailed(template, defaultContext())
+    expect(skipped.promptSections[0]).toMatchObject({
+      skippedReason: 'when',
+      skippedDetail:
+        'any: no branch matched (role is unset, expected "reviewer"; lane is unset, expected one of "review", "triage")',
+      disposition: { kind: 'skipped', reason: 'predicate' },
+    })
+  })
+
+  test('gates sections on when.existsGlob relative to the predicate cwd', async () => {
+    await mkdir(join(projectRoot, 'src', 'nested', 'deep'), { recursive: true })
+    await writeFile(join(projectRoot, 'src', 'nested', 'deep', 'schema.sql'), '')
+
+    const resolved = await resolveContextTemplateDetailed(
+      parseContextTemplate(`
+schema_version = 2
+
+[[prompt]]
+name = "sql"
+type = "inline"
+content = "sql body"
+when = { existsGlob = "src/**/*.sql" }
+
+[[prompt]]
+name = "top-level-sql"
+type = "inline"
+content = "top-level body"
+when = { existsGlob = "src/*.sql" }
+
+[[prompt]]
+name = "python"
+type = "inline"
+content = "python body"
+when = { existsGlob = "**/*.py" }
+`),
+      defaultContext({ predicateCwd: projectRoot })
+    )
+
+    expect(resolved.prompt?.content).toBe('sql body')
+    expect(resolved.promptSections.map((section) => section.skippedDetail)).toEqual([
+      undefined,
+      'existsGlob: nothing matches src/*.sql',
+      'existsGlob: nothing matches **/*.py',
+    ])
+  })
+
   test('resolves open-ended slot dot-paths for file refs and exec arrays', async () => {
     await writeFile(join(agentRoot, 'base-agent.md'), 'Agent base')
     await writeFile(join(projectRoot, 'base-project.md'), 'Project base')
@@ -672,6 +868,121 @@ command = "printf 'ok'"
     })
   })
 
+  test('reuses cached exec output until its ttl elapses or a key env var changes', async () => {
+    const template = parseContextTemplate(`
+schema_version = 2
+
+[[prompt]]
+name = "runs"
+type = "exec"
+command = "n=$(( $(cat count 2>/dev/null || echo 0) + 1 )); echo $n > count; echo run-$n"
+cache = { ttl = "10m", key = ["LANE"] }
+
+[[prompt]]
+name = "uncached"
+type = "inline"
+content = "live"
+`)
+    const sectionCacheDir = join(tempRoot, 'context-cache')
+    const run = async (at: string, lane: string) => {
+      const resolved = await resolveContextTemplateDetailed(
+        template,
+        defaultContext({
+          sectionCacheDir,
+          execCwd: projectRoot,
+          execEnv: { PATH: process.env['PATH'], LANE: lane },
+          now: new Date(at),
+        })
+      )
+      const [runs, uncached] = resolved.promptSections
+      const cache: ResolvedSectionCache | undefined = runs?.cache
+      expect(uncached?.cache).toBeUndefined()
+      return { content: runs?.content, status: cache?.status }
+    }
+
+    expect(await run('2026-01-01T00:00:00Z', 'main')).toEqual({ content: 'run-1', status: 'fresh' })
+    expect(await run('2026-01-01T00:09:00Z', 'main')).toEqual({
+      content: 'run-1',
+      status: 'cached',
+    })
+    expect(await run('2026-01-01T00:09:00Z', 'review')).toEqual({
+      content: 'run-2',
+      status: 'fresh',
+    })
+    expect(await run('2026-01-01T00:10:00Z', 'main')).toEqual({ content: 'run-3', status: 'fresh' })
+
+    expect(
+      (await listSectionCache(sectionCacheDir, new Date('2026-01-01T00:19:30Z'))).map(
+        ({ section, expired }) => [section, expired]
+      )
+    ).toEqual([
+      ['runs', true],
+      ['runs', false],
+    ])
+    expect(
+      await clearSectionCache(sectionCacheDir, {
+        expiredOnly: true,
+        now: new Date('2026-01-01T00:19:30Z'),
+      })
+    ).toHaveLength(1)
+    expect(await clearSectionCache(sectionCacheDir, { section: 'runs' })).toHaveLength(1)
+    expect(await listSectionCache(sectionCacheDir)).toEqual([])
+  }, 20_000)
+
+  test('keys cached exec output by project when the cwd is the shared agent root', async () => {
+    const template = parseContextTemplate(`
+schema_version = 2
+
+[[prompt]]
+name = "runs"
+type = "exec"
+command = "n=$(( $(cat count 2>/dev/null || echo 0) + 1 )); echo $n > count; echo run-$n"
+cache = { ttl = "10m" }
+`)
+    const sectionCacheDir = join(tempRoot, 'context-cache')
+    const otherProjectRoot = join(tempRoot, 'other-project')
+    const run = async (project: Record<string, unknown>) => {
+      const resolved = await resolveContextTemplateDetailed(
+        template,
+        defaultContext({ sectionCacheDir, now: new Date('2026-01-01T00:00:00Z'), ...project })
+      )
+      const [runs] = resolved.promptSections
+      return { content: runs?.content, status: runs?.cache?.status }
+    }
+
+    expect(await run({})).toEqual({ content: 'run-1', status: 'fresh' })
+    expect(await run({ projectRoot: otherProjectRoot, projectId: 'other' })).toEqual({
+      content: 'run-2',
+      status: 'fresh',
+    })
+    expect(await run({})).toEqual({ content: 'run-1', status: 'cached' })
+  }, 20_000)
+
+  test('resolves memory sections with per-entry contribution records', async () => {
+    await mkdir(join(agentsRoot, 'smokey', 'memory'), { recursive: true })
+    await writeFile(join(agentsRoot, 'smokey', 'memory', 'MEMORY.md'), 'first\n§\nsecond')
+
+    const resolved = await resolveContextTemplateDetailed(
+      parseContextTemplate(`
+schema_version = 2
+
+[[reminder]]
+name = "memory"
+type = "memory"
+entries = 1
+`),
+      defaultContext()
+    )
+
+    expect(resolved.reminder).toBe('second')
+    const [section] = resolved.reminderSections
+    expect(section?.source).toBe('memory: memory')
+    expect(section?.contributionRecords.map(({ disposition }) => disposition)).toEqual([
+      { kind: 'skipped', reason: 'budget' },
+      { kind: 'effective' },
+    ])
+  })
+
   test('wraps resolved section content with interpolated prefix and suffix before zone joining', async () => {
     const resolved = await resolveContextTemplateDetailed(
       templateWithWrap({
@@ -9,17 +9,26 @@ import type {
   AgentInspectionProvenance,
   AgentInspectionServiceProbeResponse,
 } from 'spaces-runtime-contracts'
-import type {
-  ContextSection,
-  ContextSectionType,
-  ContextTemplate,
-  ExecSectionDef,
-  FileSectionDef,
-  SectionWrap,
-  SystemPromptMode,
-  WhenPredicate,
+import {
+  type ContextSection,
+  type ContextSectionType,
+  type ContextTemplate,
+  type ExecSectionDef,
+  type FileSectionDef,
+  type SectionCache,
+  type SectionWrap,
+  type ServiceProbeSectionDef,
+  type SystemPromptMode,
+  WHEN_MATCH_KEYS,
+  type WhenMatchValue,
+  type WhenPredicate,
+  describeWhenPredicate,
 } from './context-template.js'
 import { readFileOrUndefined } from './file-reader.js'
+import { resolveGitSection } from './git-state-resolver.js'
+import { resolveMemorySection } from './memory-section-resolver.js'
+import { globPathExists } from './path-glob.js'
+import { readSectionCache, sectionCacheKey, writeSectionCache } from './section-cache.js'
 import { resolveServiceProbeSection } from './service-probe-resolver.js'
 import { interpolateVariables } from './template-vars.js'
 import { isRecord } from './type-guards.js'
@@ -43,6 +52,12 @@ export interface ContextResolverContext {
   agentName?: string | undefined
   taskId?: string | undefined
   lane?: string | undefined
+  /** Role named by the session's scope (`...:role:<role>`), for `when.role`. */
+  role?: string | undefined
+  /** Harness family (`claude-code`, `codex`, `pi`), for `when.harness`. */
+  harness?: string | undefined
+  /** Model provider (`anthropic`, `openai`), for `when.modelProvider`. */
+  modelProvider?: string | undefined
   runMode: string
   scaffoldPackets?:
     | Array<{
@@ -55,8 +70,8 @@ export interface ContextResolverContext {
   now?: Date | undefined
   env?: Record<string, string | undefined> | undefined
   /**
-   * Base directory `when.exists` predicates resolve relative paths against.
-   * Defaults to `process.cwd()`; inject it to make `when.exists` deterministic
+   * Base directory `when.exists` and `when.existsGlob` predicates resolve
+   * relative paths against. Defaults to `process.cwd()`; inject it to make them deterministic
    * instead of dependent on the caller's ambient working directory.
    */
   cwd?: string | undefined
@@ -70,6 +85,8 @@ export interface ContextResolverContext {
   execEnv?: Record<string, string | undefined> | undefined
   /** Inspection-only recorded service outcomes; presence disables live probes. */
   serviceProbeResponses?: AgentInspectionServiceProbeResponse[] | undefined
+  /** Where `cache`-enabled exec and service-probe sections keep output; unset disables caching. */
+  sectionCacheDir?: string | undefined
 }
 
 export interface ResolvedContext {
@@ -85,6 +102,21 @@ export interface ResolvedContext {
 export interface ResolvedZoneDiagnostics {
   sectionSizes: string[]
   totalChars: number
+  /** The zone's `max_tokens` budget, when the template sets one. */
+  maxTokens?: number | undefined
+  /** Estimated tokens of the final zone content, when the zone has a budget. */
+  estimatedTokens?: number | undefined
+}
+
+/** One section the token-budget allocator shrank or dropped to fit its zone. */
+export interface ContextBudgetDecision {
+  zone: ResolvedContextZoneName
+  name: string
+  action: 'shrunk' | 'dropped'
+  priority: number
+  fromChars: number
+  toChars: number
+  reason: string
 }
 
 export type ResolvedContextZoneName = 'prompt' | 'reminder'
@@ -102,8 +134,14 @@ export interface ResolvedContextSection {
   wrapped?: boolean | undefined
   when?: WhenPredicate | undefined
   maxChars?: number | undefined
+  /** Template file that declared the section, for composed templates. */
+  layer?: string | undefined
   content?: string | undefined
-  skippedReason?: 'when' | 'empty' | undefined
+  skippedReason?: 'when' | 'empty' | 'budget' | undefined
+  /** For `skippedReason: 'when'`, the first predicate clause that did not hold. */
+  skippedDetail?: string | undefined
+  /** For `cache`-enabled sections, whether the output was just run or reused. */
+  cache?: ResolvedSectionCache | undefined
   disposition: AgentInspectionDisposition
   provenance: AgentInspectionProvenance
   stage: 'context-resolution'
@@ -112,13 +150,24 @@ export interface ResolvedContextSection {
   contributionRecords: ResolvedContextContribution[]
 }
 
+export interface ResolvedSectionCache {
+  status: 'fresh' | 'cached'
+  key: string
+  createdAt: string
+  expiresAt: string
+}
+
 export interface ResolvedContextContribution {
   partId: string
   source: string
   disposition: AgentInspectionDisposition
   provenance: AgentInspectionProvenance
   stage: 'context-resolution'
-  operation: 'resolve-slot-file' | 'resolve-slot-exec'
+  operation:
+    | 'resolve-slot-file'
+    | 'resolve-slot-exec'
+    | 'resolve-memory-entry'
+    | 'resolve-git-state'
   order: number
 }
 
@@ -128,11 +177,15 @@ export interface ResolvedContextDiagnostics {
   totalChars: number
   maxChars?: number | undefined
   nearMaxChars: boolean
+  /** Budget allocator decisions across both zones, in the order they were made. */
+  budgetDecisions: ContextBudgetDecision[]
 }
 
 export interface ResolveContextTemplateOptions {
   includePrompt?: boolean | undefined
   includeReminder?: boolean | undefined
+  /** Token estimator for zone `max_tokens` budgets; defaults to one token per 4 chars. */
+  estimateTokens?: ((text: string) => number) | undefined
 }
 
 export interface ResolvedContextDetailed extends ResolvedContext {
@@ -146,6 +199,9 @@ interface ResolvedZone {
   sectionSizes: string[]
   totalChars: number
   sections: ResolvedContextSection[]
+  maxTokens?: number | undefined
+  estimatedTokens?: number | undefined
+  budgetDecisions: ContextBudgetDecision[]
 }
 
 const MAX_CHARS_WARNING_RATIO = 0.9
@@ -157,11 +213,18 @@ export async function resolveContextTemplateDetailed(
 ): Promise<ResolvedContextDetailed> {
   const includePrompt = options.includePrompt ?? true
   const includeReminder = options.includeReminder ?? true
+  const estimateTokens = options.estimateTokens ?? estimateTokensFromChars
   const prompt = includePrompt
-    ? await resolveZone(template.promptSections, context, 'prompt')
+    ? await resolveZone(template.promptSections, context, 'prompt', {
+        maxTokens: template.zones?.prompt?.maxTokens,
+        estimateTokens,
+      })
     : emptyZone()
   const reminder = includeReminder
-    ? await resolveZone(template.reminderSections, context, 'reminder')
+    ? await resolveZone(template.reminderSections, context, 'reminder', {
+        maxTokens: template.zones?.reminder?.maxTokens,
+        estimateTokens,
+      })
     : emptyZone()
 
   const totalChars = enforceGlobalMaxChars(template, [prompt, reminder])
@@ -176,20 +239,15 @@ export async function resolveContextTemplateDetailed(
           },
     reminder: reminder.content,
     diagnostics: {
-      prompt: {
-        sectionSizes: prompt.sectionSizes,
-        totalChars: prompt.totalChars,
-      },
-      reminder: {
-        sectionSizes: reminder.sectionSizes,
-        totalChars: reminder.totalChars,
-      },
+      prompt: zoneDiagnostics(prompt),
+      reminder: zoneDiagnostics(reminder),
       totalChars,
       ...(template.maxChars !== undefined ? { maxChars: template.maxChars } : {}),
       nearMaxChars:
         template.maxChars !== undefined &&
         template.maxChars > 0 &&
         totalChars / template.maxChars >= MAX_CHARS_WARNING_RATIO,
+      budgetDecisions: [...prompt.budgetDecisions, ...reminder.budgetDecisions],
     },
     promptSections: prompt.sections,
     reminderSections: reminder.sections,
@@ -214,12 +272,15 @@ async function resolveZoneSection(
 ): Promise<ResolvedSectionOutcome> {
   const base = sectionReportBase(section, context, zoneName, order)
 
-  if (!matchesWhenPredicate(section, context)) {
+  const whenMismatch =
+    section.when === undefined ? undefined : explainWhenMismatch(section.when, context)
+  if (whenMismatch !== undefined) {
     return {
       included: false,
       report: {
         ...base,
         skippedReason: 'when',
+        skippedDetail: whenMismatch,
         disposition: { kind: 'skipped', reason: 'predicate' },
       },
     }
@@ -247,6 +308,7 @@ async function resolveZoneSection(
         ...base,
         contributionRecords: resolution.contributionRecords,
         skippedReason: 'empty',
+        ...(resolution.cache !== undefined ? { cache: resolution.cache } : {}),
         disposition: { kind: 'skipped', reason: 'empty' },
       },
     }
@@ -280,6 +342,7 @@ async function resolveZoneSection(
       truncated: wasTruncated,
       wrapped: wrapResult.wrapped,
       content: truncated,
+      ...(resolution.cache !== undefined ? { cache: resolution.cache } : {}),
       disposition: { kind: 'effective' },
       contributionRecords: resolution.contributionRecords,
     },
@@ -288,44 +351,183 @@ async function resolveZoneSection(
 
 /**
  * Resolve every section in a zone (prompt or reminder), accumulating included
- * content, per-section size labels, and full inspection reports. Returns a zone
- * with `content: undefined` when no section produced content.
+ * content, per-section size labels, and full inspection reports. When the zone
+ * has a token budget, {@link allocateZoneBudget} trims it before joining.
+ * Returns a zone with `content: undefined` when no section produced content.
  */
 async function resolveZone(
   sections: ContextTemplate['promptSections'],
   context: ContextResolverContext,
-  zoneName: ResolvedContextZoneName
+  zoneName: ResolvedContextZoneName,
+  budget: ZoneBudgetOptions
 ): Promise<ResolvedZone> {
+  const outcomes: ResolvedSectionOutcome[] = []
+  for (const [order, section] of sections.entries()) {
+    outcomes.push(await resolveZoneSection(section, context, zoneName, order))
+  }
+
+  const budgetDecisions =
+    budget.maxTokens === undefined
+      ? []
+      : allocateZoneBudget(outcomes, sections, zoneName, budget.maxTokens, budget.estimateTokens)
+
   const resolvedSections: string[] = []
   const sectionSizes: string[] = []
-  const inspectedSections: ResolvedContextSection[] = []
-
-  for (const [order, section] of sections.entries()) {
-    const outcome = await resolveZoneSection(section, context, zoneName, order)
-    inspectedSections.push(outcome.report)
+  for (const [order, outcome] of outcomes.entries()) {
     if (!outcome.included) {
       continue
     }
 
     resolvedSections.push(outcome.content)
-    sectionSizes.push(`${zoneName}.${section.name}=${outcome.content.length}`)
+    sectionSizes.push(`${zoneName}.${sections[order]?.name}=${outcome.content.length}`)
   }
 
-  if (resolvedSections.length === 0) {
-    return {
-      content: undefined,
-      sectionSizes,
-      totalChars: 0,
-      sections: inspectedSections,
+  const content =
+    resolvedSections.length === 0 ? undefined : resolvedSections.join(SECTION_SEPARATOR)
+  return {
+    content,
+    sectionSizes,
+    totalChars: content?.length ?? 0,
+    sections: outcomes.map((outcome) => outcome.report),
+    budgetDecisions,
+    ...(budget.maxTokens !== undefined
+      ? { maxTokens: budget.maxTokens, estimatedTokens: budget.estimateTokens(content ?? '') }
+      : {}),
+  }
+}
+
+interface ZoneBudgetOptions {
+  maxTokens?: number | undefined
+  estimateTokens: (text: string) => number
+}
+
+function estimateTokensFromChars(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+/**
+ * Fit a zone's included sections under `maxTokens`. The lowest-priority
+ * section goes first (later sections first among equals): it shrinks to the
+ * longest prefix that fits, but never below its `minChars`; when even that
+ * would not fit it is dropped and the next candidate is considered. Mutates
+ * `outcomes` in place and returns one decision per section touched.
+ */
+function allocateZoneBudget(
+  outcomes: ResolvedSectionOutcome[],
+  sections: ContextSection[],
+  zoneName: ResolvedContextZoneName,
+  maxTokens: number,
+  estimateTokens: (text: string) => number
+): ContextBudgetDecision[] {
+  const measure = (overrides: ReadonlyMap<number, string | undefined> = new Map()): number =>
+    estimateTokens(
+      outcomes
+        .map((outcome, order) =>
+          overrides.has(order)
+            ? overrides.get(order)
+            : outcome.included
+              ? outcome.content
+              : undefined
+        )
+        .filter((content): content is string => content !== undefined)
+        .join(SECTION_SEPARATOR)
+    )
+
+  const candidates = outcomes
+    .map((outcome, order) => ({ outcome, order, priority: sections[order]?.priority ?? 0 }))
+    .filter((candidate) => candidate.outcome.included)
+    .sort((a, b) => a.priority - b.priority || b.order - a.order)
+
+  const decisions: ContextBudgetDecision[] = []
+  for (const { order, priority } of candidates) {
+    const estimated = measure()
+    if (estimated <= maxTokens) {
+      break
+    }
+    const outcome = outcomes[order]
+    const section = sections[order]
+    if (outcome === undefined || !outcome.included || section === undefined) {
+      continue
     }
+
+    const content = outcome.content
+    const floor = Math.max(section.minChars ?? 0, TRUNCATION_MARKER.length + 2)
+    const fits = (chars: number) =>
+      measure(new Map([[order, truncateSectionContent(content, chars)]])) <= maxTokens
+    const over = `${zoneName} is ~${estimated} tokens, over max_tokens ${maxTokens}`
+
+    let low = floor
+    let high = content.length - 1
+    let best: number | undefined
+    while (low <= high) {
+      const mid = Math.floor((low + high) / 2)
+      if (fits(mid)) {
+        best = mid
+        low = mid + 1
+      } else {
+        high = mid - 1
+      }
+    }
+
+    if (best !== undefined) {
+      const shrunk = truncateSectionContent(content, best)
+      outcomes[order] = {
+        included: true,
+        content: shrunk,
+        report: {
+          ...outcome.report,
+          chars: shrunk.length,
+          bytes: byteCount(shrunk),
+          truncated: true,
+          content: shrunk,
+        },
+      }
+      decisions.push({
+        zone: zoneName,
+        name: section.name,
+        action: 'shrunk',
+        priority,
+        fromChars: content.length,
+        toChars: shrunk.length,
+        reason: `${over}; lowest remaining priority`,
+      })
+      break
+    }
+
+    const { content: _dropped, ...report } = outcome.report
+    outcomes[order] = {
+      included: false,
+      report: {
+        ...report,
+        included: false,
+        chars: 0,
+        bytes: 0,
+        skippedReason: 'budget',
+        disposition: { kind: 'skipped', reason: 'budget' },
+      },
+    }
+    decisions.push({
+      zone: zoneName,
+      name: section.name,
+      action: 'dropped',
+      priority,
+      fromChars: content.length,
+      toChars: 0,
+      reason:
+        section.minChars !== undefined
+          ? `${over}; shrinking to min_chars ${section.minChars} would not fit`
+          : `${over}; lowest remaining priority`,
+    })
   }
+  return decisions
+}
 
-  const content = resolvedSections.join(SECTION_SEPARATOR)
+function zoneDiagnostics(zone: ResolvedZone): ResolvedZoneDiagnostics {
   return {
-    content,
-    sectionSizes,
-    totalChars: content.length,
-    sections: inspectedSections,
+    sectionSizes: zone.sectionSizes,
+    totalChars: zone.totalChars,
+    ...(zone.maxTokens !== undefined ? { maxTokens: zone.maxTokens } : {}),
+    ...(zone.estimatedTokens !== undefined ? { estimatedTokens: zone.estimatedTokens } : {}),
   }
 }
 
@@ -335,6 +537,7 @@ function emptyZone(): ResolvedZone {
     sectionSizes: [],
     totalChars: 0,
     sections: [],
+    budgetDecisions: [],
   }
 }
 
@@ -367,6 +570,7 @@ function sectionReportBase(
     contributionRecords: [],
     ...(section.when !== undefined ? { when: section.when } : {}),
     ...(section.maxChars !== undefined ? { maxChars: section.maxChars } : {}),
+    ...(section.layer !== undefined ? { layer: section.layer } : {}),
   }
 }
 
@@ -380,6 +584,10 @@ function describeSectionSource(section: ContextSection, context: ContextResolver
       return section.source === undefined ? `slot: ${section.name}` : `slot: ${section.source}`
     case 'service-probe':
       return `service-probe: ${section.services.map((s) => s.name).join(', ')}`
+    case 'memory':
+      return `memory: ${section.target}`
+    case 'git':
+      return `git: ${gitRoot(context)}`
     case 'file': {
       try {
         return `${section.path} -> ${resolveTemplateRef(section.path, context)}`
@@ -391,25 +599,26 @@ function describeSectionSource(section: ContextSection, context: ContextResolver
 }
 
 /**
- * Evaluate a section's optional `when` predicate. A section is included only if
- * ALL declared conditions hold (runMode match, path existence, and env
- * set/equals/not-equals checks). A section without a predicate always matches.
+ * Evaluate a `when` predicate. Every declared key must hold; `all` requires
+ * each nested predicate, `any` at least one, and `not` its predicate to fail.
+ * Returns `undefined` when the predicate matches, otherwise a short reason
+ * naming the first clause that did not hold.
  */
-function matchesWhenPredicate(section: ContextSection, context: ContextResolverContext): boolean {
-  const when = section.when
-  if (when === undefined) {
-    return true
+function explainWhenMismatch(
+  when: WhenPredicate,
+  context: ContextResolverContext
+): string | undefined {
+  if (when.runMode !== undefined && when.runMode !== context.runMode) {
+    return `runMode is ${JSON.stringify(context.runMode)}, expected ${JSON.stringify(when.runMode)}`
   }
 
-  if (when.runMode !== undefined && when.runMode !== context.runMode) {
-    return false
+  const predicateCwd = context.predicateCwd ?? context.cwd ?? process.cwd()
+  if (when.exists !== undefined && !existsSync(join(predicateCwd, when.exists))) {
+    return `exists: ${when.exists} not found`
   }
 
-  if (
-    when.exists !== undefined &&
-    !existsSync(join(context.predicateCwd ?? context.cwd ?? process.cwd(), when.exists))
-  ) {
-    return false
+  if (when.existsGlob !== undefined && !globPathExists(predicateCwd, when.existsGlob)) {
+    return `existsGlob: nothing matches ${when.existsGlob}`
   }
 
   const env = context.predicateEnv ?? context.env ?? process.env
@@ -417,30 +626,85 @@ function matchesWhenPredicate(section: ContextSection, context: ContextResolverC
   if (when.envSet !== undefined) {
     const value = env[when.envSet]
     if (typeof value !== 'string' || value.trim().length === 0) {
-      return false
+      return `envSet: ${when.envSet} is not set`
     }
   }
 
   if (when.envEquals !== undefined) {
     const value = env[when.envEquals.name]
     if (value !== when.envEquals.value) {
-      return false
+      return `envEquals: ${when.envEquals.name} is not ${JSON.stringify(when.envEquals.value)}`
     }
   }
 
   if (when.envNotEquals !== undefined) {
     const value = env[when.envNotEquals.name]
     if (value === when.envNotEquals.value) {
-      return false
+      return `envNotEquals: ${when.envNotEquals.name} is ${JSON.stringify(when.envNotEquals.value)}`
+    }
+  }
+
+  for (const key of WHEN_MATCH_KEYS) {
+    const expected = when[key]
+    if (expected !== undefined && !matchesWhenValue(expected, context[key])) {
+      const actual = context[key]
+      return `${key} is ${actual === undefined ? 'unset' : JSON.stringify(actual)}, expected ${describeWhenValue(expected)}`
+    }
+  }
+
+  for (const [index, predicate] of (when.all ?? []).entries()) {
+    const mismatch = explainWhenMismatch(predicate, context)
+    if (mismatch !== undefined) {
+      return `all[${index}]: ${mismatch}`
+    }
+  }
+
+  if (when.any !== undefined) {
+    const mismatches: string[] = []
+    for (const predicate of when.any) {
+      const mismatch = explainWhenMismatch(predicate, context)
+      if (mismatch === undefined) {
+        break
+      }
+      mismatches.push(mismatch)
+    }
+    if (mismatches.length === when.any.length) {
+      return `any: no branch matched (${mismatches.join('; ')})`
     }
   }
 
-  return true
+  if (when.not !== undefined && explainWhenMismatch(when.not, context) === undefined) {
+    return `not: ${describeWhenPredicate(when.not)} matched`
+  }
+
+  return undefined
+}
+
+function matchesWhenValue(expected: WhenMatchValue, actual: string | undefined): boolean {
+  if (actual === undefined) {
+    return false
+  }
+  return typeof expected === 'string' ? expected === actual : expected.includes(actual)
+}
+
+function describeWhenValue(expected: WhenMatchValue): string {
+  return typeof expected === 'string'
+    ? JSON.stringify(expected)
+    : `one of ${expected.map((value) => JSON.stringify(value)).join(', ')}`
 }
 
 type SectionResolution =
-  | { kind: 'content'; content: string; contributionRecords: ResolvedContextContribution[] }
-  | { kind: 'empty'; contributionRecords: ResolvedContextContribution[] }
+  | {
+      kind: 'content'
+      content: string
+      contributionRecords: ResolvedContextContribution[]
+      cache?: ResolvedSectionCache | undefined
+    }
+  | {
+      kind: 'empty'
+      contributionRecords: ResolvedContextContribution[]
+      cache?: ResolvedSectionCache | undefined
+    }
   | {
       kind: 'failed'
       source: AgentInspectionFailureSource
@@ -460,23 +724,153 @@ async function resolveSection(
       return asSectionResolution(content.length > 0 ? content : undefined)
     }
     case 'exec':
-      return resolveExecSection(section, context)
+      return resolveCachedSection(
+        section,
+        context,
+        { type: 'exec', command: section.command, cwd: execCwd(context) },
+        section.command,
+        () => resolveExecSection(section, context)
+      )
     case 'slot':
       return resolveSlotSection(section, context)
     case 'service-probe':
+      return resolveCachedSection(
+        section,
+        context,
+        {
+          type: 'service-probe',
+          services: section.services.map(({ name, endpoint }) => ({
+            name,
+            endpoint: interpolateVariables(endpoint, context),
+          })),
+          header: section.header,
+          cwd: execCwd(context),
+        },
+        section.services.map(({ name }) => name).join(', '),
+        () => resolveServiceProbe(section, context)
+      )
+    case 'memory':
+      try {
+        const memory = await resolveMemorySection(section, context)
+        return asSectionResolution(memory.content, memory.contributionRecords)
+      } catch (error) {
+        return {
+          kind: 'failed',
+          source: { kind: 'memory', target: section.target },
+          reason: boundedReason(`Memory section failed: ${errorMessage(error)}`),
+          contributionRecords: [],
+        }
+      }
+    case 'git': {
+      const root = gitRoot(context)
       try {
-        return asSectionResolution(await resolveServiceProbeSection(section, context))
+        const git = await resolveGitSection(section, context, root)
+        return asSectionResolution(git.content, git.contributionRecords)
       } catch (error) {
         return {
           kind: 'failed',
-          source: { kind: 'service-probe', services: section.services.map(({ name }) => name) },
-          reason: boundedReason(`Service probe execution failed: ${errorMessage(error)}`),
+          source: { kind: 'git', root },
+          reason: boundedReason(`Git section failed: ${errorMessage(error)}`),
           contributionRecords: [],
         }
       }
+    }
+  }
+}
+
+function gitRoot(context: ContextResolverContext): string {
+  return context.projectRoot ?? execCwd(context)
+}
+
+async function resolveServiceProbe(
+  section: ServiceProbeSectionDef,
+  context: ContextResolverContext
+): Promise<SectionResolution> {
+  try {
+    return asSectionResolution(await resolveServiceProbeSection(section, context))
+  } catch (error) {
+    return {
+      kind: 'failed',
+      source: { kind: 'service-probe', services: section.services.map(({ name }) => name) },
+      reason: boundedReason(`Service probe execution failed: ${errorMessage(error)}`),
+      contributionRecords: [],
+    }
   }
 }
 
+/**
+ * Serve a `cache`-enabled section from the section cache while its entry is
+ * unexpired, otherwise resolve it fresh and store the result. Failures are
+ * never cached, and a cache that cannot be written only costs the reuse.
+ * Recorded service-probe responses (inspection) always bypass the cache.
+ * Entries are keyed per project as well as by the section's own inputs.
+ */
+async function resolveCachedSection(
+  section: ContextSection & { cache?: SectionCache | undefined },
+  context: ContextResolverContext,
+  keyInput: Record<string, unknown>,
+  source: string,
+  resolveFresh: () => Promise<SectionResolution>
+): Promise<SectionResolution> {
+  const cacheDir = context.sectionCacheDir
+  if (
+    section.cache === undefined ||
+    cacheDir === undefined ||
+    (section.type === 'service-probe' && context.serviceProbeResponses !== undefined)
+  ) {
+    return resolveFresh()
+  }
+
+  const now = context.now ?? new Date()
+  const env = context.execEnv ?? process.env
+  // The cwd defaults to the agent root, which every project shares, so the
+  // project is part of the key or one project's output leaks into another's.
+  const key = sectionCacheKey({
+    ...keyInput,
+    projectId: context.projectId ?? null,
+    projectRoot: context.projectRoot ?? null,
+    env: Object.fromEntries((section.cache.key ?? []).map((name) => [name, env[name] ?? null])),
+  })
+  const hit = await readSectionCache(cacheDir, key, now)
+  if (hit !== undefined) {
+    const cache: ResolvedSectionCache = {
+      status: 'cached',
+      key,
+      createdAt: hit.createdAt,
+      expiresAt: hit.expiresAt,
+    }
+    return hit.content.length > 0
+      ? { kind: 'content', content: hit.content, contributionRecords: [], cache }
+      : { kind: 'empty', contributionRecords: [], cache }
+  }
+
+  const resolution = await resolveFresh()
+  if (resolution.kind === 'failed') {
+    return resolution
+  }
+  const entry = {
+    key,
+    section: section.name,
+    source,
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + section.cache.ttlMs).toISOString(),
+    content: sectionResolutionContent(resolution) ?? '',
+  }
+  try {
+    await writeSectionCache(cacheDir, entry)
+  } catch {
+    // Best-effort: the fresh output is still correct without a stored copy.
+  }
+  return {
+    ...resolution,
+    cache: { status: 'fresh', key, createdAt: entry.createdAt, expiresAt: entry.expiresAt },
+  }
+}
+
+function execCwd(context: ContextResolverContext): string {
+  return context.execCwd ?? context.agentRoot ?? context.agentsRoot
+}
+
 async function resolveFileSection(
   section: FileSectionDef,
   context: ContextResolverContext
@@ -516,7 +910,7 @@ async function resolveExecSection(
   context: ContextResolverContext
 ): Promise<SectionResolution> {
   const timeout = section.timeout ?? DEFAULT_EXEC_TIMEOUT_MS
-  const cwd = context.execCwd ?? context.agentRoot ?? context.agentsRoot
+  const cwd = execCwd(context)
 
   try {
     const { stdout } = await execFileAsync('bash', ['-c', section.command], {
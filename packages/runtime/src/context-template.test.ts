@@ -7,8 +7,11 @@
  * exists so future sessions can verify the requested v1/v2 behavior and errors.
  */
 
-import { describe, expect, test } from 'bun:test'
-import { parseContextTemplate } from './context-template.js'
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { describeWhenPredicate, parseContextTemplate } from './context-template.js'
 
 describe('parseContextTemplate', () => {
   test('parses v2 prompt and reminder sections into separate arrays', () => {
@@ -272,6 +275,117 @@ max_chars = 250
     ])
   })
 
+  test('parses section priority, min_chars and zone token budgets', () => {
+    const template = parseContextTemplate(`
+schema_version = 2
+
+[zones.prompt]
+max_tokens = 2000
+
+[[prompt]]
+name = "history"
+type = "inline"
+content = "x"
+priority = -5
+min_chars = 200
+max_chars = 1200
+`)
+
+    expect(template.zones).toEqual({ prompt: { maxTokens: 2000 } })
+    expect(template.promptSections[0]).toMatchObject({
+      priority: -5,
+      minChars: 200,
+      maxChars: 1200,
+    })
+
+    const parse = (toml: string) => parseContextTemplate(`schema_version = 2\n${toml}`)
+    expect(() => parse('[zones.tools]\nmax_tokens = 1')).toThrow('zones.tools is not supported')
+    expect(() => parse('[zones.prompt]\nmax_chars = 1')).toThrow(
+      'zones.prompt.max_chars is not supported'
+    )
+    expect(() =>
+      parse('[[prompt]]\nname = "a"\ntype = "inline"\ncontent = "x"\npriority = 1.5')
+    ).toThrow('prompt[1].priority must be an integer')
+    expect(() =>
+      parse('[[prompt]]\nname = "a"\ntype = "inline"\ncontent = "x"\nmin_chars = 9\nmax_chars = 5')
+    ).toThrow('min_chars 9 exceeds max_chars 5')
+  })
+
+  test('parses exec and service-probe cache settings', () => {
+    const template = parseContextTemplate(`
+schema_version = 2
+
+[[prompt]]
+name = "git-log"
+type = "exec"
+command = "git log --oneline -5"
+cache = { ttl = "10m", key = ["WRKQ_PROJECT"] }
+
+[[prompt]]
+name = "services"
+type = "service-probe"
+services = [{ name = "api", endpoint = "http://localhost:1" }]
+cache = { ttl = "1d" }
+`)
+
+    expect(template.promptSections.map((section) => 'cache' in section && section.cache)).toEqual([
+      { ttlMs: 600_000, key: ['WRKQ_PROJECT'] },
+      { ttlMs: 86_400_000 },
+    ])
+
+    const parse = (section: string) =>
+      parseContextTemplate(`schema_version = 2\n[[prompt]]\nname = "a"\n${section}`)
+    expect(() => parse('type = "inline"\ncontent = "x"\ncache = { ttl = "1m" }')).toThrow(
+      'cache is only supported on exec and service-probe sections'
+    )
+    expect(() => parse('type = "exec"\ncommand = "x"\ncache = { ttl = "soon" }')).toThrow(
+      'prompt[1].cache.ttl must be a duration'
+    )
+    expect(() =>
+      parse('type = "exec"\ncommand = "x"\ncache = { ttl = "1m", key = ["a b"] }')
+    ).toThrow('cache.key must be an array of environment variable names')
+  })
+
+  test('parses memory and git sections', () => {
+    const template = parseContextTemplate(`
+schema_version = 2
+
+[[reminder]]
+name = "notes"
+type = "memory"
+entries = 5
+match = "deploy"
+usage = true
+
+[[reminder]]
+name = "user"
+type = "memory"
+target = "user"
+
+[[reminder]]
+name = "repo"
+type = "git"
+show = ["branch", "dirty"]
+commits = 0
+max_files = 10
+`)
+
+    expect(template.reminderSections).toEqual([
+      { name: 'notes', type: 'memory', target: 'memory', entries: 5, match: 'deploy', usage: true },
+      { name: 'user', type: 'memory', target: 'user' },
+      { name: 'repo', type: 'git', show: ['branch', 'dirty'], commits: 0, maxFiles: 10 },
+    ])
+
+    const parse = (section: string) =>
+      parseContextTemplate(`schema_version = 2\n[[prompt]]\nname = "a"\n${section}`)
+    expect(() => parse('type = "memory"\ntarget = "diary"')).toThrow(
+      'prompt[1] (a).target must be one of "memory", "user", or "persona"'
+    )
+    expect(() => parse('type = "git"\nshow = ["stash"]')).toThrow(
+      'prompt[1] (a).show must be a non-empty array of "branch", "upstream", "dirty", "commits"'
+    )
+  })
+
   test('parses when predicates with runMode and exists', () => {
     const template = parseContextTemplate(`
 schema_version = 2
@@ -329,6 +443,57 @@ when = { envNotEquals = { name = "ASP_CODEX_APP_OVERLAY", value = "1" } }
     ])
   })
 
+  test('parses nested all/any/not combinators and context match keys', () => {
+    const template = parseContextTemplate(`
+schema_version = 2
+
+[[prompt]]
+name = "review-checklist"
+type = "file"
+path = "REVIEW.md"
+
+[prompt.when]
+harness = "codex"
+any = [{ role = "reviewer" }, { lane = ["review", "triage"] }]
+not = { runMode = "heartbeat" }
+all = [{ projectId = "agent-spaces", modelProvider = "openai" }, { existsGlob = "src/**/*.ts" }]
+`)
+
+    const when = template.promptSections[0]?.when
+    expect(when).toEqual({
+      harness: 'codex',
+      any: [{ role: 'reviewer' }, { lane: ['review', 'triage'] }],
+      not: { runMode: 'heartbeat' },
+      all: [{ projectId: 'agent-spaces', modelProvider: 'openai' }, { existsGlob: 'src/**/*.ts' }],
+    })
+    expect(when && describeWhenPredicate(when)).toBe(
+      'harness=codex, all(modelProvider=openai, projectId=agent-spaces; existsGlob=src/**/*.ts), any(role=reviewer; lane=review|triage), not(runMode=heartbeat)'
+    )
+  })
+
+  test('rejects malformed combinators and match values with the offending path', () => {
+    const parse = (when: string) =>
+      parseContextTemplate(`
+schema_version = 2
+
+[[prompt]]
+name = "motd"
+type = "inline"
+content = "x"
+when = ${when}
+`)
+
+    expect(() => parse('{ any = [] }')).toThrow('prompt[1].when.any must be a non-empty array')
+    expect(() => parse('{ not = { any = [{ lane = "x", bogus = 1 }] } }')).toThrow(
+      'prompt[1].when.not.any[0].bogus is not supported'
+    )
+    expect(() => parse('{ all = ["codex"] }')).toThrow('when.all[0] must be a TOML table')
+    expect(() => parse('{ role = [] }')).toThrow(
+      'when.role must be a non-empty string or array of strings'
+    )
+    expect(() => parse('{ harness = ["codex", ""] }')).toThrow('when.harness must be')
+  })
+
   test('parses section wrap prefix and suffix tables', () => {
     const template = parseContextTemplate(`
 schema_version = 2
@@ -391,3 +556,125 @@ ${wrapLine}
     ).toThrow(/wrap.*(prefix|suffix).*string|(prefix|suffix).*wrap.*string/i)
   })
 })
+
+describe('parseContextTemplate extends and includes', () => {
+  let agentsRoot: string
+  let agentRoot: string
+
+  beforeEach(async () => {
+    agentsRoot = await mkdtemp(join(tmpdir(), 'context-template-layers-'))
+    agentRoot = join(agentsRoot, 'smokey')
+    await mkdir(join(agentsRoot, 'templates'), { recursive: true })
+    await mkdir(agentRoot, { recursive: true })
+  })
+
+  afterEach(async () => {
+    await rm(agentsRoot, { recursive: true, force: true })
+  })
+
+  const inline = (zone: string, name: string, content = name) =>
+    `[[${zone}]]\nname = "${name}"\ntype = "inline"\ncontent = "${content}"\n`
+
+  function parseAgentTemplate(toml: string) {
+    return parseContextTemplate(toml, {
+      path: join(agentRoot, 'context-template.toml'),
+      agentRoot,
+      agentsRoot,
+    })
+  }
+
+  test('overrides, removes and inserts sections by name over base and included layers', async () => {
+    const basePath = join(agentsRoot, 'templates', 'base.toml')
+    const toolsPath = join(agentsRoot, 'templates', 'tools.toml')
+    await writeFile(
+      basePath,
+      `schema_version = 2\nmode = "append"\nmax_chars = 900\n${inline('prompt', 'soul')}${inline('prompt', 'motd')}${inline('prompt', 'legacy')}${inline('reminder', 'clock')}`
+    )
+    await writeFile(toolsPath, `schema_version = 2\n${inline('prompt', 'tools')}`)
+
+    const template = parseAgentTemplate(`
+schema_version = 2
+extends = "agents-root:///templates/base.toml"
+
+[[include]]
+ref = "agents-root:///templates/tools.toml"
+
+[[prompt]]
+name = "motd"
+type = "inline"
+content = "agent motd"
+
+[[prompt]]
+name = "legacy"
+remove = true
+
+[[prompt]]
+name = "focus"
+type = "inline"
+content = "focus"
+before = "motd"
+`)
+
+    const agentPath = join(agentRoot, 'context-template.toml')
+    expect(template.mode).toBe('append')
+    expect(template.maxChars).toBe(900)
+    expect(
+      template.promptSections.map((section) => [
+        section.name,
+        section.type === 'inline' ? section.content : '',
+        section.layer,
+      ])
+    ).toEqual([
+      ['soul', 'soul', basePath],
+      ['focus', 'focus', agentPath],
+      ['motd', 'agent motd', agentPath],
+      ['tools', 'tools', toolsPath],
+    ])
+    expect(template.reminderSections).toEqual([
+      { name: 'clock', type: 'inline', content: 'clock', layer: basePath },
+    ])
+  })
+
+  test('detects extends cycles', async () => {
+    await writeFile(
+      join(agentsRoot, 'templates', 'a.toml'),
+      'schema_version = 2\nextends = "b.toml"\n'
+    )
+    await writeFile(
+      join(agentsRoot, 'templates', 'b.toml'),
+      'schema_version = 2\nextends = "agents-root:///templates/a.toml"\n'
+    )
+
+    expect(() =>
+      parseAgentTemplate('schema_version = 2\nextends = "agents-root:///templates/a.toml"\n')
+    ).toThrow(/extends cycle: .*a\.toml -> .*b\.toml -> .*a\.toml/)
+  })
+
+  test('rejects refs that escape their root and edits with nothing to edit', async () => {
+    expect(() =>
+      parseAgentTemplate('schema_version = 2\nextends = "../../etc/base.toml"\n')
+    ).toThrow('Context template extends "../../etc/base.toml" is not allowed')
+    expect(() =>
+      parseAgentTemplate('schema_version = 2\nextends = "agents-root:///../outside.toml"\n')
+    ).toThrow('is not allowed')
+    expect(() =>
+      parseAgentTemplate('schema_version = 2\n[[include]]\nref = "/etc/base.toml"\n')
+    ).toThrow('Context template include[1] "/etc/base.toml" is not allowed')
+    expect(() =>
+      parseAgentTemplate('schema_version = 2\nextends = "agents-root:///templates/missing.toml"\n')
+    ).toThrow('not found')
+
+    await writeFile(join(agentsRoot, 'templates', 'base.toml'), 'schema_version = 2\n')
+    expect(() =>
+      parseAgentTemplate(
+        'schema_version = 2\nextends = "agents-root:///templates/base.toml"\n[[prompt]]\nname = "gone"\nremove = true\n'
+      )
+    ).toThrow('removes "gone", but no inherited section has that name')
+    expect(() =>
+      parseContextTemplate('schema_version = 2\n[[prompt]]\nname = "gone"\nremove = true\n')
+    ).toThrow('remove requires extends or [[include]]')
+    expect(() =>
+      parseContextTemplate('schema_version = 2\nextends = "agents-root:///templates/base.toml"\n')
+    ).toThrow('need the template file path')
+  })
+})
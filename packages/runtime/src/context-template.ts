@@ -1,23 +1,57 @@
+import { existsSync, readFileSync } from 'node:fs'
+import { dirname, resolve } from 'node:path'
 import { parse as parseToml } from '@iarna/toml'
+import { isRootRef, resolveContainedPath, resolveRootRelativeRef } from 'spaces-config'
+import type { MemoryTargetName } from './agent-memory/paths.js'
 import { isRecord } from './type-guards.js'
 
 export type SystemPromptMode = 'replace' | 'append'
 export type ContextTemplateSchemaVersion = 2
-export type ContextSectionType = 'file' | 'inline' | 'exec' | 'slot' | 'service-probe'
+export type ContextSectionType =
+  | 'file'
+  | 'inline'
+  | 'exec'
+  | 'slot'
+  | 'service-probe'
+  | 'memory'
+  | 'git'
 
 export interface EnvEqualsPredicate {
   name: string
   value: string
 }
 
+/** One accepted value, or a list of values any of which matches. */
+export type WhenMatchValue = string | string[]
+
+/**
+ * Section inclusion predicate. Every declared key must hold (implicit AND);
+ * `all`, `any` and `not` nest further predicates for explicit composition.
+ */
 export interface WhenPredicate {
   runMode?: string | undefined
   exists?: string | undefined
+  /** Relative glob (`*`, `?`, `**`) that must match at least one existing path. */
+  existsGlob?: string | undefined
   envSet?: string | undefined
   envEquals?: EnvEqualsPredicate | undefined
   envNotEquals?: EnvEqualsPredicate | undefined
+  /** Harness family: `claude-code`, `codex`, or `pi`. */
+  harness?: WhenMatchValue | undefined
+  modelProvider?: WhenMatchValue | undefined
+  /** Role named by the session's scope, e.g. `reviewer`. */
+  role?: WhenMatchValue | undefined
+  lane?: WhenMatchValue | undefined
+  projectId?: WhenMatchValue | undefined
+  all?: WhenPredicate[] | undefined
+  any?: WhenPredicate[] | undefined
+  not?: WhenPredicate | undefined
 }
 
+/** Match keys compared against a resolver context value of the same name. */
+export const WHEN_MATCH_KEYS = ['harness', 'modelProvider', 'role', 'lane', 'projectId'] as const
+export type WhenMatchKey = (typeof WHEN_MATCH_KEYS)[number]
+
 export interface SectionWrap {
   prefix?: string | undefined
   suffix?: string | undefined
@@ -29,6 +63,12 @@ export interface ContextSectionBase {
   when?: WhenPredicate | undefined
   maxChars?: number | undefined
   wrap?: SectionWrap | undefined
+  /** Higher keeps the section longer when a zone exceeds its token budget; defaults to 0. */
+  priority?: number | undefined
+  /** Shortest the budget allocator may shrink the section to before dropping it. */
+  minChars?: number | undefined
+  /** Template file that declared the section; set when the template uses `extends` or `[[include]]`. */
+  layer?: string | undefined
 }
 
 export interface FileSectionDef extends ContextSectionBase {
@@ -46,6 +86,17 @@ export interface ExecSectionDef extends ContextSectionBase {
   type: 'exec'
   command: string
   timeout?: number | undefined
+  cache?: SectionCache | undefined
+}
+
+/**
+ * `cache = { ttl = "10m", key = ["WRKQ_PROJECT"] }` on exec and service-probe
+ * sections: reuse output for `ttlMs`, keyed by the command or probe set, the
+ * working directory and the values of the `key` environment variables.
+ */
+export interface SectionCache {
+  ttlMs: number
+  key?: string[] | undefined
 }
 
 export interface SlotSectionDef extends ContextSectionBase {
@@ -63,6 +114,40 @@ export interface ServiceProbeSectionDef extends ContextSectionBase {
   services: ServiceProbeSpec[]
   header?: string | undefined
   timeout?: number | undefined
+  cache?: SectionCache | undefined
+}
+
+/** Renders one MemoryStore target without a shell. */
+export interface MemorySectionDef extends ContextSectionBase {
+  type: 'memory'
+  target: MemoryTargetName
+  /** Keep only the newest N entries (the store appends, so the last N). */
+  entries?: number | undefined
+  /** Keep only entries containing this substring. */
+  match?: string | undefined
+  /** Lead with a `[memory: used/cap chars, N entries]` line. */
+  usage?: boolean | undefined
+}
+
+export type GitSectionPart = 'branch' | 'upstream' | 'dirty' | 'commits'
+
+export const GIT_SECTION_PARTS: readonly GitSectionPart[] = [
+  'branch',
+  'upstream',
+  'dirty',
+  'commits',
+]
+
+/** Renders the project root's git state by running `git` directly, not through a shell. */
+export interface GitSectionDef extends ContextSectionBase {
+  type: 'git'
+  /** Parts to render, in this order; defaults to {@link GIT_SECTION_PARTS}. */
+  show?: GitSectionPart[] | undefined
+  /** Recent commits to list; defaults to 5. */
+  commits?: number | undefined
+  /** Dirty files to list before summarizing the rest; defaults to 20. */
+  maxFiles?: number | undefined
+  timeout?: number | undefined
 }
 
 export type ContextSection =
@@ -71,6 +156,8 @@ export type ContextSection =
   | ExecSectionDef
   | SlotSectionDef
   | ServiceProbeSectionDef
+  | MemorySectionDef
+  | GitSectionDef
 
 export interface ContextTemplate {
   schemaVersion: ContextTemplateSchemaVersion
@@ -78,16 +165,73 @@ export interface ContextTemplate {
   promptSections: ContextSection[]
   reminderSections: ContextSection[]
   maxChars?: number | undefined
+  zones?: ContextZoneBudgets | undefined
+}
+
+export type ContextTemplateZone = 'prompt' | 'reminder'
+
+/** Per-zone settings from `[zones.prompt]` / `[zones.reminder]`. */
+export interface ContextZoneBudget {
+  /** Estimated-token ceiling; lowest-priority sections shrink or drop to fit. */
+  maxTokens?: number | undefined
 }
 
-const CONTEXT_SECTION_TYPES = ['file', 'inline', 'exec', 'slot', 'service-probe'] as const
+export type ContextZoneBudgets = Partial<Record<ContextTemplateZone, ContextZoneBudget>>
+
+const CONTEXT_SECTION_TYPES = [
+  'file',
+  'inline',
+  'exec',
+  'slot',
+  'service-probe',
+  'memory',
+  'git',
+] as const
+const MEMORY_SECTION_TARGETS = ['memory', 'user', 'persona'] as const
 const SYSTEM_PROMPT_MODES = ['replace', 'append'] as const
 
-export function parseContextTemplate(tomlContent: string): ContextTemplate {
+/**
+ * Locates a template on disk so its `extends` and `[[include]]` refs can be
+ * loaded. Refs are root-relative (`agents-root:///templates/base.toml`) or
+ * relative to the referencing template's directory; neither may escape its root.
+ */
+export interface ContextTemplateSource {
+  /** Absolute path of the template being parsed. */
+  path: string
+  agentRoot?: string | undefined
+  agentsRoot?: string | undefined
+  agentRootSearchPath?: string[] | undefined
+  projectRoot?: string | undefined
+}
+
+/**
+ * Section-level edit applied on top of inherited sections: a section replaces
+ * the inherited one of the same name in place (or moves before `before`), and
+ * `remove = true` drops it.
+ */
+type SectionLayerEntry =
+  | { kind: 'section'; section: ContextSection; before?: string | undefined; location: string }
+  | { kind: 'remove'; name: string; location: string }
+
+export function parseContextTemplate(
+  tomlContent: string,
+  source?: ContextTemplateSource
+): ContextTemplate {
+  return composeContextTemplate(tomlContent, source, [])
+}
+
+function composeContextTemplate(
+  tomlContent: string,
+  source: ContextTemplateSource | undefined,
+  chain: string[]
+): ContextTemplate {
   const parsed = parseTomlDocument(tomlContent)
   const schemaVersion = parseSchemaVersion(parsed['schema_version'])
   const mode = parseMode(parsed['mode'])
   const maxChars = parseOptionalPositiveInteger(parsed['max_chars'], 'Context template max_chars')
+  const extendsRef = parseOptionalString(parsed['extends'], 'Context template extends')
+  const includeRefs = parseIncludeRefs(parsed['include'])
+  const zones = parseZoneBudgets(parsed['zones'])
 
   if (parsed['section'] !== undefined) {
     throw new Error(
@@ -95,16 +239,221 @@ export function parseContextTemplate(tomlContent: string): ContextTemplate {
     )
   }
 
-  const promptSections = parseSections(parsed['prompt'], 'prompt')
-  const reminderSections = parseSections(parsed['reminder'], 'reminder')
+  const promptEntries = parseSectionLayerEntries(parsed['prompt'], 'prompt')
+  const reminderEntries = parseSectionLayerEntries(parsed['reminder'], 'reminder')
+
+  if (extendsRef === undefined && includeRefs.length === 0) {
+    return {
+      schemaVersion,
+      mode,
+      promptSections: standaloneSections(promptEntries),
+      reminderSections: standaloneSections(reminderEntries),
+      ...(maxChars !== undefined ? { maxChars } : {}),
+      ...(zones !== undefined ? { zones } : {}),
+    }
+  }
+
+  if (source === undefined) {
+    throw new Error(
+      'Context template extends and [[include]] need the template file path to resolve refs'
+    )
+  }
+
+  const layerChain = [...chain, resolve(source.path)]
+  const base =
+    extendsRef === undefined
+      ? undefined
+      : loadTemplateLayer(extendsRef, 'extends', source, layerChain)
+  let promptSections = base?.promptSections ?? []
+  let reminderSections = base?.reminderSections ?? []
+
+  // Includes contribute sections only; their mode and max_chars are ignored.
+  for (const [index, ref] of includeRefs.entries()) {
+    const included = loadTemplateLayer(ref, `include[${index + 1}]`, source, layerChain)
+    promptSections = mergeSections(promptSections, included.promptSections)
+    reminderSections = mergeSections(reminderSections, included.reminderSections)
+  }
 
+  const maxCharsOverride = maxChars ?? base?.maxChars
+  const zonesOverride =
+    zones === undefined && base?.zones === undefined
+      ? undefined
+      : {
+          ...base?.zones,
+          ...zones,
+        }
   return {
     schemaVersion,
-    mode,
-    promptSections,
-    reminderSections,
-    ...(maxChars !== undefined ? { maxChars } : {}),
+    mode: parsed['mode'] === undefined && base !== undefined ? base.mode : mode,
+    promptSections: applySectionLayer(promptSections, promptEntries, source.path),
+    reminderSections: applySectionLayer(reminderSections, reminderEntries, source.path),
+    ...(maxCharsOverride !== undefined ? { maxChars: maxCharsOverride } : {}),
+    ...(zonesOverride !== undefined ? { zones: zonesOverride } : {}),
+  }
+}
+
+function parseZoneBudgets(input: unknown): ContextZoneBudgets | undefined {
+  if (input === undefined) {
+    return undefined
   }
+
+  if (!isRecord(input)) {
+    throw new Error(`Context template zones must be a TOML table, received ${describeValue(input)}`)
+  }
+
+  const zones: ContextZoneBudgets = {}
+  for (const [zone, settings] of Object.entries(input)) {
+    const where = `Context template zones.${zone}`
+    if (zone !== 'prompt' && zone !== 'reminder') {
+      throw new Error(`${where} is not supported; only prompt and reminder are allowed`)
+    }
+    if (!isRecord(settings)) {
+      throw new Error(`${where} must be a TOML table, received ${describeValue(settings)}`)
+    }
+    for (const key of Object.keys(settings)) {
+      if (key !== 'max_tokens') {
+        throw new Error(`${where}.${key} is not supported; only max_tokens is allowed`)
+      }
+    }
+    const maxTokens = parseOptionalPositiveInteger(settings['max_tokens'], `${where}.max_tokens`)
+    zones[zone] = maxTokens !== undefined ? { maxTokens } : {}
+  }
+  return zones
+}
+
+function parseIncludeRefs(input: unknown): string[] {
+  if (input === undefined) {
+    return []
+  }
+
+  if (!Array.isArray(input)) {
+    throw new Error('Context template include must be an array of tables')
+  }
+
+  return input.map((entry, index) => {
+    const where = `Context template include[${index + 1}]`
+    if (!isRecord(entry)) {
+      throw new Error(`${where} must be a TOML table, received ${describeValue(entry)}`)
+    }
+    for (const key of Object.keys(entry)) {
+      if (key !== 'ref') {
+        throw new Error(`${where}.${key} is not supported; only ref is allowed`)
+      }
+    }
+    return parseRequiredString(entry['ref'], `${where}.ref`)
+  })
+}
+
+function loadTemplateLayer(
+  ref: string,
+  field: string,
+  source: ContextTemplateSource,
+  chain: string[]
+): ContextTemplate {
+  let path: string
+  try {
+    path = isRootRef(ref)
+      ? resolveRootRelativeRef(ref, source)
+      : resolveContainedPath(dirname(source.path), ref)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    throw new Error(`Context template ${field} ${JSON.stringify(ref)} is not allowed: ${message}`)
+  }
+
+  if (chain.includes(path)) {
+    throw new Error(`Context template ${field} cycle: ${[...chain, path].join(' -> ')}`)
+  }
+
+  if (!existsSync(path)) {
+    throw new Error(`Context template ${field} ${JSON.stringify(ref)} not found at ${path}`)
+  }
+
+  let layer: ContextTemplate
+  try {
+    layer = composeContextTemplate(readFileSync(path, 'utf8'), { ...source, path }, chain)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    throw new Error(`Invalid context template layer ${path}: ${message}`)
+  }
+
+  const stamp = (section: ContextSection): ContextSection =>
+    section.layer === undefined ? { ...section, layer: path } : section
+  return {
+    ...layer,
+    promptSections: layer.promptSections.map(stamp),
+    reminderSections: layer.reminderSections.map(stamp),
+  }
+}
+
+function mergeSections(current: ContextSection[], incoming: ContextSection[]): ContextSection[] {
+  const merged = [...current]
+  for (const section of incoming) {
+    const index = merged.findIndex((existing) => existing.name === section.name)
+    if (index === -1) {
+      merged.push(section)
+    } else {
+      merged[index] = section
+    }
+  }
+  return merged
+}
+
+function applySectionLayer(
+  inherited: ContextSection[],
+  entries: SectionLayerEntry[],
+  layer: string
+): ContextSection[] {
+  const sections = [...inherited]
+  for (const entry of entries) {
+    if (entry.kind === 'remove') {
+      const index = sections.findIndex((section) => section.name === entry.name)
+      if (index === -1) {
+        throw new Error(
+          `${entry.location} removes ${JSON.stringify(entry.name)}, but no inherited section has that name`
+        )
+      }
+      sections.splice(index, 1)
+      continue
+    }
+
+    const section = { ...entry.section, layer }
+    const index = sections.findIndex((existing) => existing.name === section.name)
+    if (entry.before === undefined) {
+      if (index === -1) {
+        sections.push(section)
+      } else {
+        sections[index] = section
+      }
+      continue
+    }
+
+    if (entry.before === section.name) {
+      throw new Error(`${entry.location}.before cannot name the section itself`)
+    }
+    if (index !== -1) {
+      sections.splice(index, 1)
+    }
+    const anchor = sections.findIndex((existing) => existing.name === entry.before)
+    if (anchor === -1) {
+      throw new Error(
+        `${entry.location}.before names ${JSON.stringify(entry.before)}, but no section before it has that name`
+      )
+    }
+    sections.splice(anchor, 0, section)
+  }
+  return sections
+}
+
+function standaloneSections(entries: SectionLayerEntry[]): ContextSection[] {
+  return entries.map((entry) => {
+    if (entry.kind === 'remove') {
+      throw new Error(`${entry.location}.remove requires extends or [[include]]`)
+    }
+    if (entry.before !== undefined) {
+      throw new Error(`${entry.location}.before requires extends or [[include]]`)
+    }
+    return entry.section
+  })
 }
 
 function parseTomlDocument(tomlContent: string): Record<string, unknown> {
@@ -148,7 +497,10 @@ function parseMode(input: unknown): SystemPromptMode {
   return input
 }
 
-function parseSections(input: unknown, tableName: 'prompt' | 'reminder'): ContextSection[] {
+function parseSectionLayerEntries(
+  input: unknown,
+  tableName: 'prompt' | 'reminder'
+): SectionLayerEntry[] {
   if (input === undefined) {
     return []
   }
@@ -157,7 +509,35 @@ function parseSections(input: unknown, tableName: 'prompt' | 'reminder'): Contex
     throw new Error(`Context template ${tableName} must be an array of tables`)
   }
 
-  return input.map((section, index) => parseSection(section, index, tableName))
+  return input.map((entry, index): SectionLayerEntry => {
+    const location = describeSection(index, tableName)
+    if (isRecord(entry) && entry['remove'] !== undefined) {
+      const name = parseRequiredString(entry['name'], `${location}.name`)
+      if (entry['remove'] !== true) {
+        throw new Error(
+          `${location}.remove must be true, received ${describeValue(entry['remove'])}`
+        )
+      }
+      for (const key of Object.keys(entry)) {
+        if (key !== 'name' && key !== 'remove') {
+          throw new Error(`${location} (${name}).${key} is not supported alongside remove`)
+        }
+      }
+      return { kind: 'remove', name, location: `${location} (${name})` }
+    }
+
+    const section = parseSection(entry, index, tableName)
+    const sectionLocation = `${location} (${section.name})`
+    const before = isRecord(entry)
+      ? parseOptionalString(entry['before'], `${sectionLocation}.before`)
+      : undefined
+    return {
+      kind: 'section',
+      section,
+      location: sectionLocation,
+      ...(before !== undefined ? { before } : {}),
+    }
+  })
 }
 
 function parseSection(
@@ -174,9 +554,28 @@ function parseSection(
   const type = parseSectionType(input['type'], `${location}.type`)
   const when = parseWhenPredicate(input['when'], `${location}.when`)
   const maxChars = parseOptionalPositiveInteger(input['max_chars'], `${location}.max_chars`)
+  const minChars = parseOptionalPositiveInteger(input['min_chars'], `${location}.min_chars`)
+  const priority = parseOptionalInteger(input['priority'], `${location}.priority`)
   const wrap = parseSectionWrap(input['wrap'], `${location}.wrap`)
+  const cache = parseSectionCache(input['cache'], `${location}.cache`)
   const sectionLocation = `${location} (${name})`
 
+  if (cache !== undefined && type !== 'exec' && type !== 'service-probe') {
+    throw new Error(`${sectionLocation}.cache is only supported on exec and service-probe sections`)
+  }
+
+  if (minChars !== undefined && maxChars !== undefined && minChars > maxChars) {
+    throw new Error(`${sectionLocation}.min_chars ${minChars} exceeds max_chars ${maxChars}`)
+  }
+
+  const shared = {
+    ...(when ? { when } : {}),
+    ...(maxChars !== undefined ? { maxChars } : {}),
+    ...(minChars !== undefined ? { minChars } : {}),
+    ...(priority !== undefined ? { priority } : {}),
+    ...(wrap !== undefined ? { wrap } : {}),
+  }
+
   switch (type) {
     case 'file': {
       const path = parseRequiredString(input['path'], `${sectionLocation}.path`)
@@ -186,10 +585,8 @@ function parseSection(
         name,
         type,
         path,
-        ...(when ? { when } : {}),
         ...(required !== undefined ? { required } : {}),
-        ...(maxChars !== undefined ? { maxChars } : {}),
-        ...(wrap !== undefined ? { wrap } : {}),
+        ...shared,
       }
     }
 
@@ -200,9 +597,7 @@ function parseSection(
         name,
         type,
         content,
-        ...(when ? { when } : {}),
-        ...(maxChars !== undefined ? { maxChars } : {}),
-        ...(wrap !== undefined ? { wrap } : {}),
+        ...shared,
       }
     }
 
@@ -214,10 +609,9 @@ function parseSection(
         name,
         type,
         command,
-        ...(when ? { when } : {}),
         ...(timeout !== undefined ? { timeout } : {}),
-        ...(maxChars !== undefined ? { maxChars } : {}),
-        ...(wrap !== undefined ? { wrap } : {}),
+        ...(cache !== undefined ? { cache } : {}),
+        ...shared,
       }
     }
 
@@ -228,9 +622,7 @@ function parseSection(
         name,
         type,
         source,
-        ...(when ? { when } : {}),
-        ...(maxChars !== undefined ? { maxChars } : {}),
-        ...(wrap !== undefined ? { wrap } : {}),
+        ...shared,
       }
     }
 
@@ -243,16 +635,88 @@ function parseSection(
         name,
         type,
         services,
-        ...(when ? { when } : {}),
         ...(header !== undefined ? { header } : {}),
         ...(timeout !== undefined ? { timeout } : {}),
-        ...(maxChars !== undefined ? { maxChars } : {}),
-        ...(wrap !== undefined ? { wrap } : {}),
+        ...(cache !== undefined ? { cache } : {}),
+        ...shared,
       }
     }
+
+    case 'memory':
+      return {
+        name,
+        type,
+        ...parseMemorySectionFields(input, sectionLocation),
+        ...shared,
+      }
+
+    case 'git':
+      return {
+        name,
+        type,
+        ...parseGitSectionFields(input, sectionLocation),
+        ...shared,
+      }
   }
 }
 
+function parseMemorySectionFields(
+  input: Record<string, unknown>,
+  location: string
+): Pick<MemorySectionDef, 'target' | 'entries' | 'match' | 'usage'> {
+  const target = input['target'] ?? 'memory'
+  if (!isOneOf(target, MEMORY_SECTION_TARGETS)) {
+    throw new Error(
+      `${location}.target must be one of "memory", "user", or "persona", received ${describeValue(target)}`
+    )
+  }
+  const entries = parseOptionalPositiveInteger(input['entries'], `${location}.entries`)
+  const match = parseOptionalString(input['match'], `${location}.match`)
+  const usage = parseOptionalBoolean(input['usage'], `${location}.usage`)
+
+  return {
+    target,
+    ...(entries !== undefined ? { entries } : {}),
+    ...(match !== undefined ? { match } : {}),
+    ...(usage !== undefined ? { usage } : {}),
+  }
+}
+
+function parseGitSectionFields(
+  input: Record<string, unknown>,
+  location: string
+): Pick<GitSectionDef, 'show' | 'commits' | 'maxFiles' | 'timeout'> {
+  const show = parseGitSectionParts(input['show'], `${location}.show`)
+  const commits = parseOptionalNonNegativeInteger(input['commits'], `${location}.commits`)
+  const maxFiles = parseOptionalPositiveInteger(input['max_files'], `${location}.max_files`)
+  const timeout = parseOptionalNumber(input['timeout'], `${location}.timeout`)
+
+  return {
+    ...(show !== undefined ? { show } : {}),
+    ...(commits !== undefined ? { commits } : {}),
+    ...(maxFiles !== undefined ? { maxFiles } : {}),
+    ...(timeout !== undefined ? { timeout } : {}),
+  }
+}
+
+function parseGitSectionParts(input: unknown, fieldName: string): GitSectionPart[] | undefined {
+  if (input === undefined) {
+    return undefined
+  }
+
+  if (
+    !Array.isArray(input) ||
+    input.length === 0 ||
+    !input.every((part) => isOneOf(part, GIT_SECTION_PARTS))
+  ) {
+    throw new Error(
+      `${fieldName} must be a non-empty array of ${GIT_SECTION_PARTS.map((part) => `"${part}"`).join(', ')}, received ${describeValue(input)}`
+    )
+  }
+
+  return [...new Set(input as GitSectionPart[])]
+}
+
 function parseServiceProbeServices(input: unknown, fieldName: string): ServiceProbeSpec[] {
   if (!Array.isArray(input)) {
     throw new Error(`${fieldName} must be an array of {name, endpoint} tables`)
@@ -272,7 +736,7 @@ function parseServiceProbeServices(input: unknown, fieldName: string): ServicePr
 function parseSectionType(input: unknown, fieldName: string): ContextSectionType {
   if (!isOneOf(input, CONTEXT_SECTION_TYPES)) {
     throw new Error(
-      `${fieldName} must be one of "file", "inline", "exec", "slot", or "service-probe", received ${describeValue(
+      `${fieldName} must be one of "file", "inline", "exec", "slot", "service-probe", "memory", or "git", received ${describeValue(
         input
       )}`
     )
@@ -281,7 +745,18 @@ function parseSectionType(input: unknown, fieldName: string): ContextSectionType
   return input
 }
 
-const SUPPORTED_WHEN_KEYS = ['runMode', 'exists', 'envSet', 'envEquals', 'envNotEquals'] as const
+const SUPPORTED_WHEN_KEYS = [
+  'runMode',
+  'exists',
+  'existsGlob',
+  'envSet',
+  'envEquals',
+  'envNotEquals',
+  ...WHEN_MATCH_KEYS,
+  'all',
+  'any',
+  'not',
+] as const
 
 function parseWhenPredicate(input: unknown, fieldName: string): WhenPredicate | undefined {
   if (input === undefined) {
@@ -303,31 +778,112 @@ function parseWhenPredicate(input: unknown, fieldName: string): WhenPredicate |
 
   const runMode = parseOptionalString(input['runMode'], `${fieldName}.runMode`)
   const exists = parseOptionalString(input['exists'], `${fieldName}.exists`)
+  const existsGlob = parseOptionalString(input['existsGlob'], `${fieldName}.existsGlob`)
   const envSet = parseOptionalString(input['envSet'], `${fieldName}.envSet`)
   const envEquals = parseEnvEqualsPredicate(input['envEquals'], `${fieldName}.envEquals`)
   const envNotEquals = parseEnvEqualsPredicate(input['envNotEquals'], `${fieldName}.envNotEquals`)
+  const all = parseWhenPredicateList(input['all'], `${fieldName}.all`)
+  const any = parseWhenPredicateList(input['any'], `${fieldName}.any`)
+  const not = parseWhenPredicate(input['not'], `${fieldName}.not`)
 
   if (envSet !== undefined && envSet.length === 0) {
     throw new Error(`${fieldName}.envSet must be a non-empty env var name`)
   }
 
-  if (
-    runMode === undefined &&
-    exists === undefined &&
-    envSet === undefined &&
-    envEquals === undefined &&
-    envNotEquals === undefined
-  ) {
-    return {}
+  if (existsGlob !== undefined && existsGlob.length === 0) {
+    throw new Error(`${fieldName}.existsGlob must be a non-empty glob`)
+  }
+
+  const matches: Partial<Record<WhenMatchKey, WhenMatchValue>> = {}
+  for (const key of WHEN_MATCH_KEYS) {
+    const value = parseWhenMatchValue(input[key], `${fieldName}.${key}`)
+    if (value !== undefined) {
+      matches[key] = value
+    }
   }
 
   return {
     ...(runMode !== undefined ? { runMode } : {}),
     ...(exists !== undefined ? { exists } : {}),
+    ...(existsGlob !== undefined ? { existsGlob } : {}),
     ...(envSet !== undefined ? { envSet } : {}),
     ...(envEquals !== undefined ? { envEquals } : {}),
     ...(envNotEquals !== undefined ? { envNotEquals } : {}),
+    ...matches,
+    ...(all !== undefined ? { all } : {}),
+    ...(any !== undefined ? { any } : {}),
+    ...(not !== undefined ? { not } : {}),
+  }
+}
+
+function parseWhenPredicateList(input: unknown, fieldName: string): WhenPredicate[] | undefined {
+  if (input === undefined) {
+    return undefined
+  }
+
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new Error(
+      `${fieldName} must be a non-empty array of predicate tables, received ${describeValue(input)}`
+    )
+  }
+
+  return input.map((entry, index) => {
+    const predicate = parseWhenPredicate(entry, `${fieldName}[${index}]`)
+    if (predicate === undefined) {
+      throw new Error(`${fieldName}[${index}] must be a TOML table`)
+    }
+    return predicate
+  })
+}
+
+function parseWhenMatchValue(input: unknown, fieldName: string): WhenMatchValue | undefined {
+  if (input === undefined) {
+    return undefined
   }
+
+  if (typeof input === 'string' && input.length > 0) {
+    return input
+  }
+
+  if (
+    Array.isArray(input) &&
+    input.length > 0 &&
+    input.every((value) => typeof value === 'string' && value.length > 0)
+  ) {
+    return input as string[]
+  }
+
+  throw new Error(
+    `${fieldName} must be a non-empty string or array of strings, received ${describeValue(input)}`
+  )
+}
+
+/**
+ * Render a predicate as a compact one-line summary, e.g.
+ * `runMode=task, any(role=reviewer; lane=review|triage), not(envSet=CI)`.
+ */
+export function describeWhenPredicate(when: WhenPredicate): string {
+  const parts: string[] = []
+  if (when.runMode !== undefined) parts.push(`runMode=${when.runMode}`)
+  if (when.exists !== undefined) parts.push(`exists=${when.exists}`)
+  if (when.existsGlob !== undefined) parts.push(`existsGlob=${when.existsGlob}`)
+  if (when.envSet !== undefined) parts.push(`envSet=${when.envSet}`)
+  if (when.envEquals !== undefined) {
+    parts.push(`env.${when.envEquals.name}==${JSON.stringify(when.envEquals.value)}`)
+  }
+  if (when.envNotEquals !== undefined) {
+    parts.push(`env.${when.envNotEquals.name}!=${JSON.stringify(when.envNotEquals.value)}`)
+  }
+  for (const key of WHEN_MATCH_KEYS) {
+    const value = when[key]
+    if (value !== undefined) {
+      parts.push(`${key}=${typeof value === 'string' ? value : value.join('|')}`)
+    }
+  }
+  if (when.all !== undefined) parts.push(`all(${when.all.map(describeWhenPredicate).join('; ')})`)
+  if (when.any !== undefined) parts.push(`any(${when.any.map(describeWhenPredicate).join('; ')})`)
+  if (when.not !== undefined) parts.push(`not(${describeWhenPredicate(when.not)})`)
+  return parts.join(', ')
 }
 
 function parseEnvEqualsPredicate(
@@ -359,6 +915,53 @@ function parseEnvEqualsPredicate(
   return { name, value }
 }
 
+const CACHE_TTL_UNIT_MS: Record<string, number> = {
+  s: 1_000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+}
+
+function parseSectionCache(input: unknown, fieldName: string): SectionCache | undefined {
+  if (input === undefined) {
+    return undefined
+  }
+
+  if (!isRecord(input)) {
+    throw new Error(`${fieldName} must be a TOML table, received ${describeValue(input)}`)
+  }
+
+  for (const key of Object.keys(input)) {
+    if (key !== 'ttl' && key !== 'key') {
+      throw new Error(`${fieldName}.${key} is not supported; only ttl and key are allowed`)
+    }
+  }
+
+  const ttl = parseRequiredString(input['ttl'], `${fieldName}.ttl`)
+  const match = /^(\d+)([smhd])$/.exec(ttl)
+  const amount = match?.[1] === undefined ? 0 : Number.parseInt(match[1], 10)
+  const unitMs = match?.[2] === undefined ? undefined : CACHE_TTL_UNIT_MS[match[2]]
+  if (unitMs === undefined || amount <= 0) {
+    throw new Error(`${fieldName}.ttl must be a duration like "30s", "10m", "2h" or "1d"`)
+  }
+
+  const key = input['key']
+  if (
+    key !== undefined &&
+    (!Array.isArray(key) ||
+      !key.every((name) => typeof name === 'string' && /^[A-Za-z_][A-Za-z0-9_]*$/.test(name)))
+  ) {
+    throw new Error(
+      `${fieldName}.key must be an array of environment variable names, received ${describeValue(key)}`
+    )
+  }
+
+  return {
+    ttlMs: amount * unitMs,
+    ...(key !== undefined ? { key: key as string[] } : {}),
+  }
+}
+
 function parseSectionWrap(input: unknown, fieldName: string): SectionWrap | undefined {
   if (input === undefined) {
     return undefined
@@ -428,6 +1031,18 @@ function parseOptionalNumber(input: unknown, fieldName: string): number | undefi
   return input
 }
 
+function parseOptionalInteger(input: unknown, fieldName: string): number | undefined {
+  if (input === undefined) {
+    return undefined
+  }
+
+  if (typeof input !== 'number' || !Number.isInteger(input)) {
+    throw new Error(`${fieldName} must be an integer, received ${describeValue(input)}`)
+  }
+
+  return input
+}
+
 function parseOptionalPositiveInteger(input: unknown, fieldName: string): number | undefined {
   if (input === undefined) {
     return undefined
@@ -440,6 +1055,18 @@ function parseOptionalPositiveInteger(input: unknown, fieldName: string): number
   return input
 }
 
+function parseOptionalNonNegativeInteger(input: unknown, fieldName: string): number | undefined {
+  if (input === undefined) {
+    return undefined
+  }
+
+  if (typeof input !== 'number' || !Number.isInteger(input) || input < 0) {
+    throw new Error(`${fieldName} must be a non-negative integer, received ${describeValue(input)}`)
+  }
+
+  return input
+}
+
 function describeSection(index: number, tableName: 'prompt' | 'reminder'): string {
   return `Context template ${tableName}[${index + 1}]`
 }
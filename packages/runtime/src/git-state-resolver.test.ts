@@ -0,0 +1,95 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { execFileSync } from 'node:child_process'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { ContextResolverContext } from './context-resolver.js'
+import type { GitSectionDef } from './context-template.js'
+import { resolveGitSection } from './git-state-resolver.js'
+
+let tempRoot: string
+let clone: string
+
+const context: ContextResolverContext = {
+  agentRoot: '/tmp/agent',
+  agentsRoot: '/tmp/agents',
+  runMode: 'task',
+}
+
+function git(cwd: string, ...args: string[]): void {
+  execFileSync(
+    'git',
+    [
+      '-c',
+      'user.name=Test',
+      '-c',
+      'user.email=test@example.com',
+      '-c',
+      'init.defaultBranch=main',
+      ...args,
+    ],
+    { cwd, stdio: 'ignore' }
+  )
+}
+
+function gitSection(overrides: Partial<GitSectionDef> = {}): GitSectionDef {
+  return { name: 'repo', type: 'git', ...overrides }
+}
+
+describe('resolveGitSection', () => {
+  beforeAll(async () => {
+    tempRoot = await mkdtemp(join(tmpdir(), 'git-section-'))
+    const origin = join(tempRoot, 'origin.git')
+    clone = join(tempRoot, 'clone')
+    git(tempRoot, 'init', '--bare', origin)
+    git(tempRoot, 'clone', origin, clone)
+    await writeFile(join(clone, 'a.txt'), 'one\n')
+    git(clone, 'add', 'a.txt')
+    git(clone, 'commit', '-m', 'first')
+    git(clone, 'push', 'origin', 'main')
+    git(clone, 'commit', '--allow-empty', '-m', 'second')
+    await writeFile(join(clone, 'a.txt'), 'two\n')
+    await writeFile(join(clone, 'new.txt'), 'new\n')
+  })
+
+  afterAll(async () => {
+    await rm(tempRoot, { recursive: true, force: true })
+  })
+
+  test('renders branch, divergence, dirty files and recent commits without a shell', async () => {
+    const resolved = await resolveGitSection(gitSection({ commits: 2 }), context, clone)
+    const lines = resolved.content?.split('\n') ?? []
+
+    expect(lines.slice(0, 5)).toEqual([
+      'Branch: main',
+      'Upstream: origin/main (ahead 1)',
+      'Dirty files (2):',
+      '   M a.txt',
+      '  ?? new.txt',
+    ])
+    expect(lines[5]).toBe('Recent commits:')
+    expect(lines.slice(6).map((line) => line.replace(/^ {2}[0-9a-f]+ /, ''))).toEqual([
+      'second',
+      'first',
+    ])
+    expect(
+      resolved.contributionRecords.map(({ source, disposition }) => [source, disposition.kind])
+    ).toEqual([
+      ['git:branch', 'effective'],
+      ['git:upstream', 'effective'],
+      ['git:dirty', 'effective'],
+      ['git:commits', 'effective'],
+    ])
+  })
+
+  test('honors show and max_files, and renders nothing outside a repository', async () => {
+    expect(
+      (await resolveGitSection(gitSection({ show: ['dirty'], maxFiles: 1 }), context, clone))
+        .content
+    ).toBe('Dirty files (2):\n   M a.txt\n  … 1 more')
+    expect(await resolveGitSection(gitSection(), context, tempRoot)).toEqual({
+      content: undefined,
+      contributionRecords: [],
+    })
+  })
+})
@@ -0,0 +1,200 @@
+import { execFile } from 'node:child_process'
+import { promisify } from 'node:util'
+import type { ContextResolverContext, ResolvedContextContribution } from './context-resolver.js'
+import { GIT_SECTION_PARTS, type GitSectionDef, type GitSectionPart } from './context-template.js'
+
+const execFileAsync = promisify(execFile)
+
+const DEFAULT_GIT_TIMEOUT_MS = 2_000
+const DEFAULT_COMMITS = 5
+const DEFAULT_MAX_FILES = 20
+const GIT_MAX_BUFFER_BYTES = 1024 * 1024
+
+export interface GitSectionResolution {
+  content: string | undefined
+  contributionRecords: ResolvedContextContribution[]
+}
+
+interface GitStatus {
+  oid: string | undefined
+  head: string | undefined
+  upstream: string | undefined
+  ahead: number
+  behind: number
+  files: string[]
+}
+
+/**
+ * Render branch, upstream divergence, dirty files and recent commits for
+ * `root` by running `git` directly (no shell). A root outside any repository
+ * renders nothing. Each requested part gets a contribution record, skipped as
+ * `empty` when it has nothing to say (e.g. no commits yet).
+ */
+export async function resolveGitSection(
+  section: GitSectionDef,
+  context: ContextResolverContext,
+  root: string
+): Promise<GitSectionResolution> {
+  const timeout = section.timeout ?? DEFAULT_GIT_TIMEOUT_MS
+  const env = { ...(context.execEnv ?? process.env), GIT_OPTIONAL_LOCKS: '0' }
+  const git = async (args: string[]) =>
+    (
+      await execFileAsync('git', args, {
+        cwd: root,
+        env,
+        timeout,
+        encoding: 'utf8',
+        maxBuffer: GIT_MAX_BUFFER_BYTES,
+        windowsHide: true,
+      })
+    ).stdout
+
+  let statusOutput: string
+  try {
+    statusOutput = await git(['status', '--porcelain=v2', '--branch'])
+  } catch (error) {
+    if (isNotARepository(error)) {
+      return { content: undefined, contributionRecords: [] }
+    }
+    throw error
+  }
+  const status = parseGitStatus(statusOutput)
+
+  const commitCount = section.commits ?? DEFAULT_COMMITS
+  const parts = section.show ?? GIT_SECTION_PARTS
+  const commits =
+    parts.includes('commits') && commitCount > 0 && status.oid !== undefined
+      ? (await git(['log', `-n${commitCount}`, '--no-color', '--format=%h %s']))
+          .split('\n')
+          .filter((line) => line.length > 0)
+      : []
+
+  const rendered = parts.map((part) => ({
+    part,
+    lines: renderGitPart(part, status, commits, section.maxFiles ?? DEFAULT_MAX_FILES),
+  }))
+  const contributionRecords = rendered.map(({ part, lines }, order) =>
+    gitContributionRecord(part, root, order, lines.length > 0)
+  )
+  const content = rendered.flatMap(({ lines }) => lines).join('\n')
+  return { content: content.length > 0 ? content : undefined, contributionRecords }
+}
+
+function renderGitPart(
+  part: GitSectionPart,
+  status: GitStatus,
+  commits: string[],
+  maxFiles: number
+): string[] {
+  switch (part) {
+    case 'branch':
+      if (status.head === undefined) {
+        return []
+      }
+      return [
+        status.head === '(detached)'
+          ? `Branch: (detached at ${status.oid?.slice(0, 7) ?? 'unknown'})`
+          : `Branch: ${status.head}`,
+      ]
+    case 'upstream': {
+      if (status.upstream === undefined) {
+        return status.head === undefined || status.head === '(detached)' ? [] : ['Upstream: none']
+      }
+      const divergence = [
+        ...(status.ahead > 0 ? [`ahead ${status.ahead}`] : []),
+        ...(status.behind > 0 ? [`behind ${status.behind}`] : []),
+      ]
+      return [
+        `Upstream: ${status.upstream} (${divergence.length > 0 ? divergence.join(', ') : 'up to date'})`,
+      ]
+    }
+    case 'dirty': {
+      if (status.files.length === 0) {
+        return ['Working tree: clean']
+      }
+      const listed = status.files.slice(0, maxFiles).map((file) => `  ${file}`)
+      const more = status.files.length - listed.length
+      return [
+        `Dirty files (${status.files.length}):`,
+        ...listed,
+        ...(more > 0 ? [`  … ${more} more`] : []),
+      ]
+    }
+    case 'commits':
+      return commits.length === 0
+        ? []
+        : ['Recent commits:', ...commits.map((commit) => `  ${commit}`)]
+  }
+}
+
+/** Parse `git status --porcelain=v2 --branch` into branch headers and `XY path` lines. */
+function parseGitStatus(output: string): GitStatus {
+  const status: GitStatus = {
+    oid: undefined,
+    head: undefined,
+    upstream: undefined,
+    ahead: 0,
+    behind: 0,
+    files: [],
+  }
+
+  for (const line of output.split('\n')) {
+    if (line.startsWith('# branch.oid ')) {
+      const oid = line.slice('# branch.oid '.length)
+      status.oid = oid === '(initial)' ? undefined : oid
+    } else if (line.startsWith('# branch.head ')) {
+      status.head = line.slice('# branch.head '.length)
+    } else if (line.startsWith('# branch.upstream ')) {
+      status.upstream = line.slice('# branch.upstream '.length)
+    } else if (line.startsWith('# branch.ab ')) {
+      const match = /^# branch\.ab \+(\d+) -(\d+)$/.exec(line)
+      status.ahead = Number(match?.[1] ?? 0)
+      status.behind = Number(match?.[2] ?? 0)
+    } else if (line.startsWith('? ')) {
+      status.files.push(`?? ${line.slice(2)}`)
+    } else if (/^[12u] /.test(line)) {
+      status.files.push(formatChangedEntry(line))
+    }
+  }
+  return status
+}
+
+function formatChangedEntry(line: string): string {
+  // Field counts before the path: ordinary `1` has 8, rename/copy `2` has 9
+  // (path is `new\told`), unmerged `u` has 10.
+  const fieldCount = line.startsWith('1 ') ? 8 : line.startsWith('2 ') ? 9 : 10
+  const fields = line.split(' ')
+  const xy = (fields[1] ?? '..').replaceAll('.', ' ')
+  const path = fields.slice(fieldCount).join(' ')
+  if (line.startsWith('2 ')) {
+    const [to, from] = path.split('\t')
+    return `${xy} ${from} -> ${to}`
+  }
+  return `${xy} ${path}`
+}
+
+function isNotARepository(error: unknown): boolean {
+  const stderr =
+    typeof error === 'object' && error !== null && 'stderr' in error ? String(error.stderr) : ''
+  return /not a git repository/i.test(stderr)
+}
+
+function gitContributionRecord(
+  part: GitSectionPart,
+  root: string,
+  order: number,
+  rendered: boolean
+): ResolvedContextContribution {
+  const partId = `git-contribution:${part}`
+  return {
+    partId,
+    source: `git:${part}`,
+    disposition: rendered ? { kind: 'effective' } : { kind: 'skipped', reason: 'empty' },
+    provenance: {
+      contributions: [{ kind: 'project', sourceId: partId, sourceRef: root }],
+    },
+    stage: 'context-resolution',
+    operation: 'resolve-git-state',
+    order,
+  }
+}
@@ -2,7 +2,9 @@ export * from './harness/index.js'
 export * from './session/index.js'
 export * from './agent-memory/index.js'
 export { normalizeAgentInspectionEvaluationContext } from './agent-inspection-context.js'
-export { parseContextTemplate } from './context-template.js'
+export { describeWhenPredicate, parseContextTemplate } from './context-template.js'
+export { clearSectionCache, listSectionCache } from './section-cache.js'
+export { buildPromptMatchContext, harnessFamilyForId } from './prompt-match-context.js'
 export {
   expandTemplate,
   resolveContextTemplateDetailed,
@@ -14,9 +16,11 @@ export {
 } from './system-prompt.js'
 export type { ContextTemplate, SectionWrap } from './context-template.js'
 export type {
+  ContextBudgetDecision,
   ContextResolverContext,
   ResolvedContextSection,
   ResolvedContextContribution,
+  ResolvedSectionCache,
   ResolvedContextZoneName,
   ResolvedContext,
   ResolvedContextDetailed,
@@ -38,4 +42,5 @@ export type {
   TemplateDiscoveryProfile,
 } from './system-prompt.js'
 export type { MaterializeResult } from './materialize-io.js'
+export type { PromptMatchContext, PromptMatchContextInput } from './prompt-match-context.js'
 export type { NormalizedAgentInspectionEvaluationContext } from './agent-inspection-context.js'
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { ENTRY_DELIMITER } from './agent-memory/scan.js'
+import type { ContextResolverContext } from './context-resolver.js'
+import type { MemorySectionDef } from './context-template.js'
+import { resolveMemorySection } from './memory-section-resolver.js'
+
+let agentsRoot: string
+let context: ContextResolverContext
+
+function memorySection(overrides: Partial<MemorySectionDef> = {}): MemorySectionDef {
+  return { name: 'memory', type: 'memory', target: 'memory', ...overrides }
+}
+
+describe('resolveMemorySection', () => {
+  beforeEach(async () => {
+    agentsRoot = await mkdtemp(join(tmpdir(), 'memory-section-'))
+    context = {
+      agentRoot: join(agentsRoot, 'rex'),
+      agentsRoot,
+      agentName: 'rex',
+      runMode: 'task',
+    }
+    await mkdir(join(agentsRoot, 'rex', 'memory'), { recursive: true })
+    await writeFile(
+      join(agentsRoot, 'rex', 'memory', 'MEMORY.md'),
+      ['deploys go through staging', 'repo uses bun', 'bun test needs --timeout'].join(
+        ENTRY_DELIMITER
+      )
+    )
+  })
+
+  afterEach(async () => {
+    await rm(agentsRoot, { recursive: true, force: true })
+  })
+
+  test('selects matching entries, keeps the newest, and records why others were left out', async () => {
+    const resolved = await resolveMemorySection(
+      memorySection({ match: 'bun', entries: 1, usage: true }),
+      context
+    )
+
+    expect(resolved.content).toBe(
+      '[memory: 69/2200 chars (3%), 3 entries]\nbun test needs --timeout'
+    )
+    expect(
+      resolved.contributionRecords.map(({ partId, disposition }) => [partId, disposition])
+    ).toEqual([
+      ['memory-contribution:memory/0', { kind: 'skipped', reason: 'predicate' }],
+      ['memory-contribution:memory/1', { kind: 'skipped', reason: 'budget' }],
+      ['memory-contribution:memory/2', { kind: 'effective' }],
+    ])
+    expect(resolved.contributionRecords[2]?.operation).toBe('resolve-memory-entry')
+  })
+
+  test('renders nothing for an empty target and fails without an agent name', async () => {
+    expect(await resolveMemorySection(memorySection({ target: 'user' }), context)).toEqual({
+      content: undefined,
+      contributionRecords: [],
+    })
+    await expect(
+      resolveMemorySection(memorySection(), { ...context, agentName: undefined })
+    ).rejects.toThrow('memory sections need the agent name')
+  })
+})
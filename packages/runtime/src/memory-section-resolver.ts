@@ -0,0 +1,88 @@
+import type { AgentInspectionDisposition } from 'spaces-runtime-contracts'
+import { ENTRY_DELIMITER } from './agent-memory/scan.js'
+import { MemoryStore } from './agent-memory/store.js'
+import type { ContextResolverContext, ResolvedContextContribution } from './context-resolver.js'
+import type { MemorySectionDef } from './context-template.js'
+
+const NEAR_CAP_RATIO = 0.9
+
+export interface MemorySectionResolution {
+  content: string | undefined
+  contributionRecords: ResolvedContextContribution[]
+}
+
+/**
+ * Render a MemoryStore target as a context section. Entries are filtered by
+ * `match`, then trimmed to the newest `entries`; every stored entry gets a
+ * contribution record saying whether it was included, filtered out
+ * (`predicate`) or cut by the entry limit (`budget`). `usage` leads with the
+ * target's size against its cap, flagged when within 10% of it.
+ */
+export async function resolveMemorySection(
+  section: MemorySectionDef,
+  context: ContextResolverContext
+): Promise<MemorySectionResolution> {
+  if (context.agentName === undefined) {
+    throw new Error('memory sections need the agent name in the resolver context')
+  }
+
+  const store = new MemoryStore({ agentName: context.agentName, agentsRoot: context.agentsRoot })
+  const [content, inspection] = await Promise.all([
+    store.read(section.target),
+    store.inspect(section.target),
+  ])
+  const entries = content.length === 0 ? [] : content.split(ENTRY_DELIMITER)
+
+  const matched = entries
+    .map((entry, index) => ({ entry, index }))
+    .filter(({ entry }) => section.match === undefined || entry.includes(section.match))
+  const selected = section.entries === undefined ? matched : matched.slice(-section.entries)
+  const selectedIndexes = new Set(selected.map(({ index }) => index))
+  const matchedIndexes = new Set(matched.map(({ index }) => index))
+
+  const contributionRecords = entries.map((_entry, index) =>
+    memoryContributionRecord(
+      section.target,
+      inspection.path,
+      index,
+      selectedIndexes.has(index)
+        ? { kind: 'effective' }
+        : { kind: 'skipped', reason: matchedIndexes.has(index) ? 'budget' : 'predicate' }
+    )
+  )
+
+  if (selected.length === 0) {
+    return { content: undefined, contributionRecords }
+  }
+
+  const body = selected.map(({ entry }) => entry).join(ENTRY_DELIMITER)
+  if (!section.usage) {
+    return { content: body, contributionRecords }
+  }
+
+  const percent = Math.round((inspection.chars / inspection.capChars) * 100)
+  const nearCap = inspection.chars >= inspection.capChars * NEAR_CAP_RATIO ? ', near cap' : ''
+  const usage = `[${section.target}: ${inspection.chars}/${inspection.capChars} chars (${percent}%${nearCap}), ${entries.length} entries]`
+  return { content: `${usage}\n${body}`, contributionRecords }
+}
+
+function memoryContributionRecord(
+  target: string,
+  path: string,
+  order: number,
+  disposition: AgentInspectionDisposition
+): ResolvedContextContribution {
+  const partId = `memory-contribution:${target}/${order}`
+  const sourceRef = `${path}#${order + 1}`
+  return {
+    partId,
+    source: sourceRef,
+    disposition,
+    provenance: {
+      contributions: [{ kind: 'agent', sourceId: partId, sourceRef }],
+    },
+    stage: 'context-resolution',
+    operation: 'resolve-memory-entry',
+    order,
+  }
+}
@@ -0,0 +1,71 @@
+import { type Dirent, readdirSync } from 'node:fs'
+import { join } from 'node:path'
+
+/**
+ * Report whether a relative glob matches at least one existing path under
+ * `baseDir`. Segments support `*` and `?` (never crossing `/`); a `**` segment
+ * matches zero or more directories. Walks lazily and stops at the first match.
+ */
+export function globPathExists(baseDir: string, pattern: string): boolean {
+  const segments = pattern.split('/').filter((segment) => segment.length > 0 && segment !== '.')
+  if (segments.length === 0) {
+    return false
+  }
+  return walk(baseDir, segments.map(compileSegment), new Set())
+}
+
+type Segment = '**' | RegExp
+
+function compileSegment(segment: string): Segment {
+  if (segment === '**') {
+    return '**'
+  }
+  let source = ''
+  for (const char of segment) {
+    if (char === '*') source += '[^/]*'
+    else if (char === '?') source += '[^/]'
+    else source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+  }
+  return new RegExp(`^${source}$`)
+}
+
+function walk(dir: string, segments: Segment[], visited: Set<string>): boolean {
+  const [head, ...rest] = segments
+  if (head === undefined) {
+    return true
+  }
+
+  const entries = readEntries(dir)
+  if (head === '**') {
+    // `**` spans zero directories (try the rest here) or one more (recurse).
+    const key = `${dir}\0${rest.length}`
+    if (visited.has(key)) {
+      return false
+    }
+    visited.add(key)
+    if (walk(dir, rest, visited)) {
+      return true
+    }
+    return entries.some(
+      (entry) => entry.isDirectory() && walk(join(dir, entry.name), segments, visited)
+    )
+  }
+
+  return entries.some((entry) => {
+    if (!head.test(entry.name)) {
+      return false
+    }
+    if (rest.length === 0) {
+      return true
+    }
+    return entry.isDirectory() && walk(join(dir, entry.name), rest, visited)
+  })
+}
+
+function readEntries(dir: string): Dirent[] {
+  try {
+    return readdirSync(dir, { withFileTypes: true })
+  } catch {
+    return []
+  }
+}
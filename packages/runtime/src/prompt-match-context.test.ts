@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'bun:test'
+
+import { buildPromptMatchContext, harnessFamilyForId } from './prompt-match-context.js'
+
+describe('buildPromptMatchContext', () => {
+  it('groups harness variants by family', () => {
+    expect(harnessFamilyForId('claude')).toBe('claude-code')
+    expect(harnessFamilyForId('claude-agent-sdk')).toBe('claude-code')
+    expect(harnessFamilyForId('codex')).toBe('codex')
+    expect(harnessFamilyForId('pi-sdk')).toBe('pi')
+  })
+
+  it('fills harness family and provider from any harness name', () => {
+    expect(buildPromptMatchContext({ harness: 'codex-cli', lane: 'review', role: 'qa' })).toEqual({
+      lane: 'review',
+      role: 'qa',
+      harness: 'codex',
+      modelProvider: 'openai',
+    })
+    expect(buildPromptMatchContext({ harness: 'agent-sdk' })).toEqual({
+      harness: 'claude-code',
+      modelProvider: 'anthropic',
+    })
+  })
+
+  it('prefers an explicit provider and leaves unknown harnesses unset', () => {
+    expect(buildPromptMatchContext({ harness: 'pi', modelProvider: 'anthropic' })).toEqual({
+      harness: 'pi',
+      modelProvider: 'anthropic',
+    })
+    expect(buildPromptMatchContext({ harness: 'mystery' })).toEqual({})
+  })
+})
@@ -0,0 +1,57 @@
+/**
+ * Session facts that context-template `when` predicates match on: the lane and
+ * scope role, the harness family, and the model provider.
+ *
+ * WHY: launches (CLI runtime prep, placement turns, `asp run`) and the paths
+ * that re-resolve a template later (`asp resolve-reminder`, `asp self prompt`)
+ * must fill these keys identically, or a section gated on `when.harness`
+ * renders at launch and silently disappears from the reminder.
+ */
+
+import { type HarnessId, resolveHarnessCatalogEntry } from 'spaces-config'
+import type { HarnessFamily } from 'spaces-runtime-contracts'
+
+import type { ContextResolverContext } from './context-resolver.js'
+
+const HARNESS_FAMILY_BY_ID: Record<HarnessId, HarnessFamily> = {
+  claude: 'claude-code',
+  'claude-agent-sdk': 'claude-code',
+  codex: 'codex',
+  pi: 'pi',
+  'pi-sdk': 'pi',
+}
+
+/** Harness family a harness variant belongs to, as matched by `when.harness`. */
+export function harnessFamilyForId(harnessId: HarnessId): HarnessFamily {
+  return HARNESS_FAMILY_BY_ID[harnessId]
+}
+
+export interface PromptMatchContextInput {
+  /** Harness id, alias or frontend the session runs on */
+  harness?: string | undefined
+  /** Model provider; defaults to the harness's provider */
+  modelProvider?: string | undefined
+  lane?: string | undefined
+  /** Role named by the session's scope */
+  role?: string | undefined
+}
+
+export type PromptMatchContext = Pick<
+  ContextResolverContext,
+  'lane' | 'role' | 'harness' | 'modelProvider'
+>
+
+/**
+ * Build the `when` match keys for a session. Unknown harness names leave
+ * `harness` unset rather than guessing a family.
+ */
+export function buildPromptMatchContext(input: PromptMatchContextInput): PromptMatchContext {
+  const entry = resolveHarnessCatalogEntry(input.harness)
+  const modelProvider = input.modelProvider ?? entry?.provider
+  return {
+    ...(input.lane !== undefined ? { lane: input.lane } : {}),
+    ...(input.role !== undefined ? { role: input.role } : {}),
+    ...(entry !== undefined ? { harness: harnessFamilyForId(entry.id) } : {}),
+    ...(modelProvider !== undefined ? { modelProvider } : {}),
+  }
+}
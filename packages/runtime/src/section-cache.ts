@@ -0,0 +1,142 @@
+import { createHash } from 'node:crypto'
+import { mkdir, readFile, readdir, rename, rm, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+
+import { isMissingFileError } from './file-reader.js'
+import { isRecord } from './type-guards.js'
+
+/**
+ * On-disk cache for `cache = { ttl, key }` exec and service-probe sections.
+ * One JSON file per content-addressed key under ASP_HOME/context-cache, so
+ * concurrent launches that resolve the same command share one entry.
+ */
+
+const ENTRY_SUFFIX = '.json'
+
+export interface SectionCacheEntry {
+  key: string
+  /** Section name that last wrote the entry. */
+  section: string
+  /** The exec command or probed services, for listings. */
+  source: string
+  createdAt: string
+  expiresAt: string
+  content: string
+}
+
+export interface ListedSectionCacheEntry extends SectionCacheEntry {
+  path: string
+  expired: boolean
+}
+
+export interface ClearSectionCacheOptions {
+  /** Only remove entries written by this section name. */
+  section?: string | undefined
+  /** Only remove entries whose TTL has elapsed. */
+  expiredOnly?: boolean | undefined
+  now?: Date | undefined
+}
+
+/**
+ * Content-address one section resolution: the same inputs always hash to the
+ * same key, and any change to them (including a `key` env var's value) misses.
+ */
+export function sectionCacheKey(input: Record<string, unknown>): string {
+  return createHash('sha256').update(JSON.stringify(input)).digest('hex')
+}
+
+/** Return the unexpired entry for `key`, or `undefined` on a miss or unreadable entry. */
+export async function readSectionCache(
+  cacheDir: string,
+  key: string,
+  now: Date
+): Promise<SectionCacheEntry | undefined> {
+  const entry = await readEntry(join(cacheDir, `${key}${ENTRY_SUFFIX}`))
+  if (entry === undefined || Date.parse(entry.expiresAt) <= now.getTime()) {
+    return undefined
+  }
+  return entry
+}
+
+export async function writeSectionCache(cacheDir: string, entry: SectionCacheEntry): Promise<void> {
+  await mkdir(cacheDir, { recursive: true })
+  // Write-then-rename so a concurrent reader never sees a partial entry.
+  const path = join(cacheDir, `${entry.key}${ENTRY_SUFFIX}`)
+  const tempPath = `${path}.${process.pid}.tmp`
+  await writeFile(tempPath, `${JSON.stringify(entry, null, 2)}\n`, 'utf8')
+  await rename(tempPath, path)
+}
+
+/** List cached section entries, oldest first. Unreadable files are skipped. */
+export async function listSectionCache(
+  cacheDir: string,
+  now: Date = new Date()
+): Promise<ListedSectionCacheEntry[]> {
+  const entries: ListedSectionCacheEntry[] = []
+  for (const name of await readCacheDir(cacheDir)) {
+    const path = join(cacheDir, name)
+    const entry = await readEntry(path)
+    if (entry !== undefined) {
+      entries.push({ ...entry, path, expired: Date.parse(entry.expiresAt) <= now.getTime() })
+    }
+  }
+  return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+}
+
+/** Remove cached section entries matching `options`; returns the removed entries. */
+export async function clearSectionCache(
+  cacheDir: string,
+  options: ClearSectionCacheOptions = {}
+): Promise<ListedSectionCacheEntry[]> {
+  const removed: ListedSectionCacheEntry[] = []
+  for (const entry of await listSectionCache(cacheDir, options.now)) {
+    if (options.section !== undefined && entry.section !== options.section) {
+      continue
+    }
+    if (options.expiredOnly && !entry.expired) {
+      continue
+    }
+    await rm(entry.path, { force: true })
+    removed.push(entry)
+  }
+  return removed
+}
+
+async function readCacheDir(cacheDir: string): Promise<string[]> {
+  try {
+    return (await readdir(cacheDir)).filter((name) => name.endsWith(ENTRY_SUFFIX)).sort()
+  } catch (error) {
+    if (isMissingFileError(error)) {
+      return []
+    }
+    throw error
+  }
+}
+
+async function readEntry(path: string): Promise<SectionCacheEntry | undefined> {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(await readFile(path, 'utf8'))
+  } catch {
+    return undefined
+  }
+  if (
+    !isRecord(parsed) ||
+    typeof parsed['key'] !== 'string' ||
+    typeof parsed['section'] !== 'string' ||
+    typeof parsed['source'] !== 'string' ||
+    typeof parsed['createdAt'] !== 'string' ||
+    typeof parsed['expiresAt'] !== 'string' ||
+    typeof parsed['content'] !== 'string'
+  ) {
+    return undefined
+  }
+  return {
+    key: parsed['key'],
+    section: parsed['section'],
+    source: parsed['source'],
+    createdAt: parsed['createdAt'],
+    expiresAt: parsed['expiresAt'],
+    content: parsed['content'],
+  }
+}
@@ -2,6 +2,7 @@ import { existsSync, readFileSync } from 'node:fs'
 import { basename, dirname, isAbsolute, join, resolve } from 'node:path'
 import { parse as parseToml } from '@iarna/toml'
 import {
+  PathResolver,
   type RunMode,
   type RunScaffoldPacket,
   getAgentRootSearchPathForProject,
@@ -20,6 +21,7 @@ import {
 import {
   type ContextSection,
   type ContextTemplate,
+  type ContextTemplateSource,
   parseContextTemplate,
 } from './context-template.js'
 import type { SystemPromptMode } from './context-template.js'
@@ -39,6 +41,10 @@ export interface MaterializeSystemPromptInput {
   agentId?: string | undefined
   taskId?: string | undefined
   lane?: string | undefined
+  /** Scope role, harness family and model provider matched by `when` predicates. */
+  role?: string | undefined
+  harness?: string | undefined
+  modelProvider?: string | undefined
   runMode: RunMode
   scaffoldPackets?: RunScaffoldPacket[] | undefined
   env?: Record<string, string | undefined> | undefined
@@ -143,6 +149,7 @@ export function discoverContextTemplate(
     agentsRoot,
     agentRootSearchPath,
     aspHome,
+    projectRoot: input.projectRoot,
     profileTemplateRef: profile.template,
   })
 
@@ -225,9 +232,13 @@ export async function inspectAgentSystemPrompt(
       projectId: input.projectId,
       taskId: input.taskId,
       lane: input.lane,
+      role: input.role,
+      harness: input.harness,
+      modelProvider: input.modelProvider,
       runMode: input.runMode,
       scaffoldPackets: input.scaffoldPackets,
       env: input.env,
+      sectionCacheDir: new PathResolver({ aspHome: input.aspHome }).contextCache,
       ...(templateSource
         ? { agentProfile: profile.rawProfile }
         : profile.base
@@ -279,6 +290,7 @@ function loadSystemPromptTemplate(input: {
   agentsRoot: string
   agentRootSearchPath: string[]
   aspHome: string
+  projectRoot?: string | undefined
   profileTemplateRef?: string | undefined
 }): { source: DiscoveredTemplateSource | undefined; records: AgentCompilationProvenanceRecord[] } {
   const searchPathTemplateRef = input.profileTemplateRef ?? 'context-template.toml'
@@ -312,7 +324,7 @@ function loadSystemPromptTemplate(input: {
   if (winner !== undefined) {
     const winnerPartId = 'template-candidate:0'
     return {
-      source: parseTemplateFile(winner.path),
+      source: parseTemplateFile(winner.path, input),
       records: existingCandidates.map((candidate, order) =>
         provenanceRecord({
           partId: `template-candidate:${order}`,
@@ -357,14 +369,23 @@ function buildProfileTemplateCandidates(input: {
   ]
 }
 
-function parseTemplateFile(filePath: string) {
+function parseTemplateFile(
+  filePath: string,
+  roots: Omit<ContextTemplateSource, 'path'>
+): DiscoveredTemplateSource {
   const fileContent = readFileSync(filePath, 'utf8')
 
   try {
     return {
       kind: 'context',
       path: filePath,
-      template: parseContextTemplate(fileContent),
+      template: parseContextTemplate(fileContent, {
+        path: filePath,
+        agentRoot: roots.agentRoot,
+        agentsRoot: roots.agentsRoot,
+        agentRootSearchPath: roots.agentRootSearchPath,
+        projectRoot: roots.projectRoot,
+      }),
     } satisfies DiscoveredTemplateSource
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error)
@@ -58,13 +58,15 @@ export type AgentInspectionFailureSource =
   | { kind: 'exec'; command: string }
   | { kind: 'slot'; source: string }
   | { kind: 'service-probe'; services: string[] }
+  | { kind: 'memory'; target: string }
+  | { kind: 'git'; root: string }
   | { kind: 'compiler'; stage: string }
 
 /**
  * Closed v1 disposition vocabulary.
  *
  * `effective`, `overridden`, `deduplicated`, `skipped`, and `failed` match the
- * consumer vocabulary. `skipped` is closed to predicate and empty reasons;
+ * consumer vocabulary. `skipped` is closed to predicate, empty and budget reasons;
  * `failed` retains its declared source and reason. Override and dedup arms are
  * emitted only where the compiler has real candidate-chain/root-dedup semantics.
  * V1 deliberately declines hollow `shadowed`, `suppressed`, or generic
@@ -74,7 +76,7 @@ export type AgentInspectionDisposition =
   | { kind: 'effective' }
   | { kind: 'overridden'; byPartId: AgentInspectionPartId }
   | { kind: 'deduplicated'; canonicalPartId: AgentInspectionPartId }
-  | { kind: 'skipped'; reason: 'predicate' | 'empty' }
+  | { kind: 'skipped'; reason: 'predicate' | 'empty' | 'budget' }
   | { kind: 'failed'; source: AgentInspectionFailureSource; reason: string }
 
 type AgentInspectionPartBase = {
@@ -88,7 +90,7 @@ export type AgentInspectionPromptPart = AgentInspectionPartBase & {
   value: {
     zone: 'prompt' | 'reminder'
     name: string
-    sourceType: 'file' | 'inline' | 'exec' | 'slot' | 'service-probe'
+    sourceType: 'file' | 'inline' | 'exec' | 'slot' | 'service-probe' | 'memory' | 'git'
     order: number
     content?: string | undefined
   }
@@ -419,7 +421,7 @@ function validateFailureSource(value: unknown, path: string, issues: ValidationI
   if (
     !oneOf(
       source['kind'],
-      ['file', 'inline', 'exec', 'slot', 'service-probe', 'compiler'],
+      ['file', 'inline', 'exec', 'slot', 'service-probe', 'memory', 'git', 'compiler'],
       `${path}.kind`,
       issues
     )
@@ -442,6 +444,12 @@ function validateFailureSource(value: unknown, path: string, issues: ValidationI
     case 'service-probe':
       stringArray(source['services'], `${path}.services`, issues)
       break
+    case 'memory':
+      string(source['target'], `${path}.target`, issues)
+      break
+    case 'git':
+      string(source['root'], `${path}.root`, issues)
+      break
     case 'compiler':
       string(source['stage'], `${path}.stage`, issues)
       break
@@ -469,7 +477,7 @@ function validateDisposition(value: unknown, path: string, issues: ValidationIss
       validatePartId(disposition['canonicalPartId'], `${path}.canonicalPartId`, issues)
       break
     case 'skipped':
-      oneOf(disposition['reason'], ['predicate', 'empty'], `${path}.reason`, issues)
+      oneOf(disposition['reason'], ['predicate', 'empty', 'budget'], `${path}.reason`, issues)
       break
     case 'failed':
       validateFailureSource(disposition['source'], `${path}.source`, issues)
@@ -511,7 +519,7 @@ function validatePartValue(
       string(partValue['name'], `${path}.name`, issues)
       oneOf(
         partValue['sourceType'],
-        ['file', 'inline', 'exec', 'slot', 'service-probe'],
+        ['file', 'inline', 'exec', 'slot', 'service-probe', 'memory', 'git'],
         `${path}.sourceType`,
         issues
       )
@@ -12,7 +12,7 @@ import {
   planPlacementRuntime,
 } from 'spaces-execution'
 import { PiSession, loadPiSdkBundle } from 'spaces-harness-pi-sdk/pi-session'
-import { materializeSystemPrompt } from 'spaces-runtime'
+import { buildPromptMatchContext, materializeSystemPrompt } from 'spaces-runtime'
 
 import type {
   HarnessContinuationRef,
@@ -27,6 +27,7 @@ import {
   composeAgentLocalEnv,
   deriveHandleParts,
   materializeSpec,
+  resolveAgentToolsServerEnv,
   resolveFrontend,
 } from 'agent-spaces/turn-support'
 import type { InFlightRunContext } from './run-tracker.js'
@@ -71,8 +72,8 @@ export async function runPlacementTurnNonInteractive(
   try {
     assertProviderMatch(frontendDef, req.continuation)
 
-    const placementContext = await resolvePlacementContext({ ...placement, dryRun: true })
     const aspHome = req.aspHome ?? defaultAspHome ?? getAspHome()
+    const placementContext = await resolvePlacementContext({ ...placement, aspHome, dryRun: true })
     runtimePlan = await planPlacementRuntime({
       placement,
       placementContext,
@@ -139,13 +140,13 @@ export async function runPlacementTurnNonInteractive(
 
   try {
     // Resolve placement to get audit metadata, effective cwd, and materialization inputs.
-    const placementContext = await resolvePlacementContext(placement)
+    const aspHome = req.aspHome ?? defaultAspHome ?? getAspHome()
+    const placementContext = await resolvePlacementContext({ ...placement, aspHome })
     const resolvedBundle = placementContext.resolvedBundle
     const cwd = resolvedBundle.cwd
 
     // Apply the env overlay once it contains the disjoint locked and dispatch
     // env channels plus frontend-specific session env.
-    const aspHome = req.aspHome ?? defaultAspHome ?? getAspHome()
     const placementAgentLocalComponents = await detectAgentLocalComponents(placement.agentRoot)
 
     // Compose the agent-local env channels. The placement turn path omits
@@ -181,10 +182,15 @@ export async function runPlacementTurnNonInteractive(
       }
       const effectiveModel = runtimePlan.model.info.effectiveModel
       const resolvedYolo = runtimePlan.yolo ?? false
+      const agentToolsEnv = await resolveAgentToolsServerEnv(
+        placement,
+        placementAgentLocalComponents
+      )
       const materialized = await materializeSpec(spec, aspHome, runtimePlan.harnessId, {
         agentRoot: placement.agentRoot,
         projectRoot: placement.projectRoot,
         agentLocalComponents: placementAgentLocalComponents,
+        ...(agentToolsEnv !== undefined ? { agentToolsEnv } : {}),
       })
 
       if (frontendDef.frontend === PI_SDK_FRONTEND) {
@@ -208,7 +214,12 @@ export async function runPlacementTurnNonInteractive(
             ...(handleParts.agentId !== undefined ? { agentId: handleParts.agentId } : {}),
             ...(handleParts.projectId !== undefined ? { projectId: handleParts.projectId } : {}),
             ...(handleParts.taskId !== undefined ? { taskId: handleParts.taskId } : {}),
-            ...(handleParts.lane !== undefined ? { lane: handleParts.lane } : {}),
+            ...buildPromptMatchContext({
+              harness: runtimePlan.harnessId,
+              modelProvider: runtimePlan.provider,
+              lane: handleParts.lane,
+              role: handleParts.role,
+            }),
           }
         )
 